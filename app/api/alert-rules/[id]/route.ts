@@ -0,0 +1,76 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import { deleteAlertRule, saveAlertRule, toAlertRuleInput, validateAlertRule, type AlertRuleInput } from '@/src/lib/alert-rules';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/alert-rules/:id
+// json: the rule fields
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const rule = toAlertRuleInput(await request.json().catch(() => ({})));
+  const errors = validateAlertRule(rule, access!.locationIds);
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  try {
+    const saved = await saveAlertRule(getServiceClient(), access!.organizationId, rule as AlertRuleInput, id);
+    return NextResponse.json({ rule: saved });
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update alert rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/alert-rules/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    await deleteAlertRule(getServiceClient(), access!.organizationId, id);
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete alert rule' },
+      { status: 500 }
+    );
+  }
+}
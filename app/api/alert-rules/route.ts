@@ -0,0 +1,70 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import { listAlertRules, saveAlertRule, toAlertRuleInput, validateAlertRule, type AlertRuleInput } from '@/src/lib/alert-rules';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/alert-rules
+// Every rule, including disabled ones
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const rules = await listAlertRules(getServiceClient(), access!.organizationId);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error loading alert rules:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load alert rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/alert-rules
+// json: the rule fields
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const rule = toAlertRuleInput(await request.json().catch(() => ({})));
+  const errors = validateAlertRule(rule, access!.locationIds);
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  try {
+    const saved = await saveAlertRule(getServiceClient(), access!.organizationId, rule as AlertRuleInput);
+    return NextResponse.json({ rule: saved });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create alert rule' },
+      { status: 500 }
+    );
+  }
+}
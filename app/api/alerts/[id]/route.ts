@@ -0,0 +1,105 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  applyPriceAlertAction,
+  getPriceAlert,
+  getPriceAlertHistory,
+  validatePriceAlertAction
+} from '@/src/lib/price-alerts';
+import { isAlertAction } from '@/src/lib/alert-workflow';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/alerts/:id
+// The alert and its full history. Alerts at other locations are reported missing.
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const alert = await getPriceAlert(id);
+    if (!alert || !access!.locationIds.includes(alert.location_id)) {
+      return NextResponse.json({ error: 'Price alert not found' }, { status: 404 });
+    }
+
+    const history = await getPriceAlertHistory(id);
+    return NextResponse.json({ alert, history });
+  } catch (error) {
+    console.error('Error loading price alert:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load price alert' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/alerts/:id
+// json: action, note?, assignedTo?, snoozedUntil?
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'work_alerts');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+
+  if (!isAlertAction(body.action)) {
+    return NextResponse.json({ error: `Unknown alert action: ${body.action}` }, { status: 400 });
+  }
+
+  const actionRequest = {
+    action: body.action,
+    note: typeof body.note === 'string' ? body.note : undefined,
+    assignedTo: typeof body.assignedTo === 'string' ? body.assignedTo : undefined,
+    snoozedUntil: typeof body.snoozedUntil === 'string' ? body.snoozedUntil : undefined
+  };
+
+  try {
+    const alert = await getPriceAlert(id);
+    if (!alert || !access!.locationIds.includes(alert.location_id)) {
+      return NextResponse.json({ error: 'Price alert not found' }, { status: 404 });
+    }
+
+    const validationError = validatePriceAlertAction(alert, actionRequest);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await applyPriceAlertAction(id, actionRequest, user.email || user.id);
+
+    const [updated, history] = await Promise.all([getPriceAlert(id), getPriceAlertHistory(id)]);
+    return NextResponse.json({ alert: updated, history });
+  } catch (error) {
+    console.error('Error updating price alert:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update price alert' },
+      { status: 500 }
+    );
+  }
+}
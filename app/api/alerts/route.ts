@@ -0,0 +1,49 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { listPriceAlerts } from '@/src/lib/price-alerts';
+import { isAlertWorkflowStatus } from '@/src/lib/alert-workflow';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/alerts
+// query: status, locationId, assignedTo, includeSnoozed ('true')
+// Only alerts at the signed-in user's locations
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const status = params.get('status');
+
+  if (status && !isAlertWorkflowStatus(status)) {
+    return NextResponse.json({ error: `Unknown alert status: ${status}` }, { status: 400 });
+  }
+
+  try {
+    const alerts = await listPriceAlerts({
+      status: isAlertWorkflowStatus(status) ? status : undefined,
+      locationId: params.get('locationId') || undefined,
+      locationIds: access!.locationIds,
+      assignedTo: params.get('assignedTo') || undefined,
+      includeSnoozed: params.get('includeSnoozed') === 'true'
+    });
+
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    console.error('Error loading price alerts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load price alerts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteBudget } from '@/src/lib/budgets';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/budgets/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    await deleteBudget(id, access!.locationIds);
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Error deleting budget:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import { checkBudgetAlerts, parseBudgetCsv, saveBudgets } from '@/src/lib/budgets';
+import { listProductCategories, topLevelCategories } from '@/src/lib/product-categories';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// POST /api/budgets/import
+// multipart form: file (budget CSV), action ('preview' | 'commit')
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const formData = await request.formData();
+  const action = formData.get('action') === 'commit' ? 'commit' : 'preview';
+  const file = formData.get('file');
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'No budget file uploaded' }, { status: 400 });
+  }
+
+  try {
+    const client = getServiceClient();
+    const [categories, { data: locations, error }] = await Promise.all([
+      listProductCategories(client, access!.organizationId),
+      client.from('locations').select('id, name').in('id', access!.locationIds)
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to load locations: ${error.message}`);
+    }
+
+    const { budgets, errors } = parseBudgetCsv(
+      await file.text(),
+      locations || [],
+      topLevelCategories(categories).map(category => category.name),
+      file.name
+    );
+
+    if (action === 'preview') {
+      return NextResponse.json({ budgets, errors });
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Fix the budget file errors before importing', budgets, errors }, { status: 400 });
+    }
+
+    const saved = await saveBudgets(budgets);
+
+    const months = Array.from(new Set(budgets.map(budget => budget.month)));
+    const budgetLocationIds = Array.from(new Set(budgets.map(budget => budget.location_id)));
+    for (const month of months) {
+      await checkBudgetAlerts(month, budgetLocationIds);
+    }
+
+    return NextResponse.json({ budgets, errors, saved });
+  } catch (error) {
+    console.error('Error importing budgets:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import budgets' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import {
+  checkBudgetAlerts,
+  getBudgetStatuses,
+  listBudgetAlerts,
+  saveBudgets,
+  toBudgetInput,
+  toBudgetMonth,
+  validateBudget,
+  type BudgetInput
+} from '@/src/lib/budgets';
+import { listProductCategories, topLevelCategories } from '@/src/lib/product-categories';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/budgets?month=YYYY-MM
+// Budget statuses for the month at the user's locations, recent budget alerts,
+// and the locations and categories a budget can be set for
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const monthParam = request.nextUrl.searchParams.get('month');
+  const month = monthParam ? toBudgetMonth(monthParam) : toBudgetMonth(new Date().toISOString());
+
+  if (!month) {
+    return NextResponse.json({ error: 'Month must be YYYY-MM' }, { status: 400 });
+  }
+
+  try {
+    const client = getServiceClient();
+    const [statuses, alerts, categories, { data: locations, error }] = await Promise.all([
+      getBudgetStatuses(month, access!.locationIds),
+      listBudgetAlerts(access!.locationIds),
+      listProductCategories(client, access!.organizationId),
+      client.from('locations').select('id, name').in('id', access!.locationIds).order('name')
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to load locations: ${error.message}`);
+    }
+
+    return NextResponse.json({
+      month,
+      statuses,
+      alerts,
+      locations: locations || [],
+      categories: topLevelCategories(categories).map(category => category.name)
+    });
+  } catch (error) {
+    console.error('Error loading budgets:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load budgets' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/budgets
+// json: location_id, category (blank for the location total), month, amount
+// Sets the budget, replacing any for the same location, category and month
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const budget = toBudgetInput(await request.json());
+
+  try {
+    const categories = topLevelCategories(await listProductCategories(getServiceClient(), access!.organizationId)).map(category => category.name);
+    const errors = validateBudget(budget, access!.locationIds, categories);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    await saveBudgets([budget as BudgetInput]);
+    const alerts = await checkBudgetAlerts(budget.month!, [budget.location_id!]);
+    return NextResponse.json({ budget, alerts });
+  } catch (error) {
+    console.error('Error saving budget:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save budget' },
+      { status: 500 }
+    );
+  }
+}
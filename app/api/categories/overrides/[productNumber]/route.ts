@@ -0,0 +1,40 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import { deleteCategoryOverride } from '@/src/lib/product-categories';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ productNumber: string }>;
+}
+
+// DELETE /api/categories/overrides/:productNumber
+// The product goes back to being categorized by the rules
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { productNumber } = await params;
+
+  try {
+    await deleteCategoryOverride(getServiceClient(), access!.organizationId, productNumber);
+    return NextResponse.json({ deleted: productNumber });
+  } catch (error) {
+    console.error('Error deleting category override:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete category override' },
+      { status: 500 }
+    );
+  }
+}
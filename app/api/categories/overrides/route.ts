@@ -0,0 +1,59 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import {
+  listProductCategories,
+  saveCategoryOverride,
+  validateCategoryAssignment
+} from '@/src/lib/product-categories';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// PUT /api/categories/overrides
+// json: product_number, category, subcategory, note
+export async function PUT(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+  const productNumber = text(body.product_number);
+
+  if (!productNumber) {
+    return NextResponse.json({ error: 'Product number is required' }, { status: 400 });
+  }
+
+  try {
+    const client = getServiceClient();
+    const errors = validateCategoryAssignment(await listProductCategories(client, access!.organizationId), text(body.category), text(body.subcategory));
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const override = await saveCategoryOverride(client, access!.organizationId, {
+      product_number: productNumber,
+      category: text(body.category)!,
+      subcategory: text(body.subcategory),
+      note: text(body.note),
+      updated_by: user.email || null
+    });
+    return NextResponse.json({ override });
+  } catch (error) {
+    console.error('Error saving category override:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save category override' },
+      { status: 500 }
+    );
+  }
+}
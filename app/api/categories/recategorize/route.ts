@@ -0,0 +1,37 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import { recategorizeAllHistory } from '@/src/lib/product-categories';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// POST /api/categories/recategorize
+// json: dryRun
+// Re-applies the organization's overrides and rules to its past invoice lines
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    const result = await recategorizeAllHistory(getServiceClient(), access!.organizationId, { dryRun: Boolean(body.dryRun) });
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Error recategorizing history:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to recategorize history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import {
+  createProductCategory,
+  listCategoryOverrides,
+  listCategoryRules,
+  listProductCategories
+} from '@/src/lib/product-categories';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/categories
+// The taxonomy with every rule, enabled or not, and every override
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const client = getServiceClient();
+    const [categories, rules, overrides] = await Promise.all([
+      listProductCategories(client, access!.organizationId),
+      listCategoryRules(client, access!.organizationId),
+      listCategoryOverrides(client, access!.organizationId)
+    ]);
+    return NextResponse.json({ categories, rules, overrides });
+  } catch (error) {
+    console.error('Error loading product categories:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load product categories' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/categories
+// json: name, parentId (optional, to add a subcategory)
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+  if (!name) {
+    return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+  }
+
+  try {
+    const category = await createProductCategory(getServiceClient(), access!.organizationId, name, body.parentId || null);
+    return NextResponse.json({ category });
+  } catch (error) {
+    console.error('Error creating product category:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create product category' },
+      { status: 500 }
+    );
+  }
+}
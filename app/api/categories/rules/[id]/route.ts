@@ -0,0 +1,85 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import {
+  deleteCategoryRule,
+  listProductCategories,
+  saveCategoryRule,
+  toCategoryRuleInput,
+  validateCategoryRule,
+  type CategoryRuleInput
+} from '@/src/lib/product-categories';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/categories/rules/:id
+// json: the rule fields
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const rule = toCategoryRuleInput(await request.json().catch(() => ({})));
+
+  try {
+    const client = getServiceClient();
+    const errors = validateCategoryRule(rule, await listProductCategories(client, access!.organizationId));
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const saved = await saveCategoryRule(client, access!.organizationId, rule as CategoryRuleInput, id);
+    return NextResponse.json({ rule: saved });
+  } catch (error) {
+    console.error('Error updating category rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update category rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/categories/rules/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    await deleteCategoryRule(getServiceClient(), access!.organizationId, id);
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Error deleting category rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete category rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import {
+  listProductCategories,
+  saveCategoryRule,
+  toCategoryRuleInput,
+  validateCategoryRule,
+  type CategoryRuleInput
+} from '@/src/lib/product-categories';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// POST /api/categories/rules
+// json: the rule fields
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const rule = toCategoryRuleInput(await request.json().catch(() => ({})));
+
+  try {
+    const client = getServiceClient();
+    const errors = validateCategoryRule(rule, await listProductCategories(client, access!.organizationId));
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const saved = await saveCategoryRule(client, access!.organizationId, rule as CategoryRuleInput);
+    return NextResponse.json({ rule: saved });
+  } catch (error) {
+    console.error('Error creating category rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create category rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteContractPrice } from '@/src/lib/contract-pricing';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/contracts/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    await deleteContractPrice(access!.organizationId, id);
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Error deleting contract price:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete contract price' },
+      { status: 500 }
+    );
+  }
+}
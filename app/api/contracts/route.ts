@@ -0,0 +1,91 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { loadContractPrices, parseContractPriceList, saveContractPrices } from '@/src/lib/contract-pricing';
+import { findVendorId, resolveVendorId } from '@/src/lib/vendor-formats';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/contracts?vendor_code=SYSCO
+// The organization's contract prices with the vendor, by product; every vendor's without vendor_code
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const vendorCode = request.nextUrl.searchParams.get('vendor_code')?.trim();
+
+  try {
+    // A vendor not added yet has no contract prices
+    const vendorId = vendorCode ? await findVendorId(vendorCode) : undefined;
+    const contracts = vendorId === null ? [] : await loadContractPrices(access!.organizationId, vendorId);
+    return NextResponse.json({ contracts });
+  } catch (error) {
+    console.error('Error loading contract prices:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load contract prices' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/contracts
+// multipart form: file (price list CSV), vendor_code (the vendor the prices are with),
+// action ('preview' | 'commit')
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const formData = await request.formData();
+  const action = formData.get('action') === 'commit' ? 'commit' : 'preview';
+  const file = formData.get('file');
+  const vendorCode = String(formData.get('vendor_code') || '').trim();
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'No price list uploaded' }, { status: 400 });
+  }
+
+  const { contracts, errors } = parseContractPriceList(await file.text(), file.name);
+
+  if (action === 'preview') {
+    return NextResponse.json({ contracts, errors });
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Fix the price list errors before importing', contracts, errors }, { status: 400 });
+  }
+
+  if (!vendorCode) {
+    return NextResponse.json({ error: 'Choose the vendor the price list is from', contracts, errors }, { status: 400 });
+  }
+
+  try {
+    const saved = await saveContractPrices(access!.organizationId, contracts, await resolveVendorId(vendorCode));
+    return NextResponse.json({ contracts, errors, saved });
+  } catch (error) {
+    console.error('Error importing contract prices:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import contract prices', contracts, errors },
+      { status: 500 }
+    );
+  }
+}
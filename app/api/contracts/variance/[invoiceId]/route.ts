@@ -0,0 +1,53 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatVarianceReportCSV, getInvoiceVarianceReport } from '@/src/lib/contract-pricing';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ invoiceId: string }>;
+}
+
+// GET /api/contracts/variance/:invoiceId
+// query: format ('json' | 'csv')
+// Invoices at other locations are reported missing
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { invoiceId } = await params;
+
+  try {
+    const report = await getInvoiceVarianceReport(access!.organizationId, invoiceId, access!.locationIds);
+    if (!report) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      return new NextResponse(formatVarianceReportCSV(report), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="contract-variance-${report.documentNumber}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error building contract variance report:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build variance report' },
+      { status: 500 }
+    );
+  }
+}
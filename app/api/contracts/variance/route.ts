@@ -0,0 +1,36 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { listInvoiceVarianceReports } from '@/src/lib/contract-pricing';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/contracts/variance
+// query: limit
+// Billed vs contract for recent invoices with contracted lines, at the signed-in user's locations
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const limit = parseInt(request.nextUrl.searchParams.get('limit') || '') || 50;
+
+  try {
+    const reports = await listInvoiceVarianceReports(access!.organizationId, limit, access!.locationIds);
+    return NextResponse.json({ reports });
+  } catch (error) {
+    console.error('Error building contract variance reports:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build variance reports' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import {
+  buildWeeklyDigest,
+  digestWeek,
+  lastCompleteWeek,
+  renderDigestHtml,
+  renderDigestText
+} from '@/src/lib/weekly-digest';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/digest-preview
+// query: locationId, week (any date in the week; defaults to last week), format (html | text)
+// Renders a location's weekly digest without sending it
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const locationId = searchParams.get('locationId');
+  const weekOf = searchParams.get('week');
+
+  if (!locationId) {
+    return NextResponse.json({ error: 'Location is required' }, { status: 400 });
+  }
+
+  if (!access!.locationIds.includes(locationId)) {
+    return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+  }
+
+  if (weekOf && !/^\d{4}-\d{2}-\d{2}$/.test(weekOf)) {
+    return NextResponse.json({ error: 'Week must be a YYYY-MM-DD date' }, { status: 400 });
+  }
+
+  try {
+    const { data: location, error } = await getServiceClient()
+      .from('locations')
+      .select('id, name')
+      .eq('id', locationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load location: ${error.message}`);
+    }
+
+    if (!location) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    const digest = await buildWeeklyDigest(location, weekOf ? digestWeek(weekOf) : lastCompleteWeek());
+
+    if (searchParams.get('format') === 'text') {
+      return new NextResponse(renderDigestText(digest), {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+      });
+    }
+
+    return new NextResponse(renderDigestHtml(digest), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    });
+  } catch (error) {
+    console.error('Error rendering digest preview:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to render digest preview' },
+      { status: 500 }
+    );
+  }
+}
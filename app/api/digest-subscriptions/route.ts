@@ -0,0 +1,78 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { listDigestSubscriptions, setDigestSubscription } from '@/src/lib/weekly-digest';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/digest-subscriptions
+// The signed-in user's weekly digest subscriptions
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const subscriptions = await listDigestSubscriptions(user.id);
+    return NextResponse.json({ subscriptions });
+  } catch (error) {
+    console.error('Error loading digest subscriptions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load digest subscriptions' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/digest-subscriptions
+// json: locationId, subscribed
+// Digests go to the user's login email, for locations they can access
+export async function PUT(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+
+  if (typeof body.locationId !== 'string' || !body.locationId) {
+    return NextResponse.json({ error: 'Location is required' }, { status: 400 });
+  }
+
+  if (body.subscribed === true && !access!.locationIds.includes(body.locationId)) {
+    return NextResponse.json({ error: 'You do not have access to that location' }, { status: 403 });
+  }
+
+  if (!user.email) {
+    return NextResponse.json({ error: 'Your account has no email address' }, { status: 400 });
+  }
+
+  try {
+    await setDigestSubscription(user.id, user.email, body.locationId, body.subscribed === true);
+    const subscriptions = await listDigestSubscriptions(user.id);
+    return NextResponse.json({ subscriptions });
+  } catch (error) {
+    console.error('Error updating digest subscription:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update digest subscription' },
+      { status: 500 }
+    );
+  }
+}
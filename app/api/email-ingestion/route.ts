@@ -0,0 +1,37 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextResponse } from 'next/server';
+import { listEmailIngestionLog, listVendorAccounts } from '@/src/lib/email-ingestion';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/email-ingestion
+// The latest emails the ingestion worker processed for the caller's organization
+// and locations, and the customer numbers invoices are routed by
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'import_invoices');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const [entries, accounts] = await Promise.all([
+      listEmailIngestionLog(access!.organizationId, access!.locationIds),
+      listVendorAccounts(access!.locationIds)
+    ]);
+    return NextResponse.json({ entries, accounts });
+  } catch (error) {
+    console.error('Error loading email ingestion log:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load email ingestion log' },
+      { status: 500 }
+    );
+  }
+}
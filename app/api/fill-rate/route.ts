@@ -0,0 +1,46 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getFillRateReport } from '@/src/lib/fill-rate';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/fill-rate
+// query: locationId, dateFrom, dateTo, minRepeat
+// Ordered vs shipped per product, warehouse and delivery, with repeat shortages and substitutions,
+// at the signed-in user's locations
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const minRepeat = parseInt(searchParams.get('minRepeat') || '') || undefined;
+
+  try {
+    const report = await getFillRateReport(
+      {
+        locationId: searchParams.get('locationId') || undefined,
+        locationIds: access!.locationIds,
+        dateFrom: searchParams.get('dateFrom') || undefined,
+        dateTo: searchParams.get('dateTo') || undefined
+      },
+      minRepeat
+    );
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error building fill rate report:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build fill rate report' },
+      { status: 500 }
+    );
+  }
+}
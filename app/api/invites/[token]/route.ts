@@ -0,0 +1,54 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { acceptOrganizationInvite, getInviteSummary } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+// GET /api/invites/:token
+// Who the invite is for and which organization, for the invite page. No sign-in needed:
+// the token is the secret.
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { token } = await params;
+
+  try {
+    const invite = await getInviteSummary(token);
+
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ invite });
+  } catch (error) {
+    console.error('Error loading invite:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load invite' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/invites/:token
+// The signed-in user accepts the invite, which must be for their email
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { token } = await params;
+
+  try {
+    const organizationId = await acceptOrganizationInvite(token, user.id, user.email || '');
+    return NextResponse.json({ organizationId });
+  } catch (error) {
+    console.error('Error accepting invite:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to accept invite' },
+      { status: 400 }
+    );
+  }
+}
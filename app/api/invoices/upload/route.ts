@@ -0,0 +1,126 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseUploadedFile, parseUploadedPdf, type FilePreview, type UploadCommitResult } from '@/src/lib/invoice-upload';
+import { importInvoicesToDatabase, type InvoiceImportOutcome } from '@/src/lib/data-importer';
+import { listVendorFormats, type VendorFormat } from '@/src/lib/vendor-formats';
+import { listPdfLayouts, type PdfInvoiceCorrection, type PdfLayout } from '@/src/lib/pdf-invoices';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// POST /api/invoices/upload
+// multipart form: files (one or more CSVs or PDFs), locationId, action ('preview' | 'commit'),
+// corrections (JSON: file name → per-invoice PDF corrections and approvals)
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'import_invoices');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const formData = await request.formData();
+  const action = formData.get('action') === 'commit' ? 'commit' : 'preview';
+  const locationId = (formData.get('locationId') as string | null)?.trim() || '';
+  const files = formData.getAll('files').filter((value): value is File => value instanceof File);
+
+  let corrections: Record<string, PdfInvoiceCorrection[]> = {};
+  try {
+    corrections = JSON.parse((formData.get('corrections') as string | null) || '{}');
+  } catch {
+    return NextResponse.json({ error: 'Corrections must be valid JSON' }, { status: 400 });
+  }
+
+  if (files.length === 0) {
+    return NextResponse.json({ error: 'No files uploaded' }, { status: 400 });
+  }
+
+  let formats: VendorFormat[];
+  let layouts: PdfLayout[];
+  try {
+    [formats, layouts] = await Promise.all([
+      listVendorFormats(access!.organizationId),
+      listPdfLayouts(access!.organizationId)
+    ]);
+  } catch (error) {
+    console.error('Error loading vendor formats for upload:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load vendor formats' },
+      { status: 500 }
+    );
+  }
+
+  // Each CSV is matched to its vendor by its columns, each PDF by its layout
+  const parsedFiles = await Promise.all(
+    files.map(async (file) => ({
+      fileName: file.name,
+      ...(file.name.toLowerCase().endsWith('.pdf')
+        ? await parseUploadedPdf(file.name, new Uint8Array(await file.arrayBuffer()), layouts, corrections[file.name] || [])
+        : await parseUploadedFile(file.name, await file.text(), formats))
+    }))
+  );
+
+  const previews: FilePreview[] = parsedFiles.map((file) => file.preview);
+
+  if (action === 'preview') {
+    return NextResponse.json({ previews });
+  }
+
+  if (!locationId) {
+    return NextResponse.json({ error: 'A location is required to import invoices', previews }, { status: 400 });
+  }
+
+  const locationDenied = checkAccess(access, 'import_invoices', locationId);
+
+  if (locationDenied) {
+    return NextResponse.json({ error: locationDenied, previews }, { status: 403 });
+  }
+
+  const results: UploadCommitResult[] = [];
+
+  // Files are imported one at a time so a failure is reported against the file that caused it
+  for (const file of parsedFiles) {
+    if (!file.preview.isValid) {
+      results.push({
+        fileName: file.fileName,
+        imported: false,
+        invoiceCount: 0,
+        outcomes: [],
+        error: file.preview.errors.join('; ')
+      });
+      continue;
+    }
+
+    // PDF invoices still needing review are held back and reported as failed
+    const held: InvoiceImportOutcome[] = [];
+    const ready = file.invoices.filter((invoice, index) => {
+      const blocker = file.preview.invoices[index]?.blocker;
+      if (blocker) {
+        held.push({ documentNumber: invoice.documentNumber || `#${index + 1}`, fileName: file.fileName, status: 'failed', error: blocker });
+      }
+      return !blocker;
+    });
+
+    // Each invoice commits or rolls back on its own; failures are reported per invoice
+    const outcomes = [
+      ...(ready.length > 0 ? await importInvoicesToDatabase(ready, locationId, undefined, file.fileName) : []),
+      ...held
+    ];
+    const failed = outcomes.filter(outcome => outcome.status === 'failed');
+
+    results.push({
+      fileName: file.fileName,
+      imported: failed.length === 0,
+      invoiceCount: outcomes.length - failed.length,
+      outcomes,
+      error: failed.length > 0 ? failed.map(outcome => `${outcome.documentNumber}: ${outcome.error}`).join('; ') : undefined
+    });
+  }
+
+  return NextResponse.json({ previews, results });
+}
@@ -0,0 +1,81 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getItemMatches, saveItemLink, type ItemLinkStatus } from '@/src/lib/item-matching';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+const LINK_STATUSES: ItemLinkStatus[] = ['CONFIRMED', 'REJECTED'];
+
+// GET /api/item-matches
+// Suggested cross-vendor equivalents and the confirmed equivalent items with
+// their cheapest source, from purchases at the user's locations
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const { suggestions, items } = await getItemMatches(access!.organizationId, access!.locationIds);
+    return NextResponse.json({ suggestions, items });
+  } catch (error) {
+    console.error('Error loading item matches:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load item matches' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/item-matches
+// json: { productNumberA, productNumberB, status: 'CONFIRMED' | 'REJECTED', score? }
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  const productA = { vendorId: text(body.vendorIdA), productNumber: text(body.productNumberA) };
+  const productB = { vendorId: text(body.vendorIdB), productNumber: text(body.productNumberB) };
+  const score = typeof body.score === 'number' ? body.score : null;
+
+  // Product numbers are per vendor, so each product is named by both
+  if (!productA.vendorId || !productA.productNumber || !productB.vendorId || !productB.productNumber
+    || (productA.vendorId === productB.vendorId && productA.productNumber === productB.productNumber)) {
+    return NextResponse.json({ error: 'Two different products, each with a vendor and product number, are required' }, { status: 400 });
+  }
+
+  if (!LINK_STATUSES.includes(body.status)) {
+    return NextResponse.json({ error: `status must be one of ${LINK_STATUSES.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const link = await saveItemLink(access!.organizationId, productA, productB, body.status, score, user.id);
+    return NextResponse.json({ link });
+  } catch (error) {
+    console.error('Error saving item link:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save item link' },
+      { status: 500 }
+    );
+  }
+}
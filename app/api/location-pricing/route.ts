@@ -0,0 +1,47 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getLocationPricingReport, PricePeriod } from '@/src/lib/location-pricing';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/location-pricing
+// query: dateFrom, dateTo, period (month | quarter)
+// What each of the signed-in user's locations paid for the same product and pack in the same period,
+// with potential savings
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const period = searchParams.get('period');
+
+  if (period && period !== 'month' && period !== 'quarter') {
+    return NextResponse.json({ error: `Unknown period: ${period}` }, { status: 400 });
+  }
+
+  try {
+    const report = await getLocationPricingReport({
+      locationIds: access!.locationIds,
+      dateFrom: searchParams.get('dateFrom') || undefined,
+      dateTo: searchParams.get('dateTo') || undefined,
+      period: (period as PricePeriod) || undefined
+    });
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error building location price comparison:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build location price comparison' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { markPriceAlertsRead } from '@/src/lib/price-alerts';
+
+// POST /api/notifications/read
+// json: alertIds (optional; every open alert when omitted)
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const alertIds = Array.isArray(body.alertIds)
+    ? body.alertIds.filter((id: unknown): id is string => typeof id === 'string')
+    : undefined;
+
+  try {
+    const marked = await markPriceAlertsRead(user.id, alertIds);
+    return NextResponse.json({ marked });
+  } catch (error) {
+    console.error('Error marking alerts read:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to mark alerts read' },
+      { status: 500 }
+    );
+  }
+}
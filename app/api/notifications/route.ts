@@ -0,0 +1,36 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlertNotifications } from '@/src/lib/price-alerts';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/notifications
+// query: limit
+// The signed-in user's unread alert count and newest open alerts, at their locations
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const limit = parseInt(request.nextUrl.searchParams.get('limit') || '') || 10;
+
+  try {
+    const notifications = await getAlertNotifications(user.id, access!.locationIds, limit);
+    return NextResponse.json(notifications);
+  } catch (error) {
+    console.error('Error loading alert notifications:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { createMailTransport } from '@/src/lib/mail-transport';
+import {
+  checkAccess,
+  createOrganizationInvite,
+  getOrganizationAccess,
+  sendInviteEmail,
+  toMemberInput,
+  validateMemberInput,
+  type MemberInput
+} from '@/src/lib/organizations';
+
+// POST /api/organization/invites
+// json: email, role, locationIds (for location managers and read-only members)
+// Creates the invite and emails the link through MAIL_TRANSPORT. The link is
+// returned either way, so it can be shared by hand when the email fails.
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_team');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const email = typeof body.email === 'string' ? body.email.trim() : '';
+  const input = toMemberInput(body);
+  const errors = validateMemberInput(input, access!.locationIds);
+
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    errors.unshift('A valid email address is required');
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  try {
+    const invite = await createOrganizationInvite(access!.organizationId, user.id, { ...(input as MemberInput), email });
+    const appUrl = (process.env.APP_URL || request.nextUrl.origin).replace(/\/$/, '');
+    const inviteUrl = `${appUrl}/invite/${invite.token}`;
+
+    let emailError: string | null = null;
+    try {
+      await sendInviteEmail(createMailTransport(), invite, access!.organizationName, inviteUrl);
+    } catch (sendError) {
+      console.error('Error emailing invite:', sendError);
+      emailError = sendError instanceof Error ? sendError.message : String(sendError);
+    }
+
+    return NextResponse.json({ invite, inviteUrl, emailed: !emailError, emailError });
+  } catch (error) {
+    console.error('Error creating invite:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create invite' },
+      { status: 500 }
+    );
+  }
+}
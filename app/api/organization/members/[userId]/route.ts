@@ -0,0 +1,82 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkAccess,
+  getOrganizationAccess,
+  removeOrganizationMember,
+  toMemberInput,
+  updateOrganizationMember,
+  validateMemberInput,
+  type MemberInput
+} from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ userId: string }>;
+}
+
+// PUT /api/organization/members/:userId
+// json: role, locationIds (for location managers and read-only members)
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_team');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { userId } = await params;
+  const input = toMemberInput(await request.json().catch(() => ({})));
+  const errors = validateMemberInput(input, access!.locationIds);
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  try {
+    await updateOrganizationMember(access!.organizationId, userId, input as MemberInput);
+    return NextResponse.json({ updated: userId });
+  } catch (error) {
+    console.error('Error updating organization member:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update member' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/organization/members/:userId
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_team');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { userId } = await params;
+
+  try {
+    await removeOrganizationMember(access!.organizationId, userId);
+    return NextResponse.json({ deleted: userId });
+  } catch (error) {
+    console.error('Error removing organization member:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextResponse } from 'next/server';
+import { checkAccess, getOrganizationAccess, listOrganizationInvites, listOrganizationMembers } from '@/src/lib/organizations';
+
+// GET /api/organization/members
+// Members of the signed-in owner's organization, with pending invites
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_team');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const [members, invites] = await Promise.all([
+      listOrganizationMembers(access!.organizationId),
+      listOrganizationInvites(access!.organizationId)
+    ]);
+    return NextResponse.json({ members, invites });
+  } catch (error) {
+    console.error('Error loading organization members:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load organization members' },
+      { status: 500 }
+    );
+  }
+}
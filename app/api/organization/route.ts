@@ -0,0 +1,63 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { createOrganization, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/organization
+// The signed-in user's organization, role and accessible locations; organization is null when they have none
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const access = await getOrganizationAccess(user.id);
+    return NextResponse.json({
+      organization: access && {
+        id: access.organizationId,
+        name: access.organizationName,
+        role: access.role,
+        locationIds: access.locationIds
+      },
+      email: user.email || null
+    });
+  } catch (error) {
+    console.error('Error loading organization:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load organization' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/organization
+// json: name
+// Create an organization owned by the signed-in user, who must not belong to one yet
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+  if (!name) {
+    return NextResponse.json({ error: 'Organization name is required' }, { status: 400 });
+  }
+
+  try {
+    const organizationId = await createOrganization(name, user.id, user.email || null);
+    return NextResponse.json({ organizationId });
+  } catch (error) {
+    console.error('Error creating organization:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create organization' },
+      { status: 500 }
+    );
+  }
+}
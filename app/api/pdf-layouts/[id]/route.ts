@@ -0,0 +1,87 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deletePdfLayout,
+  listPdfLayouts,
+  savePdfLayout,
+  toPdfLayoutInput,
+  validatePdfLayout
+} from '@/src/lib/pdf-invoices';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/pdf-layouts/:id
+// json: { name, vendor_code, vendor_name, identifier, header_patterns: { field: pattern }, line_pattern, credit_marker, date_format }
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const input = toPdfLayoutInput(await request.json().catch(() => ({})));
+  const errors = validatePdfLayout(input);
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  try {
+    const layouts = await listPdfLayouts(access!.organizationId);
+
+    if (!layouts.some(layout => layout.id === id)) {
+      return NextResponse.json({ error: 'PDF layout not found' }, { status: 404 });
+    }
+
+    const layout = await savePdfLayout(access!.organizationId, input, id);
+    return NextResponse.json({ layout });
+  } catch (error) {
+    console.error('Error updating PDF layout:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update PDF layout' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/pdf-layouts/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    await deletePdfLayout(access!.organizationId, id);
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Error deleting PDF layout:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete PDF layout' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { extractPdfLines } from '@/src/lib/pdf-text';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// POST /api/pdf-layouts/extract
+// multipart form: file (a sample PDF invoice)
+// The PDF's text lines, for writing and testing a layout against
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const formData = await request.formData();
+  const file = formData.get('file');
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+  }
+
+  try {
+    const lines = await extractPdfLines(new Uint8Array(await file.arrayBuffer()));
+    return NextResponse.json({ lines });
+  } catch (error) {
+    console.error('Error extracting PDF text:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read PDF' },
+      { status: 500 }
+    );
+  }
+}
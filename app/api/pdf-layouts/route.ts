@@ -0,0 +1,74 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listPdfLayouts,
+  savePdfLayout,
+  toPdfLayoutInput,
+  validatePdfLayout
+} from '@/src/lib/pdf-invoices';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/pdf-layouts
+// The built-in PDF invoice layouts and the ones added in settings
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const layouts = await listPdfLayouts(access!.organizationId);
+    return NextResponse.json({ layouts });
+  } catch (error) {
+    console.error('Error loading PDF layouts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load PDF layouts' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/pdf-layouts
+// json: { name, vendor_code, vendor_name, identifier, header_patterns: { field: pattern }, line_pattern, credit_marker, date_format }
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const input = toPdfLayoutInput(await request.json().catch(() => ({})));
+  const errors = validatePdfLayout(input);
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  try {
+    const layout = await savePdfLayout(access!.organizationId, input);
+    return NextResponse.json({ layout }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating PDF layout:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create PDF layout' },
+      { status: 500 }
+    );
+  }
+}
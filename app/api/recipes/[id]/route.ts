@@ -0,0 +1,91 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkRecipeCostAlerts,
+  deleteRecipe,
+  listRecipes,
+  saveRecipe,
+  toRecipeInput,
+  validateRecipe,
+  type RecipeInput
+} from '@/src/lib/recipes';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/recipes/:id
+// json: the recipe fields and its ingredients, replacing the old ones
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const recipe = toRecipeInput(await request.json().catch(() => ({})));
+
+  try {
+    const recipes = await listRecipes(access!.organizationId);
+
+    if (!recipes.some(existing => existing.id === id)) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    const errors = validateRecipe(recipe, recipes, id);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    await saveRecipe(access!.organizationId, recipe as RecipeInput, id);
+    const alerts = await checkRecipeCostAlerts(access!.organizationId);
+    return NextResponse.json({ id, alerts });
+  } catch (error) {
+    console.error('Error updating recipe:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update recipe' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/recipes/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    await deleteRecipe(access!.organizationId, id);
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Error deleting recipe:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete recipe' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/src/lib/supabase';
+import {
+  checkRecipeCostAlerts,
+  getRecipeCosts,
+  listRecipeCostAlerts,
+  listRecipes,
+  saveRecipe,
+  toRecipeInput,
+  validateRecipe,
+  type RecipeInput
+} from '@/src/lib/recipes';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/recipes
+// The organization's recipes costed at the latest prices at the user's
+// locations, recent plate cost alerts, and the products an ingredient can be
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const [recipes, alerts, { data: products, error }] = await Promise.all([
+      getRecipeCosts(access!.organizationId, access!.locationIds),
+      listRecipeCostAlerts(access!.organizationId),
+      getServiceClient()
+        .from('products')
+        .select('vendor_id, product_number, name, base_unit, vendor:vendors(name)')
+        .eq('is_active', true)
+        .order('name')
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to load products: ${error.message}`);
+    }
+
+    return NextResponse.json({ recipes, alerts, products: products || [] });
+  } catch (error) {
+    console.error('Error loading recipes:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load recipes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/recipes
+// json: the recipe fields and its ingredients
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const recipe = toRecipeInput(await request.json().catch(() => ({})));
+
+  try {
+    const errors = validateRecipe(recipe, await listRecipes(access!.organizationId));
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const id = await saveRecipe(access!.organizationId, recipe as RecipeInput);
+    const alerts = await checkRecipeCostAlerts(access!.organizationId);
+    return NextResponse.json({ id, alerts });
+  } catch (error) {
+    console.error('Error creating recipe:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create recipe' },
+      { status: 500 }
+    );
+  }
+}
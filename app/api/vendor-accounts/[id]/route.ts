@@ -0,0 +1,44 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteVendorAccount, listVendorAccounts } from '@/src/lib/email-ingestion';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/vendor-accounts/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const accounts = await listVendorAccounts(access!.locationIds);
+
+    if (!accounts.some(account => account.id === id)) {
+      return NextResponse.json({ error: 'Vendor account not found' }, { status: 404 });
+    }
+
+    await deleteVendorAccount(id);
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Error deleting vendor account:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete vendor account' },
+      { status: 500 }
+    );
+  }
+}
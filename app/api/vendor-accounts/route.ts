@@ -0,0 +1,45 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { saveVendorAccount, validateVendorAccount } from '@/src/lib/email-ingestion';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// POST /api/vendor-accounts
+// json: { location_id, vendor_code (null for any vendor), customer_number }
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const input = {
+    location_id: typeof body.location_id === 'string' ? body.location_id : '',
+    vendor_code: typeof body.vendor_code === 'string' && body.vendor_code.trim() ? body.vendor_code.trim().toUpperCase() : null,
+    customer_number: typeof body.customer_number === 'string' ? body.customer_number.trim() : ''
+  };
+  const errors = validateVendorAccount(input);
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing', input.location_id);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const account = await saveVendorAccount(access!.organizationId, input);
+    return NextResponse.json({ account }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating vendor account:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create vendor account' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteVendorFormat,
+  listVendorFormats,
+  saveVendorFormat,
+  toVendorFormatInput,
+  validateVendorFormat
+} from '@/src/lib/vendor-formats';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/vendor-formats/:id
+// json: { name, vendor_code, vendor_name, date_format, columns: { field: header } }
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const input = toVendorFormatInput(await request.json().catch(() => ({})));
+  const errors = validateVendorFormat(input);
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  try {
+    const formats = await listVendorFormats(access!.organizationId);
+
+    if (!formats.some(format => format.id === id)) {
+      return NextResponse.json({ error: 'Vendor format not found' }, { status: 404 });
+    }
+
+    const format = await saveVendorFormat(access!.organizationId, input, id);
+    return NextResponse.json({ format });
+  } catch (error) {
+    console.error('Error updating vendor format:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update vendor format' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/vendor-formats/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    await deleteVendorFormat(access!.organizationId, id);
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Error deleting vendor format:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete vendor format' },
+      { status: 500 }
+    );
+  }
+}
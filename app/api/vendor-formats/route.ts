@@ -0,0 +1,74 @@
+import { createClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listVendorFormats,
+  saveVendorFormat,
+  toVendorFormatInput,
+  validateVendorFormat
+} from '@/src/lib/vendor-formats';
+import { checkAccess, getOrganizationAccess } from '@/src/lib/organizations';
+
+// GET /api/vendor-formats
+// The built-in distributor formats and the ones added in settings
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access);
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  try {
+    const formats = await listVendorFormats(access!.organizationId);
+    return NextResponse.json({ formats });
+  } catch (error) {
+    console.error('Error loading vendor formats:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load vendor formats' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/vendor-formats
+// json: { name, vendor_code, vendor_name, date_format, columns: { field: header } }
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const access = await getOrganizationAccess(user.id);
+  const denied = checkAccess(access, 'manage_purchasing');
+
+  if (denied) {
+    return NextResponse.json({ error: denied }, { status: 403 });
+  }
+
+  const input = toVendorFormatInput(await request.json().catch(() => ({})));
+  const errors = validateVendorFormat(input);
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  try {
+    const format = await saveVendorFormat(access!.organizationId, input);
+    return NextResponse.json({ format }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating vendor format:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create vendor format' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { Building2, AlertCircle } from 'lucide-react';
+import { Button } from '@/src/components/ui/button';
+import { Input } from '@/src/components/ui/input';
+import { Label } from '@/src/components/ui/label';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import { createClient } from '@/lib/supabase/client';
+
+// Where the middleware sends signed-in users who don't belong to an organization yet
+export default function OrganizationSetupPage() {
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/organization', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || `Creating organization failed with status ${response.status}`);
+      }
+      window.location.href = '/dashboard';
+    } catch (err) {
+      console.error('❌ Error creating organization:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create organization');
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await createClient().auth.signOut();
+    window.location.href = '/auth/signin';
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <img
+            src="/Artboard 8.png"
+            alt="Los Pinos"
+            className="mx-auto h-20 w-auto object-contain"
+          />
+          <Building2 className="mx-auto mt-6 h-10 w-10 text-[#f29d2c]" />
+          <h2 className="mt-4 text-2xl font-extrabold text-gray-900">
+            Set up your organization
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Your account isn&apos;t part of an organization yet. Create one to start
+            importing invoices, or open the invite link a teammate sent you to join theirs.
+          </p>
+        </div>
+
+        <form className="space-y-6" onSubmit={handleCreate}>
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div>
+            <Label htmlFor="organizationName">Organization name</Label>
+            <Input
+              id="organizationName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              disabled={isLoading}
+              className="mt-1"
+              placeholder="Your restaurant group"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || !name.trim()}
+            style={{ backgroundColor: '#f29d2c' }}
+          >
+            {isLoading ? 'Creating...' : 'Create organization'}
+          </Button>
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="text-sm font-medium text-[#f29d2c] hover:text-[#e8912a]"
+            >
+              Sign out
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,30 @@
 'use client';
 
-import { useState } from 'react';
+import { Suspense, useState, useEffect } from 'react';
 import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import { Button } from '@/src/components/ui/button';
 import { Input } from '@/src/components/ui/input';
 import { Label } from '@/src/components/ui/label';
 import { Alert, AlertDescription } from '@/src/components/ui/alert';
 import { createClient } from '@/lib/supabase/client';
 import { AlertCircle, Eye, EyeOff, CheckCircle } from 'lucide-react';
+import type { InviteSummary } from '@/src/lib/organizations';
+import { ROLE_LABELS } from '@/src/lib/roles';
 
 export default function SignUpPage() {
+  return (
+    <Suspense>
+      <SignUpForm />
+    </Suspense>
+  );
+}
+
+function SignUpForm() {
+  // Signing up from an invite link joins that organization instead of creating one
+  const inviteToken = useSearchParams().get('invite');
+  const [invite, setInvite] = useState<InviteSummary | null>(null);
+  const [organizationName, setOrganizationName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -19,6 +34,24 @@ export default function SignUpPage() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
 
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    fetch(`/api/invites/${encodeURIComponent(inviteToken)}`)
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading invite failed with status ${response.status}`);
+        }
+        setInvite(body.invite);
+        setEmail(body.invite.email);
+      })
+      .catch((err) => {
+        console.error('❌ Error loading invite:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load invite');
+      });
+  }, [inviteToken]);
+
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -30,6 +63,12 @@ export default function SignUpPage() {
       return;
     }
 
+    if (!inviteToken && !organizationName.trim()) {
+      setError('Organization name is required');
+      setIsLoading(false);
+      return;
+    }
+
     if (password.length < 6) {
       setError('Password must be at least 6 characters long');
       setIsLoading(false);
@@ -43,6 +82,10 @@ export default function SignUpPage() {
         password,
         options: {
           emailRedirectTo: `${window.location.origin}/auth/callback`,
+          // Read by the on_auth_user_created_join_organization trigger
+          data: inviteToken
+            ? { invite_token: inviteToken }
+            : { organization_name: organizationName.trim() },
         },
       });
 
@@ -112,7 +155,9 @@ export default function SignUpPage() {
             Create your account
           </h2>
           <p className="mt-2 text-sm text-gray-600">
-            Join Los Pinos Invoice Analyzer
+            {invite
+              ? <>Join <strong>{invite.organizationName}</strong> as a {ROLE_LABELS[invite.role].toLowerCase()}</>
+              : 'Join Los Pinos Invoice Analyzer'}
           </p>
         </div>
 
@@ -126,6 +171,26 @@ export default function SignUpPage() {
           )}
 
           <div className="space-y-4">
+            {!inviteToken && (
+              <div>
+                <Label htmlFor="organizationName">Organization name</Label>
+                <Input
+                  id="organizationName"
+                  type="text"
+                  value={organizationName}
+                  onChange={(e) => setOrganizationName(e.target.value)}
+                  required
+                  disabled={isLoading}
+                  className="mt-1"
+                  placeholder="Your restaurant group"
+                  suppressHydrationWarning
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Joining an existing team? Ask an owner for an invite link.
+                </p>
+              </div>
+            )}
+
             <div>
               <Label htmlFor="email">Email address</Label>
               <Input
@@ -134,7 +199,7 @@ export default function SignUpPage() {
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 required
-                disabled={isLoading}
+                disabled={isLoading || !!invite}
                 className="mt-1"
                 placeholder="Enter your email"
                 suppressHydrationWarning
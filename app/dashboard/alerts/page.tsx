@@ -0,0 +1,548 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  AlertTriangle,
+  AlertCircle,
+  ArrowUpRight,
+  ArrowDownRight,
+  BellOff,
+  History,
+  UserPlus,
+  MessageSquare
+} from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import {
+  ALERT_ACTION_LABELS,
+  ALERT_STATUS_LABELS,
+  ALERT_WORKFLOW_STATUSES,
+  availableStatusActions,
+  canApplyAlertAction,
+  isAlertSnoozed,
+  type AlertAction,
+  type AlertWorkflowStatus
+} from '@/src/lib/alert-workflow';
+import type { PriceAlertEvent, PriceAlertRecord } from '@/src/lib/price-alerts';
+import { hasPermission, type OrganizationRole } from '@/src/lib/roles';
+
+const statusBadgeClasses: Record<AlertWorkflowStatus, string> = {
+  new: 'bg-red-50 text-red-700 border-red-200',
+  acknowledged: 'bg-blue-50 text-blue-700 border-blue-200',
+  disputed: 'bg-orange-50 text-orange-700 border-orange-200',
+  resolved: 'bg-green-50 text-green-700 border-green-200'
+};
+
+const UNASSIGNED = '__unassigned__';
+
+interface AlertDetail {
+  alert: PriceAlertRecord;
+  history: PriceAlertEvent[];
+}
+
+export default function PriceAlertsPage() {
+  const [alerts, setAlerts] = useState<PriceAlertRecord[]>([]);
+  const [statusFilter, setStatusFilter] = useState<AlertWorkflowStatus>('new');
+  const [locationFilter, setLocationFilter] = useState('');
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [showSnoozed, setShowSnoozed] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [detail, setDetail] = useState<AlertDetail | null>(null);
+  const [assigneeInput, setAssigneeInput] = useState('');
+  const [snoozeInput, setSnoozeInput] = useState('');
+  const [noteInput, setNoteInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Read-only members can open alerts but not work them
+  const [role, setRole] = useState<OrganizationRole | null>(null);
+  const canWorkAlerts = hasPermission(role, 'work_alerts');
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/alerts?includeSnoozed=true');
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading alerts failed with status ${response.status}`);
+      }
+
+      setAlerts(body.alerts);
+    } catch (err) {
+      console.error('❌ Error loading price alerts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load price alerts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+
+    fetch('/api/organization')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading organization failed with status ${response.status}`);
+        }
+        setRole(body.organization?.role || null);
+      })
+      .catch((err) => console.error('❌ Error loading organization:', err));
+  }, [loadAlerts]);
+
+  const openAlert = async (alert: PriceAlertRecord) => {
+    setDetail({ alert, history: [] });
+    setAssigneeInput(alert.assigned_to || '');
+    setSnoozeInput('');
+    setNoteInput('');
+    setActionError(null);
+
+    // Opening an alert counts as reading it for the header bell
+    fetch('/api/notifications/read', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ alertIds: [alert.id] })
+    }).catch(err => console.error('❌ Error marking alert read:', err));
+
+    try {
+      const response = await fetch(`/api/alerts/${alert.id}`);
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading alert failed with status ${response.status}`);
+      }
+
+      setDetail(body);
+    } catch (err) {
+      console.error('❌ Error loading price alert history:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to load alert history');
+    }
+  };
+
+  const applyAction = async (action: AlertAction) => {
+    if (!detail) return;
+
+    try {
+      setIsSaving(true);
+      setActionError(null);
+
+      const response = await fetch(`/api/alerts/${detail.alert.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          note: noteInput,
+          assignedTo: assigneeInput,
+          snoozedUntil: snoozeInput
+        })
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Update failed with status ${response.status}`);
+      }
+
+      setDetail(body);
+      setAlerts(current => current.map(alert => alert.id === body.alert.id ? body.alert : alert));
+      setNoteInput('');
+      setSnoozeInput('');
+    } catch (err) {
+      console.error('❌ Error updating price alert:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to update alert');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const locations = useMemo(() => {
+    const byId = new Map<string, string>();
+    alerts.forEach(alert => byId.set(alert.location_id, alert.location_name));
+    return Array.from(byId.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [alerts]);
+
+  const assignees = useMemo(() => {
+    return Array.from(new Set(alerts.map(alert => alert.assigned_to).filter((name): name is string => !!name))).sort();
+  }, [alerts]);
+
+  // Alerts matching every filter except status, so each status tab can show its count
+  const scopedAlerts = useMemo(() => {
+    return alerts.filter(alert => {
+      if (locationFilter && alert.location_id !== locationFilter) return false;
+      if (assigneeFilter === UNASSIGNED && alert.assigned_to) return false;
+      if (assigneeFilter && assigneeFilter !== UNASSIGNED && alert.assigned_to !== assigneeFilter) return false;
+      if (!showSnoozed && isAlertSnoozed(alert.snoozed_until)) return false;
+      return true;
+    });
+  }, [alerts, locationFilter, assigneeFilter, showSnoozed]);
+
+  const visibleAlerts = scopedAlerts.filter(alert => alert.workflow_status === statusFilter);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const describeEvent = (event: PriceAlertEvent) => {
+    if (event.from_status && event.to_status && event.from_status !== event.to_status) {
+      return `${ALERT_STATUS_LABELS[event.from_status]} → ${ALERT_STATUS_LABELS[event.to_status]}`;
+    }
+    if (event.action === 'assign') {
+      return event.assigned_to ? `Assigned to ${event.assigned_to}` : 'Unassigned';
+    }
+    if (event.action === 'snooze' && event.snoozed_until) {
+      return `Snoozed until ${formatDate(event.snoozed_until)}`;
+    }
+    if (event.action === 'unsnooze') {
+      return 'Unsnoozed';
+    }
+    return ALERT_ACTION_LABELS[event.action] || event.action;
+  };
+
+  const selected = detail?.alert;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <AlertTriangle className="h-6 w-6 text-red-500" />
+          <h1 className="text-2xl font-bold text-gray-900">Price Alerts</h1>
+          <Badge variant="secondary">{alerts.filter(alert => alert.workflow_status !== 'resolved').length} open</Badge>
+        </div>
+
+        {/* Status tabs */}
+        <div className="flex flex-wrap gap-2">
+          {ALERT_WORKFLOW_STATUSES.map(status => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? 'default' : 'outline'}
+              onClick={() => setStatusFilter(status)}
+              style={statusFilter === status ? { backgroundColor: '#f29d2c' } : undefined}
+            >
+              {ALERT_STATUS_LABELS[status]}
+              <span className="ml-2 text-xs opacity-80">
+                {scopedAlerts.filter(alert => alert.workflow_status === status).length}
+              </span>
+            </Button>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <Card className="bg-white">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium mb-2">Location</label>
+                <select
+                  value={locationFilter}
+                  onChange={(e) => setLocationFilter(e.target.value)}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">All locations</option>
+                  {locations.map(([id, name]) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Assignee</label>
+                <select
+                  value={assigneeFilter}
+                  onChange={(e) => setAssigneeFilter(e.target.value)}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">Anyone</option>
+                  <option value={UNASSIGNED}>Unassigned</option>
+                  {assignees.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+                <input
+                  type="checkbox"
+                  checked={showSnoozed}
+                  onChange={(e) => setShowSnoozed(e.target.checked)}
+                />
+                <span>Show snoozed alerts</span>
+              </label>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Alert list */}
+        <Card className="bg-white">
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-500">Loading alerts...</div>
+            ) : visibleAlerts.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                No {ALERT_STATUS_LABELS[statusFilter].toLowerCase()} alerts
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Price Change</TableHead>
+                    <TableHead>Level</TableHead>
+                    <TableHead>Assignee</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleAlerts.map(alert => (
+                    <TableRow
+                      key={alert.id}
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => openAlert(alert)}
+                    >
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium text-gray-900">{alert.product_name}</span>
+                          {alert.alert_type === 'CONTRACT_OVERCHARGE' && (
+                            <Badge variant="outline" className="text-xs bg-purple-50 text-purple-700 border-purple-200">Over contract</Badge>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {alert.product_number}{alert.pack_size ? ` • ${alert.pack_size}` : ''}
+                        </div>
+                      </TableCell>
+                      <TableCell>{alert.location_name}</TableCell>
+                      <TableCell>{formatDate(alert.alert_date)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-1">
+                          <span>{formatCurrency(alert.previous_price)}</span>
+                          {alert.price_change_amount > 0 ? (
+                            <ArrowUpRight className="h-4 w-4 text-red-500" />
+                          ) : (
+                            <ArrowDownRight className="h-4 w-4 text-green-500" />
+                          )}
+                          <span className="font-medium">{formatCurrency(alert.current_price)}</span>
+                        </div>
+                        <div className={`text-xs font-medium ${alert.price_change_percent > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {alert.price_change_percent > 0 ? '+' : ''}{alert.price_change_percent.toFixed(1)}%
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={alert.alert_level === 'CRITICAL' ? 'destructive' : 'outline'}>
+                          {alert.alert_level}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{alert.assigned_to || <span className="text-gray-400">-</span>}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-1">
+                          <Badge variant="outline" className={statusBadgeClasses[alert.workflow_status]}>
+                            {ALERT_STATUS_LABELS[alert.workflow_status]}
+                          </Badge>
+                          {isAlertSnoozed(alert.snoozed_until) && (
+                            <span title={`Snoozed until ${formatDate(alert.snoozed_until!)}`}>
+                              <BellOff className="h-4 w-4 text-gray-400" />
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Alert detail */}
+      <Dialog open={!!detail} onOpenChange={(open) => !open && setDetail(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selected && detail && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center space-x-2">
+                  <span>{selected.product_name}</span>
+                  <Badge variant="outline" className={statusBadgeClasses[selected.workflow_status]}>
+                    {ALERT_STATUS_LABELS[selected.workflow_status]}
+                  </Badge>
+                </DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-gray-500">Location</div>
+                    <div className="font-medium">{selected.location_name}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Invoice date</div>
+                    <div className="font-medium">{formatDate(selected.alert_date)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">{selected.alert_type === 'CONTRACT_OVERCHARGE' ? 'Contract → billed' : 'Price'}</div>
+                    <div className="font-medium">
+                      {formatCurrency(selected.previous_price)} → {formatCurrency(selected.current_price)}
+                      {' '}({selected.price_change_percent > 0 ? '+' : ''}{selected.price_change_percent.toFixed(1)}%)
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Pack</div>
+                    <div className="font-medium">
+                      {selected.pack_size || 'N/A'}{selected.pricing_unit ? ` per ${selected.pricing_unit}` : ''}
+                    </div>
+                  </div>
+                </div>
+
+                {actionError && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{actionError}</AlertDescription>
+                  </Alert>
+                )}
+
+                {canWorkAlerts && (
+                  <>
+                    {/* Status actions */}
+                    <div className="flex flex-wrap gap-2">
+                      {availableStatusActions(selected.workflow_status).map(action => (
+                        <Button
+                          key={action}
+                          variant={action === 'resolve' ? 'default' : 'outline'}
+                          disabled={isSaving}
+                          onClick={() => applyAction(action)}
+                        >
+                          {ALERT_ACTION_LABELS[action]}
+                        </Button>
+                      ))}
+                    </div>
+
+                    {/* Assign */}
+                    {canApplyAlertAction(selected.workflow_status, 'assign') && (
+                      <div className="flex items-center space-x-2">
+                        <Input
+                          value={assigneeInput}
+                          onChange={(e) => setAssigneeInput(e.target.value)}
+                          placeholder="Assignee"
+                        />
+                        <Button variant="outline" disabled={isSaving} onClick={() => applyAction('assign')}>
+                          <UserPlus className="h-4 w-4 mr-1" />
+                          {assigneeInput.trim() ? 'Assign' : 'Unassign'}
+                        </Button>
+                      </div>
+                    )}
+
+                    {/* Snooze */}
+                    {canApplyAlertAction(selected.workflow_status, 'snooze') && (
+                      <div className="flex items-center space-x-2">
+                        <Input
+                          type="date"
+                          value={snoozeInput}
+                          onChange={(e) => setSnoozeInput(e.target.value)}
+                        />
+                        <Button variant="outline" disabled={isSaving || !snoozeInput} onClick={() => applyAction('snooze')}>
+                          <BellOff className="h-4 w-4 mr-1" />
+                          Snooze
+                        </Button>
+                        {isAlertSnoozed(selected.snoozed_until) && (
+                          <Button variant="outline" disabled={isSaving} onClick={() => applyAction('unsnooze')}>
+                            Unsnooze
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Note */}
+                    <div className="space-y-2">
+                      <textarea
+                        value={noteInput}
+                        onChange={(e) => setNoteInput(e.target.value)}
+                        placeholder="Add a note, e.g. who you spoke to at US Foods"
+                        rows={3}
+                        className="w-full p-2 border rounded-md text-sm"
+                      />
+                      <Button variant="outline" disabled={isSaving || !noteInput.trim()} onClick={() => applyAction('note')}>
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        Add note
+                      </Button>
+                    </div>
+                  </>
+                )}
+
+                {/* History */}
+                <div>
+                  <h4 className="flex items-center space-x-2 font-medium text-gray-900 mb-3">
+                    <History className="h-4 w-4" />
+                    <span>History</span>
+                  </h4>
+                  <ul className="space-y-3 text-sm">
+                    <li className="flex justify-between text-gray-600">
+                      <span>Alert raised</span>
+                      <span className="text-gray-400">{formatDateTime(selected.created_at)}</span>
+                    </li>
+                    {detail.history.map(event => (
+                      <li key={event.id} className="border-l-2 border-gray-200 pl-3">
+                        <div className="flex justify-between">
+                          <span className="font-medium text-gray-900">{describeEvent(event)}</span>
+                          <span className="text-gray-400">{formatDateTime(event.created_at)}</span>
+                        </div>
+                        {event.actor && <div className="text-xs text-gray-500">by {event.actor}</div>}
+                        {event.note && <p className="mt-1 text-gray-700 whitespace-pre-wrap">{event.note}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
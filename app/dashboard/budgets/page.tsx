@@ -0,0 +1,581 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Wallet, Upload, FileText, Plus, Pencil, Trash2, AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import {
+  BUDGET_ALERT_LABELS,
+  BUDGET_STATUS_LABELS,
+  MIN_PROJECTION_DAYS,
+  type BudgetAlert,
+  type BudgetInput,
+  type BudgetStatus,
+  type BudgetStatusLevel
+} from '@/src/lib/budgets';
+import { hasPermission, type OrganizationRole } from '@/src/lib/roles';
+
+const statusBadgeClasses: Record<BudgetStatusLevel, string> = {
+  on_track: 'bg-green-50 text-green-700 border-green-200',
+  tracking_over: 'bg-amber-50 text-amber-700 border-amber-200',
+  over: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const statusBarClasses: Record<BudgetStatusLevel, string> = {
+  on_track: 'bg-green-500',
+  tracking_over: 'bg-amber-500',
+  over: 'bg-red-500'
+};
+
+interface BudgetForm {
+  id: string | null;
+  location_id: string;
+  category: string;
+  amount: string;
+}
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+export default function BudgetsPage() {
+  const [month, setMonth] = useState(currentMonth);
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([]);
+  const [locations, setLocations] = useState<{ id: string; name: string }[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [selectedBudgetId, setSelectedBudgetId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [role, setRole] = useState<OrganizationRole | null>(null);
+  const canManageBudgets = hasPermission(role, 'manage_purchasing');
+
+  const [budgetForm, setBudgetForm] = useState<BudgetForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<{ budgets: BudgetInput[]; errors: string[] } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/budgets?month=${month}`);
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading budgets failed with status ${response.status}`);
+      }
+
+      setStatuses(body.statuses);
+      setAlerts(body.alerts);
+      setLocations(body.locations);
+      setCategories(body.categories);
+    } catch (err) {
+      console.error('❌ Error loading budgets:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load budgets');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  useEffect(() => {
+    fetch('/api/organization')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading organization failed with status ${response.status}`);
+        }
+        setRole(body.organization?.role || null);
+      })
+      .catch((err) => console.error('❌ Error loading organization:', err));
+  }, []);
+
+  const openBudgetEditor = (status?: BudgetStatus) => {
+    setFormError(null);
+    setBudgetForm(status
+      ? {
+          id: status.budget.id,
+          location_id: status.budget.location_id,
+          category: status.budget.category,
+          amount: String(status.budget.amount)
+        }
+      : { id: null, location_id: locations[0]?.id || '', category: '', amount: '' });
+  };
+
+  const handleSaveBudget = async () => {
+    if (!budgetForm) return;
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+
+      const response = await fetch('/api/budgets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          location_id: budgetForm.location_id,
+          category: budgetForm.category,
+          month,
+          amount: budgetForm.amount
+        })
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Saving budget failed with status ${response.status}`);
+      }
+
+      setBudgetForm(null);
+      await loadBudgets();
+    } catch (err) {
+      console.error('❌ Error saving budget:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (status: BudgetStatus) => {
+    if (!confirm(`Remove the ${describeBudget(status)} budget?`)) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/budgets/${status.budget.id}`, { method: 'DELETE' });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Delete failed with status ${response.status}`);
+      }
+
+      setStatuses(current => current.filter(existing => existing.budget.id !== status.budget.id));
+    } catch (err) {
+      console.error('❌ Error deleting budget:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete budget');
+    }
+  };
+
+  const submitBudgetFile = async (action: 'preview' | 'commit') => {
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('action', action);
+    formData.append('file', file);
+
+    try {
+      setIsImporting(true);
+      setImportMessage(null);
+      setError(null);
+
+      const response = await fetch('/api/budgets/import', { method: 'POST', body: formData });
+      const body = await response.json();
+
+      if (body.budgets) {
+        setPreview({ budgets: body.budgets, errors: body.errors || [] });
+      }
+      if (!response.ok) {
+        throw new Error(body.error || `Budget upload failed with status ${response.status}`);
+      }
+
+      if (action === 'commit') {
+        setImportMessage(`${body.saved} budget${body.saved === 1 ? '' : 's'} imported`);
+        setFile(null);
+        setPreview(null);
+        await loadBudgets();
+      }
+    } catch (err) {
+      console.error('❌ Error uploading budgets:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload budgets');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const formatMonth = (value: string) => {
+    return new Date(`${value.slice(0, 7)}-01T00:00:00`).toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric'
+    });
+  };
+
+  const describeBudget = (status: BudgetStatus) =>
+    `${status.location_name} ${status.budget.category || 'total spend'}`;
+
+  const selectedStatus = statuses.find(status => status.budget.id === selectedBudgetId);
+  const trackingOver = statuses.filter(status => status.status !== 'on_track').length;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Wallet className="h-6 w-6 text-orange-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Budgets</h1>
+            {trackingOver > 0 && (
+              <Badge variant="destructive">{trackingOver} over or tracking over</Badge>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            <Input
+              type="month"
+              value={month}
+              onChange={(e) => {
+                if (!e.target.value) return;
+                setMonth(e.target.value);
+                setSelectedBudgetId(null);
+              }}
+              className="w-44"
+            />
+            {canManageBudgets && (
+              <Button onClick={() => openBudgetEditor()} disabled={locations.length === 0} style={{ backgroundColor: '#f29d2c' }}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Budget
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Budget vs actual */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle>{formatMonth(month)}</CardTitle>
+            <p className="text-sm text-gray-500">
+              Projected spend assumes the rest of the month goes like the days so far, from day {MIN_PROJECTION_DAYS} on.
+              A blank category budgets the location&apos;s total spend.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-500">Loading budgets...</div>
+            ) : statuses.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No budgets set for {formatMonth(month)}</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Budget</TableHead>
+                    <TableHead>Spent</TableHead>
+                    <TableHead className="w-48">Used</TableHead>
+                    <TableHead>Projected</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManageBudgets && <TableHead></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statuses.map(status => (
+                    <TableRow
+                      key={status.budget.id}
+                      className={`cursor-pointer hover:bg-gray-50 ${status.budget.id === selectedBudgetId ? 'bg-orange-50' : ''}`}
+                      onClick={() => setSelectedBudgetId(status.budget.id === selectedBudgetId ? null : status.budget.id)}
+                    >
+                      <TableCell className="font-medium">{status.location_name}</TableCell>
+                      <TableCell>{status.budget.category || <span className="text-gray-400">Total spend</span>}</TableCell>
+                      <TableCell>{formatCurrency(status.budget.amount)}</TableCell>
+                      <TableCell>{formatCurrency(status.actual)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <div className="h-2 flex-1 rounded-full bg-gray-100 overflow-hidden">
+                            <div
+                              className={`h-full ${statusBarClasses[status.status]}`}
+                              style={{ width: `${Math.min(status.percent_used, 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-gray-600 w-10 text-right">{Math.round(status.percent_used)}%</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className={status.projected !== null && status.projected > status.budget.amount ? 'text-red-600 font-medium' : ''}>
+                        {status.projected !== null ? formatCurrency(status.projected) : <span className="text-gray-400">-</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={statusBadgeClasses[status.status]}>
+                          {BUDGET_STATUS_LABELS[status.status]}
+                        </Badge>
+                      </TableCell>
+                      {canManageBudgets && (
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          <div className="flex items-center">
+                            <Button variant="ghost" size="sm" onClick={() => openBudgetEditor(status)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(status)}>
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Burn-down for the selected budget */}
+        {selectedStatus && (
+          <Card className="bg-white border-l-4 border-l-orange-500">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Burn-down: {describeBudget(selectedStatus)}</span>
+                <span className="text-sm font-normal text-gray-500">
+                  {selectedStatus.remaining >= 0
+                    ? `${formatCurrency(selectedStatus.remaining)} remaining`
+                    : `${formatCurrency(-selectedStatus.remaining)} over`}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={selectedStatus.burn_down}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" tickFormatter={(date: string) => String(Number(date.slice(8, 10)))} tick={{ fontSize: 12 }} />
+                    <YAxis tickFormatter={formatCurrency} tick={{ fontSize: 12 }} width={80} />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                      labelStyle={{ color: '#374151' }}
+                    />
+                    <Line type="monotone" dataKey="ideal" name="Even pace" stroke="#9ca3af" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                    <Line type="monotone" dataKey="actual" name="Spent" stroke="#f29d2c" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Cumulative spend through the month against spending the {formatCurrency(selectedStatus.budget.amount)} budget evenly.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Budget alerts */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-gray-600" />
+              <span>Budget Alerts</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {alerts.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No budget alerts</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Alert</TableHead>
+                    <TableHead>Budget</TableHead>
+                    <TableHead>Spent</TableHead>
+                    <TableHead>Projected</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {alerts.map(alert => (
+                    <TableRow key={alert.id}>
+                      <TableCell>{alert.month ? formatMonth(alert.month) : '-'}</TableCell>
+                      <TableCell>{alert.location_name}</TableCell>
+                      <TableCell>{alert.category || <span className="text-gray-400">Total spend</span>}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={statusBadgeClasses[alert.alert_type === 'OVER_BUDGET' ? 'over' : 'tracking_over']}>
+                          {BUDGET_ALERT_LABELS[alert.alert_type]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatCurrency(alert.budget_amount)}</TableCell>
+                      <TableCell>{formatCurrency(alert.actual_spend)}</TableCell>
+                      <TableCell>{formatCurrency(alert.projected_spend)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Import budgets */}
+        {canManageBudgets && (
+          <Card className="bg-white">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Upload className="h-5 w-5 text-gray-600" />
+                <span>Import Budgets</span>
+              </CardTitle>
+              <p className="text-sm text-gray-500">
+                CSV with Location, Month and Amount columns, plus an optional Category. Location is a name or id, Month is
+                YYYY-MM or M/YYYY, and a blank Category budgets the location&apos;s total spend. Rows replace existing budgets
+                for the same location, category and month.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-3">
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] || null);
+                    setPreview(null);
+                    setImportMessage(null);
+                  }}
+                  className="p-2 border rounded-md text-sm"
+                />
+                <Button variant="outline" disabled={!file || isImporting} onClick={() => submitBudgetFile('preview')}>
+                  <FileText className="h-4 w-4 mr-1" />
+                  Preview
+                </Button>
+                <Button
+                  disabled={!preview || preview.errors.length > 0 || preview.budgets.length === 0 || isImporting}
+                  onClick={() => submitBudgetFile('commit')}
+                  style={{ backgroundColor: '#f29d2c' }}
+                >
+                  <Upload className="h-4 w-4 mr-1" />
+                  {isImporting ? 'Importing...' : `Import ${preview?.budgets.length || ''} budgets`}
+                </Button>
+              </div>
+
+              {importMessage && (
+                <div className="flex items-center space-x-2 text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4" />
+                  <span>{importMessage}</span>
+                </div>
+              )}
+
+              {preview && preview.errors.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-red-600 space-y-1">
+                  {preview.errors.map(message => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+
+              {preview && preview.budgets.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  {preview.budgets.length} budget{preview.budgets.length === 1 ? '' : 's'} ready to import
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Budget editor */}
+      <Dialog open={!!budgetForm} onOpenChange={(open) => !open && setBudgetForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{budgetForm?.id ? 'Edit budget' : 'Add budget'} for {formatMonth(month)}</DialogTitle>
+          </DialogHeader>
+
+          {budgetForm && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Location</label>
+                <select
+                  value={budgetForm.location_id}
+                  disabled={!!budgetForm.id}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, location_id: e.target.value })}
+                  className="w-full p-2 border rounded-md"
+                >
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Category</label>
+                <select
+                  value={budgetForm.category}
+                  disabled={!!budgetForm.id}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, category: e.target.value })}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">Total spend (all categories)</option>
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Amount</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={budgetForm.amount}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, amount: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBudgetForm(null)}>Cancel</Button>
+            <Button onClick={handleSaveBudget} disabled={isSaving} style={{ backgroundColor: '#f29d2c' }}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,421 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Handshake, Upload, FileText, Download, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import type {
+  ContractCheckStatus,
+  ContractPrice,
+  ContractPriceInput,
+  InvoiceVarianceReport
+} from '@/src/lib/contract-pricing';
+import type { VendorFormat } from '@/src/lib/vendor-formats';
+
+const statusBadgeClasses: Record<ContractCheckStatus, string> = {
+  overcharge: 'bg-red-50 text-red-700 border-red-200',
+  undercharge: 'bg-blue-50 text-blue-700 border-blue-200',
+  compliant: 'bg-green-50 text-green-700 border-green-200'
+};
+
+export default function ContractsPage() {
+  const [contracts, setContracts] = useState<ContractPrice[]>([]);
+  // Contract prices are per vendor; the list and imports are for the vendor chosen here
+  const [vendors, setVendors] = useState<{ code: string; name: string }[]>([]);
+  const [vendorCode, setVendorCode] = useState('USFOODS');
+  const [reports, setReports] = useState<InvoiceVarianceReport[]>([]);
+  const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<{ contracts: ContractPriceInput[]; errors: string[] } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setError(null);
+      const [contractsResponse, reportsResponse] = await Promise.all([
+        fetch(`/api/contracts?vendor_code=${encodeURIComponent(vendorCode)}`),
+        fetch('/api/contracts/variance')
+      ]);
+      const contractsBody = await contractsResponse.json();
+      const reportsBody = await reportsResponse.json();
+
+      if (!contractsResponse.ok) {
+        throw new Error(contractsBody.error || `Loading contracts failed with status ${contractsResponse.status}`);
+      }
+      if (!reportsResponse.ok) {
+        throw new Error(reportsBody.error || `Loading variance reports failed with status ${reportsResponse.status}`);
+      }
+
+      setContracts(contractsBody.contracts);
+      setReports(reportsBody.reports);
+    } catch (err) {
+      console.error('❌ Error loading contract pricing:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load contract pricing');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [vendorCode]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useEffect(() => {
+    fetch('/api/vendor-formats')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading vendors failed with status ${response.status}`);
+        }
+        const byCode = new Map<string, string>();
+        (body.formats as VendorFormat[]).forEach(format => byCode.set(format.vendor_code, format.vendor_name));
+        setVendors(Array.from(byCode, ([code, name]) => ({ code, name })));
+      })
+      .catch(err => {
+        console.error('❌ Error loading vendors:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load vendors');
+      });
+  }, []);
+
+  const submitPriceList = async (action: 'preview' | 'commit') => {
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('action', action);
+    formData.append('vendor_code', vendorCode);
+    formData.append('file', file);
+
+    try {
+      setIsImporting(true);
+      setImportMessage(null);
+      setError(null);
+
+      const response = await fetch('/api/contracts', { method: 'POST', body: formData });
+      const body = await response.json();
+
+      if (body.contracts) {
+        setPreview({ contracts: body.contracts, errors: body.errors || [] });
+      }
+      if (!response.ok) {
+        throw new Error(body.error || `Price list upload failed with status ${response.status}`);
+      }
+
+      if (action === 'commit') {
+        setImportMessage(`${body.saved} contract price${body.saved === 1 ? '' : 's'} imported`);
+        setFile(null);
+        setPreview(null);
+        await loadData();
+      }
+    } catch (err) {
+      console.error('❌ Error uploading price list:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload price list');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (contract: ContractPrice) => {
+    if (!confirm(`Remove the contract price for ${contract.product_number}?`)) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/contracts/${contract.id}`, { method: 'DELETE' });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Delete failed with status ${response.status}`);
+      }
+
+      setContracts(current => current.filter(existing => existing.id !== contract.id));
+    } catch (err) {
+      console.error('❌ Error deleting contract price:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete contract price');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const selectedReport = reports.find(report => report.invoiceId === selectedInvoiceId);
+  const totalOvercharge = reports.reduce((sum, report) => sum + report.overchargeAmount, 0);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <Handshake className="h-6 w-6 text-orange-500" />
+          <h1 className="text-2xl font-bold text-gray-900">Contract Pricing</h1>
+          <Badge variant="secondary">{contracts.length} contracted prices</Badge>
+          <select
+            value={vendorCode}
+            onChange={(e) => {
+              setVendorCode(e.target.value);
+              setPreview(null);
+              setImportMessage(null);
+            }}
+            className="p-2 border rounded-md text-sm"
+          >
+            {(vendors.length > 0 ? vendors : [{ code: vendorCode, name: vendorCode }]).map(vendor => (
+              <option key={vendor.code} value={vendor.code}>{vendor.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Billed vs contract */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Billed vs Contract</span>
+              {totalOvercharge > 0 && (
+                <Badge variant="destructive">{formatCurrency(totalOvercharge)} overcharged</Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-500">Loading invoices...</div>
+            ) : reports.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No invoices with contracted products yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="text-center">Contracted Lines</TableHead>
+                    <TableHead className="text-center">Overcharged Lines</TableHead>
+                    <TableHead>Overcharge</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reports.map(report => (
+                    <TableRow
+                      key={report.invoiceId}
+                      className={`cursor-pointer hover:bg-gray-50 ${report.invoiceId === selectedInvoiceId ? 'bg-orange-50' : ''}`}
+                      onClick={() => setSelectedInvoiceId(report.invoiceId === selectedInvoiceId ? null : report.invoiceId)}
+                    >
+                      <TableCell className="font-mono text-sm">{report.documentNumber}</TableCell>
+                      <TableCell>{formatDate(report.invoiceDate)}</TableCell>
+                      <TableCell>{report.locationName}</TableCell>
+                      <TableCell className="text-center">{report.contractedLines}</TableCell>
+                      <TableCell className="text-center">{report.overchargeLines}</TableCell>
+                      <TableCell className={report.overchargeAmount > 0 ? 'font-medium text-red-600' : 'text-gray-400'}>
+                        {report.overchargeAmount > 0 ? formatCurrency(report.overchargeAmount) : '-'}
+                      </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <a
+                          href={`/api/contracts/variance/${report.invoiceId}?format=csv`}
+                          className="inline-flex items-center text-sm text-orange-600 hover:underline"
+                        >
+                          <Download className="h-4 w-4 mr-1" />
+                          CSV
+                        </a>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Selected invoice detail */}
+        {selectedReport && (
+          <Card className="bg-white border-l-4 border-l-orange-500">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileText className="h-5 w-5 text-gray-600" />
+                <span>Invoice {selectedReport.documentNumber}</span>
+                <span className="text-sm font-normal text-gray-500">
+                  {selectedReport.locationName} • {formatDate(selectedReport.invoiceDate)}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Pack</TableHead>
+                    <TableHead className="text-center">Qty</TableHead>
+                    <TableHead>Billed</TableHead>
+                    <TableHead>Contract</TableHead>
+                    <TableHead>Variance</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedReport.lines.map((line, index) => (
+                    <TableRow key={`${line.productNumber}-${index}`}>
+                      <TableCell>
+                        <div className="font-medium text-gray-900">{line.productDescription}</div>
+                        <div className="text-xs text-gray-500">{line.productNumber}</div>
+                      </TableCell>
+                      <TableCell>{line.packSize}</TableCell>
+                      <TableCell className="text-center">{line.quantity} <span className="text-xs text-gray-500">{line.pricingUnit}</span></TableCell>
+                      <TableCell>{formatCurrency(line.billedPrice)}</TableCell>
+                      <TableCell>{formatCurrency(line.contractPrice)}</TableCell>
+                      <TableCell className={line.varianceAmount > 0 ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                        {line.varianceAmount > 0 ? '+' : ''}{formatCurrency(line.varianceAmount)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={statusBadgeClasses[line.status]}>{line.status}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Import price list */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Upload className="h-5 w-5 text-gray-600" />
+              <span>Import Price List</span>
+            </CardTitle>
+            <p className="text-sm text-gray-500">
+              CSV with ProductNumber, ContractPrice and EffectiveFrom columns. PackSize, PricingUnit,
+              ProductDescription and EffectiveTo are optional; leave PackSize blank for a price that applies to every pack.
+              Prices are imported for {vendors.find(vendor => vendor.code === vendorCode)?.name || vendorCode}.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center space-x-3">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setPreview(null);
+                  setImportMessage(null);
+                }}
+                className="p-2 border rounded-md text-sm"
+              />
+              <Button variant="outline" disabled={!file || isImporting} onClick={() => submitPriceList('preview')}>
+                <FileText className="h-4 w-4 mr-1" />
+                Preview
+              </Button>
+              <Button
+                disabled={!preview || preview.errors.length > 0 || preview.contracts.length === 0 || isImporting}
+                onClick={() => submitPriceList('commit')}
+                style={{ backgroundColor: '#f29d2c' }}
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                {isImporting ? 'Importing...' : `Import ${preview?.contracts.length || ''} prices`}
+              </Button>
+            </div>
+
+            {importMessage && (
+              <div className="flex items-center space-x-2 text-sm text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                <span>{importMessage}</span>
+              </div>
+            )}
+
+            {preview && preview.errors.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-red-600 space-y-1">
+                {preview.errors.map(message => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
+
+            {preview && preview.contracts.length > 0 && (
+              <p className="text-sm text-gray-600">
+                {preview.contracts.length} price{preview.contracts.length === 1 ? '' : 's'} ready to import
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Contract price list */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle>{vendors.find(vendor => vendor.code === vendorCode)?.name || vendorCode} Contract Prices</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {contracts.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No contract prices imported yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Pack</TableHead>
+                    <TableHead>Contract Price</TableHead>
+                    <TableHead>Effective</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {contracts.map(contract => (
+                    <TableRow key={contract.id}>
+                      <TableCell>
+                        <div className="font-medium text-gray-900">{contract.product_description || contract.product_number}</div>
+                        <div className="text-xs text-gray-500">{contract.product_number}</div>
+                      </TableCell>
+                      <TableCell>{contract.pack_size || <span className="text-gray-400">Any</span>}</TableCell>
+                      <TableCell>
+                        {formatCurrency(contract.contract_price)}
+                        {contract.pricing_unit && <span className="text-xs text-gray-500"> / {contract.pricing_unit}</span>}
+                      </TableCell>
+                      <TableCell>
+                        {formatDate(contract.effective_from)} – {contract.effective_to ? formatDate(contract.effective_to) : 'ongoing'}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(contract)}>
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
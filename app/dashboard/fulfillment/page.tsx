@@ -0,0 +1,413 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Truck, AlertCircle, PackageX, Repeat, Warehouse } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { getLocations } from '@/lib/supabase/browser';
+import type { Location } from '@/lib/supabase/types';
+import type { FillRateFilters, FillRateReport } from '@/src/lib/fill-rate';
+
+const DELIVERY_LIMIT = 25;
+
+export default function FulfillmentPage() {
+  const [report, setReport] = useState<FillRateReport | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [filters, setFilters] = useState<FillRateFilters>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (filters.locationId) params.set('locationId', filters.locationId);
+    if (filters.dateFrom) params.set('dateFrom', filters.dateFrom);
+    if (filters.dateTo) params.set('dateTo', filters.dateTo);
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(`/api/fill-rate?${params.toString()}`);
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading fill rates failed with status ${response.status}`);
+      }
+
+      setReport(body.report);
+    } catch (err) {
+      console.error('❌ Error loading fill rates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load fill rates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  useEffect(() => {
+    getLocations()
+      .then(setLocations)
+      .catch(err => console.error('❌ Error loading locations:', err));
+  }, []);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const formatFillRate = (fillRate: number) => `${(fillRate * 100).toFixed(1)}%`;
+
+  const fillRateClass = (fillRate: number) => {
+    if (fillRate >= 0.98) return 'text-green-700';
+    if (fillRate >= 0.9) return 'text-yellow-700';
+    return 'text-red-600';
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <Truck className="h-6 w-6 text-orange-500" />
+          <h1 className="text-2xl font-bold text-gray-900">Fulfillment</h1>
+          <span className="text-sm text-gray-500">Ordered vs shipped</span>
+        </div>
+
+        {/* Filters */}
+        <Card className="bg-white">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium mb-2">Location</label>
+                <select
+                  value={filters.locationId || ''}
+                  onChange={(e) => setFilters({ ...filters, locationId: e.target.value || undefined })}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">All locations</option>
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">From</label>
+                <Input
+                  type="date"
+                  value={filters.dateFrom || ''}
+                  onChange={(e) => setFilters({ ...filters, dateFrom: e.target.value || undefined })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">To</label>
+                <Input
+                  type="date"
+                  value={filters.dateTo || ''}
+                  onChange={(e) => setFilters({ ...filters, dateTo: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading fill rates...</div>
+        ) : report && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Card className="bg-white">
+                <CardContent className="p-6">
+                  <div className="text-sm text-gray-500">Fill rate</div>
+                  <div className={`text-2xl font-bold ${fillRateClass(report.totals.fillRate)}`}>
+                    {formatFillRate(report.totals.fillRate)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {report.totals.filledQty} of {report.totals.orderedQty} units ordered
+                  </div>
+                </CardContent>
+              </Card>
+              <Card className="bg-white">
+                <CardContent className="p-6">
+                  <div className="text-sm text-gray-500">Shorted lines</div>
+                  <div className="text-2xl font-bold text-gray-900">{report.totals.shortedLines}</div>
+                  <div className="text-xs text-gray-500">{report.totals.shortedQty} units short</div>
+                </CardContent>
+              </Card>
+              <Card className="bg-white">
+                <CardContent className="p-6">
+                  <div className="text-sm text-gray-500">Value shorted</div>
+                  <div className="text-2xl font-bold text-red-600">{formatCurrency(report.totals.shortedValue)}</div>
+                  <div className="text-xs text-gray-500">at invoiced prices</div>
+                </CardContent>
+              </Card>
+              <Card className="bg-white">
+                <CardContent className="p-6">
+                  <div className="text-sm text-gray-500">Substitutions</div>
+                  <div className="text-2xl font-bold text-gray-900">{report.substitutions.length}</div>
+                  <div className="text-xs text-gray-500">{report.repeatShortages.length} repeat shortages</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Repeat shortages */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Repeat className="h-5 w-5 text-gray-600" />
+                  <span>Repeat Shortages</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.repeatShortages.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">No product has been shorted more than once</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-center">Shorted Deliveries</TableHead>
+                        <TableHead>Fill Rate</TableHead>
+                        <TableHead className="text-center">Units Short</TableHead>
+                        <TableHead>Value Short</TableHead>
+                        <TableHead>Last Shorted</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.repeatShortages.map(product => (
+                        <TableRow key={product.productNumber}>
+                          <TableCell>
+                            <div className="font-medium text-gray-900">{product.productDescription}</div>
+                            <div className="text-xs text-gray-500">{product.productNumber}</div>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            {product.shortedDeliveries} of {product.deliveries}
+                          </TableCell>
+                          <TableCell className={`font-medium ${fillRateClass(product.fillRate)}`}>
+                            {formatFillRate(product.fillRate)}
+                          </TableCell>
+                          <TableCell className="text-center">{product.shortedQty}</TableCell>
+                          <TableCell>{formatCurrency(product.shortedValue)}</TableCell>
+                          <TableCell>{product.lastShortedDate ? formatDate(product.lastShortedDate) : '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Substitutions */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <PackageX className="h-5 w-5 text-gray-600" />
+                  <span>Substitutions</span>
+                </CardTitle>
+                <p className="text-sm text-gray-500">
+                  Ordered products that didn&apos;t arrive while a similar product did on the same delivery.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {report.substitutions.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">No substitutions detected</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Delivery</TableHead>
+                        <TableHead>Ordered</TableHead>
+                        <TableHead>Received Instead</TableHead>
+                        <TableHead className="text-center">Match</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.substitutions.map(substitution => (
+                        <TableRow key={`${substitution.invoiceId}-${substitution.orderedProductNumber}`}>
+                          <TableCell>
+                            <Link
+                              href={`/dashboard/invoices/${substitution.invoiceId}?product=${encodeURIComponent(substitution.orderedProductNumber)}`}
+                              className="font-mono text-sm text-blue-600 hover:underline"
+                            >
+                              {substitution.documentNumber}
+                            </Link>
+                            <div className="text-xs text-gray-500">
+                              {formatDate(substitution.deliveryDate)} • {substitution.locationName}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium text-gray-900">{substitution.orderedDescription}</div>
+                            <div className="text-xs text-gray-500">
+                              {substitution.orderedProductNumber} • {substitution.qtyOrdered} ordered
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium text-gray-900">{substitution.substituteDescription}</div>
+                            <div className="text-xs text-gray-500">
+                              {substitution.substituteProductNumber} • {substitution.qtyShipped} shipped
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <Badge variant="outline">{Math.round(substitution.similarity * 100)}%</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* By warehouse */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Warehouse className="h-5 w-5 text-gray-600" />
+                  <span>By US Foods Sales Location</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sales Location</TableHead>
+                      <TableHead className="text-center">Deliveries</TableHead>
+                      <TableHead>Fill Rate</TableHead>
+                      <TableHead className="text-center">Shorted Lines</TableHead>
+                      <TableHead>Value Short</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.salesLocations.map(salesLocation => (
+                      <TableRow key={salesLocation.salesLocation}>
+                        <TableCell className="font-medium">{salesLocation.salesLocation}</TableCell>
+                        <TableCell className="text-center">{salesLocation.deliveries}</TableCell>
+                        <TableCell className={`font-medium ${fillRateClass(salesLocation.fillRate)}`}>
+                          {formatFillRate(salesLocation.fillRate)}
+                        </TableCell>
+                        <TableCell className="text-center">{salesLocation.shortedLines}</TableCell>
+                        <TableCell>{formatCurrency(salesLocation.shortedValue)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* By delivery */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle>Recent Deliveries</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Fill Rate</TableHead>
+                      <TableHead className="text-center">Shorted Lines</TableHead>
+                      <TableHead className="text-center">Substitutions</TableHead>
+                      <TableHead>Value Short</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.deliveries.slice(0, DELIVERY_LIMIT).map(delivery => (
+                      <TableRow key={delivery.invoiceId}>
+                        <TableCell>
+                          <Link
+                            href={`/dashboard/invoices/${delivery.invoiceId}`}
+                            className="font-mono text-sm text-blue-600 hover:underline"
+                          >
+                            {delivery.documentNumber}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{formatDate(delivery.deliveryDate)}</TableCell>
+                        <TableCell>{delivery.locationName}</TableCell>
+                        <TableCell className={`font-medium ${fillRateClass(delivery.fillRate)}`}>
+                          {formatFillRate(delivery.fillRate)}
+                        </TableCell>
+                        <TableCell className="text-center">{delivery.shortedLines}</TableCell>
+                        <TableCell className="text-center">{delivery.substitutions || '-'}</TableCell>
+                        <TableCell>{delivery.shortedValue > 0 ? formatCurrency(delivery.shortedValue) : '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* By product */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle>Fill Rate by Product</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-center">Ordered</TableHead>
+                      <TableHead className="text-center">Shipped</TableHead>
+                      <TableHead>Fill Rate</TableHead>
+                      <TableHead className="text-center">Shorted Deliveries</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.products.map(product => (
+                      <TableRow key={product.productNumber}>
+                        <TableCell>
+                          <div className="font-medium text-gray-900">{product.productDescription}</div>
+                          <div className="text-xs text-gray-500">{product.productNumber}</div>
+                        </TableCell>
+                        <TableCell className="text-center">{product.orderedQty}</TableCell>
+                        <TableCell className="text-center">{product.filledQty}</TableCell>
+                        <TableCell className={`font-medium ${fillRateClass(product.fillRate)}`}>
+                          {formatFillRate(product.fillRate)}
+                        </TableCell>
+                        <TableCell className="text-center">{product.shortedDeliveries}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import { ArrowLeft, FileText, Download, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Badge } from '@/src/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { getInvoiceDetail } from '@/lib/supabase/browser';
+import type { Invoice, InvoiceItem } from '@/lib/supabase/types';
+
+export default function InvoiceDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const highlightedProduct = useSearchParams().get('product');
+
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [credits, setCredits] = useState<Invoice[]>([]);
+  const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadInvoice = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const detail = await getInvoiceDetail(id);
+
+        if (!detail) {
+          setError('Invoice not found');
+          return;
+        }
+
+        setInvoice(detail.invoice);
+        setItems(detail.items);
+        setCredits(detail.credits);
+      } catch (err) {
+        console.error('❌ Error loading invoice:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load invoice');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadInvoice();
+  }, [id]);
+
+  // Scroll the line the user came from into view once it renders
+  useEffect(() => {
+    if (!highlightedProduct || items.length === 0) return;
+    document.getElementById(`line-${highlightedProduct}`)?.scrollIntoView({ block: 'center' });
+  }, [highlightedProduct, items]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const isCreditMemo = invoice?.document_type === 'CREDIT_MEMO';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Link href="/dashboard/invoices" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All invoices
+        </Link>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading invoice...</div>
+        ) : invoice && (
+          <>
+            {/* Header */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <FileText className="h-5 w-5 text-orange-500" />
+                    <span className="font-mono">{invoice.document_number}</span>
+                    {isCreditMemo ? (
+                      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Credit memo</Badge>
+                    ) : (
+                      <Badge variant="outline">Invoice</Badge>
+                    )}
+                  </div>
+                  {!isCreditMemo && (
+                    <a
+                      href={`/api/contracts/variance/${invoice.id}?format=csv`}
+                      className="inline-flex items-center text-sm font-normal text-orange-600 hover:underline"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Contract variance CSV
+                    </a>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <div className="text-gray-500">Location</div>
+                    <div className="font-medium">{invoice.location?.name || '-'}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Invoice date</div>
+                    <div className="font-medium">{formatDate(invoice.invoice_date)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Net amount</div>
+                    <div className="font-medium">{formatCurrency(invoice.net_amount)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Lines / products</div>
+                    <div className="font-medium">{invoice.total_items} / {invoice.unique_products}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Source file</div>
+                    <div className="font-medium break-all">{invoice.file_name}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Processing status</div>
+                    <div className="font-medium">{invoice.processing_status.toLowerCase()}</div>
+                  </div>
+                  {isCreditMemo && (
+                    <div>
+                      <div className="text-gray-500">Credits invoice</div>
+                      <div className="font-medium">
+                        {invoice.original_invoice_id ? (
+                          <Link href={`/dashboard/invoices/${invoice.original_invoice_id}`} className="font-mono text-blue-600 hover:underline">
+                            {invoice.original_document_number}
+                          </Link>
+                        ) : (
+                          invoice.original_document_number || 'Not linked'
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  {credits.length > 0 && (
+                    <div>
+                      <div className="text-gray-500">Credit memos</div>
+                      <div className="font-medium space-x-2">
+                        {credits.map(credit => (
+                          <Link key={credit.id} href={`/dashboard/invoices/${credit.id}`} className="font-mono text-blue-600 hover:underline">
+                            {credit.document_number}
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Line items */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle>Line Items</CardTitle>
+                <p className="text-sm text-gray-500">Click a line to see the original CSV row it was imported from.</p>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8"></TableHead>
+                      <TableHead>#</TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Pack</TableHead>
+                      <TableHead className="text-center">Ordered</TableHead>
+                      <TableHead className="text-center">Shipped</TableHead>
+                      <TableHead>Unit Price</TableHead>
+                      <TableHead>Extended</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.map((item, index) => {
+                      const isExpanded = expandedItemId === item.id;
+                      const isHighlighted = item.product_number === highlightedProduct;
+
+                      return (
+                        <Fragment key={item.id}>
+                          <TableRow
+                            id={isHighlighted ? `line-${item.product_number}` : undefined}
+                            className={`cursor-pointer hover:bg-gray-50 ${isHighlighted ? 'bg-orange-50' : ''}`}
+                            onClick={() => setExpandedItemId(isExpanded ? null : item.id)}
+                          >
+                            <TableCell>
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </TableCell>
+                            <TableCell className="text-gray-500">{item.line_number ?? index + 1}</TableCell>
+                            <TableCell>
+                              <div className="font-medium text-gray-900">{item.product_description}</div>
+                              <div className="text-xs text-gray-500">{item.product_number} • {item.product_category}</div>
+                            </TableCell>
+                            <TableCell>{item.pack_size}</TableCell>
+                            <TableCell className="text-center">{item.qty_ordered}</TableCell>
+                            <TableCell className="text-center">{item.qty_shipped}</TableCell>
+                            <TableCell>
+                              {formatCurrency(item.unit_price)}
+                              {item.pricing_unit && <span className="text-xs text-gray-500"> / {item.pricing_unit}</span>}
+                            </TableCell>
+                            <TableCell className="font-medium">{formatCurrency(item.extended_price)}</TableCell>
+                          </TableRow>
+                          {isExpanded && (
+                            <TableRow className="bg-gray-50 hover:bg-gray-50">
+                              <TableCell></TableCell>
+                              <TableCell colSpan={7}>
+                                {item.raw_data ? (
+                                  <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 text-xs">
+                                    {Object.entries(item.raw_data).map(([column, value]) => (
+                                      <div key={column} className="flex space-x-1 min-w-0">
+                                        <dt className="text-gray-500 shrink-0">{column}:</dt>
+                                        <dd className="font-mono text-gray-900 truncate">{value || '—'}</dd>
+                                      </div>
+                                    ))}
+                                  </dl>
+                                ) : (
+                                  <p className="text-xs text-gray-500">
+                                    The original CSV row wasn&apos;t kept for this line. Re-import the file to capture it.
+                                  </p>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
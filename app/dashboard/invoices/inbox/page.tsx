@@ -0,0 +1,341 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Inbox, Plus, Trash2, AlertCircle, ArrowLeft, Paperclip } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { getLocations } from '@/lib/supabase/browser';
+import type { Location } from '@/lib/supabase/types';
+import type { EmailIngestionEntry, EmailIngestionStatus, InvoiceRouteMatch, VendorAccount } from '@/src/lib/email-ingestion';
+import type { VendorFormat } from '@/src/lib/vendor-formats';
+import type { InvoiceImportStatus } from '@/src/lib/data-importer';
+import { hasPermission, type OrganizationRole } from '@/src/lib/roles';
+
+const statusBadgeClasses: Record<EmailIngestionStatus, string> = {
+  imported: 'bg-green-50 text-green-700 border-green-200',
+  partial: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  no_attachments: 'bg-gray-50 text-gray-600 border-gray-200'
+};
+
+const outcomeBadgeClasses: Record<InvoiceImportStatus, string> = {
+  new: 'bg-green-50 text-green-700 border-green-200',
+  updated: 'bg-blue-50 text-blue-700 border-blue-200',
+  unchanged: 'bg-gray-50 text-gray-600 border-gray-200',
+  failed: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const ROUTE_LABELS: Record<InvoiceRouteMatch, string> = {
+  customer_number: 'customer number',
+  ship_to: 'ship-to address',
+  default: 'default location'
+};
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }) : '-';
+}
+
+export default function EmailInboxPage() {
+  const [entries, setEntries] = useState<EmailIngestionEntry[]>([]);
+  const [accounts, setAccounts] = useState<VendorAccount[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [vendors, setVendors] = useState<{ code: string; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [role, setRole] = useState<OrganizationRole | null>(null);
+  const canManagePurchasing = hasPermission(role, 'manage_purchasing');
+
+  const [newAccount, setNewAccount] = useState({ location_id: '', vendor_code: '', customer_number: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadInbox = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/email-ingestion');
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading email inbox failed with status ${response.status}`);
+      }
+
+      setEntries(body.entries);
+      setAccounts(body.accounts);
+    } catch (err) {
+      console.error('❌ Error loading email inbox:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load email inbox');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInbox();
+    getLocations().then(setLocations);
+
+    fetch('/api/organization')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading organization failed with status ${response.status}`);
+        }
+        setRole(body.organization?.role || null);
+      })
+      .catch((err) => console.error('❌ Error loading organization:', err));
+
+    // Vendors known from their invoice formats
+    fetch('/api/vendor-formats')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading vendor formats failed with status ${response.status}`);
+        }
+        const byCode = new Map<string, string>();
+        (body.formats as VendorFormat[]).forEach(format => byCode.set(format.vendor_code, format.vendor_name));
+        setVendors(Array.from(byCode, ([code, name]) => ({ code, name })));
+      })
+      .catch((err) => console.error('❌ Error loading vendors:', err));
+  }, [loadInbox]);
+
+  const handleAddAccount = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await fetch('/api/vendor-accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newAccount)
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Saving customer number failed with status ${response.status}`);
+      }
+
+      setAccounts(current => [...current, body.account]);
+      setNewAccount(current => ({ ...current, customer_number: '' }));
+    } catch (err) {
+      console.error('❌ Error saving customer number:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save customer number');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteAccount = async (account: VendorAccount) => {
+    if (!confirm(`Stop routing customer number ${account.customer_number} to ${account.location_name}?`)) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/vendor-accounts/${account.id}`, { method: 'DELETE' });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Deleting customer number failed with status ${response.status}`);
+      }
+
+      setAccounts(current => current.filter(existing => existing.id !== account.id));
+    } catch (err) {
+      console.error('❌ Error deleting customer number:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete customer number');
+    }
+  };
+
+  const locationName = (locationId: string | null) =>
+    locations.find(location => location.id === locationId)?.name || 'another location';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Link href="/dashboard/invoices/upload" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Upload Invoices
+        </Link>
+
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <Inbox className="h-6 w-6 text-orange-500" />
+          <h1 className="text-2xl font-bold text-gray-900">Email Inbox</h1>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          The ingestion worker (<code>npm run ingest-email</code>) imports CSV and PDF invoices attached to vendor emails.
+          Each invoice goes to the location its customer number is routed to below, or whose street address appears
+          as the ship-to address. PDFs with fields that need review are left for the Upload Invoices page.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Customer number routing */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle>Customer Numbers</CardTitle>
+            <p className="text-sm text-gray-500">The account numbers vendors bill each location under.</p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {canManagePurchasing && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <select
+                  value={newAccount.location_id}
+                  onChange={(e) => setNewAccount(current => ({ ...current, location_id: e.target.value }))}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">Select a location</option>
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={newAccount.vendor_code}
+                  onChange={(e) => setNewAccount(current => ({ ...current, vendor_code: e.target.value }))}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">Any vendor</option>
+                  {vendors.map(vendor => (
+                    <option key={vendor.code} value={vendor.code}>{vendor.name}</option>
+                  ))}
+                </select>
+                <Input
+                  value={newAccount.customer_number}
+                  onChange={(e) => setNewAccount(current => ({ ...current, customer_number: e.target.value }))}
+                  placeholder="Customer number"
+                />
+                <Button
+                  onClick={handleAddAccount}
+                  disabled={isSaving || !newAccount.location_id || !newAccount.customer_number.trim()}
+                  style={{ backgroundColor: '#f29d2c' }}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {isSaving ? 'Saving...' : 'Add'}
+                </Button>
+              </div>
+            )}
+
+            {accounts.length === 0 ? (
+              <div className="text-sm text-gray-500">
+                No customer numbers yet; invoices are routed by ship-to address only.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer number</TableHead>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead>Location</TableHead>
+                    {canManagePurchasing && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {accounts.map(account => (
+                    <TableRow key={account.id}>
+                      <TableCell className="font-mono text-sm">{account.customer_number}</TableCell>
+                      <TableCell>{account.vendor_name || <span className="text-gray-500">Any vendor</span>}</TableCell>
+                      <TableCell>{account.location_name}</TableCell>
+                      {canManagePurchasing && (
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteAccount(account)} title="Stop routing">
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Audit log */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle>Processed Emails</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-500">Loading email inbox...</div>
+            ) : entries.length === 0 ? (
+              <div className="text-sm text-gray-500">No emails processed yet.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Processed</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Attachments</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.message_id}>
+                      <TableCell className="text-sm whitespace-nowrap align-top">{formatDateTime(entry.processed_at)}</TableCell>
+                      <TableCell className="align-top">
+                        <div className="font-medium">{entry.subject || '(no subject)'}</div>
+                        <div className="text-xs text-gray-500">
+                          {entry.from_address || 'Unknown sender'} · {entry.source}
+                          {entry.received_at && ` · received ${formatDateTime(entry.received_at)}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="align-top space-y-2">
+                        {entry.attachments.map(attachment => (
+                          <div key={attachment.fileName}>
+                            <div className="flex items-center space-x-1 text-sm">
+                              <Paperclip className="h-3 w-3 text-gray-400" />
+                              <span>{attachment.fileName}</span>
+                              {attachment.formatName && <span className="text-xs text-gray-500">({attachment.formatName})</span>}
+                            </div>
+                            {attachment.error && <div className="text-xs text-red-600">{attachment.error}</div>}
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {attachment.outcomes.map((outcome, index) => (
+                                <Badge
+                                  key={`${outcome.documentNumber}-${index}`}
+                                  variant="outline"
+                                  className={outcomeBadgeClasses[outcome.status]}
+                                  title={outcome.error || (outcome.routedBy
+                                    ? `${locationName(outcome.locationId)}, by ${ROUTE_LABELS[outcome.routedBy]}`
+                                    : undefined)}
+                                >
+                                  {outcome.documentNumber}: {outcome.status}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                        {entry.attachments.length === 0 && entry.error && (
+                          <div className="text-xs text-gray-500">{entry.error}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <Badge variant="outline" className={statusBadgeClasses[entry.status]}>
+                          {entry.status.replace('_', ' ')}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { FileText, Upload, Search, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { getInvoices, getLocations } from '@/lib/supabase/browser';
+import type { Invoice, InvoiceFilters, Location } from '@/lib/supabase/types';
+import { hasPermission, type OrganizationRole } from '@/src/lib/roles';
+
+const PAGE_SIZE = 25;
+
+const processingStatusClasses: Record<string, string> = {
+  COMPLETED: 'bg-green-50 text-green-700 border-green-200',
+  PROCESSING: 'bg-blue-50 text-blue-700 border-blue-200',
+  PENDING: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  FAILED: 'bg-red-50 text-red-700 border-red-200'
+};
+
+export default function InvoicesPage() {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [total, setTotal] = useState(0);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [filters, setFilters] = useState<InvoiceFilters>({});
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [role, setRole] = useState<OrganizationRole | null>(null);
+
+  const loadInvoices = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await getInvoices(filters, page, PAGE_SIZE);
+      setInvoices(result.invoices);
+      setTotal(result.total);
+    } catch (err) {
+      console.error('❌ Error loading invoices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load invoices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  useEffect(() => {
+    getLocations()
+      .then(setLocations)
+      .catch(err => console.error('❌ Error loading locations:', err));
+
+    fetch('/api/organization')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading organization failed with status ${response.status}`);
+        }
+        setRole(body.organization?.role || null);
+      })
+      .catch(err => console.error('❌ Error loading organization:', err));
+  }, []);
+
+  const updateFilter = <K extends keyof InvoiceFilters>(key: K, value: InvoiceFilters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+    setPage(0);
+  };
+
+  const parseAmount = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FileText className="h-6 w-6 text-orange-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Invoices</h1>
+            <Badge variant="secondary">{total} invoices</Badge>
+          </div>
+          {hasPermission(role, 'import_invoices') && (
+            <Link href="/dashboard/invoices/upload">
+              <Button style={{ backgroundColor: '#f29d2c' }}>
+                <Upload className="h-4 w-4 mr-1" />
+                Upload Invoices
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        {/* Filters */}
+        <Card className="bg-white">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="relative">
+                <label className="block text-sm font-medium mb-2">Invoice number</label>
+                <Search className="absolute left-3 bottom-3 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search invoices..."
+                  value={filters.search || ''}
+                  onChange={(e) => updateFilter('search', e.target.value || undefined)}
+                  className="pl-10"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Location</label>
+                <select
+                  value={filters.locationId || ''}
+                  onChange={(e) => updateFilter('locationId', e.target.value || undefined)}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">All locations</option>
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Document type</label>
+                <select
+                  value={filters.documentType || ''}
+                  onChange={(e) => updateFilter('documentType', (e.target.value || undefined) as InvoiceFilters['documentType'])}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">All documents</option>
+                  <option value="INVOICE">Invoices</option>
+                  <option value="CREDIT_MEMO">Credit memos</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Processing status</label>
+                <select
+                  value={filters.processingStatus || ''}
+                  onChange={(e) => updateFilter('processingStatus', e.target.value || undefined)}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">Any status</option>
+                  {Object.keys(processingStatusClasses).map(status => (
+                    <option key={status} value={status}>{status.toLowerCase()}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">From</label>
+                <Input
+                  type="date"
+                  value={filters.dateFrom || ''}
+                  onChange={(e) => updateFilter('dateFrom', e.target.value || undefined)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">To</label>
+                <Input
+                  type="date"
+                  value={filters.dateTo || ''}
+                  onChange={(e) => updateFilter('dateTo', e.target.value || undefined)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Min amount</label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={filters.amountMin ?? ''}
+                  onChange={(e) => updateFilter('amountMin', parseAmount(e.target.value))}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Max amount</label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={filters.amountMax ?? ''}
+                  onChange={(e) => updateFilter('amountMax', parseAmount(e.target.value))}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Invoice list */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Invoice History</span>
+              <div className="flex items-center space-x-2 text-sm font-normal text-gray-600">
+                <Button variant="outline" size="sm" disabled={page === 0 || isLoading} onClick={() => setPage(page - 1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>Page {page + 1} of {pageCount}</span>
+                <Button variant="outline" size="sm" disabled={page + 1 >= pageCount || isLoading} onClick={() => setPage(page + 1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-500">Loading invoices...</div>
+            ) : invoices.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No invoices match these filters</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-center">Lines</TableHead>
+                    <TableHead>Net Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoices.map(invoice => (
+                    <TableRow key={invoice.id} className="hover:bg-gray-50">
+                      <TableCell>
+                        <Link
+                          href={`/dashboard/invoices/${invoice.id}`}
+                          className="font-mono text-sm text-blue-600 hover:text-blue-800 hover:underline"
+                        >
+                          {invoice.document_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{formatDate(invoice.invoice_date)}</TableCell>
+                      <TableCell>{invoice.location?.name || '-'}</TableCell>
+                      <TableCell>
+                        {invoice.document_type === 'CREDIT_MEMO' ? (
+                          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Credit memo</Badge>
+                        ) : (
+                          <Badge variant="outline">Invoice</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">{invoice.total_items}</TableCell>
+                      <TableCell className={invoice.net_amount < 0 ? 'font-medium text-green-700' : 'font-medium text-gray-900'}>
+                        {formatCurrency(invoice.net_amount)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={processingStatusClasses[invoice.processing_status] || ''}>
+                          {invoice.processing_status.toLowerCase()}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,401 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Upload, FileText, CheckCircle, AlertCircle, AlertTriangle, Inbox } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { getLocations } from '@/lib/supabase/browser';
+import type { Location } from '@/lib/supabase/types';
+import type { FilePreview, InvoicePreview, UploadCommitResult } from '@/src/lib/invoice-upload';
+import { PDF_REVIEW_THRESHOLD, type PdfHeaderField, type PdfInvoiceCorrection } from '@/src/lib/pdf-invoices';
+import type { InvoiceImportStatus } from '@/src/lib/data-importer';
+
+const outcomeBadgeClasses: Record<InvoiceImportStatus, string> = {
+  new: 'bg-green-50 text-green-700 border-green-200',
+  updated: 'bg-blue-50 text-blue-700 border-blue-200',
+  unchanged: 'bg-gray-50 text-gray-600 border-gray-200',
+  failed: 'bg-red-50 text-red-700 border-red-200'
+};
+
+export default function InvoiceUploadPage() {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [selectedLocation, setSelectedLocation] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [previews, setPreviews] = useState<FilePreview[]>([]);
+  const [results, setResults] = useState<UploadCommitResult[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // PDF review: corrections and approvals by file name and invoice position
+  const [corrections, setCorrections] = useState<Record<string, PdfInvoiceCorrection[]>>({});
+  const [reviewChanged, setReviewChanged] = useState(false);
+
+  useEffect(() => {
+    getLocations().then(setLocations);
+  }, []);
+
+  const submit = async (action: 'preview' | 'commit') => {
+    const formData = new FormData();
+    formData.append('action', action);
+    formData.append('locationId', selectedLocation);
+    formData.append('corrections', JSON.stringify(corrections));
+    files.forEach(file => formData.append('files', file));
+
+    const response = await fetch('/api/invoices/upload', {
+      method: 'POST',
+      body: formData
+    });
+    const body = await response.json();
+
+    if (body.previews) {
+      setPreviews(body.previews);
+    }
+
+    if (!response.ok) {
+      throw new Error(body.error || `Upload failed with status ${response.status}`);
+    }
+
+    return body as { previews: FilePreview[]; results?: UploadCommitResult[] };
+  };
+
+  const handlePreview = async () => {
+    try {
+      setIsPreviewing(true);
+      setError(null);
+      setResults([]);
+      await submit('preview');
+      setReviewChanged(false);
+    } catch (err) {
+      console.error('❌ Error previewing invoices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to preview invoices');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    try {
+      setIsCommitting(true);
+      setError(null);
+      const body = await submit('commit');
+      setResults(body.results || []);
+    } catch (err) {
+      console.error('❌ Error importing invoices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import invoices');
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const handleFilesChange = (fileList: FileList | null) => {
+    setFiles(fileList ? Array.from(fileList) : []);
+    setPreviews([]);
+    setCorrections({});
+    setReviewChanged(false);
+    setResults([]);
+    setError(null);
+  };
+
+  const updateCorrection = (fileName: string, index: number, change: PdfInvoiceCorrection) => {
+    setCorrections(current => {
+      const fileCorrections = [...(current[fileName] || [])];
+      const existing = fileCorrections[index] || {};
+      fileCorrections[index] = {
+        fields: { ...existing.fields, ...change.fields },
+        approved: change.approved ?? existing.approved
+      };
+      return { ...current, [fileName]: fileCorrections };
+    });
+    setReviewChanged(true);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const validFiles = previews.filter(preview => preview.isValid);
+  const totalInvoices = validFiles.reduce((sum, preview) => sum + preview.invoices.length, 0);
+  const heldInvoices = validFiles.reduce((sum, preview) => sum + preview.invoices.filter(invoice => invoice.blocker).length, 0);
+  const canCommit = validFiles.length > 0 && !!selectedLocation && !isCommitting && results.length === 0 &&
+    heldInvoices === 0 && !reviewChanged;
+
+  const renderReview = (preview: FilePreview, invoice: InvoicePreview, index: number) => {
+    if (!invoice.review || (!invoice.review.needsReview && !invoice.blocker)) return null;
+    const correction = corrections[preview.fileName]?.[index];
+
+    return (
+      <div key={index} className="mt-4 p-4 border border-yellow-200 bg-yellow-50 rounded-lg space-y-3">
+        <div className="flex items-center space-x-2 text-sm font-medium text-yellow-800">
+          <AlertTriangle className="h-4 w-4" />
+          <span>Review {invoice.documentNumber || `invoice ${index + 1}`} against the PDF</span>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {invoice.review.fields.map(reading => {
+            const flagged = reading.confidence < PDF_REVIEW_THRESHOLD;
+            return (
+              <div key={reading.field}>
+                <label className="flex items-center justify-between text-xs font-medium text-gray-700 mb-1">
+                  <span>{reading.label}</span>
+                  <span className={flagged ? 'text-yellow-700' : 'text-gray-400'}>{Math.round(reading.confidence * 100)}% confident</span>
+                </label>
+                <input
+                  value={correction?.fields?.[reading.field] ?? reading.value}
+                  placeholder={reading.field === 'documentDate' ? 'YYYY-MM-DD' : undefined}
+                  onChange={(e) => updateCorrection(preview.fileName, index, {
+                    fields: { [reading.field as PdfHeaderField]: e.target.value }
+                  })}
+                  className={`w-full p-2 border rounded-md text-sm bg-white ${flagged ? 'border-yellow-400' : ''}`}
+                />
+                {reading.note && <p className="text-xs text-gray-600 mt-1">{reading.note}</p>}
+              </div>
+            );
+          })}
+        </div>
+        {invoice.review.lineIssues.length > 0 && (
+          <ul className="text-xs text-gray-700 space-y-1">
+            {invoice.review.lineIssues.map((issue, issueIndex) => (
+              <li key={issueIndex}>
+                <span className="text-yellow-800">Page {issue.page}: {issue.reason}</span>
+                {issue.text && <div className="font-mono text-gray-500 truncate">{issue.text}</div>}
+              </li>
+            ))}
+          </ul>
+        )}
+        <label className="flex items-center space-x-2 text-sm">
+          <input
+            type="checkbox"
+            checked={!!correction?.approved}
+            onChange={(e) => updateCorrection(preview.fileName, index, { approved: e.target.checked })}
+          />
+          <span>I&apos;ve checked the flagged fields and lines against the PDF</span>
+        </label>
+        {invoice.blocker && !reviewChanged && <p className="text-sm text-red-600">{invoice.blocker}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <Upload className="h-6 w-6 text-orange-500" />
+          <h1 className="text-2xl font-bold text-gray-900">Upload Invoices</h1>
+          <Badge variant="secondary">Distributor CSV or PDF</Badge>
+          <Link href="/dashboard/invoices/inbox" className="ml-auto inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+            <Inbox className="h-4 w-4 mr-1" />
+            Email Inbox
+          </Link>
+        </div>
+
+        {/* File selection */}
+        <Card className="bg-white">
+          <CardContent className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Location</label>
+                <select
+                  value={selectedLocation}
+                  onChange={(e) => setSelectedLocation(e.target.value)}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="">Select a location</option>
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Invoice files</label>
+                <input
+                  type="file"
+                  accept=".csv,text/csv,.pdf,application/pdf"
+                  multiple
+                  onChange={(e) => handleFilesChange(e.target.files)}
+                  className="w-full p-2 border rounded-md text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <Button
+                onClick={handlePreview}
+                disabled={files.length === 0 || isPreviewing}
+                variant="outline"
+              >
+                <FileText className="h-4 w-4 mr-1" />
+                {isPreviewing ? 'Validating...' : `Preview ${files.length || ''} file${files.length === 1 ? '' : 's'}`}
+              </Button>
+              <Button
+                onClick={handleCommit}
+                disabled={!canCommit}
+                style={{ backgroundColor: '#f29d2c' }}
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                {isCommitting ? 'Importing...' : `Import ${totalInvoices} invoice${totalInvoices === 1 ? '' : 's'}`}
+              </Button>
+              {validFiles.length > 0 && !selectedLocation && (
+                <span className="text-sm text-gray-500">Select a location to import</span>
+              )}
+              {reviewChanged ? (
+                <span className="text-sm text-gray-500">Preview again to apply your review</span>
+              ) : heldInvoices > 0 && (
+                <span className="text-sm text-yellow-700">
+                  {heldInvoices} PDF invoice{heldInvoices === 1 ? ' needs' : 's need'} review
+                </span>
+              )}
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Import results */}
+        {results.length > 0 && (
+          <Card className="bg-white">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <CheckCircle className="h-5 w-5 text-green-600" />
+                <span>Import Results</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {results.map(result => (
+                <div key={result.fileName} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900">{result.fileName}</span>
+                    {result.imported ? (
+                      <Badge variant="secondary" className="bg-green-50 text-green-700">
+                        {result.invoiceCount} invoice{result.invoiceCount === 1 ? '' : 's'} imported
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-red-600">{result.error}</span>
+                    )}
+                  </div>
+                  {result.outcomes.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {result.outcomes.map(outcome => (
+                        <Badge
+                          key={outcome.documentNumber}
+                          variant="outline"
+                          className={outcomeBadgeClasses[outcome.status]}
+                          title={outcome.error}
+                        >
+                          {outcome.documentNumber}: {outcome.status}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Per-file preview */}
+        {previews.map(preview => (
+          <Card key={preview.fileName} className={`bg-white border-l-4 ${preview.isValid ? 'border-l-green-500' : 'border-l-red-500'}`}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <FileText className="h-5 w-5 text-gray-600" />
+                  <span>{preview.fileName}</span>
+                  {preview.vendorName && (
+                    <Badge variant="outline" title={preview.formatName || undefined}>{preview.vendorName}</Badge>
+                  )}
+                </div>
+                {preview.isValid ? (
+                  <Badge variant="secondary" className="bg-green-50 text-green-700">
+                    {preview.invoices.length} invoice{preview.invoices.length === 1 ? '' : 's'}
+                  </Badge>
+                ) : (
+                  <Badge variant="destructive">Invalid</Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {preview.errors.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-red-600 space-y-1">
+                  {preview.errors.map(message => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+
+              {preview.invoices.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Document #</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead className="text-center">Lines</TableHead>
+                      <TableHead>Line Total</TableHead>
+                      <TableHead>Net Amount</TableHead>
+                      <TableHead>Unknown Pack Sizes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.invoices.map((invoice, index) => (
+                      <TableRow key={invoice.documentNumber || index}>
+                        <TableCell className="font-mono text-sm">
+                          {invoice.documentNumber || <span className="text-yellow-700">Needs review</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{invoice.documentType}</Badge>
+                        </TableCell>
+                        <TableCell>{invoice.documentDate}</TableCell>
+                        <TableCell>{invoice.customerName}</TableCell>
+                        <TableCell className="text-center">{invoice.lineCount}</TableCell>
+                        <TableCell>{formatCurrency(invoice.lineItemTotal)}</TableCell>
+                        <TableCell className="font-medium">{formatCurrency(invoice.netAmountAfterAdjustment)}</TableCell>
+                        <TableCell>
+                          {invoice.unknownPackSizes.length === 0 ? (
+                            <span className="text-gray-400">-</span>
+                          ) : (
+                            <div className="flex flex-wrap gap-1">
+                              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                              {invoice.unknownPackSizes.map(packSize => (
+                                <Badge key={packSize} variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
+                                  {packSize}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {preview.invoices.map((invoice, index) => renderReview(preview, invoice, index))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </DashboardLayout>
+  );
+}
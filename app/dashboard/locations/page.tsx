@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { MapPin, AlertCircle, Trophy, Search } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Badge } from '@/src/components/ui/badge';
+import { Button } from '@/src/components/ui/button';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import type { LocationPricingFilters, LocationPricingReport } from '@/src/lib/location-pricing';
+
+const COMPARISON_LIMIT = 50;
+
+export default function LocationsPage() {
+  const [report, setReport] = useState<LocationPricingReport | null>(null);
+  const [filters, setFilters] = useState<LocationPricingFilters>({ period: 'month' });
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (filters.dateFrom) params.set('dateFrom', filters.dateFrom);
+    if (filters.dateTo) params.set('dateTo', filters.dateTo);
+    if (filters.period) params.set('period', filters.period);
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(`/api/location-pricing?${params.toString()}`);
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading location prices failed with status ${response.status}`);
+      }
+
+      setReport(body.report);
+    } catch (err) {
+      console.error('❌ Error loading location prices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load location prices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  const formatPeriod = (period: string) => {
+    const [year, part] = period.split('-');
+    if (part.startsWith('Q')) return `${part} ${year}`;
+    return new Date(`${period}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  };
+
+  const search = searchTerm.trim().toLowerCase();
+  const comparisons = (report?.comparisons || []).filter(comparison =>
+    !search ||
+    comparison.productDescription.toLowerCase().includes(search) ||
+    comparison.productNumber.includes(search)
+  );
+  const visibleComparisons = showAll ? comparisons : comparisons.slice(0, COMPARISON_LIMIT);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <MapPin className="h-6 w-6 text-orange-500" />
+          <h1 className="text-2xl font-bold text-gray-900">Locations</h1>
+          <span className="text-sm text-gray-500">Same product, same pack, same period</span>
+        </div>
+
+        {/* Filters */}
+        <Card className="bg-white">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium mb-2">Compare by</label>
+                <select
+                  value={filters.period || 'month'}
+                  onChange={(e) => setFilters({ ...filters, period: e.target.value as LocationPricingFilters['period'] })}
+                  className="w-full p-2 border rounded-md"
+                >
+                  <option value="month">Month</option>
+                  <option value="quarter">Quarter</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">From</label>
+                <Input
+                  type="date"
+                  value={filters.dateFrom || ''}
+                  onChange={(e) => setFilters({ ...filters, dateFrom: e.target.value || undefined })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">To</label>
+                <Input
+                  type="date"
+                  value={filters.dateTo || ''}
+                  onChange={(e) => setFilters({ ...filters, dateTo: e.target.value || undefined })}
+                />
+              </div>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search products..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading location prices...</div>
+        ) : report && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card className="bg-white">
+                <CardContent className="p-6">
+                  <div className="text-sm text-gray-500">Potential savings</div>
+                  <div className="text-2xl font-bold text-green-700">{formatCurrency(report.totalPotentialSavings)}</div>
+                  <div className="text-xs text-gray-500">buying everything at the cheapest location&apos;s price</div>
+                </CardContent>
+              </Card>
+              <Card className="bg-white">
+                <CardContent className="p-6">
+                  <div className="text-sm text-gray-500">Products compared</div>
+                  <div className="text-2xl font-bold text-gray-900">
+                    {new Set(report.comparisons.map(comparison => comparison.productNumber)).size}
+                  </div>
+                  <div className="text-xs text-gray-500">{report.comparisons.length} product-{report.period} comparisons</div>
+                </CardContent>
+              </Card>
+              <Card className="bg-white">
+                <CardContent className="p-6">
+                  <div className="text-sm text-gray-500">Priced differently</div>
+                  <div className="text-2xl font-bold text-gray-900">
+                    {report.comparisons.filter(comparison => comparison.potentialSavings > 0).length}
+                  </div>
+                  <div className="text-xs text-gray-500">comparisons where one location paid more</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Location ranking */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Trophy className="h-5 w-5 text-gray-600" />
+                  <span>Location Ranking</span>
+                </CardTitle>
+                <p className="text-sm text-gray-500">
+                  Ranked by how much each location paid over the cheapest location on the products they both buy.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {report.locations.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">No product was bought at more than one location in the same {report.period}</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-center">Rank</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead>US Foods Sales Location</TableHead>
+                        <TableHead className="text-center">Cheapest On</TableHead>
+                        <TableHead>Compared Spend</TableHead>
+                        <TableHead>Premium</TableHead>
+                        <TableHead>Potential Savings</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.locations.map(location => (
+                        <TableRow key={location.locationId}>
+                          <TableCell className="text-center font-bold">#{location.rank}</TableCell>
+                          <TableCell className="font-medium">{location.locationName}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {location.salesLocations.map(salesLocation => (
+                                <Badge key={salesLocation} variant="outline">{salesLocation}</Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            {location.cheapestCount} of {location.comparisons}
+                          </TableCell>
+                          <TableCell>{formatCurrency(location.comparedSpend)}</TableCell>
+                          <TableCell className={location.premiumPercent > 0 ? 'font-medium text-red-600' : 'text-green-700'}>
+                            {formatPercent(location.premiumPercent)}
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            {location.potentialSavings > 0 ? formatCurrency(location.potentialSavings) : '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Product comparisons */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle>Price by Location</CardTitle>
+                <p className="text-sm text-gray-500">
+                  Average unit price each location paid, weighted by quantity shipped. Biggest savings first.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {comparisons.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">No comparisons found</div>
+                ) : (
+                  <>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Pack</TableHead>
+                          <TableHead>Period</TableHead>
+                          <TableHead>Price by Location</TableHead>
+                          <TableHead>Spread</TableHead>
+                          <TableHead>Potential Savings</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {visibleComparisons.map(comparison => (
+                          <TableRow key={`${comparison.productNumber}-${comparison.packSize}-${comparison.period}`}>
+                            <TableCell>
+                              <div className="font-medium text-gray-900">{comparison.productDescription}</div>
+                              <div className="text-xs text-gray-500">{comparison.productNumber}</div>
+                            </TableCell>
+                            <TableCell className="text-sm">{comparison.packSize}</TableCell>
+                            <TableCell className="text-sm">{formatPeriod(comparison.period)}</TableCell>
+                            <TableCell>
+                              <div className="space-y-1">
+                                {comparison.locations.map(price => (
+                                  <div key={price.locationId} className="flex items-center space-x-2 text-sm">
+                                    <span className={price.rank === 1 ? 'font-medium text-green-700' : 'text-gray-900'}>
+                                      {formatCurrency(price.avgUnitPrice)}
+                                    </span>
+                                    <span className="text-gray-600">{price.locationName}</span>
+                                    <span className="text-xs text-gray-400">× {price.quantity}</span>
+                                    {price.premium > 0 && (
+                                      <span className="text-xs text-red-600">+{formatPercent(price.premiumPercent)}</span>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell className={comparison.spreadPercent > 0 ? 'text-red-600' : 'text-gray-500'}>
+                              {formatPercent(comparison.spreadPercent)}
+                            </TableCell>
+                            <TableCell className="font-medium">
+                              {comparison.potentialSavings > 0 ? formatCurrency(comparison.potentialSavings) : '-'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {comparisons.length > COMPARISON_LIMIT && (
+                      <div className="pt-4 text-center">
+                        <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+                          {showAll ? 'Show fewer' : `Show all ${comparisons.length} comparisons`}
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
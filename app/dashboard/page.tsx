@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { DashboardLayout } from '@/components/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
 import { Badge } from '@/src/components/ui/badge';
@@ -18,10 +19,12 @@ import {
   Eye,
   ArrowUpRight,
   ArrowDownRight,
+  Wallet,
 } from 'lucide-react';
 import {
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
   PieChart,
   Pie,
   Cell,
@@ -39,12 +42,36 @@ import type {
   LocationComparison,
   MonthlySpendTrend,
   PriceIncrease,
-  PackSizeChange
+  PackSizeChange,
+  CategoryMonthlySpend,
+  ProductPriceForecast
 } from '@/lib/supabase/analytics-simple';
 import { ProductDetailModal } from '@/components/ProductDetailModal';
+import { isAlertSnoozed } from '@/src/lib/alert-workflow';
+import { formatUnitPrice } from '@/src/lib/unit-pricing';
 import { CategoryDetailModal } from '@/components/CategoryDetailModal';
+import { ExportMenu } from '@/components/ExportMenu';
+import { exportTable, type ExportReport } from '@/src/lib/report-export';
 import type { ProductSummary } from '@/lib/supabase/types';
 import { getProductsSummary, supabase } from '@/lib/supabase/browser';
+import {
+  FORECAST_METHOD_LABELS,
+  MAX_FORECAST_HORIZON,
+  completeMonths,
+  forecastChartRows,
+  forecastMonthly,
+  formatMonth,
+  monthlyTotal,
+  type ForecastPoint,
+  type MonthlyValue
+} from '@/src/lib/price-forecast';
+import { BUDGET_ALERT_LABELS, BUDGET_STATUS_LABELS, type BudgetAlert, type BudgetStatus } from '@/src/lib/budgets';
+
+const SPEND_CHART_MONTHS = 12;
+// Two years lets the spend forecast fit a seasonal model
+const SPEND_HISTORY_MONTHS = 24;
+const ALL_SPEND = 'all';
+const DASHBOARD_BUDGETS = 5;
 
 export default function DashboardPage() {
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
@@ -53,6 +80,13 @@ export default function DashboardPage() {
   const [priceAlerts, setPriceAlerts] = useState<PriceAlert[]>([]);
   const [locationComparison, setLocationComparison] = useState<LocationComparison[]>([]);
   const [monthlyTrends, setMonthlyTrends] = useState<MonthlySpendTrend[]>([]);
+  const [spendHistory, setSpendHistory] = useState<MonthlyValue[]>([]);
+  const [categorySpendHistory, setCategorySpendHistory] = useState<CategoryMonthlySpend[]>([]);
+  const [spendSeries, setSpendSeries] = useState(ALL_SPEND);
+  const [forecastMonths, setForecastMonths] = useState(MAX_FORECAST_HORIZON);
+  const [productForecasts, setProductForecasts] = useState<ProductPriceForecast[]>([]);
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([]);
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlert[]>([]);
   const [priceIncreases, setPriceIncreases] = useState<PriceIncrease[]>([]);
   const [packSizeChanges, setPackSizeChanges] = useState<PackSizeChange[]>([]);
   const [products, setProducts] = useState<ProductSummary[]>([]);
@@ -64,6 +98,18 @@ export default function DashboardPage() {
 
   useEffect(() => {
     loadDashboardData();
+
+    // Budgets are optional on the dashboard, so a failure here doesn't block the rest
+    fetch('/api/budgets')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading budgets failed with status ${response.status}`);
+        }
+        setBudgetStatuses(body.statuses);
+        setBudgetAlerts(body.alerts);
+      })
+      .catch((err) => console.error('❌ Error loading budgets:', err));
   }, []);
 
   const loadDashboardData = async () => {
@@ -90,12 +136,15 @@ export default function DashboardPage() {
       
       
       // Get actual invoice count and metrics from database
+      // Credit memos have negative amounts: spend is net of refunds, and they aren't counted as invoices
       const { data: invoiceMetrics } = await supabase
         .from('invoices')
-        .select('id, net_amount');
+        .select('id, net_amount, document_type');
         
-      const actualInvoiceCount = invoiceMetrics?.length || 0;
+      const creditMemos = invoiceMetrics?.filter(inv => inv.document_type === 'CREDIT_MEMO') || [];
+      const actualInvoiceCount = (invoiceMetrics?.length || 0) - creditMemos.length;
       const actualTotalSpend = invoiceMetrics?.reduce((sum, inv) => sum + (inv.net_amount || 0), 0) || 0;
+      const actualTotalCredits = creditMemos.reduce((sum, inv) => sum + Math.abs(inv.net_amount || 0), 0);
       
       // Calculate metrics directly from the real product data
       const metricsData: DashboardMetrics = {
@@ -104,7 +153,8 @@ export default function DashboardPage() {
         totalSpend: actualTotalSpend,
         totalLocations: [...new Set(products.flatMap((p: ProductSummary) => p.locations))].length,
         avgOrderValue: actualInvoiceCount > 0 ? actualTotalSpend / actualInvoiceCount : 0,
-        avgProductsPerInvoice: 0
+        avgProductsPerInvoice: 0,
+        totalCredits: actualTotalCredits
       };
       
       // Category spending - use actual invoice totals allocated proportionally
@@ -160,7 +210,7 @@ export default function DashboardPage() {
           category: product.category,
           total_spend: product.total_spent,
           purchase_frequency: product.purchase_frequency,
-          avg_price: product.avg_price,
+          avg_price: product.avg_price || product.last_price,
           last_purchase_date: product.last_purchase_date
         }));
       
@@ -172,33 +222,37 @@ export default function DashboardPage() {
         console.warn('⚠️ No top products found - check if products have total_spent > 0');
       }
       
-      // Get actual price alerts from database
+      // Get open price alerts from the alerts inbox (anything not yet resolved or snoozed)
       const { data: dbAlerts } = await supabase
         .from('price_alerts')
         .select(`
           id,
-          product_number,
           alert_level,
           current_price,
-          threshold_price,
+          previous_price,
+          price_change_amount,
           price_change_percent,
-          created_at,
-          products (name, category)
+          alert_date,
+          snoozed_until,
+          products (product_number, name, category),
+          locations (name)
         `)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false });
+        .neq('workflow_status', 'resolved')
+        .order('alert_date', { ascending: false });
         
-      const alertsData: PriceAlert[] = (dbAlerts || []).map((alert: Record<string, unknown>) => ({
-        product_number: alert.product_number as string,
-        name: ((alert.products as Record<string, unknown>)?.name as string) || 'Unknown Product',
-        category: ((alert.products as Record<string, unknown>)?.category as string) || 'Unknown',
-        current_price: alert.current_price as number,
-        previous_price: alert.threshold_price as number,
-        price_change: (alert.current_price as number) - (alert.threshold_price as number),
-        price_change_percent: alert.price_change_percent as number,
-        last_purchase_date: new Date(alert.created_at as string).toISOString().split('T')[0],
-        location_name: 'Various' // Price alerts are system-wide
-      }));
+      const alertsData: PriceAlert[] = (dbAlerts || [])
+        .filter((alert: Record<string, unknown>) => !isAlertSnoozed(alert.snoozed_until as string | null))
+        .map((alert: Record<string, unknown>) => ({
+          product_number: ((alert.products as Record<string, unknown>)?.product_number as string) || '',
+          name: ((alert.products as Record<string, unknown>)?.name as string) || 'Unknown Product',
+          category: ((alert.products as Record<string, unknown>)?.category as string) || 'Unknown',
+          current_price: alert.current_price as number,
+          previous_price: alert.previous_price as number,
+          price_change: alert.price_change_amount as number,
+          price_change_percent: alert.price_change_percent as number,
+          last_purchase_date: alert.alert_date as string,
+          location_name: ((alert.locations as Record<string, unknown>)?.name as string) || 'Unknown'
+        }));
       
       console.log('📊 Loaded', alertsData.length, 'actual price alerts from database');
       
@@ -210,7 +264,16 @@ export default function DashboardPage() {
       // Get REAL monthly trends from actual invoice data
       console.log('📊 Getting REAL monthly trends from invoices...');
       const { getMonthlySpendTrends } = await import('@/lib/supabase/analytics-simple');
-      const trendsData = await getMonthlySpendTrends(12);
+      const trendsData = await getMonthlySpendTrends(SPEND_HISTORY_MONTHS);
+
+      // Category spend and top product prices, projected on the charts
+      console.log('🔮 Getting history for spend and price forecasts...');
+      const { getMonthlyCategorySpend, getProductPriceForecasts } = await import('@/lib/supabase/analytics-simple');
+      const categorySpendData = await getMonthlyCategorySpend(SPEND_HISTORY_MONTHS);
+      const productForecastData = await getProductPriceForecasts(
+        finalTopProducts.map(product => product.product_number),
+        { horizon: MAX_FORECAST_HORIZON }
+      );
       
       // Get segmented price analysis (real increases + pack size changes)
       console.log('📈 Getting segmented price analysis...');
@@ -222,7 +285,13 @@ export default function DashboardPage() {
       setTopProducts(finalTopProducts); // Use corrected data
       setPriceAlerts(alertsData.slice(0, 5)); // Top 5 alerts
       setLocationComparison(locationsData);
-      setMonthlyTrends(trendsData);
+      setMonthlyTrends(trendsData.slice(-SPEND_CHART_MONTHS));
+      setSpendHistory(monthlyTotal(trendsData.map(trend => ({
+        date: `${trend.year}-${String(trend.month).padStart(2, '0')}-01`,
+        value: trend.total_spend
+      }))));
+      setCategorySpendHistory(categorySpendData);
+      setProductForecasts(productForecastData);
       setPriceIncreases(increaseData);
       setPackSizeChanges(packChangeData);
       
@@ -244,6 +313,11 @@ export default function DashboardPage() {
     }).format(amount);
   };
 
+  const formatPackUnitPrice = (change: PackSizeChange, packSize: string) => {
+    const pack = change.per_unit_comparison.find(comparison => comparison.pack_size === packSize);
+    return pack ? `(${formatUnitPrice(pack.per_unit_price, change.base_unit)})` : '';
+  };
+
   const formatNumber = (num: number) => {
     return new Intl.NumberFormat('en-US').format(num);
   };
@@ -258,6 +332,26 @@ export default function DashboardPage() {
   // Chart colors
   const chartColors = ['#f29d2c', '#2563eb', '#dc2626', '#059669', '#7c3aed', '#ea580c'];
 
+  // Spend forecast for all spend or one category, fitted on complete months only
+  const selectedSpendHistory = spendSeries === ALL_SPEND
+    ? spendHistory
+    : categorySpendHistory.find(category => category.category === spendSeries)?.months || [];
+  const spendForecast = forecastMonthly(completeMonths(selectedSpendHistory), { horizon: forecastMonths });
+  const spendChartRows = forecastChartRows(selectedSpendHistory.slice(-SPEND_CHART_MONTHS), spendForecast);
+  const projectedSpend = spendForecast?.points.reduce((sum, point) => sum + point.value, 0) || 0;
+
+  // Projected unit price at the end of the forecast horizon, and the change from the latest month
+  const getPriceOutlook = (productNumber: string) => {
+    const outlook = productForecasts.find(forecast => forecast.product_number === productNumber);
+    const point = outlook?.forecast?.points[forecastMonths - 1];
+    if (!outlook || !point || outlook.last_price <= 0) return null;
+    return {
+      month: formatMonth(point.month),
+      price: point.value,
+      changePercent: ((point.value - outlook.last_price) / outlook.last_price) * 100
+    };
+  };
+
   // Find the actual ProductSummary from the original data to ensure consistency
   const handleProductClick = async (topProduct: TopSpendingProducts) => {
     try {
@@ -326,6 +420,109 @@ export default function DashboardPage() {
     );
   }
 
+  // Every dashboard panel as a table, with the spend trend and category split as charts
+  const buildExportReport = (): ExportReport => ({
+    title: 'Dashboard Overview',
+    filename: 'dashboard',
+    description: ['All locations, all invoices imported so far'],
+    charts: [
+      {
+        title: 'Monthly spend',
+        kind: 'line',
+        valueType: 'currency',
+        points: monthlyTrends.map(trend => ({ label: trend.month_name, value: trend.total_spend }))
+      },
+      {
+        title: 'Spending by category',
+        kind: 'bar',
+        valueType: 'currency',
+        points: categorySpending.map(category => ({ label: category.category, value: category.total_spend }))
+      }
+    ],
+    tables: [
+      exportTable('Key Metrics', [
+        { header: 'Metric', value: ([label]: [string, number]) => label },
+        { header: 'Value', value: ([, value]) => value, type: 'number' }
+      ], [
+        ['Products', metrics?.totalProducts || 0],
+        ['Invoices', metrics?.totalInvoices || 0],
+        ['Total Spend ($)', Math.round((metrics?.totalSpend || 0) * 100) / 100],
+        ['Credits ($)', Math.round((metrics?.totalCredits || 0) * 100) / 100],
+        ['Locations', metrics?.totalLocations || 0],
+        ['Average Order ($)', Math.round((metrics?.avgOrderValue || 0) * 100) / 100]
+      ]),
+      exportTable('Monthly Spend', [
+        { header: 'Month', value: (trend: MonthlySpendTrend) => trend.month_name },
+        { header: 'Total Spend', value: trend => trend.total_spend, type: 'currency' },
+        { header: 'Invoices', value: trend => trend.invoice_count, type: 'number' },
+        { header: 'Avg Invoice', value: trend => trend.avg_invoice_value, type: 'currency' },
+        { header: 'Products', value: trend => trend.unique_products, type: 'number' }
+      ], monthlyTrends),
+      exportTable(`Spend Forecast (${spendSeries === ALL_SPEND ? 'All spend' : spendSeries})`, [
+        { header: 'Month', value: (point: ForecastPoint) => formatMonth(point.month) },
+        { header: 'Projected Spend', value: point => point.value, type: 'currency' },
+        { header: 'Low', value: point => point.lower, type: 'currency' },
+        { header: 'High', value: point => point.upper, type: 'currency' }
+      ], spendForecast?.points || []),
+      exportTable('Spending by Category', [
+        { header: 'Category', value: (category: SpendingByCategory) => category.category },
+        { header: 'Total Spend', value: category => category.total_spend, type: 'currency' },
+        { header: 'Products', value: category => category.product_count, type: 'number' },
+        { header: 'Share', value: category => Math.round(category.percentage * 10) / 10, type: 'percent' }
+      ], categorySpending),
+      exportTable('Price Alerts', [
+        { header: 'Product #', value: (alert: PriceAlert) => alert.product_number },
+        { header: 'Product', value: alert => alert.name },
+        { header: 'Location', value: alert => alert.location_name },
+        { header: 'Previous Price', value: alert => alert.previous_price, type: 'currency' },
+        { header: 'Current Price', value: alert => alert.current_price, type: 'currency' },
+        { header: 'Change', value: alert => Math.round(alert.price_change_percent * 10) / 10, type: 'percent' },
+        { header: 'Last Purchase', value: alert => alert.last_purchase_date, type: 'date' }
+      ], priceAlerts),
+      exportTable('Top Spending Products', [
+        { header: 'Product #', value: (product: TopSpendingProducts) => product.product_number },
+        { header: 'Product', value: product => product.name },
+        { header: 'Category', value: product => product.category },
+        { header: 'Total Spend', value: product => product.total_spend, type: 'currency' },
+        { header: 'Orders', value: product => product.purchase_frequency, type: 'number' },
+        { header: 'Avg Price', value: product => product.avg_price, type: 'currency' },
+        { header: 'Projected Price', value: product => getPriceOutlook(product.product_number)?.price ?? null, type: 'currency' },
+        { header: 'Last Purchase', value: product => product.last_purchase_date, type: 'date' }
+      ], topProducts),
+      exportTable('Price Increases', [
+        { header: 'Product #', value: (increase: PriceIncrease) => increase.product_number },
+        { header: 'Product', value: increase => increase.name },
+        { header: 'Pack Size', value: increase => increase.pack_size },
+        { header: 'Previous Price', value: increase => increase.previous_price, type: 'currency' },
+        { header: 'Current Price', value: increase => increase.current_price, type: 'currency' },
+        { header: 'Increase', value: increase => Math.round(increase.price_increase_percent * 10) / 10, type: 'percent' },
+        { header: 'Location', value: increase => increase.location_name },
+        { header: 'Last Purchase', value: increase => increase.last_purchase_date, type: 'date' }
+      ], priceIncreases),
+      exportTable('Pack Size Changes', [
+        { header: 'Product #', value: (change: PackSizeChange) => change.product_number },
+        { header: 'Product', value: change => change.name },
+        { header: 'Current Pack', value: change => change.current_pack },
+        { header: 'Current Price', value: change => change.current_price, type: 'currency' },
+        { header: 'Best Value Pack', value: change => change.best_value_pack },
+        {
+          header: 'Per Unit',
+          value: change => change.per_unit_comparison
+            .map(pack => `${pack.pack_size}: ${formatUnitPrice(pack.per_unit_price, change.base_unit)}`)
+            .join('; ')
+        }
+      ], packSizeChanges),
+      exportTable('Location Performance', [
+        { header: 'Location', value: (location: LocationComparison) => location.location_name },
+        { header: 'Total Spend', value: location => location.total_spend, type: 'currency' },
+        { header: 'Invoices', value: location => location.total_invoices, type: 'number' },
+        { header: 'Avg Invoice', value: location => location.avg_invoice_value, type: 'currency' },
+        { header: 'Products', value: location => location.unique_products, type: 'number' },
+        { header: 'Last Order', value: location => location.last_invoice_date, type: 'date' }
+      ], locationComparison)
+    ]
+  });
+
   if (error) {
     return (
       <DashboardLayout>
@@ -359,15 +556,18 @@ export default function DashboardPage() {
             <h1 className="text-2xl font-bold text-white">Dashboard Overview</h1>
             <Badge variant="secondary">Los Pinos Analytics</Badge>
           </div>
-          <Button 
-            onClick={loadDashboardData}
-            variant="outline"
-            size="sm"
-            className="bg-white text-gray-600 hover:bg-gray-50"
-          >
-            <Target className="h-4 w-4 mr-1" />
-            Refresh
-          </Button>
+          <div className="flex items-center space-x-2">
+            <ExportMenu buildReport={buildExportReport} className="bg-white text-gray-600 hover:bg-gray-50" />
+            <Button 
+              onClick={loadDashboardData}
+              variant="outline"
+              size="sm"
+              className="bg-white text-gray-600 hover:bg-gray-50"
+            >
+              <Target className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* Key Metrics */}
@@ -408,6 +608,11 @@ export default function DashboardPage() {
                   <p className="text-2xl font-bold text-orange-600">
                     {formatCurrency(metrics?.totalSpend || 0)}
                   </p>
+                  {(metrics?.totalCredits || 0) > 0 && (
+                    <p className="text-xs text-gray-500">
+                      net of {formatCurrency(metrics?.totalCredits || 0)} credits
+                    </p>
+                  )}
                 </div>
                 <DollarSign className="h-8 w-8 text-orange-500" />
               </div>
@@ -462,18 +667,45 @@ export default function DashboardPage() {
           {/* Monthly Spend Trends */}
           <Card className="bg-white">
             <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <TrendingUp className="h-5 w-5 text-blue-600" />
-                <span>Monthly Spend Trends</span>
+              <CardTitle className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <TrendingUp className="h-5 w-5 text-blue-600" />
+                  <span>Monthly Spend Trends</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={spendSeries}
+                    onChange={(e) => setSpendSeries(e.target.value)}
+                    className="p-1 border rounded-md text-xs font-normal"
+                  >
+                    <option value={ALL_SPEND}>All spend</option>
+                    {categorySpendHistory.map(category => (
+                      <option key={category.category} value={category.category}>{category.category}</option>
+                    ))}
+                  </select>
+                  {Array.from({ length: MAX_FORECAST_HORIZON }, (_, index) => index + 1).map(months => (
+                    <button
+                      key={months}
+                      onClick={() => setForecastMonths(months)}
+                      className={`px-2 py-1 text-xs font-normal rounded-md border ${
+                        forecastMonths === months
+                          ? 'bg-orange-500 text-white border-orange-500'
+                          : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      +{months} mo
+                    </button>
+                  ))}
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="h-80">
                 <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={monthlyTrends}>
+                  <ComposedChart data={spendChartRows}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis 
-                      dataKey="month_name" 
+                      dataKey="label" 
                       tick={{ fontSize: 12 }}
                       angle={-45}
                       textAnchor="end"
@@ -484,19 +716,48 @@ export default function DashboardPage() {
                       tick={{ fontSize: 12 }}
                     />
                     <Tooltip 
-                      formatter={(value: string | number) => [formatCurrency(Number(value)), 'Total Spend']}
+                      formatter={(value: number | [number, number], name: string) => [
+                        Array.isArray(value)
+                          ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}`
+                          : formatCurrency(Number(value)),
+                        name
+                      ]}
                       labelStyle={{ color: '#374151' }}
                     />
+                    <Area
+                      type="monotone"
+                      dataKey="band"
+                      name="Forecast range"
+                      stroke="none"
+                      fill="#2563eb"
+                      fillOpacity={0.1}
+                    />
                     <Area 
                       type="monotone" 
-                      dataKey="total_spend" 
+                      dataKey="actual" 
+                      name="Total Spend"
                       stroke="#f29d2c" 
                       fill="#f29d2c" 
                       fillOpacity={0.3}
                     />
-                  </AreaChart>
+                    <Line
+                      type="monotone"
+                      dataKey="forecast"
+                      name="Forecast"
+                      stroke="#2563eb"
+                      strokeWidth={2}
+                      strokeDasharray="5 5"
+                      dot={false}
+                    />
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {spendForecast
+                  ? `${formatCurrency(projectedSpend)} projected over the next ${forecastMonths} month${forecastMonths === 1 ? '' : 's'} ` +
+                    `(${FORECAST_METHOD_LABELS[spendForecast.method]}, ${Math.round(spendForecast.confidence * 100)}% range shaded)`
+                  : 'Not enough monthly history to forecast this spend yet'}
+              </p>
             </CardContent>
           </Card>
 
@@ -555,6 +816,9 @@ export default function DashboardPage() {
                 <AlertTriangle className="h-5 w-5 text-red-600" />
                 <span>Price Alerts</span>
                 <Badge variant="destructive">{priceAlerts.length}</Badge>
+                <Link href="/dashboard/alerts" className="ml-auto text-sm font-normal text-orange-600 hover:underline">
+                  View all alerts
+                </Link>
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -597,6 +861,67 @@ export default function DashboardPage() {
           </Card>
         )}
 
+        {/* Budgets this month */}
+        {budgetStatuses.length > 0 && (
+          <Card className="bg-white border-l-4 border-l-amber-500">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Wallet className="h-5 w-5 text-amber-600" />
+                <span>Budgets This Month</span>
+                {budgetStatuses.some(status => status.status !== 'on_track') && (
+                  <Badge variant="destructive">
+                    {budgetStatuses.filter(status => status.status !== 'on_track').length} over or tracking over
+                  </Badge>
+                )}
+                <Link href="/dashboard/budgets" className="ml-auto text-sm font-normal text-orange-600 hover:underline">
+                  View budgets
+                </Link>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {budgetStatuses.slice(0, DASHBOARD_BUDGETS).map(status => (
+                  <div key={status.budget.id} className="flex items-center space-x-4">
+                    <div className="w-48">
+                      <div className="font-medium text-gray-900 text-sm">{status.budget.category || 'Total spend'}</div>
+                      <div className="text-xs text-gray-500">{status.location_name}</div>
+                    </div>
+                    <div className="flex-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+                      <div
+                        className={`h-full ${
+                          status.status === 'over' ? 'bg-red-500' : status.status === 'tracking_over' ? 'bg-amber-500' : 'bg-green-500'
+                        }`}
+                        style={{ width: `${Math.min(status.percent_used, 100)}%` }}
+                      />
+                    </div>
+                    <div className="w-56 text-right text-sm">
+                      <span className="font-medium">{formatCurrency(status.actual)}</span>
+                      <span className="text-gray-500"> of {formatCurrency(status.budget.amount)}</span>
+                      {status.projected !== null && (
+                        <div className={`text-xs ${status.projected > status.budget.amount ? 'text-red-600' : 'text-gray-500'}`}>
+                          Projected {formatCurrency(status.projected)}
+                        </div>
+                      )}
+                    </div>
+                    <Badge
+                      variant={status.status === 'on_track' ? 'secondary' : 'destructive'}
+                      className="w-28 justify-center"
+                    >
+                      {BUDGET_STATUS_LABELS[status.status]}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+              {budgetAlerts.length > 0 && (
+                <p className="text-xs text-gray-500 mt-4">
+                  Latest budget alert: {budgetAlerts[0].location_name} {budgetAlerts[0].category || 'total spend'},{' '}
+                  {BUDGET_ALERT_LABELS[budgetAlerts[0].alert_type].toLowerCase()}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Bottom Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Top Spending Products */}
@@ -644,6 +969,16 @@ export default function DashboardPage() {
                       <div className="text-sm text-gray-500">
                         {product.purchase_frequency} orders • {formatCurrency(product.avg_price)} avg
                       </div>
+                      {(() => {
+                        const outlook = getPriceOutlook(product.product_number);
+                        if (!outlook) return null;
+                        return (
+                          <div className={`text-xs ${outlook.changePercent > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {outlook.month}: {formatCurrency(outlook.price)} ({outlook.changePercent > 0 ? '+' : ''}
+                            {outlook.changePercent.toFixed(1)}%)
+                          </div>
+                        );
+                      })()}
                     </div>
                   </div>
                 ))
@@ -762,8 +1097,8 @@ export default function DashboardPage() {
                             </div>
                           </div>
                           <div className="text-right text-xs text-gray-600">
-                            <div>Best Value: {change.best_value_pack}</div>
-                            <div>Current: {change.current_pack}</div>
+                            <div>Best Value: {change.best_value_pack} {formatPackUnitPrice(change, change.best_value_pack)}</div>
+                            <div>Current: {change.current_pack} {formatPackUnitPrice(change, change.current_pack)}</div>
                           </div>
                         </div>
                       </div>
@@ -74,8 +74,8 @@ export default function ProductsPrototypePage() {
       // Mock data temporarily
       const categoriesData = ['Protein', 'Dairy', 'Produce', 'Dry Goods'];
       const locationsData = [
-        { id: '1', name: 'Bee Caves', restaurant_id: '1', address_line1: '', city: '', state: '', postal_code: '', phone: '', created_at: '' },
-        { id: '2', name: '360', restaurant_id: '1', address_line1: '', city: '', state: '', postal_code: '', phone: '', created_at: '' }
+        { id: '1', name: 'Bee Caves', restaurant_id: '1', address_line1: '', city: '', state: '', postal_code: '', phone: '', created_at: '', updated_at: '' },
+        { id: '2', name: '360', restaurant_id: '1', address_line1: '', city: '', state: '', postal_code: '', phone: '', created_at: '', updated_at: '' }
       ];
 
       setCategories(categoriesData);
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { Suspense, useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { Search, ArrowUpDown, ArrowUp, ArrowDown, Eye, TrendingUp, TrendingDown, Minus, Package } from 'lucide-react';
 import { Input } from '@/src/components/ui/input';
 import { Button } from '@/src/components/ui/button';
@@ -15,15 +16,43 @@ import {
   TableRow,
 } from '@/src/components/ui/table';
 import { ProductDetailModal } from '@/components/ProductDetailModal';
+import { ExportMenu } from '@/components/ExportMenu';
+import { EquivalentItemsPanel } from '@/components/EquivalentItemsPanel';
 import { DashboardLayout } from '@/components/DashboardLayout';
 import type { ProductSummary } from '@/lib/supabase/types';
 import { getProductsSummary } from '@/lib/supabase/browser';
+import { formatUnitPrice } from '@/src/lib/unit-pricing';
+import { exportTable, type ExportReport } from '@/src/lib/report-export';
 
 
 type SortField = keyof ProductSummary | 'variance';
 type SortDirection = 'asc' | 'desc' | null;
 
+const SORT_FIELD_LABELS: Partial<Record<SortField, string>> = {
+  product_number: 'Product #',
+  name: 'Product',
+  locations: 'Locations',
+  purchase_frequency: 'Orders',
+  last_price: 'Last Price',
+  last_unit_price: 'Unit Price',
+  total_spent: 'Total Spend',
+  variance: 'Variance'
+};
+
+const EXPORT_CHART_PRODUCTS = 15;
+
 export default function ProductsPage() {
+  return (
+    <Suspense>
+      <ProductsPageContent />
+    </Suspense>
+  );
+}
+
+function ProductsPageContent() {
+  const searchParams = useSearchParams();
+  const linkedProductNumber = searchParams.get('product');
+  const linkedVendorId = searchParams.get('vendor');
   const [products, setProducts] = useState<ProductSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -72,6 +101,17 @@ export default function ProductsPage() {
     loadProducts();
   }, []);
 
+  // Open the product linked from a notification or alert once products are loaded.
+  // Product numbers are per vendor, so the link names the vendor too.
+  useEffect(() => {
+    if (!linkedProductNumber) return;
+    const linked = products.find(product =>
+      product.product_number === linkedProductNumber &&
+      (!linkedVendorId || product.vendor_id === linkedVendorId)
+    );
+    if (linked) setSelectedProduct(linked);
+  }, [linkedProductNumber, linkedVendorId, products]);
+
   // Filter and sort products
   const filteredAndSortedProducts = useMemo(() => {
     const filtered = products.filter(product =>
@@ -148,6 +188,51 @@ export default function ProductsPage() {
     }
   };
 
+  // Export exactly what the table shows: the search filter and sort are already applied
+  const buildExportReport = (): ExportReport => {
+    const description = [
+      searchTerm ? `Search: "${searchTerm}"` : 'All products',
+      sortField && sortDirection
+        ? `Sorted by ${SORT_FIELD_LABELS[sortField] || sortField}, ${sortDirection === 'asc' ? 'ascending' : 'descending'}`
+        : 'Unsorted'
+    ];
+
+    return {
+      title: 'Products',
+      filename: 'products',
+      description,
+      charts: [{
+        title: `Top ${EXPORT_CHART_PRODUCTS} products by spend`,
+        kind: 'bar',
+        valueType: 'currency',
+        points: [...filteredAndSortedProducts]
+          .sort((a, b) => b.total_spent - a.total_spent)
+          .slice(0, EXPORT_CHART_PRODUCTS)
+          .map(product => ({ label: product.name, value: product.total_spent }))
+      }],
+      tables: [exportTable('Products', [
+        { header: 'Product #', value: (product: ProductSummary) => product.product_number },
+        { header: 'Product', value: product => product.name },
+        { header: 'Category', value: product => product.category },
+        { header: 'Pack Sizes', value: product => product.pack_sizes.join(', ') },
+        { header: 'Locations', value: product => product.locations.join(', ') },
+        { header: 'Orders', value: product => product.purchase_frequency, type: 'number' },
+        { header: 'Min Price', value: product => product.min_price || null, type: 'currency' },
+        { header: 'Max Price', value: product => product.max_price || null, type: 'currency' },
+        { header: 'Last Price', value: product => product.last_price, type: 'currency' },
+        {
+          header: 'Unit Price',
+          value: product => product.last_unit_price && product.base_unit
+            ? formatUnitPrice(product.last_unit_price, product.base_unit)
+            : null
+        },
+        { header: 'Total Spend', value: product => product.total_spent, type: 'currency' },
+        { header: 'Variance', value: product => calculateVariance(product), type: 'percent' },
+        { header: 'Last Purchase', value: product => product.last_purchase_date, type: 'date' }
+      ], filteredAndSortedProducts)]
+    };
+  };
+
   // Calculate summary statistics
   const totalProducts = filteredAndSortedProducts.length;
   const totalSpend = filteredAndSortedProducts.reduce((sum, product) => sum + product.total_spent, 0);
@@ -197,14 +282,17 @@ export default function ProductsPage() {
       {/* Search */}
       <Card className="bg-white">
         <CardContent className="p-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-            <Input
-              placeholder="Search by product number, name, or description..."
-              className="pl-10"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-            />
+          <div className="flex items-center space-x-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search by product number, name, or description..."
+                className="pl-10"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+            <ExportMenu buildReport={buildExportReport} disabled={loading || filteredAndSortedProducts.length === 0} />
           </div>
         </CardContent>
       </Card>
@@ -265,6 +353,15 @@ export default function ProductsPage() {
                       {getSortIcon('last_price')}
                     </div>
                   </TableHead>
+                  <TableHead 
+                    className="cursor-pointer hover:bg-gray-50"
+                    onClick={() => handleSort('last_unit_price')}
+                  >
+                    <div className="flex items-center space-x-1">
+                      <span>Per Unit</span>
+                      {getSortIcon('last_unit_price')}
+                    </div>
+                  </TableHead>
                   <TableHead 
                     className="cursor-pointer hover:bg-gray-50"
                     onClick={() => handleSort('total_spent')}
@@ -329,6 +426,13 @@ export default function ProductsPage() {
                       <TableCell className="font-medium">
                         {formatCurrency(product.last_price)}
                       </TableCell>
+                      <TableCell className="text-sm text-gray-700">
+                        {product.last_unit_price && product.base_unit ? (
+                          formatUnitPrice(product.last_unit_price, product.base_unit)
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </TableCell>
                       <TableCell className="font-medium text-green-600">
                         {formatCurrency(product.total_spent)}
                       </TableCell>
@@ -360,6 +464,9 @@ export default function ProductsPage() {
         </CardContent>
       </Card>
 
+      {/* Same item from different vendors */}
+      <EquivalentItemsPanel />
+
         {/* Product Detail Modal */}
         {selectedProduct && (
           <ProductDetailModal
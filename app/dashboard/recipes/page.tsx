@@ -0,0 +1,713 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ChefHat, Plus, Pencil, Trash2, AlertCircle, AlertTriangle, X } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { PORTION_UNIT, type RecipeCost, type RecipeCostAlert } from '@/src/lib/recipes';
+import { formatUnitPrice } from '@/src/lib/unit-pricing';
+import { hasPermission, type OrganizationRole } from '@/src/lib/roles';
+
+interface CatalogProduct {
+  vendor_id: string | null;
+  product_number: string;
+  name: string;
+  base_unit: string | null;
+  vendor: { name: string } | null;
+}
+
+// Form state keeps numbers as typed; the API parses and validates them
+interface IngredientForm {
+  kind: 'product' | 'recipe';
+  vendor_id: string;
+  product_number: string;
+  sub_recipe_id: string;
+  quantity: string;
+  unit: string;
+  yield_percent: string;
+}
+
+interface RecipeForm {
+  id: string | null;
+  name: string;
+  is_menu_item: boolean;
+  portions: string;
+  yield_quantity: string;
+  yield_unit: string;
+  menu_price: string;
+  target_food_cost_percent: string;
+  notes: string;
+  ingredients: IngredientForm[];
+}
+
+const INGREDIENT_UNITS = ['LB', 'OZ', 'GAL', 'QT', 'PT', 'FL OZ', 'L', 'ML', 'KG', 'G', 'EA', 'DZ', '#10 CAN', PORTION_UNIT];
+
+const emptyIngredient = (): IngredientForm => ({
+  kind: 'product',
+  vendor_id: '',
+  product_number: '',
+  sub_recipe_id: '',
+  quantity: '',
+  unit: 'OZ',
+  yield_percent: '100'
+});
+
+export default function RecipesPage() {
+  const [recipes, setRecipes] = useState<RecipeCost[]>([]);
+  const [alerts, setAlerts] = useState<RecipeCostAlert[]>([]);
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
+  const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [role, setRole] = useState<OrganizationRole | null>(null);
+  const canManageRecipes = hasPermission(role, 'manage_purchasing');
+
+  const [recipeForm, setRecipeForm] = useState<RecipeForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRecipes = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/recipes');
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading recipes failed with status ${response.status}`);
+      }
+
+      setRecipes(body.recipes);
+      setAlerts(body.alerts);
+      setProducts(body.products);
+    } catch (err) {
+      console.error('❌ Error loading recipes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load recipes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRecipes();
+
+    fetch('/api/organization')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading organization failed with status ${response.status}`);
+        }
+        setRole(body.organization?.role || null);
+      })
+      .catch((err) => console.error('❌ Error loading organization:', err));
+  }, [loadRecipes]);
+
+  const openRecipeEditor = (cost?: RecipeCost) => {
+    setFormError(null);
+
+    if (!cost) {
+      setRecipeForm({
+        id: null,
+        name: '',
+        is_menu_item: true,
+        portions: '1',
+        yield_quantity: '',
+        yield_unit: '',
+        menu_price: '',
+        target_food_cost_percent: '30',
+        notes: '',
+        ingredients: [emptyIngredient()]
+      });
+      return;
+    }
+
+    const { recipe } = cost;
+    const text = (value: number | null) => value === null ? '' : String(value);
+    setRecipeForm({
+      id: recipe.id,
+      name: recipe.name,
+      is_menu_item: recipe.is_menu_item,
+      portions: String(recipe.portions),
+      yield_quantity: text(recipe.yield_quantity),
+      yield_unit: recipe.yield_unit || '',
+      menu_price: text(recipe.menu_price),
+      target_food_cost_percent: text(recipe.target_food_cost_percent),
+      notes: recipe.notes || '',
+      ingredients: recipe.ingredients.map(ingredient => ({
+        kind: ingredient.sub_recipe_id ? 'recipe' : 'product',
+        vendor_id: ingredient.vendor_id || '',
+        product_number: ingredient.product_number || '',
+        sub_recipe_id: ingredient.sub_recipe_id || '',
+        quantity: String(ingredient.quantity),
+        unit: ingredient.unit,
+        yield_percent: String(ingredient.yield_percent)
+      }))
+    });
+  };
+
+  // Product numbers are per vendor; a number only one vendor uses picks that vendor
+  const vendorsOf = (productNumber: string) =>
+    products.filter(product => product.product_number === productNumber.trim());
+
+  const changeProductNumber = (index: number, productNumber: string) => {
+    const matches = vendorsOf(productNumber);
+    updateIngredient(index, {
+      product_number: productNumber,
+      vendor_id: matches.length === 1 ? matches[0].vendor_id || '' : ''
+    });
+  };
+
+  const updateIngredient = (index: number, changes: Partial<IngredientForm>) => {
+    setRecipeForm(current => current && {
+      ...current,
+      ingredients: current.ingredients.map((ingredient, position) =>
+        position === index ? { ...ingredient, ...changes } : ingredient
+      )
+    });
+  };
+
+  const handleSaveRecipe = async () => {
+    if (!recipeForm) return;
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+
+      const response = await fetch(recipeForm.id ? `/api/recipes/${recipeForm.id}` : '/api/recipes', {
+        method: recipeForm.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...recipeForm,
+          menu_price: recipeForm.is_menu_item ? recipeForm.menu_price : '',
+          target_food_cost_percent: recipeForm.is_menu_item ? recipeForm.target_food_cost_percent : '',
+          ingredients: recipeForm.ingredients.map(ingredient => ({
+            vendor_id: ingredient.kind === 'product' ? ingredient.vendor_id : '',
+            product_number: ingredient.kind === 'product' ? ingredient.product_number : '',
+            sub_recipe_id: ingredient.kind === 'recipe' ? ingredient.sub_recipe_id : '',
+            quantity: ingredient.quantity,
+            unit: ingredient.unit,
+            yield_percent: ingredient.yield_percent
+          }))
+        })
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Saving recipe failed with status ${response.status}`);
+      }
+
+      setRecipeForm(null);
+      await loadRecipes();
+    } catch (err) {
+      console.error('❌ Error saving recipe:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save recipe');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (cost: RecipeCost) => {
+    if (!confirm(`Delete the recipe for ${cost.recipe.name}?`)) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/recipes/${cost.recipe.id}`, { method: 'DELETE' });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Delete failed with status ${response.status}`);
+      }
+
+      setRecipes(current => current.filter(existing => existing.recipe.id !== cost.recipe.id));
+    } catch (err) {
+      console.error('❌ Error deleting recipe:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete recipe');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  // Invoice dates are plain YYYY-MM-DD; read them as local dates, not UTC midnight
+  const formatDate = (dateString: string) => {
+    return new Date(dateString.length === 10 ? `${dateString}T00:00:00` : dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const selectedCost = recipes.find(cost => cost.recipe.id === selectedRecipeId);
+  const overTarget = recipes.filter(cost => cost.over_target).length;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <ChefHat className="h-6 w-6 text-orange-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Recipes &amp; Plate Costs</h1>
+            <Badge variant="secondary">{recipes.length} recipes</Badge>
+            {overTarget > 0 && <Badge variant="destructive">{overTarget} over target</Badge>}
+          </div>
+          {canManageRecipes && (
+            <Button onClick={() => openRecipeEditor()} style={{ backgroundColor: '#f29d2c' }}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Recipe
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Recipe list */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle>Plate Costs</CardTitle>
+            <p className="text-sm text-gray-500">
+              Costed at each ingredient&apos;s latest invoice price per base unit, divided by its yield.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-500">Loading recipes...</div>
+            ) : recipes.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No recipes yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipe</TableHead>
+                    <TableHead className="text-center">Portions</TableHead>
+                    <TableHead>Batch Cost</TableHead>
+                    <TableHead>Plate Cost</TableHead>
+                    <TableHead>Menu Price</TableHead>
+                    <TableHead>Food Cost</TableHead>
+                    <TableHead>Target</TableHead>
+                    {canManageRecipes && <TableHead></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recipes.map(cost => (
+                    <TableRow
+                      key={cost.recipe.id}
+                      className={`cursor-pointer hover:bg-gray-50 ${cost.recipe.id === selectedRecipeId ? 'bg-orange-50' : ''}`}
+                      onClick={() => setSelectedRecipeId(cost.recipe.id === selectedRecipeId ? null : cost.recipe.id)}
+                    >
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium text-gray-900">{cost.recipe.name}</span>
+                          {!cost.recipe.is_menu_item && <Badge variant="outline" className="text-xs">Sub-recipe</Badge>}
+                          {cost.unpriced > 0 && (
+                            <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700 border-amber-200">
+                              {cost.unpriced} unpriced
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-center">{cost.recipe.portions}</TableCell>
+                      <TableCell>{formatCurrency(cost.batch_cost)}</TableCell>
+                      <TableCell className="font-medium">{formatCurrency(cost.plate_cost)}</TableCell>
+                      <TableCell>{cost.recipe.menu_price ? formatCurrency(cost.recipe.menu_price) : '-'}</TableCell>
+                      <TableCell className={cost.over_target ? 'font-medium text-red-600' : ''}>
+                        {cost.food_cost_percent !== null ? `${cost.food_cost_percent.toFixed(1)}%` : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {cost.recipe.target_food_cost_percent !== null ? `${cost.recipe.target_food_cost_percent}%` : '-'}
+                      </TableCell>
+                      {canManageRecipes && (
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          <div className="flex items-center">
+                            <Button variant="ghost" size="sm" onClick={() => openRecipeEditor(cost)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(cost)}>
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Ingredient breakdown for the selected recipe */}
+        {selectedCost && (
+          <Card className="bg-white border-l-4 border-l-orange-500">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>{selectedCost.recipe.name}</span>
+                <span className="text-sm font-normal text-gray-500">
+                  {formatCurrency(selectedCost.batch_cost)} per batch of {selectedCost.recipe.portions}
+                  {selectedCost.recipe.yield_quantity && selectedCost.recipe.yield_unit
+                    ? ` (${selectedCost.recipe.yield_quantity} ${selectedCost.recipe.yield_unit})`
+                    : ''}
+                </span>
+              </CardTitle>
+              {selectedCost.recipe.notes && <p className="text-sm text-gray-500">{selectedCost.recipe.notes}</p>}
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ingredient</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead className="text-center">Yield</TableHead>
+                    <TableHead>Unit Cost</TableHead>
+                    <TableHead>Last Change</TableHead>
+                    <TableHead>Cost</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedCost.ingredients.map((costed, index) => (
+                    <TableRow key={`${costed.ingredient.product_number || costed.ingredient.sub_recipe_id}-${index}`}>
+                      <TableCell>
+                        <div className="font-medium text-gray-900">{costed.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {costed.ingredient.product_number || 'Sub-recipe'}
+                          {costed.price_date && ` • priced ${formatDate(costed.price_date)}`}
+                        </div>
+                        {costed.issue && <div className="text-xs text-amber-700">{costed.issue}</div>}
+                      </TableCell>
+                      <TableCell>{costed.ingredient.quantity} {costed.ingredient.unit}</TableCell>
+                      <TableCell className="text-center">{costed.ingredient.yield_percent}%</TableCell>
+                      <TableCell>
+                        {costed.unit_cost !== null && costed.base_unit ? formatUnitPrice(costed.unit_cost, costed.base_unit) : '-'}
+                      </TableCell>
+                      <TableCell className={
+                        costed.price_change_percent !== null && costed.price_change_percent > 0 ? 'text-red-600' : 'text-gray-600'
+                      }>
+                        {costed.price_change_percent !== null
+                          ? `${costed.price_change_percent > 0 ? '+' : ''}${costed.price_change_percent.toFixed(1)}%`
+                          : '-'}
+                      </TableCell>
+                      <TableCell className="font-medium">{costed.cost !== null ? formatCurrency(costed.cost) : '-'}</TableCell>
+                      <TableCell className="text-right text-gray-600">
+                        {costed.cost !== null && selectedCost.batch_cost > 0
+                          ? `${((costed.cost / selectedCost.batch_cost) * 100).toFixed(0)}%`
+                          : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Plate cost alerts */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-gray-600" />
+              <span>Plate Cost Alerts</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {alerts.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No menu item has gone over its food cost target</div>
+            ) : (
+              <div className="space-y-3">
+                {alerts.map(alert => (
+                  <div key={alert.id} className="p-4 bg-red-50 rounded-lg border border-red-200">
+                    <div className="flex items-center justify-between">
+                      <div className="font-medium text-gray-900">{alert.recipe_name}</div>
+                      <div className="text-sm text-gray-500">{alert.created_at ? formatDate(alert.created_at) : ''}</div>
+                    </div>
+                    <p className="text-sm text-gray-700 mt-1">
+                      Plate cost {formatCurrency(alert.plate_cost)} on a {formatCurrency(alert.menu_price)} menu price is{' '}
+                      <span className="font-medium text-red-600">{alert.food_cost_percent.toFixed(1)}%</span> food cost,
+                      over the {alert.target_food_cost_percent}% target.
+                    </p>
+                    {alert.price_increases.length > 0 && (
+                      <ul className="text-sm text-gray-600 mt-2 space-y-1">
+                        {alert.price_increases.map(increase => (
+                          <li key={`${increase.vendor_id}:${increase.product_number}`}>
+                            {increase.description}: {formatUnitPrice(increase.previous_price, increase.base_unit)} →{' '}
+                            {formatUnitPrice(increase.current_price, increase.base_unit)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Recipe editor */}
+      <Dialog open={!!recipeForm} onOpenChange={(open) => !open && setRecipeForm(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{recipeForm?.id ? `Edit ${recipeForm.name}` : 'Add recipe'}</DialogTitle>
+          </DialogHeader>
+
+          {recipeForm && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input
+                    value={recipeForm.name}
+                    onChange={(e) => setRecipeForm({ ...recipeForm, name: e.target.value })}
+                    placeholder="Carne asada tacos"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Type</label>
+                  <select
+                    value={recipeForm.is_menu_item ? 'menu' : 'sub'}
+                    onChange={(e) => setRecipeForm({ ...recipeForm, is_menu_item: e.target.value === 'menu' })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    <option value="menu">Menu item</option>
+                    <option value="sub">Sub-recipe (used in other recipes)</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Portions per batch</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={recipeForm.portions}
+                    onChange={(e) => setRecipeForm({ ...recipeForm, portions: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Batch yield</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={recipeForm.yield_quantity}
+                    onChange={(e) => setRecipeForm({ ...recipeForm, yield_quantity: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Yield unit</label>
+                  <select
+                    value={recipeForm.yield_unit}
+                    onChange={(e) => setRecipeForm({ ...recipeForm, yield_unit: e.target.value })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    <option value="">-</option>
+                    {INGREDIENT_UNITS.filter(unit => unit !== PORTION_UNIT).map(unit => (
+                      <option key={unit} value={unit}>{unit}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {recipeForm.is_menu_item && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Menu price</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={recipeForm.menu_price}
+                      onChange={(e) => setRecipeForm({ ...recipeForm, menu_price: e.target.value })}
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Target food cost %</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={recipeForm.target_food_cost_percent}
+                      onChange={(e) => setRecipeForm({ ...recipeForm, target_food_cost_percent: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Ingredients</label>
+                <p className="text-xs text-gray-500 mb-2">
+                  Yield is the usable share after trimming and cooking. Use a sub-recipe by {PORTION_UNIT} or, when it has a
+                  batch yield, by measure.
+                </p>
+                <div className="space-y-2">
+                  {recipeForm.ingredients.map((ingredient, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <select
+                        value={ingredient.kind}
+                        onChange={(e) => updateIngredient(index, {
+                          kind: e.target.value as IngredientForm['kind'],
+                          unit: e.target.value === 'recipe' ? PORTION_UNIT : 'OZ'
+                        })}
+                        className="p-2 border rounded-md text-sm w-28"
+                      >
+                        <option value="product">Product</option>
+                        <option value="recipe">Recipe</option>
+                      </select>
+                      {ingredient.kind === 'product' ? (
+                        <>
+                          <Input
+                            list="recipe-products"
+                            value={ingredient.product_number}
+                            onChange={(e) => changeProductNumber(index, e.target.value)}
+                            placeholder="Product number"
+                            className="flex-1"
+                          />
+                          <select
+                            value={ingredient.vendor_id}
+                            onChange={(e) => updateIngredient(index, { vendor_id: e.target.value })}
+                            className="p-2 border rounded-md text-sm w-36"
+                          >
+                            <option value="">Vendor</option>
+                            {vendorsOf(ingredient.product_number).map(product => (
+                              <option key={product.vendor_id} value={product.vendor_id || ''}>
+                                {product.vendor?.name || 'Unknown vendor'}
+                              </option>
+                            ))}
+                          </select>
+                        </>
+                      ) : (
+                        <select
+                          value={ingredient.sub_recipe_id}
+                          onChange={(e) => updateIngredient(index, { sub_recipe_id: e.target.value })}
+                          className="flex-1 p-2 border rounded-md text-sm"
+                        >
+                          <option value="">Choose a recipe</option>
+                          {recipes
+                            .filter(cost => cost.recipe.id !== recipeForm.id)
+                            .map(cost => (
+                              <option key={cost.recipe.id} value={cost.recipe.id}>{cost.recipe.name}</option>
+                            ))}
+                        </select>
+                      )}
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={ingredient.quantity}
+                        onChange={(e) => updateIngredient(index, { quantity: e.target.value })}
+                        placeholder="Qty"
+                        className="w-20"
+                      />
+                      <select
+                        value={ingredient.unit}
+                        onChange={(e) => updateIngredient(index, { unit: e.target.value })}
+                        className="p-2 border rounded-md text-sm w-28"
+                      >
+                        {INGREDIENT_UNITS.map(unit => (
+                          <option key={unit} value={unit}>{unit}</option>
+                        ))}
+                      </select>
+                      <Input
+                        type="number"
+                        min="1"
+                        max="100"
+                        value={ingredient.yield_percent}
+                        onChange={(e) => updateIngredient(index, { yield_percent: e.target.value })}
+                        title="Yield %"
+                        className="w-20"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={recipeForm.ingredients.length === 1}
+                        onClick={() => setRecipeForm({
+                          ...recipeForm,
+                          ingredients: recipeForm.ingredients.filter((_, position) => position !== index)
+                        })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <datalist id="recipe-products">
+                  {products.map(product => (
+                    <option key={`${product.vendor_id}:${product.product_number}`} value={product.product_number}>
+                      {product.name}{product.base_unit ? ` (${product.base_unit})` : ''}{product.vendor ? ` · ${product.vendor.name}` : ''}
+                    </option>
+                  ))}
+                </datalist>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-2"
+                  onClick={() => setRecipeForm({ ...recipeForm, ingredients: [...recipeForm.ingredients, emptyIngredient()] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add ingredient
+                </Button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Notes</label>
+                <Input
+                  value={recipeForm.notes}
+                  onChange={(e) => setRecipeForm({ ...recipeForm, notes: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecipeForm(null)}>Cancel</Button>
+            <Button onClick={handleSaveRecipe} disabled={isSaving} style={{ backgroundColor: '#f29d2c' }}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
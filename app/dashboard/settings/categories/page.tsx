@@ -0,0 +1,670 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Tags, Plus, Pencil, Trash2, AlertCircle, ArrowLeft, X, RefreshCw, Pin, FlaskConical } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import {
+  assignCategory,
+  subcategoriesOf,
+  topLevelCategories,
+  type CategoryOverride,
+  type CategoryRule,
+  type ProductCategory,
+  type RecategorizeResult
+} from '@/src/lib/product-categories';
+
+// Form values are kept as strings so inputs can be cleared while editing
+interface RuleForm {
+  priority: string;
+  keywords: string;
+  category: string;
+  subcategory: string;
+  enabled: boolean;
+}
+
+interface OverrideForm {
+  product_number: string;
+  category: string;
+  subcategory: string;
+  note: string;
+}
+
+const PREVIEW_CHANGE_LIMIT = 50;
+
+export default function ProductCategoriesPage() {
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [overrides, setOverrides] = useState<CategoryOverride[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newCategory, setNewCategory] = useState('');
+  const [newSubcategories, setNewSubcategories] = useState<Record<string, string>>({});
+
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testDescription, setTestDescription] = useState('');
+
+  const [overrideForm, setOverrideForm] = useState<OverrideForm>({ product_number: '', category: '', subcategory: '', note: '' });
+
+  const [recategorizeResult, setRecategorizeResult] = useState<RecategorizeResult | null>(null);
+  const [isRecategorizing, setIsRecategorizing] = useState(false);
+  const [recategorizeApplied, setRecategorizeApplied] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/categories');
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading product categories failed with status ${response.status}`);
+      }
+
+      setCategories(body.categories);
+      setRules(body.rules);
+      setOverrides(body.overrides);
+    } catch (err) {
+      console.error('❌ Error loading product categories:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load product categories');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // Every edit goes through here, and any edit makes the last recategorize preview stale
+  const request = async (url: string, init: RequestInit, action: string) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: init.body ? { 'Content-Type': 'application/json' } : undefined
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      throw new Error(body.error || `${action} failed with status ${response.status}`);
+    }
+
+    setRecategorizeResult(null);
+    setRecategorizeApplied(false);
+    return body;
+  };
+
+  const handleAddCategory = async (name: string, parentId: string | null = null) => {
+    if (!name.trim()) return;
+
+    try {
+      setError(null);
+      const body = await request('/api/categories', {
+        method: 'POST',
+        body: JSON.stringify({ name, parentId })
+      }, 'Adding category');
+
+      setCategories(current => [...current, body.category]);
+      if (parentId) {
+        setNewSubcategories(current => ({ ...current, [parentId]: '' }));
+      } else {
+        setNewCategory('');
+      }
+    } catch (err) {
+      console.error('❌ Error adding category:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add category');
+    }
+  };
+
+  const handleDeleteCategory = async (category: ProductCategory) => {
+    const what = category.parent_id ? 'subcategory' : 'category and its subcategories';
+    if (!confirm(`Delete the ${what} "${category.name}"? Products keep it until you recategorize.`)) return;
+
+    try {
+      setError(null);
+      await request(`/api/categories/${category.id}`, { method: 'DELETE' }, 'Deleting category');
+      setCategories(current => current.filter(existing => existing.id !== category.id && existing.parent_id !== category.id));
+    } catch (err) {
+      console.error('❌ Error deleting category:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete category');
+    }
+  };
+
+  const openRuleEditor = (rule?: CategoryRule) => {
+    const lastPriority = rules.reduce((max, existing) => Math.max(max, existing.priority), 0);
+    setEditingRuleId(rule?.id || null);
+    setRuleForm({
+      priority: String(rule?.priority ?? lastPriority + 10),
+      keywords: rule?.keywords || '',
+      category: rule?.category || topLevelCategories(categories)[0]?.name || '',
+      subcategory: rule?.subcategory || '',
+      enabled: rule?.enabled ?? true
+    });
+    setFormError(null);
+  };
+
+  const updateRuleForm = (changes: Partial<RuleForm>) => {
+    setRuleForm(current => current ? { ...current, ...changes } : current);
+  };
+
+  const saveRule = async (rule: RuleForm, id: string | null) => {
+    const body = await request(id ? `/api/categories/rules/${id}` : '/api/categories/rules', {
+      method: id ? 'PUT' : 'POST',
+      body: JSON.stringify(rule)
+    }, 'Saving category rule');
+
+    const saved = body.rule as CategoryRule;
+    setRules(current =>
+      (id ? current.map(existing => existing.id === id ? saved : existing) : [...current, saved])
+        .sort((a, b) => a.priority - b.priority)
+    );
+  };
+
+  const handleSaveRule = async () => {
+    if (!ruleForm) return;
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+      await saveRule(ruleForm, editingRuleId);
+      setRuleForm(null);
+    } catch (err) {
+      console.error('❌ Error saving category rule:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save category rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: CategoryRule) => {
+    try {
+      setError(null);
+      await saveRule({
+        priority: String(rule.priority),
+        keywords: rule.keywords,
+        category: rule.category,
+        subcategory: rule.subcategory || '',
+        enabled: !rule.enabled
+      }, rule.id);
+    } catch (err) {
+      console.error('❌ Error updating category rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update category rule');
+    }
+  };
+
+  const handleDeleteRule = async (rule: CategoryRule) => {
+    if (!confirm(`Delete the rule for "${rule.keywords}"?`)) return;
+
+    try {
+      setError(null);
+      await request(`/api/categories/rules/${rule.id}`, { method: 'DELETE' }, 'Deleting category rule');
+      setRules(current => current.filter(existing => existing.id !== rule.id));
+    } catch (err) {
+      console.error('❌ Error deleting category rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete category rule');
+    }
+  };
+
+  const handleSaveOverride = async () => {
+    try {
+      setError(null);
+      const body = await request('/api/categories/overrides', {
+        method: 'PUT',
+        body: JSON.stringify(overrideForm)
+      }, 'Saving category override');
+
+      const saved = body.override as CategoryOverride;
+      setOverrides(current => [...current.filter(existing => existing.product_number !== saved.product_number), saved]
+        .sort((a, b) => a.product_number.localeCompare(b.product_number)));
+      setOverrideForm({ product_number: '', category: '', subcategory: '', note: '' });
+    } catch (err) {
+      console.error('❌ Error saving category override:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save category override');
+    }
+  };
+
+  const handleDeleteOverride = async (override: CategoryOverride) => {
+    if (!confirm(`Remove the override for product ${override.product_number}?`)) return;
+
+    try {
+      setError(null);
+      await request(`/api/categories/overrides/${encodeURIComponent(override.product_number)}`, { method: 'DELETE' }, 'Deleting category override');
+      setOverrides(current => current.filter(existing => existing.product_number !== override.product_number));
+    } catch (err) {
+      console.error('❌ Error deleting category override:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete category override');
+    }
+  };
+
+  const handleRecategorize = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('Rewrite the category of every product and past invoice line?')) return;
+
+    try {
+      setIsRecategorizing(true);
+      setError(null);
+      const response = await fetch('/api/categories/recategorize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun })
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Recategorizing failed with status ${response.status}`);
+      }
+
+      setRecategorizeResult(body.result);
+      setRecategorizeApplied(!dryRun);
+    } catch (err) {
+      console.error('❌ Error recategorizing history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to recategorize history');
+    } finally {
+      setIsRecategorizing(false);
+    }
+  };
+
+  const describeCategory = (category: string, subcategory: string | null) => (
+    <>
+      <span className="font-medium">{category}</span>
+      {subcategory && <span className="text-gray-500"> / {subcategory}</span>}
+    </>
+  );
+
+  const renderCategorySelects = (
+    category: string,
+    subcategory: string,
+    onChange: (changes: { category?: string; subcategory?: string }) => void
+  ) => (
+    <>
+      <select
+        value={category}
+        onChange={(e) => onChange({ category: e.target.value, subcategory: '' })}
+        className="w-full p-2 border rounded-md"
+      >
+        <option value="">Category...</option>
+        {topLevelCategories(categories).map(option => (
+          <option key={option.id} value={option.name}>{option.name}</option>
+        ))}
+      </select>
+      <select
+        value={subcategory}
+        onChange={(e) => onChange({ subcategory: e.target.value })}
+        className="w-full p-2 border rounded-md"
+        disabled={!category}
+      >
+        <option value="">No subcategory</option>
+        {subcategoriesOf(categories, category).map(option => (
+          <option key={option.id} value={option.name}>{option.name}</option>
+        ))}
+      </select>
+    </>
+  );
+
+  const testResult = testDescription.trim() ? assignCategory('', testDescription, { rules, overrides: [] }) : null;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Link href="/dashboard/settings" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Settings
+        </Link>
+
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <Tags className="h-6 w-6 text-orange-500" />
+          <h1 className="text-2xl font-bold text-gray-900">Product Categories</h1>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading categories...</div>
+        ) : (
+          <>
+            {/* Taxonomy */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle>Categories</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {topLevelCategories(categories).map(category => (
+                  <div key={category.id} className="flex flex-wrap items-center gap-2 border-b pb-3">
+                    <span className="font-medium text-gray-900 w-32">{category.name}</span>
+                    {subcategoriesOf(categories, category.name).map(subcategory => (
+                      <Badge key={subcategory.id} variant="outline" className="flex items-center space-x-1">
+                        <span>{subcategory.name}</span>
+                        <button onClick={() => handleDeleteCategory(subcategory)} title="Delete subcategory">
+                          <X className="h-3 w-3 text-gray-400 hover:text-red-500" />
+                        </button>
+                      </Badge>
+                    ))}
+                    <Input
+                      value={newSubcategories[category.id] || ''}
+                      onChange={(e) => setNewSubcategories(current => ({ ...current, [category.id]: e.target.value }))}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddCategory(newSubcategories[category.id] || '', category.id)}
+                      placeholder="Add subcategory"
+                      className="w-40 h-8 text-sm"
+                    />
+                    <Button variant="ghost" size="sm" className="ml-auto" onClick={() => handleDeleteCategory(category)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex items-center space-x-2">
+                  <Input
+                    value={newCategory}
+                    onChange={(e) => setNewCategory(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddCategory(newCategory)}
+                    placeholder="New category"
+                    className="w-64"
+                  />
+                  <Button variant="outline" onClick={() => handleAddCategory(newCategory)} disabled={!newCategory.trim()}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add category
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Rules */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Matching Rules</span>
+                  <Button onClick={() => openRuleEditor()} style={{ backgroundColor: '#f29d2c' }}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add rule
+                  </Button>
+                </CardTitle>
+                <p className="text-sm text-gray-500">
+                  Rules are tried from the top; the first one with a keyword in the product description decides its
+                  category. Put specific keywords like &ldquo;ice cream&rdquo; above general ones like &ldquo;cream&rdquo;.
+                  Products that match nothing are filed under Dry Goods.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center space-x-3">
+                  <FlaskConical className="h-4 w-4 text-gray-500" />
+                  <Input
+                    value={testDescription}
+                    onChange={(e) => setTestDescription(e.target.value)}
+                    placeholder="Try a description, e.g. ICE CREAM VANILLA"
+                    className="max-w-md"
+                  />
+                  {testResult && (
+                    <span className="text-sm">
+                      {describeCategory(testResult.category, testResult.subcategory)}
+                      <span className="text-gray-400"> ({testResult.source === 'rule' ? 'rule' : 'no match'})</span>
+                    </span>
+                  )}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Keywords</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rules.map(rule => (
+                      <TableRow key={rule.id}>
+                        <TableCell className="text-gray-500">{rule.priority}</TableCell>
+                        <TableCell className="font-mono text-sm">{rule.keywords}</TableCell>
+                        <TableCell>{describeCategory(rule.category, rule.subcategory)}</TableCell>
+                        <TableCell>
+                          <button onClick={() => handleToggleRule(rule)} title={rule.enabled ? 'Disable' : 'Enable'}>
+                            <Badge variant="outline" className={rule.enabled ? 'bg-green-50 text-green-700 border-green-200' : 'bg-gray-50 text-gray-500'}>
+                              {rule.enabled ? 'Enabled' : 'Disabled'}
+                            </Badge>
+                          </button>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end space-x-1">
+                            <Button variant="ghost" size="sm" onClick={() => openRuleEditor(rule)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule)}>
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Overrides */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Pin className="h-5 w-5 text-gray-600" />
+                  <span>Product Overrides</span>
+                </CardTitle>
+                <p className="text-sm text-gray-500">Pin a product to a category whatever the rules say.</p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-center">
+                  <Input
+                    value={overrideForm.product_number}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, product_number: e.target.value })}
+                    placeholder="Product #"
+                  />
+                  {renderCategorySelects(overrideForm.category, overrideForm.subcategory, changes =>
+                    setOverrideForm(current => ({ ...current, ...changes }))
+                  )}
+                  <Input
+                    value={overrideForm.note}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, note: e.target.value })}
+                    placeholder="Note (optional)"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleSaveOverride}
+                    disabled={!overrideForm.product_number.trim() || !overrideForm.category}
+                  >
+                    <Pin className="h-4 w-4 mr-1" />
+                    Save override
+                  </Button>
+                </div>
+
+                {overrides.length === 0 ? (
+                  <div className="p-4 text-center text-gray-500">No overrides yet</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product #</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Note</TableHead>
+                        <TableHead>Set by</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {overrides.map(override => (
+                        <TableRow key={override.product_number}>
+                          <TableCell className="font-mono text-sm">{override.product_number}</TableCell>
+                          <TableCell>{describeCategory(override.category, override.subcategory)}</TableCell>
+                          <TableCell className="text-sm text-gray-600">{override.note || '-'}</TableCell>
+                          <TableCell className="text-sm text-gray-600">{override.updated_by || '-'}</TableCell>
+                          <TableCell>
+                            <Button variant="ghost" size="sm" onClick={() => handleDeleteOverride(override)}>
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Recategorize */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <RefreshCw className="h-5 w-5 text-gray-600" />
+                  <span>Recategorize All History</span>
+                </CardTitle>
+                <p className="text-sm text-gray-500">
+                  New invoices use the rules above as they are imported. Recategorizing applies them to every past
+                  invoice line at your locations, so category spend on the dashboard reflects the current taxonomy.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center space-x-3">
+                  <Button variant="outline" onClick={() => handleRecategorize(true)} disabled={isRecategorizing}>
+                    Preview changes
+                  </Button>
+                  <Button
+                    onClick={() => handleRecategorize(false)}
+                    disabled={isRecategorizing || !recategorizeResult || recategorizeApplied}
+                    style={{ backgroundColor: '#f29d2c' }}
+                  >
+                    <RefreshCw className={`h-4 w-4 mr-1 ${isRecategorizing ? 'animate-spin' : ''}`} />
+                    {isRecategorizing ? 'Working...' : 'Recategorize'}
+                  </Button>
+                </div>
+
+                {recategorizeResult && (
+                  <div className="space-y-3">
+                    <p className="text-sm text-gray-700">
+                      {recategorizeApplied
+                        ? `Recategorized ${recategorizeResult.productsChanged} of ${recategorizeResult.productsChecked} products and ${recategorizeResult.invoiceLinesChanged} invoice lines.`
+                        : `${recategorizeResult.productsChanged} of ${recategorizeResult.productsChecked} products would change category.`}
+                    </p>
+                    {!recategorizeApplied && recategorizeResult.changes.length > 0 && (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Product</TableHead>
+                            <TableHead>From</TableHead>
+                            <TableHead>To</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {recategorizeResult.changes.slice(0, PREVIEW_CHANGE_LIMIT).map(change => (
+                            <TableRow key={change.productNumber}>
+                              <TableCell>
+                                <div className="font-medium text-gray-900">{change.name}</div>
+                                <div className="text-xs text-gray-500">{change.productNumber}</div>
+                              </TableCell>
+                              <TableCell>{describeCategory(change.from.category || 'None', change.from.subcategory)}</TableCell>
+                              <TableCell>
+                                {describeCategory(change.to.category, change.to.subcategory)}
+                                {change.to.source === 'override' && (
+                                  <Badge variant="outline" className="ml-2">override</Badge>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                    {!recategorizeApplied && recategorizeResult.changes.length > PREVIEW_CHANGE_LIMIT && (
+                      <p className="text-xs text-gray-500">
+                        Showing the first {PREVIEW_CHANGE_LIMIT} of {recategorizeResult.changes.length} changes
+                      </p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      {/* Rule editor */}
+      <Dialog open={!!ruleForm} onOpenChange={(open) => !open && setRuleForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRuleId ? 'Edit category rule' : 'New category rule'}</DialogTitle>
+          </DialogHeader>
+
+          {ruleForm && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Keywords</label>
+                <Input
+                  value={ruleForm.keywords}
+                  onChange={(e) => updateRuleForm({ keywords: e.target.value })}
+                  placeholder="e.g. ice cream, gelato"
+                />
+                <p className="text-xs text-gray-500 mt-1">Comma separated; any one of them in the description matches</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {renderCategorySelects(ruleForm.category, ruleForm.subcategory, updateRuleForm)}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Order</label>
+                <Input
+                  type="number"
+                  step="1"
+                  value={ruleForm.priority}
+                  onChange={(e) => updateRuleForm({ priority: e.target.value })}
+                />
+                <p className="text-xs text-gray-500 mt-1">Lower numbers are tried first</p>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm">
+                <input type="checkbox" checked={ruleForm.enabled} onChange={(e) => updateRuleForm({ enabled: e.target.checked })} />
+                <span>Enabled</span>
+              </label>
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRuleForm(null)}>Cancel</Button>
+            <Button onClick={handleSaveRule} disabled={isSaving} style={{ backgroundColor: '#f29d2c' }}>
+              {isSaving ? 'Saving...' : 'Save rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,586 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Settings, Plus, Pencil, Trash2, AlertCircle, BellRing, Tags, ChevronRight, Mail, Users, Truck, FileText } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { getLocations, getProductCategories } from '@/lib/supabase/browser';
+import type { Location } from '@/lib/supabase/types';
+import {
+  ALERT_RULE_BASELINE_LABELS,
+  ALERT_RULE_DIRECTION_LABELS,
+  DEFAULT_ALERT_RULE,
+  type AlertRule,
+  type AlertRuleBaseline,
+  type AlertRuleChangeType,
+  type AlertRuleDirection,
+  type AlertRuleInput
+} from '@/src/lib/alert-rules';
+import { DEFAULT_PRODUCT_CATEGORIES, topLevelCategories } from '@/src/lib/product-categories';
+import type { DigestSubscription } from '@/src/lib/weekly-digest';
+import { hasPermission, type OrganizationRole } from '@/src/lib/roles';
+
+// Form values are kept as strings so inputs can be cleared while editing
+interface RuleForm {
+  name: string;
+  enabled: boolean;
+  change_type: AlertRuleChangeType;
+  threshold: string;
+  critical_threshold: string;
+  min_spend_impact: string;
+  baseline: AlertRuleBaseline;
+  direction: AlertRuleDirection;
+  scope_category: string;
+  scope_product_number: string;
+  scope_location_id: string;
+}
+
+function toForm(rule: AlertRuleInput): RuleForm {
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    change_type: rule.change_type,
+    threshold: String(rule.threshold),
+    critical_threshold: rule.critical_threshold === null ? '' : String(rule.critical_threshold),
+    min_spend_impact: String(rule.min_spend_impact || 0),
+    baseline: rule.baseline,
+    direction: rule.direction,
+    scope_category: rule.scope_category || '',
+    scope_product_number: rule.scope_product_number || '',
+    scope_location_id: rule.scope_location_id || ''
+  };
+}
+
+export default function SettingsPage() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [categoryNames, setCategoryNames] = useState<string[]>(DEFAULT_PRODUCT_CATEGORIES);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [digestLocationIds, setDigestLocationIds] = useState<string[]>([]);
+  const [digestError, setDigestError] = useState<string | null>(null);
+
+  const [role, setRole] = useState<OrganizationRole | null>(null);
+  const canManagePurchasing = hasPermission(role, 'manage_purchasing');
+
+  useEffect(() => {
+    getLocations().then(setLocations);
+    getProductCategories().then(categories => {
+      const names = topLevelCategories(categories).map(category => category.name);
+      if (names.length > 0) setCategoryNames(names);
+    });
+
+    fetch('/api/organization')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading organization failed with status ${response.status}`);
+        }
+        setRole(body.organization?.role || null);
+      })
+      .catch((err) => console.error('❌ Error loading organization:', err));
+
+    fetch('/api/alert-rules')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading alert rules failed with status ${response.status}`);
+        }
+        setRules(body.rules);
+      })
+      .catch((err) => {
+        console.error('❌ Error loading alert rules:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load alert rules');
+      })
+      .finally(() => setIsLoading(false));
+
+    fetch('/api/digest-subscriptions')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading digest subscriptions failed with status ${response.status}`);
+        }
+        setDigestLocationIds(body.subscriptions.map((subscription: DigestSubscription) => subscription.location_id));
+      })
+      .catch((err) => {
+        console.error('❌ Error loading digest subscriptions:', err);
+        setDigestError(err instanceof Error ? err.message : 'Failed to load digest subscriptions');
+      });
+  }, []);
+
+  const handleDigestToggle = async (locationId: string, subscribed: boolean) => {
+    try {
+      setDigestError(null);
+      const response = await fetch('/api/digest-subscriptions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locationId, subscribed })
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Updating digest subscription failed with status ${response.status}`);
+      }
+
+      setDigestLocationIds(body.subscriptions.map((subscription: DigestSubscription) => subscription.location_id));
+    } catch (err) {
+      console.error('❌ Error updating digest subscription:', err);
+      setDigestError(err instanceof Error ? err.message : 'Failed to update digest subscription');
+    }
+  };
+
+  const openEditor = (rule?: AlertRule) => {
+    setEditingId(rule?.id || null);
+    setForm(toForm(rule || { ...DEFAULT_ALERT_RULE, name: '' }));
+    setFormError(null);
+  };
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm(current => current ? { ...current, ...changes } : current);
+  };
+
+  const saveRule = async (rule: Partial<RuleForm> & Pick<RuleForm, 'name'>, id: string | null) => {
+    const response = await fetch(id ? `/api/alert-rules/${id}` : '/api/alert-rules', {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(rule)
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      throw new Error(body.error || `Saving alert rule failed with status ${response.status}`);
+    }
+
+    const saved = body.rule as AlertRule;
+    setRules(current => id ? current.map(existing => existing.id === id ? saved : existing) : [...current, saved]);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+      await saveRule(form, editingId);
+      setForm(null);
+    } catch (err) {
+      console.error('❌ Error saving alert rule:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save alert rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    try {
+      setError(null);
+      await saveRule(toForm({ ...rule, enabled: !rule.enabled }), rule.id);
+    } catch (err) {
+      console.error('❌ Error updating alert rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update alert rule');
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Delete the alert rule "${rule.name}"?`)) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/alert-rules/${rule.id}`, { method: 'DELETE' });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Deleting alert rule failed with status ${response.status}`);
+      }
+
+      setRules(current => current.filter(existing => existing.id !== rule.id));
+    } catch (err) {
+      console.error('❌ Error deleting alert rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete alert rule');
+    }
+  };
+
+  const describeThreshold = (rule: AlertRule) => {
+    const format = (value: number) => rule.change_type === 'percent' ? `${value}%` : `$${value.toFixed(2)}`;
+    const critical = rule.critical_threshold !== null ? `, critical at ${format(Number(rule.critical_threshold))}` : '';
+    return `${format(Number(rule.threshold))}${critical}`;
+  };
+
+  const describeScope = (rule: AlertRule) => {
+    const parts = [
+      rule.scope_product_number && `Product ${rule.scope_product_number}`,
+      rule.scope_category,
+      rule.scope_location_id && (locations.find(location => location.id === rule.scope_location_id)?.name || 'Unknown location')
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' • ') : 'Everything';
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <Settings className="h-6 w-6 text-gray-600" />
+          <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Team */}
+        {hasPermission(role, 'manage_team') && (
+          <Link href="/dashboard/settings/team" className="block">
+            <Card className="bg-white hover:bg-gray-50 transition-colors">
+              <CardContent className="p-6 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Users className="h-5 w-5 text-orange-500" />
+                  <div>
+                    <div className="font-semibold text-gray-900">Team</div>
+                    <div className="text-sm text-gray-500">
+                      Invite people, set their roles and choose which locations they can see
+                    </div>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-gray-400" />
+              </CardContent>
+            </Card>
+          </Link>
+        )}
+
+        {/* Product categories */}
+        {canManagePurchasing && (
+          <Link href="/dashboard/settings/categories" className="block">
+            <Card className="bg-white hover:bg-gray-50 transition-colors">
+              <CardContent className="p-6 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Tags className="h-5 w-5 text-orange-500" />
+                  <div>
+                    <div className="font-semibold text-gray-900">Product Categories</div>
+                    <div className="text-sm text-gray-500">
+                      Categories, the keyword rules that assign them, per-product overrides and recategorizing past invoices
+                    </div>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-gray-400" />
+              </CardContent>
+            </Card>
+          </Link>
+        )}
+
+        {/* Vendor formats */}
+        {canManagePurchasing && (
+          <Link href="/dashboard/settings/vendors" className="block">
+            <Card className="bg-white hover:bg-gray-50 transition-colors">
+              <CardContent className="p-6 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Truck className="h-5 w-5 text-orange-500" />
+                  <div>
+                    <div className="font-semibold text-gray-900">Vendor Formats</div>
+                    <div className="text-sm text-gray-500">
+                      Map each distributor&apos;s invoice export columns so their CSVs can be imported
+                    </div>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-gray-400" />
+              </CardContent>
+            </Card>
+          </Link>
+        )}
+
+        {/* PDF layouts */}
+        {canManagePurchasing && (
+          <Link href="/dashboard/settings/pdf-layouts" className="block">
+            <Card className="bg-white hover:bg-gray-50 transition-colors">
+              <CardContent className="p-6 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <FileText className="h-5 w-5 text-orange-500" />
+                  <div>
+                    <div className="font-semibold text-gray-900">PDF Layouts</div>
+                    <div className="text-sm text-gray-500">
+                      Teach the importer how each vendor&apos;s emailed PDF invoices are laid out
+                    </div>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-gray-400" />
+              </CardContent>
+            </Card>
+          </Link>
+        )}
+
+        {/* Weekly digest */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Mail className="h-5 w-5 text-orange-500" />
+              <span>Weekly Cost Digest</span>
+            </CardTitle>
+            <p className="text-sm text-gray-500">
+              A Monday email to your login address with last week&apos;s spend, top products, price increases and
+              pack size changes, compared to the week before. Choose the locations you want it for.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {digestError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{digestError}</AlertDescription>
+              </Alert>
+            )}
+            {locations.map(location => (
+              <div key={location.id} className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={digestLocationIds.includes(location.id)}
+                    onChange={(e) => handleDigestToggle(location.id, e.target.checked)}
+                  />
+                  <span>{location.name}</span>
+                </label>
+                <a
+                  href={`/api/digest-preview?locationId=${location.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Preview last week
+                </a>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Alert rules */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <BellRing className="h-5 w-5 text-orange-500" />
+                <span>Price Alert Rules</span>
+              </div>
+              {canManagePurchasing && (
+                <Button onClick={() => openEditor()} style={{ backgroundColor: '#f29d2c' }}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add rule
+                </Button>
+              )}
+            </CardTitle>
+            <p className="text-sm text-gray-500">
+              Every price alert is checked against these rules. When several rules match a purchase, the most
+              specific one applies: a product rule beats a category rule, and either beats a location rule.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-500">Loading rules...</div>
+            ) : rules.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                No rules yet. Alerts use the default: 20% change from the last price, critical at 30%.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Threshold</TableHead>
+                    <TableHead>Compared to</TableHead>
+                    <TableHead>Min. Impact</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map(rule => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>{describeScope(rule)}</TableCell>
+                      <TableCell>
+                        <div>{describeThreshold(rule)}</div>
+                        <div className="text-xs text-gray-500">{ALERT_RULE_DIRECTION_LABELS[rule.direction]}</div>
+                      </TableCell>
+                      <TableCell>{ALERT_RULE_BASELINE_LABELS[rule.baseline]}</TableCell>
+                      <TableCell>
+                        {Number(rule.min_spend_impact) > 0 ? `$${Number(rule.min_spend_impact).toFixed(2)}` : <span className="text-gray-400">-</span>}
+                      </TableCell>
+                      <TableCell>
+                        <button
+                          onClick={() => handleToggle(rule)}
+                          disabled={!canManagePurchasing}
+                          title={canManagePurchasing ? (rule.enabled ? 'Disable' : 'Enable') : undefined}
+                        >
+                          <Badge variant="outline" className={rule.enabled ? 'bg-green-50 text-green-700 border-green-200' : 'bg-gray-50 text-gray-500'}>
+                            {rule.enabled ? 'Enabled' : 'Disabled'}
+                          </Badge>
+                        </button>
+                      </TableCell>
+                      <TableCell>
+                        {canManagePurchasing && (
+                          <div className="flex justify-end space-x-1">
+                            <Button variant="ghost" size="sm" onClick={() => openEditor(rule)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Rule editor */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit alert rule' : 'New alert rule'}</DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Name</label>
+                <Input value={form.name} onChange={(e) => updateForm({ name: e.target.value })} placeholder="e.g. Proteins at Bee Caves" />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Change measured as</label>
+                  <select
+                    value={form.change_type}
+                    onChange={(e) => updateForm({ change_type: e.target.value as AlertRuleChangeType })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    <option value="percent">Percent</option>
+                    <option value="absolute">Dollars per unit</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Alert on</label>
+                  <select
+                    value={form.direction}
+                    onChange={(e) => updateForm({ direction: e.target.value as AlertRuleDirection })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    {Object.entries(ALERT_RULE_DIRECTION_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Threshold {form.change_type === 'percent' ? '(%)' : '($)'}</label>
+                  <Input type="number" min="0" step="any" value={form.threshold} onChange={(e) => updateForm({ threshold: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Critical at {form.change_type === 'percent' ? '(%)' : '($)'}</label>
+                  <Input type="number" min="0" step="any" value={form.critical_threshold} onChange={(e) => updateForm({ critical_threshold: e.target.value })} placeholder="Optional" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Compared to</label>
+                  <select
+                    value={form.baseline}
+                    onChange={(e) => updateForm({ baseline: e.target.value as AlertRuleBaseline })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    {Object.entries(ALERT_RULE_BASELINE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Minimum spend impact ($)</label>
+                  <Input type="number" min="0" step="any" value={form.min_spend_impact} onChange={(e) => updateForm({ min_spend_impact: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="border-t pt-4">
+                <p className="text-sm font-medium mb-2">Applies to <span className="font-normal text-gray-500">(leave blank for everything)</span></p>
+                <div className="grid grid-cols-3 gap-4">
+                  <select
+                    value={form.scope_category}
+                    onChange={(e) => updateForm({ scope_category: e.target.value })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    <option value="">Any category</option>
+                    {categoryNames.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                  <Input
+                    value={form.scope_product_number}
+                    onChange={(e) => updateForm({ scope_product_number: e.target.value })}
+                    placeholder="Product #"
+                  />
+                  <select
+                    value={form.scope_location_id}
+                    onChange={(e) => updateForm({ scope_location_id: e.target.value })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    <option value="">Any location</option>
+                    {locations.map(location => (
+                      <option key={location.id} value={location.id}>{location.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm">
+                <input type="checkbox" checked={form.enabled} onChange={(e) => updateForm({ enabled: e.target.checked })} />
+                <span>Enabled</span>
+              </label>
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving} style={{ backgroundColor: '#f29d2c' }}>
+              {isSaving ? 'Saving...' : 'Save rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,542 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { FileText, Plus, Pencil, Copy, Trash2, AlertCircle, ArrowLeft, Eye } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { DATE_FORMATS, type DateFormat } from '@/src/lib/vendor-formats';
+import {
+  BUILTIN_PDF_LAYOUTS,
+  PDF_HEADER_FIELDS,
+  PDF_LINE_FIELDS,
+  PDF_REVIEW_THRESHOLD,
+  parsePdfLines,
+  type PdfHeaderField,
+  type PdfLayout,
+  type PdfLayoutInput,
+  type PdfParsedInvoice
+} from '@/src/lib/pdf-invoices';
+import type { PdfTextLine } from '@/src/lib/pdf-text';
+
+type LayoutForm = PdfLayoutInput;
+
+const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  MDY: 'Month/Day/Year (03/14/2025)',
+  YMD: 'Year-Month-Day (2025-03-14)',
+  DMY: 'Day/Month/Year (14/03/2025)'
+};
+
+// New layouts start from the header wording the built-in layouts share
+const EMPTY_FORM: LayoutForm = {
+  name: '',
+  vendor_name: '',
+  vendor_code: '',
+  identifier: '',
+  header_patterns: { ...BUILTIN_PDF_LAYOUTS[0].header_patterns },
+  line_pattern: '',
+  credit_marker: 'CREDIT MEMO',
+  date_format: 'MDY'
+};
+
+function toVendorCode(vendorName: string): string {
+  return vendorName.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function formatCurrency(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function safeRegExp(pattern: string): RegExp | null {
+  try {
+    return pattern ? new RegExp(pattern, 'i') : null;
+  } catch {
+    return null;
+  }
+}
+
+export default function PdfLayoutsPage() {
+  const [layouts, setLayouts] = useState<PdfLayout[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<LayoutForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The sample invoice's text, extracted on the server
+  const [sampleName, setSampleName] = useState<string | null>(null);
+  const [sampleLines, setSampleLines] = useState<PdfTextLine[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [preview, setPreview] = useState<PdfParsedInvoice[] | null>(null);
+
+  const loadLayouts = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/pdf-layouts');
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading PDF layouts failed with status ${response.status}`);
+      }
+
+      setLayouts(body.layouts);
+    } catch (err) {
+      console.error('❌ Error loading PDF layouts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load PDF layouts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLayouts();
+  }, [loadLayouts]);
+
+  const openEditor = (layout?: PdfLayout, copy = false) => {
+    setEditingId(layout && !copy ? layout.id : null);
+    setForm(layout
+      ? {
+          name: copy ? `${layout.name} (copy)` : layout.name,
+          vendor_name: layout.vendor_name,
+          vendor_code: layout.vendor_code,
+          identifier: layout.identifier,
+          header_patterns: { ...layout.header_patterns },
+          line_pattern: layout.line_pattern,
+          credit_marker: layout.credit_marker,
+          date_format: layout.date_format
+        }
+      : { ...EMPTY_FORM, header_patterns: { ...EMPTY_FORM.header_patterns } });
+    setFormError(null);
+    setPreview(null);
+  };
+
+  const updateForm = (changes: Partial<LayoutForm>) => {
+    setForm(current => current ? { ...current, ...changes } : current);
+    setPreview(null);
+  };
+
+  const updatePattern = (field: PdfHeaderField, pattern: string) => {
+    setForm(current => current ? { ...current, header_patterns: { ...current.header_patterns, [field]: pattern } } : current);
+    setPreview(null);
+  };
+
+  const handleSampleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setIsExtracting(true);
+      setFormError(null);
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/pdf-layouts/extract', { method: 'POST', body: formData });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Reading PDF failed with status ${response.status}`);
+      }
+
+      setSampleName(file.name);
+      setSampleLines(body.lines);
+      setPreview(null);
+    } catch (err) {
+      console.error('❌ Error reading sample PDF:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to read sample PDF');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handlePreview = () => {
+    if (!form || sampleLines.length === 0) return;
+
+    try {
+      setFormError(null);
+      setPreview(parsePdfLines(sampleLines, {
+        ...form,
+        id: editingId,
+        vendor_code: form.vendor_code || toVendorCode(form.vendor_name),
+        builtin: false
+      }));
+    } catch (err) {
+      console.error('❌ Error previewing PDF layout:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to preview PDF layout');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+      const response = await fetch(editingId ? `/api/pdf-layouts/${editingId}` : '/api/pdf-layouts', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, vendor_code: form.vendor_code || toVendorCode(form.vendor_name) })
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Saving PDF layout failed with status ${response.status}`);
+      }
+
+      setForm(null);
+      await loadLayouts();
+    } catch (err) {
+      console.error('❌ Error saving PDF layout:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save PDF layout');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (layout: PdfLayout) => {
+    if (!layout.id || !confirm(`Delete the ${layout.name} layout? Invoices already imported keep their vendor.`)) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/pdf-layouts/${layout.id}`, { method: 'DELETE' });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Deleting PDF layout failed with status ${response.status}`);
+      }
+
+      setLayouts(current => current.filter(existing => existing.id !== layout.id));
+    } catch (err) {
+      console.error('❌ Error deleting PDF layout:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete PDF layout');
+    }
+  };
+
+  const linePattern = form ? safeRegExp(form.line_pattern) : null;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Link href="/dashboard/settings" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Settings
+        </Link>
+
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FileText className="h-6 w-6 text-orange-500" />
+            <h1 className="text-2xl font-bold text-gray-900">PDF Layouts</h1>
+          </div>
+          {!form && (
+            <Button onClick={() => openEditor()} style={{ backgroundColor: '#f29d2c' }}>
+              <Plus className="h-4 w-4 mr-2" />
+              New layout
+            </Button>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-500">
+          PDF invoices are read from their text, so they need to be text PDFs rather than scans. Each PDF is matched to
+          a layout by its identifying text; the layout&apos;s patterns read the header fields and line items. Anything read
+          with low confidence is flagged for review on the upload page before the invoice is imported.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Layout editor */}
+        {form && (
+          <Card className="bg-white">
+            <CardHeader>
+              <CardTitle>{editingId ? `Edit ${form.name}` : 'New PDF layout'}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Vendor</label>
+                  <Input
+                    value={form.vendor_name}
+                    onChange={(e) => updateForm({ vendor_name: e.target.value })}
+                    placeholder="e.g. Hill Country Produce"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Vendor code</label>
+                  <Input
+                    value={form.vendor_code}
+                    onChange={(e) => updateForm({ vendor_code: e.target.value.toUpperCase() })}
+                    placeholder={toVendorCode(form.vendor_name) || 'e.g. HILL_COUNTRY'}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">The same code as the vendor&apos;s CSV format, if it has one</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Layout name</label>
+                  <Input
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    placeholder="e.g. Hill Country emailed invoice"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Identifying text</label>
+                  <Input
+                    value={form.identifier}
+                    onChange={(e) => updateForm({ identifier: e.target.value })}
+                    placeholder="e.g. Hill Country Produce LLC"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Text printed on every invoice from this vendor and no other</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Dates</label>
+                  <select
+                    value={form.date_format}
+                    onChange={(e) => updateForm({ date_format: e.target.value as DateFormat })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    {DATE_FORMATS.map(dateFormat => (
+                      <option key={dateFormat} value={dateFormat}>{DATE_FORMAT_LABELS[dateFormat]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Credit memo marker</label>
+                  <Input
+                    value={form.credit_marker}
+                    onChange={(e) => updateForm({ credit_marker: e.target.value })}
+                    placeholder="e.g. CREDIT MEMO"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Sample invoice</label>
+                <Input type="file" accept=".pdf,application/pdf" onChange={(e) => handleSampleFile(e.target.files?.[0])} />
+                <p className="text-xs text-gray-500 mt-1">
+                  {isExtracting
+                    ? 'Reading PDF...'
+                    : sampleName
+                      ? `${sampleName}: ${sampleLines.length} lines of text`
+                      : 'Pick one of the vendor’s PDF invoices to see its text and preview the layout'}
+                </p>
+              </div>
+
+              {sampleLines.length > 0 && (
+                <div className="max-h-64 overflow-auto border rounded-md bg-gray-50 p-2 font-mono text-xs">
+                  {sampleLines.map((line, index) => (
+                    <div
+                      key={index}
+                      className={linePattern?.test(line.text) ? 'bg-green-100 text-green-900' : 'text-gray-700'}
+                      title={`Page ${line.page}`}
+                    >
+                      {line.text.replace(/ /g, ' ')}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Header field → pattern */}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Header field</TableHead>
+                    <TableHead>Pattern (the first group is the value)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {PDF_HEADER_FIELDS.map(definition => (
+                    <TableRow key={definition.field}>
+                      <TableCell>
+                        {definition.label}
+                        {definition.required && <span className="text-red-500"> *</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={form.header_patterns[definition.field] || ''}
+                          onChange={(e) => updatePattern(definition.field, e.target.value)}
+                          placeholder="Not on this invoice"
+                          className="font-mono text-xs"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Line item pattern</label>
+                <textarea
+                  value={form.line_pattern}
+                  onChange={(e) => updateForm({ line_pattern: e.target.value })}
+                  rows={3}
+                  className="w-full p-2 border rounded-md font-mono text-xs"
+                  placeholder="^(?<productNumber>\d+)\s+(?<productDescription>.+?)\s+(?<qtyShipped>\d+)\s+(?<unitPrice>[\d,]+\.\d{2})$"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Named groups: {PDF_LINE_FIELDS.map(field => `${field.field}${field.required ? ' *' : ''}`).join(', ')}.
+                  A quantity (qtyShipped or qtyOrdered) is required. Wide gaps between columns are two spaces. Matching
+                  lines are highlighted in the sample above.
+                </p>
+              </div>
+
+              {/* Preview */}
+              {preview && (
+                <div className="space-y-4">
+                  {preview.map(({ invoice, review }, index) => (
+                    <div key={index} className="space-y-2">
+                      <div className="flex items-center space-x-2 text-sm text-gray-700">
+                        <span className="font-medium">{invoice.documentNumber || `Invoice ${index + 1}`}</span>
+                        {invoice.isCreditMemo && <Badge variant="outline">Credit</Badge>}
+                        <span>{invoice.lineItems.length} lines, {formatCurrency(invoice.netAmountAfterAdjustment)}</span>
+                        {review.needsReview && (
+                          <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">Needs review</Badge>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                        {review.fields.map(reading => (
+                          <div key={reading.field} className="flex justify-between">
+                            <span className="text-gray-500">{reading.label}</span>
+                            <span className={reading.confidence < PDF_REVIEW_THRESHOLD ? 'text-yellow-700' : 'text-gray-900'} title={reading.note || undefined}>
+                              {reading.value || '—'} ({Math.round(reading.confidence * 100)}%)
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      {review.lineIssues.length > 0 && (
+                        <ul className="text-xs text-yellow-800 space-y-1">
+                          {review.lineIssues.map((issue, issueIndex) => (
+                            <li key={issueIndex}>
+                              Page {issue.page}: {issue.reason}
+                              {issue.text && <span className="font-mono text-gray-500 ml-2">{issue.text}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {invoice.lineItems.length > 0 && (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Product</TableHead>
+                              <TableHead>Pack</TableHead>
+                              <TableHead className="text-right">Shipped</TableHead>
+                              <TableHead className="text-right">Unit price</TableHead>
+                              <TableHead className="text-right">Extended</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {invoice.lineItems.map((item, itemIndex) => (
+                              <TableRow key={itemIndex}>
+                                <TableCell>
+                                  <div className="font-medium">{item.productDescription}</div>
+                                  <div className="text-xs text-gray-500">#{item.productNumber}{item.productLabel ? ` · ${item.productLabel}` : ''}</div>
+                                </TableCell>
+                                <TableCell>{item.packingSize} {item.pricingUnit}</TableCell>
+                                <TableCell className="text-right">{item.qtyShipped}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(item.extendedPrice)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+                <Button variant="outline" onClick={handlePreview} disabled={sampleLines.length === 0}>
+                  <Eye className="h-4 w-4 mr-2" />
+                  Preview
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving} style={{ backgroundColor: '#f29d2c' }}>
+                  {isSaving ? 'Saving...' : 'Save layout'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Layouts */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle>Layouts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-500">Loading PDF layouts...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Layout</TableHead>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead>Identified by</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {layouts.map(layout => (
+                    <TableRow key={layout.id || layout.name}>
+                      <TableCell className="font-medium">
+                        {layout.name}
+                        {layout.builtin && <Badge variant="secondary" className="ml-2">Built in</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {layout.vendor_name}
+                        <span className="text-xs text-gray-500 ml-1">{layout.vendor_code}</span>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">&ldquo;{layout.identifier}&rdquo;</TableCell>
+                      <TableCell>{layout.date_format}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(layout, true)} title="Copy into a new layout">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          {!layout.builtin && (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => openEditor(layout)} title="Edit layout">
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(layout)} title="Delete layout">
+                                <Trash2 className="h-4 w-4 text-red-500" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
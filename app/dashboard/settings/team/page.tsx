@@ -0,0 +1,440 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Users, Pencil, Trash2, AlertCircle, ArrowLeft, Mail, CheckCircle, Copy } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { getLocations } from '@/lib/supabase/browser';
+import type { Location } from '@/lib/supabase/types';
+import type { MemberInput, OrganizationInvite, OrganizationMember } from '@/src/lib/organizations';
+import { ORGANIZATION_ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, seesAllLocations } from '@/src/lib/roles';
+
+interface InviteResult {
+  email: string;
+  inviteUrl: string;
+  emailed: boolean;
+  emailError: string | null;
+}
+
+const EMPTY_INVITE: MemberInput & { email: string } = { email: '', role: 'location_manager', locationIds: [] };
+
+export default function TeamPage() {
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [inviteForm, setInviteForm] = useState(EMPTY_INVITE);
+  const [inviteResult, setInviteResult] = useState<InviteResult | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+
+  const [editingMember, setEditingMember] = useState<OrganizationMember | null>(null);
+  const [memberForm, setMemberForm] = useState<MemberInput | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTeam = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/organization/members');
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading team failed with status ${response.status}`);
+      }
+
+      setMembers(body.members);
+      setInvites(body.invites);
+    } catch (err) {
+      console.error('❌ Error loading team:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load team');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTeam();
+    getLocations()
+      .then(setLocations)
+      .catch(err => console.error('❌ Error loading locations:', err));
+  }, [loadTeam]);
+
+  const request = async (url: string, init: RequestInit, action: string) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: init.body ? { 'Content-Type': 'application/json' } : undefined
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      throw new Error(body.error || `${action} failed with status ${response.status}`);
+    }
+
+    return body;
+  };
+
+  const handleInvite = async () => {
+    try {
+      setIsInviting(true);
+      setError(null);
+      setInviteResult(null);
+      const body = await request('/api/organization/invites', {
+        method: 'POST',
+        body: JSON.stringify(inviteForm)
+      }, 'Sending invite');
+
+      setInviteResult({
+        email: body.invite.email,
+        inviteUrl: body.inviteUrl,
+        emailed: body.emailed,
+        emailError: body.emailError
+      });
+      setInvites(current => [body.invite, ...current]);
+      setInviteForm(EMPTY_INVITE);
+    } catch (err) {
+      console.error('❌ Error sending invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send invite');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: OrganizationInvite) => {
+    if (!confirm(`Revoke the invite for ${invite.email}?`)) return;
+
+    try {
+      setError(null);
+      await request(`/api/organization/invites/${invite.id}`, { method: 'DELETE' }, 'Revoking invite');
+      setInvites(current => current.filter(item => item.id !== invite.id));
+    } catch (err) {
+      console.error('❌ Error revoking invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke invite');
+    }
+  };
+
+  const openMemberEditor = (member: OrganizationMember) => {
+    setEditingMember(member);
+    setMemberForm({ role: member.role, locationIds: member.location_ids });
+    setFormError(null);
+  };
+
+  const closeMemberEditor = () => {
+    setEditingMember(null);
+    setMemberForm(null);
+  };
+
+  const handleSaveMember = async () => {
+    if (!editingMember || !memberForm) return;
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+      await request(`/api/organization/members/${editingMember.user_id}`, {
+        method: 'PUT',
+        body: JSON.stringify(memberForm)
+      }, 'Saving member');
+
+      closeMemberEditor();
+      await loadTeam();
+    } catch (err) {
+      console.error('❌ Error saving member:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save member');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveMember = async (member: OrganizationMember) => {
+    if (!confirm(`Remove ${member.email || 'this member'} from the organization?`)) return;
+
+    try {
+      setError(null);
+      await request(`/api/organization/members/${member.user_id}`, { method: 'DELETE' }, 'Removing member');
+      setMembers(current => current.filter(item => item.user_id !== member.user_id));
+    } catch (err) {
+      console.error('❌ Error removing member:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const describeLocations = (role: OrganizationMember['role'], locationIds: string[]) => {
+    if (seesAllLocations(role)) return 'All locations';
+    const names = locationIds.map(id => locations.find(location => location.id === id)?.name || 'Unknown location');
+    return names.length > 0 ? names.join(', ') : 'No locations';
+  };
+
+  // Role picker and location checkboxes, shared by the invite form and the member editor
+  const renderMemberFields = (form: MemberInput, onChange: (changes: Partial<MemberInput>) => void) => (
+    <>
+      <div>
+        <label className="block text-sm font-medium mb-2">Role</label>
+        <select
+          value={form.role}
+          onChange={(e) => onChange({ role: e.target.value as MemberInput['role'] })}
+          className="w-full p-2 border rounded-md"
+        >
+          {ORGANIZATION_ROLES.map(role => (
+            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">{ROLE_DESCRIPTIONS[form.role]}</p>
+      </div>
+
+      {!seesAllLocations(form.role) && (
+        <div>
+          <label className="block text-sm font-medium mb-2">Locations</label>
+          <div className="space-y-1">
+            {locations.map(location => (
+              <label key={location.id} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.locationIds.includes(location.id)}
+                  onChange={(e) => onChange({
+                    locationIds: e.target.checked
+                      ? [...form.locationIds, location.id]
+                      : form.locationIds.filter(id => id !== location.id)
+                  })}
+                />
+                <span>{location.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Link href="/dashboard/settings" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Settings
+        </Link>
+
+        {/* Header */}
+        <div className="flex items-center space-x-2">
+          <Users className="h-6 w-6 text-orange-500" />
+          <h1 className="text-2xl font-bold text-gray-900">Team</h1>
+          <Badge variant="secondary">{members.length} members</Badge>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading team...</div>
+        ) : (
+          <>
+            {/* Invite */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle>Invite a teammate</CardTitle>
+                <p className="text-sm text-gray-500">
+                  They&apos;ll get an email with a link to join. Invites expire after 14 days.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4 max-w-lg">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Email</label>
+                  <Input
+                    type="email"
+                    value={inviteForm.email}
+                    onChange={(e) => setInviteForm(current => ({ ...current, email: e.target.value }))}
+                    placeholder="teammate@example.com"
+                  />
+                </div>
+
+                {renderMemberFields(inviteForm, changes => setInviteForm(current => ({ ...current, ...changes })))}
+
+                <Button
+                  onClick={handleInvite}
+                  disabled={isInviting || !inviteForm.email.trim()}
+                  style={{ backgroundColor: '#f29d2c' }}
+                >
+                  <Mail className="h-4 w-4 mr-1" />
+                  {isInviting ? 'Sending...' : 'Send invite'}
+                </Button>
+
+                {inviteResult && (
+                  <Alert variant={inviteResult.emailed ? 'default' : 'destructive'}>
+                    {inviteResult.emailed ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+                    <AlertDescription>
+                      <p>
+                        {inviteResult.emailed
+                          ? `Invite emailed to ${inviteResult.email}.`
+                          : `The invite was created but the email failed (${inviteResult.emailError}). Share the link yourself:`}
+                      </p>
+                      <div className="mt-2 flex items-center space-x-2">
+                        <Input readOnly value={inviteResult.inviteUrl} className="text-xs" />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigator.clipboard.writeText(inviteResult.inviteUrl)}
+                          title="Copy link"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Members */}
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle>Members</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Locations</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {members.map(member => (
+                      <TableRow key={member.user_id}>
+                        <TableCell className="font-medium">{member.email || '—'}</TableCell>
+                        <TableCell>
+                          <Badge variant={member.role === 'owner' ? 'default' : 'outline'}>{ROLE_LABELS[member.role]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {describeLocations(member.role, member.location_ids)}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-500">{formatDate(member.created_at)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => openMemberEditor(member)} title="Edit role">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleRemoveMember(member)} title="Remove">
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Pending invites */}
+            {invites.length > 0 && (
+              <Card className="bg-white">
+                <CardHeader>
+                  <CardTitle>Pending invites</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Locations</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invites.map(invite => (
+                        <TableRow key={invite.id}>
+                          <TableCell className="font-medium">{invite.email}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{ROLE_LABELS[invite.role]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600">
+                            {describeLocations(invite.role, invite.location_ids)}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-500">
+                            {new Date(invite.expires_at) < new Date()
+                              ? <Badge variant="destructive">Expired</Badge>
+                              : formatDate(invite.expires_at)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => handleRevokeInvite(invite)} title="Revoke">
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Member editor */}
+      <Dialog open={!!memberForm} onOpenChange={(open) => !open && closeMemberEditor()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit {editingMember?.email || 'member'}</DialogTitle>
+          </DialogHeader>
+
+          {memberForm && (
+            <div className="space-y-4">
+              {renderMemberFields(memberForm, changes => setMemberForm(current => current && { ...current, ...changes }))}
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeMemberEditor}>Cancel</Button>
+            <Button onClick={handleSaveMember} disabled={isSaving} style={{ backgroundColor: '#f29d2c' }}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
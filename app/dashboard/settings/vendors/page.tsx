@@ -0,0 +1,500 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Truck, Plus, Pencil, Trash2, AlertCircle, ArrowLeft, FileSearch, Eye } from 'lucide-react';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Input } from '@/src/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import type { ParsedInvoice } from '@/src/lib/csv-parser';
+import {
+  DATE_FORMATS,
+  INVOICE_FIELDS,
+  matchVendorFormats,
+  parseWithVendorFormat,
+  readCsvHeaders,
+  suggestColumnMapping,
+  type DateFormat,
+  type InvoiceField,
+  type VendorFormat,
+  type VendorFormatMatch
+} from '@/src/lib/vendor-formats';
+
+interface FormatForm {
+  name: string;
+  vendor_name: string;
+  vendor_code: string;
+  date_format: DateFormat;
+  columns: Partial<Record<InvoiceField, string>>;
+}
+
+const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  MDY: 'Month/Day/Year (03/14/2025)',
+  YMD: 'Year-Month-Day (2025-03-14)',
+  DMY: 'Day/Month/Year (14/03/2025)'
+};
+
+const PREVIEW_INVOICE_LIMIT = 5;
+
+const EMPTY_FORM: FormatForm = { name: '', vendor_name: '', vendor_code: '', date_format: 'MDY', columns: {} };
+
+function toVendorCode(vendorName: string): string {
+  return vendorName.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function formatCurrency(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+export default function VendorFormatsPage() {
+  const [formats, setFormats] = useState<VendorFormat[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FormatForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The sample export the mapping is built from, read in the browser
+  const [sampleName, setSampleName] = useState<string | null>(null);
+  const [sampleContent, setSampleContent] = useState<string | null>(null);
+  const [sampleHeaders, setSampleHeaders] = useState<string[]>([]);
+  const [previewInvoices, setPreviewInvoices] = useState<ParsedInvoice[] | null>(null);
+
+  const [testFileName, setTestFileName] = useState<string | null>(null);
+  const [testMatch, setTestMatch] = useState<VendorFormatMatch | null>(null);
+
+  const loadFormats = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/vendor-formats');
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading vendor formats failed with status ${response.status}`);
+      }
+
+      setFormats(body.formats);
+    } catch (err) {
+      console.error('❌ Error loading vendor formats:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load vendor formats');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFormats();
+  }, [loadFormats]);
+
+  const openEditor = (format?: VendorFormat) => {
+    setEditingId(format?.id || null);
+    setForm(format
+      ? { name: format.name, vendor_name: format.vendor_name, vendor_code: format.vendor_code, date_format: format.date_format, columns: { ...format.columns } }
+      : { ...EMPTY_FORM, columns: {} });
+    setFormError(null);
+    setSampleName(null);
+    setSampleContent(null);
+    setSampleHeaders(format ? Object.values(format.columns).filter((header): header is string => !!header) : []);
+    setPreviewInvoices(null);
+  };
+
+  const updateForm = (changes: Partial<FormatForm>) => {
+    setForm(current => current ? { ...current, ...changes } : current);
+    setPreviewInvoices(null);
+  };
+
+  const updateColumn = (field: InvoiceField, header: string) => {
+    setForm(current => current ? { ...current, columns: { ...current.columns, [field]: header } } : current);
+    setPreviewInvoices(null);
+  };
+
+  const handleSampleFile = async (file: File | undefined) => {
+    if (!file || !form) return;
+
+    const content = await file.text();
+    const headers = readCsvHeaders(content);
+    setSampleName(file.name);
+    setSampleContent(content);
+    setSampleHeaders(headers);
+    setPreviewInvoices(null);
+
+    // Suggest columns for a new mapping; an existing one keeps what was saved
+    if (Object.keys(form.columns).length === 0) {
+      updateForm({ columns: suggestColumnMapping(headers) });
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!form || !sampleContent) return;
+
+    try {
+      setFormError(null);
+      const invoices = await parseWithVendorFormat(sampleContent, {
+        ...form,
+        id: editingId,
+        vendor_code: form.vendor_code || toVendorCode(form.vendor_name),
+        builtin: false
+      });
+
+      if (invoices.length === 0) {
+        throw new Error('No invoices found with this mapping; check the invoice number column');
+      }
+
+      setPreviewInvoices(invoices);
+    } catch (err) {
+      console.error('❌ Error previewing vendor format:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to preview vendor format');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+      const response = await fetch(editingId ? `/api/vendor-formats/${editingId}` : '/api/vendor-formats', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, vendor_code: form.vendor_code || toVendorCode(form.vendor_name) })
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Saving vendor format failed with status ${response.status}`);
+      }
+
+      setForm(null);
+      await loadFormats();
+    } catch (err) {
+      console.error('❌ Error saving vendor format:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save vendor format');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (format: VendorFormat) => {
+    if (!format.id || !confirm(`Delete the ${format.name} format? Invoices already imported keep their vendor.`)) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/vendor-formats/${format.id}`, { method: 'DELETE' });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Deleting vendor format failed with status ${response.status}`);
+      }
+
+      setFormats(current => current.filter(existing => existing.id !== format.id));
+    } catch (err) {
+      console.error('❌ Error deleting vendor format:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete vendor format');
+    }
+  };
+
+  const handleTestFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const headers = readCsvHeaders(await file.text());
+    setTestFileName(file.name);
+    setTestMatch(matchVendorFormats(headers, formats)[0] || null);
+  };
+
+  const previewLines = (previewInvoices || []).flatMap(invoice => invoice.lineItems.map(item => ({ invoice, item })));
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Link href="/dashboard/settings" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Settings
+        </Link>
+
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Truck className="h-6 w-6 text-orange-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Vendor Formats</h1>
+          </div>
+          {!form && (
+            <Button onClick={() => openEditor()} style={{ backgroundColor: '#f29d2c' }}>
+              <Plus className="h-4 w-4 mr-2" />
+              New format
+            </Button>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-500">
+          Each distributor&apos;s CSV export is matched to a format by its column headers when it&apos;s imported.
+          Add a format for any distributor whose export isn&apos;t recognized yet.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Mapping editor */}
+        {form && (
+          <Card className="bg-white">
+            <CardHeader>
+              <CardTitle>{editingId ? `Edit ${form.name}` : 'New vendor format'}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Vendor</label>
+                  <Input
+                    value={form.vendor_name}
+                    onChange={(e) => updateForm({ vendor_name: e.target.value })}
+                    placeholder="e.g. Hill Country Produce"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Vendor code</label>
+                  <Input
+                    value={form.vendor_code}
+                    onChange={(e) => updateForm({ vendor_code: e.target.value.toUpperCase() })}
+                    placeholder={toVendorCode(form.vendor_name) || 'e.g. HILL_COUNTRY'}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Invoices are recorded against this vendor; formats can share one</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Format name</label>
+                  <Input
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    placeholder="e.g. Hill Country weekly invoice export"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Dates</label>
+                  <select
+                    value={form.date_format}
+                    onChange={(e) => updateForm({ date_format: e.target.value as DateFormat })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    {DATE_FORMATS.map(dateFormat => (
+                      <option key={dateFormat} value={dateFormat}>{DATE_FORMAT_LABELS[dateFormat]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Sample export</label>
+                <Input type="file" accept=".csv" onChange={(e) => handleSampleFile(e.target.files?.[0])} />
+                <p className="text-xs text-gray-500 mt-1">
+                  {sampleName
+                    ? `${sampleName}: ${sampleHeaders.length} columns`
+                    : 'Pick one of the vendor’s CSV files to choose columns from its header row and preview the result'}
+                </p>
+              </div>
+
+              {/* Field → column */}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice field</TableHead>
+                    <TableHead>Column in the export</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {INVOICE_FIELDS.map(definition => (
+                    <TableRow key={definition.field}>
+                      <TableCell>
+                        {definition.label}
+                        {definition.required && <span className="text-red-500"> *</span>}
+                      </TableCell>
+                      <TableCell>
+                        {sampleHeaders.length > 0 ? (
+                          <select
+                            value={form.columns[definition.field] || ''}
+                            onChange={(e) => updateColumn(definition.field, e.target.value)}
+                            className="w-full p-2 border rounded-md"
+                          >
+                            <option value="">Not in this export</option>
+                            {sampleHeaders.map(header => (
+                              <option key={header} value={header}>{header}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <Input
+                            value={form.columns[definition.field] || ''}
+                            onChange={(e) => updateColumn(definition.field, e.target.value)}
+                            placeholder="Column header"
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-gray-500">
+                Without a quantity ordered column, the quantity shipped is used for both. Without an extended price
+                or invoice total, they&apos;re worked out from quantity × unit price. Pack count and pack size in
+                separate columns are combined as 6/5 LB.
+              </p>
+
+              {/* Preview */}
+              {previewInvoices && (
+                <div className="space-y-2">
+                  <div className="text-sm text-gray-700">
+                    {previewInvoices.length} invoice{previewInvoices.length === 1 ? '' : 's'}, {previewLines.length} lines
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Document #</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Pack</TableHead>
+                        <TableHead className="text-right">Shipped</TableHead>
+                        <TableHead className="text-right">Unit price</TableHead>
+                        <TableHead className="text-right">Extended</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {previewInvoices.slice(0, PREVIEW_INVOICE_LIMIT).flatMap(invoice => invoice.lineItems.map((item, index) => (
+                        <TableRow key={`${invoice.documentNumber}-${index}`}>
+                          <TableCell>
+                            {invoice.documentNumber}
+                            {invoice.isCreditMemo && <Badge variant="outline" className="ml-2">Credit</Badge>}
+                          </TableCell>
+                          <TableCell>{invoice.documentDate}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{item.productDescription}</div>
+                            <div className="text-xs text-gray-500">#{item.productNumber}{item.productLabel ? ` · ${item.productLabel}` : ''}</div>
+                          </TableCell>
+                          <TableCell>{item.packingSize} {item.pricingUnit}</TableCell>
+                          <TableCell className="text-right">{item.qtyShipped}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(item.extendedPrice)}</TableCell>
+                        </TableRow>
+                      )))}
+                    </TableBody>
+                  </Table>
+                  {previewInvoices.length > PREVIEW_INVOICE_LIMIT && (
+                    <p className="text-xs text-gray-500">Showing the first {PREVIEW_INVOICE_LIMIT} invoices</p>
+                  )}
+                </div>
+              )}
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+                <Button variant="outline" onClick={handlePreview} disabled={!sampleContent}>
+                  <Eye className="h-4 w-4 mr-2" />
+                  Preview
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving} style={{ backgroundColor: '#f29d2c' }}>
+                  {isSaving ? 'Saving...' : 'Save format'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Formats */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle>Formats</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-500">Loading vendor formats...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Format</TableHead>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead className="text-right">Columns mapped</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {formats.map(format => (
+                    <TableRow key={format.id || format.name}>
+                      <TableCell className="font-medium">
+                        {format.name}
+                        {format.builtin && <Badge variant="secondary" className="ml-2">Built in</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {format.vendor_name}
+                        <span className="text-xs text-gray-500 ml-1">{format.vendor_code}</span>
+                      </TableCell>
+                      <TableCell>{format.date_format}</TableCell>
+                      <TableCell className="text-right">{Object.keys(format.columns).length}</TableCell>
+                      <TableCell className="text-right">
+                        {!format.builtin && (
+                          <div className="flex justify-end space-x-1">
+                            <Button variant="ghost" size="sm" onClick={() => openEditor(format)} title="Edit format">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(format)} title="Delete format">
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Detection check */}
+        <Card className="bg-white">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <FileSearch className="h-5 w-5 text-orange-500" />
+              <span>Check a file</span>
+            </CardTitle>
+            <p className="text-sm text-gray-500">See which format an export would be imported with.</p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input type="file" accept=".csv" onChange={(e) => handleTestFile(e.target.files?.[0])} />
+            {testFileName && (
+              testMatch && testMatch.missing.length === 0 ? (
+                <div className="text-sm text-green-700">
+                  {testFileName} matches <span className="font-medium">{testMatch.format.name}</span> ({testMatch.format.vendor_name})
+                </div>
+              ) : (
+                <div className="text-sm text-red-600">
+                  {testFileName} doesn&apos;t match any format
+                  {testMatch && `. Closest is ${testMatch.format.name}, missing ${testMatch.missing.join(', ')}`}
+                </div>
+              )
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { AlertCircle, CheckCircle, Users } from 'lucide-react';
+import { Button } from '@/src/components/ui/button';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import type { InviteSummary } from '@/src/lib/organizations';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/src/lib/roles';
+
+interface CurrentUser {
+  email: string | null;
+  organizationName: string | null;
+}
+
+export default function InvitePage() {
+  const token = useParams<{ token: string }>().token;
+  const [invite, setInvite] = useState<InviteSummary | null>(null);
+  // null while loading or when signed out
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      try {
+        const [inviteResponse, organizationResponse] = await Promise.all([
+          fetch(`/api/invites/${encodeURIComponent(token)}`),
+          fetch('/api/organization')
+        ]);
+
+        const inviteBody = await inviteResponse.json();
+        if (!inviteResponse.ok) {
+          throw new Error(inviteBody.error || `Loading invite failed with status ${inviteResponse.status}`);
+        }
+        setInvite(inviteBody.invite);
+
+        // 401 just means the visitor isn't signed in yet
+        if (organizationResponse.ok) {
+          const organizationBody = await organizationResponse.json();
+          setCurrentUser({
+            email: organizationBody.email,
+            organizationName: organizationBody.organization?.name || null
+          });
+        }
+      } catch (err) {
+        console.error('❌ Error loading invite:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load invite');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadInvite();
+  }, [token]);
+
+  const acceptInvite = async () => {
+    setIsAccepting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/invites/${encodeURIComponent(token)}`, { method: 'POST' });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || `Accepting invite failed with status ${response.status}`);
+      }
+      // Full reload so the sidebar and middleware pick up the new membership
+      window.location.href = '/dashboard';
+    } catch (err) {
+      console.error('❌ Error accepting invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept invite');
+      setIsAccepting(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <p className="text-sm text-gray-500">Loading invite...</p>;
+    }
+    if (!invite) {
+      return (
+        <Link href="/auth/signin" className="font-medium text-[#f29d2c] hover:text-[#e8912a]">
+          Back to sign in
+        </Link>
+      );
+    }
+    if (invite.accepted) {
+      return <p className="text-sm text-gray-600">This invite has already been used.</p>;
+    }
+    if (invite.expired) {
+      return <p className="text-sm text-gray-600">This invite has expired. Ask for a new one.</p>;
+    }
+    if (!currentUser) {
+      return (
+        <div className="space-y-3">
+          <Link href={`/auth/signup?invite=${encodeURIComponent(token)}`}>
+            <Button className="w-full" style={{ backgroundColor: '#f29d2c' }}>
+              Create account
+            </Button>
+          </Link>
+          <p className="text-sm text-gray-600">
+            Already have an account?{' '}
+            <Link href="/auth/signin" className="font-medium text-[#f29d2c] hover:text-[#e8912a]">
+              Sign in
+            </Link>
+            , then open this link again.
+          </p>
+        </div>
+      );
+    }
+    if (currentUser.organizationName) {
+      return (
+        <p className="text-sm text-gray-600">
+          You already belong to <strong>{currentUser.organizationName}</strong>.
+        </p>
+      );
+    }
+    return (
+      <div className="space-y-3">
+        {currentUser.email?.toLowerCase() !== invite.email && (
+          <p className="text-sm text-gray-600">
+            You&apos;re signed in as <strong>{currentUser.email}</strong>; this invite is for{' '}
+            <strong>{invite.email}</strong>.
+          </p>
+        )}
+        <Button
+          className="w-full"
+          disabled={isAccepting}
+          onClick={acceptInvite}
+          style={{ backgroundColor: '#f29d2c' }}
+        >
+          <CheckCircle className="h-4 w-4 mr-1" />
+          {isAccepting ? 'Joining...' : `Join ${invite.organizationName}`}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 text-center">
+        <div>
+          <img
+            src="/Artboard 8.png"
+            alt="Los Pinos"
+            className="mx-auto h-20 w-auto object-contain"
+          />
+          <Users className="mx-auto mt-6 h-10 w-10 text-[#f29d2c]" />
+          <h2 className="mt-4 text-2xl font-extrabold text-gray-900">
+            {invite ? `Join ${invite.organizationName}` : 'Team invite'}
+          </h2>
+          {invite && (
+            <>
+              <p className="mt-2 text-sm text-gray-600">
+                {invite.email} is invited as a {ROLE_LABELS[invite.role].toLowerCase()}.
+              </p>
+              <p className="mt-1 text-xs text-gray-500">{ROLE_DESCRIPTIONS[invite.role]}</p>
+            </>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="text-left">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
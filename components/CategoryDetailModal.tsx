@@ -5,6 +5,10 @@ import { X, Package, DollarSign, TrendingUp, Eye } from 'lucide-react';
 import { Badge } from '@/src/components/ui/badge';
 import { Button } from '@/src/components/ui/button';
 import type { ProductSummary } from '@/lib/supabase/types';
+import { exportTable, type ExportReport } from '@/src/lib/report-export';
+import { ExportMenu } from '@/components/ExportMenu';
+
+const EXPORT_CHART_PRODUCTS = 15;
 
 interface CategoryDetailModalProps {
   category: string;
@@ -48,6 +52,31 @@ export function CategoryDetailModal({
   // Sort products by total spend (highest first)
   const sortedProducts = [...products].sort((a, b) => b.total_spent - a.total_spent);
 
+  const buildExportReport = (): ExportReport => ({
+    title: `${category} Products`,
+    filename: `category-${category.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    description: [
+      `${products.length} products, ${formatCurrency(categoryTotal)} total spend, ${totalTransactions.toLocaleString()} orders`,
+      'Sorted by total spend, highest first'
+    ],
+    charts: [{
+      title: `Top ${EXPORT_CHART_PRODUCTS} products by spend`,
+      kind: 'bar',
+      valueType: 'currency',
+      points: sortedProducts.slice(0, EXPORT_CHART_PRODUCTS).map(product => ({ label: product.name, value: product.total_spent }))
+    }],
+    tables: [exportTable(category, [
+      { header: 'Rank', value: ({ rank }) => rank, type: 'number' },
+      { header: 'Product #', value: ({ product }) => product.product_number },
+      { header: 'Product', value: ({ product }) => product.name },
+      { header: 'Orders', value: ({ product }) => product.purchase_frequency, type: 'number' },
+      { header: 'Total Spend', value: ({ product }) => product.total_spent, type: 'currency' },
+      { header: 'Share', value: ({ product }) => categoryTotal > 0 ? Math.round(product.total_spent / categoryTotal * 1000) / 10 : 0, type: 'percent' },
+      { header: 'Avg Price', value: ({ product }) => product.avg_price || 0, type: 'currency' },
+      { header: 'Last Purchase', value: ({ product }) => product.last_purchase_date, type: 'date' }
+    ], sortedProducts.map((product, index) => ({ product, rank: index + 1 })))]
+  });
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
@@ -160,9 +189,12 @@ export function CategoryDetailModal({
             <span className="text-sm text-gray-600">
               Click on any product to view detailed purchase history
             </span>
-            <Button onClick={onClose} variant="outline">
-              Close
-            </Button>
+            <div className="flex items-center space-x-2">
+              <ExportMenu buildReport={buildExportReport} disabled={sortedProducts.length === 0} />
+              <Button onClick={onClose} variant="outline">
+                Close
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,271 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { GitCompareArrows, Check, X, Unlink, AlertCircle, PiggyBank } from 'lucide-react';
+import { Button } from '@/src/components/ui/button';
+import { Badge } from '@/src/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
+import { Alert, AlertDescription } from '@/src/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/src/components/ui/table';
+import { formatUnitPrice } from '@/src/lib/unit-pricing';
+import { MATCH_WINDOW_DAYS, sourceKey, type EquivalentItem, type ItemLinkStatus, type MatchSuggestion, type ProductSource } from '@/src/lib/item-matching';
+import { hasPermission, type OrganizationRole } from '@/src/lib/roles';
+
+const SUGGESTIONS_SHOWN = 10;
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+}
+
+function describeSource(source: ProductSource) {
+  return (
+    <div>
+      <div className="font-medium">{source.description}</div>
+      <div className="text-xs text-gray-500">
+        {source.vendorName} · #{source.productNumber} · {source.packSize || 'N/A'}{source.brand ? ` · ${source.brand}` : ''}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Equivalent items across vendors on the products page: the cheapest source
+ * per base unit for each confirmed item, and suggested matches to confirm or reject
+ */
+export function EquivalentItemsPanel() {
+  const [items, setItems] = useState<EquivalentItem[]>([]);
+  const [suggestions, setSuggestions] = useState<MatchSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [role, setRole] = useState<OrganizationRole | null>(null);
+  const canManagePurchasing = hasPermission(role, 'manage_purchasing');
+
+  const loadMatches = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/item-matches');
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Loading item matches failed with status ${response.status}`);
+      }
+
+      setItems(body.items);
+      setSuggestions(body.suggestions);
+    } catch (err) {
+      console.error('❌ Error loading item matches:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load item matches');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMatches();
+
+    fetch('/api/organization')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading organization failed with status ${response.status}`);
+        }
+        setRole(body.organization?.role || null);
+      })
+      .catch((err) => console.error('❌ Error loading organization:', err));
+  }, [loadMatches]);
+
+  const handleDecision = async (suggestion: MatchSuggestion, status: ItemLinkStatus) => {
+    try {
+      setError(null);
+      const response = await fetch('/api/item-matches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          vendorIdA: suggestion.productA.vendorId,
+          productNumberA: suggestion.productA.productNumber,
+          vendorIdB: suggestion.productB.vendorId,
+          productNumberB: suggestion.productB.productNumber,
+          status,
+          score: suggestion.score
+        })
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `Saving item match failed with status ${response.status}`);
+      }
+
+      await loadMatches();
+    } catch (err) {
+      console.error('❌ Error saving item match:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save item match');
+    }
+  };
+
+  const handleUnlink = async (item: EquivalentItem) => {
+    if (!confirm(`Split ${item.name} back into separate products?`)) return;
+
+    try {
+      setError(null);
+      for (const link of item.links) {
+        const response = await fetch(`/api/item-matches/${link.id}`, { method: 'DELETE' });
+        const body = await response.json();
+
+        if (!response.ok) {
+          throw new Error(body.error || `Unlinking items failed with status ${response.status}`);
+        }
+      }
+
+      await loadMatches();
+    } catch (err) {
+      console.error('❌ Error unlinking items:', err);
+      setError(err instanceof Error ? err.message : 'Failed to unlink items');
+    }
+  };
+
+  const totalSavings = items.reduce((sum, item) => sum + item.potentialSavings, 0);
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <GitCompareArrows className="h-5 w-5 text-orange-500" />
+            <span>Equivalent Items Across Vendors</span>
+          </div>
+          {totalSavings > 0 && (
+            <div className="flex items-center space-x-2 text-sm font-normal">
+              <PiggyBank className="h-4 w-4 text-green-600" />
+              <span className="text-gray-600">Potential savings, last {MATCH_WINDOW_DAYS} days:</span>
+              <span className="font-semibold text-green-700">{formatCurrency(totalSavings)}</span>
+            </div>
+          )}
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          The same item bought under different vendors&apos; product numbers, compared on the latest price per base unit.
+          Savings are what the last {MATCH_WINDOW_DAYS} days of purchases would have cost less from the cheapest source.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="p-4 text-center text-gray-500">Loading equivalent items...</div>
+        ) : (
+          <>
+            {items.length === 0 ? (
+              <div className="text-sm text-gray-500">
+                No equivalent items yet{suggestions.length > 0 ? '. Confirm a suggested match below to compare its sources.' : '.'}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Sources</TableHead>
+                    <TableHead className="text-right">Price / base unit</TableHead>
+                    <TableHead className="text-right">Potential savings</TableHead>
+                    {canManagePurchasing && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map(item => (
+                    <Fragment key={item.sources.map(sourceKey).join('|')}>
+                      {item.sources.map((source, index) => (
+                        <TableRow key={sourceKey(source)}>
+                          {index === 0 && (
+                            <TableCell rowSpan={item.sources.length} className="font-medium align-top">
+                              {item.name}
+                              <div className="text-xs text-gray-500">Cheapest: {item.cheapest.vendorName}</div>
+                            </TableCell>
+                          )}
+                          <TableCell>{describeSource(source)}</TableCell>
+                          <TableCell className="text-right">
+                            {formatUnitPrice(source.pricePerBaseUnit, source.baseUnit)}
+                            {sourceKey(source) === sourceKey(item.cheapest) ? (
+                              <Badge variant="secondary" className="ml-2 bg-green-50 text-green-700">Cheapest</Badge>
+                            ) : source.comparable ? (
+                              <span className="ml-2 text-xs text-red-600">+{source.premiumPercent}%</span>
+                            ) : (
+                              <span className="ml-2 text-xs text-gray-400">not comparable</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right text-green-700">
+                            {source.potentialSavings > 0 ? formatCurrency(source.potentialSavings) : '-'}
+                          </TableCell>
+                          {canManagePurchasing && index === 0 && (
+                            <TableCell rowSpan={item.sources.length} className="text-right align-top">
+                              <Button variant="ghost" size="sm" onClick={() => handleUnlink(item)} title="Split into separate products">
+                                <Unlink className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {suggestions.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-900">Suggested matches</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Looks like</TableHead>
+                      <TableHead>Why</TableHead>
+                      <TableHead className="text-right">Match</TableHead>
+                      {canManagePurchasing && <TableHead className="text-right">Same item?</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suggestions.slice(0, SUGGESTIONS_SHOWN).map(suggestion => (
+                      <TableRow key={`${sourceKey(suggestion.productA)}|${sourceKey(suggestion.productB)}`}>
+                        <TableCell>{describeSource(suggestion.productA)}</TableCell>
+                        <TableCell>{describeSource(suggestion.productB)}</TableCell>
+                        <TableCell className="text-xs text-gray-600">{suggestion.reasons.join('; ')}</TableCell>
+                        <TableCell className="text-right">{Math.round(suggestion.score * 100)}%</TableCell>
+                        {canManagePurchasing && (
+                          <TableCell className="text-right">
+                            <div className="flex justify-end space-x-1">
+                              <Button variant="ghost" size="sm" onClick={() => handleDecision(suggestion, 'CONFIRMED')} title="Same item">
+                                <Check className="h-4 w-4 text-green-600" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDecision(suggestion, 'REJECTED')} title="Different items">
+                                <X className="h-4 w-4 text-red-500" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {suggestions.length > SUGGESTIONS_SHOWN && (
+                  <p className="text-xs text-gray-500">
+                    Showing the best {SUGGESTIONS_SHOWN} of {suggestions.length} suggestions; more appear as these are decided
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/src/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/src/components/ui/dropdown-menu';
+import {
+  downloadReport,
+  EXPORT_FORMAT_LABELS,
+  type ExportFormat,
+  type ExportReport
+} from '@/src/lib/report-export';
+
+interface ExportMenuProps {
+  /** Called on click, so the export reflects what's on screen at that moment */
+  buildReport: () => ExportReport;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function ExportMenu({ buildReport, disabled, className }: ExportMenuProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(format);
+      await downloadReport(buildReport(), format);
+    } catch (error) {
+      console.error('❌ Error exporting report:', error);
+      alert(`Export failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || exporting !== null} className={className}>
+          <Download className="h-4 w-4 mr-1" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
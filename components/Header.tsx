@@ -1,17 +1,23 @@
 'use client';
 
-import { Bell, User, Menu, LogOut, Settings } from 'lucide-react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Bell, User, Menu, LogOut, Settings, CheckCheck } from 'lucide-react';
 import { Button } from '@/src/components/ui/button';
 import { Badge } from '@/src/components/ui/badge';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/src/components/ui/dropdown-menu';
 import { createClient } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
+import type { AlertNotification } from '@/src/lib/price-alerts';
+
+// An import raises alerts in a burst; refresh once it settles
+const REALTIME_REFRESH_DELAY_MS = 1000;
 
 interface HeaderProps {
   onMenuClick?: () => void;
@@ -19,6 +25,65 @@ interface HeaderProps {
 
 export function Header({ onMenuClick }: HeaderProps) {
   const router = useRouter();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (!response.ok) return;
+
+      const body = await response.json();
+      setUnreadCount(body.unreadCount);
+      setNotifications(body.alerts);
+    } catch (error) {
+      console.error('❌ Error loading notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+
+    const supabase = createClient();
+    const channel = supabase
+      .channel('header-price-alerts')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'price_alerts' }, () => {
+        if (refreshTimer.current) clearTimeout(refreshTimer.current);
+        refreshTimer.current = setTimeout(loadNotifications, REALTIME_REFRESH_DELAY_MS);
+      })
+      .subscribe();
+
+    return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+      supabase.removeChannel(channel);
+    };
+  }, [loadNotifications]);
+
+  const markRead = async (alertIds?: string[]) => {
+    try {
+      const response = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ alertIds })
+      });
+
+      if (!response.ok) {
+        const body = await response.json();
+        throw new Error(body.error || `Marking alerts read failed with status ${response.status}`);
+      }
+
+      await loadNotifications();
+    } catch (error) {
+      console.error('❌ Error marking alerts read:', error);
+    }
+  };
+
+  const openNotification = (alert: AlertNotification) => {
+    if (!alert.read) markRead([alert.id]);
+    const vendor = alert.vendor_id ? `&vendor=${encodeURIComponent(alert.vendor_id)}` : '';
+    router.push(`/dashboard/products?product=${encodeURIComponent(alert.product_number)}${vendor}`);
+  };
 
   const handleSignOut = async () => {
     try {
@@ -61,15 +126,66 @@ export function Header({ onMenuClick }: HeaderProps) {
 
       {/* Right section */}
       <div className="flex items-center space-x-3">
-        <Button variant="ghost" size="sm" className="relative text-white hover:bg-gray-700">
-          <Bell className="h-5 w-5" />
-          <Badge 
-            variant="destructive" 
-            className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs"
-          >
-            3
-          </Badge>
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="relative text-white hover:bg-gray-700">
+              <Bell className="h-5 w-5" />
+              {unreadCount > 0 && (
+                <Badge
+                  variant="destructive"
+                  className="absolute -top-1 -right-1 h-5 min-w-5 flex items-center justify-center px-1 text-xs"
+                >
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </Badge>
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-80">
+            <DropdownMenuLabel className="flex items-center justify-between">
+              <span>Price alerts</span>
+              {unreadCount > 0 && (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    markRead();
+                  }}
+                  className="flex items-center text-xs font-normal text-orange-600 hover:underline"
+                >
+                  <CheckCheck className="h-3 w-3 mr-1" />
+                  Mark all read
+                </button>
+              )}
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {notifications.length === 0 ? (
+              <div className="px-2 py-6 text-center text-sm text-gray-500">No open alerts</div>
+            ) : (
+              notifications.map(alert => (
+                <DropdownMenuItem
+                  key={alert.id}
+                  onClick={() => openNotification(alert)}
+                  className="flex items-start space-x-2"
+                >
+                  <span className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${alert.read ? 'bg-transparent' : 'bg-orange-500'}`} />
+                  <div className="min-w-0 flex-1">
+                    <div className={`truncate text-sm ${alert.read ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                      {alert.product_name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {alert.location_name} • {alert.alert_type === 'CONTRACT_OVERCHARGE'
+                        ? 'Over contract'
+                        : `${alert.price_change_percent > 0 ? '+' : ''}${alert.price_change_percent.toFixed(1)}%`}
+                    </div>
+                  </div>
+                </DropdownMenuItem>
+              ))
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => router.push('/dashboard/alerts')} className="justify-center text-sm">
+              View all alerts
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -1,7 +1,18 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { X, TrendingUp, TrendingDown, Package, MapPin, Calendar, DollarSign, BarChart3 } from 'lucide-react';
+import Link from 'next/link';
+import { X, TrendingUp, TrendingDown, Package, MapPin, Calendar, DollarSign, BarChart3, LineChart } from 'lucide-react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
 import {
   Dialog,
   DialogContent,
@@ -20,6 +31,15 @@ import {
 } from '@/src/components/ui/table';
 import type { ProductSummary, ProductPurchaseHistory } from '@/lib/supabase/types';
 import { getProductPurchaseHistory } from '@/lib/supabase/browser';
+import { exportTable, type ExportReport } from '@/src/lib/report-export';
+import { ExportMenu } from '@/components/ExportMenu';
+import {
+  FORECAST_METHOD_LABELS,
+  MAX_FORECAST_HORIZON,
+  MIN_FORECAST_MONTHS,
+  forecastChartRows,
+  forecastPackPrice
+} from '@/src/lib/price-forecast';
 
 interface ProductDetailModalProps {
   product: ProductSummary;
@@ -84,13 +104,14 @@ const _mockPurchaseHistory: ProductPurchaseHistory[] = [
 export function ProductDetailModal({ product, isOpen, onClose }: ProductDetailModalProps) {
   const [purchaseHistory, setPurchaseHistory] = useState<ProductPurchaseHistory[]>([]);
   const [loading, setLoading] = useState(true);
+  const [forecastMonths, setForecastMonths] = useState(MAX_FORECAST_HORIZON);
 
   const loadPurchaseHistory = useCallback(async () => {
     try {
       setLoading(true);
       console.log('Loading purchase history for product:', product.product_number);
       
-      const history = await getProductPurchaseHistory(product.product_number);
+      const history = await getProductPurchaseHistory(product.product_number, product.vendor_id);
       console.log('Loaded purchase history:', history.length, 'records');
       
       if (history.length === 0) {
@@ -106,7 +127,7 @@ export function ProductDetailModal({ product, isOpen, onClose }: ProductDetailMo
     } finally {
       setLoading(false);
     }
-  }, [product.product_number]);
+  }, [product.product_number, product.vendor_id]);
 
   useEffect(() => {
     if (isOpen && product) {
@@ -135,21 +156,73 @@ export function ProductDetailModal({ product, isOpen, onClose }: ProductDetailMo
   };
 
   // Calculate summary statistics from purchase history
-  const totalOrders = purchaseHistory.length;
+  // Credit memo lines have negative quantities and amounts, so totals are net of returns
+  const purchases = purchaseHistory.filter(item => !item.is_credit);
+  const totalOrders = purchases.length;
   const totalQuantity = purchaseHistory.reduce((sum, item) => sum + item.quantity, 0);
   const totalSpend = purchaseHistory.reduce((sum, item) => sum + item.extended_price, 0);
-  const averagePrice = totalQuantity > 0 
-    ? purchaseHistory.reduce((sum, item) => sum + (item.unit_price * item.quantity), 0) / totalQuantity 
+  const purchasedQuantity = purchases.reduce((sum, item) => sum + item.quantity, 0);
+  const averagePrice = purchasedQuantity > 0 
+    ? purchases.reduce((sum, item) => sum + (item.unit_price * item.quantity), 0) / purchasedQuantity 
     : 0;
 
   // Calculate price range
-  const prices = purchaseHistory.map(item => item.unit_price);
+  const prices = purchases.map(item => item.unit_price);
   const minPrice = prices.length > 0 ? Math.min(...prices) : 0;
   const maxPrice = prices.length > 0 ? Math.max(...prices) : 0;
   const overallChange = prices.length > 0 && minPrice > 0 
     ? ((maxPrice - minPrice) / minPrice * 100) 
     : 0;
 
+  const priceForecast = forecastPackPrice(
+    purchases.map(item => ({
+      date: item.invoice_date,
+      price: item.unit_price,
+      quantity: item.quantity,
+      pack_size: item.pack_size
+    })),
+    { horizon: forecastMonths }
+  );
+  const forecastRows = forecastChartRows(priceForecast.history, priceForecast.forecast);
+
+  // Purchase history as listed, oldest first, with each purchase's change from the one before
+  const buildExportReport = (): ExportReport => {
+    let previousPrice: number | null = null;
+    const rows = purchaseHistory.map(item => {
+      const change = !item.is_credit && previousPrice !== null && previousPrice > 0
+        ? ((item.unit_price - previousPrice) / previousPrice) * 100
+        : null;
+      if (!item.is_credit) previousPrice = item.unit_price;
+      return { item, change };
+    });
+
+    return {
+      title: `${product.product_number} ${product.name}`,
+      filename: `purchase-history-${product.product_number}`,
+      description: [
+        `${totalOrders} purchases, ${formatCurrency(totalSpend)} net spend`,
+        `Price range ${formatCurrency(minPrice)} to ${formatCurrency(maxPrice)}`
+      ],
+      charts: [{
+        title: 'Unit price per purchase',
+        kind: 'line',
+        valueType: 'currency',
+        points: purchases.map(item => ({ label: formatDate(item.invoice_date), value: item.unit_price }))
+      }],
+      tables: [exportTable('Purchase History', [
+        { header: 'Date', value: ({ item }) => item.invoice_date, type: 'date' },
+        { header: 'Location', value: ({ item }) => item.location_name },
+        { header: 'Invoice', value: ({ item }) => item.document_number.split('.')[0] },
+        { header: 'Type', value: ({ item }) => item.is_credit ? 'Credit' : 'Purchase' },
+        { header: 'Pack Size', value: ({ item }) => item.pack_size },
+        { header: 'Pricing Unit', value: ({ item }) => item.pricing_unit },
+        { header: 'Unit Price', value: ({ item }) => item.unit_price, type: 'currency' },
+        { header: 'Quantity', value: ({ item }) => item.quantity, type: 'number' },
+        { header: 'Extended Price', value: ({ item }) => item.extended_price, type: 'currency' },
+        { header: 'Change', value: ({ change }) => change === null ? null : Math.round(change * 10) / 10, type: 'percent' }
+      ], rows)]
+    };
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -178,12 +251,15 @@ export function ProductDetailModal({ product, isOpen, onClose }: ProductDetailMo
                   </div>
                 </div>
               </div>
-              <button
-                onClick={onClose}
-                className="rounded-full p-2 hover:bg-gray-200 transition-colors"
-              >
-                <X className="h-5 w-5 text-gray-500" />
-              </button>
+              <div className="flex items-center space-x-2">
+                <ExportMenu buildReport={buildExportReport} disabled={loading || purchaseHistory.length === 0} />
+                <button
+                  onClick={onClose}
+                  className="rounded-full p-2 hover:bg-gray-200 transition-colors"
+                >
+                  <X className="h-5 w-5 text-gray-500" />
+                </button>
+              </div>
             </div>
           </DialogHeader>
         </div>
@@ -251,6 +327,88 @@ export function ProductDetailModal({ product, isOpen, onClose }: ProductDetailMo
             </CardContent>
           </Card>
 
+          {/* Price Trend & Forecast */}
+          <Card className="border-0 shadow-md">
+            <CardHeader className="bg-gradient-to-r from-orange-50 to-amber-50 rounded-t-lg border-b">
+              <CardTitle className="flex items-center justify-between text-gray-800">
+                <div className="flex items-center space-x-2">
+                  <LineChart className="h-5 w-5 text-orange-600" />
+                  <span>Price Trend &amp; Forecast</span>
+                  {priceForecast.pack_size && (
+                    <Badge variant="outline" className="text-xs">{priceForecast.pack_size}</Badge>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1">
+                  {Array.from({ length: MAX_FORECAST_HORIZON }, (_, index) => index + 1).map(months => (
+                    <button
+                      key={months}
+                      onClick={() => setForecastMonths(months)}
+                      className={`px-2 py-1 text-xs rounded-md border ${
+                        forecastMonths === months
+                          ? 'bg-orange-500 text-white border-orange-500'
+                          : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      {months} mo
+                    </button>
+                  ))}
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-6">
+              {loading ? (
+                <div className="flex items-center justify-center h-64 text-gray-500">Loading price history...</div>
+              ) : !priceForecast.forecast ? (
+                <div className="flex items-center justify-center h-64 text-gray-500 text-sm">
+                  A forecast needs at least {MIN_FORECAST_MONTHS} months of purchases in this pack size.
+                </div>
+              ) : (
+                <>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={forecastRows}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                        <YAxis tickFormatter={formatCurrency} tick={{ fontSize: 12 }} width={80} />
+                        <Tooltip
+                          formatter={(value: number | [number, number], name: string) => [
+                            Array.isArray(value)
+                              ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}`
+                              : formatCurrency(value),
+                            name
+                          ]}
+                          labelStyle={{ color: '#374151' }}
+                        />
+                        <Area
+                          type="monotone"
+                          dataKey="band"
+                          name={`${Math.round(priceForecast.forecast.confidence * 100)}% range`}
+                          stroke="none"
+                          fill="#f29d2c"
+                          fillOpacity={0.15}
+                        />
+                        <Line type="monotone" dataKey="actual" name="Avg unit price" stroke="#2563eb" strokeWidth={2} dot={{ r: 3 }} />
+                        <Line
+                          type="monotone"
+                          dataKey="forecast"
+                          name="Forecast"
+                          stroke="#f29d2c"
+                          strokeWidth={2}
+                          strokeDasharray="5 5"
+                          dot={{ r: 3 }}
+                        />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Monthly average unit price; forecast by {FORECAST_METHOD_LABELS[priceForecast.forecast.method]}.
+                    The shaded range is where {Math.round(priceForecast.forecast.confidence * 100)}% of prices should land.
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Purchase History Table */}
           <Card className="border-0 shadow-md">
             <div className="bg-gradient-to-r from-slate-50 to-gray-100 px-6 py-4 rounded-t-lg border-b">
@@ -299,8 +457,10 @@ export function ProductDetailModal({ product, isOpen, onClose }: ProductDetailMo
                   <TableBody>
                     {purchaseHistory.map((item, index) => {
                       // Calculate price change properly - since data is chronologically sorted,
-                      // we want to compare with the previous chronological purchase (index - 1)
-                      const prevItem = index > 0 ? purchaseHistory[index - 1] : null;
+                      // we want to compare with the previous chronological purchase, skipping returns
+                      const prevItem = item.is_credit
+                        ? null
+                        : purchaseHistory.slice(0, index).filter(previous => !previous.is_credit).pop() || null;
                       
                       // Fix price change calculation to handle edge cases
                       let priceChange: number | null = 0;
@@ -324,13 +484,18 @@ export function ProductDetailModal({ product, isOpen, onClose }: ProductDetailMo
                             {formatDate(item.invoice_date)}
                           </TableCell>
                           <TableCell>
-                            <a 
-                              href="#" 
-                              className="text-blue-600 hover:text-blue-800 hover:underline text-sm font-medium transition-colors"
-                              onClick={(e) => e.preventDefault()}
-                            >
-                              {item.document_number.split('.')[0]} ↗
-                            </a>
+                            {item.invoice_id ? (
+                              <Link
+                                href={`/dashboard/invoices/${item.invoice_id}?product=${encodeURIComponent(product.product_number)}`}
+                                className="text-blue-600 hover:text-blue-800 hover:underline text-sm font-medium transition-colors"
+                              >
+                                {item.document_number.split('.')[0]} ↗
+                              </Link>
+                            ) : (
+                              <span className="text-gray-700 text-sm font-medium">
+                                {item.document_number.split('.')[0]}
+                              </span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200 font-medium">
@@ -347,7 +512,11 @@ export function ProductDetailModal({ product, isOpen, onClose }: ProductDetailMo
                             {formatCurrency(item.extended_price)}
                           </TableCell>
                           <TableCell className="text-center">
-                            {prevItem ? (
+                            {item.is_credit ? (
+                              <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                                Credit
+                              </Badge>
+                            ) : prevItem ? (
                               priceChange === null ? (
                                 // Handle "New Price" case (after zero price)
                                 <div className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-semibold bg-blue-50 text-blue-700">
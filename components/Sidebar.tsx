@@ -1,8 +1,10 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/src/lib/utils';
+import { canOpenRoute, ROLE_LABELS, type OrganizationRole } from '@/src/lib/roles';
 import { 
   Package, 
   BarChart3, 
@@ -12,7 +14,12 @@ import {
   Home,
   TrendingUp,
   MapPin,
-  DollarSign
+  DollarSign,
+  Handshake,
+  Truck,
+  Users,
+  Wallet,
+  ChefHat
 } from 'lucide-react';
 
 const navigation = [
@@ -51,11 +58,36 @@ const navigation = [
     href: '/dashboard/locations',
     icon: MapPin,
   },
+  {
+    name: 'Fulfillment',
+    href: '/dashboard/fulfillment',
+    icon: Truck,
+  },
+  {
+    name: 'Contracts',
+    href: '/dashboard/contracts',
+    icon: Handshake,
+  },
+  {
+    name: 'Budgets',
+    href: '/dashboard/budgets',
+    icon: Wallet,
+  },
+  {
+    name: 'Recipes',
+    href: '/dashboard/recipes',
+    icon: ChefHat,
+  },
   {
     name: 'Cost Analysis',
     href: '/dashboard/costs',
     icon: DollarSign,
   },
+  {
+    name: 'Team',
+    href: '/dashboard/settings/team',
+    icon: Users,
+  },
   {
     name: 'Settings',
     href: '/dashboard/settings',
@@ -63,6 +95,21 @@ const navigation = [
   },
 ];
 
+interface OrganizationSummary {
+  name: string;
+  role: OrganizationRole;
+  locationIds: string[];
+}
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(word => word[0].toUpperCase())
+    .join('');
+}
+
 interface SidebarProps {
   isOpen?: boolean;
   onClose?: () => void;
@@ -70,6 +117,22 @@ interface SidebarProps {
 
 export function Sidebar({ isOpen = true, onClose }: SidebarProps) {
   const pathname = usePathname();
+  const [organization, setOrganization] = useState<OrganizationSummary | null>(null);
+
+  useEffect(() => {
+    fetch('/api/organization')
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Loading organization failed with status ${response.status}`);
+        }
+        setOrganization(body.organization);
+      })
+      .catch((err) => console.error('❌ Error loading organization:', err));
+  }, []);
+
+  // Pages the role can't use are hidden; the middleware redirects them anyway
+  const visibleNavigation = navigation.filter(item => canOpenRoute(organization?.role, item.href));
 
   return (
     <>
@@ -90,7 +153,7 @@ export function Sidebar({ isOpen = true, onClose }: SidebarProps) {
       >
         {/* Navigation */}
         <nav className="flex-1 px-4 py-6 space-y-1">
-          {navigation.map((item) => {
+          {visibleNavigation.map((item) => {
             const isActive = pathname === item.href;
             return (
               <Link
@@ -133,15 +196,19 @@ export function Sidebar({ isOpen = true, onClose }: SidebarProps) {
         <div className="px-4 py-4 border-t border-gray-700">
           <div className="flex items-center space-x-3 px-3 py-2">
             <div className="w-8 h-8 bg-green-800 rounded-full flex items-center justify-center">
-              <span className="text-sm font-medium text-green-300">LP</span>
+              <span className="text-sm font-medium text-green-300">
+                {organization ? initials(organization.name) : ''}
+              </span>
             </div>
             <div className="flex-1 min-w-0">
               <p className="text-sm font-medium text-white truncate">
-                Los Pinos Restaurants
-              </p>
-              <p className="text-xs text-gray-400 truncate">
-                2 Locations
+                {organization?.name}
               </p>
+              {organization && (
+                <p className="text-xs text-gray-400 truncate">
+                  {ROLE_LABELS[organization.role]} • {organization.locationIds.length} {organization.locationIds.length === 1 ? 'Location' : 'Locations'}
+                </p>
+              )}
             </div>
           </div>
         </div>
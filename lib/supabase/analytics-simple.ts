@@ -1,5 +1,16 @@
 import { getProductsSummary, supabase } from './browser';
-import type { ProductSummary } from './types';
+import type { AnalyticsScope, ProductSummary } from './types';
+import { normalizeUnitPrice, type BaseUnit } from '@/src/lib/unit-pricing';
+import { evaluateAlertRules, loadAlertRules, type PricePoint } from '@/src/lib/alert-rules';
+import {
+  addMonths,
+  forecastPackPrice,
+  monthlyTotal,
+  toMonth,
+  type ForecastOptions,
+  type MonthlyValue,
+  type PackPriceForecast
+} from '@/src/lib/price-forecast';
 
 // Simplified dashboard analytics that work with existing data structures
 
@@ -10,6 +21,14 @@ export interface DashboardMetrics {
   totalLocations: number;
   avgOrderValue: number;
   avgProductsPerInvoice: number;
+  totalCredits: number;
+}
+
+export interface InvoiceTotals {
+  invoiceCount: number;
+  creditMemoCount: number;
+  totalSpend: number;
+  totalCredits: number;
 }
 
 export interface SpendingByCategory {
@@ -60,6 +79,17 @@ export interface MonthlySpendTrend {
   unique_products: number;
 }
 
+export interface CategoryMonthlySpend {
+  category: string;
+  total_spend: number;
+  months: MonthlyValue[];
+}
+
+export interface ProductPriceForecast extends PackPriceForecast {
+  product_number: string;
+  last_price: number;
+}
+
 export interface PriceIncrease {
   product_number: string;
   name: string;
@@ -82,6 +112,7 @@ export interface PackSizeChange {
   pack_sizes: string[];
   current_pack: string;
   current_price: number;
+  base_unit: BaseUnit;
   per_unit_comparison: {
     pack_size: string;
     unit_price: number;
@@ -102,12 +133,47 @@ export interface RecentActivity {
   processing_status: string;
 }
 
-// Get dashboard metrics using existing product data
-export async function getDashboardMetrics(): Promise<DashboardMetrics> {
+// Get invoice and credit memo totals. Credit memos carry negative amounts, so
+// totalSpend is already net of refunds; totalCredits is the refunded amount.
+export async function getInvoiceTotals(scope: AnalyticsScope = {}): Promise<InvoiceTotals> {
+  let query = (scope.client || supabase)
+    .from('invoices')
+    .select('net_amount, document_type');
+
+  if (scope.locationId) query = query.eq('location_id', scope.locationId);
+  if (scope.dateFrom) query = query.gte('invoice_date', scope.dateFrom);
+  if (scope.dateTo) query = query.lte('invoice_date', scope.dateTo);
+
+  const { data: invoices, error } = await query;
+
+  if (error) {
+    console.error('❌ Error fetching invoice totals:', error);
+    throw error;
+  }
+
+  const totals: InvoiceTotals = { invoiceCount: 0, creditMemoCount: 0, totalSpend: 0, totalCredits: 0 };
+
+  (invoices || []).forEach((invoice) => {
+    const amount = (invoice.net_amount as number) || 0;
+    totals.totalSpend += amount;
+
+    if (invoice.document_type === 'CREDIT_MEMO') {
+      totals.creditMemoCount += 1;
+      totals.totalCredits += Math.abs(amount);
+    } else {
+      totals.invoiceCount += 1;
+    }
+  });
+
+  return totals;
+}
+
+// Get dashboard metrics from invoice totals and product summaries, optionally for one location and/or period
+export async function getDashboardMetrics(scope: AnalyticsScope = {}): Promise<DashboardMetrics> {
   try {
-    console.log('📊 Getting dashboard metrics from product summaries...');
+    console.log('📊 Getting dashboard metrics from invoices and product summaries...');
     
-    const products = await getProductsSummary();
+    const [products, totals] = await Promise.all([getProductsSummary(scope), getInvoiceTotals(scope)]);
     console.log('✅ Got product summaries:', products.length, 'products');
     
     if (!products || products.length === 0) {
@@ -118,14 +184,15 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
         totalSpend: 0,
         totalLocations: 0,
         avgOrderValue: 0,
-        avgProductsPerInvoice: 0
+        avgProductsPerInvoice: 0,
+        totalCredits: 0
       };
     }
 
-    // Calculate metrics from product summaries
+    // Spend is net of credit memos; credit memos aren't orders, so they don't count as invoices
     const totalProducts = products.length;
-    const totalSpend = products.reduce((sum: number, product: ProductSummary) => sum + product.total_spent, 0);
-    const totalInvoices = products.reduce((sum: number, product: ProductSummary) => sum + product.purchase_frequency, 0);
+    const totalSpend = totals.totalSpend;
+    const totalInvoices = totals.invoiceCount;
     
     // Get unique locations
     const allLocations = products.flatMap((p: ProductSummary) => p.locations);
@@ -138,6 +205,7 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
       totalProducts,
       totalInvoices,
       totalSpend: totalSpend.toFixed(2),
+      totalCredits: totals.totalCredits.toFixed(2),
       totalLocations: uniqueLocations,
       avgOrderValue: avgOrderValue.toFixed(2)
     });
@@ -148,7 +216,8 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
       totalSpend,
       totalLocations: uniqueLocations,
       avgOrderValue,
-      avgProductsPerInvoice
+      avgProductsPerInvoice,
+      totalCredits: totals.totalCredits
     };
   } catch (error) {
     console.error('❌ Error calculating dashboard metrics:', error);
@@ -156,7 +225,7 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
   }
 }
 
-// Get spending by category from product summaries
+// Get spending by category from product summaries (total_spent is net of credit memos)
 export async function getSpendingByCategory(): Promise<SpendingByCategory[]> {
   try {
     console.log('📈 Getting spending by category...');
@@ -200,11 +269,11 @@ export async function getSpendingByCategory(): Promise<SpendingByCategory[]> {
 }
 
 // Get top spending products - using real data from getProductsSummary
-export async function getTopSpendingProducts(limit: number = 10): Promise<TopSpendingProducts[]> {
+export async function getTopSpendingProducts(limit: number = 10, scope: AnalyticsScope = {}): Promise<TopSpendingProducts[]> {
   try {
     console.log('🎯 Getting top spending products...');
     
-    const products = await getProductsSummary();
+    const products = await getProductsSummary(scope);
     if (!products || products.length === 0) {
       return [];
     }
@@ -232,41 +301,100 @@ export async function getTopSpendingProducts(limit: number = 10): Promise<TopSpe
   }
 }
 
-// Get price alerts (products with high variance)
-export async function getPriceAlerts(threshold: number = 15): Promise<PriceAlert[]> {
+// Get price alerts: each product's latest purchase at each location, evaluated against the alert rules
+export async function getPriceAlerts(): Promise<PriceAlert[]> {
   try {
     console.log('🚨 Getting price alerts...');
-    
-    const products = await getProductsSummary();
-    if (!products || products.length === 0) {
+
+    const rules = await loadAlertRules(supabase);
+
+    const { data: invoiceItems, error } = await supabase
+      .from('invoice_items')
+      .select(`
+        product_number,
+        product_description,
+        product_category,
+        unit_price,
+        qty_shipped,
+        invoice:invoices!inner(
+          invoice_date,
+          document_type,
+          location_id,
+          location:locations(name)
+        )
+      `)
+      .gt('unit_price', 0)
+      .neq('invoice.document_type', 'CREDIT_MEMO'); // Returns aren't price points
+
+    if (error) {
+      console.error('❌ Error fetching invoice items for price alerts:', error);
       return [];
     }
 
+    // Group purchases by product + location; baselines are per location
+    const purchases = new Map<string, {
+      product_number: string;
+      name: string;
+      category: string;
+      location_id: string;
+      location_name: string;
+      points: PricePoint[];
+    }>();
+
+    (invoiceItems || []).forEach((item) => {
+      const invoice = item.invoice as unknown as Record<string, unknown>;
+      const locationId = invoice?.location_id as string;
+      const key = `${item.product_number}|${locationId}`;
+
+      if (!purchases.has(key)) {
+        purchases.set(key, {
+          product_number: item.product_number,
+          name: item.product_description,
+          category: item.product_category || 'Other',
+          location_id: locationId,
+          location_name: ((invoice?.location as Record<string, unknown>)?.name as string) || 'Unknown',
+          points: []
+        });
+      }
+
+      purchases.get(key)!.points.push({
+        price: item.unit_price,
+        date: invoice?.invoice_date as string,
+        quantity: item.qty_shipped
+      });
+    });
+
     const alerts: PriceAlert[] = [];
-    
-    products.forEach((product: ProductSummary) => {
-      if (product.min_price && product.max_price && product.min_price > 0) {
-        const priceChange = product.max_price - product.min_price;
-        const priceChangePercent = (priceChange / product.min_price) * 100;
-        
-        if (priceChangePercent >= threshold) {
-          alerts.push({
-            product_number: product.product_number,
-            name: product.name,
-            category: product.category,
-            current_price: product.last_price,
-            previous_price: product.min_price,
-            price_change: priceChange,
-            price_change_percent: priceChangePercent,
-            last_purchase_date: product.last_purchase_date,
-            location_name: product.locations[0] || 'Unknown'
-          });
-        }
+
+    purchases.forEach((product) => {
+      if (product.points.length < 2) return;
+
+      const points = product.points.sort((a, b) => a.date.localeCompare(b.date));
+      const latest = points[points.length - 1];
+      const evaluation = evaluateAlertRules(
+        rules,
+        { productNumber: product.product_number, category: product.category, locationId: product.location_id },
+        latest,
+        points.slice(0, -1)
+      );
+
+      if (evaluation) {
+        alerts.push({
+          product_number: product.product_number,
+          name: product.name,
+          category: product.category,
+          current_price: latest.price,
+          previous_price: evaluation.baselinePrice,
+          price_change: evaluation.changeAmount,
+          price_change_percent: evaluation.changePercent,
+          last_purchase_date: latest.date,
+          location_name: product.location_name
+        });
       }
     });
 
     console.log('✅ Found price alerts:', alerts.length);
-    return alerts.sort((a, b) => b.price_change_percent - a.price_change_percent);
+    return alerts.sort((a, b) => Math.abs(b.price_change_percent) - Math.abs(a.price_change_percent));
   } catch (error) {
     console.error('❌ Error getting price alerts:', error);
     throw error;
@@ -284,6 +412,7 @@ export async function getLocationComparison(): Promise<LocationComparison[]> {
       .select(`
         net_amount,
         invoice_date,
+        document_type,
         location:locations!inner(name)
       `)
       .order('invoice_date');
@@ -320,8 +449,11 @@ export async function getLocationComparison(): Promise<LocationComparison[]> {
       }
       
       const stats = locationStats.get(locationName)!;
+      // Credit memos net out of spend but aren't counted as invoices
       stats.total_spend += (invoice.net_amount as number) || 0;
-      stats.invoice_count += 1;
+      if (invoice.document_type !== 'CREDIT_MEMO') {
+        stats.invoice_count += 1;
+      }
       stats.invoice_dates.push(invoice.invoice_date as string);
       
       // Track latest invoice date
@@ -394,6 +526,7 @@ export async function getMonthlySpendTrends(months: number = 12): Promise<Monthl
       .select(`
         invoice_date,
         net_amount,
+        document_type,
         location:locations(name)
       `)
       .order('invoice_date');
@@ -436,7 +569,9 @@ export async function getMonthlySpendTrends(months: number = 12): Promise<Monthl
       
       const monthData = monthlyData.get(monthKey)!;
       monthData.total_spend += invoice.net_amount || 0;
-      monthData.invoice_count += 1;
+      if (invoice.document_type !== 'CREDIT_MEMO') {
+        monthData.invoice_count += 1;
+      }
       monthData.invoices.push(invoice);
       
       // Track unique locations
@@ -477,13 +612,142 @@ export async function getMonthlySpendTrends(months: number = 12): Promise<Monthl
   }
 }
 
-// Get products with segmented price analysis (same pack size increases)
-export async function getPriceIncreases(limit: number = 6): Promise<PriceIncrease[]> {
+// Net line item spend per category per month over the last N months, highest
+// spend first, for the spend forecast. Every category covers the same months.
+export async function getMonthlyCategorySpend(months: number = 24, scope: AnalyticsScope = {}): Promise<CategoryMonthlySpend[]> {
+  try {
+    console.log('📅 Getting monthly spend by category...');
+
+    const since = `${addMonths(toMonth(new Date().toISOString()), -(months - 1))}-01`;
+    const pageSize = 1000;
+    const items: { product_category: string | null; extended_price: number; invoice_date: string }[] = [];
+
+    for (let from = 0; ; from += pageSize) {
+      let query = (scope.client || supabase)
+        .from('invoice_items')
+        .select('product_category, extended_price, invoice:invoices!inner(invoice_date, location_id)')
+        .gte('invoice.invoice_date', since)
+        .order('id')
+        .range(from, from + pageSize - 1);
+
+      if (scope.locationId) query = query.eq('invoice.location_id', scope.locationId);
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('❌ Error fetching invoice items for category spend:', error);
+        return [];
+      }
+
+      (data || []).forEach(item => items.push({
+        product_category: item.product_category,
+        extended_price: item.extended_price || 0,
+        invoice_date: item.invoice.invoice_date
+      }));
+
+      if (!data || data.length < pageSize) break;
+    }
+
+    const allMonths = monthlyTotal(items.map(item => ({ date: item.invoice_date, value: item.extended_price })))
+      .map(point => point.month);
+    const byCategory = new Map<string, { date: string; value: number }[]>();
+
+    items.forEach(item => {
+      const category = item.product_category || 'Unknown';
+      if (!byCategory.has(category)) {
+        byCategory.set(category, []);
+      }
+      byCategory.get(category)!.push({ date: item.invoice_date, value: item.extended_price });
+    });
+
+    return Array.from(byCategory.entries())
+      .map(([category, points]) => {
+        const totals = new Map(monthlyTotal(points).map(point => [point.month, point.value]));
+        const series = allMonths.map(month => ({ month, value: totals.get(month) || 0 }));
+        return {
+          category,
+          total_spend: series.reduce((sum, point) => sum + point.value, 0),
+          months: series
+        };
+      })
+      .sort((a, b) => b.total_spend - a.total_spend);
+  } catch (error) {
+    console.error('❌ Error getting monthly category spend:', error);
+    throw error;
+  }
+}
+
+// Unit price forecasts for a handful of products, e.g. the top spenders, each
+// from the monthly prices of the pack size it was last bought in
+export async function getProductPriceForecasts(
+  productNumbers: string[],
+  options: ForecastOptions = {},
+  scope: AnalyticsScope = {}
+): Promise<ProductPriceForecast[]> {
+  try {
+    if (productNumbers.length === 0) {
+      return [];
+    }
+
+    console.log('🔮 Forecasting prices for', productNumbers.length, 'products...');
+
+    let query = (scope.client || supabase)
+      .from('invoice_items')
+      .select(`
+        product_number,
+        pack_size,
+        unit_price,
+        qty_shipped,
+        invoice:invoices!inner(
+          invoice_date,
+          document_type,
+          location_id
+        )
+      `)
+      .in('product_number', productNumbers)
+      .neq('invoice.document_type', 'CREDIT_MEMO'); // Returns aren't price points
+
+    if (scope.locationId) query = query.eq('invoice.location_id', scope.locationId);
+
+    const { data: invoiceItems, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching invoice items for price forecasts:', error);
+      return [];
+    }
+
+    return productNumbers.map(productNumber => {
+      const purchases = (invoiceItems || [])
+        .filter(item => item.product_number === productNumber)
+        .map(item => ({
+          date: item.invoice.invoice_date,
+          price: item.unit_price,
+          quantity: item.qty_shipped,
+          pack_size: item.pack_size
+        }));
+      const forecast = forecastPackPrice(purchases, options);
+
+      return {
+        product_number: productNumber,
+        last_price: forecast.history[forecast.history.length - 1]?.value || 0,
+        ...forecast
+      };
+    });
+  } catch (error) {
+    console.error('❌ Error forecasting product prices:', error);
+    throw error;
+  }
+}
+
+// Get products with segmented price analysis (same pack size increases). With a
+// scope, prices are compared across the location's history up to dateTo and only
+// increases whose latest purchase falls on or after dateFrom are kept.
+export async function getPriceIncreases(limit: number = 6, scope: AnalyticsScope = {}): Promise<PriceIncrease[]> {
   try {
     console.log('📈 Getting segmented price increases...');
     
     // Get detailed invoice items for proper analysis
-    const { data: invoiceItems, error } = await supabase
+    let query = (scope.client || supabase)
       .from('invoice_items')
       .select(`
         product_number,
@@ -494,9 +758,17 @@ export async function getPriceIncreases(limit: number = 6): Promise<PriceIncreas
         extended_price,
         invoice:invoices!inner(
           invoice_date,
+          document_type,
+          location_id,
           location:locations(name)
         )
-      `);
+      `)
+      .neq('invoice.document_type', 'CREDIT_MEMO'); // Returns aren't price points
+
+    if (scope.locationId) query = query.eq('invoice.location_id', scope.locationId);
+    if (scope.dateTo) query = query.lte('invoice.invoice_date', scope.dateTo);
+
+    const { data: invoiceItems, error } = await query;
 
     if (error) {
       console.error('❌ Error fetching invoice items for price analysis:', error);
@@ -565,6 +837,7 @@ export async function getPriceIncreases(limit: number = 6): Promise<PriceIncreas
 
     // Sort by percentage increase (highest first)
     const sortedIncreases = priceIncreases
+      .filter(increase => !scope.dateFrom || increase.last_purchase_date >= scope.dateFrom)
       .sort((a, b) => b.price_increase_percent - a.price_increase_percent)
       .slice(0, limit);
 
@@ -576,56 +849,128 @@ export async function getPriceIncreases(limit: number = 6): Promise<PriceIncreas
   }
 }
 
-// Get products with pack size changes
-export async function getPackSizeChanges(limit: number = 3): Promise<PackSizeChange[]> {
+// Get products bought in several pack sizes, compared on true per-unit cost. With a
+// scope, only products whose latest purchase falls on or after dateFrom are kept.
+export async function getPackSizeChanges(limit: number = 3, scope: AnalyticsScope = {}): Promise<PackSizeChange[]> {
   try {
     console.log('📦 Getting pack size changes...');
     
-    const products = await getProductsSummary();
+    const history = { locationId: scope.locationId, dateTo: scope.dateTo, client: scope.client };
+    const products = await getProductsSummary(history);
     if (!products || products.length === 0) {
       return [];
     }
 
-    const packSizeChanges: PackSizeChange[] = [];
+    // Only products with multiple pack sizes, highest spend first
+    const candidates = products
+      .filter((product: ProductSummary) => product.pack_sizes && product.pack_sizes.length > 1)
+      .sort((a: ProductSummary, b: ProductSummary) => b.total_spent - a.total_spent)
+      .slice(0, 50);
 
-    products.forEach((product: ProductSummary) => {
-      // Only products with multiple pack sizes
-      if (product.pack_sizes && product.pack_sizes.length > 1) {
-        // Calculate per-unit prices for comparison
-        const perUnitComparison = product.pack_sizes.map(packSize => {
-          const units = parsePackSizeUnits(packSize);
-          // Use average price as approximation
-          const unitPrice = product.avg_price || product.last_price || 0;
-          return {
-            pack_size: packSize,
-            unit_price: unitPrice,
-            per_unit_price: units > 0 ? unitPrice / units : unitPrice
-          };
-        });
+    if (candidates.length === 0) {
+      return [];
+    }
 
-        // Find best value pack (lowest per-unit price)
-        const bestValuePack = perUnitComparison.reduce((best, current) => 
-          current.per_unit_price < best.per_unit_price ? current : best
-        );
+    let query = (scope.client || supabase)
+      .from('invoice_items')
+      .select(`
+        product_number,
+        pack_size,
+        pricing_unit,
+        unit_price,
+        invoice:invoices!inner(
+          invoice_date,
+          document_type,
+          location_id,
+          location:locations(name)
+        )
+      `)
+      .in('product_number', candidates.map((product: ProductSummary) => product.product_number))
+      .neq('invoice.document_type', 'CREDIT_MEMO');
 
-        packSizeChanges.push({
-          product_number: product.product_number,
-          name: product.name,
-          category: product.category,
-          pack_sizes: product.pack_sizes,
-          current_pack: product.pack_sizes[product.pack_sizes.length - 1], // Last pack size
-          current_price: product.last_price,
-          per_unit_comparison: perUnitComparison,
-          best_value_pack: bestValuePack.pack_size,
-          last_purchase_date: product.last_purchase_date,
-          location_name: product.locations[0] || 'Multiple'
-        });
+    if (history.locationId) query = query.eq('invoice.location_id', history.locationId);
+    if (history.dateTo) query = query.lte('invoice.invoice_date', history.dateTo);
+
+    const { data: invoiceItems, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching invoice items for pack size analysis:', error);
+      return [];
+    }
+
+    // Latest purchase of each product + pack size
+    const latestByPack = new Map<string, Map<string | null, Record<string, unknown>>>();
+    (invoiceItems || []).forEach((item) => {
+      const invoiceDate = ((item.invoice as unknown as Record<string, unknown>)?.invoice_date as string) || '';
+      if (!latestByPack.has(item.product_number)) {
+        latestByPack.set(item.product_number, new Map());
+      }
+
+      const packs = latestByPack.get(item.product_number)!;
+      const current = packs.get(item.pack_size);
+      if (!current || invoiceDate > (((current.invoice as Record<string, unknown>)?.invoice_date as string) || '')) {
+        packs.set(item.pack_size, item as unknown as Record<string, unknown>);
       }
     });
 
+    const packSizeChanges: PackSizeChange[] = [];
+
+    candidates.forEach((product: ProductSummary) => {
+      const packs = Array.from(latestByPack.get(product.product_number)?.values() || []);
+
+      const comparisons = packs
+        .map(item => ({
+          item,
+          normalized: normalizeUnitPrice({
+            packingSize: item.pack_size as string,
+            pricingUnit: item.pricing_unit as string,
+            unitPrice: item.unit_price as number
+          })
+        }))
+        .filter(comparison => comparison.normalized !== null);
+
+      // Packs can only be compared when they measure the same thing
+      const baseUnit = comparisons[0]?.normalized!.baseUnit;
+      const comparable = comparisons.filter(comparison => comparison.normalized!.baseUnit === baseUnit);
+      if (!baseUnit || comparable.length < 2) return;
+
+      const perUnitComparison = comparable.map(({ item, normalized }) => ({
+        pack_size: item.pack_size as string,
+        unit_price: item.unit_price as number,
+        per_unit_price: normalized!.pricePerBaseUnit
+      }));
+
+      // Find best value pack (lowest per-unit price)
+      const bestValuePack = perUnitComparison.reduce((best, current) => 
+        current.per_unit_price < best.per_unit_price ? current : best
+      );
+
+      // The pack bought most recently is the current one
+      const latest = packs.reduce((newest, item) =>
+        (((item.invoice as Record<string, unknown>)?.invoice_date as string) || '') >
+        (((newest.invoice as Record<string, unknown>)?.invoice_date as string) || '') ? item : newest
+      );
+      const latestInvoice = latest.invoice as Record<string, unknown>;
+
+      packSizeChanges.push({
+        product_number: product.product_number,
+        name: product.name,
+        category: product.category,
+        pack_sizes: product.pack_sizes,
+        current_pack: latest.pack_size as string,
+        current_price: latest.unit_price as number,
+        base_unit: baseUnit,
+        per_unit_comparison: perUnitComparison,
+        best_value_pack: bestValuePack.pack_size,
+        last_purchase_date: (latestInvoice?.invoice_date as string) || product.last_purchase_date,
+        location_name: ((latestInvoice?.location as Record<string, unknown>)?.name as string) || product.locations[0] || 'Multiple'
+      });
+    });
+
     // Sort by number of pack sizes (most variety first)
     const sortedChanges = packSizeChanges
-      .sort((a, b) => b.pack_sizes.length - a.pack_sizes.length)
+      .filter(change => !scope.dateFrom || change.last_purchase_date >= scope.dateFrom)
+      .sort((a, b) => b.per_unit_comparison.length - a.per_unit_comparison.length)
       .slice(0, limit);
 
     console.log(`✅ Found ${sortedChanges.length} products with pack size changes`);
@@ -636,29 +981,6 @@ export async function getPackSizeChanges(limit: number = 3): Promise<PackSizeCha
   }
 }
 
-// Helper function to parse pack sizes into unit counts
-function parsePackSizeUnits(packSize: string): number {
-  if (!packSize) return 1;
-  
-  const normalized = packSize.toLowerCase();
-  
-  // Pattern: "6/16.5 OZ" or "10/100 EA"
-  const slashPattern = /^(\d+)\s*\/\s*(\d+(?:\.\d+)?)\s*/;
-  const slashMatch = normalized.match(slashPattern);
-  if (slashMatch) {
-    return parseInt(slashMatch[1]) * parseFloat(slashMatch[2]);
-  }
-  
-  // Pattern: "100 EA" or "25 LB"
-  const simplePattern = /^(\d+(?:\.\d+)?)\s/;
-  const simpleMatch = normalized.match(simplePattern);
-  if (simpleMatch) {
-    return parseFloat(simpleMatch[1]);
-  }
-  
-  return 1;
-}
-
 // Get combined price analysis (increases + pack changes)
 export async function getCombinedPriceAnalysis(): Promise<{ increases: PriceIncrease[], packChanges: PackSizeChange[] }> {
   try {
@@ -1,4 +1,5 @@
 import { supabase } from './browser';
+import { getPriceAlerts as getRuleBasedPriceAlerts } from './analytics-simple';
 
 // Dashboard Analytics Types
 export interface DashboardMetrics {
@@ -241,94 +242,9 @@ export async function getTopSpendingProducts(limit: number = 10): Promise<TopSpe
   }
 }
 
-// Get recent price alerts (products with significant price changes)
-export async function getPriceAlerts(threshold: number = 10): Promise<PriceAlert[]> {
-  try {
-    // Get recent invoice items with price data
-    const { data, error } = await supabase
-      .from('invoice_items')
-      .select(`
-        product_number,
-        product_description,
-        product_category,
-        unit_price,
-        invoice:invoices!inner(
-          invoice_date,
-          location:locations(name)
-        )
-      `)
-      .not('unit_price', 'is', null)
-      .gt('unit_price', 0)
-      .order('invoice.invoice_date', { ascending: false })
-      .limit(1000); // Get recent items
-
-    if (error) throw error;
-
-    // Group by product and track price changes
-    const productPrices = new Map<string, {
-      name: string;
-      category: string;
-      prices: Array<{
-        price: number;
-        date: string;
-        location: string;
-      }>;
-    }>();
-
-    data?.forEach(item => {
-      const key = item.product_number;
-      if (!productPrices.has(key)) {
-        productPrices.set(key, {
-          name: item.product_description,
-          category: item.product_category || 'Unknown',
-          prices: []
-        });
-      }
-
-      productPrices.get(key)!.prices.push({
-        price: item.unit_price,
-        date: (item.invoice as unknown as Record<string, unknown>)?.invoice_date as string || '',
-        location: (item.invoice as unknown as Record<string, unknown>)?.location as string || 'Unknown'
-      });
-    });
-
-    const alerts: PriceAlert[] = [];
-
-    // Analyze price changes for each product
-    productPrices.forEach((data, product_number) => {
-      // Sort prices by date (most recent first)
-      data.prices.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      
-      if (data.prices.length >= 2) {
-        const current = data.prices[0];
-        const previous = data.prices[1];
-        
-        const priceChange = current.price - previous.price;
-        const priceChangePercent = (priceChange / previous.price) * 100;
-        
-        // Only include significant changes above threshold
-        if (Math.abs(priceChangePercent) >= threshold) {
-          alerts.push({
-            product_number,
-            name: data.name,
-            category: data.category,
-            current_price: current.price,
-            previous_price: previous.price,
-            price_change: priceChange,
-            price_change_percent: priceChangePercent,
-            last_purchase_date: current.date,
-            location_name: current.location
-          });
-        }
-      }
-    });
-
-    // Sort by price change percentage (largest changes first)
-    return alerts.sort((a, b) => Math.abs(b.price_change_percent) - Math.abs(a.price_change_percent));
-  } catch (error) {
-    console.error('Error fetching price alerts:', error);
-    throw error;
-  }
+// Get recent price alerts, evaluated against the same alert rules as the importer
+export async function getPriceAlerts(): Promise<PriceAlert[]> {
+  return getRuleBasedPriceAlerts();
 }
 
 // Get location comparison data
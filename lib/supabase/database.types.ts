@@ -0,0 +1,1734 @@
+// Generated by `npm run db:types` from the migrated database schema
+// (supabase/migrations). Don't edit by hand: add a migration and regenerate.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      alert_rules: {
+        Row: {
+          id: string
+          name: string
+          enabled: boolean
+          change_type: string
+          threshold: number
+          critical_threshold: number | null
+          min_spend_impact: number
+          baseline: string
+          direction: string
+          scope_category: string | null
+          scope_product_number: string | null
+          scope_location_id: string | null
+          created_at: string | null
+          updated_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          enabled?: boolean
+          change_type?: string
+          threshold: number
+          critical_threshold?: number | null
+          min_spend_impact?: number
+          baseline?: string
+          direction?: string
+          scope_category?: string | null
+          scope_product_number?: string | null
+          scope_location_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          enabled?: boolean
+          change_type?: string
+          threshold?: number
+          critical_threshold?: number | null
+          min_spend_impact?: number
+          baseline?: string
+          direction?: string
+          scope_category?: string | null
+          scope_product_number?: string | null
+          scope_location_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'alert_rules_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alert_rules_scope_location_id_fkey'
+            columns: ['scope_location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      budget_alerts: {
+        Row: {
+          id: string
+          budget_id: string
+          location_id: string
+          alert_type: string
+          budget_amount: number
+          actual_spend: number
+          projected_spend: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          budget_id: string
+          location_id: string
+          alert_type: string
+          budget_amount: number
+          actual_spend: number
+          projected_spend: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          budget_id?: string
+          location_id?: string
+          alert_type?: string
+          budget_amount?: number
+          actual_spend?: number
+          projected_spend?: number
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'budget_alerts_budget_id_fkey'
+            columns: ['budget_id']
+            isOneToOne: false
+            referencedRelation: 'budgets'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'budget_alerts_location_id_fkey'
+            columns: ['location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      budgets: {
+        Row: {
+          id: string
+          location_id: string
+          category: string
+          month: string
+          amount: number
+          source_file: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          location_id: string
+          category?: string
+          month: string
+          amount: number
+          source_file?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          location_id?: string
+          category?: string
+          month?: string
+          amount?: number
+          source_file?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'budgets_location_id_fkey'
+            columns: ['location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      category_rules: {
+        Row: {
+          id: string
+          priority: number
+          keywords: string
+          category: string
+          subcategory: string | null
+          enabled: boolean
+          created_at: string | null
+          updated_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          priority: number
+          keywords: string
+          category: string
+          subcategory?: string | null
+          enabled?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          priority?: number
+          keywords?: string
+          category?: string
+          subcategory?: string | null
+          enabled?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'category_rules_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      contract_prices: {
+        Row: {
+          id: string
+          vendor_id: string
+          product_number: string
+          product_description: string | null
+          pack_size: string
+          pricing_unit: string | null
+          contract_price: number
+          effective_from: string
+          effective_to: string | null
+          source_file: string | null
+          created_at: string | null
+          updated_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          vendor_id: string
+          product_number: string
+          product_description?: string | null
+          pack_size?: string
+          pricing_unit?: string | null
+          contract_price: number
+          effective_from: string
+          effective_to?: string | null
+          source_file?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          vendor_id?: string
+          product_number?: string
+          product_description?: string | null
+          pack_size?: string
+          pricing_unit?: string | null
+          contract_price?: number
+          effective_from?: string
+          effective_to?: string | null
+          source_file?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'contract_prices_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'contract_prices_vendor_id_fkey'
+            columns: ['vendor_id']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      digest_deliveries: {
+        Row: {
+          user_id: string
+          location_id: string
+          week_start: string
+          email: string
+          transport: string
+          sent_at: string | null
+        }
+        Insert: {
+          user_id: string
+          location_id: string
+          week_start: string
+          email: string
+          transport: string
+          sent_at?: string | null
+        }
+        Update: {
+          user_id?: string
+          location_id?: string
+          week_start?: string
+          email?: string
+          transport?: string
+          sent_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'digest_deliveries_location_id_fkey'
+            columns: ['location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      digest_subscriptions: {
+        Row: {
+          user_id: string
+          location_id: string
+          email: string
+          created_at: string | null
+        }
+        Insert: {
+          user_id: string
+          location_id: string
+          email: string
+          created_at?: string | null
+        }
+        Update: {
+          user_id?: string
+          location_id?: string
+          email?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'digest_subscriptions_location_id_fkey'
+            columns: ['location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      email_ingestion_log: {
+        Row: {
+          id: string
+          message_id: string
+          source: string
+          from_address: string | null
+          subject: string | null
+          received_at: string | null
+          status: string
+          attachments: Json
+          location_ids: string[]
+          error: string | null
+          processed_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          source: string
+          from_address?: string | null
+          subject?: string | null
+          received_at?: string | null
+          status: string
+          attachments?: Json
+          location_ids?: string[]
+          error?: string | null
+          processed_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          source?: string
+          from_address?: string | null
+          subject?: string | null
+          received_at?: string | null
+          status?: string
+          attachments?: Json
+          location_ids?: string[]
+          error?: string | null
+          processed_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'email_ingestion_log_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      invoice_items: {
+        Row: {
+          id: string
+          invoice_id: string
+          product_number: string
+          product_description: string
+          supplier_label: string | null
+          pack_size: string | null
+          pricing_unit: string | null
+          qty_ordered: number
+          qty_shipped: number
+          unit_price: number
+          extended_price: number
+          product_category: string | null
+          created_at: string | null
+          updated_at: string | null
+          weight: number | null
+          base_unit: string | null
+          price_per_base_unit: number | null
+          line_number: number | null
+          raw_data: Json | null
+        }
+        Insert: {
+          id?: string
+          invoice_id: string
+          product_number: string
+          product_description: string
+          supplier_label?: string | null
+          pack_size?: string | null
+          pricing_unit?: string | null
+          qty_ordered?: number
+          qty_shipped?: number
+          unit_price?: number
+          extended_price?: number
+          product_category?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          weight?: number | null
+          base_unit?: string | null
+          price_per_base_unit?: number | null
+          line_number?: number | null
+          raw_data?: Json | null
+        }
+        Update: {
+          id?: string
+          invoice_id?: string
+          product_number?: string
+          product_description?: string
+          supplier_label?: string | null
+          pack_size?: string | null
+          pricing_unit?: string | null
+          qty_ordered?: number
+          qty_shipped?: number
+          unit_price?: number
+          extended_price?: number
+          product_category?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          weight?: number | null
+          base_unit?: string | null
+          price_per_base_unit?: number | null
+          line_number?: number | null
+          raw_data?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'invoice_items_invoice_id_fkey'
+            columns: ['invoice_id']
+            isOneToOne: false
+            referencedRelation: 'invoices'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          id: string
+          location_id: string
+          vendor_id: string | null
+          document_number: string
+          invoice_date: string
+          net_amount: number
+          file_name: string | null
+          processing_status: string
+          total_items: number
+          unique_products: number
+          created_at: string | null
+          updated_at: string | null
+          content_hash: string | null
+          document_type: string
+          credit_memo_number: string | null
+          credit_memo_date: string | null
+          original_document_number: string | null
+          original_invoice_id: string | null
+        }
+        Insert: {
+          id?: string
+          location_id: string
+          vendor_id?: string | null
+          document_number: string
+          invoice_date: string
+          net_amount?: number
+          file_name?: string | null
+          processing_status?: string
+          total_items?: number
+          unique_products?: number
+          created_at?: string | null
+          updated_at?: string | null
+          content_hash?: string | null
+          document_type?: string
+          credit_memo_number?: string | null
+          credit_memo_date?: string | null
+          original_document_number?: string | null
+          original_invoice_id?: string | null
+        }
+        Update: {
+          id?: string
+          location_id?: string
+          vendor_id?: string | null
+          document_number?: string
+          invoice_date?: string
+          net_amount?: number
+          file_name?: string | null
+          processing_status?: string
+          total_items?: number
+          unique_products?: number
+          created_at?: string | null
+          updated_at?: string | null
+          content_hash?: string | null
+          document_type?: string
+          credit_memo_number?: string | null
+          credit_memo_date?: string | null
+          original_document_number?: string | null
+          original_invoice_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'invoices_location_id_fkey'
+            columns: ['location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'invoices_original_invoice_id_fkey'
+            columns: ['original_invoice_id']
+            isOneToOne: false
+            referencedRelation: 'invoices'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'invoices_vendor_id_fkey'
+            columns: ['vendor_id']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      item_links: {
+        Row: {
+          id: string
+          product_number_a: string
+          product_number_b: string
+          status: string
+          score: number | null
+          decided_by: string | null
+          created_at: string | null
+          updated_at: string | null
+          vendor_id_a: string
+          vendor_id_b: string
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          product_number_a: string
+          product_number_b: string
+          status: string
+          score?: number | null
+          decided_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          vendor_id_a: string
+          vendor_id_b: string
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          product_number_a?: string
+          product_number_b?: string
+          status?: string
+          score?: number | null
+          decided_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          vendor_id_a?: string
+          vendor_id_b?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'item_links_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'item_links_vendor_id_a_fkey'
+            columns: ['vendor_id_a']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'item_links_vendor_id_b_fkey'
+            columns: ['vendor_id_b']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          id: string
+          restaurant_id: string | null
+          name: string
+          address_line1: string | null
+          city: string | null
+          state: string | null
+          postal_code: string | null
+          phone: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          restaurant_id?: string | null
+          name: string
+          address_line1?: string | null
+          city?: string | null
+          state?: string | null
+          postal_code?: string | null
+          phone?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          restaurant_id?: string | null
+          name?: string
+          address_line1?: string | null
+          city?: string | null
+          state?: string | null
+          postal_code?: string | null
+          phone?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'locations_restaurant_id_fkey'
+            columns: ['restaurant_id']
+            isOneToOne: false
+            referencedRelation: 'restaurants'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      organization_invites: {
+        Row: {
+          id: string
+          organization_id: string
+          email: string
+          role: string
+          location_ids: string[]
+          token: string
+          invited_by: string | null
+          expires_at: string
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          email: string
+          role: string
+          location_ids?: string[]
+          token?: string
+          invited_by?: string | null
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          email?: string
+          role?: string
+          location_ids?: string[]
+          token?: string
+          invited_by?: string | null
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'organization_invites_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      organization_member_locations: {
+        Row: {
+          organization_id: string
+          user_id: string
+          location_id: string
+          created_at: string | null
+        }
+        Insert: {
+          organization_id: string
+          user_id: string
+          location_id: string
+          created_at?: string | null
+        }
+        Update: {
+          organization_id?: string
+          user_id?: string
+          location_id?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'organization_member_locations_location_id_fkey'
+            columns: ['location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'organization_member_locations_organization_id_user_id_fkey'
+            columns: ['organization_id', 'user_id']
+            isOneToOne: false
+            referencedRelation: 'organization_members'
+            referencedColumns: ['organization_id', 'user_id']
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          organization_id: string
+          user_id: string
+          role: string
+          email: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          organization_id: string
+          user_id: string
+          role: string
+          email?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          organization_id?: string
+          user_id?: string
+          role?: string
+          email?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'organization_members_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      pdf_layouts: {
+        Row: {
+          id: string
+          vendor_id: string
+          name: string
+          identifier: string
+          header_patterns: Json
+          line_pattern: string
+          credit_marker: string
+          date_format: string
+          created_at: string | null
+          updated_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          vendor_id: string
+          name: string
+          identifier: string
+          header_patterns?: Json
+          line_pattern: string
+          credit_marker?: string
+          date_format?: string
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          vendor_id?: string
+          name?: string
+          identifier?: string
+          header_patterns?: Json
+          line_pattern?: string
+          credit_marker?: string
+          date_format?: string
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'pdf_layouts_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'pdf_layouts_vendor_id_fkey'
+            columns: ['vendor_id']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      price_alert_events: {
+        Row: {
+          id: string
+          alert_id: string
+          action: string
+          from_status: string | null
+          to_status: string | null
+          assigned_to: string | null
+          snoozed_until: string | null
+          note: string | null
+          actor: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          alert_id: string
+          action: string
+          from_status?: string | null
+          to_status?: string | null
+          assigned_to?: string | null
+          snoozed_until?: string | null
+          note?: string | null
+          actor?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          alert_id?: string
+          action?: string
+          from_status?: string | null
+          to_status?: string | null
+          assigned_to?: string | null
+          snoozed_until?: string | null
+          note?: string | null
+          actor?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'price_alert_events_alert_id_fkey'
+            columns: ['alert_id']
+            isOneToOne: false
+            referencedRelation: 'price_alerts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      price_alert_reads: {
+        Row: {
+          alert_id: string
+          user_id: string
+          read_at: string | null
+        }
+        Insert: {
+          alert_id: string
+          user_id: string
+          read_at?: string | null
+        }
+        Update: {
+          alert_id?: string
+          user_id?: string
+          read_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'price_alert_reads_alert_id_fkey'
+            columns: ['alert_id']
+            isOneToOne: false
+            referencedRelation: 'price_alerts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      price_alerts: {
+        Row: {
+          id: string
+          product_id: string
+          location_id: string
+          alert_type: string
+          alert_level: string
+          current_price: number
+          previous_price: number | null
+          price_change_amount: number | null
+          price_change_percent: number | null
+          pack_size: string | null
+          pricing_unit: string | null
+          supplier_label: string | null
+          alert_date: string
+          change_reasons: string[] | null
+          status: string
+          is_read: boolean
+          created_at: string | null
+          workflow_status: string
+          assigned_to: string | null
+          snoozed_until: string | null
+          resolved_at: string | null
+          updated_at: string | null
+          rule_id: string | null
+          baseline: string | null
+          contract_price_id: string | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          location_id: string
+          alert_type: string
+          alert_level?: string
+          current_price: number
+          previous_price?: number | null
+          price_change_amount?: number | null
+          price_change_percent?: number | null
+          pack_size?: string | null
+          pricing_unit?: string | null
+          supplier_label?: string | null
+          alert_date: string
+          change_reasons?: string[] | null
+          status?: string
+          is_read?: boolean
+          created_at?: string | null
+          workflow_status?: string
+          assigned_to?: string | null
+          snoozed_until?: string | null
+          resolved_at?: string | null
+          updated_at?: string | null
+          rule_id?: string | null
+          baseline?: string | null
+          contract_price_id?: string | null
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          location_id?: string
+          alert_type?: string
+          alert_level?: string
+          current_price?: number
+          previous_price?: number | null
+          price_change_amount?: number | null
+          price_change_percent?: number | null
+          pack_size?: string | null
+          pricing_unit?: string | null
+          supplier_label?: string | null
+          alert_date?: string
+          change_reasons?: string[] | null
+          status?: string
+          is_read?: boolean
+          created_at?: string | null
+          workflow_status?: string
+          assigned_to?: string | null
+          snoozed_until?: string | null
+          resolved_at?: string | null
+          updated_at?: string | null
+          rule_id?: string | null
+          baseline?: string | null
+          contract_price_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'price_alerts_contract_price_id_fkey'
+            columns: ['contract_price_id']
+            isOneToOne: false
+            referencedRelation: 'contract_prices'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'price_alerts_location_id_fkey'
+            columns: ['location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'price_alerts_product_id_fkey'
+            columns: ['product_id']
+            isOneToOne: false
+            referencedRelation: 'products'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'price_alerts_rule_id_fkey'
+            columns: ['rule_id']
+            isOneToOne: false
+            referencedRelation: 'alert_rules'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      product_categories: {
+        Row: {
+          id: string
+          name: string
+          parent_id: string | null
+          sort_order: number
+          created_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          parent_id?: string | null
+          sort_order?: number
+          created_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          parent_id?: string | null
+          sort_order?: number
+          created_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'product_categories_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'product_categories_parent_id_fkey'
+            columns: ['parent_id']
+            isOneToOne: false
+            referencedRelation: 'product_categories'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      product_category_overrides: {
+        Row: {
+          product_number: string
+          category: string
+          subcategory: string | null
+          note: string | null
+          updated_by: string | null
+          created_at: string | null
+          updated_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          product_number: string
+          category: string
+          subcategory?: string | null
+          note?: string | null
+          updated_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          product_number?: string
+          category?: string
+          subcategory?: string | null
+          note?: string | null
+          updated_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'product_category_overrides_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      product_prices: {
+        Row: {
+          id: string
+          product_id: string
+          location_id: string
+          vendor_id: string | null
+          price_date: string
+          unit_price: number
+          pack_size: string | null
+          pricing_unit: string | null
+          extended_amount: number | null
+          quantity_purchased: number | null
+          created_at: string | null
+          updated_at: string | null
+          invoice_id: string | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          location_id: string
+          vendor_id?: string | null
+          price_date: string
+          unit_price: number
+          pack_size?: string | null
+          pricing_unit?: string | null
+          extended_amount?: number | null
+          quantity_purchased?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+          invoice_id?: string | null
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          location_id?: string
+          vendor_id?: string | null
+          price_date?: string
+          unit_price?: number
+          pack_size?: string | null
+          pricing_unit?: string | null
+          extended_amount?: number | null
+          quantity_purchased?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+          invoice_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'product_prices_invoice_id_fkey'
+            columns: ['invoice_id']
+            isOneToOne: false
+            referencedRelation: 'invoices'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'product_prices_location_id_fkey'
+            columns: ['location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'product_prices_product_id_fkey'
+            columns: ['product_id']
+            isOneToOne: false
+            referencedRelation: 'products'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'product_prices_vendor_id_fkey'
+            columns: ['vendor_id']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      products: {
+        Row: {
+          id: string
+          product_number: string
+          name: string
+          description: string | null
+          category: string
+          base_unit: string | null
+          standard_pack_sizes: string[] | null
+          brand: string | null
+          is_active: boolean
+          created_at: string | null
+          updated_at: string | null
+          subcategory: string | null
+          vendor_id: string | null
+        }
+        Insert: {
+          id?: string
+          product_number: string
+          name: string
+          description?: string | null
+          category?: string
+          base_unit?: string | null
+          standard_pack_sizes?: string[] | null
+          brand?: string | null
+          is_active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          subcategory?: string | null
+          vendor_id?: string | null
+        }
+        Update: {
+          id?: string
+          product_number?: string
+          name?: string
+          description?: string | null
+          category?: string
+          base_unit?: string | null
+          standard_pack_sizes?: string[] | null
+          brand?: string | null
+          is_active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          subcategory?: string | null
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'products_vendor_id_fkey'
+            columns: ['vendor_id']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      recipe_cost_alerts: {
+        Row: {
+          id: string
+          recipe_id: string
+          plate_cost: number
+          menu_price: number
+          food_cost_percent: number
+          target_food_cost_percent: number
+          price_increases: Json
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          recipe_id: string
+          plate_cost: number
+          menu_price: number
+          food_cost_percent: number
+          target_food_cost_percent: number
+          price_increases?: Json
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          recipe_id?: string
+          plate_cost?: number
+          menu_price?: number
+          food_cost_percent?: number
+          target_food_cost_percent?: number
+          price_increases?: Json
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'recipe_cost_alerts_recipe_id_fkey'
+            columns: ['recipe_id']
+            isOneToOne: false
+            referencedRelation: 'recipes'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      recipe_ingredients: {
+        Row: {
+          id: string
+          recipe_id: string
+          product_number: string | null
+          sub_recipe_id: string | null
+          quantity: number
+          unit: string
+          yield_percent: number
+          sort_order: number
+          created_at: string | null
+          vendor_id: string | null
+        }
+        Insert: {
+          id?: string
+          recipe_id: string
+          product_number?: string | null
+          sub_recipe_id?: string | null
+          quantity: number
+          unit: string
+          yield_percent?: number
+          sort_order?: number
+          created_at?: string | null
+          vendor_id?: string | null
+        }
+        Update: {
+          id?: string
+          recipe_id?: string
+          product_number?: string | null
+          sub_recipe_id?: string | null
+          quantity?: number
+          unit?: string
+          yield_percent?: number
+          sort_order?: number
+          created_at?: string | null
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'recipe_ingredients_recipe_id_fkey'
+            columns: ['recipe_id']
+            isOneToOne: false
+            referencedRelation: 'recipes'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'recipe_ingredients_sub_recipe_id_fkey'
+            columns: ['sub_recipe_id']
+            isOneToOne: false
+            referencedRelation: 'recipes'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'recipe_ingredients_vendor_id_fkey'
+            columns: ['vendor_id']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      recipes: {
+        Row: {
+          id: string
+          name: string
+          is_menu_item: boolean
+          portions: number
+          yield_quantity: number | null
+          yield_unit: string | null
+          menu_price: number | null
+          target_food_cost_percent: number | null
+          notes: string | null
+          cost_alerted: boolean
+          created_at: string | null
+          updated_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          is_menu_item?: boolean
+          portions?: number
+          yield_quantity?: number | null
+          yield_unit?: string | null
+          menu_price?: number | null
+          target_food_cost_percent?: number | null
+          notes?: string | null
+          cost_alerted?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          is_menu_item?: boolean
+          portions?: number
+          yield_quantity?: number | null
+          yield_unit?: string | null
+          menu_price?: number | null
+          target_food_cost_percent?: number | null
+          notes?: string | null
+          cost_alerted?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'recipes_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      restaurants: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          owner_id: string | null
+          created_at: string | null
+          updated_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          owner_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          owner_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'restaurants_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      vendor_accounts: {
+        Row: {
+          id: string
+          location_id: string
+          vendor_id: string | null
+          customer_number: string
+          created_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          location_id: string
+          vendor_id?: string | null
+          customer_number: string
+          created_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          location_id?: string
+          vendor_id?: string | null
+          customer_number?: string
+          created_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'vendor_accounts_location_id_fkey'
+            columns: ['location_id']
+            isOneToOne: false
+            referencedRelation: 'locations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'vendor_accounts_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'vendor_accounts_vendor_id_fkey'
+            columns: ['vendor_id']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      vendor_formats: {
+        Row: {
+          id: string
+          vendor_id: string
+          name: string
+          columns: Json
+          date_format: string
+          created_at: string | null
+          updated_at: string | null
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          vendor_id: string
+          name: string
+          columns?: Json
+          date_format?: string
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          vendor_id?: string
+          name?: string
+          columns?: Json
+          date_format?: string
+          created_at?: string | null
+          updated_at?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'vendor_formats_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'vendor_formats_vendor_id_fkey'
+            columns: ['vendor_id']
+            isOneToOne: false
+            referencedRelation: 'vendors'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      vendors: {
+        Row: {
+          id: string
+          vendor_code: string
+          name: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          vendor_code: string
+          name: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          vendor_code?: string
+          name?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      credit_memos: {
+        Row: {
+          id: string | null
+          location_id: string | null
+          vendor_id: string | null
+          document_number: string | null
+          credit_date: string | null
+          net_amount: number | null
+          original_invoice_id: string | null
+          original_document_number: string | null
+          original_invoice_date: string | null
+          file_name: string | null
+          created_at: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      accept_organization_invite: {
+        Args: {
+          p_token: string | null
+          p_user_id: string | null
+          p_email: string | null
+        }
+        Returns: string
+      }
+      apply_price_alert_action: {
+        Args: {
+          p_alert_id: string | null
+          p_action: string | null
+          p_to_status: string | null
+          p_assigned_to: string | null
+          p_snoozed_until: string | null
+          p_note: string | null
+          p_actor: string | null
+        }
+        Returns: Database['public']['Tables']['price_alerts']['Row'][]
+      }
+      count_unread_price_alerts: {
+        Args: {
+          p_user_id: string | null
+        }
+        Returns: number
+      }
+      create_organization: {
+        Args: {
+          p_name: string | null
+          p_user_id: string | null
+          p_email: string | null
+        }
+        Returns: string
+      }
+      current_user_location_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      current_user_organization_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_products_summary: {
+        Args: {
+          p_category?: string | null
+          p_location?: string | null
+          p_date_from?: string | null
+          p_date_to?: string | null
+          p_search?: string | null
+          p_limit?: number | null
+          p_offset?: number | null
+        }
+        Returns: {
+          id: string
+          product_number: string
+          vendor_id: string
+          name: string
+          category: string
+          last_price: number
+          last_purchase_date: string
+          purchase_frequency: number
+          total_spent: number
+          pack_sizes: string[]
+          locations: string[]
+          min_price: number
+          max_price: number
+          avg_price: number
+          price_variance: number
+          last_unit_price: number
+          base_unit: string
+        }[]
+      }
+      import_invoice: {
+        Args: {
+          p_location_id: string | null
+          p_vendor_id: string | null
+          p_invoice: Json | null
+          p_items: Json | null
+          p_content_hash: string | null
+        }
+        Returns: string
+      }
+      is_open_price_alert: {
+        Args: {
+          p_alert: Database['public']['Tables']['price_alerts']['Row'] | null
+        }
+        Returns: boolean
+      }
+      mark_price_alerts_read: {
+        Args: {
+          p_user_id: string | null
+          p_alert_ids?: string[] | null
+        }
+        Returns: number
+      }
+      save_recipe: {
+        Args: {
+          p_organization_id: string | null
+          p_recipe_id: string | null
+          p_recipe: Json | null
+          p_ingredients: Json | null
+        }
+        Returns: string
+      }
+      seed_organization_settings: {
+        Args: {
+          p_organization_id: string | null
+        }
+        Returns: undefined
+      }
+      user_location_ids: {
+        Args: {
+          p_user_id: string | null
+        }
+        Returns: string[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+export type Tables<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Row']
+export type TablesInsert<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Update']
+export type Functions<T extends keyof Database['public']['Functions']> = Database['public']['Functions'][T]
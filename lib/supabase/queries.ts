@@ -119,6 +119,7 @@ async function getProductsSummaryFallback(
         invoice:invoices!inner(
           id,
           invoice_date,
+          document_type,
           location:locations(name)
         )
       `)
@@ -143,7 +144,9 @@ async function getProductsSummaryFallback(
     const productSummaries: ProductSummary[] = [];
 
     for (const product of products) {
-      const purchases = purchaseByProduct.get(product.product_number) || [];
+      const lines = purchaseByProduct.get(product.product_number) || [];
+      // Credit memo lines are negative, so spend nets out refunds; prices come from purchases only
+      const purchases = lines.filter((p: Record<string, unknown>) => (p.invoice as Record<string, unknown>)?.document_type !== 'CREDIT_MEMO');
       
       // Skip products with no purchases
       if (purchases.length === 0) {
@@ -152,7 +155,7 @@ async function getProductsSummaryFallback(
       }
 
       // Calculate summary statistics
-      const totalSpent = purchases.reduce((sum: number, p: Record<string, unknown>) => sum + ((p.extended_price as number) || 0), 0);
+      const totalSpent = lines.reduce((sum: number, p: Record<string, unknown>) => sum + ((p.extended_price as number) || 0), 0);
       const packSizes = [...new Set(purchases.map((p: Record<string, unknown>) => p.pack_size as string).filter(Boolean))];
       const locations = [...new Set(
         purchases.map((p: Record<string, unknown>) => ((p.invoice as Record<string, unknown>)?.location as Record<string, unknown>)?.name as string).filter(Boolean)
@@ -212,7 +215,9 @@ export async function getProductPurchaseHistory(
       extended_price,
       pricing_unit,
       invoice:invoices (
+        id,
         document_number,
+        document_type,
         invoice_date,
         location:locations (
           name
@@ -228,6 +233,7 @@ export async function getProductPurchaseHistory(
   }
 
   return (data || []).map((item: Record<string, unknown>) => ({
+    invoice_id: (item.invoice as Record<string, unknown>)?.id as string,
     invoice_date: ((item.invoice as Record<string, unknown>)?.invoice_date as string) || '',
     location_name: (((item.invoice as Record<string, unknown>)?.location as Record<string, unknown>)?.name as string) || '',
     document_number: ((item.invoice as Record<string, unknown>)?.document_number as string) || '',
@@ -235,7 +241,8 @@ export async function getProductPurchaseHistory(
     quantity: (item.qty_shipped as number),
     unit_price: (item.unit_price as number),
     extended_price: (item.extended_price as number),
-    pricing_unit: (item.pricing_unit as string)
+    pricing_unit: (item.pricing_unit as string),
+    is_credit: ((item.invoice as Record<string, unknown>)?.document_type as string) === 'CREDIT_MEMO'
   }));
 }
 
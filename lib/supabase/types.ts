@@ -1,81 +1,28 @@
 // TypeScript interfaces for our Los Pinos invoice data
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from './database.types';
 
-export interface Location {
-  id: string;
-  restaurant_id: string;
-  name: string;
-  address_line1: string;
-  city: string;
-  state: string;
-  postal_code: string;
-  phone: string;
-  created_at: string;
-}
+// Table rows come from the generated schema types (npm run db:types); these
+// only narrow the columns the database stores as plain text or JSON and add
+// the relations queries embed.
+export type Location = Tables<'locations'>;
 
-export interface Product {
-  id: string;
-  product_number: string;
-  name: string;
-  description?: string;
-  category: string;
-  subcategory?: string;
-  base_unit: string;
-  standard_pack_sizes?: string[];
-  brand?: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
+export type Product = Tables<'products'>;
 
-export interface Invoice {
-  id: string;
-  location_id: string;
-  vendor_id: string;
-  document_number: string;
-  invoice_date: string;
-  net_amount: number;
-  file_name: string;
-  processing_status: string;
-  total_items: number;
-  unique_products: number;
-  created_at: string;
-  updated_at: string;
+export interface Invoice extends Omit<Tables<'invoices'>, 'document_type'> {
+  document_type: 'INVOICE' | 'CREDIT_MEMO';
   // Relations
-  location?: Location;
+  location?: Pick<Location, 'id' | 'name'>;
 }
 
-export interface InvoiceItem {
-  id: string;
-  invoice_id: string;
-  product_number: string;
-  product_description: string;
-  pack_size: string;
-  pricing_unit: string;
-  qty_ordered: number;
-  qty_shipped: number;
-  unit_price: number;
-  extended_price: number;
-  product_category: string;
-  created_at: string;
-  updated_at: string;
+export interface InvoiceItem extends Omit<Tables<'invoice_items'>, 'raw_data'> {
+  raw_data: Record<string, string> | null; // original US Foods CSV row
   // Relations
   invoice?: Invoice;
   product?: Product;
 }
 
-export interface ProductPrice {
-  id: string;
-  product_id: string;
-  location_id: string;
-  vendor_id: string;
-  unit_price: number;
-  pack_size: string;
-  pricing_unit: string;
-  price_date: string;
-  extended_amount: number;
-  quantity_purchased: number;
-  created_at: string;
-  updated_at: string;
+export interface ProductPrice extends Tables<'product_prices'> {
   // Relations
   product?: Product;
   location?: Location;
@@ -85,6 +32,7 @@ export interface ProductPrice {
 export interface ProductSummary {
   id: string;
   product_number: string;
+  vendor_id?: string | null; // product numbers are per vendor
   name: string;
   category: string;
   last_price: number;
@@ -97,9 +45,12 @@ export interface ProductSummary {
   max_price?: number;
   avg_price?: number;
   price_variance?: number;
+  last_unit_price?: number | null; // latest price per base_unit, from src/lib/unit-pricing
+  base_unit?: string | null;
 }
 
 export interface ProductPurchaseHistory {
+  invoice_id?: string;
   invoice_date: string;
   location_name: string;
   document_number: string;
@@ -108,6 +59,7 @@ export interface ProductPurchaseHistory {
   unit_price: number;
   extended_price: number;
   pricing_unit: string;
+  is_credit?: boolean;
 }
 
 export interface PriceTrend {
@@ -128,6 +80,32 @@ export interface ProductFilters {
   search?: string;
 }
 
+export interface InvoiceFilters {
+  locationId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  amountMin?: number;
+  amountMax?: number;
+  documentType?: 'INVOICE' | 'CREDIT_MEMO';
+  processingStatus?: string;
+  search?: string;
+}
+
+// Narrows dashboard analytics to one location and/or date range
+export interface AnalyticsScope {
+  locationId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  // Server-side callers with no signed-in session (the weekly digest) pass the
+  // service client; the dashboard reads with the browser session
+  client?: SupabaseClient<Database>;
+}
+
+export interface InvoicePage {
+  invoices: Invoice[];
+  total: number;
+}
+
 export interface QueryOptions {
   limit?: number;
   offset?: number;
@@ -1,5 +1,7 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
+import type { Database } from '@/lib/supabase/database.types';
+import { canOpenRoute, isOrganizationRole } from '@/src/lib/roles';
 
 export async function middleware(request: NextRequest) {
   let response = NextResponse.next({
@@ -8,7 +10,7 @@ export async function middleware(request: NextRequest) {
     },
   });
 
-  const supabase = createServerClient(
+  const supabase = createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     {
@@ -44,11 +46,35 @@ export async function middleware(request: NextRequest) {
   console.log('Middleware - User:', user ? 'Authenticated' : 'Not authenticated');
 
   // If user is not signed in and the current path is protected, redirect to sign in page
-  if (!user && request.nextUrl.pathname.startsWith('/dashboard')) {
+  if (!user && (
+    request.nextUrl.pathname.startsWith('/dashboard') ||
+    request.nextUrl.pathname.startsWith('/auth/organization')
+  )) {
     console.log('Middleware - Redirecting to sign in (no user)');
     return NextResponse.redirect(new URL('/auth/signin', request.url));
   }
 
+  // The dashboard needs an organization, and some pages a role that may use them.
+  // RLS lets the user read their own membership.
+  if (user && request.nextUrl.pathname.startsWith('/dashboard')) {
+    const { data: membership } = await supabase
+      .from('organization_members')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    const role = isOrganizationRole(membership?.role) ? membership.role : null;
+
+    if (!role) {
+      console.log('Middleware - Redirecting to organization setup (no organization)');
+      return NextResponse.redirect(new URL('/auth/organization', request.url));
+    }
+
+    if (!canOpenRoute(role, request.nextUrl.pathname)) {
+      console.log('Middleware - Redirecting to dashboard (role cannot open page)');
+      return NextResponse.redirect(new URL('/dashboard', request.url));
+    }
+  }
+
   // If user is signed in and tries to access auth pages, redirect to dashboard
   if (user && (
     request.nextUrl.pathname.startsWith('/auth/signin') ||
@@ -2,6 +2,7 @@
 
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import { normalizePackSize, formatUnitPrice } from '../src/lib/unit-pricing';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
@@ -218,7 +219,8 @@ async function analyzePackSizePricing() {
         console.log(`     Price Range: $${data.min_price} - $${data.max_price}`);
         console.log(`     Trend: ${data.price_trend > 0 ? '+' : ''}${data.price_trend.toFixed(1)}%`);
         console.log(`     Real Increase: ${data.has_real_increase ? 'YES' : 'NO'}`);
-        console.log(`     Per Unit: $${data.latest_price / getUnitsInPack(packSize)}`);
+        const pack = normalizePackSize(packSize);
+        console.log(`     Per Unit: ${pack.baseUnit && pack.baseQuantity ? formatUnitPrice(data.latest_price / pack.baseQuantity, pack.baseUnit) : 'n/a'}`);
       });
     }
 
@@ -227,17 +229,5 @@ async function analyzePackSizePricing() {
   }
 }
 
-function getUnitsInPack(packSize: string): number {
-  // Simple parser for common pack formats
-  if (packSize.includes('/')) {
-    const match = packSize.match(/(\d+)\/(\d+)/);
-    if (match) {
-      return parseInt(match[1]) * parseInt(match[2]);
-    }
-  }
-  const match = packSize.match(/(\d+)/);
-  return match ? parseInt(match[1]) : 1;
-}
-
 // Run the analysis
 analyzePackSizePricing();
\ No newline at end of file
@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+/**
+ * Backfill Unit Prices
+ * Fills base_unit and price_per_base_unit on invoice items imported before
+ * unit-normalized pricing existed (see supabase/migrations/0004_unit_pricing.sql)
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-unit-prices.ts [--dry-run]
+ */
+
+import { parseArgs } from 'util';
+import { config } from 'dotenv';
+
+// Load environment variables before the Supabase clients are created
+config({ path: '.env.local' });
+
+const PAGE_SIZE = 500;
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            'dry-run': { type: 'boolean', default: false }
+        }
+    });
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        console.error('❌ Missing Supabase environment variables');
+        process.exit(1);
+    }
+
+    const { getServiceClient } = await import('../src/lib/supabase');
+    const { normalizeUnitPrice } = await import('../src/lib/unit-pricing');
+    const supabase = getServiceClient();
+    const dryRun = values['dry-run'];
+
+    console.log(`🚀 Backfilling unit prices${dryRun ? ' (dry run)' : ''}...`);
+
+    let lastId = '';
+    let scanned = 0;
+    let updated = 0;
+    let unmeasurable = 0;
+
+    // Rows that can't be normalized stay null, so page by id rather than by offset
+    while (true) {
+        let query = supabase
+            .from('invoice_items')
+            .select('id, pack_size, pricing_unit, unit_price, weight')
+            .is('price_per_base_unit', null)
+            .order('id')
+            .limit(PAGE_SIZE);
+
+        if (lastId) {
+            query = query.gt('id', lastId);
+        }
+
+        const { data: items, error } = await query;
+
+        if (error) {
+            throw new Error(`Failed to fetch invoice items: ${error.message}`);
+        }
+
+        if (!items || items.length === 0) break;
+
+        for (const item of items) {
+            scanned++;
+
+            const normalized = normalizeUnitPrice({
+                packingSize: item.pack_size || '',
+                pricingUnit: item.pricing_unit || '',
+                unitPrice: Math.abs(item.unit_price || 0),
+                weight: item.weight || undefined
+            });
+
+            if (!normalized) {
+                unmeasurable++;
+                continue;
+            }
+
+            if (!dryRun) {
+                const { error: updateError } = await supabase
+                    .from('invoice_items')
+                    .update({
+                        base_unit: normalized.baseUnit,
+                        price_per_base_unit: Math.round(normalized.pricePerBaseUnit * 10000) / 10000
+                    })
+                    .eq('id', item.id);
+
+                if (updateError) {
+                    console.error(`❌ Failed to update item ${item.id}:`, updateError.message);
+                    continue;
+                }
+            }
+
+            updated++;
+        }
+
+        lastId = items[items.length - 1].id;
+        console.log(`   📊 ${scanned} items scanned`);
+    }
+
+    console.log('\n📊 Backfill summary:');
+    console.log(`   ✅ ${dryRun ? 'Would update' : 'Updated'}: ${updated}`);
+    console.log(`   ⚠️ Pack size not measurable: ${unmeasurable}`);
+}
+
+main().catch(error => {
+    console.error('💥 Backfill failed:', error);
+    process.exit(1);
+});
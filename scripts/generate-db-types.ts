@@ -0,0 +1,59 @@
+#!/usr/bin/env tsx
+/**
+ * Generate Database Types
+ * Writes lib/supabase/database.types.ts, the `Database` type every Supabase
+ * client is created with, from the public schema of the database at
+ * DATABASE_URL. Run it after `npm run db:migrate` whenever a migration is added.
+ *
+ * --check exits with an error instead of writing when the file is out of date.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-db-types.ts [--check]
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            check: { type: 'boolean', default: false }
+        }
+    });
+
+    if (!process.env.DATABASE_URL) {
+        console.error('❌ Missing DATABASE_URL (the Postgres connection string)');
+        process.exit(1);
+    }
+
+    const { connectDatabase } = await import('../src/lib/schema-migrations');
+    const { DATABASE_TYPES_FILE, introspectSchema, renderDatabaseTypes } = await import('../src/lib/database-types');
+    const client = await connectDatabase();
+
+    try {
+        const types = renderDatabaseTypes(await introspectSchema(client));
+        const current = await readFile(DATABASE_TYPES_FILE, 'utf-8').catch(() => '');
+
+        if (values.check) {
+            if (current !== types) {
+                console.error(`❌ ${DATABASE_TYPES_FILE} is out of date, run npm run db:types`);
+                process.exit(1);
+            }
+            console.log(`✅ ${DATABASE_TYPES_FILE} is up to date`);
+            return;
+        }
+
+        await writeFile(DATABASE_TYPES_FILE, types);
+        console.log(`✅ Wrote ${DATABASE_TYPES_FILE}${current === types ? ' (unchanged)' : ''}`);
+    } finally {
+        await client.end();
+    }
+}
+
+main().catch(error => {
+    console.error('💥 Type generation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+/**
+ * Invoice Import CLI
+ * Runs every CSV in one or more directories through the shared import pipeline
+ *
+ * Usage:
+ *   npm run import -- --location "Bee Caves" --dir "/path/to/invoices/1" [--dir ...] [--vendor SYSCO] [--dry-run] [--test]
+ *
+ *   --location  Location name (or ID) the invoices belong to
+ *   --dir       Directory of distributor CSV exports; repeat for several directories
+ *   --vendor    Vendor code to record the invoices against; by default each
+ *               file's vendor is detected from its columns
+ *   --dry-run   Parse and compare against the database without writing anything
+ *   --test      Only process the first file in each directory
+ */
+
+import { parseArgs } from 'util';
+import { config } from 'dotenv';
+
+// Load environment variables before the Supabase clients are created
+config({ path: '.env.local' });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            location: { type: 'string' },
+            dir: { type: 'string', multiple: true },
+            vendor: { type: 'string' },
+            'dry-run': { type: 'boolean', default: false },
+            test: { type: 'boolean', default: false }
+        }
+    });
+
+    const directories = values.dir || [];
+
+    if (!values.location || directories.length === 0) {
+        console.error('Usage: npm run import -- --location <name> --dir <directory> [--dir ...] [--vendor <code>] [--dry-run] [--test]');
+        process.exit(1);
+    }
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        console.error('❌ Missing Supabase environment variables');
+        process.exit(1);
+    }
+
+    const { importInvoicesFromDirectory, getLocationId, getVendorId } = await import('../src/lib/data-importer');
+
+    const dryRun = values['dry-run'];
+    const testMode = values.test;
+
+    console.log(`🚀 Starting invoice import${dryRun ? ' (dry run)' : ''}${testMode ? ' (test mode)' : ''}...`);
+
+    const locationId = UUID_PATTERN.test(values.location) ? values.location : await getLocationId(values.location);
+    const vendorId = values.vendor ? await getVendorId(values.vendor) : undefined;
+    console.log(`📍 Location: ${values.location} (${locationId})`);
+    console.log(`🚚 Vendor: ${values.vendor || 'detected per file'}`);
+
+    const totals = { files: 0, invoices: 0, new: 0, updated: 0, unchanged: 0, failed: 0 };
+    const errors: string[] = [];
+
+    for (const dir of directories) {
+        console.log(`\n📁 Processing directory: ${dir}`);
+
+        const result = await importInvoicesFromDirectory(
+            dir,
+            locationId,
+            vendorId,
+            (progress) => {
+                console.log(`📄 ${progress.currentFile} (${progress.processedFiles + 1}/${progress.totalFiles})`);
+            },
+            { dryRun, limit: testMode ? 1 : undefined }
+        );
+
+        totals.files += result.processedFiles;
+        totals.invoices += result.totalInvoices;
+        totals.new += result.newInvoices;
+        totals.updated += result.updatedInvoices;
+        totals.unchanged += result.unchangedInvoices;
+        totals.failed += result.failedInvoices;
+        errors.push(...result.errors);
+
+        if (result.skippedFiles.length > 0) {
+            console.log(`⚠️  Skipped ${result.skippedFiles.length} file(s): ${result.skippedFiles.join(', ')}`);
+        }
+    }
+
+    console.log(`\n🎯 Import ${dryRun ? 'Preview' : 'Results'}:`);
+    console.log(`📂 Files processed: ${totals.files}`);
+    console.log(`📄 Invoices: ${totals.invoices}`);
+    console.log(`🆕 New: ${totals.new}`);
+    console.log(`🔄 Updated: ${totals.updated}`);
+    console.log(`⏭️  Unchanged: ${totals.unchanged}`);
+    console.log(`❌ Failed: ${totals.failed}`);
+
+    if (errors.length > 0) {
+        console.log(`\n❌ Errors (${errors.length}):`);
+        errors.forEach(error => console.log(`   - ${error}`));
+        process.exit(1);
+    }
+
+    console.log('\n🎉 Import completed!');
+}
+
+main().catch((error) => {
+    console.error('❌ Import failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
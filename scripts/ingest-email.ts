@@ -0,0 +1,149 @@
+#!/usr/bin/env tsx
+/**
+ * Email Invoice Ingestion
+ * Imports the CSV and PDF invoice attachments of vendor emails waiting in a
+ * mailbox, routing each invoice to its location by customer number or ship-to
+ * address (see src/lib/email-ingestion.ts). Every message is recorded in the
+ * email ingestion log, so re-running never imports a message twice.
+ *
+ * The source comes from MAIL_SOURCE (maildir, mbox or imap, configured from
+ * INBOX_MAILDIR, INBOX_MBOX or IMAP_HOST/IMAP_PORT/IMAP_USER/IMAP_PASSWORD/
+ * IMAP_MAILBOX/IMAP_SECURE, see src/lib/mail-sources.ts) unless --maildir,
+ * --mbox or --source is given. Run it from cron, or keep it polling with --watch.
+ * A mailbox belongs to one organization: invoices are only routed to its
+ * locations and read with its vendor formats and PDF layouts.
+ *
+ * Usage:
+ *   npm run ingest-email -- [--maildir <dir> | --mbox <file> | --source imap] [--organization <name>] [--location <name>] [--watch] [--interval <seconds>] [--dry-run]
+ *
+ *   --organization  Organization (name or ID) the mailbox belongs to; defaults to the --location's
+ *   --location  Location (name or ID) for invoices that match no customer number or address
+ *   --watch     Keep checking the mailbox every --interval seconds (default 300)
+ *   --dry-run   Parse and route without importing, logging or marking messages read
+ */
+
+import { parseArgs } from 'util';
+import { config } from 'dotenv';
+
+// Load environment variables before the Supabase clients are created
+config({ path: '.env.local' });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DEFAULT_INTERVAL_SECONDS = 300;
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            source: { type: 'string' },
+            maildir: { type: 'string' },
+            mbox: { type: 'string' },
+            organization: { type: 'string' },
+            location: { type: 'string' },
+            watch: { type: 'boolean', default: false },
+            interval: { type: 'string' },
+            'dry-run': { type: 'boolean', default: false }
+        }
+    });
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        console.error('❌ Missing Supabase environment variables');
+        process.exit(1);
+    }
+
+    const intervalSeconds = values.interval ? parseInt(values.interval) : DEFAULT_INTERVAL_SECONDS;
+    if (!(intervalSeconds > 0)) {
+        console.error('❌ --interval must be a number of seconds');
+        process.exit(1);
+    }
+
+    if (!values.organization && !values.location) {
+        console.error('❌ --organization or --location is required');
+        process.exit(1);
+    }
+
+    const { createMailSource } = await import('../src/lib/mail-sources');
+    const { runEmailIngestion } = await import('../src/lib/email-ingestion');
+    const { getLocationId } = await import('../src/lib/data-importer');
+    const { getLocationOrganizationId, getOrganizationId } = await import('../src/lib/organizations');
+
+    const sourceName = values.maildir ? 'maildir' : values.mbox ? 'mbox' : values.source;
+    const source = createMailSource(sourceName, {
+        ...process.env,
+        ...(values.maildir ? { INBOX_MAILDIR: values.maildir } : {}),
+        ...(values.mbox ? { INBOX_MBOX: values.mbox } : {})
+    });
+    const dryRun = values['dry-run'];
+    const defaultLocationId = values.location
+        ? UUID_PATTERN.test(values.location) ? values.location : await getLocationId(values.location)
+        : undefined;
+    const organizationId = values.organization
+        ? UUID_PATTERN.test(values.organization) ? values.organization : await getOrganizationId(values.organization)
+        : await getLocationOrganizationId(defaultLocationId!);
+
+    console.log(`🚀 Ingesting invoice emails from ${source.name}${dryRun ? ' (dry run)' : ''}${values.watch ? `, checking every ${intervalSeconds}s` : ''}...`);
+    if (defaultLocationId) {
+        console.log(`📍 Unrouted invoices go to: ${values.location} (${defaultLocationId})`);
+    }
+
+    let stopping = false;
+    let wake: (() => void) | null = null;
+    let timer: NodeJS.Timeout | null = null;
+    const stop = () => {
+        stopping = true;
+        if (timer) clearTimeout(timer);
+        wake?.();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    let failed = false;
+    try {
+        do {
+            const result = await runEmailIngestion(source, {
+                organizationId,
+                defaultLocationId,
+                dryRun,
+                onMessage: (entry, duplicate) => {
+                    const icon = duplicate ? '⏭️ ' : entry.status === 'imported' ? '✅' : entry.status === 'partial' ? '⚠️ ' : '❌';
+                    console.log(`${icon} ${entry.subject || '(no subject)'} from ${entry.from_address || 'unknown sender'}: ${duplicate ? 'already processed' : entry.status}`);
+                    if (duplicate) return;
+                    for (const attachment of entry.attachments) {
+                        const outcomes = attachment.outcomes
+                            .map(outcome => `${outcome.documentNumber} ${outcome.status}${outcome.routedBy ? ` via ${outcome.routedBy.replace('_', ' ')}` : ''}${outcome.error ? ` (${outcome.error})` : ''}`)
+                            .join(', ');
+                        console.log(`   📎 ${attachment.fileName}${attachment.formatName ? ` [${attachment.formatName}]` : ''}: ${attachment.error || outcomes}`);
+                    }
+                    if (entry.status === 'no_attachments' && entry.error) {
+                        console.log(`   ${entry.error}`);
+                    }
+                }
+            });
+
+            console.log(`📬 ${result.messages} message(s): ${result.imported} imported, ${result.partial} partial, ${result.failed} failed, ${result.duplicates} already processed`);
+            if (result.errors.length > 0) {
+                failed = true;
+                result.errors.forEach(error => console.log(`   - ${error}`));
+            }
+
+            if (values.watch && !stopping) {
+                await new Promise<void>(resolve => {
+                    wake = resolve;
+                    timer = setTimeout(resolve, intervalSeconds * 1000);
+                });
+            }
+        } while (values.watch && !stopping);
+    } finally {
+        await source.close();
+    }
+
+    if (failed && !values.watch) {
+        process.exit(1);
+    }
+
+    console.log('\n🎉 Email ingestion finished');
+}
+
+main().catch((error) => {
+    console.error('❌ Email ingestion failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+/**
+ * Database Migrations
+ * Applies the pending supabase/migrations to the database at DATABASE_URL, in
+ * version order, each in its own transaction. Works against a Supabase project
+ * or a plain local Postgres (which gets supabase/plain-postgres.sql first).
+ *
+ * A database set up before migrations existed, by running the old SQL files
+ * by hand, is brought under migrations once with --baseline: every migration
+ * up to that version is recorded as applied without running it.
+ *
+ * After changing the schema, regenerate the client types with `npm run db:types`.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate.ts [--seed] [--baseline <version>] [--dry-run]
+ */
+
+import { parseArgs } from 'util';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            seed: { type: 'boolean', default: false },
+            baseline: { type: 'string' },
+            'dry-run': { type: 'boolean', default: false }
+        }
+    });
+
+    if (!process.env.DATABASE_URL) {
+        console.error('❌ Missing DATABASE_URL (the Postgres connection string)');
+        process.exit(1);
+    }
+
+    const { connectDatabase, migrate } = await import('../src/lib/schema-migrations');
+    const dryRun = values['dry-run'];
+    const client = await connectDatabase();
+
+    try {
+        console.log(`🚀 Migrating database${dryRun ? ' (dry run)' : ''}...`);
+
+        const result = await migrate(client, {
+            dryRun,
+            baseline: values.baseline,
+            seed: values.seed,
+            onMigration: migration => console.log(`   ⏳ ${migration.version}_${migration.name}`)
+        });
+
+        if (result.bootstrapped) {
+            console.log(`   🧱 ${dryRun ? 'Would add' : 'Added'} Supabase roles and auth schema for plain Postgres`);
+        }
+        for (const migration of result.baselined) {
+            console.log(`   📌 ${migration.version}_${migration.name} ${dryRun ? 'would be recorded' : 'recorded'} as applied`);
+        }
+        if (dryRun) {
+            for (const migration of result.applied) {
+                console.log(`   ⏳ ${migration.version}_${migration.name}`);
+            }
+        }
+
+        console.log('\n📊 Migration summary:');
+        console.log(`   ✅ ${dryRun ? 'Pending' : 'Applied'}: ${result.applied.length}`);
+        console.log(`   📌 Baselined: ${result.baselined.length}`);
+        console.log(`   ⏭️ Already applied: ${result.alreadyApplied}`);
+        if (result.seeded) {
+            console.log(`   🌱 Seed data ${dryRun ? 'would be' : 'was'} loaded`);
+        }
+    } finally {
+        await client.end();
+    }
+}
+
+main().catch(error => {
+    console.error('💥 Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,66 @@
+#!/usr/bin/env tsx
+/**
+ * Recategorize All History
+ * Re-applies an organization's category overrides and rules, saved on the
+ * Settings → Product Categories page, to the past invoice lines at its locations
+ *
+ * Usage:
+ *   npx tsx scripts/recategorize.ts --organization <name> [--dry-run]
+ *
+ *   --organization  Organization name (or ID) whose invoice history is recategorized
+ */
+
+import { parseArgs } from 'util';
+import { config } from 'dotenv';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Load environment variables before the Supabase clients are created
+config({ path: '.env.local' });
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            organization: { type: 'string' },
+            'dry-run': { type: 'boolean', default: false }
+        }
+    });
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        console.error('❌ Missing Supabase environment variables');
+        process.exit(1);
+    }
+
+    if (!values.organization) {
+        console.error('Usage: npx tsx scripts/recategorize.ts --organization <name> [--dry-run]');
+        process.exit(1);
+    }
+
+    const { getServiceClient } = await import('../src/lib/supabase');
+    const { recategorizeAllHistory } = await import('../src/lib/product-categories');
+    const { getOrganizationId } = await import('../src/lib/organizations');
+    const dryRun = values['dry-run'];
+    const organizationId = UUID_PATTERN.test(values.organization) ? values.organization : await getOrganizationId(values.organization);
+
+    console.log(`🚀 Recategorizing invoice history for ${values.organization}${dryRun ? ' (dry run)' : ''}...`);
+
+    const result = await recategorizeAllHistory(getServiceClient(), organizationId, { dryRun });
+
+    for (const change of result.changes) {
+        const from = [change.from.category || 'none', change.from.subcategory].filter(Boolean).join(' / ');
+        const to = [change.to.category, change.to.subcategory].filter(Boolean).join(' / ');
+        console.log(`   ${change.productNumber} ${change.name}: ${from} → ${to} (${change.to.source})`);
+    }
+
+    console.log('\n📊 Recategorize summary:');
+    console.log(`   📦 Products checked: ${result.productsChecked}`);
+    console.log(`   ✅ ${dryRun ? 'Would change' : 'Changed'}: ${result.productsChanged}`);
+    if (!dryRun) {
+        console.log(`   🧾 Invoice lines updated: ${result.invoiceLinesChanged}`);
+    }
+}
+
+main().catch(error => {
+    console.error('💥 Recategorize failed:', error);
+    process.exit(1);
+});
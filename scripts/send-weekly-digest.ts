@@ -0,0 +1,74 @@
+#!/usr/bin/env tsx
+/**
+ * Send Weekly Digests
+ * Emails each subscribed user their locations' weekly cost digest for the last
+ * complete week (or the week containing --week). Meant to run from cron early
+ * on Monday, e.g. `0 7 * * 1 cd /app && npm run digest`. Re-running for the
+ * same week only sends digests that haven't gone out yet.
+ *
+ * The transport comes from MAIL_TRANSPORT (file or smtp, see
+ * src/lib/mail-transport.ts) unless --transport is given.
+ *
+ * Usage:
+ *   npx tsx scripts/send-weekly-digest.ts [--week YYYY-MM-DD] [--location <id>] [--transport file|smtp] [--dry-run]
+ */
+
+import { parseArgs } from 'util';
+import { config } from 'dotenv';
+
+// Load environment variables before the Supabase clients are created
+config({ path: '.env.local' });
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            week: { type: 'string' },
+            location: { type: 'string' },
+            transport: { type: 'string' },
+            'dry-run': { type: 'boolean', default: false }
+        }
+    });
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        console.error('❌ Missing Supabase environment variables');
+        process.exit(1);
+    }
+
+    if (values.week && !/^\d{4}-\d{2}-\d{2}$/.test(values.week)) {
+        console.error('❌ --week must be a YYYY-MM-DD date');
+        process.exit(1);
+    }
+
+    const { createMailTransport } = await import('../src/lib/mail-transport');
+    const { digestWeek, lastCompleteWeek, sendWeeklyDigests } = await import('../src/lib/weekly-digest');
+    const dryRun = values['dry-run'];
+    const week = values.week ? digestWeek(values.week) : lastCompleteWeek();
+    const transport = createMailTransport(values.transport);
+
+    console.log(`🚀 Sending weekly digests for ${week.weekStart} – ${week.weekEnd} via ${transport.name}${dryRun ? ' (dry run)' : ''}...`);
+
+    const result = await sendWeeklyDigests({ week, transport, dryRun, locationId: values.location });
+
+    for (const digest of result.digests) {
+        console.log(`   📍 ${digest.locationName}: spend $${digest.spend.current.toFixed(2)} (last week $${digest.spend.previous.toFixed(2)}), ${digest.priceIncreases.length} price increases`);
+    }
+
+    for (const failure of result.failed) {
+        console.error(`   ❌ ${failure.email} (${failure.locationName}): ${failure.error}`);
+    }
+
+    console.log('\n📊 Digest summary:');
+    console.log(`   📍 Locations: ${result.digests.length}`);
+    console.log(`   ✅ ${dryRun ? 'Would send' : 'Sent'}: ${result.sent}`);
+    console.log(`   ⏭️ Already sent: ${result.skipped}`);
+    console.log(`   ❌ Failed: ${result.failed.length}`);
+
+    if (result.failed.length > 0) {
+        process.exit(1);
+    }
+}
+
+main().catch(error => {
+    console.error('💥 Weekly digest failed:', error);
+    process.exit(1);
+});
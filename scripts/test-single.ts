@@ -1,30 +1,36 @@
 #!/usr/bin/env tsx
 /**
  * Test Single Invoice Import
- * Tests the import process with one CSV file
+ * Runs one CSV file through the import pipeline stages without writing to the database
  */
 
-import { execSync } from 'child_process';
-import * as path from 'path';
+import * as fs from 'fs';
+import { config } from 'dotenv';
 
 // Load environment variables
-require('dotenv').config({ path: '.env.local' });
+config({ path: '.env.local' });
 
 async function testSingleImport() {
     console.log('🧪 Testing single invoice import...\n');
-    
-    const testFile = '/Users/marcofigueroa/LOS PINOS - USFOODS/INVOICES/BEE CAVES/1/2025031721074257427.csv';
-    
-    // Import the process-invoices script and test with single file
-    const processInvoicesModule = await import('./process-invoices.js');
-    const processInvoices = (processInvoicesModule as Record<string, unknown>).default as () => Promise<void>;
-    
-    // Test individual components first
+
+    const testFile = process.argv[2] || '/Users/marcofigueroa/LOS PINOS - USFOODS/INVOICES/BEE CAVES/1/2025031721074257427.csv';
+
+    const { parseInvoiceFile, normalizeInvoice, categorizeInvoice } = await import('../src/lib/import-pipeline');
+    const { formatUnitPrice } = await import('../src/lib/unit-pricing');
+
     console.log('Testing CSV parsing...');
-    console.log('Testing pack size parsing...');
-    console.log('Testing product categorization...');
-    console.log('Testing database connection...');
-    
+    const invoices = await parseInvoiceFile(fs.readFileSync(testFile, 'utf-8'));
+    console.log(`   ${invoices.length} invoice(s) parsed`);
+
+    console.log('Testing pack size parsing and product categorization...');
+    for (const parsed of invoices) {
+        const invoice = categorizeInvoice(normalizeInvoice(parsed));
+        console.log(`   ${invoice.documentNumber} (${invoice.invoiceDate}): ${invoice.lineItems.length} items`);
+        invoice.lineItems.forEach(item => {
+            console.log(`      ${item.productNumber} ${item.packingSize} → ${item.packSize.baseQuantity ?? '?'} ${item.packSize.baseUnit || item.packSize.unit} @ ${item.normalizedPrice ? formatUnitPrice(item.normalizedPrice.pricePerBaseUnit, item.normalizedPrice.baseUnit) : 'n/a'} [${item.category}]`);
+        });
+    }
+
     console.log('\n✅ All tests passed!');
 }
 
@@ -32,4 +38,4 @@ async function testSingleImport() {
 testSingleImport().catch(error => {
     console.error('💥 Test failed:', error);
     process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,160 @@
+#!/usr/bin/env tsx
+/**
+ * Watched-Folder Invoice Import
+ * Keeps running and imports every CSV export dropped into a location's folder
+ * through the shared import pipeline, then moves it into the folder's archive/
+ * or failed/ subfolder (see src/lib/folder-watcher.ts). A failed file gets a
+ * .error.txt beside it saying why.
+ *
+ * Usage:
+ *   npm run watch-imports -- --folder "Bee Caves=/path/to/invoices" [--folder ...] [--config <file>] [--settle <seconds>] [--poll <seconds>] [--json] [--dry-run]
+ *
+ *   --folder    Location name (or ID) and the directory to watch for it; repeat for several
+ *   --config    JSON file of folders: [{ "location": "Bee Caves", "directory": "...", "vendor": "SYSCO" }],
+ *               where vendor is optional and records every invoice against that vendor code
+ *   --settle    Seconds a file must stop changing before it's imported (default 5)
+ *   --poll      Seconds between rescans in case a change was missed (default 30)
+ *   --json      Print progress as one JSON object per line instead of text
+ *   --dry-run   Parse and compare against the database without writing or moving anything
+ */
+
+import { parseArgs } from 'util';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { config } from 'dotenv';
+
+// Load environment variables before the Supabase clients are created
+config({ path: '.env.local' });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface FolderConfig {
+    location: string;
+    directory: string;
+    vendor?: string;
+}
+
+function readFolderConfig(file: string): FolderConfig[] {
+    const entries: unknown = JSON.parse(readFileSync(file, 'utf-8'));
+
+    if (!Array.isArray(entries)) {
+        throw new Error(`${file} must contain an array of folders`);
+    }
+
+    return entries.map((entry, index) => {
+        if (typeof entry?.location !== 'string' || typeof entry?.directory !== 'string') {
+            throw new Error(`Folder ${index + 1} in ${file} needs a location and a directory`);
+        }
+        return { location: entry.location, directory: entry.directory, vendor: typeof entry.vendor === 'string' ? entry.vendor : undefined };
+    });
+}
+
+function seconds(value: string | undefined, fallback: number, option: string): number {
+    const parsed = value === undefined ? fallback : parseFloat(value);
+    if (!(parsed > 0)) {
+        console.error(`❌ --${option} must be a number of seconds`);
+        process.exit(1);
+    }
+    return parsed;
+}
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            folder: { type: 'string', multiple: true },
+            config: { type: 'string' },
+            settle: { type: 'string' },
+            poll: { type: 'string' },
+            json: { type: 'boolean', default: false },
+            'dry-run': { type: 'boolean', default: false }
+        }
+    });
+
+    const folderConfigs: FolderConfig[] = values.config ? readFolderConfig(values.config) : [];
+    for (const folder of values.folder || []) {
+        const separator = folder.indexOf('=');
+        if (separator <= 0 || separator === folder.length - 1) {
+            console.error(`❌ --folder must look like "<location>=<directory>", got "${folder}"`);
+            process.exit(1);
+        }
+        folderConfigs.push({ location: folder.slice(0, separator), directory: folder.slice(separator + 1) });
+    }
+
+    if (folderConfigs.length === 0) {
+        console.error('Usage: npm run watch-imports -- --folder <location>=<directory> [--folder ...] [--config <file>] [--settle <seconds>] [--poll <seconds>] [--json] [--dry-run]');
+        process.exit(1);
+    }
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        console.error('❌ Missing Supabase environment variables');
+        process.exit(1);
+    }
+
+    const settleSeconds = seconds(values.settle, 5, 'settle');
+    const pollSeconds = seconds(values.poll, 30, 'poll');
+    const dryRun = values['dry-run'];
+    const json = values.json;
+
+    const { watchFolders } = await import('../src/lib/folder-watcher');
+    const { getLocationId, getVendorId, describeOutcomes } = await import('../src/lib/data-importer');
+
+    const folders = await Promise.all(folderConfigs.map(async (folder) => ({
+        directory: resolve(folder.directory),
+        locationId: UUID_PATTERN.test(folder.location) ? folder.location : await getLocationId(folder.location),
+        vendorId: folder.vendor ? await getVendorId(folder.vendor) : undefined
+    })));
+    const locationNames = new Map(folders.map((folder, index) => [folder.directory, folderConfigs[index].location]));
+
+    if (!json) {
+        console.log(`🚀 Watching ${folders.length} folder(s) for invoice CSVs${dryRun ? ' (dry run)' : ''}...`);
+        folders.forEach(folder => console.log(`📁 ${folder.directory} → ${locationNames.get(folder.directory)} (${folder.locationId})`));
+    }
+
+    const watcher = watchFolders(folders, {
+        settleMs: settleSeconds * 1000,
+        pollMs: pollSeconds * 1000,
+        dryRun,
+        onProgress: (progress, folder) => {
+            if (json) {
+                console.log(JSON.stringify({ event: 'progress', directory: folder.directory, locationId: folder.locationId, ...progress }));
+            } else if (progress.totalInvoices === 0) {
+                console.log(`📄 ${progress.currentFile} (${progress.processedFiles + 1}/${progress.totalFiles}) for ${locationNames.get(folder.directory)}`);
+            }
+        },
+        onFile: (result) => {
+            if (json) {
+                const { folder, ...file } = result;
+                console.log(JSON.stringify({ event: 'file', directory: folder.directory, locationId: folder.locationId, ...file }));
+                return;
+            }
+            const summary = result.outcomes.length > 0 ? describeOutcomes(result.outcomes) : result.error;
+            console.log(`${result.status === 'archived' ? '✅' : '❌'} ${result.fileName}: ${summary}${result.movedTo ? ` → ${result.movedTo}` : ''}`);
+            if (result.error && result.outcomes.length > 0) {
+                result.error.split('\n').forEach(error => console.log(`   - ${error}`));
+            }
+        },
+        onError: (error, folder) => {
+            if (json) {
+                console.log(JSON.stringify({ event: 'error', directory: folder.directory, locationId: folder.locationId, error: error.message }));
+            } else {
+                console.error(`❌ ${folder.directory}: ${error.message}`);
+            }
+        }
+    });
+
+    await new Promise<void>(resolveStop => {
+        const stop = () => resolveStop();
+        process.once('SIGINT', stop);
+        process.once('SIGTERM', stop);
+    });
+
+    if (!json) {
+        console.log('\n⏹️  Stopping after the current file...');
+    }
+    await watcher.close();
+}
+
+main().catch((error) => {
+    console.error('❌ Watched-folder import failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,351 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+
+/**
+ * Price alert rules
+ *
+ * Each organization has its own rules in the alert_rules table, shared by every
+ * alert generator: the import pipeline, the price analyzer and the dashboard
+ * analytics. Each rule
+ * compares a purchase price against a baseline and fires on a percentage or
+ * absolute change, optionally only when the change costs at least a minimum
+ * amount on that purchase.
+ *
+ * Rules can be scoped to a category, a product number and/or a location. For a
+ * given purchase the most specific enabled rule wins: product beats category,
+ * and either beats location.
+ */
+
+export type AlertRuleChangeType = 'percent' | 'absolute'
+
+export type AlertRuleBaseline = 'last_price' | 'avg_30d' | 'avg_90d' | 'contract_price'
+
+export type AlertRuleDirection = 'increase' | 'decrease' | 'both'
+
+export type AlertLevel = 'HIGH' | 'CRITICAL'
+
+export interface AlertRule {
+  id: string
+  name: string
+  enabled: boolean
+  change_type: AlertRuleChangeType
+  /** Percent (e.g. 20) or dollars per pricing unit (e.g. 1.50), depending on change_type */
+  threshold: number
+  /** Same units as threshold; changes at or above it are CRITICAL instead of HIGH */
+  critical_threshold: number | null
+  /** Minimum dollars the change adds to (or saves on) the purchase, price delta × quantity */
+  min_spend_impact: number
+  baseline: AlertRuleBaseline
+  direction: AlertRuleDirection
+  scope_category: string | null
+  scope_product_number: string | null
+  scope_location_id: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'created_at' | 'updated_at'>
+
+export interface AlertRuleScope {
+  productNumber: string
+  category?: string | null
+  locationId?: string | null
+}
+
+export interface PricePoint {
+  price: number
+  /** YYYY-MM-DD */
+  date: string
+  quantity?: number
+}
+
+export interface AlertRuleEvaluation {
+  rule: AlertRule
+  level: AlertLevel
+  baseline: AlertRuleBaseline
+  baselinePrice: number
+  changeAmount: number
+  changePercent: number
+  spendImpact: number
+}
+
+export const ALERT_RULE_BASELINE_LABELS: Record<AlertRuleBaseline, string> = {
+  last_price: 'Last price',
+  avg_30d: '30-day average',
+  avg_90d: '90-day average',
+  contract_price: 'Contract price'
+}
+
+export const ALERT_RULE_DIRECTION_LABELS: Record<AlertRuleDirection, string> = {
+  increase: 'Increases',
+  decrease: 'Decreases',
+  both: 'Increases and decreases'
+}
+
+/**
+ * Used when an organization has no rules or they can't be read, and seeded for
+ * every organization (see supabase/migrations/0020_organization_settings.sql):
+ * the 20% / 30% critical thresholds the importer has always used.
+ */
+export const DEFAULT_ALERT_RULE: AlertRule = {
+  id: 'default',
+  name: 'Default',
+  enabled: true,
+  change_type: 'percent',
+  threshold: 20,
+  critical_threshold: 30,
+  min_spend_impact: 0,
+  baseline: 'last_price',
+  direction: 'both',
+  scope_category: null,
+  scope_product_number: null,
+  scope_location_id: null
+}
+
+/**
+ * Load the enabled rules, falling back to the default rule. The service
+ * client needs the organization; a signed-in browser only reads its own.
+ */
+export async function loadAlertRules(client: SupabaseClient<Database>, organizationId?: string): Promise<AlertRule[]> {
+  let query = client
+    .from('alert_rules')
+    .select('*')
+    .eq('enabled', true)
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Failed to load alert rules, using the default rule:', error.message)
+    return [DEFAULT_ALERT_RULE]
+  }
+
+  const rules = (data || []).map(row => ({
+    ...row,
+    threshold: Number(row.threshold),
+    critical_threshold: row.critical_threshold === null ? null : Number(row.critical_threshold),
+    min_spend_impact: Number(row.min_spend_impact) || 0
+  })) as AlertRule[]
+
+  return rules.length > 0 ? rules : [DEFAULT_ALERT_RULE]
+}
+
+function ruleSpecificity(rule: AlertRule): number {
+  return (rule.scope_product_number ? 4 : 0) + (rule.scope_category ? 2 : 0) + (rule.scope_location_id ? 1 : 0)
+}
+
+/**
+ * The most specific enabled rule matching a purchase, or null when none match
+ */
+export function findApplicableRule(rules: AlertRule[], scope: AlertRuleScope): AlertRule | null {
+  const matching = rules.filter(rule =>
+    rule.enabled &&
+    (!rule.scope_product_number || rule.scope_product_number === scope.productNumber) &&
+    (!rule.scope_category || rule.scope_category === scope.category) &&
+    (!rule.scope_location_id || rule.scope_location_id === scope.locationId)
+  )
+
+  if (matching.length === 0) return null
+
+  return matching.reduce((best, rule) => {
+    const difference = ruleSpecificity(rule) - ruleSpecificity(best)
+    if (difference !== 0) return difference > 0 ? rule : best
+    // Equally specific: the more recently edited rule wins
+    return (rule.updated_at || '') > (best.updated_at || '') ? rule : best
+  })
+}
+
+function daysBefore(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() - days)
+  return day.toISOString().split('T')[0]
+}
+
+/**
+ * Baseline price for a purchase on the given date, from the purchases before it.
+ * Returns null when there is nothing to compare against.
+ */
+export function computeBaselinePrice(
+  baseline: AlertRuleBaseline,
+  history: PricePoint[],
+  asOfDate: string,
+  contractPrice?: number | null
+): number | null {
+  if (baseline === 'contract_price') {
+    return contractPrice && contractPrice > 0 ? contractPrice : null
+  }
+
+  const earlier = history
+    .filter(point => point.price > 0 && point.date < asOfDate)
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  if (baseline === 'last_price') {
+    return earlier.length > 0 ? earlier[earlier.length - 1].price : null
+  }
+
+  const since = daysBefore(asOfDate, baseline === 'avg_30d' ? 30 : 90)
+  const window = earlier.filter(point => point.date >= since)
+  if (window.length === 0) return null
+
+  return window.reduce((sum, point) => sum + point.price, 0) / window.length
+}
+
+/**
+ * Evaluate a purchase against a rule. Returns the alert it raises, or null.
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  current: PricePoint,
+  history: PricePoint[],
+  contractPrice?: number | null
+): AlertRuleEvaluation | null {
+  if (!rule.enabled || current.price <= 0) return null
+
+  const baselinePrice = computeBaselinePrice(rule.baseline, history, current.date, contractPrice)
+  if (!baselinePrice) return null
+
+  const changeAmount = current.price - baselinePrice
+  const changePercent = (changeAmount / baselinePrice) * 100
+
+  if (changeAmount === 0) return null
+  if (rule.direction === 'increase' && changeAmount < 0) return null
+  if (rule.direction === 'decrease' && changeAmount > 0) return null
+
+  const magnitude = Math.abs(rule.change_type === 'percent' ? changePercent : changeAmount)
+  if (magnitude < rule.threshold) return null
+
+  const spendImpact = Math.abs(changeAmount) * Math.abs(current.quantity ?? 1)
+  if (spendImpact < rule.min_spend_impact) return null
+
+  return {
+    rule,
+    level: rule.critical_threshold !== null && magnitude >= rule.critical_threshold ? 'CRITICAL' : 'HIGH',
+    baseline: rule.baseline,
+    baselinePrice,
+    changeAmount,
+    changePercent,
+    spendImpact
+  }
+}
+
+/**
+ * Find the rule for a purchase and evaluate it
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  scope: AlertRuleScope,
+  current: PricePoint,
+  history: PricePoint[],
+  contractPrice?: number | null
+): AlertRuleEvaluation | null {
+  const rule = findApplicableRule(rules, scope)
+  return rule ? evaluateAlertRule(rule, current, history, contractPrice) : null
+}
+
+/**
+ * Validate a rule before it is saved. Returns the problems found. A location
+ * scope must be one of the organization's locations.
+ */
+export function validateAlertRule(rule: Partial<AlertRuleInput>, organizationLocationIds: string[]): string[] {
+  const errors: string[] = []
+
+  if (!rule.name?.trim()) {
+    errors.push('Name is required')
+  }
+  if (rule.change_type !== 'percent' && rule.change_type !== 'absolute') {
+    errors.push('Change type must be percent or absolute')
+  }
+  if (typeof rule.threshold !== 'number' || !(rule.threshold > 0)) {
+    errors.push('Threshold must be greater than zero')
+  }
+  if (rule.critical_threshold !== null && rule.critical_threshold !== undefined &&
+      typeof rule.threshold === 'number' && rule.critical_threshold < rule.threshold) {
+    errors.push('Critical threshold must be at least the threshold')
+  }
+  if (typeof rule.min_spend_impact === 'number' && rule.min_spend_impact < 0) {
+    errors.push('Minimum spend impact cannot be negative')
+  }
+  if (!rule.baseline || !(rule.baseline in ALERT_RULE_BASELINE_LABELS)) {
+    errors.push('Unknown baseline')
+  }
+  if (!rule.direction || !(rule.direction in ALERT_RULE_DIRECTION_LABELS)) {
+    errors.push('Unknown direction')
+  }
+  if (rule.scope_location_id && !organizationLocationIds.includes(rule.scope_location_id)) {
+    errors.push('Unknown location')
+  }
+
+  return errors
+}
+
+/**
+ * Pick the editable rule fields out of a request body, trimming empty scopes to null
+ */
+export function toAlertRuleInput(body: Record<string, unknown>): Partial<AlertRuleInput> {
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null
+  const number = (value: unknown) => value === null || value === undefined || value === '' ? null : Number(value)
+
+  return {
+    name: typeof body.name === 'string' ? body.name.trim() : undefined,
+    enabled: body.enabled === undefined ? true : Boolean(body.enabled),
+    change_type: body.change_type as AlertRuleChangeType,
+    threshold: number(body.threshold) ?? undefined,
+    critical_threshold: number(body.critical_threshold),
+    min_spend_impact: number(body.min_spend_impact) ?? 0,
+    baseline: body.baseline as AlertRuleBaseline,
+    direction: body.direction as AlertRuleDirection,
+    scope_category: text(body.scope_category),
+    scope_product_number: text(body.scope_product_number),
+    scope_location_id: text(body.scope_location_id)
+  }
+}
+
+/**
+ * Every rule, enabled or not, for the settings page
+ */
+export async function listAlertRules(client: SupabaseClient<Database>, organizationId: string): Promise<AlertRule[]> {
+  const { data, error } = await client
+    .from('alert_rules')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load alert rules: ${error.message}`)
+  }
+
+  return (data || []) as AlertRule[]
+}
+
+/**
+ * Create a rule, or update it when an id is given
+ */
+export async function saveAlertRule(
+  client: SupabaseClient<Database>,
+  organizationId: string,
+  rule: AlertRuleInput,
+  id?: string
+): Promise<AlertRule> {
+  const query = id
+    ? client.from('alert_rules').update({ ...rule, updated_at: new Date().toISOString() }).eq('id', id).eq('organization_id', organizationId)
+    : client.from('alert_rules').insert({ ...rule, organization_id: organizationId })
+
+  const { data, error } = await query.select('*').single()
+
+  if (error) {
+    throw new Error(`Failed to save alert rule: ${error.message}`)
+  }
+
+  return data as AlertRule
+}
+
+export async function deleteAlertRule(client: SupabaseClient<Database>, organizationId: string, id: string): Promise<void> {
+  const { error } = await client.from('alert_rules').delete().eq('id', id).eq('organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to delete alert rule: ${error.message}`)
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Price alert workflow
+ *
+ * Alerts move through new → acknowledged → disputed → resolved. Assigning,
+ * snoozing and adding notes don't change the status. This module only holds
+ * the rules, so both the API routes and the alerts page can use it.
+ */
+
+export type AlertWorkflowStatus = 'new' | 'acknowledged' | 'disputed' | 'resolved'
+
+export type AlertAction =
+  | 'acknowledge'
+  | 'dispute'
+  | 'resolve'
+  | 'reopen'
+  | 'assign'
+  | 'snooze'
+  | 'unsnooze'
+  | 'note'
+
+export const ALERT_WORKFLOW_STATUSES: AlertWorkflowStatus[] = ['new', 'acknowledged', 'disputed', 'resolved']
+
+export const ALERT_STATUS_LABELS: Record<AlertWorkflowStatus, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  disputed: 'Disputed with vendor',
+  resolved: 'Resolved'
+}
+
+export const ALERT_ACTION_LABELS: Record<AlertAction, string> = {
+  acknowledge: 'Acknowledge',
+  dispute: 'Dispute with vendor',
+  resolve: 'Resolve',
+  reopen: 'Reopen',
+  assign: 'Assign',
+  snooze: 'Snooze',
+  unsnooze: 'Unsnooze',
+  note: 'Add note'
+}
+
+// Status each status-changing action moves an alert to, and the statuses it can move from
+const STATUS_TRANSITIONS: Partial<Record<AlertAction, { from: AlertWorkflowStatus[]; to: AlertWorkflowStatus }>> = {
+  acknowledge: { from: ['new'], to: 'acknowledged' },
+  dispute: { from: ['new', 'acknowledged'], to: 'disputed' },
+  resolve: { from: ['new', 'acknowledged', 'disputed'], to: 'resolved' },
+  reopen: { from: ['resolved'], to: 'acknowledged' }
+}
+
+/**
+ * Status an action moves an alert to, or null for actions that leave the status alone
+ */
+export function nextAlertStatus(action: AlertAction): AlertWorkflowStatus | null {
+  return STATUS_TRANSITIONS[action]?.to || null
+}
+
+/**
+ * Whether an action can be applied to an alert in the given status
+ */
+export function canApplyAlertAction(status: AlertWorkflowStatus, action: AlertAction): boolean {
+  const transition = STATUS_TRANSITIONS[action]
+  if (transition) return transition.from.includes(status)
+
+  // Resolved alerts are closed: only notes can still be added until they are reopened
+  return status !== 'resolved' || action === 'note'
+}
+
+/**
+ * Status-changing actions available from the given status, in workflow order
+ */
+export function availableStatusActions(status: AlertWorkflowStatus): AlertAction[] {
+  return (Object.keys(STATUS_TRANSITIONS) as AlertAction[]).filter(action => canApplyAlertAction(status, action))
+}
+
+/**
+ * Whether an alert is snoozed on the given date (YYYY-MM-DD, defaults to today)
+ */
+export function isAlertSnoozed(snoozedUntil: string | null, today: string = new Date().toISOString().split('T')[0]): boolean {
+  return !!snoozedUntil && snoozedUntil > today
+}
+
+export function isAlertAction(value: unknown): value is AlertAction {
+  return typeof value === 'string' && value in ALERT_ACTION_LABELS
+}
+
+export function isAlertWorkflowStatus(value: unknown): value is AlertWorkflowStatus {
+  return typeof value === 'string' && (ALERT_WORKFLOW_STATUSES as string[]).includes(value)
+}
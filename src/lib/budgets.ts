@@ -0,0 +1,530 @@
+import Papa from 'papaparse'
+import { getServiceClient } from './supabase'
+import { toISODate } from './csv-parser'
+
+/**
+ * Spend budgets per location, category and month
+ *
+ * A budget with an empty category covers everything the location buys and is
+ * compared with invoice net amounts, the same totals as the monthly spend
+ * trend. A category budget is compared with that category's line items.
+ * Month-end spend is projected from the run rate so far; a budget projected
+ * to end above its amount is tracking over and raises a budget alert, and
+ * another once actual spend passes it.
+ */
+
+export type BudgetStatusLevel = 'on_track' | 'tracking_over' | 'over'
+
+export type BudgetAlertType = 'PROJECTED_OVER' | 'OVER_BUDGET'
+
+export interface Budget {
+  id: string
+  location_id: string
+  /** Empty for the location's total spend */
+  category: string
+  /** First day of the month, YYYY-MM-DD */
+  month: string
+  amount: number
+  source_file?: string | null
+}
+
+export type BudgetInput = Omit<Budget, 'id'>
+
+export interface BudgetParseResult {
+  budgets: BudgetInput[]
+  errors: string[]
+}
+
+export interface BurnDownPoint {
+  /** YYYY-MM-DD */
+  date: string
+  /** Cumulative spend through this day; null for days still to come */
+  actual: number | null
+  /** Cumulative spend if the budget were used evenly over the month */
+  ideal: number
+}
+
+export interface BudgetStatus {
+  budget: Budget
+  location_name: string
+  actual: number
+  /** Month-end spend at the current run rate; null until MIN_PROJECTION_DAYS have passed */
+  projected: number | null
+  remaining: number
+  percent_used: number
+  status: BudgetStatusLevel
+  burn_down: BurnDownPoint[]
+}
+
+export interface BudgetAlert {
+  id: string
+  budget_id: string
+  location_id: string
+  location_name: string
+  category: string
+  month: string
+  alert_type: BudgetAlertType
+  budget_amount: number
+  actual_spend: number
+  projected_spend: number
+  created_at: string | null
+}
+
+export const BUDGET_STATUS_LABELS: Record<BudgetStatusLevel, string> = {
+  on_track: 'On track',
+  tracking_over: 'Tracking over',
+  over: 'Over budget'
+}
+
+export const BUDGET_ALERT_LABELS: Record<BudgetAlertType, string> = {
+  PROJECTED_OVER: 'Projected to overrun',
+  OVER_BUDGET: 'Over budget'
+}
+
+/**
+ * Days of spend needed before projecting month-end. One delivery on the 2nd
+ * would otherwise project fifteen times over.
+ */
+export const MIN_PROJECTION_DAYS = 7
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * First day of the month for YYYY-MM, YYYY-MM-DD, M/YYYY or M/D/YYYY, or null
+ */
+export function toBudgetMonth(value: string): string | null {
+  const trimmed = (value || '').trim()
+  const monthYear = trimmed.match(/^(\d{1,2})\/(\d{4})$/)
+  const date = monthYear ? `${monthYear[2]}-${monthYear[1].padStart(2, '0')}` : toISODate(trimmed)
+  const match = date.match(/^(\d{4})-(\d{2})(-\d{2})?$/)
+
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null
+  return `${match[1]}-${match[2]}-01`
+}
+
+function daysInMonth(month: string): number {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthNumber, 0)).getUTCDate()
+}
+
+function monthEnd(month: string): string {
+  return `${month.slice(0, 8)}${String(daysInMonth(month)).padStart(2, '0')}`
+}
+
+/**
+ * Days of the month that have happened by today: 0 for a future month, every
+ * day for a past one
+ */
+function elapsedDays(month: string, today: Date): number {
+  const todayDate = today.toISOString().split('T')[0]
+  if (todayDate < month) return 0
+  if (todayDate > monthEnd(month)) return daysInMonth(month)
+  return Number(todayDate.slice(8, 10))
+}
+
+/**
+ * Month-end spend if the rest of the month goes like the days so far
+ */
+export function projectMonthEnd(actual: number, month: string, today: Date = new Date()): number | null {
+  const elapsed = elapsedDays(month, today)
+  if (elapsed < MIN_PROJECTION_DAYS) return null
+  return roundCurrency((actual / elapsed) * daysInMonth(month))
+}
+
+export function budgetStatusLevel(amount: number, actual: number, projected: number | null): BudgetStatusLevel {
+  if (actual > amount) return 'over'
+  if (projected !== null && projected > amount) return 'tracking_over'
+  return 'on_track'
+}
+
+/**
+ * Cumulative spend per day against an even burn of the budget
+ */
+export function buildBurnDown(
+  dailySpend: Map<string, number>,
+  month: string,
+  amount: number,
+  today: Date = new Date()
+): BurnDownPoint[] {
+  const days = daysInMonth(month)
+  const elapsed = elapsedDays(month, today)
+  const points: BurnDownPoint[] = []
+  let cumulative = 0
+
+  for (let day = 1; day <= days; day++) {
+    const date = `${month.slice(0, 8)}${String(day).padStart(2, '0')}`
+    cumulative += dailySpend.get(date) || 0
+    points.push({
+      date,
+      actual: day <= elapsed ? roundCurrency(cumulative) : null,
+      ideal: roundCurrency((amount * day) / days)
+    })
+  }
+
+  return points
+}
+
+// Importing budgets
+
+const COLUMN_ALIASES: Record<'location' | 'category' | 'month' | 'amount', string[]> = {
+  location: ['location', 'locationname', 'locationid', 'store', 'site'],
+  category: ['category', 'productcategory'],
+  month: ['month', 'period', 'budgetmonth'],
+  amount: ['amount', 'budget', 'target', 'budgetamount']
+}
+
+function findColumn(headers: string[], field: keyof typeof COLUMN_ALIASES): string | null {
+  const aliases = COLUMN_ALIASES[field]
+  return headers.find(header => aliases.includes(header.toLowerCase().replace(/[\s_-]/g, ''))) || null
+}
+
+/**
+ * Parse a budget CSV. Needs location (name or id), month and amount columns;
+ * a blank or missing category budgets the location's total spend. Locations
+ * and categories must be ones the importer knows.
+ */
+export function parseBudgetCsv(
+  csvContent: string,
+  locations: { id: string; name: string }[],
+  categories: string[],
+  sourceFile?: string
+): BudgetParseResult {
+  const parsed = Papa.parse<Record<string, string>>(csvContent, { header: true, skipEmptyLines: true })
+  const headers = parsed.meta.fields || []
+  const errors: string[] = parsed.errors.map(error => `Row ${(error.row ?? 0) + 2}: ${error.message}`)
+
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as Array<keyof typeof COLUMN_ALIASES>).map(field => [field, findColumn(headers, field)])
+  ) as Record<keyof typeof COLUMN_ALIASES, string | null>
+
+  const missing = (['location', 'month', 'amount'] as const).filter(field => !columns[field])
+  if (missing.length > 0) {
+    return { budgets: [], errors: [`Missing required columns: ${missing.join(', ')}`] }
+  }
+
+  const read = (row: Record<string, string>, field: keyof typeof COLUMN_ALIASES) =>
+    columns[field] ? (row[columns[field]!] || '').trim() : ''
+
+  const budgets: BudgetInput[] = []
+
+  parsed.data.forEach((row, index) => {
+    const rowNumber = index + 2
+    const locationValue = read(row, 'location')
+    const location = locations.find(candidate =>
+      candidate.id === locationValue || candidate.name.toLowerCase() === locationValue.toLowerCase()
+    )
+    const categoryValue = read(row, 'category')
+    const category = categoryValue
+      ? categories.find(candidate => candidate.toLowerCase() === categoryValue.toLowerCase())
+      : ''
+    const month = toBudgetMonth(read(row, 'month'))
+    const amount = parseFloat(read(row, 'amount').replace(/[$,]/g, ''))
+
+    if (!location) {
+      errors.push(`Row ${rowNumber}: unknown location "${locationValue}"`)
+      return
+    }
+    if (category === undefined) {
+      errors.push(`Row ${rowNumber}: unknown category "${categoryValue}"`)
+      return
+    }
+    if (!month) {
+      errors.push(`Row ${rowNumber}: invalid month for ${location.name}`)
+      return
+    }
+    if (!(amount > 0)) {
+      errors.push(`Row ${rowNumber}: invalid amount for ${location.name}`)
+      return
+    }
+
+    budgets.push({ location_id: location.id, category, month, amount, source_file: sourceFile || null })
+  })
+
+  return { budgets, errors }
+}
+
+/**
+ * Validate a budget entered by hand. Returns the problems found.
+ */
+export function validateBudget(budget: Partial<BudgetInput>, locationIds: string[], categories: string[]): string[] {
+  const errors: string[] = []
+
+  if (!budget.location_id || !locationIds.includes(budget.location_id)) {
+    errors.push('Unknown location')
+  }
+  if (budget.category && !categories.includes(budget.category)) {
+    errors.push('Unknown category')
+  }
+  if (!budget.month) {
+    errors.push('Month is required')
+  }
+  if (typeof budget.amount !== 'number' || !(budget.amount > 0)) {
+    errors.push('Amount must be greater than zero')
+  }
+
+  return errors
+}
+
+/**
+ * Pick the budget fields out of a request body
+ */
+export function toBudgetInput(body: Record<string, unknown>): Partial<BudgetInput> {
+  return {
+    location_id: typeof body.location_id === 'string' ? body.location_id : undefined,
+    category: typeof body.category === 'string' ? body.category.trim() : '',
+    month: typeof body.month === 'string' ? toBudgetMonth(body.month) || undefined : undefined,
+    amount: body.amount === undefined || body.amount === '' ? undefined : Number(body.amount),
+    source_file: null
+  }
+}
+
+// Reading and saving
+
+export async function listBudgets(month: string, locationIds: string[]): Promise<Budget[]> {
+  if (locationIds.length === 0) return []
+
+  const { data, error } = await getServiceClient()
+    .from('budgets')
+    .select('id, location_id, category, month, amount, source_file')
+    .eq('month', month)
+    .in('location_id', locationIds)
+    .order('category')
+
+  if (error) {
+    throw new Error(`Failed to load budgets: ${error.message}`)
+  }
+
+  return (data || []).map(row => ({ ...row, amount: Number(row.amount) }))
+}
+
+/**
+ * Insert or update budgets, keyed on location, category and month
+ */
+export async function saveBudgets(budgets: BudgetInput[]): Promise<number> {
+  if (budgets.length === 0) return 0
+
+  const { data, error } = await getServiceClient()
+    .from('budgets')
+    .upsert(
+      budgets.map(budget => ({ ...budget, updated_at: new Date().toISOString() })),
+      { onConflict: 'location_id,category,month' }
+    )
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to save budgets: ${error.message}`)
+  }
+
+  return data?.length || 0
+}
+
+/**
+ * Delete a budget at one of the given locations
+ */
+export async function deleteBudget(id: string, locationIds: string[]): Promise<void> {
+  const { data, error } = await getServiceClient()
+    .from('budgets')
+    .delete()
+    .eq('id', id)
+    .in('location_id', locationIds)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to delete budget: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Budget not found')
+  }
+}
+
+interface DaySpend {
+  location_id: string
+  /** Empty for the location total */
+  category: string
+  date: string
+  amount: number
+}
+
+const SPEND_PAGE_SIZE = 1000
+
+/**
+ * Spend per location, category and day for a month: invoice net amounts as
+ * location totals and line items by category. Credit memos count against both.
+ */
+async function loadMonthSpend(month: string, locationIds: string[]): Promise<DaySpend[]> {
+  const client = getServiceClient()
+  const spend: DaySpend[] = []
+
+  const { data: invoices, error } = await client
+    .from('invoices')
+    .select('location_id, invoice_date, net_amount')
+    .in('location_id', locationIds)
+    .gte('invoice_date', month)
+    .lte('invoice_date', monthEnd(month))
+
+  if (error) {
+    throw new Error(`Failed to load invoices for budgets: ${error.message}`)
+  }
+
+  for (const invoice of invoices || []) {
+    spend.push({ location_id: invoice.location_id, category: '', date: invoice.invoice_date, amount: Number(invoice.net_amount) || 0 })
+  }
+
+  for (let from = 0; ; from += SPEND_PAGE_SIZE) {
+    const { data, error: itemsError } = await client
+      .from('invoice_items')
+      .select('product_category, extended_price, invoice:invoices!inner(location_id, invoice_date)')
+      .in('invoice.location_id', locationIds)
+      .gte('invoice.invoice_date', month)
+      .lte('invoice.invoice_date', monthEnd(month))
+      .order('id')
+      .range(from, from + SPEND_PAGE_SIZE - 1)
+
+    if (itemsError) {
+      throw new Error(`Failed to load invoice items for budgets: ${itemsError.message}`)
+    }
+
+    for (const item of data || []) {
+      if (!item.product_category) continue
+      spend.push({
+        location_id: item.invoice.location_id,
+        category: item.product_category,
+        date: item.invoice.invoice_date,
+        amount: Number(item.extended_price) || 0
+      })
+    }
+
+    if (!data || data.length < SPEND_PAGE_SIZE) break
+  }
+
+  return spend
+}
+
+/**
+ * Every budget for the month at the given locations, with actual and
+ * projected spend, most used first
+ */
+export async function getBudgetStatuses(
+  month: string,
+  locationIds: string[],
+  today: Date = new Date()
+): Promise<BudgetStatus[]> {
+  const budgets = await listBudgets(month, locationIds)
+  if (budgets.length === 0) return []
+
+  const budgetLocationIds = Array.from(new Set(budgets.map(budget => budget.location_id)))
+  const [spend, { data: locations, error }] = await Promise.all([
+    loadMonthSpend(month, budgetLocationIds),
+    getServiceClient().from('locations').select('id, name').in('id', budgetLocationIds)
+  ])
+
+  if (error) {
+    throw new Error(`Failed to load locations for budgets: ${error.message}`)
+  }
+
+  return budgets
+    .map(budget => {
+      const dailySpend = new Map<string, number>()
+      for (const day of spend) {
+        if (day.location_id !== budget.location_id || day.category !== budget.category) continue
+        dailySpend.set(day.date, (dailySpend.get(day.date) || 0) + day.amount)
+      }
+
+      const actual = roundCurrency(Array.from(dailySpend.values()).reduce((sum, amount) => sum + amount, 0))
+      const projected = projectMonthEnd(actual, month, today)
+
+      return {
+        budget,
+        location_name: locations?.find(location => location.id === budget.location_id)?.name || 'Unknown',
+        actual,
+        projected,
+        remaining: roundCurrency(budget.amount - actual),
+        percent_used: (actual / budget.amount) * 100,
+        status: budgetStatusLevel(budget.amount, actual, projected),
+        burn_down: buildBurnDown(dailySpend, month, budget.amount, today)
+      }
+    })
+    .sort((a, b) => b.percent_used - a.percent_used)
+}
+
+/**
+ * Raise alerts for budgets tracking or running over this month. Each budget
+ * alerts once per type; returns the alerts raised by this check.
+ */
+export async function checkBudgetAlerts(
+  month: string,
+  locationIds: string[],
+  today: Date = new Date()
+): Promise<BudgetAlert[]> {
+  const statuses = (await getBudgetStatuses(month, locationIds, today)).filter(status => status.status !== 'on_track')
+  if (statuses.length === 0) return []
+
+  const { data, error } = await getServiceClient()
+    .from('budget_alerts')
+    .upsert(
+      statuses.map(status => ({
+        budget_id: status.budget.id,
+        location_id: status.budget.location_id,
+        alert_type: status.status === 'over' ? 'OVER_BUDGET' : 'PROJECTED_OVER',
+        budget_amount: status.budget.amount,
+        actual_spend: status.actual,
+        projected_spend: status.projected ?? status.actual
+      })),
+      { onConflict: 'budget_id,alert_type', ignoreDuplicates: true }
+    )
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to raise budget alerts: ${error.message}`)
+  }
+
+  const raisedIds = (data || []).map(row => row.id)
+  if (raisedIds.length > 0) {
+    console.log(`Budget alerts raised: ${raisedIds.length} for ${month}`)
+  }
+
+  return raisedIds.length > 0 ? listBudgetAlerts(locationIds, { ids: raisedIds }) : []
+}
+
+/**
+ * Budget alerts at the given locations, newest first
+ */
+export async function listBudgetAlerts(
+  locationIds: string[],
+  options: { limit?: number; ids?: string[] } = {}
+): Promise<BudgetAlert[]> {
+  if (locationIds.length === 0) return []
+
+  let query = getServiceClient()
+    .from('budget_alerts')
+    .select('*, budget:budgets(category, month), location:locations(name)')
+    .in('location_id', locationIds)
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 20)
+
+  if (options.ids) {
+    query = query.in('id', options.ids)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load budget alerts: ${error.message}`)
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    budget_id: row.budget_id,
+    location_id: row.location_id,
+    location_name: row.location?.name || 'Unknown',
+    category: row.budget?.category || '',
+    month: row.budget?.month || '',
+    alert_type: row.alert_type as BudgetAlertType,
+    budget_amount: Number(row.budget_amount),
+    actual_spend: Number(row.actual_spend),
+    projected_spend: Number(row.projected_spend),
+    created_at: row.created_at
+  }))
+}
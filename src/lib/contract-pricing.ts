@@ -0,0 +1,490 @@
+import Papa from 'papaparse'
+import { getServiceClient } from './supabase'
+import { toISODate } from './csv-parser'
+import { billedQuantity } from './unit-pricing'
+
+/**
+ * Vendor contract pricing: agreed unit prices per product (and optionally pack
+ * size), valid for a date range. Invoice lines are checked against the contract
+ * in force on the invoice date and anything billed above it is an overcharge.
+ * Each organization negotiates its own, so price lists belong to one.
+ */
+
+export interface ContractPrice {
+  id: string
+  vendor_id: string
+  product_number: string
+  product_description: string | null
+  /** Empty when the price applies to every pack of the product */
+  pack_size: string
+  pricing_unit: string | null
+  contract_price: number
+  effective_from: string
+  effective_to: string | null
+  source_file?: string | null
+}
+
+export type ContractPriceInput = Omit<ContractPrice, 'id' | 'vendor_id'>
+
+export interface ContractPriceListParseResult {
+  contracts: ContractPriceInput[]
+  errors: string[]
+}
+
+/** The parts of an invoice line the compliance check needs; ParsedLineItem fits */
+export interface ContractCheckLine {
+  productNumber: string
+  productDescription: string
+  packingSize: string
+  pricingUnit: string
+  unitPrice: number
+  qtyShipped: number
+  /** Shipped weight for catch-weight items */
+  weight?: number
+}
+
+export type ContractCheckStatus = 'overcharge' | 'undercharge' | 'compliant'
+
+export interface ContractCheck {
+  productNumber: string
+  productDescription: string
+  packSize: string
+  pricingUnit: string
+  /** Quantity the price is charged on: pounds for catch-weight lines priced by weight */
+  quantity: number
+  billedPrice: number
+  contractPrice: number
+  contractPriceId: string | null
+  variancePerUnit: number
+  /** variancePerUnit × quantity; positive means we paid more than agreed */
+  varianceAmount: number
+  status: ContractCheckStatus
+}
+
+export interface ContractCheckSummary {
+  contractedLines: number
+  overchargeLines: number
+  overchargeAmount: number
+  underchargeAmount: number
+}
+
+export interface InvoiceVarianceReport extends ContractCheckSummary {
+  invoiceId: string
+  documentNumber: string
+  invoiceDate: string
+  locationName: string
+  lines: ContractCheck[]
+}
+
+// Billing differences under half a cent are rounding, not overcharges
+const CONTRACT_TOLERANCE = 0.005
+
+function normalizePackKey(packSize: string | null | undefined): string {
+  return (packSize || '').trim().toUpperCase().replace(/\s+/g, ' ')
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// Stage 1: parse a price list
+
+const COLUMN_ALIASES: Record<keyof Omit<ContractPriceInput, 'source_file'>, string[]> = {
+  product_number: ['productnumber', 'product#', 'productno', 'item', 'itemnumber', 'sku'],
+  product_description: ['productdescription', 'description'],
+  pack_size: ['packsize', 'packingsize', 'pack'],
+  pricing_unit: ['pricingunit', 'unit'],
+  contract_price: ['contractprice', 'agreedprice', 'unitprice', 'price'],
+  effective_from: ['effectivefrom', 'effectivedate', 'startdate', 'from'],
+  effective_to: ['effectiveto', 'enddate', 'expirationdate', 'to']
+}
+
+function findColumn(headers: string[], field: keyof typeof COLUMN_ALIASES): string | null {
+  const aliases = COLUMN_ALIASES[field]
+  return headers.find(header => aliases.includes(header.toLowerCase().replace(/[\s_-]/g, ''))) || null
+}
+
+/**
+ * Parse a contract price list CSV. Needs product number, contract price and
+ * effective-from columns; pack size, pricing unit, description and
+ * effective-to are optional.
+ */
+export function parseContractPriceList(csvContent: string, sourceFile?: string): ContractPriceListParseResult {
+  const parsed = Papa.parse<Record<string, string>>(csvContent, { header: true, skipEmptyLines: true })
+  const headers = parsed.meta.fields || []
+  const errors: string[] = parsed.errors.map(error => `Row ${(error.row ?? 0) + 2}: ${error.message}`)
+
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as Array<keyof typeof COLUMN_ALIASES>).map(field => [field, findColumn(headers, field)])
+  ) as Record<keyof typeof COLUMN_ALIASES, string | null>
+
+  const missing = (['product_number', 'contract_price', 'effective_from'] as const).filter(field => !columns[field])
+  if (missing.length > 0) {
+    return { contracts: [], errors: [`Missing required columns: ${missing.join(', ')}`] }
+  }
+
+  const read = (row: Record<string, string>, field: keyof typeof COLUMN_ALIASES) =>
+    columns[field] ? (row[columns[field]!] || '').trim() : ''
+
+  const contracts: ContractPriceInput[] = []
+
+  parsed.data.forEach((row, index) => {
+    const rowNumber = index + 2
+    const productNumber = read(row, 'product_number')
+    const price = parseFloat(read(row, 'contract_price').replace(/[$,]/g, ''))
+    const effectiveFrom = toISODate(read(row, 'effective_from'))
+    const effectiveTo = read(row, 'effective_to') ? toISODate(read(row, 'effective_to')) : null
+
+    if (!productNumber) {
+      errors.push(`Row ${rowNumber}: missing product number`)
+      return
+    }
+    if (!(price > 0)) {
+      errors.push(`Row ${rowNumber}: invalid contract price for ${productNumber}`)
+      return
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) {
+      errors.push(`Row ${rowNumber}: invalid effective date for ${productNumber}`)
+      return
+    }
+    if (effectiveTo && (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveTo) || effectiveTo < effectiveFrom)) {
+      errors.push(`Row ${rowNumber}: invalid end date for ${productNumber}`)
+      return
+    }
+
+    contracts.push({
+      product_number: productNumber,
+      product_description: read(row, 'product_description') || null,
+      pack_size: normalizePackKey(read(row, 'pack_size')),
+      pricing_unit: read(row, 'pricing_unit').toUpperCase() || null,
+      contract_price: price,
+      effective_from: effectiveFrom,
+      effective_to: effectiveTo,
+      source_file: sourceFile || null
+    })
+  })
+
+  return { contracts, errors }
+}
+
+// Stage 2: check invoice lines
+
+/**
+ * The contract price in force for a product and pack on a date. A price for the
+ * exact pack beats an any-pack price; otherwise the latest effective date wins.
+ */
+export function findContractPrice(
+  contracts: Array<ContractPriceInput & { id?: string }>,
+  productNumber: string,
+  packSize: string,
+  date: string
+): (ContractPriceInput & { id?: string }) | null {
+  const packKey = normalizePackKey(packSize)
+
+  const candidates = contracts.filter(contract =>
+    contract.product_number === productNumber &&
+    (!contract.pack_size || normalizePackKey(contract.pack_size) === packKey) &&
+    contract.effective_from <= date &&
+    (!contract.effective_to || contract.effective_to >= date)
+  )
+
+  if (candidates.length === 0) return null
+
+  return candidates.reduce((best, contract) => {
+    if (!!contract.pack_size !== !!best.pack_size) return contract.pack_size ? contract : best
+    return contract.effective_from > best.effective_from ? contract : best
+  })
+}
+
+/**
+ * Compare each invoice line with a contract price against it. Lines without a
+ * contract are left out.
+ */
+export function checkContractCompliance(
+  lines: ContractCheckLine[],
+  contracts: ContractPrice[],
+  invoiceDate: string
+): ContractCheck[] {
+  const checks: ContractCheck[] = []
+
+  for (const line of lines) {
+    if (line.unitPrice <= 0) continue
+
+    const contract = findContractPrice(contracts, line.productNumber, line.packingSize, invoiceDate)
+    if (!contract) continue
+
+    const variancePerUnit = line.unitPrice - Number(contract.contract_price)
+    const quantity = billedQuantity(line)
+
+    checks.push({
+      productNumber: line.productNumber,
+      productDescription: line.productDescription,
+      packSize: line.packingSize,
+      pricingUnit: line.pricingUnit,
+      quantity,
+      billedPrice: line.unitPrice,
+      contractPrice: Number(contract.contract_price),
+      contractPriceId: contract.id || null,
+      variancePerUnit: Math.round(variancePerUnit * 10000) / 10000,
+      varianceAmount: roundCurrency(variancePerUnit * quantity),
+      status: variancePerUnit > CONTRACT_TOLERANCE
+        ? 'overcharge'
+        : variancePerUnit < -CONTRACT_TOLERANCE ? 'undercharge' : 'compliant'
+    })
+  }
+
+  return checks
+}
+
+export function summarizeContractChecks(checks: ContractCheck[]): ContractCheckSummary {
+  const overcharges = checks.filter(check => check.status === 'overcharge')
+
+  return {
+    contractedLines: checks.length,
+    overchargeLines: overcharges.length,
+    overchargeAmount: roundCurrency(overcharges.reduce((sum, check) => sum + check.varianceAmount, 0)),
+    underchargeAmount: roundCurrency(
+      checks.filter(check => check.status === 'undercharge').reduce((sum, check) => sum + Math.abs(check.varianceAmount), 0)
+    )
+  }
+}
+
+/**
+ * Billed vs contract report as CSV, for sending to the vendor rep
+ */
+export function formatVarianceReportCSV(report: InvoiceVarianceReport): string {
+  const rows = report.lines.map(line => ({
+    'Invoice': report.documentNumber,
+    'Invoice Date': report.invoiceDate,
+    'Location': report.locationName,
+    'Product Number': line.productNumber,
+    'Description': line.productDescription,
+    'Pack Size': line.packSize,
+    'Pricing Unit': line.pricingUnit,
+    'Qty Billed': line.quantity,
+    'Billed Price': line.billedPrice.toFixed(2),
+    'Contract Price': line.contractPrice.toFixed(2),
+    'Variance Per Unit': line.variancePerUnit.toFixed(2),
+    'Variance Amount': line.varianceAmount.toFixed(2),
+    'Status': line.status
+  }))
+
+  return Papa.unparse(rows)
+}
+
+// Persistence
+
+/**
+ * The organization's contract prices, for one vendor or all of them,
+ * optionally only for some products
+ */
+export async function loadContractPrices(
+  organizationId: string,
+  vendorId?: string,
+  productNumbers?: string[]
+): Promise<ContractPrice[]> {
+  let query = getServiceClient()
+    .from('contract_prices')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('product_number')
+    .order('effective_from', { ascending: false })
+
+  if (vendorId) {
+    query = query.eq('vendor_id', vendorId)
+  }
+  if (productNumbers) {
+    if (productNumbers.length === 0) return []
+    query = query.in('product_number', productNumbers)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load contract prices: ${error.message}`)
+  }
+
+  return (data || []).map(row => ({ ...row, contract_price: Number(row.contract_price) })) as ContractPrice[]
+}
+
+/**
+ * Insert or update the organization's contract prices, keyed on product, pack
+ * size and effective date
+ */
+export async function saveContractPrices(organizationId: string, contracts: ContractPriceInput[], vendorId: string): Promise<number> {
+  if (contracts.length === 0) return 0
+
+  const { data, error } = await getServiceClient()
+    .from('contract_prices')
+    .upsert(
+      contracts.map(contract => ({
+        ...contract,
+        organization_id: organizationId,
+        vendor_id: vendorId,
+        updated_at: new Date().toISOString()
+      })),
+      { onConflict: 'organization_id,vendor_id,product_number,pack_size,effective_from' }
+    )
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to save contract prices: ${error.message}`)
+  }
+
+  return data?.length || 0
+}
+
+export async function deleteContractPrice(organizationId: string, id: string): Promise<void> {
+  const { error } = await getServiceClient()
+    .from('contract_prices')
+    .delete()
+    .eq('id', id)
+    .eq('organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to delete contract price: ${error.message}`)
+  }
+}
+
+interface InvoiceItemRow {
+  product_number: string
+  product_description: string | null
+  pack_size: string | null
+  pricing_unit: string | null
+  unit_price: number | null
+  qty_shipped: number | null
+  weight: number | null
+  invoice: {
+    id: string
+    document_number: string
+    invoice_date: string
+    vendor_id: string
+    location_id: string
+    location: { name: string } | null
+  }
+}
+
+function toContractCheckLine(item: InvoiceItemRow): ContractCheckLine {
+  return {
+    productNumber: item.product_number,
+    productDescription: item.product_description || '',
+    packingSize: item.pack_size || '',
+    pricingUnit: item.pricing_unit || '',
+    unitPrice: Number(item.unit_price) || 0,
+    qtyShipped: Number(item.qty_shipped) || 0,
+    weight: Number(item.weight) || 0
+  }
+}
+
+function buildReports(items: InvoiceItemRow[], contracts: ContractPrice[]): InvoiceVarianceReport[] {
+  const byInvoice = new Map<string, InvoiceItemRow[]>()
+  items.forEach(item => {
+    if (!byInvoice.has(item.invoice.id)) byInvoice.set(item.invoice.id, [])
+    byInvoice.get(item.invoice.id)!.push(item)
+  })
+
+  return Array.from(byInvoice.values()).map(invoiceItems => {
+    const invoice = invoiceItems[0].invoice
+    const vendorContracts = contracts.filter(contract => contract.vendor_id === invoice.vendor_id)
+    const lines = checkContractCompliance(invoiceItems.map(toContractCheckLine), vendorContracts, invoice.invoice_date)
+
+    return {
+      invoiceId: invoice.id,
+      documentNumber: invoice.document_number,
+      invoiceDate: invoice.invoice_date,
+      locationName: invoice.location?.name || 'Unknown',
+      lines,
+      ...summarizeContractChecks(lines)
+    }
+  })
+}
+
+const INVOICE_ITEM_SELECT = `
+  product_number,
+  product_description,
+  pack_size,
+  pricing_unit,
+  unit_price,
+  qty_shipped,
+  weight,
+  invoice:invoices!inner(id, document_number, invoice_date, vendor_id, document_type, location_id, location:locations(name))
+`
+
+/**
+ * Billed vs the organization's contracts for one invoice, or null when the
+ * invoice doesn't exist or isn't at one of the given locations
+ */
+export async function getInvoiceVarianceReport(
+  organizationId: string,
+  invoiceId: string,
+  locationIds?: string[]
+): Promise<InvoiceVarianceReport | null> {
+  const { data: invoice, error: invoiceError } = await getServiceClient()
+    .from('invoices')
+    .select('id, document_number, invoice_date, location_id, vendor_id, location:locations(name)')
+    .eq('id', invoiceId)
+    .maybeSingle()
+
+  if (invoiceError) {
+    throw new Error(`Failed to load invoice ${invoiceId}: ${invoiceError.message}`)
+  }
+  if (!invoice || (locationIds && !locationIds.includes(invoice.location_id))) return null
+
+  const { data: items, error } = await getServiceClient()
+    .from('invoice_items')
+    .select(INVOICE_ITEM_SELECT)
+    .eq('invoice_id', invoiceId)
+
+  if (error) {
+    throw new Error(`Failed to load items for invoice ${invoiceId}: ${error.message}`)
+  }
+
+  const rows = (items || []) as unknown as InvoiceItemRow[]
+  const contracts = invoice.vendor_id
+    ? await loadContractPrices(organizationId, invoice.vendor_id, Array.from(new Set(rows.map(item => item.product_number))))
+    : []
+  const [report] = buildReports(rows, contracts)
+
+  return report || {
+    invoiceId: invoice.id,
+    documentNumber: invoice.document_number,
+    invoiceDate: invoice.invoice_date,
+    locationName: (invoice.location as unknown as { name: string } | null)?.name || 'Unknown',
+    lines: [],
+    ...summarizeContractChecks([])
+  }
+}
+
+/**
+ * Invoices with lines under the organization's contracts, most recent first,
+ * optionally only at the given locations. Lines are checked against the
+ * current price list, so contracts added later apply to past invoices too.
+ */
+export async function listInvoiceVarianceReports(
+  organizationId: string,
+  limit: number = 50,
+  locationIds?: string[]
+): Promise<InvoiceVarianceReport[]> {
+  const contracts = await loadContractPrices(organizationId)
+  const productNumbers = Array.from(new Set(contracts.map(contract => contract.product_number)))
+  if (productNumbers.length === 0) return []
+
+  let query = getServiceClient()
+    .from('invoice_items')
+    .select(INVOICE_ITEM_SELECT)
+    .in('product_number', productNumbers)
+    .neq('invoice.document_type', 'CREDIT_MEMO') // Returns are refunded at the billed price
+
+  if (locationIds) query = query.in('invoice.location_id', locationIds)
+
+  const { data: items, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load contracted invoice items: ${error.message}`)
+  }
+
+  return buildReports((items || []) as unknown as InvoiceItemRow[], contracts)
+    .filter(report => report.contractedLines > 0)
+    .sort((a, b) => b.invoiceDate.localeCompare(a.invoiceDate))
+    .slice(0, limit)
+}
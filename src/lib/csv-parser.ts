@@ -1,4 +1,5 @@
 import Papa from 'papaparse'
+import { assignCategory } from './product-categories'
 
 export interface USFoodsInvoiceRow {
   DocumentNumber: string
@@ -60,7 +61,12 @@ export interface USFoodsInvoiceRow {
   ExtendedPrice: string
 }
 
+/** A CSV row keyed by its headers, for formats other than US Foods */
+export type InvoiceRow = Record<string, string>
+
 export interface ParsedInvoice {
+  /** The distributor that sent the invoice, by vendor code (US Foods is USFOODS) */
+  vendorCode: string
   documentNumber: string
   documentType: string
   documentDate: string
@@ -75,8 +81,11 @@ export interface ParsedInvoice {
   dateShipped: string
   usfSalesLocation: string
   usfSalesRep: string
+  creditMemoNumber: string
+  creditMemoDate: string
+  isCreditMemo: boolean
   lineItems: ParsedLineItem[]
-  rawData: USFoodsInvoiceRow[]
+  rawData: Array<USFoodsInvoiceRow | InvoiceRow>
 }
 
 export interface ParsedLineItem {
@@ -91,148 +100,32 @@ export interface ParsedLineItem {
   pricingUnit: string
   unitPrice: number
   extendedPrice: number
-}
-
-export interface PackSizeInfo {
-  units: number
-  size: string
-  unitType: string
-  totalUnits: number
+  /** The CSV row this line came from, as kept in ParsedInvoice.rawData */
+  rawRow?: USFoodsInvoiceRow | InvoiceRow
 }
 
 /**
- * Parses complex pack size formats from US Foods invoices
- * Examples: "6/16.5 OZ" -> {units: 6, size: "16.5", unitType: "OZ", totalUnits: 99}
+ * Convert US Foods MM/DD/YYYY dates to ISO YYYY-MM-DD, leaving other formats untouched
  */
-export function parsePackSize(packSize: string): PackSizeInfo {
-  if (!packSize || packSize.trim() === '') {
-    return { units: 1, size: '', unitType: '', totalUnits: 1 }
-  }
-
-  const normalized = packSize.trim().toLowerCase()
-  
-  // Pattern 1: "6/16.5 OZ" or "24/24 OZ"
-  const slashPattern = /^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*([a-z]+)$/i
-  const slashMatch = normalized.match(slashPattern)
-  if (slashMatch) {
-    const units = parseFloat(slashMatch[1])
-    const size = parseFloat(slashMatch[2])
-    const unitType = slashMatch[3].toUpperCase()
-    return {
-      units,
-      size: slashMatch[2],
-      unitType,
-      totalUnits: units * size
-    }
-  }
-
-  // Pattern 2: "35 LB" or "25 LB"
-  const simplePattern = /^(\d+(?:\.\d+)?)\s*([a-z]+)$/i
-  const simpleMatch = normalized.match(simplePattern)
-  if (simpleMatch) {
-    const size = parseFloat(simpleMatch[1])
-    const unitType = simpleMatch[2].toUpperCase()
-    return {
-      units: 1,
-      size: simpleMatch[1],
-      unitType,
-      totalUnits: size
-    }
-  }
+export function toISODate(date: string): string {
+  const match = (date || '').trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (!match) return (date || '').trim()
 
-  // Pattern 3: "2000 EA" or "88 EA"
-  const countPattern = /^(\d+)\s*(ea|each)$/i
-  const countMatch = normalized.match(countPattern)
-  if (countMatch) {
-    const count = parseInt(countMatch[1])
-    return {
-      units: 1,
-      size: count.toString(),
-      unitType: 'EA',
-      totalUnits: count
-    }
-  }
-
-  // Pattern 4: "6/#10 CN" (cans)
-  const canPattern = /^(\d+)\s*\/\s*#(\d+)\s*(cn|can)$/i
-  const canMatch = normalized.match(canPattern)
-  if (canMatch) {
-    const units = parseInt(canMatch[1])
-    const size = canMatch[2]
-    return {
-      units,
-      size: `#${size}`,
-      unitType: 'CN',
-      totalUnits: units
-    }
-  }
-
-  // Pattern 5: "1.1 BU" (bushel)
-  const decimalPattern = /^(\d+\.\d+)\s*([a-z]+)$/i
-  const decimalMatch = normalized.match(decimalPattern)
-  if (decimalMatch) {
-    const size = parseFloat(decimalMatch[1])
-    const unitType = decimalMatch[2].toUpperCase()
-    return {
-      units: 1,
-      size: decimalMatch[1],
-      unitType,
-      totalUnits: size
-    }
-  }
-
-  // Fallback: return original string as size
-  return {
-    units: 1,
-    size: packSize,
-    unitType: '',
-    totalUnits: 1
-  }
+  const [, month, day, year] = match
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
 }
 
 /**
- * Categorizes products based on description keywords
+ * Categorizes products with the default keyword rules; the importer uses the
+ * rules and overrides saved in the database instead
  */
 export function categorizeProduct(description: string): string {
-  const desc = description.toLowerCase()
-  
-  // Produce
-  if (desc.includes('tomato') || desc.includes('lettuce') || desc.includes('onion') || 
-      desc.includes('pepper') || desc.includes('orange') || desc.includes('tomatillo') ||
-      desc.includes('fresh') || desc.includes('produce')) {
-    return 'Produce'
-  }
-  
-  // Protein
-  if (desc.includes('beef') || desc.includes('chicken') || desc.includes('fish') ||
-      desc.includes('tilapia') || desc.includes('protein') || desc.includes('meat')) {
-    return 'Protein'
-  }
-  
-  // Dairy
-  if (desc.includes('cheese') || desc.includes('sour cream') || desc.includes('milk') ||
-      desc.includes('dairy') || desc.includes('cream')) {
-    return 'Dairy'
-  }
-  
-  // Supplies
-  if (desc.includes('bag') || desc.includes('container') || desc.includes('wrap') ||
-      desc.includes('cup') || desc.includes('supplies')) {
-    return 'Supplies'
-  }
-  
-  // Beverages
-  if (desc.includes('juice') || desc.includes('soda') || desc.includes('water') ||
-      desc.includes('beverage') || desc.includes('drink')) {
-    return 'Beverages'
-  }
-  
-  // Dry Goods (default for everything else)
-  return 'Dry Goods'
+  return assignCategory('', description).category
 }
 
 /**
- * Parses CSV content and extracts invoice data
+ * Parses a US Foods CSV export into invoices. Other distributors' exports go
+ * through parseWithVendorFormat in vendor-formats.ts.
  */
 export function parseCSVContent(csvContent: string): Promise<ParsedInvoice[]> {
   return new Promise((resolve, reject) => {
@@ -278,6 +171,7 @@ function processInvoiceData(rows: USFoodsInvoiceRow[]): ParsedInvoice[] {
     if (!invoiceMap.has(documentNumber)) {
       // Create new invoice
       const invoice: ParsedInvoice = {
+        vendorCode: 'USFOODS',
         documentNumber,
         documentType: row.DocumentType || 'INVOICE',
         documentDate: row.DocumentDate,
@@ -292,6 +186,9 @@ function processInvoiceData(rows: USFoodsInvoiceRow[]): ParsedInvoice[] {
         dateShipped: row.DateShipped,
         usfSalesLocation: row.USFSalesLocation,
         usfSalesRep: row.USFSalesRep,
+        creditMemoNumber: (row.CreditMemoNumber || '').trim(),
+        creditMemoDate: (row.CreditMemoDate || '').trim(),
+        isCreditMemo: false,
         lineItems: [],
         rawData: []
       }
@@ -313,7 +210,8 @@ function processInvoiceData(rows: USFoodsInvoiceRow[]): ParsedInvoice[] {
         qtyAdjusted: parseInt(row.QtyAdjust) || 0,
         pricingUnit: row.PricingUnit,
         unitPrice: parseFloat(row.UnitPrice) || 0,
-        extendedPrice: parseFloat(row.ExtendedPrice) || 0
+        extendedPrice: parseFloat(row.ExtendedPrice) || 0,
+        rawRow: row
       }
       invoice.lineItems.push(lineItem)
     }
@@ -322,7 +220,39 @@ function processInvoiceData(rows: USFoodsInvoiceRow[]): ParsedInvoice[] {
     invoice.rawData.push(row)
   }
   
-  return Array.from(invoiceMap.values())
+  return applyCreditMemoSigns(Array.from(invoiceMap.values()))
+}
+
+/**
+ * Mark credit memos and flip their signs. Credit memos reduce spend:
+ * quantities and amounts are stored as negatives whatever sign the export
+ * used, while unit prices stay positive.
+ */
+export function applyCreditMemoSigns(invoices: ParsedInvoice[]): ParsedInvoice[] {
+  for (const invoice of invoices) {
+    invoice.isCreditMemo = isCreditMemoDocument(invoice.documentType, invoice.netAmountAfterAdjustment)
+    if (!invoice.isCreditMemo) continue
+
+    invoice.netAmountAfterAdjustment = -Math.abs(invoice.netAmountAfterAdjustment)
+    invoice.netAmountBeforeAdjustment = -Math.abs(invoice.netAmountBeforeAdjustment)
+    for (const item of invoice.lineItems) {
+      item.qtyOrdered = -Math.abs(item.qtyOrdered)
+      item.qtyShipped = -Math.abs(item.qtyShipped)
+      item.unitPrice = Math.abs(item.unitPrice)
+      item.extendedPrice = -Math.abs(item.extendedPrice)
+    }
+  }
+
+  return invoices
+}
+
+/**
+ * Whether a document refunds product rather than charging for it
+ * Examples: "CREDIT MEMO", "CM", "RETURN", or any document with a negative net amount
+ */
+export function isCreditMemoDocument(documentType: string, netAmount: number): boolean {
+  const type = (documentType || '').trim().toUpperCase()
+  return /CREDIT|RETURN/.test(type) || type === 'CM' || netAmount < 0
 }
 
 /**
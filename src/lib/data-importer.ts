@@ -1,18 +1,35 @@
-import { supabase } from './supabase'
-import { parseCSVContent, ParsedInvoice, categorizeProduct } from './csv-parser'
+import { getServiceClient } from './supabase'
+import { ParsedInvoice } from './csv-parser'
+import { parseInvoiceFile, runImportPipeline, InvoiceImportOutcome, InvoiceImportStatus } from './import-pipeline'
+import { listVendorFormats } from './vendor-formats'
+import { getLocationOrganizationId } from './organizations'
 import { readFileSync, readdirSync, statSync } from 'fs'
 import { join } from 'path'
 
+export type { InvoiceImportOutcome, InvoiceImportStatus } from './import-pipeline'
+
 export interface ImportResult {
   success: boolean
   totalFiles: number
   processedFiles: number
   totalInvoices: number
   totalLineItems: number
+  newInvoices: number
+  updatedInvoices: number
+  unchangedInvoices: number
+  failedInvoices: number
+  invoiceOutcomes: InvoiceImportOutcome[]
   errors: string[]
   skippedFiles: string[]
 }
 
+export interface DirectoryImportOptions {
+  /** Report what would be imported without writing to the database */
+  dryRun?: boolean
+  /** Only process the first N files, for trial runs */
+  limit?: number
+}
+
 export interface ImportProgress {
   currentFile: string
   processedFiles: number
@@ -23,12 +40,15 @@ export interface ImportProgress {
 }
 
 /**
- * Import all CSV files from a directory directly into Supabase
+ * Import all CSV files from a directory directly into Supabase. Each file's
+ * vendor is detected from its columns unless vendorId is given.
  */
 export async function importInvoicesFromDirectory(
   directoryPath: string,
-  restaurantId: string,
-  onProgress?: (progress: ImportProgress) => void
+  locationId: string,
+  vendorId: string | undefined,
+  onProgress?: (progress: ImportProgress) => void,
+  options: DirectoryImportOptions = {}
 ): Promise<ImportResult> {
   const result: ImportResult = {
     success: false,
@@ -36,6 +56,11 @@ export async function importInvoicesFromDirectory(
     processedFiles: 0,
     totalInvoices: 0,
     totalLineItems: 0,
+    newInvoices: 0,
+    updatedInvoices: 0,
+    unchangedInvoices: 0,
+    failedInvoices: 0,
+    invoiceOutcomes: [],
     errors: [],
     skippedFiles: []
   }
@@ -44,6 +69,8 @@ export async function importInvoicesFromDirectory(
     // Get all CSV files in directory
     const files = readdirSync(directoryPath)
       .filter(file => file.toLowerCase().endsWith('.csv'))
+      .sort()
+      .slice(0, options.limit)
       .map(file => join(directoryPath, file))
 
     result.totalFiles = files.length
@@ -55,6 +82,8 @@ export async function importInvoicesFromDirectory(
 
     console.log(`Found ${files.length} CSV files to process`)
 
+    const formats = await listVendorFormats(await getLocationOrganizationId(locationId))
+
     for (let i = 0; i < files.length; i++) {
       const filePath = files[i]
       const fileName = filePath.split('/').pop() || ''
@@ -88,7 +117,7 @@ export async function importInvoicesFromDirectory(
           continue
         }
 
-        const invoices = await parseCSVContent(csvContent)
+        const invoices = await parseInvoiceFile(csvContent, formats)
         
         if (invoices.length === 0) {
           console.log(`No invoices found in file: ${fileName}`)
@@ -96,14 +125,15 @@ export async function importInvoicesFromDirectory(
           continue
         }
 
-        // Import invoices to database
-        await importInvoicesToDatabase(invoices, restaurantId)
+        // Run the import pipeline, one transaction per invoice
+        const outcomes = await runImportPipeline(invoices, { locationId, vendorId, fileName, dryRun: options.dryRun })
+        tallyOutcomes(result, outcomes)
         
         result.processedFiles++
         result.totalInvoices += invoices.length
         result.totalLineItems += invoices.reduce((sum, inv) => sum + inv.lineItems.length, 0)
 
-        console.log(`Processed ${fileName}: ${invoices.length} invoices`)
+        console.log(`Processed ${fileName}: ${describeOutcomes(outcomes)}`)
 
       } catch (error) {
         const errorMsg = `Error processing ${fileName}: ${error instanceof Error ? error.message : String(error)}`
@@ -124,230 +154,82 @@ export async function importInvoicesFromDirectory(
 }
 
 /**
- * Import parsed invoices directly to Supabase database
+ * Add per-invoice outcomes to an import result
  */
-async function importInvoicesToDatabase(invoices: ParsedInvoice[], restaurantId: string): Promise<void> {
-  for (const invoice of invoices) {
-    try {
-      // Check if invoice already exists
-      const { data: existingInvoice } = await supabase
-        .from('invoices')
-        .select('id')
-        .eq('document_number', invoice.documentNumber)
-        .single()
-
-      if (existingInvoice) {
-        console.log(`Invoice ${invoice.documentNumber} already exists, skipping`)
-        continue
-      }
-
-      // Insert invoice
-      const { data: invoiceData, error: invoiceError } = await supabase
-        .from('invoices')
-        .insert({
-          restaurant_id: restaurantId,
-          document_number: invoice.documentNumber,
-          document_type: invoice.documentType,
-          document_date: invoice.documentDate,
-          customer_number: invoice.customerNumber,
-          order_number: invoice.orderNumber,
-          net_amount_after_adjustment: invoice.netAmountAfterAdjustment,
-          net_amount_before_adjustment: invoice.netAmountBeforeAdjustment,
-          delivery_adjustment: invoice.deliveryAdjustment,
-          payment_terms: invoice.paymentTerms,
-          date_ordered: invoice.dateOrdered,
-          date_shipped: invoice.dateShipped,
-          usf_sales_location: invoice.usfSalesLocation,
-          usf_sales_rep: invoice.usfSalesRep,
-          raw_data: invoice.rawData
-        })
-        .select()
-        .single()
-
-      if (invoiceError) {
-        throw new Error(`Failed to insert invoice ${invoice.documentNumber}: ${invoiceError.message}`)
-      }
-
-      // Insert line items
-      if (invoice.lineItems.length > 0) {
-        const lineItemsToInsert = invoice.lineItems.map(item => ({
-          invoice_id: invoiceData.id,
-          product_number: item.productNumber,
-          product_description: item.productDescription,
-          product_label: item.productLabel,
-          packing_size: item.packingSize,
-          weight: item.weight,
-          qty_ordered: item.qtyOrdered,
-          qty_shipped: item.qtyShipped,
-          qty_adjusted: item.qtyAdjusted,
-          pricing_unit: item.pricingUnit,
-          unit_price: item.unitPrice,
-          extended_price: item.extendedPrice
-        }))
-
-        const { error: lineItemsError } = await supabase
-          .from('invoice_line_items')
-          .insert(lineItemsToInsert)
-
-        if (lineItemsError) {
-          throw new Error(`Failed to insert line items for invoice ${invoice.documentNumber}: ${lineItemsError.message}`)
-        }
-
-        // Update product master and price history
-        await updateProductMasterAndPriceHistory(invoice, invoiceData.id, restaurantId)
-      }
-
-    } catch (error) {
-      console.error(`Error importing invoice ${invoice.documentNumber}:`, error)
-      throw error
+export function tallyOutcomes(result: ImportResult, outcomes: InvoiceImportOutcome[]): void {
+  for (const outcome of outcomes) {
+    result.invoiceOutcomes.push(outcome)
+
+    switch (outcome.status) {
+      case 'new':
+        result.newInvoices++
+        break
+      case 'updated':
+        result.updatedInvoices++
+        break
+      case 'unchanged':
+        result.unchangedInvoices++
+        break
+      case 'failed':
+        result.failedInvoices++
+        result.errors.push(`Invoice ${outcome.documentNumber}${outcome.fileName ? ` (${outcome.fileName})` : ''}: ${outcome.error}`)
+        break
     }
   }
 }
 
 /**
- * Update product master table and price history
+ * Summarize outcomes as "2 new, 1 updated, 0 unchanged, 0 failed"
  */
-async function updateProductMasterAndPriceHistory(
-  invoice: ParsedInvoice, 
-  invoiceId: string, 
-  restaurantId: string
-): Promise<void> {
-  for (const item of invoice.lineItems) {
-    try {
-      // Check if product exists in master
-      const { data: existingProduct } = await supabase
-        .from('product_master')
-        .select('id')
-        .eq('product_number', item.productNumber)
-        .single()
-
-      if (!existingProduct) {
-        // Insert new product
-        const category = categorizeProduct(item.productDescription)
-        
-        const { error: productError } = await supabase
-          .from('product_master')
-          .insert({
-            product_number: item.productNumber,
-            description: item.productDescription,
-            brand: item.productLabel || null,
-            category: category,
-            pack_size: item.packingSize,
-            unit_type: item.pricingUnit
-          })
-
-        if (productError) {
-          console.error(`Failed to insert product ${item.productNumber}:`, productError.message)
-        }
-      }
-
-      // Insert price history
-      const { error: priceHistoryError } = await supabase
-        .from('price_history')
-        .insert({
-          product_number: item.productNumber,
-          restaurant_id: restaurantId,
-          price: item.unitPrice,
-          pricing_unit: item.pricingUnit,
-          invoice_date: invoice.documentDate,
-          invoice_id: invoiceId
-        })
-
-      if (priceHistoryError) {
-        console.error(`Failed to insert price history for ${item.productNumber}:`, priceHistoryError.message)
-      }
-
-      // Check for price alerts (20% threshold)
-      await checkAndCreatePriceAlert(item.productNumber, item.unitPrice, invoice.documentDate, restaurantId)
-
-    } catch (error) {
-      console.error(`Error updating product ${item.productNumber}:`, error)
-    }
-  }
+export function describeOutcomes(outcomes: InvoiceImportOutcome[]): string {
+  const count = (status: InvoiceImportStatus) => outcomes.filter(o => o.status === status).length
+  return `${count('new')} new, ${count('updated')} updated, ${count('unchanged')} unchanged, ${count('failed')} failed`
 }
 
 /**
- * Check for significant price changes and create alerts
+ * Import parsed invoices to Supabase. Each invoice is committed or rolled back as a unit
+ * by the import pipeline, keyed on document number + location, and recorded
+ * against its detected vendor unless vendorId is given.
  */
-async function checkAndCreatePriceAlert(
-  productNumber: string,
-  currentPrice: number,
-  invoiceDate: string,
-  restaurantId: string
-): Promise<void> {
-  try {
-    // Get the previous price for this product
-    const { data: priceHistory } = await supabase
-      .from('price_history')
-      .select('price, invoice_date')
-      .eq('product_number', productNumber)
-      .eq('restaurant_id', restaurantId)
-      .lt('invoice_date', invoiceDate)
-      .order('invoice_date', { ascending: false })
-      .limit(1)
-
-    if (priceHistory && priceHistory.length > 0) {
-      const previousPrice = priceHistory[0].price
-      const percentageChange = ((currentPrice - previousPrice) / previousPrice) * 100
-
-      // Create alert if change is >= 20%
-      if (Math.abs(percentageChange) >= 20) {
-        const { error: alertError } = await supabase
-          .from('price_alerts')
-          .insert({
-            restaurant_id: restaurantId,
-            product_number: productNumber,
-            previous_price: previousPrice,
-            new_price: currentPrice,
-            percentage_change: Math.round(percentageChange * 100) / 100,
-            alert_type: percentageChange > 0 ? 'increase' : 'decrease',
-            invoice_date: invoiceDate,
-            is_read: false
-          })
-
-        if (alertError) {
-          console.error(`Failed to create price alert for ${productNumber}:`, alertError.message)
-        } else {
-          console.log(`Price alert created: ${productNumber} changed ${percentageChange.toFixed(1)}%`)
-        }
-      }
-    }
-  } catch (error) {
-    console.error(`Error checking price alert for ${productNumber}:`, error)
-  }
+export async function importInvoicesToDatabase(
+  invoices: ParsedInvoice[],
+  locationId: string,
+  vendorId: string | undefined,
+  fileName?: string
+): Promise<InvoiceImportOutcome[]> {
+  return runImportPipeline(invoices, { locationId, vendorId, fileName })
 }
 
 /**
- * Get restaurant ID by location, create if doesn't exist
+ * Look up a location ID by name
  */
-export async function getOrCreateRestaurantId(name: string, location: string): Promise<string> {
-  // First try to find existing restaurant
-  const { data: existingRestaurant } = await supabase
-    .from('restaurants')
+export async function getLocationId(name: string): Promise<string> {
+  const { data: location, error } = await getServiceClient()
+    .from('locations')
     .select('id')
     .eq('name', name)
-    .eq('location', location)
-    .single()
+    .maybeSingle()
 
-  if (existingRestaurant) {
-    return existingRestaurant.id
+  if (error || !location) {
+    throw new Error(`Location not found: ${name}${error ? ` (${error.message})` : ''}`)
   }
 
-  // Create new restaurant
-  const { data: newRestaurant, error } = await supabase
-    .from('restaurants')
-    .insert({
-      name,
-      location,
-      address: location === 'Bee Caves' ? '11715 BEE CAVES RD, BEE CAVE, TX 78738-5011' : null,
-      phone: '5125894228'
-    })
-    .select()
-    .single()
+  return location.id
+}
 
-  if (error || !newRestaurant) {
-    throw new Error(`Failed to create restaurant: ${error?.message}`)
+/**
+ * Look up a vendor ID by vendor code (US Foods is 'USFOODS')
+ */
+export async function getVendorId(vendorCode: string = 'USFOODS'): Promise<string> {
+  const { data: vendor, error } = await getServiceClient()
+    .from('vendors')
+    .select('id')
+    .eq('vendor_code', vendorCode)
+    .maybeSingle()
+
+  if (error || !vendor) {
+    throw new Error(`Vendor not found: ${vendorCode}${error ? ` (${error.message})` : ''}`)
   }
 
-  return newRestaurant.id
-}
\ No newline at end of file
+  return vendor.id
+}
@@ -0,0 +1,411 @@
+import { Client } from 'pg'
+
+/**
+ * Generates lib/supabase/database.types.ts from a migrated database: the
+ * `Database` type supabase-js clients are created with, in the same shape
+ * `supabase gen types typescript` produces, so table, column and RPC names
+ * are checked at compile time.
+ */
+
+export const DATABASE_TYPES_FILE = 'lib/supabase/database.types.ts'
+
+interface PgType {
+  oid: number
+  name: string
+  /** b base, c composite, d domain, e enum, p pseudo */
+  kind: string
+  category: string
+  element: number
+  baseType: number
+  /** Table or view a composite type is the row type of */
+  relation: string | null
+}
+
+interface ColumnInfo {
+  name: string
+  type: number
+  notNull: boolean
+  hasDefault: boolean
+  identity: boolean
+  generated: boolean
+}
+
+interface RelationshipInfo {
+  foreignKeyName: string
+  columns: string[]
+  isOneToOne: boolean
+  referencedRelation: string
+  referencedColumns: string[]
+}
+
+interface RelationInfo {
+  name: string
+  isView: boolean
+  columns: ColumnInfo[]
+  relationships: RelationshipInfo[]
+}
+
+interface FunctionArg {
+  name: string
+  type: number
+  optional: boolean
+}
+
+interface FunctionInfo {
+  name: string
+  args: FunctionArg[]
+  returnType: number
+  returnsSet: boolean
+  /** STRICT functions return null for null arguments; the rest accept nulls */
+  strict: boolean
+  /** OUT and TABLE columns, when the function returns rows of them */
+  outColumns: FunctionArg[]
+}
+
+export interface SchemaInfo {
+  schema: string
+  types: Map<number, PgType>
+  relations: RelationInfo[]
+  functions: FunctionInfo[]
+  enums: Map<string, string[]>
+}
+
+const NUMBER_TYPES = new Set(['int2', 'int4', 'int8', 'float4', 'float8', 'numeric', 'oid', 'money'])
+const JSON_TYPES = new Set(['json', 'jsonb'])
+
+/**
+ * Read the tables, views, functions and enums in one schema
+ */
+export async function introspectSchema(client: Client, schema: string = 'public'): Promise<SchemaInfo> {
+  const typeRows = await client.query(`
+    SELECT t.oid, t.typname, t.typtype, t.typcategory, t.typelem, t.typbasetype, c.relname
+    FROM pg_type t
+    LEFT JOIN pg_class c ON c.oid = t.typrelid AND c.relnamespace = (SELECT oid FROM pg_namespace WHERE nspname = $1)
+  `, [schema])
+
+  const types = new Map<number, PgType>()
+  for (const row of typeRows.rows) {
+    types.set(row.oid, {
+      oid: row.oid,
+      name: row.typname,
+      kind: row.typtype,
+      category: row.typcategory,
+      element: row.typelem,
+      baseType: row.typbasetype,
+      relation: row.relname
+    })
+  }
+
+  const relationRows = await client.query(`
+    SELECT c.relname, c.relkind
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1 AND c.relkind IN ('r', 'p', 'v', 'm')
+    ORDER BY c.relname
+  `, [schema])
+
+  const columnRows = await client.query(`
+    SELECT c.relname, a.attname, a.atttypid, a.attnotnull, a.atthasdef,
+      a.attidentity <> '' AS identity, a.attgenerated <> '' AS generated
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1 AND c.relkind IN ('r', 'p', 'v', 'm') AND a.attnum > 0 AND NOT a.attisdropped
+    ORDER BY c.relname, a.attnum
+  `, [schema])
+
+  // A foreign key is one-to-one when its columns are also unique on their own
+  const foreignKeyRows = await client.query(`
+    SELECT con.conname, c.relname, rc.relname AS referenced_relation,
+      ARRAY(
+        SELECT a.attname::TEXT FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, position)
+        JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+        ORDER BY k.position
+      ) AS columns,
+      ARRAY(
+        SELECT a.attname::TEXT FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, position)
+        JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+        ORDER BY k.position
+      ) AS referenced_columns,
+      EXISTS (
+        SELECT 1 FROM pg_index i
+        WHERE i.indrelid = con.conrelid AND i.indisunique AND i.indpred IS NULL AND i.indexprs IS NULL
+          AND string_to_array(i.indkey::TEXT, ' ')::INT2[] @> con.conkey
+          AND string_to_array(i.indkey::TEXT, ' ')::INT2[] <@ con.conkey
+      ) AS one_to_one
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_class rc ON rc.oid = con.confrelid
+    JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+    WHERE con.contype = 'f' AND n.nspname = $1 AND rn.nspname = $1
+    ORDER BY c.relname, con.conname
+  `, [schema])
+
+  const relations = new Map<string, RelationInfo>()
+  for (const row of relationRows.rows) {
+    relations.set(row.relname, { name: row.relname, isView: row.relkind === 'v' || row.relkind === 'm', columns: [], relationships: [] })
+  }
+  for (const row of columnRows.rows) {
+    relations.get(row.relname)?.columns.push({
+      name: row.attname,
+      type: row.atttypid,
+      notNull: row.attnotnull,
+      hasDefault: row.atthasdef,
+      identity: row.identity,
+      generated: row.generated
+    })
+  }
+  for (const row of foreignKeyRows.rows) {
+    relations.get(row.relname)?.relationships.push({
+      foreignKeyName: row.conname,
+      columns: row.columns,
+      isOneToOne: row.one_to_one,
+      referencedRelation: row.referenced_relation,
+      referencedColumns: row.referenced_columns
+    })
+  }
+
+  const functionRows = await client.query(`
+    SELECT p.proname, p.proargnames, p.proargmodes::TEXT[] AS proargmodes, p.pronargdefaults, p.prorettype, p.proretset, p.proisstrict,
+      COALESCE(p.proallargtypes, p.proargtypes::OID[])::TEXT[] AS arg_types
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = $1 AND p.prokind = 'f' AND p.prorettype <> 'trigger'::REGTYPE
+    ORDER BY p.proname, p.oid
+  `, [schema])
+
+  const functions: FunctionInfo[] = functionRows.rows.map(row => {
+    const argTypes: number[] = (row.arg_types || []).map(Number)
+    const names: string[] = row.proargnames || []
+    const modes: string[] = row.proargmodes || argTypes.map(() => 'i')
+
+    const inputs: FunctionArg[] = []
+    const outColumns: FunctionArg[] = []
+    argTypes.forEach((type, index) => {
+      const arg = { name: names[index] || `arg${index + 1}`, type, optional: false }
+      if (modes[index] === 'i' || modes[index] === 'b' || modes[index] === 'v') inputs.push(arg)
+      if (modes[index] === 'o' || modes[index] === 'b' || modes[index] === 't') outColumns.push(arg)
+    })
+    // Defaults belong to the last input arguments
+    inputs.slice(inputs.length - (row.pronargdefaults || 0)).forEach(arg => { arg.optional = true })
+
+    return {
+      name: row.proname,
+      args: inputs,
+      returnType: row.prorettype,
+      returnsSet: row.proretset,
+      strict: row.proisstrict,
+      outColumns
+    }
+  })
+
+  const enumRows = await client.query(`
+    SELECT t.typname, e.enumlabel
+    FROM pg_type t
+    JOIN pg_enum e ON e.enumtypid = t.oid
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE n.nspname = $1
+    ORDER BY t.typname, e.enumsortorder
+  `, [schema])
+
+  const enums = new Map<string, string[]>()
+  for (const row of enumRows.rows) {
+    enums.set(row.typname, [...(enums.get(row.typname) || []), row.enumlabel])
+  }
+
+  return { schema, types, relations: Array.from(relations.values()), functions, enums }
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function property(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : quote(name)
+}
+
+/**
+ * TypeScript for a Postgres type, as PostgREST returns it in JSON
+ */
+function tsType(info: SchemaInfo, oid: number): string {
+  const type = info.types.get(oid)
+  if (!type) return 'unknown'
+
+  if (type.category === 'A' && type.element) return `${tsType(info, type.element)}[]`
+  if (type.kind === 'd') return tsType(info, type.baseType)
+  if (type.kind === 'e') {
+    return info.enums.has(type.name)
+      ? `Database[${quote(info.schema)}]['Enums'][${quote(type.name)}]`
+      : 'string'
+  }
+  if (type.kind === 'c') {
+    const relation = info.relations.find(candidate => candidate.name === type.relation)
+    if (!relation) return 'Record<string, unknown>'
+    return `Database[${quote(info.schema)}][${quote(relation.isView ? 'Views' : 'Tables')}][${quote(relation.name)}]['Row']`
+  }
+
+  if (type.name === 'bool') return 'boolean'
+  if (NUMBER_TYPES.has(type.name)) return 'number'
+  if (JSON_TYPES.has(type.name)) return 'Json'
+  if (type.name === 'void') return 'undefined'
+  if (type.name === 'record') return 'Record<string, unknown>'
+  if (type.kind === 'p') return 'unknown'
+  return 'string'
+}
+
+function renderColumns(lines: string[], indent: string, columns: { name: string, type: string, optional: boolean }[]): void {
+  for (const column of columns) {
+    lines.push(`${indent}${property(column.name)}${column.optional ? '?' : ''}: ${column.type}`)
+  }
+}
+
+function renderRelationships(lines: string[], indent: string, relationships: RelationshipInfo[]): void {
+  if (relationships.length === 0) {
+    lines.push(`${indent}Relationships: []`)
+    return
+  }
+
+  lines.push(`${indent}Relationships: [`)
+  for (const relationship of relationships) {
+    lines.push(
+      `${indent}  {`,
+      `${indent}    foreignKeyName: ${quote(relationship.foreignKeyName)}`,
+      `${indent}    columns: [${relationship.columns.map(quote).join(', ')}]`,
+      `${indent}    isOneToOne: ${relationship.isOneToOne}`,
+      `${indent}    referencedRelation: ${quote(relationship.referencedRelation)}`,
+      `${indent}    referencedColumns: [${relationship.referencedColumns.map(quote).join(', ')}]`,
+      `${indent}  },`
+    )
+  }
+  lines.push(`${indent}]`)
+}
+
+function renderRelation(lines: string[], info: SchemaInfo, relation: RelationInfo): void {
+  const nullable = (column: ColumnInfo) => {
+    const type = tsType(info, column.type)
+    return relation.isView || !column.notNull ? `${type} | null` : type
+  }
+
+  lines.push(`      ${property(relation.name)}: {`, '        Row: {')
+  renderColumns(lines, '          ', relation.columns.map(column => ({ name: column.name, type: nullable(column), optional: false })))
+  lines.push('        }')
+
+  if (!relation.isView) {
+    lines.push('        Insert: {')
+    renderColumns(lines, '          ', relation.columns.map(column => ({
+      name: column.name,
+      type: column.generated ? 'never' : nullable(column),
+      optional: column.generated || column.identity || column.hasDefault || !column.notNull
+    })))
+    lines.push('        }', '        Update: {')
+    renderColumns(lines, '          ', relation.columns.map(column => ({
+      name: column.name,
+      type: column.generated ? 'never' : nullable(column),
+      optional: true
+    })))
+    lines.push('        }')
+  }
+
+  renderRelationships(lines, '        ', relation.relationships)
+  lines.push('      }')
+}
+
+function renderObject(fields: { name: string, type: string, optional: boolean }[], indent: string): string {
+  const body = fields.map(field => `${indent}  ${property(field.name)}${field.optional ? '?' : ''}: ${field.type}`)
+  return `{\n${body.join('\n')}\n${indent}}`
+}
+
+/**
+ * `{ Args, Returns }` for one function, or a union of them for overloads
+ */
+function renderFunction(lines: string[], info: SchemaInfo, overloads: FunctionInfo[]): void {
+  const variants = overloads.map(fn => {
+    const args = fn.args.length === 0
+      ? 'Record<PropertyKey, never>'
+      : renderObject(fn.args.map(arg => ({
+        name: arg.name,
+        type: fn.strict ? tsType(info, arg.type) : `${tsType(info, arg.type)} | null`,
+        optional: arg.optional
+      })), '          ')
+    const returned = fn.outColumns.length > 0
+      ? renderObject(fn.outColumns.map(column => ({ name: column.name, type: tsType(info, column.type), optional: false })), '          ')
+      : tsType(info, fn.returnType)
+
+    return `{\n          Args: ${args}\n          Returns: ${returned}${fn.returnsSet ? '[]' : ''}\n        }`
+  })
+
+  const name = property(overloads[0].name)
+  if (variants.length === 1) {
+    lines.push(`      ${name}: ${variants[0].replace(/\n {2}/g, '\n')}`)
+  } else {
+    lines.push(`      ${name}:`, ...variants.map(variant => `        | ${variant}`))
+  }
+}
+
+function renderEmpty(name: string): string {
+  return `    ${name}: {\n      [_ in never]: never\n    }`
+}
+
+/**
+ * Render the SchemaInfo as the contents of lib/supabase/database.types.ts
+ */
+export function renderDatabaseTypes(info: SchemaInfo): string {
+  const lines: string[] = [
+    '// Generated by `npm run db:types` from the migrated database schema',
+    '// (supabase/migrations). Don\'t edit by hand: add a migration and regenerate.',
+    '',
+    'export type Json =',
+    '  | string',
+    '  | number',
+    '  | boolean',
+    '  | null',
+    '  | { [key: string]: Json | undefined }',
+    '  | Json[]',
+    '',
+    'export type Database = {',
+    `  ${property(info.schema)}: {`
+  ]
+
+  const tables = info.relations.filter(relation => !relation.isView)
+  const views = info.relations.filter(relation => relation.isView)
+
+  const section = (name: string, render: () => void, empty: boolean) => {
+    if (empty) {
+      lines.push(renderEmpty(name))
+      return
+    }
+    lines.push(`    ${name}: {`)
+    render()
+    lines.push('    }')
+  }
+
+  section('Tables', () => tables.forEach(table => renderRelation(lines, info, table)), tables.length === 0)
+  section('Views', () => views.forEach(view => renderRelation(lines, info, view)), views.length === 0)
+
+  const functionNames = Array.from(new Set(info.functions.map(fn => fn.name)))
+  section('Functions', () => {
+    for (const name of functionNames) {
+      renderFunction(lines, info, info.functions.filter(fn => fn.name === name))
+    }
+  }, functionNames.length === 0)
+
+  section('Enums', () => {
+    for (const [name, labels] of info.enums) {
+      lines.push(`      ${property(name)}: ${labels.map(quote).join(' | ')}`)
+    }
+  }, info.enums.size === 0)
+
+  lines.push(renderEmpty('CompositeTypes'), '  }', '}', '')
+
+  const schemaType = `Database[${quote(info.schema)}]`
+  lines.push(
+    `export type Tables<T extends keyof ${schemaType}['Tables']> = ${schemaType}['Tables'][T]['Row']`,
+    `export type TablesInsert<T extends keyof ${schemaType}['Tables']> = ${schemaType}['Tables'][T]['Insert']`,
+    `export type TablesUpdate<T extends keyof ${schemaType}['Tables']> = ${schemaType}['Tables'][T]['Update']`,
+    `export type Functions<T extends keyof ${schemaType}['Functions']> = ${schemaType}['Functions'][T]`,
+    ''
+  )
+
+  return lines.join('\n')
+}
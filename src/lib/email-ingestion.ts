@@ -0,0 +1,576 @@
+import { createHash } from 'crypto'
+import type { Json } from '@/lib/supabase/database.types'
+import { getServiceClient } from './supabase'
+import { ParsedInvoice } from './csv-parser'
+import { runImportPipeline, InvoiceImportOutcome } from './import-pipeline'
+import { findVendorId, listVendorFormats, parseInvoiceCsv, resolveVendorId, VendorFormat } from './vendor-formats'
+import { listPdfLayouts, pdfImportBlocker, PdfLayout } from './pdf-invoices'
+import { parsePdfInvoice } from './pdf-text'
+import { parseMailMessage, InboxMessage, MailAttachment, MailSource } from './mail-sources'
+
+/**
+ * Email ingestion: vendor emails in, invoices imported. Each message from a
+ * mail source (see mail-sources.ts) has its CSV and PDF attachments parsed
+ * like uploads, every invoice routed to a location by its customer number or
+ * ship-to address, and the invoices run through the import pipeline. What
+ * happened to each message is written to email_ingestion_log under the
+ * mailbox's organization, and a message already in its log is never imported
+ * again. PDFs with fields flagged for
+ * review aren't imported automatically: they're logged so someone uploads
+ * them on the Upload Invoices page and checks them there.
+ */
+
+export type EmailIngestionStatus = 'imported' | 'partial' | 'failed' | 'no_attachments'
+
+/** How an invoice's location was decided */
+export type InvoiceRouteMatch = 'customer_number' | 'ship_to' | 'default'
+
+export interface RoutedInvoiceOutcome extends InvoiceImportOutcome {
+  locationId: string | null
+  routedBy: InvoiceRouteMatch | null
+}
+
+export interface AttachmentIngestion {
+  fileName: string
+  /** The vendor format or PDF layout the attachment was read with */
+  formatName: string | null
+  outcomes: RoutedInvoiceOutcome[]
+  error?: string
+}
+
+export interface EmailIngestionEntry {
+  id: string | null
+  /** The organization whose mailbox the message came from */
+  organization_id: string
+  message_id: string
+  source: string
+  from_address: string | null
+  subject: string | null
+  received_at: string | null
+  status: EmailIngestionStatus
+  attachments: AttachmentIngestion[]
+  location_ids: string[]
+  error: string | null
+  processed_at: string | null
+}
+
+export interface VendorAccount {
+  id: string
+  location_id: string
+  location_name: string
+  /** Null when the number applies whichever vendor bills it */
+  vendor_code: string | null
+  vendor_name: string | null
+  customer_number: string
+}
+
+export type VendorAccountInput = Pick<VendorAccount, 'location_id' | 'vendor_code' | 'customer_number'>
+
+interface RoutingLocation {
+  id: string
+  name: string
+  /** Street address normalized for matching, null when the location has none */
+  address: string | null
+  postalCode: string | null
+}
+
+export interface IngestionContext {
+  /** The organization the mail source belongs to */
+  organizationId: string
+  formats: VendorFormat[]
+  layouts: PdfLayout[]
+  accounts: VendorAccount[]
+  locations: RoutingLocation[]
+  /** Where invoices go when neither customer number nor ship-to address matches */
+  defaultLocationId?: string
+}
+
+export interface EmailIngestionOptions {
+  /** Formats, layouts and the locations invoices can be routed to are this organization's */
+  organizationId: string
+  defaultLocationId?: string
+  /** Parse, route and compare against the database without importing or logging */
+  dryRun?: boolean
+  onMessage?: (entry: EmailIngestionEntry, duplicate: boolean) => void
+}
+
+export interface EmailIngestionResult {
+  messages: number
+  imported: number
+  partial: number
+  failed: number
+  duplicates: number
+  entries: EmailIngestionEntry[]
+  errors: string[]
+}
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  boulevard: 'blvd',
+  lane: 'ln',
+  parkway: 'pkwy',
+  highway: 'hwy',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w'
+}
+
+/**
+ * Lower-case words with street types abbreviated, so "1200 West Parkway Drive"
+ * and "1200 W. PKWY DR" compare equal
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .split(/[^a-z0-9#]+/)
+    .filter(Boolean)
+    .map(word => ADDRESS_ABBREVIATIONS[word] || word)
+    .join(' ')
+}
+
+function normalizeCustomerNumber(customerNumber: string): string {
+  return customerNumber.trim().replace(/^0+(?=\d)/, '').toUpperCase()
+}
+
+/** Everything the vendor wrote about an invoice, for finding its ship-to address */
+function invoiceText(invoice: ParsedInvoice): string {
+  return invoice.rawData.map(row => Object.values(row).join(' ')).join('\n')
+}
+
+/**
+ * The location an invoice belongs to: the one with a vendor account for its
+ * customer number, else the one whose street address (and postal code, when
+ * set) appears on the invoice or in the email, else the default. Ambiguous
+ * matches don't route.
+ */
+export function routeInvoice(
+  invoice: ParsedInvoice,
+  context: Pick<IngestionContext, 'accounts' | 'locations' | 'defaultLocationId'>,
+  emailText: string = ''
+): { locationId: string; routedBy: InvoiceRouteMatch } | null {
+  const customerNumber = normalizeCustomerNumber(invoice.customerNumber || '')
+  if (customerNumber) {
+    const locationIds = new Set(context.accounts
+      .filter(account => normalizeCustomerNumber(account.customer_number) === customerNumber)
+      .filter(account => !account.vendor_code || account.vendor_code === invoice.vendorCode)
+      .map(account => account.location_id))
+    if (locationIds.size === 1) {
+      return { locationId: Array.from(locationIds)[0], routedBy: 'customer_number' }
+    }
+  }
+
+  const text = ` ${normalizeAddress(`${invoiceText(invoice)}\n${emailText}`)} `
+  const shipTo = context.locations.filter(location =>
+    location.address &&
+    text.includes(` ${location.address} `) &&
+    (!location.postalCode || text.includes(` ${normalizeAddress(location.postalCode)} `))
+  )
+  if (shipTo.length === 1) {
+    return { locationId: shipTo[0].id, routedBy: 'ship_to' }
+  }
+
+  return context.defaultLocationId ? { locationId: context.defaultLocationId, routedBy: 'default' } : null
+}
+
+/**
+ * An organization's vendor formats, PDF layouts and routing data for a run.
+ * Invoices are only routed to the organization's own locations.
+ */
+export async function loadIngestionContext(organizationId: string, defaultLocationId?: string): Promise<IngestionContext> {
+  const supabase = getServiceClient()
+  const [formats, layouts, { data: locations, error }] = await Promise.all([
+    listVendorFormats(organizationId),
+    listPdfLayouts(organizationId),
+    supabase
+      .from('locations')
+      .select('id, name, address_line1, postal_code, restaurant:restaurants!inner(organization_id)')
+      .eq('restaurant.organization_id', organizationId)
+  ])
+
+  if (error) {
+    throw new Error(`Failed to load locations: ${error.message}`)
+  }
+
+  const locationIds = (locations || []).map(location => location.id)
+  if (defaultLocationId && !locationIds.includes(defaultLocationId)) {
+    throw new Error(`Location ${defaultLocationId} doesn't belong to the organization`)
+  }
+
+  return {
+    organizationId,
+    formats,
+    layouts,
+    accounts: await listVendorAccounts(locationIds),
+    locations: (locations || []).map(location => ({
+      id: location.id,
+      name: location.name,
+      address: location.address_line1?.trim() ? normalizeAddress(location.address_line1) : null,
+      postalCode: location.postal_code?.trim() || null
+    })),
+    defaultLocationId
+  }
+}
+
+function isAttachmentOfType(attachment: MailAttachment, extension: string, contentType: string): boolean {
+  return attachment.fileName.toLowerCase().endsWith(extension) || attachment.contentType === contentType
+}
+
+/**
+ * Parse one attachment and import its invoices at their locations
+ */
+async function ingestAttachment(
+  attachment: MailAttachment,
+  context: IngestionContext,
+  emailText: string,
+  dryRun: boolean
+): Promise<AttachmentIngestion> {
+  const result: AttachmentIngestion = { fileName: attachment.fileName, formatName: null, outcomes: [] }
+  const ready: ParsedInvoice[] = []
+
+  try {
+    if (isAttachmentOfType(attachment, '.pdf', 'application/pdf')) {
+      const { layout, invoices } = await parsePdfInvoice(new Uint8Array(attachment.content), context.layouts)
+      result.formatName = layout.name
+      for (const parsed of invoices) {
+        const blocker = pdfImportBlocker(parsed)
+        if (blocker) {
+          result.outcomes.push({
+            documentNumber: parsed.invoice.documentNumber || '(unread)',
+            fileName: attachment.fileName,
+            status: 'failed',
+            error: `${blocker}; upload the PDF on the Upload Invoices page to review it`,
+            locationId: null,
+            routedBy: null
+          })
+        } else {
+          ready.push(parsed.invoice)
+        }
+      }
+    } else {
+      const { format, invoices } = await parseInvoiceCsv(attachment.content.toString('utf-8'), context.formats)
+      result.formatName = format.name
+      ready.push(...invoices)
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error)
+    return result
+  }
+
+  if (ready.length === 0 && result.outcomes.length === 0) {
+    result.error = 'No invoices found in the attachment'
+    return result
+  }
+
+  // Invoices for the same location are imported together
+  const byLocation = new Map<string, { routedBy: InvoiceRouteMatch; invoices: ParsedInvoice[] }>()
+  for (const invoice of ready) {
+    const route = routeInvoice(invoice, context, emailText)
+    if (!route) {
+      result.outcomes.push({
+        documentNumber: invoice.documentNumber,
+        fileName: attachment.fileName,
+        status: 'failed',
+        error: invoice.customerNumber
+          ? `No location has customer number ${invoice.customerNumber} or a matching ship-to address`
+          : 'No customer number or matching ship-to address to route the invoice by',
+        locationId: null,
+        routedBy: null
+      })
+      continue
+    }
+    const group = byLocation.get(route.locationId) || { routedBy: route.routedBy, invoices: [] }
+    group.invoices.push(invoice)
+    byLocation.set(route.locationId, group)
+  }
+
+  for (const [locationId, group] of byLocation) {
+    const outcomes = await runImportPipeline(group.invoices, { locationId, fileName: attachment.fileName, dryRun })
+    result.outcomes.push(...outcomes.map(outcome => ({ ...outcome, locationId, routedBy: group.routedBy })))
+  }
+
+  return result
+}
+
+function messageStatus(attachments: AttachmentIngestion[]): EmailIngestionStatus {
+  if (attachments.length === 0) return 'no_attachments'
+  const outcomes = attachments.flatMap(attachment => attachment.outcomes)
+  const succeeded = outcomes.filter(outcome => outcome.status !== 'failed').length
+  const failed = outcomes.length - succeeded + attachments.filter(attachment => attachment.error).length
+  if (succeeded === 0) return 'failed'
+  return failed === 0 ? 'imported' : 'partial'
+}
+
+/**
+ * Import one message's invoice attachments and log it. Returns the log entry
+ * and whether the message had already been processed (and was left alone).
+ */
+export async function ingestMessage(
+  message: InboxMessage,
+  sourceName: string,
+  context: IngestionContext,
+  dryRun: boolean = false
+): Promise<{ entry: EmailIngestionEntry; duplicate: boolean }> {
+  const supabase = getServiceClient()
+  const mail = parseMailMessage(message.raw)
+  const messageId = mail.messageId || `sha256:${createHash('sha256').update(message.raw).digest('hex')}`
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('email_ingestion_log')
+    .select('*')
+    .eq('organization_id', context.organizationId)
+    .eq('message_id', messageId)
+    .maybeSingle()
+
+  if (lookupError) {
+    throw new Error(`Failed to check the ingestion log: ${lookupError.message}`)
+  }
+  if (existing) {
+    return { entry: existing as unknown as EmailIngestionEntry, duplicate: true }
+  }
+
+  const invoiceAttachments = mail.attachments.filter(attachment =>
+    isAttachmentOfType(attachment, '.csv', 'text/csv') || isAttachmentOfType(attachment, '.pdf', 'application/pdf')
+  )
+  const attachments: AttachmentIngestion[] = []
+  for (const attachment of invoiceAttachments) {
+    attachments.push(await ingestAttachment(attachment, context, `${mail.subject}\n${mail.text}`, dryRun))
+  }
+
+  const status = messageStatus(attachments)
+  const errors = attachments.filter(attachment => attachment.error).map(attachment => `${attachment.fileName}: ${attachment.error}`)
+  const entry: EmailIngestionEntry = {
+    id: null,
+    organization_id: context.organizationId,
+    message_id: messageId,
+    source: sourceName,
+    from_address: mail.from || null,
+    subject: mail.subject || null,
+    received_at: mail.date ? mail.date.toISOString() : null,
+    status,
+    attachments,
+    location_ids: Array.from(new Set(attachments.flatMap(attachment =>
+      attachment.outcomes.map(outcome => outcome.locationId).filter((id): id is string => !!id)
+    ))),
+    error: status === 'no_attachments'
+      ? `No CSV or PDF attachments${mail.attachments.length > 0 ? ` (ignored ${mail.attachments.map(attachment => attachment.fileName).join(', ')})` : ''}`
+      : errors.join('; ') || null,
+    processed_at: new Date().toISOString()
+  }
+
+  if (dryRun) {
+    return { entry, duplicate: false }
+  }
+
+  const { data: saved, error } = await supabase
+    .from('email_ingestion_log')
+    .insert({
+      organization_id: entry.organization_id,
+      message_id: entry.message_id,
+      source: entry.source,
+      from_address: entry.from_address,
+      subject: entry.subject,
+      received_at: entry.received_at,
+      status: entry.status,
+      attachments: entry.attachments as unknown as Json,
+      location_ids: entry.location_ids,
+      error: entry.error,
+      processed_at: entry.processed_at
+    })
+    .select('id')
+    .single()
+
+  // Left unmarked, the message is retried next run; imports are idempotent
+  if (error || !saved) {
+    throw new Error(`Failed to log message ${messageId}: ${error?.message || 'no row returned'}`)
+  }
+
+  return { entry: { ...entry, id: saved.id }, duplicate: false }
+}
+
+/**
+ * Import every waiting message from a mail source. Messages are marked
+ * processed in the source once logged, including ones already in the log.
+ */
+export async function runEmailIngestion(
+  source: MailSource,
+  options: EmailIngestionOptions
+): Promise<EmailIngestionResult> {
+  const result: EmailIngestionResult = {
+    messages: 0,
+    imported: 0,
+    partial: 0,
+    failed: 0,
+    duplicates: 0,
+    entries: [],
+    errors: []
+  }
+
+  const context = await loadIngestionContext(options.organizationId, options.defaultLocationId)
+  const messages = await source.fetch()
+  result.messages = messages.length
+
+  for (const message of messages) {
+    try {
+      const { entry, duplicate } = await ingestMessage(message, source.name, context, options.dryRun)
+      options.onMessage?.(entry, duplicate)
+
+      if (duplicate) {
+        result.duplicates++
+      } else {
+        result.entries.push(entry)
+        if (entry.status === 'imported') result.imported++
+        else if (entry.status === 'partial') result.partial++
+        else result.failed++
+      }
+
+      if (!options.dryRun) {
+        await source.markProcessed(message)
+      }
+    } catch (error) {
+      console.error(`Error ingesting message ${message.key}:`, error)
+      result.errors.push(`${message.key}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  return result
+}
+
+/**
+ * The most recent entries of the organization's log touching the given
+ * locations, plus its messages that couldn't be routed anywhere
+ */
+export async function listEmailIngestionLog(
+  organizationId: string,
+  locationIds: string[],
+  limit: number = 100
+): Promise<EmailIngestionEntry[]> {
+  const scope = [`location_ids.eq.{}`, ...(locationIds.length > 0 ? [`location_ids.ov.{${locationIds.join(',')}}`] : [])]
+  const { data, error } = await getServiceClient()
+    .from('email_ingestion_log')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .or(scope.join(','))
+    .order('processed_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load the email ingestion log: ${error.message}`)
+  }
+
+  return (data || []) as unknown as EmailIngestionEntry[]
+}
+
+const VENDOR_ACCOUNT_SELECT = 'id, location_id, customer_number, location:locations!inner(name), vendor:vendors(vendor_code, name)'
+
+interface VendorAccountRow {
+  id: string
+  location_id: string
+  customer_number: string
+  location: { name: string }
+  vendor: { vendor_code: string; name: string } | null
+}
+
+function toVendorAccount(row: VendorAccountRow): VendorAccount {
+  return {
+    id: row.id,
+    location_id: row.location_id,
+    location_name: row.location.name,
+    vendor_code: row.vendor?.vendor_code || null,
+    vendor_name: row.vendor?.name || null,
+    customer_number: row.customer_number
+  }
+}
+
+/**
+ * Customer numbers for the given locations, or every location's
+ */
+export async function listVendorAccounts(locationIds?: string[]): Promise<VendorAccount[]> {
+  let query = getServiceClient()
+    .from('vendor_accounts')
+    .select(VENDOR_ACCOUNT_SELECT)
+    .order('customer_number')
+
+  if (locationIds) {
+    query = query.in('location_id', locationIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load vendor accounts: ${error.message}`)
+  }
+
+  return (data || []).map(row => toVendorAccount(row as unknown as VendorAccountRow))
+}
+
+/**
+ * Check a vendor account before saving it
+ */
+export function validateVendorAccount(input: VendorAccountInput): string[] {
+  const errors: string[] = []
+  if (!input.location_id) errors.push('Location is required')
+  if (!input.customer_number?.trim()) errors.push('Customer number is required')
+  if (input.vendor_code && !/^[A-Z0-9_]+$/.test(input.vendor_code)) errors.push('Unknown vendor code')
+  return errors
+}
+
+/**
+ * The id of a vendor the organization already buys from or has a format for.
+ * A built-in format's vendor is added the first time it's used, as on import;
+ * other codes are unknown.
+ */
+async function findAccountVendorId(organizationId: string, vendorCode: string): Promise<string | null> {
+  const existing = await findVendorId(vendorCode)
+  if (existing) return existing
+
+  const format = (await listVendorFormats(organizationId)).find(candidate => candidate.vendor_code === vendorCode)
+  return format ? resolveVendorId(format.vendor_code, format.vendor_name) : null
+}
+
+/**
+ * Route a vendor's customer number to one of the organization's locations
+ */
+export async function saveVendorAccount(organizationId: string, input: VendorAccountInput): Promise<VendorAccount> {
+  const vendorId = input.vendor_code ? await findAccountVendorId(organizationId, input.vendor_code) : null
+  if (input.vendor_code && !vendorId) {
+    throw new Error(`Unknown vendor code ${input.vendor_code}`)
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('vendor_accounts')
+    .insert({
+      organization_id: organizationId,
+      location_id: input.location_id,
+      vendor_id: vendorId,
+      customer_number: input.customer_number.trim()
+    })
+    .select(VENDOR_ACCOUNT_SELECT)
+    .single()
+
+  if (error) {
+    throw new Error(error.code === '23505'
+      ? `Customer number ${input.customer_number.trim()} already routes to one of your locations`
+      : `Failed to save vendor account: ${error.message}`)
+  }
+
+  return toVendorAccount(data as unknown as VendorAccountRow)
+}
+
+/**
+ * Stop routing a customer number
+ */
+export async function deleteVendorAccount(id: string): Promise<void> {
+  const { error } = await getServiceClient()
+    .from('vendor_accounts')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to delete vendor account: ${error.message}`)
+  }
+}
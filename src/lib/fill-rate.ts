@@ -0,0 +1,386 @@
+import { ParsedInvoice, toISODate } from './csv-parser'
+import { getServiceClient } from './supabase'
+
+/**
+ * One invoice line as ordered and as delivered
+ */
+export interface FulfillmentLine {
+  invoiceId: string
+  documentNumber: string
+  deliveryDate: string
+  locationName: string
+  /** The US Foods warehouse that filled the order (USFSalesLocation) */
+  salesLocation: string
+  productNumber: string
+  productDescription: string
+  packSize: string
+  qtyOrdered: number
+  qtyShipped: number
+  qtyAdjusted: number
+  unitPrice: number
+}
+
+export interface FillRateTotals {
+  orderedQty: number
+  /** Shipped quantity, capped at what was ordered on each line */
+  filledQty: number
+  shortedQty: number
+  adjustedQty: number
+  /** filledQty / orderedQty, 1 when nothing was ordered */
+  fillRate: number
+  lines: number
+  shortedLines: number
+  /** Value of the shorted quantity at the invoiced unit price */
+  shortedValue: number
+}
+
+export interface ProductFillRate extends FillRateTotals {
+  productNumber: string
+  productDescription: string
+  deliveries: number
+  shortedDeliveries: number
+  lastShortedDate: string | null
+}
+
+export interface SalesLocationFillRate extends FillRateTotals {
+  salesLocation: string
+  deliveries: number
+}
+
+export interface DeliveryFillRate extends FillRateTotals {
+  invoiceId: string
+  documentNumber: string
+  deliveryDate: string
+  locationName: string
+  salesLocation: string
+  substitutions: number
+}
+
+/**
+ * An ordered product that was shorted completely while a similar product,
+ * which wasn't ordered in that quantity, arrived on the same delivery
+ */
+export interface Substitution {
+  invoiceId: string
+  documentNumber: string
+  deliveryDate: string
+  locationName: string
+  orderedProductNumber: string
+  orderedDescription: string
+  qtyOrdered: number
+  substituteProductNumber: string
+  substituteDescription: string
+  qtyShipped: number
+  /** Dice coefficient of the two descriptions' words, 0-1 */
+  similarity: number
+}
+
+export interface FillRateReport {
+  totals: FillRateTotals
+  products: ProductFillRate[]
+  salesLocations: SalesLocationFillRate[]
+  deliveries: DeliveryFillRate[]
+  /** Products shorted on at least minRepeatShortages deliveries, most often shorted first */
+  repeatShortages: ProductFillRate[]
+  substitutions: Substitution[]
+}
+
+export interface FillRateFilters {
+  locationId?: string
+  /** Only these locations, e.g. the ones the signed-in user can access */
+  locationIds?: string[]
+  dateFrom?: string
+  dateTo?: string
+}
+
+/** Descriptions at least this similar count as a substitution */
+export const SUBSTITUTION_SIMILARITY_THRESHOLD = 0.4
+
+/** How many shorted deliveries make a shortage a repeat shortage */
+export const DEFAULT_MIN_REPEAT_SHORTAGES = 2
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Quantity ordered but not delivered on a line
+ */
+export function shortedQuantity(line: Pick<FulfillmentLine, 'qtyOrdered' | 'qtyShipped'>): number {
+  return Math.max(0, line.qtyOrdered - Math.max(0, line.qtyShipped))
+}
+
+function descriptionWords(description: string): Set<string> {
+  return new Set(
+    description
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length >= 3 && !/^\d+$/.test(word))
+  )
+}
+
+/**
+ * How alike two product descriptions are, as the Dice coefficient of their words
+ * Example: "TOMATO ROMA FRESH" vs "TOMATO ROMA 5X6 FRESH" → 0.86
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const wordsA = descriptionWords(a)
+  const wordsB = descriptionWords(b)
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+
+  let shared = 0
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++
+  })
+
+  return (2 * shared) / (wordsA.size + wordsB.size)
+}
+
+function summarize(lines: FulfillmentLine[]): FillRateTotals {
+  const totals = lines.reduce(
+    (sum, line) => {
+      const shorted = shortedQuantity(line)
+      sum.orderedQty += line.qtyOrdered
+      sum.filledQty += line.qtyOrdered - shorted
+      sum.shortedQty += shorted
+      sum.adjustedQty += line.qtyAdjusted
+      sum.lines++
+      if (shorted > 0) {
+        sum.shortedLines++
+        sum.shortedValue += shorted * line.unitPrice
+      }
+      return sum
+    },
+    { orderedQty: 0, filledQty: 0, shortedQty: 0, adjustedQty: 0, fillRate: 1, lines: 0, shortedLines: 0, shortedValue: 0 }
+  )
+
+  totals.fillRate = totals.orderedQty > 0 ? totals.filledQty / totals.orderedQty : 1
+  totals.shortedValue = roundCurrency(totals.shortedValue)
+  return totals
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  items.forEach(item => {
+    const groupKey = key(item)
+    if (!groups.has(groupKey)) groups.set(groupKey, [])
+    groups.get(groupKey)!.push(item)
+  })
+  return groups
+}
+
+/**
+ * Find substitutions on each delivery: a fully shorted line paired with the most
+ * similar line that shipped more than was ordered. Each shipped line substitutes
+ * for at most one shorted line.
+ */
+export function detectSubstitutions(
+  lines: FulfillmentLine[],
+  threshold: number = SUBSTITUTION_SIMILARITY_THRESHOLD
+): Substitution[] {
+  const substitutions: Substitution[] = []
+
+  groupBy(lines, line => line.invoiceId).forEach(deliveryLines => {
+    const missing = deliveryLines.filter(line => line.qtyOrdered > 0 && line.qtyShipped <= 0)
+    const unordered = deliveryLines.filter(line => line.qtyShipped > Math.max(0, line.qtyOrdered))
+    const used = new Set<FulfillmentLine>()
+
+    missing.forEach(ordered => {
+      let best: FulfillmentLine | null = null
+      let bestSimilarity = threshold
+
+      for (const candidate of unordered) {
+        if (used.has(candidate) || candidate.productNumber === ordered.productNumber) continue
+        const similarity = descriptionSimilarity(ordered.productDescription, candidate.productDescription)
+        if (similarity >= bestSimilarity) {
+          best = candidate
+          bestSimilarity = similarity
+        }
+      }
+
+      if (!best) return
+      const substitute = best
+      used.add(substitute)
+
+      substitutions.push({
+        invoiceId: ordered.invoiceId,
+        documentNumber: ordered.documentNumber,
+        deliveryDate: ordered.deliveryDate,
+        locationName: ordered.locationName,
+        orderedProductNumber: ordered.productNumber,
+        orderedDescription: ordered.productDescription,
+        qtyOrdered: ordered.qtyOrdered,
+        substituteProductNumber: substitute.productNumber,
+        substituteDescription: substitute.productDescription,
+        qtyShipped: substitute.qtyShipped - Math.max(0, substitute.qtyOrdered),
+        similarity: Math.round(bestSimilarity * 100) / 100
+      })
+    })
+  })
+
+  return substitutions.sort((a, b) => b.deliveryDate.localeCompare(a.deliveryDate))
+}
+
+/**
+ * Fill rates per product, warehouse and delivery, with repeat shortages and
+ * substitutions. Only lines that were ordered count towards fill rates.
+ */
+export function buildFillRateReport(
+  lines: FulfillmentLine[],
+  minRepeatShortages: number = DEFAULT_MIN_REPEAT_SHORTAGES
+): FillRateReport {
+  const orderedLines = lines.filter(line => line.qtyOrdered > 0)
+  const substitutions = detectSubstitutions(lines)
+  const substitutionsByInvoice = groupBy(substitutions, substitution => substitution.invoiceId)
+
+  const products = Array.from(groupBy(orderedLines, line => line.productNumber).values()).map(productLines => {
+    const shortedDates = productLines.filter(line => shortedQuantity(line) > 0).map(line => line.deliveryDate).sort()
+    const latest = [...productLines].sort((a, b) => b.deliveryDate.localeCompare(a.deliveryDate))[0]
+
+    return {
+      productNumber: latest.productNumber,
+      productDescription: latest.productDescription,
+      deliveries: new Set(productLines.map(line => line.invoiceId)).size,
+      shortedDeliveries: new Set(productLines.filter(line => shortedQuantity(line) > 0).map(line => line.invoiceId)).size,
+      lastShortedDate: shortedDates.length > 0 ? shortedDates[shortedDates.length - 1] : null,
+      ...summarize(productLines)
+    }
+  })
+
+  const salesLocations = Array.from(groupBy(orderedLines, line => line.salesLocation).entries()).map(([salesLocation, locationLines]) => ({
+    salesLocation,
+    deliveries: new Set(locationLines.map(line => line.invoiceId)).size,
+    ...summarize(locationLines)
+  }))
+
+  const deliveries = Array.from(groupBy(orderedLines, line => line.invoiceId).entries()).map(([invoiceId, deliveryLines]) => ({
+    invoiceId,
+    documentNumber: deliveryLines[0].documentNumber,
+    deliveryDate: deliveryLines[0].deliveryDate,
+    locationName: deliveryLines[0].locationName,
+    salesLocation: deliveryLines[0].salesLocation,
+    substitutions: substitutionsByInvoice.get(invoiceId)?.length || 0,
+    ...summarize(deliveryLines)
+  }))
+
+  const repeatShortages = products
+    .filter(product => product.shortedDeliveries >= minRepeatShortages)
+    .sort((a, b) => b.shortedDeliveries - a.shortedDeliveries || b.shortedValue - a.shortedValue)
+
+  return {
+    totals: summarize(orderedLines),
+    products: products.sort((a, b) => a.fillRate - b.fillRate || b.shortedValue - a.shortedValue),
+    salesLocations: salesLocations.sort((a, b) => a.fillRate - b.fillRate),
+    deliveries: deliveries.sort((a, b) => b.deliveryDate.localeCompare(a.deliveryDate)),
+    repeatShortages,
+    substitutions
+  }
+}
+
+/**
+ * Fulfillment lines from parsed CSV invoices; credit memos aren't deliveries
+ */
+export function fulfillmentLinesFromInvoices(invoices: ParsedInvoice[], locationName: string = ''): FulfillmentLine[] {
+  return invoices
+    .filter(invoice => !invoice.isCreditMemo)
+    .flatMap(invoice => invoice.lineItems.map(item => ({
+      invoiceId: invoice.documentNumber,
+      documentNumber: invoice.documentNumber,
+      deliveryDate: toISODate(invoice.documentDate),
+      locationName,
+      salesLocation: invoice.usfSalesLocation || 'Unknown',
+      productNumber: item.productNumber,
+      productDescription: item.productDescription,
+      packSize: item.packingSize,
+      qtyOrdered: item.qtyOrdered,
+      qtyShipped: item.qtyShipped,
+      qtyAdjusted: item.qtyAdjusted,
+      unitPrice: item.unitPrice
+    })))
+}
+
+interface FulfillmentItemRow {
+  product_number: string
+  product_description: string | null
+  pack_size: string | null
+  qty_ordered: number | null
+  qty_shipped: number | null
+  unit_price: number | null
+  sales_location: string | null
+  qty_adjusted: string | null
+  invoice: {
+    id: string
+    document_number: string
+    invoice_date: string
+    location: { name: string } | null
+  }
+}
+
+// Warehouse and adjustments are only kept in the original CSV row
+const FULFILLMENT_ITEM_SELECT = `
+  product_number,
+  product_description,
+  pack_size,
+  qty_ordered,
+  qty_shipped,
+  unit_price,
+  sales_location:raw_data->>USFSalesLocation,
+  qty_adjusted:raw_data->>QtyAdjust,
+  invoice:invoices!inner(id, document_number, invoice_date, document_type, location_id, location:locations(name))
+`
+
+const FULFILLMENT_PAGE_SIZE = 1000
+
+/**
+ * Delivered invoice lines for the filters, oldest first
+ */
+export async function loadFulfillmentLines(filters: FillRateFilters = {}): Promise<FulfillmentLine[]> {
+  const rows: FulfillmentItemRow[] = []
+
+  for (let from = 0; ; from += FULFILLMENT_PAGE_SIZE) {
+    let query = getServiceClient()
+      .from('invoice_items')
+      .select(FULFILLMENT_ITEM_SELECT)
+      .neq('invoice.document_type', 'CREDIT_MEMO')
+      .order('id')
+      .range(from, from + FULFILLMENT_PAGE_SIZE - 1)
+
+    if (filters.locationId) query = query.eq('invoice.location_id', filters.locationId)
+    if (filters.locationIds) query = query.in('invoice.location_id', filters.locationIds)
+    if (filters.dateFrom) query = query.gte('invoice.invoice_date', filters.dateFrom)
+    if (filters.dateTo) query = query.lte('invoice.invoice_date', filters.dateTo)
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load invoice lines: ${error.message}`)
+    }
+
+    rows.push(...((data || []) as unknown as FulfillmentItemRow[]))
+    if (!data || data.length < FULFILLMENT_PAGE_SIZE) break
+  }
+
+  return rows
+    .map(row => ({
+      invoiceId: row.invoice.id,
+      documentNumber: row.invoice.document_number,
+      deliveryDate: row.invoice.invoice_date,
+      locationName: row.invoice.location?.name || 'Unknown',
+      salesLocation: (row.sales_location || '').trim() || 'Unknown',
+      productNumber: row.product_number,
+      productDescription: row.product_description || '',
+      packSize: row.pack_size || '',
+      qtyOrdered: Number(row.qty_ordered) || 0,
+      qtyShipped: Number(row.qty_shipped) || 0,
+      qtyAdjusted: parseInt(row.qty_adjusted || '') || 0,
+      unitPrice: Number(row.unit_price) || 0
+    }))
+    .sort((a, b) => a.deliveryDate.localeCompare(b.deliveryDate))
+}
+
+export async function getFillRateReport(
+  filters: FillRateFilters = {},
+  minRepeatShortages: number = DEFAULT_MIN_REPEAT_SHORTAGES
+): Promise<FillRateReport> {
+  return buildFillRateReport(await loadFulfillmentLines(filters), minRepeatShortages)
+}
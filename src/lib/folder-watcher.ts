@@ -0,0 +1,284 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, watch, writeFileSync, FSWatcher } from 'fs'
+import { dirname, extname, join } from 'path'
+import { parseInvoiceFile, runImportPipeline, InvoiceImportOutcome } from './import-pipeline'
+import { ImportProgress } from './data-importer'
+import { listVendorFormats, VendorFormat } from './vendor-formats'
+import { getLocationOrganizationId } from './organizations'
+
+/**
+ * Continuous import of the CSV exports dropped into watched folders. Each
+ * folder belongs to one location. A file is imported once its size and
+ * modification time have stopped changing, so a copy still in progress is
+ * never read half-written, and then moved into the folder's archive/ or
+ * failed/ subfolder. Re-importing a file is safe: the pipeline reports
+ * invoices it already has as unchanged.
+ */
+
+export interface WatchedFolder {
+  directory: string
+  locationId: string
+  /** Record every invoice against this vendor instead of the one detected from the file */
+  vendorId?: string
+}
+
+export type WatchedFileStatus = 'archived' | 'failed'
+
+export interface WatchedFileResult {
+  folder: WatchedFolder
+  fileName: string
+  status: WatchedFileStatus
+  /** Where the file was moved, null in a dry run */
+  movedTo: string | null
+  outcomes: InvoiceImportOutcome[]
+  error?: string
+}
+
+export interface FolderWatcherOptions {
+  /** How long a file's size and modification time must hold still before it's read */
+  settleMs?: number
+  /** How often folders are rescanned, in case a change event was missed */
+  pollMs?: number
+  /** Import without writing to the database or moving files */
+  dryRun?: boolean
+  onProgress?: (progress: ImportProgress, folder: WatchedFolder) => void
+  onFile?: (result: WatchedFileResult) => void
+  onError?: (error: Error, folder: WatchedFolder) => void
+}
+
+export interface FolderWatcher {
+  /** Stop watching; resolves once the file being imported, if any, is done */
+  close(): Promise<void>
+}
+
+export const ARCHIVE_FOLDER = 'archive'
+export const FAILED_FOLDER = 'failed'
+const DEFAULT_SETTLE_MS = 5000
+const DEFAULT_POLL_MS = 30000
+
+/** Names editors and copy tools give files they're still writing */
+const PARTIAL_FILE_PATTERN = /^\.|~$|\.(tmp|part|crdownload|partial)$/i
+
+interface FileSnapshot {
+  size: number
+  mtimeMs: number
+  /** When this size and modification time were first seen */
+  since: number
+}
+
+/**
+ * A destination in a subfolder that doesn't overwrite an earlier file of the
+ * same name, since vendors reuse export names like invoices.csv
+ */
+function destinationPath(directory: string, subfolder: string, fileName: string): string {
+  const target = join(directory, subfolder)
+  mkdirSync(target, { recursive: true })
+
+  let destination = join(target, fileName)
+  if (existsSync(destination)) {
+    const extension = extname(fileName)
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+    destination = join(target, `${fileName.slice(0, fileName.length - extension.length)}.${stamp}${extension}`)
+  }
+  return destination
+}
+
+/**
+ * Import one settled file and move it out of the watched folder
+ */
+async function importWatchedFile(
+  folder: WatchedFolder,
+  fileName: string,
+  formats: VendorFormat[],
+  progress: Omit<ImportProgress, 'currentFile' | 'currentInvoices' | 'totalInvoices'>,
+  options: FolderWatcherOptions
+): Promise<WatchedFileResult> {
+  const filePath = join(folder.directory, fileName)
+  const report = (currentInvoices: number, totalInvoices: number) =>
+    options.onProgress?.({ ...progress, currentFile: fileName, currentInvoices, totalInvoices }, folder)
+
+  const outcomes: InvoiceImportOutcome[] = []
+  let error: string | undefined
+
+  try {
+    report(0, 0)
+    const invoices = await parseInvoiceFile(readFileSync(filePath, 'utf-8'), formats)
+
+    if (invoices.length === 0) {
+      error = 'No invoices found in file'
+    } else {
+      // One run for the whole file, so alert rules, contracts and the budget and
+      // recipe checks are loaded and run once; progress moves per invoice
+      report(0, invoices.length)
+      outcomes.push(...await runImportPipeline(invoices, {
+        locationId: folder.locationId,
+        vendorId: folder.vendorId,
+        fileName,
+        dryRun: options.dryRun,
+        onOutcome: (_outcome, index, total) => report(index + 1, total)
+      }))
+
+      const failed = outcomes.filter(outcome => outcome.status === 'failed')
+      if (failed.length > 0) {
+        error = failed.map(outcome => `Invoice ${outcome.documentNumber}: ${outcome.error}`).join('\n')
+      }
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const status: WatchedFileStatus = error ? 'failed' : 'archived'
+  let movedTo: string | null = null
+
+  if (!options.dryRun) {
+    movedTo = destinationPath(folder.directory, status === 'failed' ? FAILED_FOLDER : ARCHIVE_FOLDER, fileName)
+    renameSync(filePath, movedTo)
+    if (error) {
+      writeFileSync(`${movedTo}.error.txt`, `${error}\n`)
+    }
+  }
+
+  return { folder, fileName, status, movedTo, outcomes, error }
+}
+
+/**
+ * Watch folders for CSV exports and import each one at its folder's location.
+ * Folders are created if missing; files already waiting are imported first.
+ */
+export function watchFolders(folders: WatchedFolder[], options: FolderWatcherOptions = {}): FolderWatcher {
+  const settleMs = options.settleMs ?? DEFAULT_SETTLE_MS
+  const pollMs = options.pollMs ?? DEFAULT_POLL_MS
+  const snapshots = new Map<string, FileSnapshot>()
+  // Files a dry run has already reported, since they stay where they are
+  const seen = new Set<string>()
+  const watchers: FSWatcher[] = []
+  let closed = false
+  let scanning: Promise<void> | null = null
+  let rescan = false
+  let timer: NodeJS.Timeout | null = null
+  let due = 0
+
+  // A scan already due sooner isn't put off, so a file written to
+  // continuously doesn't hold up the others
+  const schedule = (delay: number) => {
+    if (closed || (timer && due <= Date.now() + delay)) return
+    if (timer) clearTimeout(timer)
+    due = Date.now() + delay
+    timer = setTimeout(() => {
+      timer = null
+      void scan()
+    }, delay)
+  }
+
+  /**
+   * The files of a folder that have held still for settleMs, and whether
+   * others are still being written
+   */
+  const checkFolder = (folder: WatchedFolder, now: number): { settled: string[]; settling: boolean } => {
+    const settled: string[] = []
+    const present = new Set<string>()
+    let settling = false
+
+    for (const fileName of readdirSync(folder.directory).sort()) {
+      if (!fileName.toLowerCase().endsWith('.csv') || PARTIAL_FILE_PATTERN.test(fileName)) continue
+
+      const key = join(folder.directory, fileName)
+      const stats = statSync(key, { throwIfNoEntry: false })
+      if (!stats?.isFile()) continue
+      present.add(key)
+
+      const previous = snapshots.get(key)
+      if (!previous || previous.size !== stats.size || previous.mtimeMs !== stats.mtimeMs) {
+        snapshots.set(key, { size: stats.size, mtimeMs: stats.mtimeMs, since: now })
+        seen.delete(key)
+        settling = true
+      } else if (seen.has(key)) {
+        continue
+      } else if (now - previous.since >= settleMs && now - stats.mtimeMs >= settleMs) {
+        settled.push(fileName)
+      } else {
+        settling = true
+      }
+    }
+
+    // Forget files moved away by hand
+    for (const key of Array.from(snapshots.keys())) {
+      if (dirname(key) === join(folder.directory) && !present.has(key)) {
+        snapshots.delete(key)
+        seen.delete(key)
+      }
+    }
+
+    return { settled, settling }
+  }
+
+  const scanFolders = async () => {
+    let waiting = false
+
+    for (const folder of folders) {
+      if (closed) return
+
+      try {
+        const { settled, settling } = checkFolder(folder, Date.now())
+        waiting = waiting || settling
+        if (settled.length === 0) continue
+
+        // Loaded per batch so formats added in settings apply; if they can't
+        // be loaded the files stay put for the next scan
+        const formats = await listVendorFormats(await getLocationOrganizationId(folder.locationId))
+
+        for (let i = 0; i < settled.length && !closed; i++) {
+          const result = await importWatchedFile(folder, settled[i], formats, {
+            processedFiles: i,
+            totalFiles: settled.length,
+            percentage: (i / settled.length) * 100
+          }, options)
+
+          const key = join(folder.directory, settled[i])
+          if (options.dryRun) seen.add(key)
+          else snapshots.delete(key)
+          options.onFile?.(result)
+        }
+      } catch (error) {
+        options.onError?.(error instanceof Error ? error : new Error(String(error)), folder)
+      }
+    }
+
+    // Come back when the files still settling should be ready
+    schedule(waiting ? settleMs : pollMs)
+  }
+
+  const scan = async () => {
+    if (scanning) {
+      rescan = true
+      return scanning
+    }
+    do {
+      rescan = false
+      scanning = scanFolders()
+      await scanning
+      scanning = null
+    } while (rescan && !closed)
+  }
+
+  for (const folder of folders) {
+    mkdirSync(folder.directory, { recursive: true })
+    try {
+      // Subfolder events (the archive and failed moves) aren't reported without recursive
+      watchers.push(watch(folder.directory, () => schedule(Math.min(settleMs, 1000))))
+    } catch (error) {
+      // Polling still picks files up where change events aren't supported
+      options.onError?.(error instanceof Error ? error : new Error(String(error)), folder)
+    }
+  }
+
+  schedule(0)
+
+  return {
+    async close() {
+      closed = true
+      if (timer) clearTimeout(timer)
+      watchers.forEach(watcher => watcher.close())
+      await scanning
+    }
+  }
+}
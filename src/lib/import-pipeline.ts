@@ -0,0 +1,521 @@
+import { getServiceClient } from './supabase'
+import { toISODate, ParsedInvoice, ParsedLineItem } from './csv-parser'
+import { normalizePackSize, normalizeUnitPrice, NormalizedPackSize, NormalizedUnitPrice } from './unit-pricing'
+import { loadAlertRules, evaluateAlertRules, AlertRule, PricePoint, DEFAULT_ALERT_RULE } from './alert-rules'
+import { assignCategory, loadCategoryTaxonomy, CategoryTaxonomy, DEFAULT_CATEGORY_RULES } from './product-categories'
+import { checkContractCompliance, findContractPrice, loadContractPrices, ContractPrice } from './contract-pricing'
+import { checkBudgetAlerts, toBudgetMonth } from './budgets'
+import { checkRecipeCostAlerts } from './recipes'
+import { getLocationOrganizationId } from './organizations'
+import { parseInvoiceCsv, findVendorId, resolveVendorId, vendorProductKey, BUILTIN_VENDOR_FORMATS, VendorFormat } from './vendor-formats'
+import { createHash } from 'crypto'
+
+/**
+ * Invoice import pipeline: parse → normalize → categorize → persist → alert.
+ * Parsing detects the distributor from the file's columns (see
+ * vendor-formats.ts) and each invoice is recorded against its vendor.
+ * The alert stage covers the price alert rules, contract price checks, the
+ * location's budgets for the invoice month and the plate cost of recipes using
+ * a repriced product.
+ * Every import entry point (CLI, upload route, directory import) runs invoices
+ * through these stages so all locations are processed identically.
+ */
+
+export type InvoiceImportStatus = 'new' | 'updated' | 'unchanged' | 'failed'
+
+export interface InvoiceImportOutcome {
+  documentNumber: string
+  fileName?: string
+  status: InvoiceImportStatus
+  error?: string
+}
+
+export interface ImportPipelineOptions {
+  locationId: string
+  /** Record every invoice against this vendor instead of the one detected from the file */
+  vendorId?: string
+  fileName?: string
+  /** Run every stage except persist and alert, reporting what the import would do */
+  dryRun?: boolean
+  /** Called as each invoice finishes, before the budget and recipe checks at the end */
+  onOutcome?: (outcome: InvoiceImportOutcome, index: number, total: number) => void
+}
+
+export interface NormalizedLineItem extends ParsedLineItem {
+  packSize: NormalizedPackSize
+  /** Price per base unit (LB, GAL, EA, #10 CAN), or null when the pack can't be measured */
+  normalizedPrice: NormalizedUnitPrice | null
+  category: string
+}
+
+export type DocumentType = 'INVOICE' | 'CREDIT_MEMO'
+
+export interface NormalizedInvoice {
+  documentNumber: string
+  documentType: DocumentType
+  invoiceDate: string
+  netAmount: number
+  /** On an invoice, the credit memo applied to it */
+  creditMemoNumber: string | null
+  creditMemoDate: string | null
+  /** On a credit memo, the invoice it refunds */
+  originalDocumentNumber: string | null
+  lineItems: NormalizedLineItem[]
+  source: ParsedInvoice
+}
+
+// Stage 1: parse
+
+/**
+ * Detect the vendor format of a CSV export and parse it into invoices.
+ * Pass the formats from listVendorFormats to include the organization's own.
+ */
+export async function parseInvoiceFile(
+  csvContent: string,
+  formats: VendorFormat[] = BUILTIN_VENDOR_FORMATS
+): Promise<ParsedInvoice[]> {
+  return (await parseInvoiceCsv(csvContent, formats)).invoices
+}
+
+// Stage 2: normalize
+
+/**
+ * Trim identifiers, default missing pricing units to EA, drop lines without a
+ * product number and price each line per base unit
+ */
+export function normalizeInvoice(invoice: ParsedInvoice): NormalizedInvoice {
+  const lineItems = invoice.lineItems
+    .map(item => ({
+      ...item,
+      productNumber: (item.productNumber || '').trim(),
+      productDescription: (item.productDescription || '').trim(),
+      productLabel: (item.productLabel || '').trim(),
+      packingSize: (item.packingSize || '').trim(),
+      pricingUnit: (item.pricingUnit || '').trim().toUpperCase() || 'EA'
+    }))
+    .filter(item => item.productNumber !== '')
+    .map(item => ({
+      ...item,
+      packSize: normalizePackSize(item.packingSize),
+      normalizedPrice: normalizeUnitPrice(item),
+      category: ''
+    }))
+
+  // CreditMemoNumber cross-references the other document: on a credit memo it
+  // names the invoice being refunded, on an invoice the credit applied to it
+  const documentNumber = invoice.documentNumber.trim()
+  const referencedNumber = invoice.creditMemoNumber && invoice.creditMemoNumber !== documentNumber
+    ? invoice.creditMemoNumber
+    : null
+
+  return {
+    documentNumber,
+    documentType: invoice.isCreditMemo ? 'CREDIT_MEMO' : 'INVOICE',
+    invoiceDate: toISODate(invoice.documentDate),
+    netAmount: invoice.netAmountAfterAdjustment,
+    creditMemoNumber: invoice.isCreditMemo ? null : referencedNumber,
+    creditMemoDate: invoice.creditMemoDate ? toISODate(invoice.creditMemoDate) : null,
+    originalDocumentNumber: invoice.isCreditMemo ? referencedNumber : null,
+    lineItems,
+    source: invoice
+  }
+}
+
+// Stage 3: categorize
+
+/**
+ * Assign each line item its product category from the overrides and rules
+ */
+export function categorizeInvoice(
+  invoice: NormalizedInvoice,
+  taxonomy: Pick<CategoryTaxonomy, 'rules' | 'overrides'> = { rules: DEFAULT_CATEGORY_RULES, overrides: [] }
+): NormalizedInvoice {
+  return {
+    ...invoice,
+    lineItems: invoice.lineItems.map(item => ({
+      ...item,
+      category: assignCategory(item.productNumber, item.productDescription, taxonomy).category
+    }))
+  }
+}
+
+// Stage 4: persist
+
+/**
+ * Fingerprint of everything an import writes for an invoice. A re-import with the
+ * same fingerprint is reported as unchanged and skipped.
+ */
+export function computeContentHash(invoice: NormalizedInvoice): string {
+  const content = {
+    documentNumber: invoice.documentNumber,
+    documentType: invoice.documentType,
+    documentDate: invoice.invoiceDate,
+    netAmount: invoice.netAmount,
+    creditMemoNumber: invoice.creditMemoNumber,
+    originalDocumentNumber: invoice.originalDocumentNumber,
+    lineItems: invoice.lineItems.map(item => [
+      item.productNumber,
+      item.productDescription,
+      item.packingSize,
+      item.pricingUnit,
+      item.qtyOrdered,
+      item.qtyShipped,
+      item.unitPrice,
+      item.extendedPrice,
+      item.rawRow || null
+    ])
+  }
+
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex')
+}
+
+/**
+ * Write an invoice through the transactional import_invoice RPC, keyed on
+ * document number + location
+ */
+export async function persistInvoice(
+  invoice: NormalizedInvoice,
+  options: ImportPipelineOptions & { vendorId: string }
+): Promise<Exclude<InvoiceImportStatus, 'failed'>> {
+  const { data, error } = await getServiceClient().rpc('import_invoice', {
+    p_location_id: options.locationId,
+    p_vendor_id: options.vendorId,
+    p_invoice: {
+      document_number: invoice.documentNumber,
+      document_type: invoice.documentType,
+      invoice_date: invoice.invoiceDate,
+      net_amount: invoice.netAmount,
+      credit_memo_number: invoice.creditMemoNumber,
+      credit_memo_date: invoice.creditMemoDate,
+      original_document_number: invoice.originalDocumentNumber,
+      file_name: options.fileName || null
+    },
+    p_items: invoice.lineItems.map((item, index) => ({
+      product_number: item.productNumber,
+      product_description: item.productDescription,
+      supplier_label: item.productLabel,
+      pack_size: item.packingSize,
+      pricing_unit: item.pricingUnit,
+      qty_ordered: item.qtyOrdered,
+      qty_shipped: item.qtyShipped,
+      unit_price: item.unitPrice,
+      extended_price: item.extendedPrice,
+      product_category: item.category,
+      weight: item.weight || null,
+      base_unit: item.normalizedPrice?.baseUnit || null,
+      price_per_base_unit: item.normalizedPrice ? Math.round(item.normalizedPrice.pricePerBaseUnit * 10000) / 10000 : null,
+      line_number: index + 1,
+      raw_data: (item.rawRow as Record<string, string> | undefined) || null
+    })),
+    p_content_hash: computeContentHash(invoice)
+  })
+
+  if (error) {
+    throw new Error(`Failed to import invoice ${invoice.documentNumber}: ${error.message}`)
+  }
+
+  return data as Exclude<InvoiceImportStatus, 'failed'>
+}
+
+/**
+ * Report what persistInvoice would do without writing anything
+ */
+export async function previewPersist(
+  invoice: NormalizedInvoice,
+  options: ImportPipelineOptions
+): Promise<Exclude<InvoiceImportStatus, 'failed'>> {
+  // A vendor not added yet has no invoices; it isn't added in a dry run
+  const vendorId = options.vendorId || await findVendorId(invoice.source.vendorCode)
+  if (!vendorId) return 'new'
+
+  const { data: existing, error } = await getServiceClient()
+    .from('invoices')
+    .select('content_hash')
+    .eq('location_id', options.locationId)
+    .eq('vendor_id', vendorId)
+    .eq('document_number', invoice.documentNumber)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up invoice ${invoice.documentNumber}: ${error.message}`)
+  }
+
+  if (!existing) return 'new'
+  return existing.content_hash === computeContentHash(invoice) ? 'unchanged' : 'updated'
+}
+
+// Stage 5: alert
+
+/**
+ * Evaluate each line against the alert rules of the location's organization,
+ * using this location's earlier prices as the baseline, and create alerts for
+ * the ones that fire
+ */
+export async function raisePriceAlerts(
+  invoice: NormalizedInvoice,
+  locationId: string,
+  vendorId: string,
+  rules?: AlertRule[],
+  contracts: ContractPrice[] = []
+): Promise<void> {
+  const supabase = getServiceClient()
+  const alertRules = rules || await loadAlertRules(supabase, await getLocationOrganizationId(locationId))
+
+  for (const item of invoice.lineItems) {
+    if (item.unitPrice <= 0) continue
+
+    try {
+      const { data: product } = await supabase
+        .from('products')
+        .select('id, category')
+        .eq('vendor_id', vendorId)
+        .eq('product_number', item.productNumber)
+        .single()
+
+      if (!product) continue
+
+      // Earlier prices for this product at this location; enough for the last price and the 90-day average
+      const { data: previousPrices } = await supabase
+        .from('product_prices')
+        .select('unit_price, price_date, quantity_purchased')
+        .eq('product_id', product.id)
+        .eq('location_id', locationId)
+        .lt('price_date', invoice.invoiceDate)
+        .order('price_date', { ascending: false })
+        .limit(100)
+
+      const history: PricePoint[] = (previousPrices || []).map(price => ({
+        price: Number(price.unit_price),
+        date: price.price_date,
+        quantity: Number(price.quantity_purchased) || undefined
+      }))
+
+      const evaluation = evaluateAlertRules(
+        alertRules,
+        { productNumber: item.productNumber, category: item.category || product.category, locationId },
+        { price: item.unitPrice, date: invoice.invoiceDate, quantity: item.qtyShipped },
+        history,
+        findContractPrice(contracts, item.productNumber, item.packingSize, invoice.invoiceDate)?.contract_price
+      )
+
+      if (!evaluation) continue
+
+      // A re-imported invoice must not raise the same alert twice; a contract
+      // overcharge on the same line is a different alert
+      const { data: existingAlerts, error: lookupError } = await supabase
+        .from('price_alerts')
+        .select('id')
+        .eq('product_id', product.id)
+        .eq('location_id', locationId)
+        .eq('alert_date', invoice.invoiceDate)
+        .eq('current_price', item.unitPrice)
+        .in('alert_type', ['PRICE_INCREASE', 'PRICE_DECREASE'])
+        .limit(1)
+
+      if (lookupError) {
+        throw new Error(`Failed to check existing price alerts: ${lookupError.message}`)
+      }
+      if (existingAlerts && existingAlerts.length > 0) continue
+
+      const { error: alertError } = await supabase
+        .from('price_alerts')
+        .insert({
+          product_id: product.id,
+          location_id: locationId,
+          alert_type: evaluation.changeAmount > 0 ? 'PRICE_INCREASE' : 'PRICE_DECREASE',
+          alert_level: evaluation.level,
+          current_price: item.unitPrice,
+          previous_price: Math.round(evaluation.baselinePrice * 10000) / 10000,
+          price_change_amount: Math.round(evaluation.changeAmount * 10000) / 10000,
+          price_change_percent: Math.round(evaluation.changePercent * 100) / 100,
+          pack_size: item.packingSize,
+          pricing_unit: item.pricingUnit,
+          supplier_label: item.productLabel,
+          alert_date: invoice.invoiceDate,
+          change_reasons: ['PRICE_ANALYSIS'],
+          status: 'ACTIVE',
+          rule_id: evaluation.rule.id === DEFAULT_ALERT_RULE.id ? null : evaluation.rule.id,
+          baseline: evaluation.baseline
+        })
+
+      if (alertError) {
+        console.error(`Failed to create price alert for ${item.productNumber}:`, alertError.message)
+      } else {
+        console.log(`Price alert created: ${item.productNumber} changed ${evaluation.changePercent.toFixed(1)}% (rule: ${evaluation.rule.name})`)
+      }
+    } catch (error) {
+      console.error(`Error checking price alert for ${item.productNumber}:`, error)
+    }
+  }
+}
+
+/**
+ * Flag lines billed above the vendor contract price as CONTRACT_OVERCHARGE alerts.
+ * Lines already flagged for this purchase aren't flagged twice; a price rule
+ * alert on the same line doesn't count.
+ */
+export async function flagContractOvercharges(
+  invoice: NormalizedInvoice,
+  locationId: string,
+  vendorId: string,
+  contracts: ContractPrice[]
+): Promise<void> {
+  const overcharges = checkContractCompliance(invoice.lineItems, contracts, invoice.invoiceDate)
+    .filter(check => check.status === 'overcharge')
+
+  if (overcharges.length === 0) return
+
+  const supabase = getServiceClient()
+
+  for (const check of overcharges) {
+    try {
+      const { data: product } = await supabase
+        .from('products')
+        .select('id')
+        .eq('vendor_id', vendorId)
+        .eq('product_number', check.productNumber)
+        .single()
+
+      if (!product) continue
+
+      const { data: existingAlerts, error: lookupError } = await supabase
+        .from('price_alerts')
+        .select('id')
+        .eq('product_id', product.id)
+        .eq('location_id', locationId)
+        .eq('alert_date', invoice.invoiceDate)
+        .eq('current_price', check.billedPrice)
+        .eq('alert_type', 'CONTRACT_OVERCHARGE')
+        .limit(1)
+
+      if (lookupError) {
+        throw new Error(`Failed to check existing contract alerts: ${lookupError.message}`)
+      }
+      if (existingAlerts && existingAlerts.length > 0) continue
+
+      const variancePercent = (check.variancePerUnit / check.contractPrice) * 100
+      const item = invoice.lineItems.find(line => line.productNumber === check.productNumber)
+
+      const { error: alertError } = await supabase
+        .from('price_alerts')
+        .insert({
+          product_id: product.id,
+          location_id: locationId,
+          alert_type: 'CONTRACT_OVERCHARGE',
+          alert_level: variancePercent >= 10 ? 'CRITICAL' : 'HIGH',
+          current_price: check.billedPrice,
+          previous_price: check.contractPrice,
+          price_change_amount: check.variancePerUnit,
+          price_change_percent: Math.round(variancePercent * 100) / 100,
+          pack_size: check.packSize,
+          pricing_unit: check.pricingUnit,
+          supplier_label: item?.productLabel || null,
+          alert_date: invoice.invoiceDate,
+          change_reasons: ['CONTRACT_PRICE'],
+          status: 'ACTIVE',
+          baseline: 'contract_price',
+          contract_price_id: check.contractPriceId
+        })
+
+      if (alertError) {
+        console.error(`Failed to flag contract overcharge for ${check.productNumber}:`, alertError.message)
+      } else {
+        console.log(`Contract overcharge: ${check.productNumber} billed $${check.billedPrice} vs $${check.contractPrice} contract ($${check.varianceAmount} over)`)
+      }
+    } catch (error) {
+      console.error(`Error flagging contract overcharge for ${check.productNumber}:`, error)
+    }
+  }
+}
+
+/**
+ * Run parsed invoices through normalize, categorize, persist and alert.
+ * Each invoice succeeds or fails on its own.
+ */
+export async function runImportPipeline(
+  invoices: ParsedInvoice[],
+  options: ImportPipelineOptions
+): Promise<InvoiceImportOutcome[]> {
+  const outcomes: InvoiceImportOutcome[] = []
+  const record = (outcome: InvoiceImportOutcome) => {
+    outcomes.push(outcome)
+    options.onOutcome?.(outcome, outcomes.length - 1, invoices.length)
+  }
+  let alertRules: AlertRule[] | undefined
+  const vendorIds = new Map<string, string>()
+  const contractsByVendor = new Map<string, ContractPrice[]>()
+  let taxonomy: CategoryTaxonomy | undefined
+  // Categories, alert rules and contract prices are the location's organization's
+  let organizationId: string | undefined
+  const budgetMonths = new Set<string>()
+  const pricedProducts = new Set<string>()
+
+  for (const parsed of invoices) {
+    try {
+      organizationId = organizationId || await getLocationOrganizationId(options.locationId)
+      taxonomy = taxonomy || await loadCategoryTaxonomy(getServiceClient(), organizationId)
+      const invoice = categorizeInvoice(normalizeInvoice(parsed), taxonomy)
+
+      if (options.dryRun) {
+        const status = await previewPersist(invoice, options)
+        record({ documentNumber: invoice.documentNumber, fileName: options.fileName, status })
+        continue
+      }
+
+      let vendorId = options.vendorId || vendorIds.get(parsed.vendorCode)
+      if (!vendorId) {
+        vendorId = await resolveVendorId(parsed.vendorCode)
+        vendorIds.set(parsed.vendorCode, vendorId)
+      }
+
+      const status = await persistInvoice(invoice, { ...options, vendorId })
+      record({ documentNumber: invoice.documentNumber, fileName: options.fileName, status })
+
+      // Credit memos change spend too, so both document types count against budgets
+      const budgetMonth = toBudgetMonth(invoice.invoiceDate)
+      if (status !== 'unchanged' && budgetMonth) {
+        budgetMonths.add(budgetMonth)
+      }
+
+      // Returns are priced at the original invoice price, so they never raise alerts
+      if (status !== 'unchanged' && invoice.documentType === 'INVOICE') {
+        alertRules = alertRules || await loadAlertRules(getServiceClient(), organizationId)
+        let contracts = contractsByVendor.get(vendorId)
+        if (!contracts) {
+          contracts = await loadContractPrices(organizationId, vendorId).catch(error => {
+            // The invoice is already saved; a missing price list only skips the contract check
+            console.error('Failed to load contract prices, skipping contract checks:', error)
+            return []
+          })
+          contractsByVendor.set(vendorId, contracts)
+        }
+        await raisePriceAlerts(invoice, options.locationId, vendorId, alertRules, contracts)
+        await flagContractOvercharges(invoice, options.locationId, vendorId, contracts)
+        invoice.lineItems.forEach(item => pricedProducts.add(vendorProductKey(vendorId, item.productNumber)))
+      }
+    } catch (error) {
+      console.error(`Error importing invoice ${parsed.documentNumber}:`, error)
+      record({
+        documentNumber: parsed.documentNumber,
+        fileName: options.fileName,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  // Once per month touched, after every invoice is in
+  for (const month of budgetMonths) {
+    await checkBudgetAlerts(month, [options.locationId]).catch(error => {
+      console.error(`Failed to check budgets for ${month}:`, error)
+    })
+  }
+
+  if (pricedProducts.size > 0 && organizationId) {
+    await checkRecipeCostAlerts(organizationId, Array.from(pricedProducts)).catch(error => {
+      console.error('Failed to check recipe plate costs:', error)
+    })
+  }
+
+  return outcomes
+}
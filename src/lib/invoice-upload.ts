@@ -0,0 +1,158 @@
+import { ParsedInvoice } from './csv-parser'
+import { normalizePackSize } from './unit-pricing'
+import { parseInvoiceCsv, BUILTIN_VENDOR_FORMATS, VendorFormat } from './vendor-formats'
+import { pdfImportBlocker, BUILTIN_PDF_LAYOUTS, PdfInvoiceCorrection, PdfInvoiceReview, PdfLayout } from './pdf-invoices'
+import { parsePdfInvoice } from './pdf-text'
+import type { InvoiceImportOutcome } from './data-importer'
+
+export interface InvoicePreview {
+  documentNumber: string
+  documentType: string
+  documentDate: string
+  customerName: string
+  netAmountAfterAdjustment: number
+  lineItemTotal: number
+  lineCount: number
+  unknownPackSizes: string[]
+  /** For PDF invoices: what was read with low confidence */
+  review?: PdfInvoiceReview
+  /** For PDF invoices: why it can't be imported yet, null once it can */
+  blocker?: string | null
+}
+
+export interface FilePreview {
+  fileName: string
+  isValid: boolean
+  errors: string[]
+  /** The vendor and format detected from the file's columns, or the PDF's layout */
+  vendorName: string | null
+  formatName: string | null
+  invoices: InvoicePreview[]
+}
+
+export interface UploadCommitResult {
+  fileName: string
+  imported: boolean
+  invoiceCount: number
+  outcomes: InvoiceImportOutcome[]
+  error?: string
+}
+
+/**
+ * Returns the distinct pack sizes on an invoice that can't be converted to a base unit
+ */
+export function findUnknownPackSizes(invoice: ParsedInvoice): string[] {
+  const unknown = new Set<string>()
+
+  for (const item of invoice.lineItems) {
+    const packSize = (item.packingSize || '').trim()
+    if (!packSize) continue
+
+    if (normalizePackSize(packSize).baseUnit === null) {
+      unknown.add(packSize)
+    }
+  }
+
+  return Array.from(unknown)
+}
+
+/**
+ * Summarizes a parsed invoice for display before it is committed
+ */
+export function summarizeInvoice(invoice: ParsedInvoice): InvoicePreview {
+  return {
+    documentNumber: invoice.documentNumber,
+    documentType: invoice.documentType,
+    documentDate: invoice.documentDate,
+    customerName: invoice.customerName,
+    netAmountAfterAdjustment: invoice.netAmountAfterAdjustment,
+    lineItemTotal: Math.round(invoice.lineItems.reduce((sum, item) => sum + item.extendedPrice, 0) * 100) / 100,
+    lineCount: invoice.lineItems.length,
+    unknownPackSizes: findUnknownPackSizes(invoice)
+  }
+}
+
+/**
+ * Detects the vendor format of an uploaded CSV file and parses it, returning
+ * the parsed invoices alongside a preview
+ */
+export async function parseUploadedFile(
+  fileName: string,
+  csvContent: string,
+  formats: VendorFormat[] = BUILTIN_VENDOR_FORMATS
+): Promise<{ preview: FilePreview; invoices: ParsedInvoice[] }> {
+  const preview: FilePreview = {
+    fileName,
+    isValid: false,
+    errors: [],
+    vendorName: null,
+    formatName: null,
+    invoices: []
+  }
+
+  if (!fileName.toLowerCase().endsWith('.csv')) {
+    preview.errors.push('Only .csv and .pdf files are supported')
+    return { preview, invoices: [] }
+  }
+
+  try {
+    const { format, invoices } = await parseInvoiceCsv(csvContent, formats)
+    preview.vendorName = format.vendor_name
+    preview.formatName = format.name
+
+    if (invoices.length === 0) {
+      preview.errors.push('No invoices found in file')
+      return { preview, invoices: [] }
+    }
+
+    preview.invoices = invoices.map(summarizeInvoice)
+    preview.isValid = true
+    return { preview, invoices }
+  } catch (error) {
+    preview.errors.push(error instanceof Error ? error.message : String(error))
+    return { preview, invoices: [] }
+  }
+}
+
+/**
+ * Read an uploaded PDF invoice with its vendor's layout, applying the
+ * reviewer's corrections. Invoices with flagged fields carry a blocker until
+ * they are approved.
+ */
+export async function parseUploadedPdf(
+  fileName: string,
+  data: Uint8Array,
+  layouts: PdfLayout[] = BUILTIN_PDF_LAYOUTS,
+  corrections: PdfInvoiceCorrection[] = []
+): Promise<{ preview: FilePreview; invoices: ParsedInvoice[] }> {
+  const preview: FilePreview = {
+    fileName,
+    isValid: false,
+    errors: [],
+    vendorName: null,
+    formatName: null,
+    invoices: []
+  }
+
+  try {
+    const { layout, invoices } = await parsePdfInvoice(data, layouts, corrections)
+    preview.vendorName = layout.vendor_name
+    preview.formatName = layout.name
+
+    if (invoices.length === 0) {
+      preview.errors.push('No invoices found in file')
+      return { preview, invoices: [] }
+    }
+
+    preview.invoices = invoices.map((parsed, index) => ({
+      ...summarizeInvoice(parsed.invoice),
+      review: parsed.review,
+      blocker: pdfImportBlocker(parsed, corrections[index])
+    }))
+    preview.isValid = true
+    return { preview, invoices: invoices.map(parsed => parsed.invoice) }
+  } catch (error) {
+    preview.errors.push(error instanceof Error ? error.message : String(error))
+    return { preview, invoices: [] }
+  }
+}
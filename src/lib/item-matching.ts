@@ -0,0 +1,497 @@
+import { getServiceClient } from './supabase'
+import { normalizePackSize } from './unit-pricing'
+import { vendorProductKey } from './vendor-formats'
+
+/**
+ * Cross-vendor item matching. Product numbers are vendor-specific, so the same
+ * item bought from two distributors is two products. Pairs that look alike
+ * (description, pack size, brand) are suggested as equivalents; confirmed
+ * links join products into equivalent items, and each item's sources are
+ * compared on their latest price per base unit. Links are decided per
+ * organization.
+ */
+
+/**
+ * A product as bought recently: its latest purchase and how much of it was bought
+ */
+export interface ProductSource {
+  productNumber: string
+  vendorId: string
+  description: string
+  brand: string
+  packSize: string
+  baseUnit: string
+  /** Latest price per base unit */
+  pricePerBaseUnit: number
+  lastPurchaseDate: string
+  vendorCode: string
+  vendorName: string
+  /** Base units bought over the comparison window, e.g. 150 LB */
+  baseUnitsPurchased: number
+  spend: number
+}
+
+export interface MatchSuggestion {
+  productA: ProductSource
+  productB: ProductSource
+  /** 0 to 1 */
+  score: number
+  reasons: string[]
+}
+
+export type ItemLinkStatus = 'CONFIRMED' | 'REJECTED'
+
+export interface ItemLink {
+  id: string
+  vendor_id_a: string
+  product_number_a: string
+  vendor_id_b: string
+  product_number_b: string
+  status: ItemLinkStatus
+  score: number | null
+  created_at: string
+}
+
+export interface EquivalentItemSource extends ProductSource {
+  /** Price per base unit above the cheapest source's, 0 for the cheapest */
+  premium: number
+  premiumPercent: number
+  /** What the base units bought would have cost less at the cheapest source's price */
+  potentialSavings: number
+  /** False when the source is priced in a different base unit from the rest */
+  comparable: boolean
+}
+
+/**
+ * Products confirmed as the same item, compared on price per base unit
+ */
+export interface EquivalentItem {
+  /** The description of the source with the most spend */
+  name: string
+  baseUnit: string
+  cheapest: EquivalentItemSource
+  /** Cheapest first; sources in another base unit last */
+  sources: EquivalentItemSource[]
+  potentialSavings: number
+  /** The confirmed links between the sources, so they can be undone */
+  links: ItemLink[]
+}
+
+/** A pair scoring below this isn't suggested */
+export const MATCH_SUGGESTION_THRESHOLD = 0.55
+
+/** Purchases within this many days are compared */
+export const MATCH_WINDOW_DAYS = 90
+
+// Distributor abbreviations, expanded so descriptions from different vendors line up
+const ABBREVIATIONS: Record<string, string> = {
+  BNLS: 'BONELESS',
+  SKNLS: 'SKINLESS',
+  SKLS: 'SKINLESS',
+  CHKN: 'CHICKEN',
+  CHIX: 'CHICKEN',
+  BRST: 'BREAST',
+  BF: 'BEEF',
+  GRND: 'GROUND',
+  GRD: 'GROUND',
+  FRZ: 'FROZEN',
+  FZN: 'FROZEN',
+  FRSH: 'FRESH',
+  TOM: 'TOMATO',
+  TOMS: 'TOMATO',
+  POT: 'POTATO',
+  CHS: 'CHEESE',
+  SHRD: 'SHREDDED',
+  SHRED: 'SHREDDED',
+  WHL: 'WHOLE',
+  SLCD: 'SLICED',
+  SLC: 'SLICED',
+  DCD: 'DICED',
+  VEG: 'VEGETABLE',
+  GRN: 'GREEN',
+  YEL: 'YELLOW',
+  WHT: 'WHITE',
+  LG: 'LARGE',
+  LRG: 'LARGE',
+  MED: 'MEDIUM',
+  SM: 'SMALL',
+  LGRN: 'LONG GRAIN',
+  JCE: 'JUICE',
+  CRM: 'CREAM',
+  SCE: 'SAUCE',
+  VGTBL: 'VEGETABLE'
+}
+
+// Units and packaging words say nothing about what the item is; pack size is compared separately
+const NOISE_WORDS = new Set([
+  'LB', 'LBS', 'OZ', 'GAL', 'QT', 'PT', 'EA', 'CT', 'CS', 'CASE', 'BAG', 'BG', 'BOX', 'BX', 'PK', 'PKG', 'PACK',
+  'CN', 'CAN', 'JAR', 'BTL', 'BOTTLE', 'TUB', 'KG', 'G', 'ML', 'L', 'DZ', 'AVG', 'APPROX', 'REF', 'IMP', 'CLS', 'SYS', 'THE', 'AND', 'OF', 'WITH', 'W'
+])
+
+/**
+ * Description words for matching: upper-cased, abbreviations expanded, sizes
+ * and packaging words dropped, plurals folded
+ */
+export function descriptionTokens(description: string): Set<string> {
+  const words = (description || '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .split(' ')
+    .flatMap(word => (ABBREVIATIONS[word] || word).split(' '))
+    .filter(word => word.length > 1 && !/\d/.test(word) && !NOISE_WORDS.has(word))
+    .map(word => word.length > 3 && word.endsWith('S') && !word.endsWith('SS') ? word.slice(0, -1) : word)
+
+  return new Set(words)
+}
+
+function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach(token => { if (b.has(token)) shared++ })
+  // Dice coefficient: forgiving of one vendor's longer description
+  return (2 * shared) / (a.size + b.size)
+}
+
+/**
+ * How alike two products look, or null when they can't be the same item
+ * (different base units, so prices couldn't be compared anyway)
+ */
+export function scoreMatch(a: ProductSource, b: ProductSource): { score: number; reasons: string[] } | null {
+  if (!a.baseUnit || a.baseUnit !== b.baseUnit) return null
+
+  const descriptionScore = tokenSimilarity(descriptionTokens(a.description), descriptionTokens(b.description))
+  if (descriptionScore < 0.4) return null
+
+  const reasons = [`Descriptions ${Math.round(descriptionScore * 100)}% alike`]
+
+  const packA = normalizePackSize(a.packSize).baseQuantity
+  const packB = normalizePackSize(b.packSize).baseQuantity
+  let packScore = 0
+  if (packA && packB) {
+    const ratio = Math.min(packA, packB) / Math.max(packA, packB)
+    if (ratio >= 0.95) {
+      packScore = 1
+      reasons.push(`Same pack size (${a.packSize} / ${b.packSize})`)
+    } else if (ratio >= 0.5) {
+      packScore = 0.5
+      reasons.push(`Similar pack size (${a.packSize} / ${b.packSize})`)
+    }
+  }
+
+  const brandScore = a.brand && a.brand.toUpperCase() === b.brand.toUpperCase() ? 1 : 0
+  if (brandScore) reasons.push(`Same brand (${a.brand})`)
+
+  return {
+    score: Math.round((0.6 * descriptionScore + 0.25 * packScore + 0.15 * brandScore) * 1000) / 1000,
+    reasons
+  }
+}
+
+/** The vendorProductKey of a source */
+export function sourceKey(source: Pick<ProductSource, 'vendorId' | 'productNumber'>): string {
+  return vendorProductKey(source.vendorId, source.productNumber)
+}
+
+function linkKeys(link: ItemLink): [string, string] {
+  return [vendorProductKey(link.vendor_id_a, link.product_number_a), vendorProductKey(link.vendor_id_b, link.product_number_b)]
+}
+
+function pairKey(keyA: string, keyB: string): string {
+  return keyA < keyB ? `${keyA}|${keyB}` : `${keyB}|${keyA}`
+}
+
+/**
+ * Join products linked by confirmed links into groups of source keys, union-find style
+ */
+export function groupConfirmedLinks(links: ItemLink[]): string[][] {
+  const parent = new Map<string, string>()
+  const find = (key: string): string => {
+    const root = parent.get(key) || key
+    if (root === key) return root
+    const top = find(root)
+    parent.set(key, top)
+    return top
+  }
+
+  for (const link of links) {
+    if (link.status !== 'CONFIRMED') continue
+    const [keyA, keyB] = linkKeys(link)
+    const rootA = find(keyA)
+    const rootB = find(keyB)
+    if (!parent.has(rootA)) parent.set(rootA, rootA)
+    if (rootA !== rootB) parent.set(rootB, rootA)
+  }
+
+  const groups = new Map<string, string[]>()
+  parent.forEach((_root, key) => {
+    const root = find(key)
+    groups.set(root, [...(groups.get(root) || []), key])
+  })
+
+  return Array.from(groups.values()).filter(group => group.length > 1)
+}
+
+/**
+ * Suggest pairs of products from different vendors that look like the same
+ * item, best first. Pairs already decided, or already in the same equivalent
+ * item, aren't suggested.
+ */
+export function suggestMatches(sources: ProductSource[], links: ItemLink[] = [], limit = 50): MatchSuggestion[] {
+  const decided = new Set(links.map(link => pairKey(...linkKeys(link))))
+  const groupOf = new Map<string, number>()
+  groupConfirmedLinks(links).forEach((group, index) => group.forEach(key => groupOf.set(key, index)))
+
+  // Only products sharing a description word are compared
+  const tokens = sources.map(source => descriptionTokens(source.description))
+  const byToken = new Map<string, number[]>()
+  tokens.forEach((set, index) => set.forEach(token => byToken.set(token, [...(byToken.get(token) || []), index])))
+
+  const suggestions: MatchSuggestion[] = []
+
+  sources.forEach((source, index) => {
+    const candidates = new Set<number>()
+    tokens[index].forEach(token => byToken.get(token)!.forEach(other => { if (other > index) candidates.add(other) }))
+
+    candidates.forEach(otherIndex => {
+      const other = sources[otherIndex]
+      if (source.vendorCode === other.vendorCode) return
+      if (decided.has(pairKey(sourceKey(source), sourceKey(other)))) return
+      const group = groupOf.get(sourceKey(source))
+      if (group !== undefined && group === groupOf.get(sourceKey(other))) return
+
+      const match = scoreMatch(source, other)
+      if (match && match.score >= MATCH_SUGGESTION_THRESHOLD) {
+        suggestions.push({ productA: source, productB: other, ...match })
+      }
+    })
+  })
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || (b.productA.spend + b.productB.spend) - (a.productA.spend + a.productB.spend))
+    .slice(0, limit)
+}
+
+/**
+ * Compare the sources of each equivalent item on price per base unit, most
+ * potential savings first
+ */
+export function buildEquivalentItems(sources: ProductSource[], links: ItemLink[]): EquivalentItem[] {
+  const sourceByKey = new Map(sources.map(source => [sourceKey(source), source]))
+  const items: EquivalentItem[] = []
+
+  for (const group of groupConfirmedLinks(links)) {
+    const members = group
+      .map(key => sourceByKey.get(key))
+      .filter((source): source is ProductSource => !!source)
+    if (members.length < 2) continue
+
+    // Prices are compared in the base unit of the source with the most spend
+    const main = [...members].sort((a, b) => b.spend - a.spend)[0]
+    const comparable = members.filter(member => member.baseUnit === main.baseUnit)
+    const cheapestPrice = Math.min(...comparable.map(member => member.pricePerBaseUnit))
+
+    const itemSources: EquivalentItemSource[] = members
+      .map(member => {
+        const isComparable = member.baseUnit === main.baseUnit
+        const premium = isComparable ? member.pricePerBaseUnit - cheapestPrice : 0
+        return {
+          ...member,
+          premium: Math.round(premium * 10000) / 10000,
+          premiumPercent: cheapestPrice > 0 ? Math.round((premium / cheapestPrice) * 10000) / 100 : 0,
+          potentialSavings: Math.round(premium * member.baseUnitsPurchased * 100) / 100,
+          comparable: isComparable
+        }
+      })
+      .sort((a, b) => Number(b.comparable) - Number(a.comparable) || a.pricePerBaseUnit - b.pricePerBaseUnit)
+
+    const memberKeys = new Set(group)
+    items.push({
+      name: main.description,
+      baseUnit: main.baseUnit,
+      cheapest: itemSources[0],
+      sources: itemSources,
+      potentialSavings: Math.round(itemSources.reduce((sum, source) => sum + source.potentialSavings, 0) * 100) / 100,
+      links: links.filter(link => link.status === 'CONFIRMED' && memberKeys.has(linkKeys(link)[0]))
+    })
+  }
+
+  return items.sort((a, b) => b.potentialSavings - a.potentialSavings || a.name.localeCompare(b.name))
+}
+
+// Reading and saving
+
+interface SourceItemRow {
+  product_number: string
+  product_description: string | null
+  supplier_label: string | null
+  pack_size: string | null
+  base_unit: string | null
+  price_per_base_unit: number | null
+  extended_price: number | null
+  invoice: {
+    invoice_date: string
+    vendor_id: string | null
+    vendor: { vendor_code: string; name: string } | null
+  }
+}
+
+const SOURCE_ITEM_SELECT = `
+  product_number,
+  product_description,
+  supplier_label,
+  pack_size,
+  base_unit,
+  price_per_base_unit,
+  extended_price,
+  invoice:invoices!inner(invoice_date, document_type, location_id, vendor_id, vendor:vendors(vendor_code, name))
+`
+
+const SOURCE_PAGE_SIZE = 1000
+
+/**
+ * Each product bought at the given locations over the last MATCH_WINDOW_DAYS,
+ * with its latest price per base unit and vendor
+ */
+export async function loadProductSources(locationIds?: string[], asOf: Date = new Date()): Promise<ProductSource[]> {
+  const since = new Date(asOf.getTime() - MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  const rows: SourceItemRow[] = []
+
+  for (let from = 0; ; from += SOURCE_PAGE_SIZE) {
+    let query = getServiceClient()
+      .from('invoice_items')
+      .select(SOURCE_ITEM_SELECT)
+      .eq('invoice.document_type', 'INVOICE')
+      .gte('invoice.invoice_date', since)
+      .not('price_per_base_unit', 'is', null)
+      .order('id')
+      .range(from, from + SOURCE_PAGE_SIZE - 1)
+
+    if (locationIds) query = query.in('invoice.location_id', locationIds)
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load product purchases: ${error.message}`)
+    }
+
+    rows.push(...((data || []) as unknown as SourceItemRow[]))
+    if (!data || data.length < SOURCE_PAGE_SIZE) break
+  }
+
+  const sources = new Map<string, ProductSource>()
+
+  for (const row of rows.sort((a, b) => a.invoice.invoice_date.localeCompare(b.invoice.invoice_date))) {
+    const price = Number(row.price_per_base_unit)
+    if (!row.base_unit || !price) continue
+
+    const key = vendorProductKey(row.invoice.vendor_id, row.product_number)
+    const existing = sources.get(key)
+    const spend = Number(row.extended_price) || 0
+    // Rows are oldest first, so each purchase overwrites the latest-price fields
+    sources.set(key, {
+      productNumber: row.product_number,
+      vendorId: row.invoice.vendor_id || '',
+      description: row.product_description || existing?.description || '',
+      brand: row.supplier_label || existing?.brand || '',
+      packSize: row.pack_size || existing?.packSize || '',
+      baseUnit: row.base_unit,
+      pricePerBaseUnit: price,
+      lastPurchaseDate: row.invoice.invoice_date,
+      vendorCode: row.invoice.vendor?.vendor_code || '',
+      vendorName: row.invoice.vendor?.name || 'Unknown vendor',
+      baseUnitsPurchased: (existing?.baseUnitsPurchased || 0) + spend / price,
+      spend: (existing?.spend || 0) + spend
+    })
+  }
+
+  return Array.from(sources.values())
+}
+
+const ITEM_LINK_SELECT = 'id, vendor_id_a, product_number_a, vendor_id_b, product_number_b, status, score, created_at'
+
+export async function listItemLinks(organizationId: string): Promise<ItemLink[]> {
+  const { data, error } = await getServiceClient()
+    .from('item_links')
+    .select(ITEM_LINK_SELECT)
+    .eq('organization_id', organizationId)
+    .order('created_at')
+
+  if (error) {
+    throw new Error(`Failed to load item links: ${error.message}`)
+  }
+
+  return (data || []).map(link => ({
+    ...link,
+    status: link.status as ItemLinkStatus,
+    score: link.score === null ? null : Number(link.score),
+    created_at: link.created_at || ''
+  }))
+}
+
+/**
+ * Confirm or reject a pair of products as the same item; deciding a pair again
+ * replaces the earlier decision
+ */
+export async function saveItemLink(
+  organizationId: string,
+  productA: Pick<ProductSource, 'vendorId' | 'productNumber'>,
+  productB: Pick<ProductSource, 'vendorId' | 'productNumber'>,
+  status: ItemLinkStatus,
+  score: number | null,
+  userId: string
+): Promise<ItemLink> {
+  const [a, b] = sourceKey(productA) < sourceKey(productB) ? [productA, productB] : [productB, productA]
+
+  const { data, error } = await getServiceClient()
+    .from('item_links')
+    .upsert({
+      organization_id: organizationId,
+      vendor_id_a: a.vendorId,
+      product_number_a: a.productNumber,
+      vendor_id_b: b.vendorId,
+      product_number_b: b.productNumber,
+      status,
+      score,
+      decided_by: userId,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'organization_id,vendor_id_a,product_number_a,vendor_id_b,product_number_b' })
+    .select(ITEM_LINK_SELECT)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save item link: ${error.message}`)
+  }
+
+  return {
+    ...data,
+    status: data.status as ItemLinkStatus,
+    score: data.score === null ? null : Number(data.score),
+    created_at: data.created_at || ''
+  }
+}
+
+/**
+ * Undo a decision: a confirmed pair is split again, a rejected pair can be suggested again
+ */
+export async function deleteItemLink(organizationId: string, id: string): Promise<void> {
+  const { error } = await getServiceClient()
+    .from('item_links')
+    .delete()
+    .eq('id', id)
+    .eq('organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to delete item link: ${error.message}`)
+  }
+}
+
+/**
+ * Suggestions and equivalent items for the given locations of an organization
+ */
+export async function getItemMatches(
+  organizationId: string,
+  locationIds?: string[]
+): Promise<{ suggestions: MatchSuggestion[]; items: EquivalentItem[] }> {
+  const [sources, links] = await Promise.all([loadProductSources(locationIds), listItemLinks(organizationId)])
+  return { suggestions: suggestMatches(sources, links), items: buildEquivalentItems(sources, links) }
+}
@@ -0,0 +1,317 @@
+import { getServiceClient } from './supabase'
+
+/**
+ * One delivered invoice line with the price a location paid
+ */
+export interface LocationPriceLine {
+  invoiceId: string
+  invoiceDate: string
+  locationId: string
+  locationName: string
+  /** The US Foods warehouse that quoted and filled the order (USFSalesLocation) */
+  salesLocation: string
+  productNumber: string
+  productDescription: string
+  packSize: string
+  quantity: number
+  unitPrice: number
+}
+
+export type PricePeriod = 'month' | 'quarter'
+
+/**
+ * What one location paid for a product and pack in one period
+ */
+export interface LocationProductPrice {
+  locationId: string
+  locationName: string
+  salesLocations: string[]
+  /** Quantity-weighted average unit price */
+  avgUnitPrice: number
+  minUnitPrice: number
+  maxUnitPrice: number
+  quantity: number
+  spend: number
+  lastPurchaseDate: string
+  /** avgUnitPrice above the cheapest location's, 0 for the cheapest */
+  premium: number
+  premiumPercent: number
+  /** What the quantity bought would have cost less at the cheapest location's price */
+  potentialSavings: number
+  /** 1 is the cheapest; locations paying the same price share a rank */
+  rank: number
+}
+
+/**
+ * A product and pack bought at more than one location in the same period
+ */
+export interface ProductLocationComparison {
+  productNumber: string
+  productDescription: string
+  packSize: string
+  /** YYYY-MM for months, YYYY-Q1 for quarters */
+  period: string
+  cheapestLocationName: string
+  cheapestPrice: number
+  highestPrice: number
+  /** (highest - cheapest) / cheapest */
+  spreadPercent: number
+  potentialSavings: number
+  /** Cheapest first */
+  locations: LocationProductPrice[]
+}
+
+export interface LocationPricingSummary {
+  locationId: string
+  locationName: string
+  salesLocations: string[]
+  /** Product, pack and period combinations this location shares with another */
+  comparisons: number
+  /** Comparisons where this location paid the lowest price */
+  cheapestCount: number
+  comparedSpend: number
+  potentialSavings: number
+  /** Spend on compared products above what the cheapest location would have paid */
+  premiumPercent: number
+  /** 1 pays the least over the cheapest price */
+  rank: number
+}
+
+export interface LocationPricingReport {
+  period: PricePeriod
+  /** Biggest potential savings first */
+  comparisons: ProductLocationComparison[]
+  /** Ranked, cheapest first */
+  locations: LocationPricingSummary[]
+  totalPotentialSavings: number
+}
+
+export interface LocationPricingFilters {
+  /** Only these locations, e.g. the ones the signed-in user can access */
+  locationIds?: string[]
+  dateFrom?: string
+  dateTo?: string
+  period?: PricePeriod
+}
+
+export const DEFAULT_PRICE_PERIOD: PricePeriod = 'month'
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function roundPrice(amount: number): number {
+  return Math.round(amount * 10000) / 10000
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  items.forEach(item => {
+    const groupKey = key(item)
+    if (!groups.has(groupKey)) groups.set(groupKey, [])
+    groups.get(groupKey)!.push(item)
+  })
+  return groups
+}
+
+/**
+ * The period an ISO date falls in
+ * Example: pricePeriodKey('2025-05-14', 'quarter') → '2025-Q2'
+ */
+export function pricePeriodKey(date: string, period: PricePeriod): string {
+  const [year, month] = date.split('-')
+  if (period === 'quarter') {
+    return `${year}-Q${Math.ceil(parseInt(month) / 3)}`
+  }
+  return `${year}-${month}`
+}
+
+/**
+ * Pack sizes as printed vary in spacing and case ("6/5 LB" vs "6/5lb")
+ */
+function packKey(packSize: string): string {
+  return packSize.toUpperCase().replace(/\s+/g, '')
+}
+
+function uniqueSorted(values: string[]): string[] {
+  return Array.from(new Set(values)).sort()
+}
+
+function compareProduct(lines: LocationPriceLine[], period: string): ProductLocationComparison | null {
+  const byLocation = groupBy(lines, line => line.locationId)
+  if (byLocation.size < 2) return null
+
+  const prices = Array.from(byLocation.values()).map(locationLines => {
+    const quantity = locationLines.reduce((sum, line) => sum + line.quantity, 0)
+    const spend = locationLines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0)
+    const unitPrices = locationLines.map(line => line.unitPrice)
+
+    return {
+      locationId: locationLines[0].locationId,
+      locationName: locationLines[0].locationName,
+      salesLocations: uniqueSorted(locationLines.map(line => line.salesLocation)),
+      avgUnitPrice: roundPrice(spend / quantity),
+      minUnitPrice: Math.min(...unitPrices),
+      maxUnitPrice: Math.max(...unitPrices),
+      quantity,
+      spend: roundCurrency(spend),
+      lastPurchaseDate: locationLines.map(line => line.invoiceDate).sort().pop()!,
+      premium: 0,
+      premiumPercent: 0,
+      potentialSavings: 0,
+      rank: 1
+    }
+  }).sort((a, b) => a.avgUnitPrice - b.avgUnitPrice)
+
+  const cheapest = prices[0]
+  prices.forEach((price, index) => {
+    price.premium = roundPrice(price.avgUnitPrice - cheapest.avgUnitPrice)
+    price.premiumPercent = cheapest.avgUnitPrice > 0 ? price.premium / cheapest.avgUnitPrice : 0
+    price.potentialSavings = roundCurrency(price.premium * price.quantity)
+    price.rank = index > 0 && price.avgUnitPrice === prices[index - 1].avgUnitPrice
+      ? prices[index - 1].rank
+      : index + 1
+  })
+
+  const latest = [...lines].sort((a, b) => b.invoiceDate.localeCompare(a.invoiceDate))[0]
+  const highest = prices[prices.length - 1]
+
+  return {
+    productNumber: latest.productNumber,
+    productDescription: latest.productDescription,
+    packSize: latest.packSize,
+    period,
+    cheapestLocationName: cheapest.locationName,
+    cheapestPrice: cheapest.avgUnitPrice,
+    highestPrice: highest.avgUnitPrice,
+    spreadPercent: cheapest.avgUnitPrice > 0 ? (highest.avgUnitPrice - cheapest.avgUnitPrice) / cheapest.avgUnitPrice : 0,
+    potentialSavings: roundCurrency(prices.reduce((sum, price) => sum + price.potentialSavings, 0)),
+    locations: prices
+  }
+}
+
+/**
+ * Compare what each location paid for the same product and pack in the same
+ * period, and rank the locations by how much they paid over the cheapest one
+ */
+export function buildLocationPricingReport(
+  lines: LocationPriceLine[],
+  period: PricePeriod = DEFAULT_PRICE_PERIOD
+): LocationPricingReport {
+  const pricedLines = lines.filter(line => line.quantity > 0 && line.unitPrice > 0)
+
+  const comparisons = Array.from(
+    groupBy(pricedLines, line => `${line.productNumber}|${packKey(line.packSize)}|${pricePeriodKey(line.invoiceDate, period)}`).values()
+  )
+    .map(productLines => compareProduct(productLines, pricePeriodKey(productLines[0].invoiceDate, period)))
+    .filter((comparison): comparison is ProductLocationComparison => comparison !== null)
+    .sort((a, b) => b.potentialSavings - a.potentialSavings || b.spreadPercent - a.spreadPercent)
+
+  const locationPrices = comparisons.flatMap(comparison => comparison.locations)
+  const locations = Array.from(groupBy(locationPrices, price => price.locationId).values()).map(prices => {
+    const comparedSpend = roundCurrency(prices.reduce((sum, price) => sum + price.spend, 0))
+    const potentialSavings = roundCurrency(prices.reduce((sum, price) => sum + price.potentialSavings, 0))
+    const atCheapest = comparedSpend - potentialSavings
+
+    return {
+      locationId: prices[0].locationId,
+      locationName: prices[0].locationName,
+      salesLocations: uniqueSorted(prices.flatMap(price => price.salesLocations)),
+      comparisons: prices.length,
+      cheapestCount: prices.filter(price => price.rank === 1).length,
+      comparedSpend,
+      potentialSavings,
+      premiumPercent: atCheapest > 0 ? potentialSavings / atCheapest : 0,
+      rank: 0
+    }
+  })
+
+  locations
+    .sort((a, b) => a.premiumPercent - b.premiumPercent || b.cheapestCount - a.cheapestCount)
+    .forEach((location, index) => {
+      location.rank = index + 1
+    })
+
+  return {
+    period,
+    comparisons,
+    locations,
+    totalPotentialSavings: roundCurrency(locations.reduce((sum, location) => sum + location.potentialSavings, 0))
+  }
+}
+
+interface LocationPriceItemRow {
+  product_number: string
+  product_description: string | null
+  pack_size: string | null
+  qty_shipped: number | null
+  unit_price: number | null
+  sales_location: string | null
+  invoice: {
+    id: string
+    invoice_date: string
+    location: { id: string, name: string } | null
+  }
+}
+
+// The warehouse is only kept in the original CSV row
+const LOCATION_PRICE_ITEM_SELECT = `
+  product_number,
+  product_description,
+  pack_size,
+  qty_shipped,
+  unit_price,
+  sales_location:raw_data->>USFSalesLocation,
+  invoice:invoices!inner(id, invoice_date, document_type, location_id, location:locations(id, name))
+`
+
+const LOCATION_PRICE_PAGE_SIZE = 1000
+
+/**
+ * Delivered invoice lines for every location, or the given ones, oldest first
+ */
+export async function loadLocationPriceLines(filters: LocationPricingFilters = {}): Promise<LocationPriceLine[]> {
+  const rows: LocationPriceItemRow[] = []
+
+  for (let from = 0; ; from += LOCATION_PRICE_PAGE_SIZE) {
+    let query = getServiceClient()
+      .from('invoice_items')
+      .select(LOCATION_PRICE_ITEM_SELECT)
+      .neq('invoice.document_type', 'CREDIT_MEMO')
+      .order('id')
+      .range(from, from + LOCATION_PRICE_PAGE_SIZE - 1)
+
+    if (filters.locationIds) query = query.in('invoice.location_id', filters.locationIds)
+    if (filters.dateFrom) query = query.gte('invoice.invoice_date', filters.dateFrom)
+    if (filters.dateTo) query = query.lte('invoice.invoice_date', filters.dateTo)
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load invoice lines: ${error.message}`)
+    }
+
+    rows.push(...((data || []) as unknown as LocationPriceItemRow[]))
+    if (!data || data.length < LOCATION_PRICE_PAGE_SIZE) break
+  }
+
+  return rows
+    .filter(row => row.invoice.location)
+    .map(row => ({
+      invoiceId: row.invoice.id,
+      invoiceDate: row.invoice.invoice_date,
+      locationId: row.invoice.location!.id,
+      locationName: row.invoice.location!.name,
+      salesLocation: (row.sales_location || '').trim() || 'Unknown',
+      productNumber: row.product_number,
+      productDescription: row.product_description || '',
+      packSize: row.pack_size || '',
+      quantity: Number(row.qty_shipped) || 0,
+      unitPrice: Number(row.unit_price) || 0
+    }))
+    .sort((a, b) => a.invoiceDate.localeCompare(b.invoiceDate))
+}
+
+export async function getLocationPricingReport(filters: LocationPricingFilters = {}): Promise<LocationPricingReport> {
+  return buildLocationPricingReport(await loadLocationPriceLines(filters), filters.period)
+}
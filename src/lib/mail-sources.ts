@@ -0,0 +1,483 @@
+import { mkdir, readdir, readFile, rename } from 'fs/promises'
+import { Socket } from 'net'
+import { connect as tlsConnect, TLSSocket } from 'tls'
+import path from 'path'
+
+/**
+ * Where invoice emails are read from, and the MIME parsing to get their
+ * attachments out. The counterpart of mail-transport.ts: a Maildir or mbox
+ * drop folder for local runs and mail delivered by a local MTA, or an IMAP
+ * mailbox. New sources are added with registerMailSource.
+ */
+
+export interface InboxMessage {
+  /** Identifies the message within its source: a file name, position or IMAP UID */
+  key: string
+  raw: Buffer
+}
+
+export interface MailSource {
+  name: string
+  /** Messages not yet marked processed, oldest first */
+  fetch(): Promise<InboxMessage[]>
+  /** Mark a message handled so the next fetch leaves it out */
+  markProcessed(message: InboxMessage): Promise<void>
+  close(): Promise<void>
+}
+
+export type MailSourceFactory = (env: NodeJS.ProcessEnv) => MailSource
+
+export interface MailAttachment {
+  fileName: string
+  contentType: string
+  content: Buffer
+}
+
+export interface ParsedMail {
+  /** Message-ID without angle brackets, null when the message has none */
+  messageId: string | null
+  from: string
+  to: string
+  subject: string
+  date: Date | null
+  /** The plain-text body, or the HTML body without its tags */
+  text: string
+  attachments: MailAttachment[]
+}
+
+const IMAP_TIMEOUT_MS = 60000
+
+/** Decode bytes in a MIME charset, falling back to UTF-8 for unknown ones */
+function decodeCharset(bytes: Buffer, charset: string = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim() || 'utf-8').decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+/** Header values may contain RFC 2047 encoded words: =?UTF-8?B?...?= or =?ISO-8859-1?Q?...?= */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_hex, code: string) => String.fromCharCode(parseInt(code, 16))), 'latin1')
+      return decodeCharset(bytes, charset)
+    })
+}
+
+function parseHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>()
+  const unfolded = block.replace(/\r?\n[ \t]+/g, ' ')
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim())
+  }
+
+  return headers
+}
+
+/**
+ * "text/csv; charset=utf-8; name=\"invoice.csv\"" → the value and its parameters,
+ * with RFC 2231 continuations and encodings (filename*=UTF-8''...) decoded
+ */
+function parseHeaderValue(header: string): { value: string; params: Record<string, string> } {
+  const [value, ...rest] = header.split(';')
+  const raw: Record<string, string> = {}
+
+  for (const match of rest.join(';').matchAll(/\s*([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g)) {
+    const quoted = match[2].trim()
+    raw[match[1].toLowerCase()] = quoted.startsWith('"') ? quoted.slice(1, -1).replace(/\\(.)/g, '$1') : quoted
+  }
+
+  const params: Record<string, string> = {}
+  const names = new Set(Object.keys(raw).map(key => key.replace(/\*.*$/, '')))
+
+  for (const name of names) {
+    if (raw[name] !== undefined) {
+      params[name] = decodeEncodedWords(raw[name])
+      continue
+    }
+
+    const extended = raw[`${name}*`]
+    const parts = extended !== undefined
+      ? [{ text: extended, encoded: true }]
+      : Object.keys(raw)
+        .filter(key => new RegExp(`^${name}\\*\\d+\\*?$`).test(key))
+        .sort((a, b) => parseInt(a.split('*')[1]) - parseInt(b.split('*')[1]))
+        .map(key => ({ text: raw[key], encoded: key.endsWith('*') }))
+
+    let charset = 'utf-8'
+    const bytes: Buffer[] = parts.map((part, index) => {
+      if (!part.encoded) return Buffer.from(part.text, 'latin1')
+      let text = part.text
+      if (index === 0) {
+        const [encodedCharset, , encodedText] = text.split("'")
+        charset = encodedCharset || charset
+        text = encodedText ?? text
+      }
+      return Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_hex, code: string) => String.fromCharCode(parseInt(code, 16))), 'latin1')
+    })
+    params[name] = decodeCharset(Buffer.concat(bytes), charset)
+  }
+
+  return { value: value.trim().toLowerCase(), params }
+}
+
+function decodeTransfer(body: string, encoding: string): Buffer {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64')
+    case 'quoted-printable':
+      return Buffer.from(
+        body.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_hex, code: string) => String.fromCharCode(parseInt(code, 16))),
+        'latin1'
+      )
+    default:
+      return Buffer.from(body, 'latin1')
+  }
+}
+
+/** A MIME entity as a latin1 string (one character per byte) split into headers and body */
+function splitEntity(entity: string): { headers: Map<string, string>; body: string } {
+  const separator = entity.match(/\r?\n\r?\n/)
+  if (!separator || separator.index === undefined) return { headers: parseHeaders(entity), body: '' }
+  return {
+    headers: parseHeaders(entity.slice(0, separator.index)),
+    body: entity.slice(separator.index + separator[0].length)
+  }
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`
+  const parts: string[] = []
+  let current: string[] | null = null
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join('\r\n'))
+      // "--boundary--" closes the multipart
+      if (line.slice(delimiter.length).startsWith('--')) return parts
+      current = []
+    } else if (current) {
+      current.push(line)
+    }
+  }
+
+  if (current) parts.push(current.join('\r\n'))
+  return parts
+}
+
+function walkEntity(entity: string, mail: ParsedMail, html: string[]): void {
+  const { headers, body } = splitEntity(entity)
+  const contentType = parseHeaderValue(headers.get('content-type') || 'text/plain')
+  const disposition = parseHeaderValue(headers.get('content-disposition') || '')
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    splitMultipart(body, contentType.params.boundary).forEach(part => walkEntity(part, mail, html))
+    return
+  }
+
+  // A forwarded email's attachments count as the message's own
+  if (contentType.value === 'message/rfc822') {
+    walkEntity(body, mail, html)
+    return
+  }
+
+  const content = decodeTransfer(body, headers.get('content-transfer-encoding') || '7bit')
+  const fileName = disposition.params.filename || contentType.params.name
+
+  if (fileName || disposition.value === 'attachment') {
+    mail.attachments.push({ fileName: fileName || 'attachment', contentType: contentType.value, content })
+  } else if (contentType.value === 'text/plain' && !mail.text) {
+    mail.text = decodeCharset(content, contentType.params.charset)
+  } else if (contentType.value === 'text/html') {
+    html.push(decodeCharset(content, contentType.params.charset))
+  }
+}
+
+/**
+ * Parse an RFC 5322 message: its headers, text and attachments
+ */
+export function parseMailMessage(raw: Buffer): ParsedMail {
+  const source = raw.toString('latin1')
+  const { headers } = splitEntity(source)
+  const date = headers.get('date') ? new Date(headers.get('date')!) : null
+  const mail: ParsedMail = {
+    messageId: headers.get('message-id')?.replace(/^\s*<|>\s*$/g, '') || null,
+    from: decodeEncodedWords(headers.get('from') || ''),
+    to: decodeEncodedWords(headers.get('to') || ''),
+    subject: decodeEncodedWords(headers.get('subject') || ''),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text: '',
+    attachments: []
+  }
+  const html: string[] = []
+
+  walkEntity(source, mail, html)
+
+  if (!mail.text && html.length > 0) {
+    mail.text = html.join('\n').replace(/<br\s*\/?>|<\/(?:p|div|tr)>/gi, '\n').replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ')
+  }
+
+  return mail
+}
+
+/**
+ * A Maildir: messages waiting in new/ are moved to cur/ and flagged seen once processed
+ */
+export function createMaildirMailSource(directory: string): MailSource {
+  return {
+    name: 'maildir',
+    async fetch() {
+      const newDirectory = path.join(directory, 'new')
+      const files = (await readdir(newDirectory)).filter(file => !file.startsWith('.')).sort()
+      return Promise.all(files.map(async file => ({ key: file, raw: await readFile(path.join(newDirectory, file)) })))
+    },
+    async markProcessed(message) {
+      await mkdir(path.join(directory, 'cur'), { recursive: true })
+      await rename(path.join(directory, 'new', message.key), path.join(directory, 'cur', `${message.key}:2,S`))
+    },
+    async close() {}
+  }
+}
+
+/**
+ * An mbox file. It is only read, never rewritten: messages already in the
+ * ingestion log are skipped, so the file can keep growing
+ */
+export function createMboxMailSource(file: string): MailSource {
+  return {
+    name: 'mbox',
+    async fetch() {
+      const content = (await readFile(file)).toString('latin1')
+      // Each message starts with a "From " line; ">From " in a body is an escaped "From "
+      return content
+        .split(/^From .*\r?\n/m)
+        .filter(message => message.trim())
+        .map((message, index) => ({
+          key: String(index),
+          raw: Buffer.from(message.replace(/^>(>*From )/gm, '$1'), 'latin1')
+        }))
+    },
+    async markProcessed() {},
+    async close() {}
+  }
+}
+
+export interface ImapOptions {
+  host: string
+  port: number
+  user: string
+  password: string
+  mailbox: string
+  /** Connect over TLS (port 993); plain connections are for a local test server only */
+  secure: boolean
+}
+
+interface ImapResponse {
+  line: string
+  literals: Buffer[]
+}
+
+/**
+ * Reads complete IMAP responses, with their {n} literals, off a socket in order
+ */
+function imapResponses(socket: Socket | TLSSocket): () => Promise<ImapResponse> {
+  let buffer = Buffer.alloc(0)
+  let partial: ImapResponse = { line: '', literals: [] }
+  let literalLength: number | null = null
+  const responses: ImapResponse[] = []
+  let waiting: { resolve: (response: ImapResponse) => void, reject: (error: Error) => void } | null = null
+  let failure: Error | null = null
+
+  const settle = () => {
+    if (!waiting) return
+    if (responses.length > 0) {
+      waiting.resolve(responses.shift()!)
+      waiting = null
+    } else if (failure) {
+      waiting.reject(failure)
+      waiting = null
+    }
+  }
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk])
+
+    for (;;) {
+      if (literalLength !== null) {
+        if (buffer.length < literalLength) break
+        partial.literals.push(buffer.subarray(0, literalLength))
+        buffer = buffer.subarray(literalLength)
+        literalLength = null
+        continue
+      }
+
+      const newline = buffer.indexOf('\r\n')
+      if (newline < 0) break
+      const line = buffer.subarray(0, newline).toString('utf-8')
+      buffer = buffer.subarray(newline + 2)
+      partial.line += line
+
+      // "{1234}" at the end of a line announces that many bytes of literal data
+      const literal = line.match(/\{(\d+)\}$/)
+      if (literal) {
+        literalLength = parseInt(literal[1])
+      } else {
+        responses.push(partial)
+        partial = { line: '', literals: [] }
+      }
+    }
+    settle()
+  })
+
+  socket.on('error', error => {
+    failure = error
+    settle()
+  })
+
+  socket.on('close', () => {
+    failure = failure || new Error('IMAP connection closed')
+    settle()
+  })
+
+  return () => new Promise((resolve, reject) => {
+    waiting = { resolve, reject }
+    settle()
+  })
+}
+
+function imapQuote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`
+}
+
+/**
+ * An IMAP mailbox: unseen messages are fetched without marking them, then
+ * flagged \Seen once processed
+ */
+export function createImapMailSource(options: ImapOptions): MailSource {
+  let socket: Socket | TLSSocket | null = null
+  let nextResponse: (() => Promise<ImapResponse>) | null = null
+  let tag = 0
+
+  const command = async (text: string): Promise<ImapResponse[]> => {
+    const id = `A${++tag}`
+    socket!.write(`${id} ${text}\r\n`)
+    const untagged: ImapResponse[] = []
+
+    for (;;) {
+      const response = await nextResponse!()
+      if (!response.line.startsWith(`${id} `)) {
+        untagged.push(response)
+        continue
+      }
+      if (!/^\S+ OK/i.test(response.line)) {
+        throw new Error(`IMAP ${text.split(' ').slice(0, 2).join(' ')} failed: ${response.line.slice(id.length + 1)}`)
+      }
+      return untagged
+    }
+  }
+
+  const connect = async () => {
+    if (socket) return
+    socket = options.secure
+      ? tlsConnect({ host: options.host, port: options.port, servername: options.host })
+      : new Socket().connect(options.port, options.host)
+    socket.setTimeout(IMAP_TIMEOUT_MS, () => socket?.destroy(new Error(`IMAP server ${options.host}:${options.port} timed out`)))
+    nextResponse = imapResponses(socket)
+
+    const greeting = await nextResponse()
+    if (!/^\* (OK|PREAUTH)/i.test(greeting.line)) {
+      throw new Error(`IMAP connect failed: ${greeting.line}`)
+    }
+    if (!/^\* PREAUTH/i.test(greeting.line)) {
+      await command(`LOGIN ${imapQuote(options.user)} ${imapQuote(options.password)}`)
+    }
+    await command(`SELECT ${imapQuote(options.mailbox)}`)
+  }
+
+  return {
+    name: 'imap',
+    async fetch() {
+      await connect()
+      const search = await command('UID SEARCH UNSEEN')
+      const uids = search
+        .filter(response => /^\* SEARCH/i.test(response.line))
+        .flatMap(response => response.line.replace(/^\* SEARCH/i, '').trim().split(/\s+/).filter(Boolean))
+
+      const messages: InboxMessage[] = []
+      for (const uid of uids) {
+        const fetched = await command(`UID FETCH ${uid} BODY.PEEK[]`)
+        const raw = fetched.find(response => response.literals.length > 0)?.literals[0]
+        if (raw) messages.push({ key: uid, raw })
+      }
+      return messages
+    },
+    async markProcessed(message) {
+      await connect()
+      await command(`UID STORE ${message.key} +FLAGS (\\Seen)`)
+    },
+    async close() {
+      if (!socket) return
+      await command('LOGOUT').catch(() => undefined)
+      socket.destroy()
+      socket = null
+    }
+  }
+}
+
+const sourceFactories = new Map<string, MailSourceFactory>([
+  ['maildir', env => {
+    if (!env.INBOX_MAILDIR) {
+      throw new Error('INBOX_MAILDIR is required for the maildir mail source')
+    }
+    return createMaildirMailSource(env.INBOX_MAILDIR)
+  }],
+  ['mbox', env => {
+    if (!env.INBOX_MBOX) {
+      throw new Error('INBOX_MBOX is required for the mbox mail source')
+    }
+    return createMboxMailSource(env.INBOX_MBOX)
+  }],
+  ['imap', env => {
+    if (!env.IMAP_HOST || !env.IMAP_USER) {
+      throw new Error('IMAP_HOST and IMAP_USER are required for the imap mail source')
+    }
+    const secure = env.IMAP_SECURE !== 'false'
+    return createImapMailSource({
+      host: env.IMAP_HOST,
+      port: parseInt(env.IMAP_PORT || '') || (secure ? 993 : 143),
+      user: env.IMAP_USER,
+      password: env.IMAP_PASSWORD || '',
+      mailbox: env.IMAP_MAILBOX || 'INBOX',
+      secure
+    })
+  }]
+])
+
+/**
+ * Make another mail source available to createMailSource by name
+ */
+export function registerMailSource(name: string, factory: MailSourceFactory): void {
+  sourceFactories.set(name, factory)
+}
+
+/**
+ * The source named by MAIL_SOURCE (maildir by default), configured from the environment
+ */
+export function createMailSource(
+  name: string = process.env.MAIL_SOURCE || 'maildir',
+  env: NodeJS.ProcessEnv = process.env
+): MailSource {
+  const factory = sourceFactories.get(name)
+  if (!factory) {
+    throw new Error(`Unknown mail source "${name}" (available: ${Array.from(sourceFactories.keys()).join(', ')})`)
+  }
+  return factory(env)
+}
@@ -0,0 +1,237 @@
+import { mkdir, writeFile } from 'fs/promises'
+import { Socket } from 'net'
+import path from 'path'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * Somewhere mail can be sent. New transports are added with registerMailTransport.
+ */
+export interface MailTransport {
+  name: string
+  send(message: MailMessage): Promise<void>
+}
+
+export type MailTransportFactory = (env: NodeJS.ProcessEnv) => MailTransport
+
+export const DEFAULT_MAIL_FROM = 'Invoice Analyzer <digest@localhost>'
+
+/** Where the file transport writes when MAIL_OUTBOX_DIR isn't set */
+export const DEFAULT_OUTBOX_DIR = 'mail-outbox'
+
+const SMTP_TIMEOUT_MS = 30000
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`
+}
+
+function base64Lines(content: string): string {
+  return (Buffer.from(content, 'utf-8').toString('base64').match(/.{1,76}/g) || []).join('\r\n')
+}
+
+/**
+ * A multipart/alternative RFC 5322 message with plain-text and HTML parts
+ */
+export function buildMimeMessage(message: MailMessage, from: string, date: Date = new Date()): string {
+  const boundary = `digest-${date.getTime().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+  return [
+    `From: ${encodeHeader(from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n')
+}
+
+/**
+ * The address part of "Name <address>"
+ */
+function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/)
+  return (match ? match[1] : address).trim()
+}
+
+/**
+ * Writes each message as an .eml file, for local runs and checking what would be sent
+ */
+export function createFileMailTransport(directory: string, from: string = DEFAULT_MAIL_FROM): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+      const recipient = envelopeAddress(message.to).replace(/[^a-zA-Z0-9@._-]/g, '_')
+      await writeFile(path.join(directory, `${stamp}-${recipient}.eml`), buildMimeMessage(message, from))
+    }
+  }
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+/**
+ * Reads complete (possibly multi-line) SMTP replies off a socket in order
+ */
+function smtpReplies(socket: Socket): () => Promise<SmtpReply> {
+  let buffer = ''
+  const replies: SmtpReply[] = []
+  let lines: string[] = []
+  let waiting: { resolve: (reply: SmtpReply) => void, reject: (error: Error) => void } | null = null
+  let failure: Error | null = null
+
+  const settle = () => {
+    if (!waiting) return
+    if (replies.length > 0) {
+      waiting.resolve(replies.shift()!)
+      waiting = null
+    } else if (failure) {
+      waiting.reject(failure)
+      waiting = null
+    }
+  }
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf-8')
+    let newline = buffer.indexOf('\r\n')
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline)
+      buffer = buffer.slice(newline + 2)
+      lines.push(line.slice(4))
+      // "250-" continues a reply, "250 " ends it
+      if (line[3] !== '-') {
+        replies.push({ code: parseInt(line.slice(0, 3)) || 0, text: lines.join(' ') })
+        lines = []
+      }
+      newline = buffer.indexOf('\r\n')
+    }
+    settle()
+  })
+
+  socket.on('error', error => {
+    failure = error
+    settle()
+  })
+
+  socket.on('close', () => {
+    failure = failure || new Error('SMTP connection closed')
+    settle()
+  })
+
+  return () => new Promise((resolve, reject) => {
+    waiting = { resolve, reject }
+    settle()
+  })
+}
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  from: string
+  user?: string
+  password?: string
+}
+
+/**
+ * Plain SMTP without TLS: for a local mail catcher (MailHog, smtp4dev) or a
+ * relay on a trusted network. Use AUTH PLAIN when a user is given.
+ */
+export function createSmtpMailTransport(options: SmtpOptions): MailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const socket = new Socket()
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error(`SMTP server ${options.host}:${options.port} timed out`)))
+      const nextReply = smtpReplies(socket)
+
+      const command = async (line: string | null, expected: number) => {
+        if (line !== null) socket.write(`${line}\r\n`)
+        const reply = await nextReply()
+        if (reply.code !== expected) {
+          const sent = line === null ? 'connect' : line.split(' ')[0]
+          throw new Error(`SMTP ${sent} failed: ${reply.code} ${reply.text}`)
+        }
+      }
+
+      try {
+        socket.connect(options.port, options.host)
+        await command(null, 220)
+        await command('EHLO localhost', 250)
+        if (options.user) {
+          const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`).toString('base64')
+          await command(`AUTH PLAIN ${credentials}`, 235)
+        }
+        await command(`MAIL FROM:<${envelopeAddress(options.from)}>`, 250)
+        await command(`RCPT TO:<${envelopeAddress(message.to)}>`, 250)
+        await command('DATA', 354)
+        // Lines starting with a dot are doubled so they don't end the message;
+        // the message already ends with CRLF, so "." alone terminates it
+        const body = buildMimeMessage(message, options.from).replace(/^\./gm, '..')
+        await command(`${body}.`, 250)
+        await command('QUIT', 221).catch(() => undefined)
+      } finally {
+        socket.destroy()
+      }
+    }
+  }
+}
+
+const transportFactories = new Map<string, MailTransportFactory>([
+  ['file', env => createFileMailTransport(env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR, env.MAIL_FROM || DEFAULT_MAIL_FROM)],
+  ['smtp', env => {
+    if (!env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required for the smtp mail transport')
+    }
+    return createSmtpMailTransport({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || '') || 25,
+      from: env.MAIL_FROM || DEFAULT_MAIL_FROM,
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASSWORD || undefined
+    })
+  }]
+])
+
+/**
+ * Make another transport available to createMailTransport by name
+ */
+export function registerMailTransport(name: string, factory: MailTransportFactory): void {
+  transportFactories.set(name, factory)
+}
+
+/**
+ * The transport named by MAIL_TRANSPORT (file by default), configured from the environment
+ */
+export function createMailTransport(
+  name: string = process.env.MAIL_TRANSPORT || 'file',
+  env: NodeJS.ProcessEnv = process.env
+): MailTransport {
+  const factory = transportFactories.get(name)
+  if (!factory) {
+    throw new Error(`Unknown mail transport "${name}" (available: ${Array.from(transportFactories.keys()).join(', ')})`)
+  }
+  return factory(env)
+}
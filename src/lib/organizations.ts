@@ -0,0 +1,458 @@
+import { MailTransport } from './mail-transport'
+import { hasPermission, isOrganizationRole, OrganizationRole, Permission, ROLE_LABELS, seesAllLocations } from './roles'
+import { getServiceClient } from './supabase'
+
+/**
+ * Organizations, members and invites
+ *
+ * Reads and writes go through the service role, so API routes check access
+ * with getOrganizationAccess and checkAccess before calling anything here.
+ * RLS keeps signed-in browsers to their own organization and locations (see
+ * supabase/migrations/0012_organizations.sql).
+ */
+
+/**
+ * Who a signed-in user is within their organization
+ */
+export interface OrganizationAccess {
+  userId: string
+  organizationId: string
+  organizationName: string
+  role: OrganizationRole
+  /** Every location the user can see: all of the organization's, or their assigned ones */
+  locationIds: string[]
+}
+
+export interface OrganizationMember {
+  user_id: string
+  email: string | null
+  role: OrganizationRole
+  /** Assigned locations; empty for owners and purchasing managers, who see every location */
+  location_ids: string[]
+  created_at: string | null
+}
+
+export interface OrganizationInvite {
+  id: string
+  email: string
+  role: OrganizationRole
+  location_ids: string[]
+  token: string
+  expires_at: string
+  created_at: string | null
+}
+
+/**
+ * What the public invite page shows before the invite is accepted
+ */
+export interface InviteSummary {
+  organizationName: string
+  email: string
+  role: OrganizationRole
+  expired: boolean
+  accepted: boolean
+}
+
+export interface MemberInput {
+  role: OrganizationRole
+  locationIds: string[]
+}
+
+export interface InviteInput extends MemberInput {
+  email: string
+}
+
+/**
+ * The user's organization, role and locations, or null when they don't belong to one
+ */
+export async function getOrganizationAccess(userId: string): Promise<OrganizationAccess | null> {
+  const client = getServiceClient()
+  const { data: member, error } = await client
+    .from('organization_members')
+    .select('organization_id, role, organization:organizations(name)')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load organization membership: ${error.message}`)
+  }
+  if (!member || !isOrganizationRole(member.role)) return null
+
+  const { data: locationIds, error: locationsError } = await client.rpc('user_location_ids', { p_user_id: userId })
+
+  if (locationsError) {
+    throw new Error(`Failed to load accessible locations: ${locationsError.message}`)
+  }
+
+  return {
+    userId,
+    organizationId: member.organization_id,
+    organizationName: member.organization?.name || '',
+    role: member.role,
+    locationIds: (locationIds || []) as string[]
+  }
+}
+
+/**
+ * The organization a location belongs to, through its restaurant. Imports
+ * use it to pick the organization's formats, rules and contract prices.
+ */
+export async function getLocationOrganizationId(locationId: string): Promise<string> {
+  const { data, error } = await getServiceClient()
+    .from('locations')
+    .select('restaurant:restaurants!inner(organization_id)')
+    .eq('id', locationId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up the organization of location ${locationId}: ${error.message}`)
+  }
+
+  const organizationId = (data?.restaurant as { organization_id: string | null } | null)?.organization_id
+  if (!organizationId) {
+    throw new Error(`Location ${locationId} doesn't belong to an organization`)
+  }
+
+  return organizationId
+}
+
+/**
+ * Look up an organization ID by name, for the command-line tools
+ */
+export async function getOrganizationId(name: string): Promise<string> {
+  const { data, error } = await getServiceClient()
+    .from('organizations')
+    .select('id')
+    .eq('name', name)
+    .maybeSingle()
+
+  if (error || !data) {
+    throw new Error(`Organization not found: ${name}${error ? ` (${error.message})` : ''}`)
+  }
+
+  return data.id
+}
+
+/**
+ * Why the user can't do something, or null when they can. Without a
+ * permission only membership is checked; with a location, it must be one of
+ * the user's.
+ */
+export function checkAccess(
+  access: OrganizationAccess | null,
+  permission?: Permission,
+  locationId?: string | null
+): string | null {
+  if (!access) {
+    return 'You are not a member of an organization'
+  }
+  if (permission && !hasPermission(access.role, permission)) {
+    return `Your role (${ROLE_LABELS[access.role]}) can't do that`
+  }
+  if (locationId && !access.locationIds.includes(locationId)) {
+    return 'You do not have access to that location'
+  }
+  return null
+}
+
+/**
+ * Problems with a role and location assignment. Location managers and
+ * read-only members need at least one location, from the organization's own.
+ */
+export function validateMemberInput(input: Partial<MemberInput>, organizationLocationIds: string[]): string[] {
+  const errors: string[] = []
+
+  if (!isOrganizationRole(input.role)) {
+    errors.push('Unknown role')
+    return errors
+  }
+  if (!seesAllLocations(input.role) && (!input.locationIds || input.locationIds.length === 0)) {
+    errors.push(`A ${ROLE_LABELS[input.role].toLowerCase()} needs at least one location`)
+  }
+  if ((input.locationIds || []).some(id => !organizationLocationIds.includes(id))) {
+    errors.push('Unknown location')
+  }
+
+  return errors
+}
+
+/**
+ * Pick a role and locations out of a request body
+ */
+export function toMemberInput(body: Record<string, unknown>): Partial<MemberInput> {
+  return {
+    role: isOrganizationRole(body.role) ? body.role : undefined,
+    locationIds: Array.isArray(body.locationIds)
+      ? Array.from(new Set(body.locationIds.filter((id): id is string => typeof id === 'string')))
+      : []
+  }
+}
+
+// Owners and purchasing managers aren't assigned locations; they see them all
+function assignedLocations(input: MemberInput): string[] {
+  return seesAllLocations(input.role) ? [] : input.locationIds
+}
+
+export async function listOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const client = getServiceClient()
+  const [{ data: members, error }, { data: locations, error: locationsError }] = await Promise.all([
+    client
+      .from('organization_members')
+      .select('user_id, email, role, created_at')
+      .eq('organization_id', organizationId)
+      .order('created_at'),
+    client
+      .from('organization_member_locations')
+      .select('user_id, location_id')
+      .eq('organization_id', organizationId)
+  ])
+
+  if (error || locationsError) {
+    throw new Error(`Failed to load organization members: ${(error || locationsError)!.message}`)
+  }
+
+  return (members || []).map(member => ({
+    ...member,
+    role: member.role as OrganizationRole,
+    location_ids: (locations || [])
+      .filter(location => location.user_id === member.user_id)
+      .map(location => location.location_id)
+  }))
+}
+
+async function ensureAnotherOwner(organizationId: string, userId: string): Promise<void> {
+  const { count, error } = await getServiceClient()
+    .from('organization_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('role', 'owner')
+    .neq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to check organization owners: ${error.message}`)
+  }
+  if (!count) {
+    throw new Error('An organization needs at least one owner')
+  }
+}
+
+/**
+ * Change a member's role and assigned locations
+ */
+export async function updateOrganizationMember(organizationId: string, userId: string, input: MemberInput): Promise<void> {
+  const client = getServiceClient()
+
+  if (input.role !== 'owner') {
+    await ensureAnotherOwner(organizationId, userId)
+  }
+
+  const { data: updated, error } = await client
+    .from('organization_members')
+    .update({ role: input.role, updated_at: new Date().toISOString() })
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .select('user_id')
+
+  if (error) {
+    throw new Error(`Failed to update member: ${error.message}`)
+  }
+  if (!updated || updated.length === 0) {
+    throw new Error('Member not found')
+  }
+
+  const { error: deleteError } = await client
+    .from('organization_member_locations')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+
+  if (deleteError) {
+    throw new Error(`Failed to update member locations: ${deleteError.message}`)
+  }
+
+  const locationIds = assignedLocations(input)
+  if (locationIds.length === 0) return
+
+  const { error: insertError } = await client
+    .from('organization_member_locations')
+    .insert(locationIds.map(locationId => ({ organization_id: organizationId, user_id: userId, location_id: locationId })))
+
+  if (insertError) {
+    throw new Error(`Failed to update member locations: ${insertError.message}`)
+  }
+}
+
+/**
+ * Remove a member. Their location assignments go with them.
+ */
+export async function removeOrganizationMember(organizationId: string, userId: string): Promise<void> {
+  await ensureAnotherOwner(organizationId, userId)
+
+  const { error } = await getServiceClient()
+    .from('organization_members')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to remove member: ${error.message}`)
+  }
+}
+
+/**
+ * Invites not yet accepted, newest first, including expired ones
+ */
+export async function listOrganizationInvites(organizationId: string): Promise<OrganizationInvite[]> {
+  const { data, error } = await getServiceClient()
+    .from('organization_invites')
+    .select('id, email, role, location_ids, token, expires_at, created_at')
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load invites: ${error.message}`)
+  }
+
+  return (data || []) as OrganizationInvite[]
+}
+
+export async function createOrganizationInvite(
+  organizationId: string,
+  invitedBy: string,
+  input: InviteInput
+): Promise<OrganizationInvite> {
+  const { data, error } = await getServiceClient()
+    .from('organization_invites')
+    .insert({
+      organization_id: organizationId,
+      email: input.email.trim().toLowerCase(),
+      role: input.role,
+      location_ids: assignedLocations(input),
+      invited_by: invitedBy
+    })
+    .select('id, email, role, location_ids, token, expires_at, created_at')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create invite: ${error.message}`)
+  }
+
+  return data as OrganizationInvite
+}
+
+export async function revokeOrganizationInvite(organizationId: string, inviteId: string): Promise<void> {
+  const { error } = await getServiceClient()
+    .from('organization_invites')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('id', inviteId)
+    .is('accepted_at', null)
+
+  if (error) {
+    throw new Error(`Failed to revoke invite: ${error.message}`)
+  }
+}
+
+/**
+ * The invite behind a link, or null when the token is unknown
+ */
+export async function getInviteSummary(token: string): Promise<InviteSummary | null> {
+  const { data, error } = await getServiceClient()
+    .from('organization_invites')
+    .select('email, role, expires_at, accepted_at, organization:organizations(name)')
+    .eq('token', token)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load invite: ${error.message}`)
+  }
+  if (!data) return null
+
+  return {
+    organizationName: data.organization?.name || '',
+    email: data.email,
+    role: data.role as OrganizationRole,
+    expired: new Date(data.expires_at) < new Date(),
+    accepted: data.accepted_at !== null
+  }
+}
+
+/**
+ * Join the invite's organization. Throws when the invite is used, expired,
+ * for another email, or the user already belongs to an organization.
+ */
+export async function acceptOrganizationInvite(token: string, userId: string, email: string): Promise<string> {
+  const { data, error } = await getServiceClient().rpc('accept_organization_invite', {
+    p_token: token,
+    p_user_id: userId,
+    p_email: email
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data as string
+}
+
+/**
+ * Create an organization, with a restaurant of the same name, owned by the user
+ */
+export async function createOrganization(name: string, userId: string, email: string | null): Promise<string> {
+  const { data, error } = await getServiceClient().rpc('create_organization', {
+    p_name: name,
+    p_user_id: userId,
+    p_email: email
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data as string
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Email the invite link to the invitee
+ */
+export async function sendInviteEmail(
+  transport: MailTransport,
+  invite: OrganizationInvite,
+  organizationName: string,
+  inviteUrl: string
+): Promise<void> {
+  const role = ROLE_LABELS[invite.role].toLowerCase()
+  const expires = new Date(invite.expires_at).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+
+  await transport.send({
+    to: invite.email,
+    subject: `You're invited to ${organizationName} on Invoice Analyzer`,
+    text: [
+      `You've been invited to join ${organizationName} as a ${role}.`,
+      '',
+      `Accept the invite: ${inviteUrl}`,
+      '',
+      `The link works until ${expires}.`
+    ].join('\n'),
+    html: `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+  <div style="max-width:480px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+    <p>You&#39;ve been invited to join <strong>${escapeHtml(organizationName)}</strong> as a ${escapeHtml(role)}.</p>
+    <p style="margin-top:24px;"><a href="${escapeHtml(inviteUrl)}" style="background:#f29d2c;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none;">Accept invite</a></p>
+    <p style="color:#9ca3af;font-size:12px;margin-top:24px;">The link works until ${escapeHtml(expires)}.</p>
+  </div>
+</body>
+</html>
+`
+  })
+}
@@ -0,0 +1,592 @@
+import { getServiceClient } from './supabase'
+import { applyCreditMemoSigns, ParsedInvoice, ParsedLineItem } from './csv-parser'
+import { parseAmount, resolveVendorId, toISODateWithFormat, DATE_FORMATS, DateFormat, InvoiceField } from './vendor-formats'
+import { billedQuantity } from './unit-pricing'
+import type { PdfTextLine } from './pdf-text'
+
+/**
+ * PDF invoice layouts: how each distributor's PDF invoice reads once its text
+ * is extracted (see pdf-text.ts). A layout identifies the vendor by a piece of
+ * text on the invoice, reads header fields with one pattern each and line
+ * items with a single pattern whose named groups are the line fields. The
+ * result is the same ParsedInvoice a CSV export produces, plus a review of
+ * what was read: fields that weren't found, were ambiguous or don't add up,
+ * and lines that look like items but didn't match, so someone checks them
+ * before the invoice is imported. US Foods and Sysco are built in; other
+ * layouts are added from Settings → PDF Layouts and stored in pdf_layouts, for
+ * the organization that added them.
+ */
+
+export type PdfHeaderField = Extract<InvoiceField,
+  | 'documentNumber'
+  | 'documentDate'
+  | 'customerNumber'
+  | 'customerName'
+  | 'orderNumber'
+  | 'paymentTerms'
+  | 'netAmount'
+  | 'creditMemoNumber'
+>
+
+export type PdfLineField = Extract<InvoiceField,
+  | 'productNumber'
+  | 'productDescription'
+  | 'productLabel'
+  | 'packingSize'
+  | 'weight'
+  | 'qtyOrdered'
+  | 'qtyShipped'
+  | 'pricingUnit'
+  | 'unitPrice'
+  | 'extendedPrice'
+>
+
+export interface PdfLayout {
+  /** Null for the built-in layouts */
+  id: string | null
+  vendor_code: string
+  vendor_name: string
+  name: string
+  /** Text found only on this vendor's invoices, matched case-insensitively */
+  identifier: string
+  /** Header field → regular expression whose first group is the value */
+  header_patterns: Partial<Record<PdfHeaderField, string>>
+  /** Regular expression matching one line item, with a named group per line field */
+  line_pattern: string
+  /** Text marking the document as a credit memo */
+  credit_marker: string
+  date_format: DateFormat
+  builtin: boolean
+}
+
+export type PdfLayoutInput = Pick<PdfLayout,
+  'vendor_code' | 'vendor_name' | 'name' | 'identifier' | 'header_patterns' | 'line_pattern' | 'credit_marker' | 'date_format'
+>
+
+export const PDF_HEADER_FIELDS: { field: PdfHeaderField; label: string; required: boolean }[] = [
+  { field: 'documentNumber', label: 'Invoice number', required: true },
+  { field: 'documentDate', label: 'Invoice date', required: true },
+  { field: 'customerNumber', label: 'Customer number', required: false },
+  { field: 'customerName', label: 'Customer name', required: false },
+  { field: 'orderNumber', label: 'Order number', required: false },
+  { field: 'paymentTerms', label: 'Payment terms', required: false },
+  { field: 'netAmount', label: 'Invoice total', required: false },
+  { field: 'creditMemoNumber', label: 'Original invoice (credit memos)', required: false }
+]
+
+export const PDF_LINE_FIELDS: { field: PdfLineField; label: string; required: boolean }[] = [
+  { field: 'productNumber', label: 'Product number', required: true },
+  { field: 'productDescription', label: 'Description', required: true },
+  { field: 'productLabel', label: 'Brand', required: false },
+  { field: 'packingSize', label: 'Pack size', required: false },
+  { field: 'weight', label: 'Weight', required: false },
+  { field: 'qtyOrdered', label: 'Quantity ordered', required: false },
+  { field: 'qtyShipped', label: 'Quantity shipped', required: false },
+  { field: 'pricingUnit', label: 'Pricing unit', required: false },
+  { field: 'unitPrice', label: 'Unit price', required: true },
+  { field: 'extendedPrice', label: 'Extended price', required: false }
+]
+
+/** Fields read with less confidence than this are flagged for review */
+export const PDF_REVIEW_THRESHOLD = 0.8
+
+// Header wording shared by the distributors' PDF invoices
+const COMMON_HEADER_PATTERNS: Partial<Record<PdfHeaderField, string>> = {
+  documentNumber: 'Invoice\\s*(?:Number|No\\.?|#)\\s*:?\\s*(\\d{5,})',
+  documentDate: 'Invoice\\s*Date\\s*:?\\s*(\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4})',
+  customerNumber: 'Customer\\s*(?:Number|No\\.?|#)\\s*:?\\s*(\\d+)',
+  customerName: 'Customer\\s*Name\\s*:?\\s*(.+?)(?:\\s{2,}|$)',
+  orderNumber: 'Order\\s*(?:Number|No\\.?|#)\\s*:?\\s*(\\S+)',
+  paymentTerms: 'Terms\\s*:?\\s*(.+?)(?:\\s{2,}|$)',
+  netAmount: '(?:Invoice\\s*Total|Total\\s*Due|Amount\\s*Due)\\s*:?\\s*\\$?\\s*(\\(?-?[\\d,]+\\.\\d{2}\\)?)',
+  creditMemoNumber: 'Original\\s*Invoice\\s*(?:Number|No\\.?|#)?\\s*:?\\s*(\\d{5,})'
+}
+
+const PACK_SIZE_PATTERN = '\\d+(?:\\.\\d+)?/\\S+(?:\\s(?:LB|OZ|GAL|GA|CT|EA|QT|PT|ML|LT|L|KG|G|DZ|#10))?'
+const PRICE_PATTERN = '\\$?[\\d,]+\\.\\d{2,3}'
+const EXTENDED_PATTERN = '\\(?-?\\$?[\\d,]+\\.\\d{2}\\)?'
+
+// Product #, ordered, shipped, unit, pack, description, brand, price, extension
+const USFOODS_PDF_LAYOUT: PdfLayout = {
+  id: null,
+  vendor_code: 'USFOODS',
+  vendor_name: 'US Foods',
+  name: 'US Foods PDF invoice',
+  identifier: 'US Foods',
+  header_patterns: COMMON_HEADER_PATTERNS,
+  line_pattern: `^\\s*(?<productNumber>\\d{6,7})\\s+(?<qtyOrdered>\\d+)\\s+(?<qtyShipped>\\d+)\\s+(?<pricingUnit>CS|EA|LB|BG|BX|CT|PK|DZ|GA)\\s+(?<packingSize>${PACK_SIZE_PATTERN})\\s+(?<productDescription>.+?)(?:\\s{2,}(?<productLabel>[A-Za-z][^\\d$]*?))?\\s+(?<unitPrice>${PRICE_PATTERN})\\s+(?<extendedPrice>${EXTENDED_PATTERN})\\s*$`,
+  credit_marker: 'CREDIT MEMO',
+  date_format: 'MDY',
+  builtin: true
+}
+
+// Quantity, unit, pack, description, SUPC item number, price, extension
+const SYSCO_PDF_LAYOUT: PdfLayout = {
+  id: null,
+  vendor_code: 'SYSCO',
+  vendor_name: 'Sysco',
+  name: 'Sysco PDF invoice',
+  identifier: 'Sysco',
+  header_patterns: COMMON_HEADER_PATTERNS,
+  line_pattern: `^\\s*(?<qtyShipped>\\d+)\\s+(?<pricingUnit>CS|EA|LB|BG|BX|CT|PK|DZ|GA)\\s+(?<packingSize>${PACK_SIZE_PATTERN})\\s+(?<productDescription>.+?)\\s+(?<productNumber>\\d{7})\\s+(?<unitPrice>${PRICE_PATTERN})\\s+(?<extendedPrice>${EXTENDED_PATTERN})\\s*$`,
+  credit_marker: 'CREDIT MEMO',
+  date_format: 'MDY',
+  builtin: true
+}
+
+export const BUILTIN_PDF_LAYOUTS: PdfLayout[] = [USFOODS_PDF_LAYOUT, SYSCO_PDF_LAYOUT]
+
+export interface PdfFieldReading {
+  field: PdfHeaderField
+  label: string
+  /** The value read: dates as YYYY-MM-DD, amounts as plain numbers */
+  value: string
+  /** 0 when the field wasn't found, 1 when it was read once and agrees with the lines */
+  confidence: number
+  /** Why the confidence is low, or that the value was corrected */
+  note: string | null
+}
+
+export interface PdfLineIssue {
+  page: number
+  text: string
+  reason: string
+}
+
+export interface PdfInvoiceReview {
+  fields: PdfFieldReading[]
+  lineIssues: PdfLineIssue[]
+  /** Some field is below PDF_REVIEW_THRESHOLD or some line needs a look */
+  needsReview: boolean
+}
+
+export interface PdfParsedInvoice {
+  invoice: ParsedInvoice
+  review: PdfInvoiceReview
+}
+
+/** What the reviewer did with one invoice of a PDF on the upload page */
+export interface PdfInvoiceCorrection {
+  /** Values typed over the ones read from the PDF */
+  fields?: Partial<Record<PdfHeaderField, string>>
+  /** The flagged fields and lines were checked against the PDF */
+  approved?: boolean
+}
+
+function compilePattern(layout: PdfLayout, pattern: string, flags: string, what: string): RegExp {
+  try {
+    return new RegExp(pattern, flags)
+  } catch (error) {
+    throw new Error(`${layout.name} has an invalid ${what} pattern: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/** Amounts agree to the cent, or to 1% for large amounts */
+function amountsAgree(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(0.02, Math.abs(b) * 0.01)
+}
+
+function isISODate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime())
+}
+
+/** Lines starting with an item number and ending with an amount, as line items do */
+function looksLikeLineItem(text: string): boolean {
+  return /^\s*(?:\d+\s+)?\S*\d{4,}/.test(text) && /\d\.\d{2}\)?\s*$/.test(text)
+}
+
+/**
+ * Which layout a PDF's text is written in: among the layouts whose identifier
+ * appears in the text, the one matching the most line items, with layouts
+ * added in settings ahead of the built-in ones
+ */
+export function detectPdfLayout(lines: PdfTextLine[], layouts: PdfLayout[]): PdfLayout | null {
+  const text = lines.map(line => line.text).join('\n').toLowerCase()
+  const candidates = [...layouts.filter(layout => !layout.builtin), ...layouts.filter(layout => layout.builtin)]
+    .filter(layout => layout.identifier.trim() && text.includes(layout.identifier.trim().toLowerCase()))
+
+  let best: { layout: PdfLayout; matches: number } | null = null
+  for (const layout of candidates) {
+    const linePattern = compilePattern(layout, layout.line_pattern, 'i', 'line item')
+    const matches = lines.filter(line => linePattern.test(line.text)).length
+    if (!best || matches > best.matches) best = { layout, matches }
+  }
+
+  return best?.layout || null
+}
+
+/**
+ * Read the invoices in a PDF's text with a layout. A PDF can hold several
+ * invoices: a page with a different invoice number starts a new one. The
+ * corrections, by position of the invoice in the file, replace the values read.
+ */
+export function parsePdfLines(
+  lines: PdfTextLine[],
+  layout: PdfLayout,
+  corrections: PdfInvoiceCorrection[] = []
+): PdfParsedInvoice[] {
+  const headerPatterns = PDF_HEADER_FIELDS
+    .filter(({ field }) => layout.header_patterns[field]?.trim())
+    .map(({ field }) => ({ field, regex: compilePattern(layout, layout.header_patterns[field]!, 'gim', field) }))
+  const linePattern = compilePattern(layout, layout.line_pattern, 'i', 'line item')
+
+  const readAll = (text: string, field: PdfHeaderField): string[] => {
+    const pattern = headerPatterns.find(candidate => candidate.field === field)
+    if (!pattern) return []
+    const values = Array.from(text.matchAll(pattern.regex), match => (match[1] ?? match[0]).trim()).filter(Boolean)
+    return Array.from(new Set(values))
+  }
+
+  // Split the pages into documents by invoice number
+  const pages = new Map<number, PdfTextLine[]>()
+  for (const line of lines) {
+    if (!pages.has(line.page)) pages.set(line.page, [])
+    pages.get(line.page)!.push(line)
+  }
+
+  const documents: { documentNumber: string | null; lines: PdfTextLine[] }[] = []
+  for (const pageLines of pages.values()) {
+    const documentNumber = readAll(pageLines.map(line => line.text).join('\n'), 'documentNumber')[0] || null
+    const current = documents[documents.length - 1]
+    if (current && (!documentNumber || !current.documentNumber || current.documentNumber === documentNumber)) {
+      current.lines.push(...pageLines)
+      current.documentNumber = current.documentNumber || documentNumber
+    } else {
+      documents.push({ documentNumber, lines: [...pageLines] })
+    }
+  }
+
+  return documents.map((document, index) => {
+    const text = document.lines.map(line => line.text).join('\n')
+    const correction = corrections[index]?.fields || {}
+    const fields: PdfFieldReading[] = []
+
+    const read = (field: PdfHeaderField): PdfFieldReading | null => {
+      const definition = PDF_HEADER_FIELDS.find(candidate => candidate.field === field)!
+      const corrected = correction[field]?.trim()
+      if (corrected !== undefined && corrected !== '') {
+        return { field, label: definition.label, value: corrected, confidence: 1, note: 'Corrected by reviewer' }
+      }
+
+      const values = readAll(text, field)
+      if (values.length === 0) {
+        return definition.required
+          ? { field, label: definition.label, value: '', confidence: 0, note: 'Not found on the invoice' }
+          : null
+      }
+      return values.length === 1
+        ? { field, label: definition.label, value: values[0], confidence: 1, note: null }
+        : { field, label: definition.label, value: values[0], confidence: 0.5, note: `Found different values: ${values.join(', ')}` }
+    }
+
+    for (const { field } of PDF_HEADER_FIELDS) {
+      const reading = read(field)
+      if (!reading) continue
+
+      if (field === 'documentDate' && reading.value) {
+        const isoDate = isISODate(reading.value) ? reading.value : toISODateWithFormat(reading.value, layout.date_format)
+        if (isISODate(isoDate)) {
+          reading.value = isoDate
+        } else {
+          reading.confidence = Math.min(reading.confidence, 0.3)
+          reading.note = `"${reading.value}" isn't a ${layout.date_format} date`
+        }
+      }
+      fields.push(reading)
+    }
+
+    const value = (field: PdfHeaderField) => fields.find(reading => reading.field === field)?.value || ''
+    const lineIssues: PdfLineIssue[] = []
+    const lineItems: ParsedLineItem[] = []
+
+    for (const line of document.lines) {
+      const groups = linePattern.exec(line.text)?.groups
+      if (!groups) {
+        if (looksLikeLineItem(line.text) && !headerPatterns.some(({ regex }) => new RegExp(regex.source, 'im').test(line.text))) {
+          lineIssues.push({ page: line.page, text: line.text, reason: "Looks like a line item but doesn't match the layout" })
+        }
+        continue
+      }
+
+      const group = (field: PdfLineField) => (groups[field] || '').trim()
+      const qtyShipped = parseAmount(group('qtyShipped') || group('qtyOrdered'))
+      const qtyOrdered = parseAmount(group('qtyOrdered') || group('qtyShipped'))
+      const unitPrice = parseAmount(group('unitPrice'))
+      const weight = parseAmount(group('weight'))
+      const extendedPrice = group('extendedPrice')
+        ? parseAmount(group('extendedPrice'))
+        : roundCents(billedQuantity({ pricingUnit: group('pricingUnit'), qtyShipped, weight }) * unitPrice)
+
+      // Catch-weight items are priced by weight rather than by quantity
+      if (!amountsAgree(roundCents(qtyShipped * unitPrice), extendedPrice) &&
+          !(weight > 0 && amountsAgree(roundCents(weight * unitPrice), extendedPrice))) {
+        lineIssues.push({
+          page: line.page,
+          text: line.text,
+          reason: `Quantity × price is ${roundCents(qtyShipped * unitPrice).toFixed(2)}, not ${extendedPrice.toFixed(2)}`
+        })
+      }
+
+      const rawRow = { page: String(line.page), text: line.text }
+      lineItems.push({
+        productNumber: group('productNumber'),
+        productDescription: group('productDescription'),
+        productLabel: group('productLabel'),
+        packingSize: group('packingSize'),
+        weight,
+        qtyOrdered,
+        qtyShipped,
+        qtyAdjusted: 0,
+        pricingUnit: group('pricingUnit').toUpperCase(),
+        unitPrice,
+        extendedPrice,
+        rawRow
+      })
+    }
+
+    // The invoice total is checked against the lines it should add up to
+    const lineTotal = roundCents(lineItems.reduce((sum, item) => sum + item.extendedPrice, 0))
+    let netReading = fields.find(reading => reading.field === 'netAmount')
+    if (!netReading) {
+      netReading = {
+        field: 'netAmount',
+        label: 'Invoice total',
+        value: lineTotal.toFixed(2),
+        confidence: 0.5,
+        note: 'No invoice total found; using the sum of the lines'
+      }
+      fields.push(netReading)
+    } else if (netReading.note !== 'Corrected by reviewer') {
+      const netAmount = Math.abs(parseAmount(netReading.value))
+      netReading.value = netAmount.toFixed(2)
+      if (!amountsAgree(netAmount, Math.abs(lineTotal))) {
+        netReading.confidence = Math.min(netReading.confidence, 0.5)
+        netReading.note = `Lines add up to ${lineTotal.toFixed(2)}`
+      }
+    }
+
+    if (lineItems.length === 0) {
+      lineIssues.push({ page: document.lines[0]?.page || 1, text: '', reason: 'No line items match the layout' })
+    }
+
+    const isCreditMemo = !!layout.credit_marker.trim() && text.toLowerCase().includes(layout.credit_marker.trim().toLowerCase())
+    const netAmount = parseAmount(value('netAmount'))
+    const invoice: ParsedInvoice = {
+      vendorCode: layout.vendor_code,
+      documentNumber: value('documentNumber'),
+      documentType: isCreditMemo ? 'CREDIT MEMO' : 'INVOICE',
+      documentDate: value('documentDate'),
+      customerNumber: value('customerNumber'),
+      customerName: value('customerName'),
+      orderNumber: value('orderNumber'),
+      netAmountAfterAdjustment: netAmount,
+      netAmountBeforeAdjustment: netAmount,
+      deliveryAdjustment: 0,
+      paymentTerms: value('paymentTerms'),
+      dateOrdered: '',
+      dateShipped: '',
+      usfSalesLocation: '',
+      usfSalesRep: '',
+      creditMemoNumber: value('creditMemoNumber'),
+      creditMemoDate: '',
+      isCreditMemo: false,
+      lineItems,
+      rawData: document.lines.map(line => ({ page: String(line.page), text: line.text }))
+    }
+    applyCreditMemoSigns([invoice])
+
+    return {
+      invoice,
+      review: {
+        fields,
+        lineIssues,
+        needsReview: lineIssues.length > 0 || fields.some(reading => reading.confidence < PDF_REVIEW_THRESHOLD)
+      }
+    }
+  })
+}
+
+/**
+ * Why a PDF invoice can't be imported yet, or null when it can: the invoice
+ * number, date and lines are needed, and anything flagged must be approved
+ */
+export function pdfImportBlocker(parsed: PdfParsedInvoice, correction?: PdfInvoiceCorrection): string | null {
+  if (!parsed.invoice.documentNumber) return 'The invoice number is missing'
+  if (!isISODate(parsed.invoice.documentDate)) return 'The invoice date is missing or unreadable'
+  if (parsed.invoice.lineItems.length === 0) return 'No line items were read'
+  if (parsed.review.needsReview && !correction?.approved) return 'Flagged fields need review before import'
+  return null
+}
+
+/**
+ * Pick the PDF layout fields out of a request body
+ */
+export function toPdfLayoutInput(body: Record<string, unknown>): PdfLayoutInput {
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+  const patterns = body.header_patterns && typeof body.header_patterns === 'object'
+    ? body.header_patterns as Record<string, unknown>
+    : {}
+
+  return {
+    name: text(body.name),
+    vendor_code: text(body.vendor_code).toUpperCase(),
+    vendor_name: text(body.vendor_name),
+    identifier: text(body.identifier),
+    line_pattern: text(body.line_pattern),
+    credit_marker: text(body.credit_marker),
+    date_format: (text(body.date_format) || 'MDY') as DateFormat,
+    header_patterns: Object.fromEntries(
+      PDF_HEADER_FIELDS.map(({ field }) => [field, text(patterns[field])]).filter(([, pattern]) => pattern)
+    )
+  }
+}
+
+/**
+ * Check a PDF layout before saving it
+ */
+export function validatePdfLayout(input: PdfLayoutInput): string[] {
+  const errors: string[] = []
+
+  if (!input.name?.trim()) errors.push('Layout name is required')
+  if (!input.vendor_name?.trim()) errors.push('Vendor name is required')
+  if (!/^[A-Z0-9_]+$/.test(input.vendor_code || '')) {
+    errors.push('Vendor code must be upper-case letters, digits and underscores, e.g. PRODUCE_CO')
+  }
+  if (!input.identifier?.trim()) errors.push('Identifying text is required')
+  if (!DATE_FORMATS.includes(input.date_format)) {
+    errors.push(`Date format must be one of ${DATE_FORMATS.join(', ')}`)
+  }
+
+  const patterns = input.header_patterns || {}
+  for (const { field, label, required } of PDF_HEADER_FIELDS) {
+    const pattern = patterns[field]?.trim()
+    if (!pattern) {
+      if (required) errors.push(`A pattern is required for ${label}`)
+      continue
+    }
+    try {
+      new RegExp(pattern)
+    } catch {
+      errors.push(`The ${label} pattern isn't a valid regular expression`)
+    }
+  }
+
+  try {
+    const groups = new Set(Array.from(input.line_pattern.matchAll(/\(\?<([A-Za-z]+)>/g), match => match[1]))
+    new RegExp(input.line_pattern)
+    const missing = PDF_LINE_FIELDS.filter(field => field.required && !groups.has(field.field))
+    if (missing.length > 0) {
+      errors.push(`The line item pattern needs named groups for: ${missing.map(field => field.field).join(', ')}`)
+    }
+    if (!groups.has('qtyShipped') && !groups.has('qtyOrdered')) {
+      errors.push('The line item pattern needs a qtyShipped or qtyOrdered group')
+    }
+  } catch {
+    errors.push("The line item pattern isn't a valid regular expression")
+  }
+
+  if (BUILTIN_PDF_LAYOUTS.some(layout => layout.name.toLowerCase() === input.name?.trim().toLowerCase())) {
+    errors.push(`${input.name.trim()} is a built-in layout`)
+  }
+
+  return errors
+}
+
+const PDF_LAYOUT_SELECT = 'id, name, identifier, header_patterns, line_pattern, credit_marker, date_format, vendor:vendors!inner(vendor_code, name)'
+
+interface PdfLayoutRow {
+  id: string
+  name: string
+  identifier: string
+  header_patterns: unknown
+  line_pattern: string
+  credit_marker: string
+  date_format: string
+  vendor: { vendor_code: string; name: string }
+}
+
+function toPdfLayout(row: PdfLayoutRow): PdfLayout {
+  return {
+    id: row.id,
+    vendor_code: row.vendor.vendor_code,
+    vendor_name: row.vendor.name,
+    name: row.name,
+    identifier: row.identifier,
+    header_patterns: (row.header_patterns || {}) as Partial<Record<PdfHeaderField, string>>,
+    line_pattern: row.line_pattern,
+    credit_marker: row.credit_marker,
+    date_format: row.date_format as DateFormat,
+    builtin: false
+  }
+}
+
+/**
+ * The built-in layouts followed by the ones the organization added in settings
+ */
+export async function listPdfLayouts(organizationId: string): Promise<PdfLayout[]> {
+  const { data, error } = await getServiceClient()
+    .from('pdf_layouts')
+    .select(PDF_LAYOUT_SELECT)
+    .eq('organization_id', organizationId)
+    .order('name')
+
+  if (error) {
+    throw new Error(`Failed to load PDF layouts: ${error.message}`)
+  }
+
+  return [...BUILTIN_PDF_LAYOUTS, ...(data || []).map(row => toPdfLayout(row as PdfLayoutRow))]
+}
+
+/**
+ * Create or update a PDF layout; the vendor is added if it's new
+ */
+export async function savePdfLayout(organizationId: string, input: PdfLayoutInput, id?: string): Promise<PdfLayout> {
+  const vendorId = await resolveVendorId(input.vendor_code.trim(), input.vendor_name.trim())
+  const row = {
+    organization_id: organizationId,
+    vendor_id: vendorId,
+    name: input.name.trim(),
+    identifier: input.identifier.trim(),
+    header_patterns: Object.fromEntries(
+      Object.entries(input.header_patterns).filter(([, pattern]) => pattern?.trim()).map(([field, pattern]) => [field, pattern!.trim()])
+    ),
+    line_pattern: input.line_pattern.trim(),
+    credit_marker: input.credit_marker.trim(),
+    date_format: input.date_format,
+    updated_at: new Date().toISOString()
+  }
+
+  const supabase = getServiceClient()
+  const query = id
+    ? supabase.from('pdf_layouts').update(row).eq('id', id).eq('organization_id', organizationId)
+    : supabase.from('pdf_layouts').insert(row)
+
+  const { data, error } = await query.select(PDF_LAYOUT_SELECT).single()
+
+  if (error) {
+    throw new Error(error.code === '23505'
+      ? `A PDF layout named ${row.name} already exists`
+      : `Failed to save PDF layout: ${error.message}`)
+  }
+
+  return toPdfLayout(data as PdfLayoutRow)
+}
+
+/**
+ * Delete a PDF layout; invoices already imported with it keep their vendor
+ */
+export async function deletePdfLayout(organizationId: string, id: string): Promise<void> {
+  const { error } = await getServiceClient()
+    .from('pdf_layouts')
+    .delete()
+    .eq('id', id)
+    .eq('organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to delete PDF layout: ${error.message}`)
+  }
+}
@@ -0,0 +1,111 @@
+import { getDocumentProxy } from 'unpdf'
+import { detectPdfLayout, parsePdfLines, BUILTIN_PDF_LAYOUTS, PdfInvoiceCorrection, PdfLayout, PdfParsedInvoice } from './pdf-invoices'
+
+/**
+ * Text extraction for PDF invoices. A PDF stores positioned runs of text
+ * rather than lines, so runs are grouped into lines by their baseline and
+ * ordered left to right, with a wide gap between runs kept as two spaces so
+ * layouts can tell columns apart. Only text-based PDFs have text to extract:
+ * a scanned invoice comes back empty.
+ */
+
+export interface PdfTextLine {
+  /** 1-based page number */
+  page: number
+  text: string
+}
+
+/** A run of text placed on the page: origin at the bottom left */
+interface TextRun {
+  str: string
+  x: number
+  y: number
+  width: number
+  fontSize: number
+}
+
+/** Runs whose baselines are closer than this fraction of the font size share a line */
+const SAME_LINE_TOLERANCE = 0.5
+/** A gap wider than this many font sizes separates columns */
+const COLUMN_GAP = 1.5
+
+function joinRuns(runs: TextRun[]): string {
+  let text = ''
+  let end: number | null = null
+
+  for (const run of runs.sort((a, b) => a.x - b.x)) {
+    if (end !== null) {
+      const gap = run.x - end
+      if (gap > run.fontSize * COLUMN_GAP) text += '  '
+      else if (gap > run.fontSize * 0.1 && !text.endsWith(' ') && !run.str.startsWith(' ')) text += ' '
+    }
+    text += run.str
+    end = run.x + run.width
+  }
+
+  return text.replace(/\s+$/, '')
+}
+
+/**
+ * The text lines of every page of a PDF, top to bottom
+ */
+export async function extractPdfLines(data: Uint8Array): Promise<PdfTextLine[]> {
+  const lines: PdfTextLine[] = []
+
+  try {
+    const pdf = await getDocumentProxy(data)
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const content = await page.getTextContent()
+      const rows: { y: number; fontSize: number; runs: TextRun[] }[] = []
+
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue
+        // transform is [scaleX, skewY, skewX, scaleY, x, y]
+        const [, , skewX, scaleY, x, y] = item.transform as number[]
+        const run: TextRun = { str: item.str, x, y, width: item.width, fontSize: Math.hypot(skewX, scaleY) || item.height || 10 }
+        const row = rows.find(candidate =>
+          Math.abs(candidate.y - run.y) <= Math.max(candidate.fontSize, run.fontSize) * SAME_LINE_TOLERANCE
+        )
+        if (row) row.runs.push(run)
+        else rows.push({ y: run.y, fontSize: run.fontSize, runs: [run] })
+      }
+
+      // PDF coordinates start at the bottom of the page
+      rows.sort((a, b) => b.y - a.y)
+      for (const row of rows) {
+        const text = joinRuns(row.runs)
+        if (text.trim()) lines.push({ page: pageNumber, text })
+      }
+    }
+
+    await pdf.destroy()
+  } catch (error) {
+    throw new Error(`Failed to read PDF: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  return lines
+}
+
+/**
+ * Extract a PDF invoice's text and read it with the layout of the vendor that
+ * sent it
+ */
+export async function parsePdfInvoice(
+  data: Uint8Array,
+  layouts: PdfLayout[] = BUILTIN_PDF_LAYOUTS,
+  corrections: PdfInvoiceCorrection[] = []
+): Promise<{ layout: PdfLayout; invoices: PdfParsedInvoice[] }> {
+  const lines = await extractPdfLines(data)
+  if (lines.length === 0) {
+    throw new Error('No text found in the PDF. Scanned invoices can\'t be read; ask the vendor for a text PDF or a CSV export')
+  }
+
+  const layout = detectPdfLayout(lines, layouts)
+  if (!layout) {
+    throw new Error('PDF layout not recognized. Add a layout for this vendor in Settings → PDF Layouts')
+  }
+
+  return { layout, invoices: parsePdfLines(lines, layout, corrections) }
+}
@@ -0,0 +1,324 @@
+import { getServiceClient } from './supabase'
+import {
+  AlertAction,
+  AlertWorkflowStatus,
+  canApplyAlertAction,
+  isAlertSnoozed,
+  nextAlertStatus,
+  ALERT_ACTION_LABELS,
+  ALERT_STATUS_LABELS
+} from './alert-workflow'
+
+/**
+ * Price alert inbox: reads alerts with their product and location, and applies
+ * workflow actions through the apply_price_alert_action RPC so every change is
+ * recorded in price_alert_events.
+ */
+
+export interface PriceAlertRecord {
+  id: string
+  product_id: string
+  /** The vendor the product number belongs to */
+  vendor_id: string | null
+  product_number: string
+  product_name: string
+  category: string
+  location_id: string
+  location_name: string
+  alert_type: string
+  alert_level: string
+  current_price: number
+  previous_price: number
+  price_change_amount: number
+  price_change_percent: number
+  pack_size: string | null
+  pricing_unit: string | null
+  supplier_label: string | null
+  alert_date: string
+  workflow_status: AlertWorkflowStatus
+  assigned_to: string | null
+  snoozed_until: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string | null
+}
+
+export interface PriceAlertEvent {
+  id: string
+  alert_id: string
+  action: AlertAction
+  from_status: AlertWorkflowStatus | null
+  to_status: AlertWorkflowStatus | null
+  assigned_to: string | null
+  snoozed_until: string | null
+  note: string | null
+  actor: string | null
+  created_at: string
+}
+
+export interface PriceAlertFilters {
+  status?: AlertWorkflowStatus
+  locationId?: string
+  /** Only alerts at these locations, e.g. the ones the signed-in user can access */
+  locationIds?: string[]
+  assignedTo?: string
+  /** Snoozed alerts are hidden unless this is set */
+  includeSnoozed?: boolean
+  limit?: number
+}
+
+export interface PriceAlertActionRequest {
+  action: AlertAction
+  note?: string
+  assignedTo?: string
+  /** YYYY-MM-DD */
+  snoozedUntil?: string
+}
+
+const ALERT_SELECT = `
+  id,
+  product_id,
+  location_id,
+  alert_type,
+  alert_level,
+  current_price,
+  previous_price,
+  price_change_amount,
+  price_change_percent,
+  pack_size,
+  pricing_unit,
+  supplier_label,
+  alert_date,
+  workflow_status,
+  assigned_to,
+  snoozed_until,
+  resolved_at,
+  created_at,
+  updated_at,
+  product:products(vendor_id, product_number, name, category),
+  location:locations(name)
+`
+
+function toPriceAlertRecord(row: Record<string, unknown>): PriceAlertRecord {
+  const product = (row.product as Record<string, unknown>) || {}
+  const location = (row.location as Record<string, unknown>) || {}
+
+  return {
+    id: row.id as string,
+    product_id: row.product_id as string,
+    vendor_id: (product.vendor_id as string) || null,
+    product_number: (product.product_number as string) || '',
+    product_name: (product.name as string) || 'Unknown Product',
+    category: (product.category as string) || 'Unknown',
+    location_id: row.location_id as string,
+    location_name: (location.name as string) || 'Unknown',
+    alert_type: row.alert_type as string,
+    alert_level: row.alert_level as string,
+    current_price: Number(row.current_price) || 0,
+    previous_price: Number(row.previous_price) || 0,
+    price_change_amount: Number(row.price_change_amount) || 0,
+    price_change_percent: Number(row.price_change_percent) || 0,
+    pack_size: (row.pack_size as string) || null,
+    pricing_unit: (row.pricing_unit as string) || null,
+    supplier_label: (row.supplier_label as string) || null,
+    alert_date: row.alert_date as string,
+    workflow_status: (row.workflow_status as AlertWorkflowStatus) || 'new',
+    assigned_to: (row.assigned_to as string) || null,
+    snoozed_until: (row.snoozed_until as string) || null,
+    resolved_at: (row.resolved_at as string) || null,
+    created_at: row.created_at as string,
+    updated_at: (row.updated_at as string) || null
+  }
+}
+
+/**
+ * List alerts for the inbox, most recent first
+ */
+export async function listPriceAlerts(filters: PriceAlertFilters = {}): Promise<PriceAlertRecord[]> {
+  let query = getServiceClient()
+    .from('price_alerts')
+    .select(ALERT_SELECT)
+    .order('alert_date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(filters.limit || 500)
+
+  if (filters.status) {
+    query = query.eq('workflow_status', filters.status)
+  }
+  if (filters.locationId) {
+    query = query.eq('location_id', filters.locationId)
+  }
+  if (filters.locationIds) {
+    query = query.in('location_id', filters.locationIds)
+  }
+  if (filters.assignedTo) {
+    query = query.eq('assigned_to', filters.assignedTo)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load price alerts: ${error.message}`)
+  }
+
+  const alerts = (data || []).map(row => toPriceAlertRecord(row as Record<string, unknown>))
+  return filters.includeSnoozed ? alerts : alerts.filter(alert => !isAlertSnoozed(alert.snoozed_until))
+}
+
+/**
+ * Load one alert, or null when it doesn't exist
+ */
+export async function getPriceAlert(alertId: string): Promise<PriceAlertRecord | null> {
+  const { data, error } = await getServiceClient()
+    .from('price_alerts')
+    .select(ALERT_SELECT)
+    .eq('id', alertId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load price alert ${alertId}: ${error.message}`)
+  }
+
+  return data ? toPriceAlertRecord(data as Record<string, unknown>) : null
+}
+
+/**
+ * Every change made to an alert, oldest first
+ */
+export async function getPriceAlertHistory(alertId: string): Promise<PriceAlertEvent[]> {
+  const { data, error } = await getServiceClient()
+    .from('price_alert_events')
+    .select('*')
+    .eq('alert_id', alertId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load history for price alert ${alertId}: ${error.message}`)
+  }
+
+  return (data || []) as PriceAlertEvent[]
+}
+
+/**
+ * Check an action against the alert's current state. Returns the reason it
+ * can't be applied, or null when it can.
+ */
+export function validatePriceAlertAction(alert: PriceAlertRecord, request: PriceAlertActionRequest): string | null {
+  if (!canApplyAlertAction(alert.workflow_status, request.action)) {
+    return `Cannot ${ALERT_ACTION_LABELS[request.action].toLowerCase()} an alert that is ${ALERT_STATUS_LABELS[alert.workflow_status].toLowerCase()}`
+  }
+
+  if (request.action === 'snooze') {
+    if (!request.snoozedUntil || !/^\d{4}-\d{2}-\d{2}$/.test(request.snoozedUntil)) {
+      return 'A snooze date (YYYY-MM-DD) is required'
+    }
+    if (!isAlertSnoozed(request.snoozedUntil)) {
+      return 'Snooze date must be in the future'
+    }
+  }
+
+  if (request.action === 'note' && !request.note?.trim()) {
+    return 'A note is required'
+  }
+
+  return null
+}
+
+/**
+ * Apply a workflow action and record it in the alert's history
+ */
+export async function applyPriceAlertAction(
+  alertId: string,
+  request: PriceAlertActionRequest,
+  actor: string
+): Promise<void> {
+  const { error } = await getServiceClient().rpc('apply_price_alert_action', {
+    p_alert_id: alertId,
+    p_action: request.action,
+    p_to_status: nextAlertStatus(request.action),
+    p_assigned_to: request.action === 'assign' ? (request.assignedTo || '').trim() : null,
+    p_snoozed_until: request.action === 'snooze' ? request.snoozedUntil || null : null,
+    p_note: request.note?.trim() || null,
+    p_actor: actor
+  })
+
+  if (error) {
+    throw new Error(`Failed to ${request.action} price alert ${alertId}: ${error.message}`)
+  }
+}
+
+export interface AlertNotification extends PriceAlertRecord {
+  read: boolean
+}
+
+export interface AlertNotifications {
+  unreadCount: number
+  alerts: AlertNotification[]
+}
+
+/**
+ * The newest open alerts at the given locations for the header bell, each
+ * flagged read or unread for the user, with the user's total unread count.
+ * Open means not resolved and not snoozed.
+ */
+export async function getAlertNotifications(
+  userId: string,
+  locationIds: string[],
+  limit: number = 10
+): Promise<AlertNotifications> {
+  const client = getServiceClient()
+  const today = new Date().toISOString().split('T')[0]
+
+  const [{ data, error }, { data: unreadCount, error: countError }] = await Promise.all([
+    client
+      .from('price_alerts')
+      .select(ALERT_SELECT)
+      .neq('workflow_status', 'resolved')
+      .in('location_id', locationIds)
+      .or(`snoozed_until.is.null,snoozed_until.lte.${today}`)
+      .order('created_at', { ascending: false })
+      .limit(limit),
+    client.rpc('count_unread_price_alerts', { p_user_id: userId })
+  ])
+
+  if (error || countError) {
+    throw new Error(`Failed to load alert notifications: ${(error || countError)!.message}`)
+  }
+
+  const alerts = (data || []).map(row => toPriceAlertRecord(row as Record<string, unknown>))
+  const { data: reads, error: readsError } = alerts.length > 0
+    ? await client
+      .from('price_alert_reads')
+      .select('alert_id')
+      .eq('user_id', userId)
+      .in('alert_id', alerts.map(alert => alert.id))
+    : { data: [], error: null }
+
+  if (readsError) {
+    throw new Error(`Failed to load alert notifications: ${readsError.message}`)
+  }
+
+  const readIds = new Set((reads || []).map(read => read.alert_id as string))
+
+  return {
+    unreadCount: Number(unreadCount) || 0,
+    alerts: alerts.map(alert => ({ ...alert, read: readIds.has(alert.id) }))
+  }
+}
+
+/**
+ * Mark alerts read for a user: the given ones, or every open alert, at the
+ * user's locations. Returns how many were newly marked.
+ */
+export async function markPriceAlertsRead(userId: string, alertIds?: string[]): Promise<number> {
+  const { data, error } = await getServiceClient().rpc('mark_price_alerts_read', {
+    p_user_id: userId,
+    p_alert_ids: alertIds && alertIds.length > 0 ? alertIds : null
+  })
+
+  if (error) {
+    throw new Error(`Failed to mark price alerts read: ${error.message}`)
+  }
+
+  return Number(data) || 0
+}
@@ -1,4 +1,5 @@
-import { ParsedInvoice } from './csv-parser'
+import { ParsedInvoice, categorizeProduct, toISODate } from './csv-parser'
+import { AlertLevel, AlertRule, AlertRuleBaseline, DEFAULT_ALERT_RULE, evaluateAlertRules, PricePoint } from './alert-rules'
 
 export interface PriceChange {
   productNumber: string
@@ -9,6 +10,9 @@ export interface PriceChange {
   changeType: 'increase' | 'decrease'
   invoiceDate: string
   previousInvoiceDate: string
+  alertLevel: AlertLevel
+  /** What previousPrice is: the last price or an average, per the matching rule */
+  baseline: AlertRuleBaseline
 }
 
 export interface PriceAlert {
@@ -36,31 +40,37 @@ export interface ProductPriceHistory {
 }
 
 /**
- * Analyzes price changes across invoices for all products
+ * Analyzes price changes across invoices for all products, reporting every
+ * purchase that fires its alert rule
  */
 export function analyzePriceChanges(
   invoices: ParsedInvoice[], 
-  threshold: number = 20
+  rules: AlertRule[] = [DEFAULT_ALERT_RULE]
 ): PriceChange[] {
   const priceChanges: PriceChange[] = []
-  const productPrices = new Map<string, Array<{ price: number; date: string; invoiceDate: string }>>()
+  const productPrices = new Map<string, Array<PricePoint & { category: string }>>()
+  const productDescriptions = new Map<string, string>()
   
   // Sort invoices by date
   const sortedInvoices = [...invoices].sort((a, b) => 
     new Date(a.documentDate).getTime() - new Date(b.documentDate).getTime()
   )
   
-  // Collect all prices by product
+  // Collect all prices by product; returns aren't price points
   for (const invoice of sortedInvoices) {
+    if (invoice.isCreditMemo) continue
+
     for (const item of invoice.lineItems) {
       if (!productPrices.has(item.productNumber)) {
         productPrices.set(item.productNumber, [])
+        productDescriptions.set(item.productNumber, item.productDescription)
       }
       
       productPrices.get(item.productNumber)!.push({
         price: item.unitPrice,
-        date: invoice.documentDate,
-        invoiceDate: invoice.documentDate
+        date: toISODate(invoice.documentDate),
+        quantity: item.qtyShipped,
+        category: categorizeProduct(item.productDescription)
       })
     }
   }
@@ -70,7 +80,7 @@ export function analyzePriceChanges(
     if (prices.length < 2) continue
     
     // Sort prices by date
-    prices.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    prices.sort((a, b) => a.date.localeCompare(b.date))
     
     for (let i = 1; i < prices.length; i++) {
       const current = prices[i]
@@ -79,31 +89,27 @@ export function analyzePriceChanges(
       // Skip if same price
       if (current.price === previous.price) continue
       
-      const percentageChange = ((current.price - previous.price) / previous.price) * 100
-      
-      // Only alert if change exceeds threshold
-      if (Math.abs(percentageChange) >= threshold) {
-        // Get product description from the first invoice that contains this product
-        let productDescription = ''
-        for (const invoice of sortedInvoices) {
-          const item = invoice.lineItems.find(li => li.productNumber === productNumber)
-          if (item) {
-            productDescription = item.productDescription
-            break
-          }
-        }
+      // Only report changes that fire the product's rule
+      const evaluation = evaluateAlertRules(
+        rules,
+        { productNumber, category: current.category },
+        current,
+        prices.slice(0, i)
+      )
+      if (!evaluation) continue
         
-        priceChanges.push({
-          productNumber,
-          productDescription,
-          previousPrice: previous.price,
-          newPrice: current.price,
-          percentageChange: Math.round(percentageChange * 100) / 100,
-          changeType: percentageChange > 0 ? 'increase' : 'decrease',
-          invoiceDate: current.date,
-          previousInvoiceDate: previous.date
-        })
-      }
+      priceChanges.push({
+        productNumber,
+        productDescription: productDescriptions.get(productNumber) || '',
+        previousPrice: Math.round(evaluation.baselinePrice * 10000) / 10000,
+        newPrice: current.price,
+        percentageChange: Math.round(evaluation.changePercent * 100) / 100,
+        changeType: evaluation.changeAmount > 0 ? 'increase' : 'decrease',
+        invoiceDate: current.date,
+        previousInvoiceDate: previous.date,
+        alertLevel: evaluation.level,
+        baseline: evaluation.baseline
+      })
     }
   }
   
@@ -275,9 +281,9 @@ export function calculateMonthlySpending(invoices: ParsedInvoice[]): MonthlySpen
     monthData.totalSpent += invoice.netAmountAfterAdjustment
     monthData.invoiceCount++
     
-    // Category spending (simplified categorization)
+    // Category spending
     for (const item of invoice.lineItems) {
-      const category = categorizeProductSimple(item.productDescription)
+      const category = categorizeProduct(item.productDescription)
       const currentAmount = monthData.categorySpending.get(category) || 0
       monthData.categorySpending.set(category, currentAmount + item.extendedPrice)
     }
@@ -311,28 +317,3 @@ export function calculateMonthlySpending(invoices: ParsedInvoice[]): MonthlySpen
   
   return results.sort((a, b) => a.year - b.year || a.month.localeCompare(b.month))
 }
-
-/**
- * Simplified product categorization for spending analysis
- */
-function categorizeProductSimple(description: string): string {
-  const desc = description.toLowerCase()
-  
-  if (desc.includes('beef') || desc.includes('chicken') || desc.includes('fish') || desc.includes('protein')) {
-    return 'Protein'
-  }
-  if (desc.includes('cheese') || desc.includes('dairy') || desc.includes('milk') || desc.includes('cream')) {
-    return 'Dairy'
-  }
-  if (desc.includes('fresh') || desc.includes('tomato') || desc.includes('lettuce') || desc.includes('pepper')) {
-    return 'Fresh Produce'
-  }
-  if (desc.includes('oil') || desc.includes('salt') || desc.includes('syrup') || desc.includes('sauce')) {
-    return 'Dry Goods'
-  }
-  if (desc.includes('bag') || desc.includes('container') || desc.includes('supplies')) {
-    return 'Supplies'
-  }
-  
-  return 'Other'
-}
\ No newline at end of file
@@ -0,0 +1,339 @@
+/**
+ * Price and spend forecasting
+ *
+ * Fits exponential smoothing models to monthly series: a product's average
+ * unit price or a category's spend. With at least two years of history the
+ * model is additive Holt-Winters, which picks up seasonal swings like summer
+ * produce or holiday protein; with less it falls back to Holt's linear trend.
+ * Smoothing weights are chosen by grid search on one-step-ahead error, and the
+ * bands come from the spread of those errors, widening with the horizon.
+ */
+
+export type ForecastMethod = 'holt_winters' | 'holt'
+
+export interface MonthlyValue {
+  /** YYYY-MM */
+  month: string
+  value: number
+}
+
+export interface ForecastPoint {
+  /** YYYY-MM */
+  month: string
+  value: number
+  lower: number
+  upper: number
+}
+
+export interface Forecast {
+  method: ForecastMethod
+  /** Confidence of the lower/upper band, e.g. 0.8 */
+  confidence: number
+  points: ForecastPoint[]
+}
+
+export interface ForecastOptions {
+  /** Months to project, 1 to 3 */
+  horizon?: number
+  /** Months per season; 12 for a yearly cycle */
+  seasonLength?: number
+  confidence?: 0.8 | 0.9 | 0.95
+}
+
+export interface PurchasePrice {
+  /** YYYY-MM-DD */
+  date: string
+  price: number
+  quantity: number
+  pack_size: string | null
+}
+
+export interface PackPriceForecast {
+  /** The pack size of the latest purchase; other pack sizes price differently and are left out */
+  pack_size: string | null
+  history: MonthlyValue[]
+  /** Null when there are fewer than MIN_FORECAST_MONTHS months of history */
+  forecast: Forecast | null
+}
+
+/**
+ * One row per month for a chart: actual history, then the forecast. The last
+ * month before the forecast also carries it so the two lines join, and a
+ * month in progress shows both its actual and forecast values.
+ */
+export interface ForecastChartRow {
+  month: string
+  label: string
+  actual: number | null
+  forecast: number | null
+  /** [lower, upper], for a range area */
+  band: [number, number] | null
+}
+
+export const MIN_FORECAST_MONTHS = 3
+
+export const MAX_FORECAST_HORIZON = 3
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  holt_winters: 'Seasonal (Holt-Winters)',
+  holt: 'Trend (Holt)'
+}
+
+const Z_SCORES: Record<number, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96
+}
+
+const ALPHAS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9]
+const BETAS = [0.01, 0.05, 0.1, 0.2, 0.3]
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5]
+
+export function toMonth(date: string): string {
+  return date.slice(0, 7)
+}
+
+export function addMonths(month: string, count: number): string {
+  const [year, monthNumber] = month.split('-').map(Number)
+  const index = year * 12 + (monthNumber - 1) + count
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`
+}
+
+/**
+ * Short label for a YYYY-MM month, e.g. "Oct 26"
+ */
+export function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString('en-US', {
+    month: 'short',
+    year: '2-digit',
+    timeZone: 'UTC'
+  })
+}
+
+// Every month from the first to the last key, in order
+function monthRange(months: string[]): string[] {
+  if (months.length === 0) return []
+
+  const sorted = [...months].sort()
+  const range = [sorted[0]]
+  while (range[range.length - 1] < sorted[sorted.length - 1]) {
+    range.push(addMonths(range[range.length - 1], 1))
+  }
+  return range
+}
+
+/**
+ * Weighted average per month. A month with no purchases keeps the previous
+ * month's price: not buying doesn't change what the distributor charges.
+ */
+export function monthlyAverage(points: { date: string; value: number; weight?: number }[]): MonthlyValue[] {
+  const sums = new Map<string, { total: number; weight: number }>()
+
+  for (const point of points) {
+    const weight = point.weight && point.weight > 0 ? point.weight : 1
+    const month = toMonth(point.date)
+    const sum = sums.get(month) || { total: 0, weight: 0 }
+    sum.total += point.value * weight
+    sum.weight += weight
+    sums.set(month, sum)
+  }
+
+  const series: MonthlyValue[] = []
+  for (const month of monthRange(Array.from(sums.keys()))) {
+    const sum = sums.get(month)
+    const value = sum ? sum.total / sum.weight : series[series.length - 1].value
+    series.push({ month, value })
+  }
+  return series
+}
+
+/**
+ * Sum per month, with months that have nothing counted as zero
+ */
+export function monthlyTotal(points: { date: string; value: number }[]): MonthlyValue[] {
+  const totals = new Map<string, number>()
+
+  for (const point of points) {
+    const month = toMonth(point.date)
+    totals.set(month, (totals.get(month) || 0) + point.value)
+  }
+
+  return monthRange(Array.from(totals.keys())).map(month => ({ month, value: totals.get(month) || 0 }))
+}
+
+/**
+ * The series without the month in progress, whose total is still growing and
+ * would drag a spend forecast down
+ */
+export function completeMonths(series: MonthlyValue[], today: Date = new Date()): MonthlyValue[] {
+  const currentMonth = toMonth(today.toISOString())
+  return series.filter(point => point.month < currentMonth)
+}
+
+interface ModelFit {
+  level: number
+  trend: number
+  /** Seasonal offsets indexed by month position modulo the season length; empty for Holt */
+  seasonals: number[]
+  alpha: number
+  beta: number
+  gamma: number
+  /** Sum of squared one-step-ahead errors */
+  sse: number
+  errorCount: number
+}
+
+function fitHolt(values: number[], alpha: number, beta: number): ModelFit {
+  let level = values[0]
+  let trend = values[1] - values[0]
+  let sse = 0
+
+  for (let t = 1; t < values.length; t++) {
+    const error = values[t] - (level + trend)
+    sse += error * error
+
+    const previousLevel = level
+    level = alpha * values[t] + (1 - alpha) * (level + trend)
+    trend = beta * (level - previousLevel) + (1 - beta) * trend
+  }
+
+  return { level, trend, seasonals: [], alpha, beta, gamma: 0, sse, errorCount: values.length - 1 }
+}
+
+function fitHoltWinters(values: number[], seasonLength: number, alpha: number, beta: number, gamma: number): ModelFit {
+  const mean = (slice: number[]) => slice.reduce((sum, value) => sum + value, 0) / slice.length
+  const firstSeason = values.slice(0, seasonLength)
+  const secondSeason = values.slice(seasonLength, seasonLength * 2)
+
+  let level = mean(firstSeason)
+  let trend = (mean(secondSeason) - level) / seasonLength
+  const seasonals = firstSeason.map(value => value - level)
+  let sse = 0
+
+  for (let t = seasonLength; t < values.length; t++) {
+    const season = t % seasonLength
+    const error = values[t] - (level + trend + seasonals[season])
+    sse += error * error
+
+    const previousLevel = level
+    level = alpha * (values[t] - seasonals[season]) + (1 - alpha) * (level + trend)
+    trend = beta * (level - previousLevel) + (1 - beta) * trend
+    seasonals[season] = gamma * (values[t] - level) + (1 - gamma) * seasonals[season]
+  }
+
+  return { level, trend, seasonals, alpha, beta, gamma, sse, errorCount: values.length - seasonLength }
+}
+
+function bestFit(fits: ModelFit[]): ModelFit {
+  return fits.reduce((best, fit) => fit.sse < best.sse ? fit : best)
+}
+
+/**
+ * Project a monthly series. Returns null when it is shorter than
+ * MIN_FORECAST_MONTHS.
+ */
+export function forecastMonthly(series: MonthlyValue[], options: ForecastOptions = {}): Forecast | null {
+  const horizon = Math.min(Math.max(options.horizon ?? MAX_FORECAST_HORIZON, 1), MAX_FORECAST_HORIZON)
+  const seasonLength = options.seasonLength ?? 12
+  const confidence = options.confidence ?? 0.8
+
+  if (series.length < MIN_FORECAST_MONTHS) return null
+
+  const values = series.map(point => point.value)
+  const seasonal = values.length >= seasonLength * 2
+  const fits: ModelFit[] = []
+
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      if (seasonal) {
+        for (const gamma of GAMMAS) {
+          fits.push(fitHoltWinters(values, seasonLength, alpha, beta, gamma))
+        }
+      } else {
+        fits.push(fitHolt(values, alpha, beta))
+      }
+    }
+  }
+
+  const fit = bestFit(fits)
+  const sigma = Math.sqrt(fit.sse / Math.max(fit.errorCount, 1))
+  const z = Z_SCORES[confidence]
+  const lastMonth = series[series.length - 1].month
+
+  // Forecast variance grows by each earlier step's error carried through the level, trend and season
+  let variance = 0
+  const points: ForecastPoint[] = []
+
+  for (let h = 1; h <= horizon; h++) {
+    const step = h - 1
+    const carried = step === 0
+      ? 1
+      : Math.pow(fit.alpha * (1 + step * fit.beta) + (seasonal && step % seasonLength === 0 ? fit.gamma : 0), 2)
+    variance += carried
+
+    const season = seasonal ? fit.seasonals[(values.length + h - 1) % seasonLength] : 0
+    const value = Math.max(0, fit.level + h * fit.trend + season)
+    const spread = z * sigma * Math.sqrt(variance)
+
+    points.push({
+      month: addMonths(lastMonth, h),
+      value,
+      lower: Math.max(0, value - spread),
+      upper: value + spread
+    })
+  }
+
+  return { method: seasonal ? 'holt_winters' : 'holt', confidence, points }
+}
+
+/**
+ * Forecast a product's monthly average unit price from its purchases, using
+ * only the pack size it was last bought in
+ */
+export function forecastPackPrice(purchases: PurchasePrice[], options: ForecastOptions = {}): PackPriceForecast {
+  const priced = purchases.filter(purchase => purchase.price > 0)
+  if (priced.length === 0) {
+    return { pack_size: null, history: [], forecast: null }
+  }
+
+  const latest = priced.reduce((last, purchase) => purchase.date > last.date ? purchase : last)
+  const history = monthlyAverage(
+    priced
+      .filter(purchase => purchase.pack_size === latest.pack_size)
+      .map(purchase => ({ date: purchase.date, value: purchase.price, weight: Math.abs(purchase.quantity) }))
+  )
+
+  return { pack_size: latest.pack_size, history, forecast: forecastMonthly(history, options) }
+}
+
+export function forecastChartRows(history: MonthlyValue[], forecast: Forecast | null): ForecastChartRow[] {
+  const rows: ForecastChartRow[] = history.map(point => ({
+    month: point.month,
+    label: formatMonth(point.month),
+    actual: point.value,
+    forecast: null,
+    band: null
+  }))
+
+  if (!forecast || forecast.points.length === 0) return rows
+
+  const start = rows.filter(row => row.month < forecast.points[0].month).pop()
+  if (start && start.actual !== null) {
+    start.forecast = start.actual
+    start.band = [start.actual, start.actual]
+  }
+
+  for (const point of forecast.points) {
+    const row = rows.find(existing => existing.month === point.month)
+    const values = { forecast: point.value, band: [point.lower, point.upper] as [number, number] }
+
+    if (row) {
+      Object.assign(row, values)
+    } else {
+      rows.push({ month: point.month, label: formatMonth(point.month), actual: null, ...values })
+    }
+  }
+
+  return rows
+}
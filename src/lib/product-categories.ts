@@ -0,0 +1,517 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+
+/**
+ * Product category taxonomy
+ *
+ * Each organization has its own categories and subcategories in
+ * product_categories. Products are assigned one by the ordered keyword rules in
+ * category_rules, unless a manual override in product_category_overrides says
+ * otherwise. The importer applies the organization's to every new invoice line
+ * at its locations, and recategorizeAllHistory re-applies them to its past
+ * invoice lines after the rules change.
+ */
+
+export interface ProductCategory {
+  id: string
+  name: string
+  /** Null for a top-level category, the parent's id for a subcategory */
+  parent_id: string | null
+  sort_order: number
+  created_at?: string | null
+}
+
+export interface CategoryRule {
+  id: string
+  /** Rules are tried lowest priority first */
+  priority: number
+  /** Comma separated; the rule matches when any of them appears in the description */
+  keywords: string
+  category: string
+  subcategory: string | null
+  enabled: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export type CategoryRuleInput = Omit<CategoryRule, 'id' | 'created_at' | 'updated_at'>
+
+export interface CategoryOverride {
+  product_number: string
+  category: string
+  subcategory: string | null
+  note: string | null
+  updated_by?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type CategorySource = 'override' | 'rule' | 'default'
+
+export interface CategoryAssignment {
+  category: string
+  subcategory: string | null
+  source: CategorySource
+}
+
+export interface CategoryTaxonomy {
+  categories: ProductCategory[]
+  rules: CategoryRule[]
+  overrides: CategoryOverride[]
+}
+
+/** What a product that matches no rule is filed under */
+export const DEFAULT_CATEGORY = 'Dry Goods'
+
+/**
+ * Used when an organization has no rules or they can't be read, and seeded for
+ * every organization (see supabase/migrations/0020_organization_settings.sql)
+ */
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+  ['ice cream, gelato, sorbet', 'Frozen', 'Desserts'],
+  ['soda, cola', 'Beverages', 'Soft Drinks'],
+  ['juice', 'Beverages', 'Juice'],
+  ['water', 'Beverages', 'Water'],
+  ['beverage, drink', 'Beverages', null],
+  ['cheese', 'Dairy', 'Cheese'],
+  ['sour cream, milk, cream', 'Dairy', 'Milk & Cream'],
+  ['dairy', 'Dairy', null],
+  ['beef', 'Protein', 'Beef'],
+  ['chicken', 'Protein', 'Poultry'],
+  ['fish, tilapia', 'Protein', 'Seafood'],
+  ['protein, meat', 'Protein', null],
+  ['tomato, lettuce, onion, pepper, tomatillo', 'Produce', 'Vegetables'],
+  ['orange', 'Produce', 'Fruit'],
+  ['fresh, produce', 'Produce', null],
+  ['bag, container, wrap, cup', 'Supplies', 'Disposables'],
+  ['supplies', 'Supplies', null]
+].map(([keywords, category, subcategory], index) => ({
+  id: `default-${index + 1}`,
+  priority: (index + 1) * 10,
+  keywords: keywords as string,
+  category: category as string,
+  subcategory: subcategory,
+  enabled: true
+}))
+
+/**
+ * Every top-level category of the default taxonomy
+ */
+export const DEFAULT_PRODUCT_CATEGORIES = ['Produce', 'Protein', 'Dairy', 'Frozen', 'Beverages', DEFAULT_CATEGORY, 'Supplies']
+
+/**
+ * A rule's keywords, lower-cased and without blanks
+ */
+export function ruleKeywords(rule: Pick<CategoryRule, 'keywords'>): string[] {
+  return rule.keywords
+    .split(',')
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(keyword => keyword.length > 0)
+}
+
+/**
+ * The first enabled rule, by priority, with a keyword in the description
+ */
+export function findCategoryRule(description: string, rules: CategoryRule[]): CategoryRule | null {
+  const desc = (description || '').toLowerCase()
+
+  return [...rules]
+    .filter(rule => rule.enabled)
+    .sort((a, b) => a.priority - b.priority)
+    .find(rule => ruleKeywords(rule).some(keyword => desc.includes(keyword))) || null
+}
+
+/**
+ * Category for a product: its override, else the first matching rule, else Dry Goods
+ * Example: "ICE CREAM VANILLA" → Frozen / Desserts, not Dairy
+ */
+export function assignCategory(
+  productNumber: string,
+  description: string,
+  taxonomy: Pick<CategoryTaxonomy, 'rules' | 'overrides'> = { rules: DEFAULT_CATEGORY_RULES, overrides: [] }
+): CategoryAssignment {
+  const override = taxonomy.overrides.find(candidate => candidate.product_number === productNumber)
+  if (override) {
+    return { category: override.category, subcategory: override.subcategory, source: 'override' }
+  }
+
+  const rule = findCategoryRule(description, taxonomy.rules)
+  if (rule) {
+    return { category: rule.category, subcategory: rule.subcategory, source: 'rule' }
+  }
+
+  return { category: DEFAULT_CATEGORY, subcategory: null, source: 'default' }
+}
+
+/**
+ * Top-level categories in display order
+ */
+export function topLevelCategories(categories: ProductCategory[]): ProductCategory[] {
+  return categories
+    .filter(category => !category.parent_id)
+    .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+}
+
+/**
+ * Subcategories of a category, by the category's name
+ */
+export function subcategoriesOf(categories: ProductCategory[], categoryName: string): ProductCategory[] {
+  const parent = categories.find(category => !category.parent_id && category.name === categoryName)
+  if (!parent) return []
+
+  return categories
+    .filter(category => category.parent_id === parent.id)
+    .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+}
+
+/**
+ * Load the organization's taxonomy, rules and overrides, falling back to the default rules
+ */
+export async function loadCategoryTaxonomy(client: SupabaseClient<Database>, organizationId: string): Promise<CategoryTaxonomy> {
+  const [categoriesResult, rulesResult, overridesResult] = await Promise.all([
+    client.from('product_categories').select('*').eq('organization_id', organizationId),
+    client.from('category_rules').select('*').eq('organization_id', organizationId).order('priority', { ascending: true }),
+    client.from('product_category_overrides').select('*').eq('organization_id', organizationId)
+  ])
+
+  const error = categoriesResult.error || rulesResult.error || overridesResult.error
+  if (error) {
+    console.error('Failed to load product categories, using the default rules:', error.message)
+    return { categories: [], rules: DEFAULT_CATEGORY_RULES, overrides: [] }
+  }
+
+  const rules = (rulesResult.data || []) as CategoryRule[]
+
+  return {
+    categories: (categoriesResult.data || []) as ProductCategory[],
+    rules: rules.length > 0 ? rules : DEFAULT_CATEGORY_RULES,
+    overrides: (overridesResult.data || []) as CategoryOverride[]
+  }
+}
+
+/**
+ * Check a category and subcategory pair exists in the taxonomy
+ */
+export function validateCategoryAssignment(
+  categories: ProductCategory[],
+  category: string | null | undefined,
+  subcategory: string | null | undefined
+): string[] {
+  if (!category?.trim()) {
+    return ['Category is required']
+  }
+  if (!categories.some(candidate => !candidate.parent_id && candidate.name === category)) {
+    return [`Unknown category "${category}"`]
+  }
+  if (subcategory && !subcategoriesOf(categories, category).some(candidate => candidate.name === subcategory)) {
+    return [`"${subcategory}" is not a subcategory of ${category}`]
+  }
+  return []
+}
+
+export function validateCategoryRule(rule: Partial<CategoryRuleInput>, categories: ProductCategory[]): string[] {
+  const errors: string[] = []
+
+  if (typeof rule.priority !== 'number' || !Number.isInteger(rule.priority)) {
+    errors.push('Priority must be a whole number')
+  }
+  if (!rule.keywords || ruleKeywords({ keywords: rule.keywords }).length === 0) {
+    errors.push('At least one keyword is required')
+  }
+
+  return [...errors, ...validateCategoryAssignment(categories, rule.category, rule.subcategory)]
+}
+
+/**
+ * Pick the editable rule fields out of a request body
+ */
+export function toCategoryRuleInput(body: Record<string, unknown>): Partial<CategoryRuleInput> {
+  return {
+    priority: body.priority === undefined || body.priority === '' ? undefined : Number(body.priority),
+    keywords: typeof body.keywords === 'string' ? body.keywords.trim() : undefined,
+    category: typeof body.category === 'string' ? body.category.trim() : undefined,
+    subcategory: typeof body.subcategory === 'string' && body.subcategory.trim() ? body.subcategory.trim() : null,
+    enabled: body.enabled === undefined ? true : Boolean(body.enabled)
+  }
+}
+
+export async function listProductCategories(client: SupabaseClient<Database>, organizationId: string): Promise<ProductCategory[]> {
+  const { data, error } = await client
+    .from('product_categories')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('sort_order', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load product categories: ${error.message}`)
+  }
+
+  return (data || []) as ProductCategory[]
+}
+
+/**
+ * Add a category, or a subcategory when a parent is given
+ */
+export async function createProductCategory(
+  client: SupabaseClient<Database>,
+  organizationId: string,
+  name: string,
+  parentId: string | null = null
+): Promise<ProductCategory> {
+  const categories = await listProductCategories(client, organizationId)
+
+  if (parentId && !categories.some(category => category.id === parentId && !category.parent_id)) {
+    throw new Error('Unknown parent category')
+  }
+
+  const siblings = categories.filter(category => category.parent_id === parentId)
+
+  const { data, error } = await client
+    .from('product_categories')
+    .insert({
+      organization_id: organizationId,
+      name,
+      parent_id: parentId,
+      sort_order: siblings.reduce((max, category) => Math.max(max, category.sort_order), 0) + 1
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create category ${name}: ${error.message}`)
+  }
+
+  return data as ProductCategory
+}
+
+/**
+ * Remove a category and its subcategories. Products keep their category until
+ * they are recategorized.
+ */
+export async function deleteProductCategory(client: SupabaseClient<Database>, organizationId: string, id: string): Promise<void> {
+  const { error } = await client.from('product_categories').delete().eq('id', id).eq('organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to delete category: ${error.message}`)
+  }
+}
+
+/**
+ * Every rule, enabled or not, in the order they're tried
+ */
+export async function listCategoryRules(client: SupabaseClient<Database>, organizationId: string): Promise<CategoryRule[]> {
+  const { data, error } = await client
+    .from('category_rules')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('priority', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load category rules: ${error.message}`)
+  }
+
+  return (data || []) as CategoryRule[]
+}
+
+/**
+ * Create a rule, or update it when an id is given
+ */
+export async function saveCategoryRule(
+  client: SupabaseClient<Database>,
+  organizationId: string,
+  rule: CategoryRuleInput,
+  id?: string
+): Promise<CategoryRule> {
+  const query = id
+    ? client.from('category_rules').update({ ...rule, updated_at: new Date().toISOString() }).eq('id', id).eq('organization_id', organizationId)
+    : client.from('category_rules').insert({ ...rule, organization_id: organizationId })
+
+  const { data, error } = await query.select('*').single()
+
+  if (error) {
+    throw new Error(`Failed to save category rule: ${error.message}`)
+  }
+
+  return data as CategoryRule
+}
+
+export async function deleteCategoryRule(client: SupabaseClient<Database>, organizationId: string, id: string): Promise<void> {
+  const { error } = await client.from('category_rules').delete().eq('id', id).eq('organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to delete category rule: ${error.message}`)
+  }
+}
+
+export async function listCategoryOverrides(client: SupabaseClient<Database>, organizationId: string): Promise<CategoryOverride[]> {
+  const { data, error } = await client
+    .from('product_category_overrides')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('product_number', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load category overrides: ${error.message}`)
+  }
+
+  return (data || []) as CategoryOverride[]
+}
+
+/**
+ * Pin a product to a category, replacing any earlier override for it
+ */
+export async function saveCategoryOverride(
+  client: SupabaseClient<Database>,
+  organizationId: string,
+  override: CategoryOverride
+): Promise<CategoryOverride> {
+  const { data, error } = await client
+    .from('product_category_overrides')
+    .upsert(
+      { ...override, organization_id: organizationId, updated_at: new Date().toISOString() },
+      { onConflict: 'organization_id,product_number' }
+    )
+    .select('*')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save category override for ${override.product_number}: ${error.message}`)
+  }
+
+  return data as CategoryOverride
+}
+
+export async function deleteCategoryOverride(client: SupabaseClient<Database>, organizationId: string, productNumber: string): Promise<void> {
+  const { error } = await client
+    .from('product_category_overrides')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('product_number', productNumber)
+
+  if (error) {
+    throw new Error(`Failed to delete category override for ${productNumber}: ${error.message}`)
+  }
+}
+
+export interface RecategorizeChange {
+  productNumber: string
+  name: string
+  /** Lines don't record a subcategory, so from only names the category */
+  from: { category: string | null; subcategory: string | null }
+  to: CategoryAssignment
+}
+
+export interface RecategorizeResult {
+  productsChecked: number
+  productsChanged: number
+  /** Past invoice lines whose category was rewritten; 0 on a dry run */
+  invoiceLinesChanged: number
+  changes: RecategorizeChange[]
+}
+
+interface InvoiceLineCategoryRow {
+  id: string
+  product_number: string
+  product_description: string | null
+  product_category: string | null
+}
+
+const LINE_PAGE_SIZE = 1000
+// Lines are updated by id, and a long id list makes a long request URL
+const UPDATE_BATCH_SIZE = 100
+
+/**
+ * Re-apply the organization's current overrides and rules to every past
+ * invoice line at its locations, so category spend reflects its taxonomy as it
+ * is today. The product catalog is shared by every organization, so the
+ * products' own category is left alone.
+ */
+export async function recategorizeAllHistory(
+  client: SupabaseClient<Database>,
+  organizationId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<RecategorizeResult> {
+  const taxonomy = await loadCategoryTaxonomy(client, organizationId)
+
+  const { data: locations, error: locationsError } = await client
+    .from('locations')
+    .select('id, restaurant:restaurants!inner(organization_id)')
+    .eq('restaurant.organization_id', organizationId)
+
+  if (locationsError) {
+    throw new Error(`Failed to load locations: ${locationsError.message}`)
+  }
+
+  const locationIds = (locations || []).map(location => location.id)
+  const lines: InvoiceLineCategoryRow[] = []
+
+  for (let from = 0; locationIds.length > 0; from += LINE_PAGE_SIZE) {
+    const { data, error } = await client
+      .from('invoice_items')
+      .select('id, product_number, product_description, product_category, invoice:invoices!inner(location_id)')
+      .in('invoice.location_id', locationIds)
+      .order('id')
+      .range(from, from + LINE_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load invoice lines: ${error.message}`)
+    }
+
+    lines.push(...((data || []) as unknown as InvoiceLineCategoryRow[]))
+    if (!data || data.length < LINE_PAGE_SIZE) break
+  }
+
+  // Lines imported under older rules can disagree with each other, so each is checked
+  const products = new Map<string, { name: string; assignment: CategoryAssignment; from: string | null; lineIds: string[] }>()
+  for (const line of lines) {
+    let product = products.get(line.product_number)
+    if (!product) {
+      const name = line.product_description || line.product_number
+      product = { name, assignment: assignCategory(line.product_number, name, taxonomy), from: null, lineIds: [] }
+      products.set(line.product_number, product)
+    }
+    if (line.product_category !== product.assignment.category) {
+      if (product.lineIds.length === 0) product.from = line.product_category
+      product.lineIds.push(line.id)
+    }
+  }
+
+  const changed = Array.from(products.entries()).filter(([, product]) => product.lineIds.length > 0)
+
+  const result: RecategorizeResult = {
+    productsChecked: products.size,
+    productsChanged: changed.length,
+    invoiceLinesChanged: 0,
+    changes: changed.map(([productNumber, product]) => ({
+      productNumber,
+      name: product.name,
+      from: { category: product.from, subcategory: null },
+      to: product.assignment
+    }))
+  }
+
+  if (options.dryRun) return result
+
+  // Write lines in batches sharing the same category
+  const groups = new Map<string, string[]>()
+  changed.forEach(([, product]) => {
+    groups.set(product.assignment.category, [...(groups.get(product.assignment.category) || []), ...product.lineIds])
+  })
+
+  for (const [category, lineIds] of groups) {
+    for (let start = 0; start < lineIds.length; start += UPDATE_BATCH_SIZE) {
+      const { count, error } = await client
+        .from('invoice_items')
+        .update({ product_category: category }, { count: 'exact' })
+        .in('id', lineIds.slice(start, start + UPDATE_BATCH_SIZE))
+
+      if (error) {
+        throw new Error(`Failed to recategorize invoice lines: ${error.message}`)
+      }
+
+      result.invoiceLinesChanged += count || 0
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,667 @@
+import { getServiceClient } from './supabase'
+import { convertQuantity } from './unit-pricing'
+import { vendorProductKey } from './vendor-formats'
+
+/**
+ * Recipe costing
+ *
+ * Recipes belong to an organization. A recipe's ingredients are products,
+ * costed at the latest price per base unit on the product's vendor's invoices
+ * at the organization's locations, or sub-recipes, costed from their own
+ * ingredients. Quantities are converted to the product's base unit (OZ of a
+ * product bought by the LB) and divided by the yield, so trimming 15% off an
+ * onion costs the whole onion. The plate cost is the batch cost over its
+ * portions; for a menu item it is compared with the menu price and the target
+ * food-cost percentage.
+ */
+
+export interface RecipeIngredient {
+  id?: string
+  /** Set for a product ingredient, with the vendor whose product number it is */
+  vendor_id: string | null
+  product_number: string | null
+  /** Set for a sub-recipe ingredient */
+  sub_recipe_id: string | null
+  quantity: number
+  /** A measure (LB, OZ, GAL, EA...), or PORTION for a sub-recipe */
+  unit: string
+  /** Usable share after trim and cooking loss, 1 to 100 */
+  yield_percent: number
+}
+
+export interface Recipe {
+  id: string
+  name: string
+  /** False for a sub-recipe that only goes into other recipes */
+  is_menu_item: boolean
+  portions: number
+  /** What one batch makes, so other recipes can use a sub-recipe by measure */
+  yield_quantity: number | null
+  yield_unit: string | null
+  menu_price: number | null
+  target_food_cost_percent: number | null
+  notes: string | null
+  cost_alerted?: boolean
+  ingredients: RecipeIngredient[]
+}
+
+export type RecipeInput = Omit<Recipe, 'id' | 'cost_alerted'>
+
+export interface IngredientPrice {
+  vendor_id: string
+  product_number: string
+  description: string
+  base_unit: string
+  price_per_base_unit: number
+  /** Invoice date of the latest price, YYYY-MM-DD */
+  price_date: string
+  /** The price from the purchase before, if any */
+  previous_price_per_base_unit: number | null
+}
+
+export interface CostedIngredient {
+  ingredient: RecipeIngredient
+  name: string
+  /** The product's base unit, or the unit the sub-recipe is used in */
+  base_unit: string | null
+  unit_cost: number | null
+  /** Null when the ingredient has no price or its unit doesn't convert */
+  cost: number | null
+  price_date: string | null
+  /** Price per base unit from the purchase before, for a product */
+  previous_unit_cost: number | null
+  /** Latest price against the purchase before, as a percentage */
+  price_change_percent: number | null
+  issue: string | null
+}
+
+export interface RecipeCost {
+  recipe: Recipe
+  batch_cost: number
+  plate_cost: number
+  /** Plate cost over menu price; null without a menu price */
+  food_cost_percent: number | null
+  over_target: boolean
+  ingredients: CostedIngredient[]
+  /** Ingredients left out of the cost because they couldn't be priced */
+  unpriced: number
+}
+
+export interface PriceIncrease {
+  vendor_id: string | null
+  product_number: string
+  description: string
+  previous_price: number
+  current_price: number
+  base_unit: string
+}
+
+export interface RecipeCostAlert {
+  id: string
+  recipe_id: string
+  recipe_name: string
+  plate_cost: number
+  menu_price: number
+  food_cost_percent: number
+  target_food_cost_percent: number
+  price_increases: PriceIncrease[]
+  created_at: string | null
+}
+
+export const PORTION_UNIT = 'PORTION'
+
+function roundCost(amount: number): number {
+  return Math.round(amount * 10000) / 10000
+}
+
+function unitKey(unit: string): string {
+  return (unit || '').toUpperCase().replace(/[\s.]/g, '').replace(/^#10CN$/, '#10CAN')
+}
+
+// A quantity in another unit of the same measure, or null when they don't convert
+function quantityIn(quantity: number, unit: string, targetUnit: string): number | null {
+  if (unitKey(unit) === unitKey(targetUnit)) return quantity
+  return convertQuantity(quantity, unit.trim(), targetUnit.trim())
+}
+
+/**
+ * Cost one recipe, costing its sub-recipes along the way. Sub-recipes are
+ * looked up in `recipes`; a sub-recipe that uses itself, directly or through
+ * another, is left unpriced rather than recursing forever.
+ */
+export function costRecipe(
+  recipe: Recipe,
+  recipes: Map<string, Recipe>,
+  prices: Map<string, IngredientPrice>,
+  parents: string[] = []
+): RecipeCost {
+  const lineage = [...parents, recipe.id]
+
+  const ingredients: CostedIngredient[] = recipe.ingredients.map(ingredient => {
+    const yieldShare = (ingredient.yield_percent || 100) / 100
+
+    if (ingredient.sub_recipe_id) {
+      const subRecipe = recipes.get(ingredient.sub_recipe_id)
+      const unpriced = (name: string, issue: string): CostedIngredient => ({
+        ingredient,
+        name,
+        base_unit: null,
+        unit_cost: null,
+        cost: null,
+        price_date: null,
+        previous_unit_cost: null,
+        price_change_percent: null,
+        issue
+      })
+
+      if (!subRecipe) return unpriced('Unknown recipe', 'Sub-recipe not found')
+      if (lineage.includes(subRecipe.id)) return unpriced(subRecipe.name, 'Sub-recipe uses this recipe')
+
+      const subCost = costRecipe(subRecipe, recipes, prices, lineage)
+      const batchShare = unitKey(ingredient.unit) === PORTION_UNIT
+        ? ingredient.quantity / subRecipe.portions
+        : subRecipe.yield_quantity && subRecipe.yield_unit
+          ? (quantityIn(ingredient.quantity, ingredient.unit, subRecipe.yield_unit) ?? NaN) / subRecipe.yield_quantity
+          : NaN
+
+      if (Number.isNaN(batchShare)) {
+        return unpriced(
+          subRecipe.name,
+          subRecipe.yield_unit
+            ? `${ingredient.unit} doesn't convert to ${subRecipe.yield_unit}`
+            : 'Sub-recipe has no batch yield; use PORTION'
+        )
+      }
+
+      return {
+        ingredient,
+        name: subRecipe.name,
+        base_unit: unitKey(ingredient.unit) === PORTION_UNIT ? PORTION_UNIT : subRecipe.yield_unit,
+        unit_cost: unitKey(ingredient.unit) === PORTION_UNIT
+          ? roundCost(subCost.plate_cost)
+          : roundCost(subCost.batch_cost / subRecipe.yield_quantity!),
+        cost: roundCost((subCost.batch_cost * batchShare) / yieldShare),
+        price_date: null,
+        previous_unit_cost: null,
+        price_change_percent: null,
+        issue: subCost.unpriced > 0 ? `${subCost.unpriced} unpriced ingredient${subCost.unpriced === 1 ? '' : 's'}` : null
+      }
+    }
+
+    const price = prices.get(vendorProductKey(ingredient.vendor_id, ingredient.product_number || ''))
+    if (!price) {
+      return {
+        ingredient,
+        name: ingredient.product_number || 'Unknown product',
+        base_unit: null,
+        unit_cost: null,
+        cost: null,
+        price_date: null,
+        previous_unit_cost: null,
+        price_change_percent: null,
+        issue: 'No priced purchase yet'
+      }
+    }
+
+    const quantity = quantityIn(ingredient.quantity, ingredient.unit, price.base_unit)
+    const change = price.previous_price_per_base_unit
+      ? ((price.price_per_base_unit - price.previous_price_per_base_unit) / price.previous_price_per_base_unit) * 100
+      : null
+
+    return {
+      ingredient,
+      name: price.description,
+      base_unit: price.base_unit,
+      unit_cost: price.price_per_base_unit,
+      cost: quantity === null ? null : roundCost((quantity * price.price_per_base_unit) / yieldShare),
+      price_date: price.price_date,
+      previous_unit_cost: price.previous_price_per_base_unit,
+      price_change_percent: change,
+      issue: quantity === null ? `${ingredient.unit} doesn't convert to ${price.base_unit}` : null
+    }
+  })
+
+  const batchCost = roundCost(ingredients.reduce((sum, costed) => sum + (costed.cost || 0), 0))
+  const plateCost = roundCost(batchCost / recipe.portions)
+  const foodCostPercent = recipe.menu_price ? (plateCost / recipe.menu_price) * 100 : null
+
+  return {
+    recipe,
+    batch_cost: batchCost,
+    plate_cost: plateCost,
+    food_cost_percent: foodCostPercent,
+    over_target: foodCostPercent !== null && recipe.target_food_cost_percent !== null
+      && foodCostPercent > recipe.target_food_cost_percent,
+    ingredients,
+    unpriced: ingredients.filter(costed => costed.cost === null).length
+  }
+}
+
+/**
+ * Every product a recipe's price depends on, through its sub-recipes too, as
+ * vendorProductKey keys
+ */
+export function recipeProductKeys(recipe: Recipe, recipes: Map<string, Recipe>, parents: string[] = []): string[] {
+  const lineage = [...parents, recipe.id]
+  const productKeys = new Set<string>()
+
+  for (const ingredient of recipe.ingredients) {
+    if (ingredient.product_number) {
+      productKeys.add(vendorProductKey(ingredient.vendor_id, ingredient.product_number))
+    } else if (ingredient.sub_recipe_id && !lineage.includes(ingredient.sub_recipe_id)) {
+      const subRecipe = recipes.get(ingredient.sub_recipe_id)
+      if (subRecipe) {
+        recipeProductKeys(subRecipe, recipes, lineage).forEach(key => productKeys.add(key))
+      }
+    }
+  }
+
+  return Array.from(productKeys)
+}
+
+// Editing recipes
+
+/**
+ * Validate a recipe before saving. `recipes` is every saved recipe, to check
+ * sub-recipes exist and don't end up using this one.
+ */
+export function validateRecipe(recipe: Partial<RecipeInput>, recipes: Recipe[], id?: string): string[] {
+  const errors: string[] = []
+
+  if (!recipe.name) {
+    errors.push('Name is required')
+  } else if (recipes.some(existing => existing.id !== id && existing.name.toLowerCase() === recipe.name!.toLowerCase())) {
+    errors.push(`A recipe named "${recipe.name}" already exists`)
+  }
+  if (typeof recipe.portions !== 'number' || !(recipe.portions > 0)) {
+    errors.push('Portions must be greater than zero')
+  }
+  if ((recipe.yield_quantity === null) !== !recipe.yield_unit) {
+    errors.push('Batch yield needs both a quantity and a unit')
+  }
+  if (recipe.menu_price !== null && !(Number(recipe.menu_price) > 0)) {
+    errors.push('Menu price must be greater than zero')
+  }
+  if (recipe.target_food_cost_percent !== null
+    && !(Number(recipe.target_food_cost_percent) > 0 && Number(recipe.target_food_cost_percent) <= 100)) {
+    errors.push('Target food cost must be between 0 and 100%')
+  }
+  if (!recipe.ingredients || recipe.ingredients.length === 0) {
+    errors.push('Add at least one ingredient')
+  }
+
+  const byId = new Map(recipes.map(existing => [existing.id, existing]))
+
+  ;(recipe.ingredients || []).forEach((ingredient, index) => {
+    const label = `Ingredient ${index + 1}`
+
+    if (!ingredient.product_number === !ingredient.sub_recipe_id) {
+      errors.push(`${label}: choose a product or a sub-recipe`)
+    } else if (ingredient.product_number && !ingredient.vendor_id) {
+      errors.push(`${label}: choose the vendor of product ${ingredient.product_number}`)
+    }
+    if (!(ingredient.quantity > 0)) {
+      errors.push(`${label}: quantity must be greater than zero`)
+    }
+    if (!ingredient.unit) {
+      errors.push(`${label}: unit is required`)
+    }
+    if (!(ingredient.yield_percent > 0 && ingredient.yield_percent <= 100)) {
+      errors.push(`${label}: yield must be between 0 and 100%`)
+    }
+
+    if (ingredient.sub_recipe_id) {
+      const subRecipe = byId.get(ingredient.sub_recipe_id)
+      if (!subRecipe) {
+        errors.push(`${label}: sub-recipe not found`)
+      } else if (id && (subRecipe.id === id || usesRecipe(subRecipe, id, byId))) {
+        errors.push(`${label}: ${subRecipe.name} already uses this recipe`)
+      }
+    }
+  })
+
+  return errors
+}
+
+function usesRecipe(recipe: Recipe, recipeId: string, recipes: Map<string, Recipe>, seen: Set<string> = new Set()): boolean {
+  if (seen.has(recipe.id)) return false
+  seen.add(recipe.id)
+
+  return recipe.ingredients.some(ingredient => {
+    if (!ingredient.sub_recipe_id) return false
+    if (ingredient.sub_recipe_id === recipeId) return true
+    const subRecipe = recipes.get(ingredient.sub_recipe_id)
+    return !!subRecipe && usesRecipe(subRecipe, recipeId, recipes, seen)
+  })
+}
+
+/**
+ * Pick the recipe fields out of a request body
+ */
+export function toRecipeInput(body: Record<string, unknown>): Partial<RecipeInput> {
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null
+  const number = (value: unknown) => value === null || value === undefined || value === '' ? null : Number(value)
+  const ingredients = Array.isArray(body.ingredients) ? body.ingredients as Record<string, unknown>[] : []
+
+  return {
+    name: typeof body.name === 'string' ? body.name.trim() : undefined,
+    is_menu_item: body.is_menu_item === undefined ? true : Boolean(body.is_menu_item),
+    portions: number(body.portions) ?? 1,
+    yield_quantity: number(body.yield_quantity),
+    yield_unit: text(body.yield_unit)?.toUpperCase() || null,
+    menu_price: number(body.menu_price),
+    target_food_cost_percent: number(body.target_food_cost_percent),
+    notes: text(body.notes),
+    ingredients: ingredients.map(ingredient => ({
+      vendor_id: text(ingredient.product_number) ? text(ingredient.vendor_id) : null,
+      product_number: text(ingredient.product_number),
+      sub_recipe_id: text(ingredient.sub_recipe_id),
+      quantity: number(ingredient.quantity) ?? 0,
+      unit: text(ingredient.unit)?.toUpperCase() || '',
+      yield_percent: number(ingredient.yield_percent) ?? 100
+    }))
+  }
+}
+
+// Reading and saving
+
+export async function listRecipes(organizationId: string): Promise<Recipe[]> {
+  const { data, error } = await getServiceClient()
+    .from('recipes')
+    .select('*, ingredients:recipe_ingredients!recipe_ingredients_recipe_id_fkey(id, vendor_id, product_number, sub_recipe_id, quantity, unit, yield_percent, sort_order)')
+    .eq('organization_id', organizationId)
+    .order('name')
+
+  if (error) {
+    throw new Error(`Failed to load recipes: ${error.message}`)
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    name: row.name,
+    is_menu_item: row.is_menu_item,
+    portions: Number(row.portions),
+    yield_quantity: row.yield_quantity === null ? null : Number(row.yield_quantity),
+    yield_unit: row.yield_unit,
+    menu_price: row.menu_price === null ? null : Number(row.menu_price),
+    target_food_cost_percent: row.target_food_cost_percent === null ? null : Number(row.target_food_cost_percent),
+    notes: row.notes,
+    cost_alerted: row.cost_alerted,
+    ingredients: [...row.ingredients]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map(ingredient => ({
+        id: ingredient.id,
+        vendor_id: ingredient.vendor_id,
+        product_number: ingredient.product_number,
+        sub_recipe_id: ingredient.sub_recipe_id,
+        quantity: Number(ingredient.quantity),
+        unit: ingredient.unit,
+        yield_percent: Number(ingredient.yield_percent)
+      }))
+  }))
+}
+
+/**
+ * Create a recipe in the organization, or replace one of its recipes and the
+ * ingredients when an id is given. Returns the recipe's id.
+ */
+export async function saveRecipe(organizationId: string, recipe: RecipeInput, id?: string): Promise<string> {
+  const { ingredients, ...fields } = recipe
+
+  const { data, error } = await getServiceClient().rpc('save_recipe', {
+    p_organization_id: organizationId,
+    p_recipe_id: id || null,
+    p_recipe: { ...fields },
+    p_ingredients: ingredients.map(ingredient => ({
+      vendor_id: ingredient.vendor_id,
+      product_number: ingredient.product_number,
+      sub_recipe_id: ingredient.sub_recipe_id,
+      quantity: ingredient.quantity,
+      unit: ingredient.unit,
+      yield_percent: ingredient.yield_percent
+    }))
+  })
+
+  if (error) {
+    throw new Error(`Failed to save recipe: ${error.message}`)
+  }
+
+  return data as string
+}
+
+export async function deleteRecipe(organizationId: string, id: string): Promise<void> {
+  const { error } = await getServiceClient()
+    .from('recipes')
+    .delete()
+    .eq('id', id)
+    .eq('organization_id', organizationId)
+
+  if (error) {
+    // recipe_ingredients.sub_recipe_id is ON DELETE RESTRICT
+    if (error.code === '23001') {
+      throw new Error('This recipe is used in other recipes; remove it from them first')
+    }
+    throw new Error(`Failed to delete recipe: ${error.message}`)
+  }
+}
+
+const PRICE_PAGE_SIZE = 1000
+
+/**
+ * Every location of an organization, whose invoices its recipes are costed from
+ */
+async function organizationLocationIds(organizationId: string): Promise<string[]> {
+  const { data, error } = await getServiceClient()
+    .from('locations')
+    .select('id, restaurant:restaurants!inner(organization_id)')
+    .eq('restaurant.organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to load the organization's locations: ${error.message}`)
+  }
+
+  return (data || []).map(location => location.id)
+}
+
+/**
+ * Latest and previous price per base unit for each product, from its vendor's
+ * invoices at the given locations (credit memos are priced at the original
+ * invoice price and left out), keyed by vendorProductKey
+ */
+export async function loadIngredientPrices(
+  products: { vendor_id: string | null; product_number: string }[],
+  locationIds: string[]
+): Promise<Map<string, IngredientPrice>> {
+  const prices = new Map<string, IngredientPrice>()
+  if (products.length === 0 || locationIds.length === 0) return prices
+
+  const wanted = new Set(products.map(product => vendorProductKey(product.vendor_id, product.product_number)))
+  const productNumbers = Array.from(new Set(products.map(product => product.product_number)))
+  const purchases = new Map<string, { vendor_id: string; product_number: string; description: string; base_unit: string; price: number; date: string }[]>()
+
+  for (let from = 0; ; from += PRICE_PAGE_SIZE) {
+    const { data, error } = await getServiceClient()
+      .from('invoice_items')
+      .select('product_number, product_description, base_unit, price_per_base_unit, invoice:invoices!inner(invoice_date, document_type, vendor_id)')
+      .in('product_number', productNumbers)
+      .in('invoice.location_id', locationIds)
+      .eq('invoice.document_type', 'INVOICE')
+      .not('price_per_base_unit', 'is', null)
+      .order('id')
+      .range(from, from + PRICE_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load ingredient prices: ${error.message}`)
+    }
+
+    for (const item of data || []) {
+      if (!item.base_unit || !item.price_per_base_unit || !item.invoice.vendor_id) continue
+      const key = vendorProductKey(item.invoice.vendor_id, item.product_number)
+      if (!wanted.has(key)) continue
+      const list = purchases.get(key) || []
+      list.push({
+        vendor_id: item.invoice.vendor_id,
+        product_number: item.product_number,
+        description: item.product_description,
+        base_unit: item.base_unit,
+        price: Number(item.price_per_base_unit),
+        date: item.invoice.invoice_date
+      })
+      purchases.set(key, list)
+    }
+
+    if (!data || data.length < PRICE_PAGE_SIZE) break
+  }
+
+  purchases.forEach((list, key) => {
+    list.sort((a, b) => b.date.localeCompare(a.date))
+    const latest = list[0]
+    // The purchase before: the latest on an earlier date in the same base unit
+    const previous = list.find(purchase => purchase.date < latest.date && purchase.base_unit === latest.base_unit)
+
+    prices.set(key, {
+      vendor_id: latest.vendor_id,
+      product_number: latest.product_number,
+      description: latest.description,
+      base_unit: latest.base_unit,
+      price_per_base_unit: latest.price,
+      price_date: latest.date,
+      previous_price_per_base_unit: previous ? previous.price : null
+    })
+  })
+
+  return prices
+}
+
+/**
+ * Every recipe of the organization costed at the latest prices at the given
+ * locations, or all of its locations, menu items first
+ */
+export async function getRecipeCosts(organizationId: string, locationIds?: string[], recipes?: Recipe[]): Promise<RecipeCost[]> {
+  const allRecipes = recipes || await listRecipes(organizationId)
+  const byId = new Map(allRecipes.map(recipe => [recipe.id, recipe]))
+  const products = allRecipes.flatMap(recipe => recipe.ingredients
+    .filter(ingredient => ingredient.product_number)
+    .map(ingredient => ({ vendor_id: ingredient.vendor_id, product_number: ingredient.product_number! })))
+  const prices = await loadIngredientPrices(products, locationIds || await organizationLocationIds(organizationId))
+
+  return allRecipes
+    .map(recipe => costRecipe(recipe, byId, prices))
+    .sort((a, b) => Number(b.recipe.is_menu_item) - Number(a.recipe.is_menu_item) || a.recipe.name.localeCompare(b.recipe.name))
+}
+
+/**
+ * Raise an alert for each of the organization's menu items whose plate cost
+ * has crossed its target food-cost percentage since the last check. With
+ * products (vendorProductKey keys), only recipes using one of them are
+ * checked. Returns the alerts raised.
+ */
+export async function checkRecipeCostAlerts(organizationId: string, productKeys?: string[]): Promise<RecipeCostAlert[]> {
+  const recipes = await listRecipes(organizationId)
+  const byId = new Map(recipes.map(recipe => [recipe.id, recipe]))
+  const changed = productKeys ? new Set(productKeys) : null
+
+  const watched = recipes.filter(recipe =>
+    recipe.is_menu_item && recipe.menu_price && recipe.target_food_cost_percent
+    && (!changed || recipeProductKeys(recipe, byId).some(key => changed.has(key)))
+  )
+  if (watched.length === 0) return []
+
+  const costs = (await getRecipeCosts(organizationId, undefined, recipes)).filter(cost => watched.includes(cost.recipe))
+  const client = getServiceClient()
+
+  const crossed = costs.filter(cost => cost.over_target && !cost.recipe.cost_alerted)
+  const recovered = costs.filter(cost => !cost.over_target && cost.recipe.cost_alerted)
+
+  if (recovered.length > 0) {
+    const { error } = await client
+      .from('recipes')
+      .update({ cost_alerted: false })
+      .in('id', recovered.map(cost => cost.recipe.id))
+
+    if (error) {
+      throw new Error(`Failed to clear recipe cost alerts: ${error.message}`)
+    }
+  }
+
+  if (crossed.length === 0) return []
+
+  const { data, error } = await client
+    .from('recipe_cost_alerts')
+    .insert(crossed.map(cost => ({
+      recipe_id: cost.recipe.id,
+      plate_cost: cost.plate_cost,
+      menu_price: cost.recipe.menu_price!,
+      food_cost_percent: Math.round(cost.food_cost_percent! * 100) / 100,
+      target_food_cost_percent: cost.recipe.target_food_cost_percent!,
+      price_increases: priceIncreases(cost).map(increase => ({ ...increase }))
+    })))
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to raise recipe cost alerts: ${error.message}`)
+  }
+
+  const { error: updateError } = await client
+    .from('recipes')
+    .update({ cost_alerted: true })
+    .in('id', crossed.map(cost => cost.recipe.id))
+
+  if (updateError) {
+    throw new Error(`Failed to mark recipe cost alerts: ${updateError.message}`)
+  }
+
+  console.log(`Recipe cost alerts raised: ${crossed.length}`)
+  return listRecipeCostAlerts(organizationId, { ids: (data || []).map(row => row.id) })
+}
+
+// Product ingredients whose latest price went up, the likely cause of a crossing
+function priceIncreases(cost: RecipeCost): PriceIncrease[] {
+  return cost.ingredients
+    .filter(costed => costed.ingredient.product_number && costed.price_change_percent !== null && costed.price_change_percent > 0)
+    .map(costed => ({
+      vendor_id: costed.ingredient.vendor_id,
+      product_number: costed.ingredient.product_number!,
+      description: costed.name,
+      previous_price: costed.previous_unit_cost!,
+      current_price: costed.unit_cost!,
+      base_unit: costed.base_unit!
+    }))
+}
+
+/**
+ * The organization's recipe cost alerts, newest first
+ */
+export async function listRecipeCostAlerts(
+  organizationId: string,
+  options: { limit?: number; ids?: string[] } = {}
+): Promise<RecipeCostAlert[]> {
+  let query = getServiceClient()
+    .from('recipe_cost_alerts')
+    .select('*, recipe:recipes!inner(name, organization_id)')
+    .eq('recipe.organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 20)
+
+  if (options.ids) {
+    query = query.in('id', options.ids)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load recipe cost alerts: ${error.message}`)
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    recipe_id: row.recipe_id,
+    recipe_name: row.recipe?.name || 'Unknown recipe',
+    plate_cost: Number(row.plate_cost),
+    menu_price: Number(row.menu_price),
+    food_cost_percent: Number(row.food_cost_percent),
+    target_food_cost_percent: Number(row.target_food_cost_percent),
+    price_increases: (row.price_increases || []) as unknown as PriceIncrease[],
+    created_at: row.created_at
+  }))
+}
@@ -0,0 +1,338 @@
+import Papa from 'papaparse'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+/**
+ * How a column's values are formatted: percent values are already percentages
+ * (12.5 means 12.5%), dates are ISO YYYY-MM-DD strings
+ */
+export type ExportValueType = 'text' | 'number' | 'currency' | 'percent' | 'date'
+
+export type ExportCell = string | number | null
+
+export interface ExportColumn<T> {
+  header: string
+  value: (row: T) => ExportCell | undefined
+  type?: ExportValueType
+}
+
+/**
+ * A table with its values already pulled out of the rows, in display order
+ */
+export interface ExportTable {
+  title: string
+  columns: { header: string, type: ExportValueType }[]
+  rows: ExportCell[][]
+}
+
+export interface ExportChart {
+  title: string
+  kind: 'bar' | 'line'
+  points: { label: string, value: number }[]
+  valueType?: 'number' | 'currency'
+}
+
+export interface ExportReport {
+  title: string
+  /** File name without date or extension */
+  filename: string
+  /** Filters and sort that were applied, one line each */
+  description?: string[]
+  tables: ExportTable[]
+  /** Only drawn in the PDF report */
+  charts?: ExportChart[]
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  pdf: 'PDF report'
+}
+
+const BRAND_COLOR: [number, number, number] = [242, 157, 44]
+
+/**
+ * Build an export table from rows as they're shown, so filters and sort carry over
+ */
+export function exportTable<T>(title: string, columns: ExportColumn<T>[], rows: T[]): ExportTable {
+  return {
+    title,
+    columns: columns.map(column => ({ header: column.header, type: column.type || 'text' })),
+    rows: rows.map(row => columns.map(column => {
+      const value = column.value(row)
+      return value === undefined ? null : value
+    }))
+  }
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount)
+}
+
+/**
+ * A cell as text, for the PDF and chart labels
+ */
+export function formatExportCell(value: ExportCell, type: ExportValueType): string {
+  if (value === null || value === '') return ''
+  if (typeof value === 'string') {
+    if (type === 'date' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+      return new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    }
+    return value
+  }
+  switch (type) {
+    case 'currency':
+      return formatCurrency(value)
+    case 'percent':
+      return `${value.toFixed(1)}%`
+    case 'number':
+      return new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 }).format(value)
+    default:
+      return String(value)
+  }
+}
+
+function csvRows(table: ExportTable): ExportCell[][] {
+  return [table.columns.map(column => column.header), ...table.rows]
+}
+
+/**
+ * One table per CSV; several are stacked, each under its title with a blank line between
+ */
+export function reportToCSV(report: ExportReport): string {
+  if (report.tables.length === 1) {
+    return Papa.unparse(csvRows(report.tables[0]))
+  }
+
+  return report.tables
+    .map(table => Papa.unparse([[table.title], ...csvRows(table)]))
+    .join('\r\n\r\n')
+}
+
+const XLSX_NUMBER_FORMATS: Partial<Record<ExportValueType, string>> = {
+  currency: '"$"#,##0.00;-"$"#,##0.00',
+  number: '#,##0.##',
+  percent: '0.0"%"',
+  date: 'yyyy-mm-dd'
+}
+
+/**
+ * Excel sheet names: at most 31 characters, none of []:*?/\ and unique
+ */
+function sheetName(title: string, used: Set<string>): string {
+  const base = title.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet'
+  let name = base
+  for (let suffix = 2; used.has(name.toLowerCase()); suffix++) {
+    name = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix}`
+  }
+  used.add(name.toLowerCase())
+  return name
+}
+
+/**
+ * One worksheet per table with real numbers and dates, plus a sheet describing the report
+ */
+export async function reportToXLSX(report: ExportReport): Promise<Blob> {
+  const { default: ExcelJS } = await import('exceljs')
+  const workbook = new ExcelJS.Workbook()
+  workbook.created = new Date()
+  const usedNames = new Set<string>()
+
+  report.tables.forEach(table => {
+    const sheet = workbook.addWorksheet(sheetName(table.title, usedNames), {
+      views: [{ state: 'frozen', ySplit: 1 }]
+    })
+
+    sheet.columns = table.columns.map(column => ({
+      header: column.header,
+      width: Math.max(12, Math.min(50, column.header.length + 4)),
+      style: XLSX_NUMBER_FORMATS[column.type] ? { numFmt: XLSX_NUMBER_FORMATS[column.type] } : {}
+    }))
+    sheet.getRow(1).font = { bold: true }
+
+    table.rows.forEach(row => {
+      sheet.addRow(row.map((value, index) =>
+        table.columns[index].type === 'date' && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)
+          ? new Date(`${value.slice(0, 10)}T00:00:00Z`)
+          : value
+      ))
+    })
+
+    // Fit text columns to their longest value
+    table.columns.forEach((column, index) => {
+      if (column.type !== 'text') return
+      const longest = table.rows.reduce((max, row) => Math.max(max, String(row[index] ?? '').length), column.header.length)
+      sheet.getColumn(index + 1).width = Math.max(12, Math.min(60, longest + 2))
+    })
+
+    if (table.rows.length > 0) {
+      sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: table.columns.length } }
+    }
+  })
+
+  const about = workbook.addWorksheet(sheetName('Report', usedNames))
+  about.addRow([report.title]).font = { bold: true, size: 14 }
+  about.addRow([`Exported ${new Date().toLocaleString('en-US')}`])
+  ;(report.description || []).forEach(line => about.addRow([line]))
+  about.getColumn(1).width = 80
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
+
+type PdfDocument = import('jspdf').jsPDF
+
+const PDF_MARGIN = 40
+const CHART_HEIGHT = 170
+
+function drawChart(doc: PdfDocument, chart: ExportChart, top: number): void {
+  const width = doc.internal.pageSize.getWidth() - PDF_MARGIN * 2
+  const format = (value: number) => chart.valueType === 'currency' ? formatCurrency(value) : formatExportCell(value, 'number')
+
+  doc.setFontSize(11)
+  doc.setTextColor(17, 24, 39)
+  doc.text(chart.title, PDF_MARGIN, top)
+
+  const plotLeft = PDF_MARGIN + 60
+  const plotTop = top + 12
+  const plotWidth = width - 60
+  const plotHeight = CHART_HEIGHT - 50
+  const plotBottom = plotTop + plotHeight
+  const max = Math.max(0, ...chart.points.map(point => point.value))
+  const min = Math.min(0, ...chart.points.map(point => point.value))
+  const range = max - min || 1
+  const y = (value: number) => plotBottom - ((value - min) / range) * plotHeight
+
+  // Axis with the top, zero and bottom values
+  doc.setDrawColor(209, 213, 219)
+  doc.setFontSize(7)
+  doc.setTextColor(107, 114, 128)
+  Array.from(new Set([max, 0, min])).forEach(value => {
+    doc.line(plotLeft, y(value), plotLeft + plotWidth, y(value))
+    doc.text(format(value), plotLeft - 4, y(value) + 2, { align: 'right' })
+  })
+
+  if (chart.points.length === 0) return
+  const step = plotWidth / chart.points.length
+  // Skip labels so they don't overlap
+  const labelEvery = Math.max(1, Math.ceil(chart.points.length / Math.floor(plotWidth / 45)))
+
+  doc.setFillColor(...BRAND_COLOR)
+  doc.setDrawColor(...BRAND_COLOR)
+  chart.points.forEach((point, index) => {
+    const center = plotLeft + step * index + step / 2
+
+    if (chart.kind === 'bar') {
+      const barWidth = Math.max(2, step * 0.7)
+      const top = Math.min(y(point.value), y(0))
+      doc.rect(center - barWidth / 2, top, barWidth, Math.max(0.5, Math.abs(y(point.value) - y(0))), 'F')
+    } else if (index > 0) {
+      const previous = chart.points[index - 1]
+      doc.setLineWidth(1.5)
+      doc.line(center - step, y(previous.value), center, y(point.value))
+      doc.setLineWidth(0.2)
+    }
+
+    if (index % labelEvery === 0) {
+      const label = point.label.length > 14 ? `${point.label.slice(0, 13)}…` : point.label
+      doc.text(label, center, plotBottom + 10, { align: 'center' })
+    }
+  })
+}
+
+/**
+ * A landscape report: title and filters, then the charts, then every table,
+ * breaking across pages with the header repeated, and page numbers in the footer
+ */
+export async function reportToPDF(report: ExportReport): Promise<Blob> {
+  const { jsPDF } = await import('jspdf')
+  const { autoTable } = await import('jspdf-autotable')
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'letter' })
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const bottom = pageHeight - PDF_MARGIN
+
+  doc.setFontSize(18)
+  doc.setTextColor(17, 24, 39)
+  doc.text(report.title, PDF_MARGIN, PDF_MARGIN + 10)
+  doc.setFontSize(9)
+  doc.setTextColor(107, 114, 128)
+  let cursor = PDF_MARGIN + 28
+  ;[`Exported ${new Date().toLocaleString('en-US')}`, ...(report.description || [])].forEach(line => {
+    doc.text(line, PDF_MARGIN, cursor)
+    cursor += 12
+  })
+  cursor += 10
+
+  ;(report.charts || []).forEach(chart => {
+    if (cursor + CHART_HEIGHT > bottom) {
+      doc.addPage()
+      cursor = PDF_MARGIN
+    }
+    drawChart(doc, chart, cursor + 10)
+    cursor += CHART_HEIGHT
+  })
+
+  report.tables.forEach(table => {
+    if (cursor + 60 > bottom) {
+      doc.addPage()
+      cursor = PDF_MARGIN
+    }
+
+    doc.setFontSize(12)
+    doc.setTextColor(17, 24, 39)
+    doc.text(`${table.title} (${table.rows.length})`, PDF_MARGIN, cursor + 10)
+
+    autoTable(doc, {
+      startY: cursor + 18,
+      margin: { left: PDF_MARGIN, right: PDF_MARGIN, bottom: PDF_MARGIN },
+      head: [table.columns.map(column => column.header)],
+      body: table.rows.map(row => row.map((value, index) => formatExportCell(value, table.columns[index].type))),
+      styles: { fontSize: 8, cellPadding: 3 },
+      headStyles: { fillColor: BRAND_COLOR, textColor: 255 },
+      columnStyles: Object.fromEntries(
+        table.columns
+          .map((column, index) => [index, column.type === 'text' || column.type === 'date' ? {} : { halign: 'right' as const }])
+      )
+    })
+
+    cursor = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 24
+  })
+
+  const pages = doc.getNumberOfPages()
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page)
+    doc.setFontSize(8)
+    doc.setTextColor(156, 163, 175)
+    doc.text(report.title, PDF_MARGIN, pageHeight - 20)
+    doc.text(`Page ${page} of ${pages}`, doc.internal.pageSize.getWidth() - PDF_MARGIN, pageHeight - 20, { align: 'right' })
+  }
+
+  return doc.output('blob')
+}
+
+export async function renderReport(report: ExportReport, format: ExportFormat): Promise<Blob> {
+  switch (format) {
+    case 'csv':
+      return new Blob([reportToCSV(report)], { type: 'text/csv;charset=utf-8' })
+    case 'xlsx':
+      return reportToXLSX(report)
+    case 'pdf':
+      return reportToPDF(report)
+  }
+}
+
+/**
+ * Render a report and hand it to the browser as a download named
+ * <filename>-<today>.<format>
+ */
+export async function downloadReport(report: ExportReport, format: ExportFormat): Promise<void> {
+  const blob = await renderReport(report, format)
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${report.filename}-${new Date().toISOString().slice(0, 10)}.${format}`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
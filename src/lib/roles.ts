@@ -0,0 +1,83 @@
+/**
+ * Organization roles
+ *
+ * Every user belongs to one organization with one role. Owners and purchasing
+ * managers see every location in the organization; location managers and
+ * read-only members see the locations they are assigned. Which rows a user
+ * can read is enforced by RLS (supabase/migrations/0012_organizations.sql);
+ * this module only holds what each role may do, so middleware, API routes and
+ * the sidebar can share it.
+ */
+
+export type OrganizationRole = 'owner' | 'purchasing_manager' | 'location_manager' | 'read_only'
+
+export type Permission =
+  /** Invite, remove and change the role of members */
+  | 'manage_team'
+  /** Contracts, categories and alert rules, shared by every location */
+  | 'manage_purchasing'
+  | 'import_invoices'
+  /** Acknowledge, dispute, resolve, assign and snooze price alerts */
+  | 'work_alerts'
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'purchasing_manager', 'location_manager', 'read_only']
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  purchasing_manager: 'Purchasing manager',
+  location_manager: 'Location manager',
+  read_only: 'Read only'
+}
+
+export const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Every location. Manages the team, contracts, categories and alert rules.',
+  purchasing_manager: 'Every location. Manages contracts, categories and alert rules.',
+  location_manager: 'Assigned locations. Uploads invoices and works price alerts.',
+  read_only: 'Assigned locations. Can view but not change anything.'
+}
+
+const ROLE_PERMISSIONS: Record<OrganizationRole, Permission[]> = {
+  owner: ['manage_team', 'manage_purchasing', 'import_invoices', 'work_alerts'],
+  purchasing_manager: ['manage_purchasing', 'import_invoices', 'work_alerts'],
+  location_manager: ['import_invoices', 'work_alerts'],
+  read_only: []
+}
+
+// Dashboard pages that need more than membership, most specific first
+const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: '/dashboard/settings/team', permission: 'manage_team' },
+  { prefix: '/dashboard/settings/categories', permission: 'manage_purchasing' },
+  { prefix: '/dashboard/settings/vendors', permission: 'manage_purchasing' },
+  { prefix: '/dashboard/settings/pdf-layouts', permission: 'manage_purchasing' },
+  { prefix: '/dashboard/contracts', permission: 'manage_purchasing' },
+  { prefix: '/dashboard/invoices/upload', permission: 'import_invoices' },
+  { prefix: '/dashboard/invoices/inbox', permission: 'import_invoices' }
+]
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === 'string' && (ORGANIZATION_ROLES as string[]).includes(value)
+}
+
+export function hasPermission(role: OrganizationRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Whether the role sees every location without being assigned them
+ */
+export function seesAllLocations(role: OrganizationRole): boolean {
+  return role === 'owner' || role === 'purchasing_manager'
+}
+
+/**
+ * Permission a dashboard path needs, or null when any member may open it
+ */
+export function routePermission(pathname: string): Permission | null {
+  const route = ROUTE_PERMISSIONS.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+  return route ? route.permission : null
+}
+
+export function canOpenRoute(role: OrganizationRole | null | undefined, pathname: string): boolean {
+  const permission = routePermission(pathname)
+  return !permission || hasPermission(role, permission)
+}
@@ -0,0 +1,203 @@
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { Client } from 'pg'
+
+/**
+ * Versioned schema migrations: supabase/migrations/<version>_<name>.sql,
+ * applied in version order, each in its own transaction. Applied versions are
+ * recorded in supabase_migrations.schema_migrations, the table the Supabase CLI
+ * uses, so `supabase start` / `supabase db push` and scripts/migrate.ts agree
+ * on what has already run.
+ */
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'supabase', 'migrations')
+
+/** Supabase's own objects (auth.users, API roles, the Realtime publication) for plain Postgres */
+export const PLAIN_POSTGRES_FILE = path.join(process.cwd(), 'supabase', 'plain-postgres.sql')
+
+export const SEED_FILE = path.join(process.cwd(), 'supabase', 'seed.sql')
+
+export interface Migration {
+  version: string
+  name: string
+  file: string
+}
+
+export interface MigrateOptions {
+  /** Report pending migrations without applying them */
+  dryRun?: boolean
+  /**
+   * Record every migration up to and including this version as applied
+   * without running it, for a database that was set up by hand before
+   * migrations existed
+   */
+  baseline?: string
+  /** Run supabase/seed.sql after the migrations */
+  seed?: boolean
+  /** Called before each migration is applied */
+  onMigration?: (migration: Migration) => void
+}
+
+export interface MigrateResult {
+  /** Applied now, or that would be applied on a dry run */
+  applied: Migration[]
+  baselined: Migration[]
+  alreadyApplied: number
+  /** Whether supabase/plain-postgres.sql was needed first */
+  bootstrapped: boolean
+  seeded: boolean
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/
+
+/**
+ * Connect to DATABASE_URL, the Postgres connection string (Supabase: Project
+ * Settings → Database; `supabase start` prints a local one)
+ */
+export async function connectDatabase(connectionString: string | undefined = process.env.DATABASE_URL): Promise<Client> {
+  if (!connectionString) {
+    throw new Error('DATABASE_URL is not set')
+  }
+
+  const client = new Client({ connectionString })
+  await client.connect()
+  return client
+}
+
+/**
+ * Migration files in the order they apply
+ */
+export async function listMigrations(directory: string = MIGRATIONS_DIR): Promise<Migration[]> {
+  const migrations: Migration[] = []
+
+  for (const file of await readdir(directory)) {
+    if (!file.endsWith('.sql')) continue
+
+    const match = file.match(MIGRATION_FILE_PATTERN)
+    if (!match) {
+      throw new Error(`Migration file names must look like 0001_create_things.sql: ${file}`)
+    }
+    migrations.push({ version: match[1], name: match[2], file: path.join(directory, file) })
+  }
+
+  migrations.sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true }))
+
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Two migrations share version ${migrations[i].version}: ${migrations[i - 1].name} and ${migrations[i].name}`)
+    }
+  }
+
+  return migrations
+}
+
+async function ensureMigrationsTable(client: Client): Promise<void> {
+  await client.query(`
+    CREATE SCHEMA IF NOT EXISTS supabase_migrations;
+    CREATE TABLE IF NOT EXISTS supabase_migrations.schema_migrations (
+      version TEXT PRIMARY KEY,
+      statements TEXT[],
+      name TEXT
+    );
+  `)
+}
+
+/**
+ * Versions already recorded as applied
+ */
+export async function getAppliedVersions(client: Client): Promise<Set<string>> {
+  await ensureMigrationsTable(client)
+  const { rows } = await client.query<{ version: string }>('SELECT version FROM supabase_migrations.schema_migrations')
+  return new Set(rows.map(row => row.version))
+}
+
+async function runInTransaction(client: Client, label: string, work: () => Promise<void>): Promise<void> {
+  await client.query('BEGIN')
+  try {
+    await work()
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw new Error(`Failed to apply ${label}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+async function recordMigration(client: Client, migration: Migration, statements: string[]): Promise<void> {
+  await client.query(
+    'INSERT INTO supabase_migrations.schema_migrations (version, statements, name) VALUES ($1, $2, $3)',
+    [migration.version, statements, migration.name]
+  )
+}
+
+/**
+ * Whether this is plain Postgres rather than a Supabase database
+ */
+async function needsSupabaseBootstrap(client: Client): Promise<boolean> {
+  const { rows } = await client.query<{ missing: boolean }>("SELECT to_regclass('auth.users') IS NULL AS missing")
+  return rows[0].missing
+}
+
+/**
+ * Bring the database up to the latest migration
+ */
+export async function migrate(client: Client, options: MigrateOptions = {}): Promise<MigrateResult> {
+  const migrations = await listMigrations()
+
+  if (options.baseline && !migrations.some(migration => migration.version === options.baseline)) {
+    throw new Error(`No migration has version ${options.baseline}`)
+  }
+
+  const result: MigrateResult = { applied: [], baselined: [], alreadyApplied: 0, bootstrapped: false, seeded: false }
+
+  if (await needsSupabaseBootstrap(client)) {
+    result.bootstrapped = true
+    if (!options.dryRun) {
+      const sql = await readFile(PLAIN_POSTGRES_FILE, 'utf-8')
+      await runInTransaction(client, path.basename(PLAIN_POSTGRES_FILE), async () => {
+        await client.query(sql)
+      })
+    }
+  }
+
+  const applied = options.dryRun && result.bootstrapped ? new Set<string>() : await getAppliedVersions(client)
+  const baselineIndex = options.baseline
+    ? migrations.findIndex(migration => migration.version === options.baseline)
+    : -1
+
+  for (const [index, migration] of migrations.entries()) {
+    if (applied.has(migration.version)) {
+      result.alreadyApplied++
+      continue
+    }
+
+    if (index <= baselineIndex) {
+      result.baselined.push(migration)
+      if (!options.dryRun) {
+        await recordMigration(client, migration, [])
+      }
+      continue
+    }
+
+    result.applied.push(migration)
+    if (options.dryRun) continue
+
+    options.onMigration?.(migration)
+    const sql = await readFile(migration.file, 'utf-8')
+    await runInTransaction(client, path.basename(migration.file), async () => {
+      await client.query(sql)
+      await recordMigration(client, migration, [sql])
+    })
+  }
+
+  if (options.seed) {
+    result.seeded = true
+    if (!options.dryRun) {
+      const sql = await readFile(SEED_FILE, 'utf-8')
+      await runInTransaction(client, path.basename(SEED_FILE), async () => {
+        await client.query(sql)
+      })
+    }
+  }
+
+  return result
+}
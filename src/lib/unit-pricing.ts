@@ -0,0 +1,223 @@
+/**
+ * Unit-normalized pricing
+ *
+ * Turns US Foods pack sizes and pricing units into a canonical price per base unit
+ * so packs of different sizes can be compared:
+ *   weight → LB, volume → GAL, count → EA, cans → #10 can equivalents
+ */
+
+export type UnitDimension = 'weight' | 'volume' | 'count' | 'can'
+
+export type BaseUnit = 'LB' | 'GAL' | 'EA' | '#10 CAN'
+
+export interface NormalizedPackSize {
+  /** Number of inner units in the pack, e.g. 6 for "6/16.5 OZ" */
+  count: number
+  /** Size of each inner unit in its own unit, e.g. 16.5 */
+  unitSize: number
+  /** Unit as written on the invoice, upper-cased, e.g. "OZ" or "#10 CN" */
+  unit: string
+  dimension: UnitDimension | null
+  baseUnit: BaseUnit | null
+  /** Whole pack expressed in the base unit, e.g. 6.1875 LB for "6/16.5 OZ" */
+  baseQuantity: number | null
+}
+
+export type UnitPriceBasis = 'pack' | 'pricing_unit' | 'catch_weight'
+
+export interface NormalizedUnitPrice {
+  baseUnit: BaseUnit
+  pricePerBaseUnit: number
+  basis: UnitPriceBasis
+}
+
+export interface UnitPriceInput {
+  packingSize: string
+  pricingUnit: string
+  unitPrice: number
+  /** Shipped weight for catch-weight items */
+  weight?: number
+}
+
+interface UnitDefinition {
+  dimension: UnitDimension
+  /** How many base units one of this unit is */
+  toBase: number
+}
+
+const BASE_UNITS: Record<UnitDimension, BaseUnit> = {
+  weight: 'LB',
+  volume: 'GAL',
+  count: 'EA',
+  can: '#10 CAN'
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  LB: { dimension: 'weight', toBase: 1 },
+  LBS: { dimension: 'weight', toBase: 1 },
+  LBA: { dimension: 'weight', toBase: 1 }, // average-weight pounds
+  '#': { dimension: 'weight', toBase: 1 }, // "50#" is 50 pounds
+  OZ: { dimension: 'weight', toBase: 1 / 16 },
+  KG: { dimension: 'weight', toBase: 2.20462 },
+  G: { dimension: 'weight', toBase: 0.00220462 },
+  GR: { dimension: 'weight', toBase: 0.00220462 },
+
+  GAL: { dimension: 'volume', toBase: 1 },
+  GA: { dimension: 'volume', toBase: 1 },
+  QT: { dimension: 'volume', toBase: 1 / 4 },
+  PT: { dimension: 'volume', toBase: 1 / 8 },
+  FLOZ: { dimension: 'volume', toBase: 1 / 128 },
+  L: { dimension: 'volume', toBase: 0.264172 },
+  LT: { dimension: 'volume', toBase: 0.264172 },
+  LTR: { dimension: 'volume', toBase: 0.264172 },
+  ML: { dimension: 'volume', toBase: 0.000264172 },
+
+  EA: { dimension: 'count', toBase: 1 },
+  EACH: { dimension: 'count', toBase: 1 },
+  CT: { dimension: 'count', toBase: 1 },
+  PC: { dimension: 'count', toBase: 1 },
+  DZ: { dimension: 'count', toBase: 12 }
+}
+
+// Can sizes as a fraction of a #10 can, by volume (a #10 can holds about 109 fl oz)
+const CAN_SIZES: Record<string, number> = {
+  '10': 1,
+  '5': 56 / 109.4,
+  '3': 46 / 109.4,
+  '2.5': 29.75 / 109.4,
+  '2': 20 / 109.4,
+  '303': 16.8 / 109.4,
+  '300': 15.2 / 109.4
+}
+
+function lookupUnit(unit: string): UnitDefinition | null {
+  return UNITS[unit.replace(/[\s.]/g, '')] || null
+}
+
+/**
+ * Parse a pack size into a count, unit and total quantity in the base unit
+ * Examples: "6/16.5 OZ", "35 LB", "4/1 GAL", "2000 EA", "6/#10 CN", "1/10 LBA", "4/5#", "2/5 LB AVG"
+ */
+export function normalizePackSize(packSize: string): NormalizedPackSize {
+  const unknown: NormalizedPackSize = {
+    count: 1,
+    unitSize: 1,
+    unit: '',
+    dimension: null,
+    baseUnit: null,
+    baseQuantity: null
+  }
+
+  const normalized = (packSize || '')
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    // Catch-weight packs are sized by their average weight: "2/5 LB AVG"
+    .replace(/\s*\bAVG\.?$/, '')
+    // A pound sign after the number is pounds, "50#"; before it, a can size
+    .replace(/(\d)\s*#$/, '$1 LB')
+  if (!normalized) return unknown
+
+  // Cans: "6/#10 CN", "#10 CAN"
+  const canMatch = normalized.match(/^(?:(\d+(?:\.\d+)?)\s*\/\s*)?#\s*(\d+(?:\.\d+)?)\s*(?:CN|CAN|CANS)?$/)
+  if (canMatch) {
+    const count = canMatch[1] ? parseFloat(canMatch[1]) : 1
+    const canSize = canMatch[2]
+    const equivalent = CAN_SIZES[canSize]
+    return {
+      count,
+      unitSize: 1,
+      unit: `#${canSize} CN`,
+      dimension: equivalent ? 'can' : null,
+      baseUnit: equivalent ? BASE_UNITS.can : null,
+      baseQuantity: equivalent ? count * equivalent : null
+    }
+  }
+
+  // "6/16.5 OZ", "4/6/12 OZ" (nested packs), "35 LB", "1.1 BU"
+  const measureMatch = normalized.match(/^((?:\d+(?:\.\d+)?\s*\/\s*)*)(\d+(?:\.\d+)?)\s*([A-Z][A-Z .]*)$/)
+  if (measureMatch) {
+    const count = (measureMatch[1].match(/\d+(?:\.\d+)?/g) || []).reduce((product, value) => product * parseFloat(value), 1)
+    const unitSize = parseFloat(measureMatch[2])
+    const unit = measureMatch[3].trim()
+    const definition = lookupUnit(unit)
+
+    return {
+      count,
+      unitSize,
+      unit,
+      dimension: definition?.dimension || null,
+      baseUnit: definition ? BASE_UNITS[definition.dimension] : null,
+      baseQuantity: definition ? count * unitSize * definition.toBase : null
+    }
+  }
+
+  return { ...unknown, unit: normalized }
+}
+
+/**
+ * Convert a quantity between two units of the same dimension, or null if they can't be converted
+ */
+export function convertQuantity(value: number, fromUnit: string, toUnit: string): number | null {
+  const from = lookupUnit(fromUnit.toUpperCase())
+  const to = lookupUnit(toUnit.toUpperCase())
+  if (!from || !to || from.dimension !== to.dimension) return null
+
+  return value * from.toBase / to.toBase
+}
+
+/**
+ * Canonical price per base unit for an invoice line, or null when the pack size can't be measured
+ *
+ * - Priced by a measure (PricingUnit LB, OZ, GAL...): the unit price is already per that
+ *   unit and only needs converting. Catch-weight items (PricingUnit LB with a shipped
+ *   Weight) are priced this way.
+ * - Priced by the case or each (CS, EA, BX...): the unit price covers the whole pack and is
+ *   divided by the pack's quantity in the base unit.
+ */
+export function normalizeUnitPrice(input: UnitPriceInput): NormalizedUnitPrice | null {
+  if (!input.unitPrice || input.unitPrice <= 0) return null
+
+  const pricingUnit = (input.pricingUnit || '').trim().toUpperCase()
+  const pricingDefinition = lookupUnit(pricingUnit)
+
+  if (pricingDefinition && pricingDefinition.dimension !== 'count') {
+    return {
+      baseUnit: BASE_UNITS[pricingDefinition.dimension],
+      pricePerBaseUnit: input.unitPrice / pricingDefinition.toBase,
+      basis: pricingDefinition.dimension === 'weight' && (input.weight || 0) > 0 ? 'catch_weight' : 'pricing_unit'
+    }
+  }
+
+  const pack = normalizePackSize(input.packingSize)
+  if (!pack.baseUnit || !pack.baseQuantity) return null
+
+  return {
+    baseUnit: pack.baseUnit,
+    pricePerBaseUnit: input.unitPrice / pack.baseQuantity,
+    basis: 'pack'
+  }
+}
+
+/**
+ * The quantity a line's unit price is charged on: the shipped weight for
+ * catch-weight items priced by weight, otherwise the quantity shipped
+ */
+export function billedQuantity(line: { pricingUnit: string; qtyShipped: number; weight?: number }): number {
+  const pricingDefinition = lookupUnit((line.pricingUnit || '').trim().toUpperCase())
+  return pricingDefinition?.dimension === 'weight' && (line.weight || 0) > 0 ? line.weight! : line.qtyShipped
+}
+
+/**
+ * Format a per-unit price, e.g. "$2.15/lb" or "$4.80/#10 can"
+ */
+export function formatUnitPrice(price: number, baseUnit: BaseUnit | string): string {
+  const formatted = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: price < 1 ? 4 : 2
+  }).format(price)
+
+  return `${formatted}/${baseUnit.toLowerCase()}`
+}
@@ -0,0 +1,583 @@
+import Papa from 'papaparse'
+import { getServiceClient } from './supabase'
+import { parseCSVContent, validateUSFoodsFormat, applyCreditMemoSigns, ParsedInvoice, InvoiceRow } from './csv-parser'
+import { billedQuantity } from './unit-pricing'
+
+/**
+ * Vendor invoice formats: how each distributor's CSV export maps onto the
+ * normalized invoice model. A format maps invoice fields to the vendor's
+ * column headers; an uploaded file is matched to a format by its header row,
+ * parsed into ParsedInvoice like any other and imported against that format's
+ * vendor, so analytics work the same whoever sent the invoice. US Foods and
+ * Sysco are built in; other distributors are added from Settings → Vendor
+ * Formats and stored in vendor_formats, for the organization that added them.
+ */
+
+export type InvoiceField =
+  | 'documentNumber'
+  | 'documentDate'
+  | 'documentType'
+  | 'customerNumber'
+  | 'customerName'
+  | 'orderNumber'
+  | 'paymentTerms'
+  | 'netAmount'
+  | 'creditMemoNumber'
+  | 'productNumber'
+  | 'productDescription'
+  | 'productLabel'
+  | 'packCount'
+  | 'packingSize'
+  | 'weight'
+  | 'qtyOrdered'
+  | 'qtyShipped'
+  | 'pricingUnit'
+  | 'unitPrice'
+  | 'extendedPrice'
+
+/** Order of month, day and year in a vendor's dates */
+export type DateFormat = 'MDY' | 'YMD' | 'DMY'
+
+export const DATE_FORMATS: DateFormat[] = ['MDY', 'YMD', 'DMY']
+
+export interface VendorFormat {
+  /** Null for the built-in formats */
+  id: string | null
+  vendor_code: string
+  vendor_name: string
+  name: string
+  /** Invoice field → the vendor's column header */
+  columns: Partial<Record<InvoiceField, string>>
+  date_format: DateFormat
+  builtin: boolean
+}
+
+export type VendorFormatInput = Pick<VendorFormat, 'vendor_code' | 'vendor_name' | 'name' | 'columns' | 'date_format'>
+
+export interface InvoiceFieldDefinition {
+  field: InvoiceField
+  label: string
+  required: boolean
+  /** Header spellings suggested for this field, lower case without spaces or punctuation */
+  aliases: string[]
+}
+
+export const INVOICE_FIELDS: InvoiceFieldDefinition[] = [
+  { field: 'documentNumber', label: 'Invoice number', required: true, aliases: ['documentnumber', 'invoicenumber', 'invoice#', 'invoiceno', 'invoice', 'inv#', 'invno', 'docnumber'] },
+  { field: 'documentDate', label: 'Invoice date', required: true, aliases: ['documentdate', 'invoicedate', 'date', 'deliverydate'] },
+  { field: 'documentType', label: 'Document type', required: false, aliases: ['documenttype', 'doctype', 'type', 'transactiontype'] },
+  { field: 'customerNumber', label: 'Customer number', required: false, aliases: ['customernumber', 'customer#', 'customerno', 'accountnumber', 'account#', 'account'] },
+  { field: 'customerName', label: 'Customer name', required: false, aliases: ['customername', 'accountname', 'shiptoname', 'customer'] },
+  { field: 'orderNumber', label: 'Order number', required: false, aliases: ['ordernumber', 'order#', 'orderno', 'ponumber', 'purchaseorder', 'po'] },
+  { field: 'paymentTerms', label: 'Payment terms', required: false, aliases: ['paymentterms', 'terms'] },
+  { field: 'netAmount', label: 'Invoice total', required: false, aliases: ['netamount', 'invoicetotal', 'invoiceamount', 'total', 'netamountafteradjustment'] },
+  { field: 'creditMemoNumber', label: 'Credit memo / original invoice', required: false, aliases: ['creditmemonumber', 'creditmemo', 'originalinvoice', 'originalinvoicenumber'] },
+  { field: 'productNumber', label: 'Product number', required: true, aliases: ['productnumber', 'product#', 'productcode', 'itemnumber', 'item#', 'itemno', 'itemcode', 'item', 'sku', 'supc'] },
+  { field: 'productDescription', label: 'Description', required: true, aliases: ['productdescription', 'description', 'itemdescription', 'productname', 'itemname'] },
+  { field: 'productLabel', label: 'Brand', required: false, aliases: ['productlabel', 'brand', 'label', 'manufacturer'] },
+  { field: 'packCount', label: 'Pack count', required: false, aliases: ['pack', 'packcount', 'casepack'] },
+  { field: 'packingSize', label: 'Pack size', required: false, aliases: ['packingsize', 'packsize', 'size', 'packdescription'] },
+  { field: 'weight', label: 'Weight', required: false, aliases: ['weight', 'netweight', 'catchweight'] },
+  { field: 'qtyOrdered', label: 'Quantity ordered', required: false, aliases: ['qtyorder', 'qtyordered', 'quantityordered', 'ordered', 'orderqty'] },
+  { field: 'qtyShipped', label: 'Quantity shipped', required: true, aliases: ['qtyship', 'qtyshipped', 'quantityshipped', 'shipped', 'qtydelivered', 'delivered', 'quantity', 'qty'] },
+  { field: 'pricingUnit', label: 'Pricing unit', required: false, aliases: ['pricingunit', 'unit', 'uom', 'unitofmeasure', 'priceunit'] },
+  { field: 'unitPrice', label: 'Unit price', required: true, aliases: ['unitprice', 'price', 'caseprice', 'priceeach'] },
+  { field: 'extendedPrice', label: 'Extended price', required: false, aliases: ['extendedprice', 'extprice', 'extendedamount', 'linetotal', 'amount'] }
+]
+
+export const REQUIRED_FIELDS: InvoiceField[] = INVOICE_FIELDS.filter(field => field.required).map(field => field.field)
+
+/**
+ * US Foods keeps its own parser (parseCSVContent) so its rows, and the content
+ * hashes of invoices already imported, stay exactly as before
+ */
+const USFOODS_FORMAT: VendorFormat = {
+  id: null,
+  vendor_code: 'USFOODS',
+  vendor_name: 'US Foods',
+  name: 'US Foods invoice export',
+  columns: {
+    documentNumber: 'DocumentNumber',
+    documentDate: 'DocumentDate',
+    documentType: 'DocumentType',
+    customerNumber: 'CustomerNumber',
+    customerName: 'CustomerName',
+    orderNumber: 'OrderNumber',
+    paymentTerms: 'PaymentTerms',
+    netAmount: 'NetAmountAfter Adjustment',
+    creditMemoNumber: 'CreditMemoNumber',
+    productNumber: 'ProductNumber',
+    productDescription: 'ProductDescription',
+    productLabel: 'Product Label',
+    packingSize: 'PackingSize',
+    weight: 'Weight',
+    qtyOrdered: 'QtyOrder',
+    qtyShipped: 'QtyShip',
+    pricingUnit: 'PricingUnit',
+    unitPrice: 'UnitPrice',
+    extendedPrice: 'ExtendedPrice'
+  },
+  date_format: 'MDY',
+  builtin: true
+}
+
+const SYSCO_FORMAT: VendorFormat = {
+  id: null,
+  vendor_code: 'SYSCO',
+  vendor_name: 'Sysco',
+  name: 'Sysco invoice detail export',
+  columns: {
+    documentNumber: 'Invoice Number',
+    documentDate: 'Invoice Date',
+    documentType: 'Document Type',
+    customerNumber: 'Customer Number',
+    customerName: 'Customer Name',
+    orderNumber: 'Order Number',
+    netAmount: 'Invoice Total',
+    productNumber: 'SUPC',
+    productDescription: 'Description',
+    productLabel: 'Brand',
+    packCount: 'Pack',
+    packingSize: 'Size',
+    weight: 'Weight',
+    qtyOrdered: 'Qty Ordered',
+    qtyShipped: 'Qty Shipped',
+    pricingUnit: 'Unit',
+    unitPrice: 'Unit Price',
+    extendedPrice: 'Extended Price'
+  },
+  date_format: 'MDY',
+  builtin: true
+}
+
+export const BUILTIN_VENDOR_FORMATS: VendorFormat[] = [USFOODS_FORMAT, SYSCO_FORMAT]
+
+export interface VendorFormatMatch {
+  format: VendorFormat
+  /** How many of the format's columns the file has */
+  matched: number
+  /** Headers of required fields the file doesn't have */
+  missing: string[]
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_.-]/g, '')
+}
+
+/**
+ * The header row of a CSV file
+ */
+export function readCsvHeaders(csvContent: string): string[] {
+  const parsed = Papa.parse<string[]>(csvContent, { preview: 1, skipEmptyLines: true })
+  return (parsed.data[0] || []).map(header => header.trim())
+}
+
+/**
+ * Suggest a column for each invoice field from the header names, for the mapping editor
+ */
+export function suggestColumnMapping(headers: string[]): Partial<Record<InvoiceField, string>> {
+  const columns: Partial<Record<InvoiceField, string>> = {}
+  const used = new Set<string>()
+
+  for (const definition of INVOICE_FIELDS) {
+    const header = headers.find(header => !used.has(header) && definition.aliases.includes(normalizeHeader(header)))
+    if (header) {
+      columns[definition.field] = header
+      used.add(header)
+    }
+  }
+
+  return columns
+}
+
+/**
+ * Score every format against a header row, best first: formats with all their
+ * required columns, then the most columns matched
+ */
+export function matchVendorFormats(headers: string[], formats: VendorFormat[]): VendorFormatMatch[] {
+  const present = new Set(headers.map(header => header.trim().toLowerCase()))
+
+  return formats
+    .map(format => {
+      const mapped = Object.values(format.columns).filter((header): header is string => !!header)
+      return {
+        format,
+        matched: mapped.filter(header => present.has(header.trim().toLowerCase())).length,
+        missing: REQUIRED_FIELDS
+          .map(field => format.columns[field])
+          .filter((header): header is string => !!header && !present.has(header.trim().toLowerCase()))
+      }
+    })
+    .filter(match => match.matched > 0)
+    .sort((a, b) => a.missing.length - b.missing.length || b.matched - a.matched)
+}
+
+/**
+ * The format a header row belongs to, or null when no format has all its required columns
+ */
+export function detectVendorFormat(headers: string[], formats: VendorFormat[]): VendorFormat | null {
+  const best = matchVendorFormats(headers, formats)[0]
+  return best && best.missing.length === 0 ? best.format : null
+}
+
+/**
+ * Parse a CSV export, detecting its vendor format from the header row
+ */
+export async function parseInvoiceCsv(
+  csvContent: string,
+  formats: VendorFormat[] = BUILTIN_VENDOR_FORMATS
+): Promise<{ format: VendorFormat; invoices: ParsedInvoice[] }> {
+  const headers = readCsvHeaders(csvContent)
+  const matches = matchVendorFormats(headers, formats)
+  const best = matches[0]
+
+  if (!best || best.missing.length > 0) {
+    const closest = best ? ` Closest is ${best.format.name}, missing ${best.missing.join(', ')}.` : ''
+    throw new Error(`Unrecognized invoice format: no vendor format matches these columns.${closest} Add the format under Settings → Vendor Formats.`)
+  }
+
+  return { format: best.format, invoices: await parseWithVendorFormat(csvContent, best.format) }
+}
+
+/**
+ * Convert a date in the vendor's order (with /, - or . separators) to ISO YYYY-MM-DD,
+ * leaving anything else untouched
+ */
+export function toISODateWithFormat(date: string, dateFormat: DateFormat): string {
+  const value = (date || '').trim()
+  const parts = value.split(/[\s T]/)[0].split(/[/.-]/)
+  if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) return value
+
+  const [year, month, day] = dateFormat === 'YMD'
+    ? [parts[0], parts[1], parts[2]]
+    : dateFormat === 'DMY'
+      ? [parts[2], parts[1], parts[0]]
+      : [parts[2], parts[0], parts[1]]
+
+  const fullYear = year.length === 2 ? `20${year}` : year
+  return `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+/**
+ * Amounts as exports write them: "$1,234.50", "-12.00" or "(12.00)" for negatives
+ */
+export function parseAmount(value: string): number {
+  const trimmed = value.trim()
+  const negative = /^\(.*\)$/.test(trimmed)
+  const amount = parseFloat(trimmed.replace(/[$,()\s]/g, ''))
+  if (isNaN(amount)) return 0
+  return negative ? -Math.abs(amount) : amount
+}
+
+/**
+ * Parse a CSV export with a given vendor format into invoices, one per
+ * document number, with credit memo signs applied as for US Foods
+ */
+export async function parseWithVendorFormat(csvContent: string, format: VendorFormat): Promise<ParsedInvoice[]> {
+  if (format.builtin && format.vendor_code === USFOODS_FORMAT.vendor_code) {
+    const validation = validateUSFoodsFormat(csvContent)
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join('; '))
+    }
+    return parseCSVContent(csvContent)
+  }
+
+  const parsed = Papa.parse<InvoiceRow>(csvContent, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim()
+  })
+  if (parsed.errors.length > 0 && parsed.data.length === 0) {
+    throw new Error(`CSV parsing error: ${parsed.errors[0].message}`)
+  }
+
+  // Headers are matched case-insensitively, as in detection
+  const headerByName = new Map((parsed.meta.fields || []).map(header => [header.toLowerCase(), header]))
+  const columnFor = (field: InvoiceField) => {
+    const header = format.columns[field]
+    return header ? headerByName.get(header.trim().toLowerCase()) : undefined
+  }
+  const columns = Object.fromEntries(INVOICE_FIELDS.map(({ field }) => [field, columnFor(field)])) as Record<InvoiceField, string | undefined>
+  const read = (row: InvoiceRow, field: InvoiceField) => {
+    const header = columns[field]
+    return header ? (row[header] || '').trim() : ''
+  }
+
+  const invoiceMap = new Map<string, ParsedInvoice>()
+  const totals = new Map<string, number>()
+
+  for (const row of parsed.data) {
+    const documentNumber = read(row, 'documentNumber')
+    if (!documentNumber) continue
+
+    if (!invoiceMap.has(documentNumber)) {
+      const netAmount = read(row, 'netAmount')
+      invoiceMap.set(documentNumber, {
+        vendorCode: format.vendor_code,
+        documentNumber,
+        documentType: read(row, 'documentType').toUpperCase() || 'INVOICE',
+        documentDate: toISODateWithFormat(read(row, 'documentDate'), format.date_format),
+        customerNumber: read(row, 'customerNumber'),
+        customerName: read(row, 'customerName'),
+        orderNumber: read(row, 'orderNumber'),
+        netAmountAfterAdjustment: parseAmount(netAmount),
+        netAmountBeforeAdjustment: parseAmount(netAmount),
+        deliveryAdjustment: 0,
+        paymentTerms: read(row, 'paymentTerms'),
+        dateOrdered: '',
+        dateShipped: '',
+        usfSalesLocation: '',
+        usfSalesRep: '',
+        creditMemoNumber: read(row, 'creditMemoNumber'),
+        creditMemoDate: '',
+        isCreditMemo: false,
+        lineItems: [],
+        rawData: []
+      })
+      // Without an invoice total column the total is the sum of the lines
+      if (!netAmount) totals.set(documentNumber, 0)
+    }
+
+    const invoice = invoiceMap.get(documentNumber)!
+    invoice.rawData.push(row)
+
+    const productNumber = read(row, 'productNumber')
+    if (!productNumber) continue
+
+    const qtyShipped = parseAmount(read(row, 'qtyShipped') || read(row, 'qtyOrdered'))
+    const qtyOrdered = parseAmount(read(row, 'qtyOrdered') || read(row, 'qtyShipped'))
+    const unitPrice = parseAmount(read(row, 'unitPrice'))
+    const weight = parseAmount(read(row, 'weight'))
+    const pricingUnit = read(row, 'pricingUnit').toUpperCase()
+    const extendedPrice = read(row, 'extendedPrice')
+      ? parseAmount(read(row, 'extendedPrice'))
+      : Math.round(billedQuantity({ pricingUnit, qtyShipped, weight }) * unitPrice * 100) / 100
+    // Pack and size in separate columns become the usual "6/5 LB"
+    const packCount = read(row, 'packCount')
+    const size = read(row, 'packingSize')
+
+    invoice.lineItems.push({
+      productNumber,
+      productDescription: read(row, 'productDescription'),
+      productLabel: read(row, 'productLabel'),
+      packingSize: packCount && size ? `${packCount}/${size}` : size || packCount,
+      weight,
+      qtyOrdered,
+      qtyShipped,
+      qtyAdjusted: 0,
+      pricingUnit,
+      unitPrice,
+      extendedPrice,
+      rawRow: row
+    })
+
+    if (totals.has(documentNumber)) {
+      totals.set(documentNumber, totals.get(documentNumber)! + extendedPrice)
+    }
+  }
+
+  for (const [documentNumber, total] of totals) {
+    const invoice = invoiceMap.get(documentNumber)!
+    invoice.netAmountAfterAdjustment = Math.round(total * 100) / 100
+    invoice.netAmountBeforeAdjustment = invoice.netAmountAfterAdjustment
+  }
+
+  return applyCreditMemoSigns(Array.from(invoiceMap.values()))
+}
+
+/**
+ * Pick the vendor format fields out of a request body
+ */
+export function toVendorFormatInput(body: Record<string, unknown>): VendorFormatInput {
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+  const columns = body.columns && typeof body.columns === 'object' ? body.columns as Record<string, unknown> : {}
+
+  return {
+    name: text(body.name),
+    vendor_code: text(body.vendor_code).toUpperCase(),
+    vendor_name: text(body.vendor_name),
+    date_format: (text(body.date_format) || 'MDY') as DateFormat,
+    columns: Object.fromEntries(
+      INVOICE_FIELDS.map(({ field }) => [field, text(columns[field])]).filter(([, header]) => header)
+    )
+  }
+}
+
+/**
+ * Check a vendor format before saving it
+ */
+export function validateVendorFormat(input: VendorFormatInput): string[] {
+  const errors: string[] = []
+
+  if (!input.name?.trim()) errors.push('Format name is required')
+  if (!input.vendor_name?.trim()) errors.push('Vendor name is required')
+  if (!/^[A-Z0-9_]+$/.test(input.vendor_code || '')) {
+    errors.push('Vendor code must be upper-case letters, digits and underscores, e.g. PRODUCE_CO')
+  }
+  if (!DATE_FORMATS.includes(input.date_format)) {
+    errors.push(`Date format must be one of ${DATE_FORMATS.join(', ')}`)
+  }
+
+  const columns = input.columns || {}
+  const missing = INVOICE_FIELDS.filter(field => field.required && !columns[field.field]?.trim())
+  if (missing.length > 0) {
+    errors.push(`Map a column for: ${missing.map(field => field.label).join(', ')}`)
+  }
+
+  const headers = Object.values(columns).map(header => header?.trim().toLowerCase()).filter(Boolean)
+  if (new Set(headers).size !== headers.length) {
+    errors.push('Each column can only be mapped to one field')
+  }
+
+  if (BUILTIN_VENDOR_FORMATS.some(format => format.name.toLowerCase() === input.name?.trim().toLowerCase())) {
+    errors.push(`${input.name.trim()} is a built-in format`)
+  }
+
+  return errors
+}
+
+const VENDOR_FORMAT_SELECT = 'id, name, columns, date_format, vendor:vendors!inner(vendor_code, name)'
+
+interface VendorFormatRow {
+  id: string
+  name: string
+  columns: unknown
+  date_format: string
+  vendor: { vendor_code: string; name: string }
+}
+
+function toVendorFormat(row: VendorFormatRow): VendorFormat {
+  return {
+    id: row.id,
+    vendor_code: row.vendor.vendor_code,
+    vendor_name: row.vendor.name,
+    name: row.name,
+    columns: (row.columns || {}) as Partial<Record<InvoiceField, string>>,
+    date_format: row.date_format as DateFormat,
+    builtin: false
+  }
+}
+
+/**
+ * The built-in formats followed by the ones the organization added in settings
+ */
+export async function listVendorFormats(organizationId: string): Promise<VendorFormat[]> {
+  const { data, error } = await getServiceClient()
+    .from('vendor_formats')
+    .select(VENDOR_FORMAT_SELECT)
+    .eq('organization_id', organizationId)
+    .order('name')
+
+  if (error) {
+    throw new Error(`Failed to load vendor formats: ${error.message}`)
+  }
+
+  return [...BUILTIN_VENDOR_FORMATS, ...(data || []).map(row => toVendorFormat(row as VendorFormatRow))]
+}
+
+/**
+ * The vendor's id by code, or null when the vendor hasn't been added yet
+ */
+export async function findVendorId(vendorCode: string): Promise<string | null> {
+  const { data, error } = await getServiceClient()
+    .from('vendors')
+    .select('id')
+    .eq('vendor_code', vendorCode)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up vendor ${vendorCode}: ${error.message}`)
+  }
+
+  return data?.id || null
+}
+
+/**
+ * The vendor's id by code, adding the vendor when it's new
+ */
+export async function resolveVendorId(
+  vendorCode: string,
+  vendorName: string = BUILTIN_VENDOR_FORMATS.find(format => format.vendor_code === vendorCode)?.vendor_name || vendorCode
+): Promise<string> {
+  const existing = await findVendorId(vendorCode)
+  if (existing) return existing
+
+  const { data: created, error } = await getServiceClient()
+    .from('vendors')
+    .upsert({ vendor_code: vendorCode, name: vendorName }, { onConflict: 'vendor_code' })
+    .select('id')
+    .single()
+
+  if (error || !created) {
+    throw new Error(`Failed to add vendor ${vendorCode}: ${error?.message || 'no row returned'}`)
+  }
+
+  return created.id
+}
+
+/**
+ * Product numbers are only unique within a vendor, so products are told apart
+ * by vendor and number together
+ */
+export function vendorProductKey(vendorId: string | null | undefined, productNumber: string): string {
+  return `${vendorId || ''}:${productNumber}`
+}
+
+/**
+ * Create or update a vendor format; the vendor is added if it's new
+ */
+export async function saveVendorFormat(organizationId: string, input: VendorFormatInput, id?: string): Promise<VendorFormat> {
+  const supabase = getServiceClient()
+  const vendorCode = input.vendor_code.trim()
+  const vendorId = await resolveVendorId(vendorCode, input.vendor_name.trim())
+
+  const { error: vendorError } = await supabase
+    .from('vendors')
+    .update({ name: input.vendor_name.trim(), updated_at: new Date().toISOString() })
+    .eq('id', vendorId)
+
+  if (vendorError) {
+    throw new Error(`Failed to update vendor ${vendorCode}: ${vendorError.message}`)
+  }
+
+  const columns = Object.fromEntries(
+    Object.entries(input.columns).filter(([, header]) => header?.trim()).map(([field, header]) => [field, header!.trim()])
+  )
+  const row = {
+    organization_id: organizationId,
+    vendor_id: vendorId,
+    name: input.name.trim(),
+    columns,
+    date_format: input.date_format,
+    updated_at: new Date().toISOString()
+  }
+
+  const query = id
+    ? supabase.from('vendor_formats').update(row).eq('id', id).eq('organization_id', organizationId)
+    : supabase.from('vendor_formats').insert(row)
+
+  const { data, error } = await query.select(VENDOR_FORMAT_SELECT).single()
+
+  if (error) {
+    throw new Error(error.code === '23505'
+      ? `A vendor format named ${row.name} already exists`
+      : `Failed to save vendor format: ${error.message}`)
+  }
+
+  return toVendorFormat(data as VendorFormatRow)
+}
+
+/**
+ * Delete a vendor format; invoices already imported with it keep their vendor
+ */
+export async function deleteVendorFormat(organizationId: string, id: string): Promise<void> {
+  const { error } = await getServiceClient()
+    .from('vendor_formats')
+    .delete()
+    .eq('id', id)
+    .eq('organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to delete vendor format: ${error.message}`)
+  }
+}
@@ -0,0 +1,466 @@
+import {
+  DashboardMetrics,
+  getDashboardMetrics,
+  getPackSizeChanges,
+  getPriceIncreases,
+  getTopSpendingProducts,
+  PackSizeChange,
+  PriceIncrease,
+  TopSpendingProducts
+} from '@/lib/supabase/analytics-simple'
+import { MailTransport } from './mail-transport'
+import { getServiceClient } from './supabase'
+
+/**
+ * A Monday-to-Sunday week as ISO dates
+ */
+export interface DigestWeek {
+  weekStart: string
+  weekEnd: string
+}
+
+/**
+ * This week's value next to last week's
+ */
+export interface MetricDelta {
+  current: number
+  previous: number
+  change: number
+  /** null when last week was 0 */
+  changePercent: number | null
+}
+
+export interface DigestTopProduct extends TopSpendingProducts {
+  previous_spend: number
+}
+
+export interface WeeklyDigest {
+  locationId: string
+  locationName: string
+  week: DigestWeek
+  previousWeek: DigestWeek
+  spend: MetricDelta
+  invoices: MetricDelta
+  avgOrderValue: MetricDelta
+  products: MetricDelta
+  credits: MetricDelta
+  topProducts: DigestTopProduct[]
+  priceIncreases: PriceIncrease[]
+  packSizeChanges: PackSizeChange[]
+  /** Link back to the dashboard, when APP_URL is set */
+  dashboardUrl: string | null
+}
+
+export interface DigestSubscription {
+  user_id: string
+  location_id: string
+  email: string
+  created_at: string
+}
+
+export interface DigestRunOptions {
+  week: DigestWeek
+  transport: MailTransport
+  /** Render every digest but don't send or record anything */
+  dryRun?: boolean
+  /** Only this location's subscribers */
+  locationId?: string
+}
+
+export interface DigestRunResult {
+  week: DigestWeek
+  digests: WeeklyDigest[]
+  sent: number
+  /** Already sent for this week on an earlier run */
+  skipped: number
+  failed: { email: string, locationName: string, error: string }[]
+}
+
+export const DIGEST_TOP_PRODUCTS = 5
+export const DIGEST_PRICE_INCREASES = 5
+export const DIGEST_PACK_SIZE_CHANGES = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * The Monday-to-Sunday week containing a date
+ * Example: digestWeek('2025-03-06') → { weekStart: '2025-03-03', weekEnd: '2025-03-09' }
+ */
+export function digestWeek(date: string): DigestWeek {
+  const day = new Date(`${date}T00:00:00Z`)
+  const monday = new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS)
+  return {
+    weekStart: toISODate(monday),
+    weekEnd: toISODate(new Date(monday.getTime() + 6 * DAY_MS))
+  }
+}
+
+export function previousDigestWeek(week: DigestWeek): DigestWeek {
+  const start = new Date(`${week.weekStart}T00:00:00Z`)
+  return digestWeek(toISODate(new Date(start.getTime() - 7 * DAY_MS)))
+}
+
+/**
+ * The last complete week before a date, which the scheduled job reports on
+ */
+export function lastCompleteWeek(today: Date = new Date()): DigestWeek {
+  return previousDigestWeek(digestWeek(toISODate(today)))
+}
+
+export function metricDelta(current: number, previous: number): MetricDelta {
+  return {
+    current,
+    previous,
+    change: current - previous,
+    changePercent: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null
+  }
+}
+
+/**
+ * Gather one location's analytics for a week and the week before
+ */
+export async function buildWeeklyDigest(
+  location: { id: string, name: string },
+  week: DigestWeek
+): Promise<WeeklyDigest> {
+  const previousWeek = previousDigestWeek(week)
+  const client = getServiceClient()
+  const scope = { locationId: location.id, dateFrom: week.weekStart, dateTo: week.weekEnd, client }
+  const previousScope = { locationId: location.id, dateFrom: previousWeek.weekStart, dateTo: previousWeek.weekEnd, client }
+
+  const [metrics, previousMetrics, topProducts, previousProducts, priceIncreases, packSizeChanges] = await Promise.all([
+    getDashboardMetrics(scope),
+    getDashboardMetrics(previousScope),
+    getTopSpendingProducts(DIGEST_TOP_PRODUCTS, scope),
+    getTopSpendingProducts(Number.MAX_SAFE_INTEGER, previousScope),
+    getPriceIncreases(DIGEST_PRICE_INCREASES, scope),
+    getPackSizeChanges(DIGEST_PACK_SIZE_CHANGES, scope)
+  ])
+
+  const previousSpend = new Map(previousProducts.map(product => [product.product_number, product.total_spend]))
+  const delta = (key: keyof DashboardMetrics) => metricDelta(metrics[key], previousMetrics[key])
+  const appUrl = process.env.APP_URL?.replace(/\/$/, '')
+
+  return {
+    locationId: location.id,
+    locationName: location.name,
+    week,
+    previousWeek,
+    spend: delta('totalSpend'),
+    invoices: delta('totalInvoices'),
+    avgOrderValue: delta('avgOrderValue'),
+    products: delta('totalProducts'),
+    credits: delta('totalCredits'),
+    topProducts: topProducts.map(product => ({
+      ...product,
+      previous_spend: previousSpend.get(product.product_number) || 0
+    })),
+    priceIncreases,
+    packSizeChanges,
+    dashboardUrl: appUrl ? `${appUrl}/dashboard` : null
+  }
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount)
+}
+
+function formatWeekDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function formatWeek(week: DigestWeek): string {
+  return `${formatWeekDate(week.weekStart)} – ${formatWeekDate(week.weekEnd)}`
+}
+
+/**
+ * "+12.5% vs last week", or the absolute change when last week was 0
+ */
+function describeDelta(delta: MetricDelta, format: (value: number) => string): string {
+  if (delta.change === 0) return 'same as last week'
+  const sign = delta.change > 0 ? '+' : '-'
+  if (delta.changePercent === null) return `${sign}${format(Math.abs(delta.change))} vs last week`
+  return `${sign}${Math.abs(delta.changePercent).toFixed(1)}% vs last week`
+}
+
+const formatCount = (value: number) => String(Math.round(value))
+
+export function digestSubject(digest: WeeklyDigest): string {
+  return `${digest.locationName} weekly costs: ${formatCurrency(digest.spend.current)} (${describeDelta(digest.spend, formatCurrency)}), ${formatWeek(digest.week)}`
+}
+
+export function renderDigestText(digest: WeeklyDigest): string {
+  const lines = [
+    `${digest.locationName} — week of ${formatWeek(digest.week)}`,
+    '',
+    `Spend: ${formatCurrency(digest.spend.current)} (${describeDelta(digest.spend, formatCurrency)})`,
+    `Invoices: ${digest.invoices.current} (${describeDelta(digest.invoices, formatCount)})`,
+    `Average order: ${formatCurrency(digest.avgOrderValue.current)} (${describeDelta(digest.avgOrderValue, formatCurrency)})`,
+    `Products bought: ${digest.products.current} (${describeDelta(digest.products, formatCount)})`,
+    `Credits: ${formatCurrency(digest.credits.current)}`,
+    ''
+  ]
+
+  lines.push('Top products')
+  if (digest.topProducts.length === 0) lines.push('  No purchases this week')
+  digest.topProducts.forEach(product => {
+    lines.push(`  ${product.name} (${product.product_number}): ${formatCurrency(product.total_spend)}, last week ${formatCurrency(product.previous_spend)}`)
+  })
+  lines.push('')
+
+  lines.push('Price increases')
+  if (digest.priceIncreases.length === 0) lines.push('  None on this week\'s deliveries')
+  digest.priceIncreases.forEach(increase => {
+    lines.push(`  ${increase.name} (${increase.pack_size}): ${formatCurrency(increase.previous_price)} → ${formatCurrency(increase.current_price)} (+${increase.price_increase_percent.toFixed(1)}%)`)
+  })
+  lines.push('')
+
+  lines.push('Pack size changes')
+  if (digest.packSizeChanges.length === 0) lines.push('  None this week')
+  digest.packSizeChanges.forEach(change => {
+    lines.push(`  ${change.name}: now ${change.current_pack}, best value ${change.best_value_pack}`)
+  })
+
+  if (digest.dashboardUrl) {
+    lines.push('', `Dashboard: ${digest.dashboardUrl}`)
+  }
+
+  lines.push('', 'You get this email because you opted in to this location\'s weekly digest in Settings.')
+  return lines.join('\n')
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function deltaColor(delta: MetricDelta, higherIsWorse: boolean): string {
+  if (delta.change === 0) return '#6b7280'
+  return (delta.change > 0) === higherIsWorse ? '#dc2626' : '#15803d'
+}
+
+/**
+ * Email-client-safe HTML: tables and inline styles only
+ */
+export function renderDigestHtml(digest: WeeklyDigest): string {
+  const cell = 'padding:6px 8px;border-bottom:1px solid #e5e7eb;'
+  const metric = (label: string, value: string, delta: MetricDelta, format: (value: number) => string, higherIsWorse: boolean) => `
+    <td style="padding:12px;border:1px solid #e5e7eb;">
+      <div style="font-size:12px;color:#6b7280;">${label}</div>
+      <div style="font-size:20px;font-weight:bold;color:#111827;">${value}</div>
+      <div style="font-size:12px;color:${deltaColor(delta, higherIsWorse)};">${escapeHtml(describeDelta(delta, format))}</div>
+    </td>`
+  const section = (title: string, rows: string[], empty: string) => `
+    <h2 style="font-size:16px;color:#111827;margin:24px 0 8px;">${title}</h2>
+    ${rows.length === 0
+      ? `<p style="color:#6b7280;font-size:14px;">${empty}</p>`
+      : `<table style="width:100%;border-collapse:collapse;font-size:14px;">${rows.join('')}</table>`}`
+
+  const topProducts = digest.topProducts.map(product => `
+      <tr>
+        <td style="${cell}">${escapeHtml(product.name)}<br><span style="color:#6b7280;font-size:12px;">${escapeHtml(product.product_number)}</span></td>
+        <td style="${cell}text-align:right;">${formatCurrency(product.total_spend)}</td>
+        <td style="${cell}text-align:right;color:#6b7280;">last week ${formatCurrency(product.previous_spend)}</td>
+      </tr>`)
+
+  const priceIncreases = digest.priceIncreases.map(increase => `
+      <tr>
+        <td style="${cell}">${escapeHtml(increase.name)}<br><span style="color:#6b7280;font-size:12px;">${escapeHtml(increase.pack_size)}</span></td>
+        <td style="${cell}text-align:right;">${formatCurrency(increase.previous_price)} → ${formatCurrency(increase.current_price)}</td>
+        <td style="${cell}text-align:right;color:#dc2626;">+${increase.price_increase_percent.toFixed(1)}%</td>
+      </tr>`)
+
+  const packSizeChanges = digest.packSizeChanges.map(change => `
+      <tr>
+        <td style="${cell}">${escapeHtml(change.name)}</td>
+        <td style="${cell}">now ${escapeHtml(change.current_pack)}</td>
+        <td style="${cell}">best value ${escapeHtml(change.best_value_pack)}</td>
+      </tr>`)
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;">
+  <div style="max-width:640px;margin:0 auto;background:#ffffff;padding:24px;border-radius:8px;">
+    <h1 style="font-size:20px;color:#111827;margin:0;">${escapeHtml(digest.locationName)}</h1>
+    <p style="color:#6b7280;margin:4px 0 16px;">Weekly costs, ${escapeHtml(formatWeek(digest.week))}</p>
+    <table style="width:100%;border-collapse:collapse;">
+      <tr>
+        ${metric('Spend', formatCurrency(digest.spend.current), digest.spend, formatCurrency, true)}
+        ${metric('Invoices', String(digest.invoices.current), digest.invoices, formatCount, true)}
+        ${metric('Average order', formatCurrency(digest.avgOrderValue.current), digest.avgOrderValue, formatCurrency, true)}
+        ${metric('Credits', formatCurrency(digest.credits.current), digest.credits, formatCurrency, false)}
+      </tr>
+    </table>
+    ${section('Top products', topProducts, 'No purchases this week')}
+    ${section('Price increases', priceIncreases, 'None on this week&#39;s deliveries')}
+    ${section('Pack size changes', packSizeChanges, 'None this week')}
+    ${digest.dashboardUrl
+      ? `<p style="margin-top:24px;"><a href="${escapeHtml(digest.dashboardUrl)}" style="background:#f29d2c;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none;">Open dashboard</a></p>`
+      : ''}
+    <p style="color:#9ca3af;font-size:12px;margin-top:24px;">You get this email because you opted in to this location&#39;s weekly digest in Settings.</p>
+  </div>
+</body>
+</html>
+`
+}
+
+/**
+ * Digest subscriptions: one user's, or everyone's when no user is given
+ */
+export async function listDigestSubscriptions(userId?: string): Promise<DigestSubscription[]> {
+  let query = getServiceClient()
+    .from('digest_subscriptions')
+    .select('*')
+    .order('created_at')
+
+  if (userId) query = query.eq('user_id', userId)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load digest subscriptions: ${error.message}`)
+  }
+
+  return (data || []) as DigestSubscription[]
+}
+
+/**
+ * Opt a user in to, or out of, one location's weekly digest
+ */
+export async function setDigestSubscription(
+  userId: string,
+  email: string,
+  locationId: string,
+  subscribed: boolean
+): Promise<void> {
+  const client = getServiceClient()
+  const { error } = subscribed
+    ? await client
+        .from('digest_subscriptions')
+        .upsert({ user_id: userId, location_id: locationId, email }, { onConflict: 'user_id,location_id' })
+    : await client
+        .from('digest_subscriptions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('location_id', locationId)
+
+  if (error) {
+    throw new Error(`Failed to update digest subscription: ${error.message}`)
+  }
+}
+
+async function loadDeliveredKeys(week: DigestWeek): Promise<Set<string>> {
+  const { data, error } = await getServiceClient()
+    .from('digest_deliveries')
+    .select('user_id, location_id')
+    .eq('week_start', week.weekStart)
+
+  if (error) {
+    throw new Error(`Failed to load digest deliveries: ${error.message}`)
+  }
+
+  return new Set((data || []).map(row => `${row.user_id}|${row.location_id}`))
+}
+
+/**
+ * Subscriptions whose user can still access the location. Someone moved off a
+ * location, or out of the organization, stops getting its digest.
+ */
+async function filterAccessibleSubscriptions(subscriptions: DigestSubscription[]): Promise<DigestSubscription[]> {
+  const userIds = Array.from(new Set(subscriptions.map(subscription => subscription.user_id)))
+  const accessible = new Map<string, string[]>()
+
+  for (const userId of userIds) {
+    const { data, error } = await getServiceClient().rpc('user_location_ids', { p_user_id: userId })
+
+    if (error) {
+      throw new Error(`Failed to load accessible locations: ${error.message}`)
+    }
+    accessible.set(userId, (data || []) as string[])
+  }
+
+  return subscriptions.filter(subscription => accessible.get(subscription.user_id)!.includes(subscription.location_id))
+}
+
+/**
+ * Build each subscribed location's digest once and send it to every
+ * subscriber who hasn't had this week's yet and can still access the
+ * location. A failed send is reported and retried on the next run.
+ */
+export async function sendWeeklyDigests(options: DigestRunOptions): Promise<DigestRunResult> {
+  const { week, transport, dryRun = false } = options
+  const result: DigestRunResult = { week, digests: [], sent: 0, skipped: 0, failed: [] }
+
+  const subscriptions = await filterAccessibleSubscriptions(
+    (await listDigestSubscriptions())
+      .filter(subscription => !options.locationId || subscription.location_id === options.locationId)
+  )
+  if (subscriptions.length === 0) return result
+
+  const locationIds = Array.from(new Set(subscriptions.map(subscription => subscription.location_id)))
+  const { data: locations, error } = await getServiceClient()
+    .from('locations')
+    .select('id, name')
+    .in('id', locationIds)
+
+  if (error) {
+    throw new Error(`Failed to load locations: ${error.message}`)
+  }
+
+  const delivered = dryRun ? new Set<string>() : await loadDeliveredKeys(week)
+
+  for (const location of locations || []) {
+    const digest = await buildWeeklyDigest(location, week)
+    result.digests.push(digest)
+
+    const message = {
+      subject: digestSubject(digest),
+      html: renderDigestHtml(digest),
+      text: renderDigestText(digest)
+    }
+
+    for (const subscription of subscriptions.filter(subscription => subscription.location_id === location.id)) {
+      if (delivered.has(`${subscription.user_id}|${location.id}`)) {
+        result.skipped++
+        continue
+      }
+      if (dryRun) {
+        result.sent++
+        continue
+      }
+
+      try {
+        await transport.send({ ...message, to: subscription.email })
+        const { error: deliveryError } = await getServiceClient()
+          .from('digest_deliveries')
+          .insert({
+            user_id: subscription.user_id,
+            location_id: location.id,
+            week_start: week.weekStart,
+            email: subscription.email,
+            transport: transport.name
+          })
+
+        if (deliveryError) {
+          throw new Error(`Sent, but failed to record the delivery: ${deliveryError.message}`)
+        }
+        result.sent++
+      } catch (sendError) {
+        result.failed.push({
+          email: subscription.email,
+          locationName: location.name,
+          error: sendError instanceof Error ? sendError.message : String(sendError)
+        })
+      }
+    }
+  }
+
+  return result
+}
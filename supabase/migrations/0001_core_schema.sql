@@ -0,0 +1,179 @@
+-- Core schema
+--
+-- The tables every later migration builds on: the restaurant and its
+-- locations, vendors, the product catalog, imported invoices and their lines,
+-- the price history the importer writes for each purchase, and the price
+-- alerts raised from it. Invoices are written by the import_invoice RPC
+-- (0002_import_invoice.sql onwards) with the service role; the dashboard reads
+-- them with the anon key or a signed-in session.
+
+-- 1. Restaurants and their locations
+CREATE TABLE IF NOT EXISTS public.restaurants (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The importer looks locations up by name (npm run import -- --location "Bee Caves")
+CREATE TABLE IF NOT EXISTS public.locations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL UNIQUE,
+  address_line1 TEXT,
+  city TEXT,
+  state TEXT,
+  postal_code TEXT,
+  phone TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_locations_restaurant_id ON public.locations(restaurant_id);
+
+-- 2. Distributors, looked up by code (US Foods is USFOODS)
+CREATE TABLE IF NOT EXISTS public.vendors (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  vendor_code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 3. Product catalog, one row per vendor product number
+CREATE TABLE IF NOT EXISTS public.products (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_number TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL DEFAULT 'Dry Goods'
+    CHECK (category IN ('Produce', 'Protein', 'Dairy', 'Frozen', 'Beverages', 'Dry Goods', 'Supplies')),
+  base_unit TEXT,
+  standard_pack_sizes TEXT[],
+  brand TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_category ON public.products(category);
+
+-- 4. Imported invoices and their lines
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  document_number TEXT NOT NULL,
+  invoice_date DATE NOT NULL,
+  net_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  file_name TEXT,
+  processing_status TEXT NOT NULL DEFAULT 'PENDING',
+  total_items INTEGER NOT NULL DEFAULT 0,
+  unique_products INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_location_id ON public.invoices(location_id);
+
+CREATE TABLE IF NOT EXISTS public.invoice_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  product_number TEXT NOT NULL,
+  product_description TEXT NOT NULL,
+  supplier_label TEXT,
+  pack_size TEXT,
+  pricing_unit TEXT,
+  qty_ordered NUMERIC NOT NULL DEFAULT 0,
+  qty_shipped NUMERIC NOT NULL DEFAULT 0,
+  unit_price NUMERIC(10,4) NOT NULL DEFAULT 0,
+  extended_price NUMERIC(12,2) NOT NULL DEFAULT 0,
+  product_category TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice_id ON public.invoice_items(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_product_number ON public.invoice_items(product_number);
+
+-- 5. One price record per purchased invoice line, for price history
+CREATE TABLE IF NOT EXISTS public.product_prices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  price_date DATE NOT NULL,
+  unit_price NUMERIC(10,4) NOT NULL,
+  pack_size TEXT,
+  pricing_unit TEXT,
+  extended_amount NUMERIC(12,2),
+  quantity_purchased NUMERIC,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_prices_product_date ON public.product_prices(product_id, price_date);
+CREATE INDEX IF NOT EXISTS idx_product_prices_location_id ON public.product_prices(location_id);
+
+-- 6. Price changes flagged by the importer
+CREATE TABLE IF NOT EXISTS public.price_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  alert_type TEXT NOT NULL CHECK (alert_type IN ('PRICE_INCREASE', 'PRICE_DECREASE')),
+  alert_level TEXT NOT NULL DEFAULT 'HIGH',
+  current_price NUMERIC(10,4) NOT NULL,
+  previous_price NUMERIC(10,4),
+  price_change_amount NUMERIC(10,4),
+  price_change_percent NUMERIC(8,2),
+  pack_size TEXT,
+  pricing_unit TEXT,
+  supplier_label TEXT,
+  alert_date DATE NOT NULL,
+  change_reasons TEXT[],
+  status TEXT NOT NULL DEFAULT 'ACTIVE',
+  is_read BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_alerts_product_id ON public.price_alerts(product_id);
+CREATE INDEX IF NOT EXISTS idx_price_alerts_alert_date ON public.price_alerts(alert_date);
+
+-- 7. Row level security. Imports and admin changes use the service role, which
+--    bypasses RLS; the dashboard reads invoice data with the anon key or a
+--    signed-in session.
+ALTER TABLE public.restaurants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vendors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access to products" ON public.products;
+CREATE POLICY "Allow public read access to products" ON public.products
+FOR SELECT TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to locations" ON public.locations;
+CREATE POLICY "Allow public read access to locations" ON public.locations
+FOR SELECT TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to invoices" ON public.invoices;
+CREATE POLICY "Allow public read access to invoices" ON public.invoices
+FOR SELECT TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to invoice_items" ON public.invoice_items;
+CREATE POLICY "Allow public read access to invoice_items" ON public.invoice_items
+FOR SELECT TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to price_alerts" ON public.price_alerts;
+CREATE POLICY "Allow public read access to price_alerts" ON public.price_alerts
+FOR SELECT TO anon
+USING (true);
@@ -0,0 +1,208 @@
+-- Idempotent, transactional invoice import
+--
+-- Invoices are keyed on (location_id, document_number). Each call to import_invoice
+-- runs inside a single transaction, so an invoice's header, line items and price
+-- records are committed or rolled back together.
+
+-- 1. Clean up invoices that were imported more than once, keeping the earliest copy
+WITH duplicate_invoices AS (
+  SELECT id
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY location_id, document_number ORDER BY created_at, id) AS copy_number
+    FROM public.invoices
+  ) ranked
+  WHERE copy_number > 1
+)
+DELETE FROM public.invoice_items WHERE invoice_id IN (SELECT id FROM duplicate_invoices);
+
+DELETE FROM public.invoices
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY location_id, document_number ORDER BY created_at, id) AS copy_number
+    FROM public.invoices
+  ) ranked
+  WHERE copy_number > 1
+);
+
+-- 2. Link price records to the invoice they came from so a re-import can replace them
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE public.product_prices ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE;
+
+-- Best-effort backfill for price records written before invoice_id existed
+UPDATE public.product_prices pp
+SET invoice_id = i.id
+FROM public.invoices i
+JOIN public.invoice_items ii ON ii.invoice_id = i.id
+JOIN public.products p ON p.product_number = ii.product_number
+WHERE pp.invoice_id IS NULL
+  AND pp.product_id = p.id
+  AND pp.location_id = i.location_id
+  AND pp.price_date = i.invoice_date
+  AND pp.unit_price = ii.unit_price
+  AND pp.pack_size IS NOT DISTINCT FROM ii.pack_size;
+
+-- 3. Remove price records duplicated by repeated imports
+DELETE FROM public.product_prices
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY invoice_id, product_id, location_id, price_date, unit_price, pack_size, quantity_purchased, extended_amount
+      ORDER BY created_at, id
+    ) AS copy_number
+    FROM public.product_prices
+  ) ranked
+  WHERE copy_number > 1
+);
+
+-- 4. Enforce the import keys
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_location_document ON public.invoices(location_id, document_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_product_number ON public.products(product_number);
+CREATE INDEX IF NOT EXISTS idx_product_prices_invoice_id ON public.product_prices(invoice_id);
+
+-- 5. Import a single invoice as one unit of work
+-- Returns 'new', 'updated' or 'unchanged'
+CREATE OR REPLACE FUNCTION public.import_invoice(
+  p_location_id UUID,
+  p_vendor_id UUID,
+  p_invoice JSONB,
+  p_items JSONB,
+  p_content_hash TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_existing_hash TEXT;
+  v_status TEXT;
+  v_invoice_date DATE := (p_invoice->>'invoice_date')::DATE;
+BEGIN
+  SELECT id, content_hash
+  INTO v_invoice_id, v_existing_hash
+  FROM public.invoices
+  WHERE location_id = p_location_id
+    AND document_number = p_invoice->>'document_number'
+  FOR UPDATE;
+
+  IF v_invoice_id IS NOT NULL AND v_existing_hash = p_content_hash THEN
+    RETURN 'unchanged';
+  END IF;
+
+  IF v_invoice_id IS NULL THEN
+    INSERT INTO public.invoices (
+      location_id, vendor_id, document_number, invoice_date, net_amount, file_name,
+      processing_status, total_items, unique_products, content_hash
+    )
+    VALUES (
+      p_location_id,
+      p_vendor_id,
+      p_invoice->>'document_number',
+      v_invoice_date,
+      (p_invoice->>'net_amount')::NUMERIC,
+      p_invoice->>'file_name',
+      'COMPLETED',
+      jsonb_array_length(p_items),
+      (SELECT COUNT(DISTINCT item->>'product_number') FROM jsonb_array_elements(p_items) AS item),
+      p_content_hash
+    )
+    RETURNING id INTO v_invoice_id;
+
+    v_status := 'new';
+  ELSE
+    UPDATE public.invoices
+    SET vendor_id = p_vendor_id,
+        invoice_date = v_invoice_date,
+        net_amount = (p_invoice->>'net_amount')::NUMERIC,
+        file_name = p_invoice->>'file_name',
+        processing_status = 'COMPLETED',
+        total_items = jsonb_array_length(p_items),
+        unique_products = (SELECT COUNT(DISTINCT item->>'product_number') FROM jsonb_array_elements(p_items) AS item),
+        content_hash = p_content_hash,
+        updated_at = NOW()
+    WHERE id = v_invoice_id;
+
+    DELETE FROM public.product_prices WHERE invoice_id = v_invoice_id;
+    DELETE FROM public.invoice_items WHERE invoice_id = v_invoice_id;
+
+    v_status := 'updated';
+  END IF;
+
+  INSERT INTO public.products (product_number, name, description, category, brand, base_unit, standard_pack_sizes)
+  SELECT DISTINCT ON (item.product_number)
+    item.product_number,
+    item.product_description,
+    item.product_description,
+    item.product_category,
+    NULLIF(item.supplier_label, ''),
+    item.pricing_unit,
+    ARRAY[item.pack_size]
+  FROM jsonb_to_recordset(p_items) AS item(
+    product_number TEXT,
+    product_description TEXT,
+    supplier_label TEXT,
+    pack_size TEXT,
+    pricing_unit TEXT,
+    product_category TEXT
+  )
+  ON CONFLICT (product_number) DO NOTHING;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, product_number, product_description, supplier_label, pack_size, pricing_unit,
+    qty_ordered, qty_shipped, unit_price, extended_price, product_category
+  )
+  SELECT
+    v_invoice_id,
+    item.product_number,
+    item.product_description,
+    item.supplier_label,
+    item.pack_size,
+    item.pricing_unit,
+    item.qty_ordered,
+    item.qty_shipped,
+    item.unit_price,
+    item.extended_price,
+    item.product_category
+  FROM jsonb_to_recordset(p_items) AS item(
+    product_number TEXT,
+    product_description TEXT,
+    supplier_label TEXT,
+    pack_size TEXT,
+    pricing_unit TEXT,
+    qty_ordered NUMERIC,
+    qty_shipped NUMERIC,
+    unit_price NUMERIC,
+    extended_price NUMERIC,
+    product_category TEXT
+  );
+
+  INSERT INTO public.product_prices (
+    product_id, location_id, vendor_id, invoice_id, price_date, unit_price, pack_size,
+    pricing_unit, extended_amount, quantity_purchased
+  )
+  SELECT
+    p.id,
+    p_location_id,
+    p_vendor_id,
+    v_invoice_id,
+    v_invoice_date,
+    item.unit_price,
+    item.pack_size,
+    item.pricing_unit,
+    item.extended_price,
+    item.qty_shipped
+  FROM jsonb_to_recordset(p_items) AS item(
+    product_number TEXT,
+    pack_size TEXT,
+    pricing_unit TEXT,
+    qty_shipped NUMERIC,
+    unit_price NUMERIC,
+    extended_price NUMERIC
+  )
+  JOIN public.products p ON p.product_number = item.product_number
+  WHERE item.unit_price > 0;
+
+  RETURN v_status;
+END;
+$$;
@@ -0,0 +1,321 @@
+-- Credit memo and return handling
+--
+-- Credit memos are stored alongside invoices with document_type = 'CREDIT_MEMO'.
+-- Their line items carry negative quantities and extended prices, so any sum over
+-- invoices or invoice_items is already net of refunds. Credit memo lines are never
+-- written to product_prices, so returns don't show up as new price points.
+
+-- 1. Document type and the link back to the original invoice
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS document_type TEXT NOT NULL DEFAULT 'INVOICE';
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS credit_memo_number TEXT;
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS credit_memo_date DATE;
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS original_document_number TEXT;
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS original_invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_document_type ON public.invoices(document_type);
+CREATE INDEX IF NOT EXISTS idx_invoices_original_invoice_id ON public.invoices(original_invoice_id);
+
+-- 2. Credit memos with the invoice they refund
+CREATE OR REPLACE VIEW public.credit_memos AS
+SELECT
+  cm.id,
+  cm.location_id,
+  cm.vendor_id,
+  cm.document_number,
+  cm.invoice_date AS credit_date,
+  cm.net_amount,
+  cm.original_invoice_id,
+  COALESCE(original.document_number, cm.original_document_number) AS original_document_number,
+  original.invoice_date AS original_invoice_date,
+  cm.file_name,
+  cm.created_at
+FROM public.invoices cm
+LEFT JOIN public.invoices original ON original.id = cm.original_invoice_id
+WHERE cm.document_type = 'CREDIT_MEMO';
+
+-- 3. Import a single invoice or credit memo as one unit of work
+-- Returns 'new', 'updated' or 'unchanged'
+CREATE OR REPLACE FUNCTION public.import_invoice(
+  p_location_id UUID,
+  p_vendor_id UUID,
+  p_invoice JSONB,
+  p_items JSONB,
+  p_content_hash TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_existing_hash TEXT;
+  v_status TEXT;
+  v_invoice_date DATE := (p_invoice->>'invoice_date')::DATE;
+  v_document_number TEXT := p_invoice->>'document_number';
+  v_document_type TEXT := COALESCE(p_invoice->>'document_type', 'INVOICE');
+  v_credit_memo_number TEXT := NULLIF(p_invoice->>'credit_memo_number', '');
+  v_original_document_number TEXT := NULLIF(p_invoice->>'original_document_number', '');
+  v_original_invoice_id UUID;
+BEGIN
+  SELECT id, content_hash
+  INTO v_invoice_id, v_existing_hash
+  FROM public.invoices
+  WHERE location_id = p_location_id
+    AND document_number = v_document_number
+  FOR UPDATE;
+
+  IF v_invoice_id IS NOT NULL AND v_existing_hash = p_content_hash THEN
+    RETURN 'unchanged';
+  END IF;
+
+  -- A credit memo either names its original invoice, or the invoice names the credit memo
+  IF v_document_type = 'CREDIT_MEMO' THEN
+    SELECT id
+    INTO v_original_invoice_id
+    FROM public.invoices
+    WHERE location_id = p_location_id
+      AND document_type = 'INVOICE'
+      AND (document_number = v_original_document_number OR credit_memo_number = v_document_number)
+    ORDER BY invoice_date DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_invoice_id IS NULL THEN
+    INSERT INTO public.invoices (
+      location_id, vendor_id, document_number, invoice_date, net_amount, file_name,
+      processing_status, total_items, unique_products, content_hash,
+      document_type, credit_memo_number, credit_memo_date, original_document_number, original_invoice_id
+    )
+    VALUES (
+      p_location_id,
+      p_vendor_id,
+      v_document_number,
+      v_invoice_date,
+      (p_invoice->>'net_amount')::NUMERIC,
+      p_invoice->>'file_name',
+      'COMPLETED',
+      jsonb_array_length(p_items),
+      (SELECT COUNT(DISTINCT item->>'product_number') FROM jsonb_array_elements(p_items) AS item),
+      p_content_hash,
+      v_document_type,
+      v_credit_memo_number,
+      NULLIF(p_invoice->>'credit_memo_date', '')::DATE,
+      v_original_document_number,
+      v_original_invoice_id
+    )
+    RETURNING id INTO v_invoice_id;
+
+    v_status := 'new';
+  ELSE
+    UPDATE public.invoices
+    SET vendor_id = p_vendor_id,
+        invoice_date = v_invoice_date,
+        net_amount = (p_invoice->>'net_amount')::NUMERIC,
+        file_name = p_invoice->>'file_name',
+        processing_status = 'COMPLETED',
+        total_items = jsonb_array_length(p_items),
+        unique_products = (SELECT COUNT(DISTINCT item->>'product_number') FROM jsonb_array_elements(p_items) AS item),
+        content_hash = p_content_hash,
+        document_type = v_document_type,
+        credit_memo_number = v_credit_memo_number,
+        credit_memo_date = NULLIF(p_invoice->>'credit_memo_date', '')::DATE,
+        original_document_number = v_original_document_number,
+        original_invoice_id = COALESCE(v_original_invoice_id, original_invoice_id),
+        updated_at = NOW()
+    WHERE id = v_invoice_id;
+
+    DELETE FROM public.product_prices WHERE invoice_id = v_invoice_id;
+    DELETE FROM public.invoice_items WHERE invoice_id = v_invoice_id;
+
+    v_status := 'updated';
+  END IF;
+
+  -- Link credit memos imported before the invoice they refund
+  IF v_document_type = 'INVOICE' THEN
+    UPDATE public.invoices
+    SET original_invoice_id = v_invoice_id
+    WHERE location_id = p_location_id
+      AND document_type = 'CREDIT_MEMO'
+      AND original_invoice_id IS NULL
+      AND (original_document_number = v_document_number OR document_number = v_credit_memo_number);
+  END IF;
+
+  INSERT INTO public.products (product_number, name, description, category, brand, base_unit, standard_pack_sizes)
+  SELECT DISTINCT ON (item.product_number)
+    item.product_number,
+    item.product_description,
+    item.product_description,
+    item.product_category,
+    NULLIF(item.supplier_label, ''),
+    item.pricing_unit,
+    ARRAY[item.pack_size]
+  FROM jsonb_to_recordset(p_items) AS item(
+    product_number TEXT,
+    product_description TEXT,
+    supplier_label TEXT,
+    pack_size TEXT,
+    pricing_unit TEXT,
+    product_category TEXT
+  )
+  ON CONFLICT (product_number) DO NOTHING;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, product_number, product_description, supplier_label, pack_size, pricing_unit,
+    qty_ordered, qty_shipped, unit_price, extended_price, product_category
+  )
+  SELECT
+    v_invoice_id,
+    item.product_number,
+    item.product_description,
+    item.supplier_label,
+    item.pack_size,
+    item.pricing_unit,
+    item.qty_ordered,
+    item.qty_shipped,
+    item.unit_price,
+    item.extended_price,
+    item.product_category
+  FROM jsonb_to_recordset(p_items) AS item(
+    product_number TEXT,
+    product_description TEXT,
+    supplier_label TEXT,
+    pack_size TEXT,
+    pricing_unit TEXT,
+    qty_ordered NUMERIC,
+    qty_shipped NUMERIC,
+    unit_price NUMERIC,
+    extended_price NUMERIC,
+    product_category TEXT
+  );
+
+  -- Returns aren't purchases, so they don't belong in price history
+  IF v_document_type = 'INVOICE' THEN
+    INSERT INTO public.product_prices (
+      product_id, location_id, vendor_id, invoice_id, price_date, unit_price, pack_size,
+      pricing_unit, extended_amount, quantity_purchased
+    )
+    SELECT
+      p.id,
+      p_location_id,
+      p_vendor_id,
+      v_invoice_id,
+      v_invoice_date,
+      item.unit_price,
+      item.pack_size,
+      item.pricing_unit,
+      item.extended_price,
+      item.qty_shipped
+    FROM jsonb_to_recordset(p_items) AS item(
+      product_number TEXT,
+      pack_size TEXT,
+      pricing_unit TEXT,
+      qty_shipped NUMERIC,
+      unit_price NUMERIC,
+      extended_price NUMERIC
+    )
+    JOIN public.products p ON p.product_number = item.product_number
+    WHERE item.unit_price > 0
+      AND item.qty_shipped > 0;
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+-- 4. Product summaries net of credits
+-- total_spent includes the (negative) credit memo lines; price statistics and
+-- purchase counts only look at purchases with a valid price
+DROP FUNCTION IF EXISTS public.get_products_summary(TEXT, TEXT, DATE, DATE, TEXT, INTEGER, INTEGER);
+
+CREATE FUNCTION public.get_products_summary(
+  p_category TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  product_number TEXT,
+  name TEXT,
+  category TEXT,
+  last_price NUMERIC,
+  last_purchase_date DATE,
+  purchase_frequency BIGINT,
+  total_spent NUMERIC,
+  pack_sizes TEXT[],
+  locations TEXT[],
+  min_price NUMERIC,
+  max_price NUMERIC,
+  avg_price NUMERIC,
+  price_variance NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH lines AS (
+    SELECT
+      ii.product_number::TEXT AS product_number,
+      ii.unit_price::NUMERIC AS unit_price,
+      ii.extended_price::NUMERIC AS extended_price,
+      ii.pack_size::TEXT AS pack_size,
+      i.invoice_date,
+      l.name::TEXT AS location_name,
+      (i.document_type = 'CREDIT_MEMO') AS is_credit
+    FROM public.invoice_items ii
+    JOIN public.invoices i ON i.id = ii.invoice_id
+    LEFT JOIN public.locations l ON l.id = i.location_id
+    WHERE (p_location IS NULL OR l.name = p_location OR l.id::TEXT = p_location)
+      AND (p_date_from IS NULL OR i.invoice_date >= p_date_from)
+      AND (p_date_to IS NULL OR i.invoice_date <= p_date_to)
+  ),
+  summaries AS (
+    SELECT
+      pr.id,
+      pr.product_number::TEXT AS product_number,
+      pr.name::TEXT AS name,
+      pr.category::TEXT AS category,
+      (
+        SELECT latest.unit_price
+        FROM lines latest
+        WHERE latest.product_number = pr.product_number
+          AND NOT latest.is_credit
+          AND latest.unit_price > 0
+        ORDER BY latest.invoice_date DESC
+        LIMIT 1
+      ) AS last_price,
+      MAX(li.invoice_date) FILTER (WHERE NOT li.is_credit) AS last_purchase_date,
+      COUNT(*) FILTER (WHERE NOT li.is_credit) AS purchase_frequency,
+      COALESCE(SUM(li.extended_price), 0) AS total_spent,
+      ARRAY_AGG(DISTINCT li.pack_size) FILTER (WHERE li.pack_size IS NOT NULL AND li.pack_size <> '') AS pack_sizes,
+      ARRAY_AGG(DISTINCT li.location_name) FILTER (WHERE li.location_name IS NOT NULL) AS locations,
+      MIN(li.unit_price) FILTER (WHERE NOT li.is_credit AND li.unit_price > 0) AS min_price,
+      MAX(li.unit_price) FILTER (WHERE NOT li.is_credit AND li.unit_price > 0) AS max_price,
+      AVG(li.unit_price) FILTER (WHERE NOT li.is_credit AND li.unit_price > 0) AS avg_price
+    FROM public.products pr
+    JOIN lines li ON li.product_number = pr.product_number
+    WHERE (p_category IS NULL OR pr.category = p_category)
+      AND (p_search IS NULL OR pr.name ILIKE '%' || p_search || '%' OR pr.product_number ILIKE '%' || p_search || '%')
+    GROUP BY pr.id, pr.product_number, pr.name, pr.category
+  )
+  SELECT
+    s.id,
+    s.product_number,
+    s.name,
+    s.category,
+    s.last_price,
+    s.last_purchase_date,
+    s.purchase_frequency,
+    s.total_spent,
+    s.pack_sizes,
+    s.locations,
+    s.min_price,
+    s.max_price,
+    s.avg_price,
+    CASE WHEN s.min_price > 0 THEN ROUND((s.max_price - s.min_price) / s.min_price * 100, 2) ELSE 0 END AS price_variance
+  FROM summaries s
+  ORDER BY s.total_spent DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
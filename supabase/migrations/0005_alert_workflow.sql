@@ -0,0 +1,97 @@
+-- Price alert workflow
+--
+-- Price alerts move through new → acknowledged → disputed → resolved. Each alert
+-- can be assigned to someone and snoozed until a date, and every change is kept
+-- in price_alert_events so the history of a disputed increase is never lost.
+
+-- 1. Workflow columns on price_alerts
+ALTER TABLE public.price_alerts ADD COLUMN IF NOT EXISTS workflow_status TEXT NOT NULL DEFAULT 'new'
+  CHECK (workflow_status IN ('new', 'acknowledged', 'disputed', 'resolved'));
+ALTER TABLE public.price_alerts ADD COLUMN IF NOT EXISTS assigned_to TEXT;
+ALTER TABLE public.price_alerts ADD COLUMN IF NOT EXISTS snoozed_until DATE;
+ALTER TABLE public.price_alerts ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+ALTER TABLE public.price_alerts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_price_alerts_workflow_status ON public.price_alerts(workflow_status);
+CREATE INDEX IF NOT EXISTS idx_price_alerts_assigned_to ON public.price_alerts(assigned_to);
+
+-- 2. History of every change made to an alert
+CREATE TABLE IF NOT EXISTS public.price_alert_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID NOT NULL REFERENCES public.price_alerts(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT,
+  assigned_to TEXT,
+  snoozed_until DATE,
+  note TEXT,
+  actor TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_alert_events_alert_id ON public.price_alert_events(alert_id, created_at);
+
+ALTER TABLE public.price_alert_events ENABLE ROW LEVEL SECURITY;
+
+-- 3. Apply one workflow action and record it, in a single transaction.
+--    Which actions are allowed from which status is decided in src/lib/alert-workflow.ts;
+--    this function only writes the result.
+CREATE OR REPLACE FUNCTION public.apply_price_alert_action(
+  p_alert_id UUID,
+  p_action TEXT,
+  p_to_status TEXT,
+  p_assigned_to TEXT,
+  p_snoozed_until DATE,
+  p_note TEXT,
+  p_actor TEXT
+)
+RETURNS SETOF public.price_alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert public.price_alerts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_alert FROM public.price_alerts WHERE id = p_alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Price alert % not found', p_alert_id;
+  END IF;
+
+  UPDATE public.price_alerts
+  SET
+    workflow_status = COALESCE(p_to_status, workflow_status),
+    assigned_to = CASE WHEN p_action = 'assign' THEN NULLIF(p_assigned_to, '') ELSE assigned_to END,
+    snoozed_until = CASE
+      WHEN p_action = 'snooze' THEN p_snoozed_until
+      WHEN p_action = 'unsnooze' OR p_to_status = 'resolved' THEN NULL
+      ELSE snoozed_until
+    END,
+    resolved_at = CASE
+      WHEN p_to_status = 'resolved' THEN NOW()
+      WHEN p_to_status IS NOT NULL THEN NULL
+      ELSE resolved_at
+    END,
+    is_read = CASE WHEN p_to_status IS NOT NULL AND p_to_status <> 'new' THEN TRUE ELSE is_read END,
+    updated_at = NOW()
+  WHERE id = p_alert_id;
+
+  INSERT INTO public.price_alert_events (
+    alert_id, action, from_status, to_status, assigned_to, snoozed_until, note, actor
+  ) VALUES (
+    p_alert_id,
+    p_action,
+    v_alert.workflow_status,
+    COALESCE(p_to_status, v_alert.workflow_status),
+    CASE WHEN p_action = 'assign' THEN NULLIF(p_assigned_to, '') END,
+    CASE WHEN p_action = 'snooze' THEN p_snoozed_until END,
+    NULLIF(p_note, ''),
+    p_actor
+  );
+
+  RETURN QUERY SELECT * FROM public.price_alerts WHERE id = p_alert_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_price_alert_action(UUID, TEXT, TEXT, TEXT, DATE, TEXT, TEXT) TO service_role;
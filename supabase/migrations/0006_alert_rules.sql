@@ -0,0 +1,46 @@
+-- Configurable price alert rules
+--
+-- Every alert generator reads these rules (see src/lib/alert-rules.ts). For each
+-- purchase the most specific enabled rule wins: a product-number rule beats a
+-- category rule, and either beats a location-only rule. Leave all scopes empty
+-- for a rule that applies everywhere.
+
+-- 1. Rules
+CREATE TABLE IF NOT EXISTS public.alert_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  change_type TEXT NOT NULL DEFAULT 'percent' CHECK (change_type IN ('percent', 'absolute')),
+  threshold NUMERIC(10,4) NOT NULL CHECK (threshold > 0),
+  critical_threshold NUMERIC(10,4),
+  min_spend_impact NUMERIC(10,2) NOT NULL DEFAULT 0,
+  baseline TEXT NOT NULL DEFAULT 'last_price'
+    CHECK (baseline IN ('last_price', 'avg_30d', 'avg_90d', 'contract_price')),
+  direction TEXT NOT NULL DEFAULT 'both' CHECK (direction IN ('increase', 'decrease', 'both')),
+  scope_category TEXT,
+  scope_product_number TEXT,
+  scope_location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (critical_threshold IS NULL OR critical_threshold >= threshold)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_enabled ON public.alert_rules(enabled);
+
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+
+-- The dashboard evaluates rules in the browser, so it needs to read them.
+-- Rules are only edited through /api/alert-rules with the service role.
+DROP POLICY IF EXISTS "Allow public read access to alert_rules" ON public.alert_rules;
+CREATE POLICY "Allow public read access to alert_rules" ON public.alert_rules
+FOR SELECT TO anon
+USING (true);
+
+-- 2. The thresholds the importer used before rules existed
+INSERT INTO public.alert_rules (name, change_type, threshold, critical_threshold, baseline, direction)
+SELECT 'Default', 'percent', 20, 30, 'last_price', 'both'
+WHERE NOT EXISTS (SELECT 1 FROM public.alert_rules);
+
+-- 3. Record which rule raised each alert
+ALTER TABLE public.price_alerts ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES public.alert_rules(id) ON DELETE SET NULL;
+ALTER TABLE public.price_alerts ADD COLUMN IF NOT EXISTS baseline TEXT;
@@ -0,0 +1,34 @@
+-- Vendor contract price lists
+--
+-- Agreed unit prices negotiated with a vendor, each valid for a date range.
+-- A contract with an empty pack size applies to every pack of that product. Every
+-- imported invoice line is checked against the contract in force on the invoice
+-- date (see src/lib/contract-pricing.ts); overcharges become CONTRACT_OVERCHARGE
+-- price alerts and show up in the billed vs contract variance report.
+
+-- 1. Contract prices
+CREATE TABLE IF NOT EXISTS public.contract_prices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  vendor_id UUID NOT NULL REFERENCES public.vendors(id) ON DELETE CASCADE,
+  product_number TEXT NOT NULL,
+  product_description TEXT,
+  pack_size TEXT NOT NULL DEFAULT '',
+  pricing_unit TEXT,
+  contract_price NUMERIC(10,4) NOT NULL CHECK (contract_price > 0),
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  source_file TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from),
+  -- Re-importing the same price list updates prices instead of duplicating them
+  UNIQUE (vendor_id, product_number, pack_size, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_prices_product_number ON public.contract_prices(product_number);
+
+ALTER TABLE public.contract_prices ENABLE ROW LEVEL SECURITY;
+
+-- 2. Overcharges are raised as price alerts, so they go through the alert workflow
+ALTER TABLE public.price_alerts DROP CONSTRAINT IF EXISTS price_alerts_alert_type_check;
+ALTER TABLE public.price_alerts ADD COLUMN IF NOT EXISTS contract_price_id UUID REFERENCES public.contract_prices(id) ON DELETE SET NULL;
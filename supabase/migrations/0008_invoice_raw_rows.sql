@@ -0,0 +1,211 @@
+-- Original CSV rows on invoice lines
+--
+-- Each invoice line keeps the US Foods CSV row it was imported from, so the
+-- invoice detail page can show exactly what the export said. Invoices imported
+-- earlier pick up their rows the next time they are imported: the raw rows are
+-- part of the content hash, so the importer reports them as updated.
+
+-- 1. Source row and position on invoice lines
+ALTER TABLE public.invoice_items ADD COLUMN IF NOT EXISTS line_number INTEGER;
+ALTER TABLE public.invoice_items ADD COLUMN IF NOT EXISTS raw_data JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_invoice_date ON public.invoices(invoice_date);
+
+-- 2. Import a single invoice or credit memo as one unit of work
+-- Returns 'new', 'updated' or 'unchanged'
+CREATE OR REPLACE FUNCTION public.import_invoice(
+  p_location_id UUID,
+  p_vendor_id UUID,
+  p_invoice JSONB,
+  p_items JSONB,
+  p_content_hash TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_existing_hash TEXT;
+  v_status TEXT;
+  v_invoice_date DATE := (p_invoice->>'invoice_date')::DATE;
+  v_document_number TEXT := p_invoice->>'document_number';
+  v_document_type TEXT := COALESCE(p_invoice->>'document_type', 'INVOICE');
+  v_credit_memo_number TEXT := NULLIF(p_invoice->>'credit_memo_number', '');
+  v_original_document_number TEXT := NULLIF(p_invoice->>'original_document_number', '');
+  v_original_invoice_id UUID;
+BEGIN
+  SELECT id, content_hash
+  INTO v_invoice_id, v_existing_hash
+  FROM public.invoices
+  WHERE location_id = p_location_id
+    AND document_number = v_document_number
+  FOR UPDATE;
+
+  IF v_invoice_id IS NOT NULL AND v_existing_hash = p_content_hash THEN
+    RETURN 'unchanged';
+  END IF;
+
+  -- A credit memo either names its original invoice, or the invoice names the credit memo
+  IF v_document_type = 'CREDIT_MEMO' THEN
+    SELECT id
+    INTO v_original_invoice_id
+    FROM public.invoices
+    WHERE location_id = p_location_id
+      AND document_type = 'INVOICE'
+      AND (document_number = v_original_document_number OR credit_memo_number = v_document_number)
+    ORDER BY invoice_date DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_invoice_id IS NULL THEN
+    INSERT INTO public.invoices (
+      location_id, vendor_id, document_number, invoice_date, net_amount, file_name,
+      processing_status, total_items, unique_products, content_hash,
+      document_type, credit_memo_number, credit_memo_date, original_document_number, original_invoice_id
+    )
+    VALUES (
+      p_location_id,
+      p_vendor_id,
+      v_document_number,
+      v_invoice_date,
+      (p_invoice->>'net_amount')::NUMERIC,
+      p_invoice->>'file_name',
+      'COMPLETED',
+      jsonb_array_length(p_items),
+      (SELECT COUNT(DISTINCT item->>'product_number') FROM jsonb_array_elements(p_items) AS item),
+      p_content_hash,
+      v_document_type,
+      v_credit_memo_number,
+      NULLIF(p_invoice->>'credit_memo_date', '')::DATE,
+      v_original_document_number,
+      v_original_invoice_id
+    )
+    RETURNING id INTO v_invoice_id;
+
+    v_status := 'new';
+  ELSE
+    UPDATE public.invoices
+    SET vendor_id = p_vendor_id,
+        invoice_date = v_invoice_date,
+        net_amount = (p_invoice->>'net_amount')::NUMERIC,
+        file_name = p_invoice->>'file_name',
+        processing_status = 'COMPLETED',
+        total_items = jsonb_array_length(p_items),
+        unique_products = (SELECT COUNT(DISTINCT item->>'product_number') FROM jsonb_array_elements(p_items) AS item),
+        content_hash = p_content_hash,
+        document_type = v_document_type,
+        credit_memo_number = v_credit_memo_number,
+        credit_memo_date = NULLIF(p_invoice->>'credit_memo_date', '')::DATE,
+        original_document_number = v_original_document_number,
+        original_invoice_id = COALESCE(v_original_invoice_id, original_invoice_id),
+        updated_at = NOW()
+    WHERE id = v_invoice_id;
+
+    DELETE FROM public.product_prices WHERE invoice_id = v_invoice_id;
+    DELETE FROM public.invoice_items WHERE invoice_id = v_invoice_id;
+
+    v_status := 'updated';
+  END IF;
+
+  -- Link credit memos imported before the invoice they refund
+  IF v_document_type = 'INVOICE' THEN
+    UPDATE public.invoices
+    SET original_invoice_id = v_invoice_id
+    WHERE location_id = p_location_id
+      AND document_type = 'CREDIT_MEMO'
+      AND original_invoice_id IS NULL
+      AND (original_document_number = v_document_number OR document_number = v_credit_memo_number);
+  END IF;
+
+  INSERT INTO public.products (product_number, name, description, category, brand, base_unit, standard_pack_sizes)
+  SELECT DISTINCT ON (item.product_number)
+    item.product_number,
+    item.product_description,
+    item.product_description,
+    item.product_category,
+    NULLIF(item.supplier_label, ''),
+    item.pricing_unit,
+    ARRAY[item.pack_size]
+  FROM jsonb_to_recordset(p_items) AS item(
+    product_number TEXT,
+    product_description TEXT,
+    supplier_label TEXT,
+    pack_size TEXT,
+    pricing_unit TEXT,
+    product_category TEXT
+  )
+  ON CONFLICT (product_number) DO NOTHING;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, product_number, product_description, supplier_label, pack_size, pricing_unit,
+    qty_ordered, qty_shipped, unit_price, extended_price, product_category,
+    weight, base_unit, price_per_base_unit, line_number, raw_data
+  )
+  SELECT
+    v_invoice_id,
+    item.product_number,
+    item.product_description,
+    item.supplier_label,
+    item.pack_size,
+    item.pricing_unit,
+    item.qty_ordered,
+    item.qty_shipped,
+    item.unit_price,
+    item.extended_price,
+    item.product_category,
+    item.weight,
+    item.base_unit,
+    item.price_per_base_unit,
+    item.line_number,
+    item.raw_data
+  FROM jsonb_to_recordset(p_items) AS item(
+    product_number TEXT,
+    product_description TEXT,
+    supplier_label TEXT,
+    pack_size TEXT,
+    pricing_unit TEXT,
+    qty_ordered NUMERIC,
+    qty_shipped NUMERIC,
+    unit_price NUMERIC,
+    extended_price NUMERIC,
+    product_category TEXT,
+    weight NUMERIC,
+    base_unit TEXT,
+    price_per_base_unit NUMERIC,
+    line_number INTEGER,
+    raw_data JSONB
+  );
+
+  -- Returns aren't purchases, so they don't belong in price history
+  IF v_document_type = 'INVOICE' THEN
+    INSERT INTO public.product_prices (
+      product_id, location_id, vendor_id, invoice_id, price_date, unit_price, pack_size,
+      pricing_unit, extended_amount, quantity_purchased
+    )
+    SELECT
+      p.id,
+      p_location_id,
+      p_vendor_id,
+      v_invoice_id,
+      v_invoice_date,
+      item.unit_price,
+      item.pack_size,
+      item.pricing_unit,
+      item.extended_price,
+      item.qty_shipped
+    FROM jsonb_to_recordset(p_items) AS item(
+      product_number TEXT,
+      pack_size TEXT,
+      pricing_unit TEXT,
+      qty_shipped NUMERIC,
+      unit_price NUMERIC,
+      extended_price NUMERIC
+    )
+    JOIN public.products p ON p.product_number = item.product_number
+    WHERE item.unit_price > 0
+      AND item.qty_shipped > 0;
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
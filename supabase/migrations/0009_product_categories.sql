@@ -0,0 +1,106 @@
+-- Editable product category taxonomy
+--
+-- Categories and subcategories, the ordered keyword rules that assign them and
+-- per-product overrides all live in the database and are edited on the
+-- Settings → Product Categories page (see src/lib/product-categories.ts). A
+-- product's override wins; otherwise the first enabled rule, by priority, whose
+-- keywords appear in the description decides; anything unmatched is Dry Goods.
+-- "Recategorize all history" re-applies them to products and past invoice lines.
+
+-- 1. Taxonomy: top-level categories have no parent, subcategories name theirs
+CREATE TABLE IF NOT EXISTS public.product_categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  parent_id UUID REFERENCES public.product_categories(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_categories_name
+  ON public.product_categories(COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::UUID), name);
+
+-- 2. Keyword rules, lowest priority first; the first match wins
+CREATE TABLE IF NOT EXISTS public.category_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  priority INTEGER NOT NULL,
+  keywords TEXT NOT NULL,
+  category TEXT NOT NULL,
+  subcategory TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_priority ON public.category_rules(priority);
+
+-- 3. Manual category for a single product, whatever the rules say
+CREATE TABLE IF NOT EXISTS public.product_category_overrides (
+  product_number TEXT PRIMARY KEY,
+  category TEXT NOT NULL,
+  subcategory TEXT,
+  note TEXT,
+  updated_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.product_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.category_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_category_overrides ENABLE ROW LEVEL SECURITY;
+
+-- The dashboard lists categories in filters; everything is edited through
+-- /api/categories with the service role
+DROP POLICY IF EXISTS "Allow public read access to product_categories" ON public.product_categories;
+CREATE POLICY "Allow public read access to product_categories" ON public.product_categories
+FOR SELECT TO anon
+USING (true);
+
+-- 4. Categories are no longer a fixed list
+ALTER TABLE public.products DROP CONSTRAINT IF EXISTS products_category_check;
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS subcategory TEXT;
+
+-- 5. Seed the taxonomy and rules the importer used, with the ordering fixes
+-- (ice cream before cream, soda and juice before orange)
+INSERT INTO public.product_categories (name, sort_order)
+SELECT name, sort_order
+FROM (VALUES
+  ('Produce', 1), ('Protein', 2), ('Dairy', 3), ('Frozen', 4),
+  ('Beverages', 5), ('Dry Goods', 6), ('Supplies', 7)
+) AS seed(name, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.product_categories);
+
+INSERT INTO public.product_categories (name, parent_id, sort_order)
+SELECT seed.name, parent.id, seed.sort_order
+FROM (VALUES
+  ('Produce', 'Vegetables', 1), ('Produce', 'Fruit', 2),
+  ('Protein', 'Beef', 1), ('Protein', 'Poultry', 2), ('Protein', 'Seafood', 3),
+  ('Dairy', 'Cheese', 1), ('Dairy', 'Milk & Cream', 2),
+  ('Frozen', 'Desserts', 1),
+  ('Beverages', 'Soft Drinks', 1), ('Beverages', 'Juice', 2), ('Beverages', 'Water', 3),
+  ('Supplies', 'Disposables', 1)
+) AS seed(parent_name, name, sort_order)
+JOIN public.product_categories parent ON parent.name = seed.parent_name AND parent.parent_id IS NULL
+WHERE NOT EXISTS (SELECT 1 FROM public.product_categories WHERE parent_id IS NOT NULL);
+
+INSERT INTO public.category_rules (priority, keywords, category, subcategory)
+SELECT priority, keywords, category, subcategory
+FROM (VALUES
+  (10, 'ice cream, gelato, sorbet', 'Frozen', 'Desserts'),
+  (20, 'soda, cola', 'Beverages', 'Soft Drinks'),
+  (30, 'juice', 'Beverages', 'Juice'),
+  (40, 'water', 'Beverages', 'Water'),
+  (50, 'beverage, drink', 'Beverages', NULL),
+  (60, 'cheese', 'Dairy', 'Cheese'),
+  (70, 'sour cream, milk, cream', 'Dairy', 'Milk & Cream'),
+  (80, 'dairy', 'Dairy', NULL),
+  (90, 'beef', 'Protein', 'Beef'),
+  (100, 'chicken', 'Protein', 'Poultry'),
+  (110, 'fish, tilapia', 'Protein', 'Seafood'),
+  (120, 'protein, meat', 'Protein', NULL),
+  (130, 'tomato, lettuce, onion, pepper, tomatillo', 'Produce', 'Vegetables'),
+  (140, 'orange', 'Produce', 'Fruit'),
+  (150, 'fresh, produce', 'Produce', NULL),
+  (160, 'bag, container, wrap, cup', 'Supplies', 'Disposables'),
+  (170, 'supplies', 'Supplies', NULL)
+) AS seed(priority, keywords, category, subcategory)
+WHERE NOT EXISTS (SELECT 1 FROM public.category_rules);
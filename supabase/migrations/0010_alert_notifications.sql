@@ -0,0 +1,82 @@
+-- Header notification bell
+--
+-- Each user marks price alerts read for themselves: a row in price_alert_reads
+-- means that user has seen the alert. The bell counts open alerts (not resolved,
+-- not snoozed) without a read row, and refreshes when Supabase Realtime reports
+-- a new price_alerts row (see getAlertNotifications in src/lib/price-alerts.ts).
+
+-- 1. Who has read which alert
+CREATE TABLE IF NOT EXISTS public.price_alert_reads (
+  alert_id UUID NOT NULL REFERENCES public.price_alerts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (alert_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_alert_reads_user_id ON public.price_alert_reads(user_id);
+
+ALTER TABLE public.price_alert_reads ENABLE ROW LEVEL SECURITY;
+
+-- 2. Alerts still needing attention
+CREATE OR REPLACE FUNCTION public.is_open_price_alert(p_alert public.price_alerts)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_alert.workflow_status <> 'resolved'
+    AND (p_alert.snoozed_until IS NULL OR p_alert.snoozed_until <= CURRENT_DATE);
+$$;
+
+-- 3. Unread open alerts for one user
+CREATE OR REPLACE FUNCTION public.count_unread_price_alerts(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.price_alerts a
+  WHERE public.is_open_price_alert(a)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.price_alert_reads r
+      WHERE r.alert_id = a.id AND r.user_id = p_user_id
+    );
+$$;
+
+-- 4. Mark the given alerts, or every open alert, read for one user
+-- Returns how many alerts were newly marked read
+CREATE OR REPLACE FUNCTION public.mark_price_alerts_read(p_user_id UUID, p_alert_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.price_alert_reads (alert_id, user_id)
+  SELECT a.id, p_user_id
+  FROM public.price_alerts a
+  WHERE (p_alert_ids IS NULL AND public.is_open_price_alert(a))
+     OR a.id = ANY(p_alert_ids)
+  ON CONFLICT (alert_id, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 5. Signed-in browsers subscribe to new alerts through Realtime, which only
+--    delivers rows the subscriber is allowed to read
+DROP POLICY IF EXISTS "Allow authenticated read access to price_alerts" ON public.price_alerts;
+CREATE POLICY "Allow authenticated read access to price_alerts" ON public.price_alerts
+FOR SELECT TO authenticated
+USING (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'price_alerts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.price_alerts;
+  END IF;
+END;
+$$;
@@ -0,0 +1,34 @@
+-- Weekly cost digest emails
+--
+-- Each user opts in per location on the Settings page: a row in
+-- digest_subscriptions means that user gets that location's weekly digest at
+-- their login email. scripts/send-weekly-digest.ts renders and sends the
+-- digests (see src/lib/weekly-digest.ts) and records every send in
+-- digest_deliveries so a re-run for the same week doesn't email anyone twice.
+
+-- 1. Who wants which location's digest
+CREATE TABLE IF NOT EXISTS public.digest_subscriptions (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_subscriptions_location_id ON public.digest_subscriptions(location_id);
+
+-- 2. Digests already sent, one per subscriber, location and week
+CREATE TABLE IF NOT EXISTS public.digest_deliveries (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL,
+  email TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  sent_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, location_id, week_start)
+);
+
+-- Both tables are read and written through /api/digest-subscriptions and the
+-- digest job with the service role
+ALTER TABLE public.digest_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.digest_deliveries ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,420 @@
+-- Organizations, members and location access
+--
+-- Every restaurant belongs to an organization (a restaurant group), and every
+-- user belongs to at most one organization with one role:
+--   owner               every location; manages the team and purchasing settings
+--   purchasing_manager  every location; manages contracts, categories and alert rules
+--   location_manager    assigned locations only; imports invoices and works alerts
+--   read_only           assigned locations only; views them
+-- What each role may do in the app is decided in src/lib/roles.ts. This file
+-- decides which rows a signed-in user can read: invoices, their lines, prices
+-- and alerts only for the locations they can access. The anon key no longer
+-- reads any of it.
+--
+-- People join by invite (organization_invites, accepted at signup or from the
+-- invite link) or by naming a new organization when they sign up. The product
+-- catalog, categories, alert rules and contract prices are shared; only owners
+-- and purchasing managers change them, through the API.
+
+-- 1. Organizations own restaurants, and through them locations
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.restaurants ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_organization_id ON public.restaurants(organization_id);
+
+-- 2. Members, one organization per user. email is copied from auth.users so
+--    the team page can list members without reading auth.users.
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'purchasing_manager', 'location_manager', 'read_only')),
+  email TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+-- Locations assigned to location managers and read-only members. Owners and
+-- purchasing managers see every location without rows here.
+CREATE TABLE IF NOT EXISTS public.organization_member_locations (
+  organization_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, location_id),
+  FOREIGN KEY (organization_id, user_id) REFERENCES public.organization_members(organization_id, user_id) ON DELETE CASCADE
+);
+
+-- 3. Pending invites. The token is the secret in the invite link.
+CREATE TABLE IF NOT EXISTS public.organization_invites (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'purchasing_manager', 'location_manager', 'read_only')),
+  location_ids UUID[] NOT NULL DEFAULT '{}',
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '14 days',
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_invites_organization_id ON public.organization_invites(organization_id);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_member_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+
+-- 4. Which locations a user can access. SECURITY DEFINER so policies can call
+--    it without recursing into the members tables' own policies.
+CREATE OR REPLACE FUNCTION public.user_location_ids(p_user_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.id
+  FROM public.organization_members m
+  JOIN public.restaurants r ON r.organization_id = m.organization_id
+  JOIN public.locations l ON l.restaurant_id = r.id
+  WHERE m.user_id = p_user_id
+    AND (
+      m.role IN ('owner', 'purchasing_manager')
+      OR EXISTS (
+        SELECT 1 FROM public.organization_member_locations ml
+        WHERE ml.user_id = m.user_id AND ml.location_id = l.id
+      )
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_location_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.user_location_ids(auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM public.organization_members WHERE user_id = auth.uid();
+$$;
+
+-- 5. A new organization, with a restaurant of the same name, owned by the user
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT, p_user_id UUID, p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF NULLIF(TRIM(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Organization name is required';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.organization_members WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'You already belong to an organization';
+  END IF;
+
+  INSERT INTO public.organizations (name) VALUES (TRIM(p_name))
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO public.restaurants (name, owner_id, organization_id)
+  VALUES (TRIM(p_name), p_user_id, v_organization_id);
+
+  INSERT INTO public.organization_members (organization_id, user_id, role, email)
+  VALUES (v_organization_id, p_user_id, 'owner', p_email);
+
+  RETURN v_organization_id;
+END;
+$$;
+
+-- 6. Join the organization an invite is for. The invite must be for the
+--    user's email, unused and unexpired. Returns the organization id.
+CREATE OR REPLACE FUNCTION public.accept_organization_invite(p_token TEXT, p_user_id UUID, p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.organization_invites%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invite
+  FROM public.organization_invites
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_invite.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite has already been used or does not exist';
+  END IF;
+  IF v_invite.expires_at < NOW() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  END IF;
+  IF LOWER(v_invite.email) <> LOWER(COALESCE(p_email, '')) THEN
+    RAISE EXCEPTION 'This invite is for %', v_invite.email;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.organization_members WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'You already belong to an organization';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role, email)
+  VALUES (v_invite.organization_id, p_user_id, v_invite.role, p_email);
+
+  -- Only locations that still belong to the organization
+  INSERT INTO public.organization_member_locations (organization_id, user_id, location_id)
+  SELECT v_invite.organization_id, p_user_id, l.id
+  FROM public.locations l
+  JOIN public.restaurants r ON r.id = l.restaurant_id
+  WHERE r.organization_id = v_invite.organization_id
+    AND l.id = ANY(v_invite.location_ids);
+
+  UPDATE public.organization_invites
+  SET accepted_at = NOW(), accepted_by = p_user_id
+  WHERE id = v_invite.id;
+
+  RETURN v_invite.organization_id;
+END;
+$$;
+
+-- 7. Signup passes either invite_token or organization_name in the user's
+--    metadata (see app/auth/signup/page.tsx). A bad invite doesn't block the
+--    signup; the user is asked to join or create an organization afterwards.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metadata JSONB := COALESCE(NEW.raw_user_meta_data, '{}'::JSONB);
+BEGIN
+  BEGIN
+    IF NULLIF(v_metadata->>'invite_token', '') IS NOT NULL THEN
+      PERFORM public.accept_organization_invite(v_metadata->>'invite_token', NEW.id, NEW.email);
+    ELSIF NULLIF(TRIM(v_metadata->>'organization_name'), '') IS NOT NULL THEN
+      PERFORM public.create_organization(v_metadata->>'organization_name', NEW.id, NEW.email);
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not set up the organization for %: %', NEW.email, SQLERRM;
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_join_organization ON auth.users;
+CREATE TRIGGER on_auth_user_created_join_organization
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Policies may call the current_user_* helpers; only the service role looks
+-- up other users or creates memberships
+REVOKE EXECUTE ON FUNCTION public.user_location_ids(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_organization(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.accept_organization_invite(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.handle_new_user() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.current_user_location_ids() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.current_user_organization_id() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.user_location_ids(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.create_organization(TEXT, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.accept_organization_invite(TEXT, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.current_user_location_ids() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.current_user_organization_id() TO authenticated, service_role;
+
+-- The alert workflow RPC (0005) is SECURITY DEFINER and would let anyone
+-- change and read any alert; the rest run as the caller under RLS, but only
+-- signed-in users and the service role call them
+REVOKE EXECUTE ON FUNCTION public.apply_price_alert_action(UUID, TEXT, TEXT, TEXT, DATE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.import_invoice(UUID, UUID, JSONB, JSONB, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.mark_price_alerts_read(UUID, UUID[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.count_unread_price_alerts(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_products_summary(TEXT, TEXT, DATE, DATE, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_price_alert_action(UUID, TEXT, TEXT, TEXT, DATE, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.import_invoice(UUID, UUID, JSONB, JSONB, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.mark_price_alerts_read(UUID, UUID[]) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.count_unread_price_alerts(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_products_summary(TEXT, TEXT, DATE, DATE, TEXT, INTEGER, INTEGER) TO authenticated, service_role;
+
+-- 8. Existing data: one organization owns the existing restaurants and any
+--    location without one. Restaurant owners (or else the first user) become
+--    owners; everyone else keeps seeing every location, read only, until an
+--    owner changes their role.
+DO $$
+DECLARE
+  v_organization_id UUID;
+  v_restaurant_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.restaurants WHERE organization_id IS NULL) THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_restaurant_id
+  FROM public.restaurants
+  WHERE organization_id IS NULL
+  ORDER BY created_at
+  LIMIT 1;
+
+  INSERT INTO public.organizations (name)
+  SELECT name FROM public.restaurants WHERE id = v_restaurant_id
+  RETURNING id INTO v_organization_id;
+
+  UPDATE public.restaurants SET organization_id = v_organization_id WHERE organization_id IS NULL;
+  UPDATE public.locations SET restaurant_id = v_restaurant_id WHERE restaurant_id IS NULL;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role, email)
+  SELECT DISTINCT v_organization_id, u.id, 'owner', u.email
+  FROM auth.users u
+  JOIN public.restaurants r ON r.owner_id = u.id
+  WHERE r.organization_id = v_organization_id
+  ON CONFLICT DO NOTHING;
+
+  IF NOT EXISTS (SELECT 1 FROM public.organization_members WHERE organization_id = v_organization_id) THEN
+    INSERT INTO public.organization_members (organization_id, user_id, role, email)
+    SELECT v_organization_id, id, 'owner', email
+    FROM auth.users
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role, email)
+  SELECT v_organization_id, u.id, 'read_only', u.email
+  FROM auth.users u
+  WHERE NOT EXISTS (SELECT 1 FROM public.organization_members m WHERE m.user_id = u.id);
+
+  INSERT INTO public.organization_member_locations (organization_id, user_id, location_id)
+  SELECT v_organization_id, m.user_id, l.id
+  FROM public.organization_members m
+  CROSS JOIN public.locations l
+  WHERE m.organization_id = v_organization_id
+    AND m.role = 'read_only'
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+ALTER TABLE public.restaurants ALTER COLUMN organization_id SET NOT NULL;
+
+-- 9. The header bell only counts and marks alerts at the user's locations
+CREATE OR REPLACE FUNCTION public.count_unread_price_alerts(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.price_alerts a
+  WHERE public.is_open_price_alert(a)
+    AND a.location_id IN (SELECT public.user_location_ids(p_user_id))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.price_alert_reads r
+      WHERE r.alert_id = a.id AND r.user_id = p_user_id
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_price_alerts_read(p_user_id UUID, p_alert_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.price_alert_reads (alert_id, user_id)
+  SELECT a.id, p_user_id
+  FROM public.price_alerts a
+  WHERE ((p_alert_ids IS NULL AND public.is_open_price_alert(a)) OR a.id = ANY(p_alert_ids))
+    AND a.location_id IN (SELECT public.user_location_ids(p_user_id))
+  ON CONFLICT (alert_id, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 10. Read access: location data for the signed-in user's locations, shared
+--     reference data for any signed-in user, and nothing for the anon key
+DROP POLICY IF EXISTS "Allow public read access to products" ON public.products;
+DROP POLICY IF EXISTS "Allow public read access to locations" ON public.locations;
+DROP POLICY IF EXISTS "Allow public read access to invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Allow public read access to invoice_items" ON public.invoice_items;
+DROP POLICY IF EXISTS "Allow public read access to price_alerts" ON public.price_alerts;
+DROP POLICY IF EXISTS "Allow authenticated read access to price_alerts" ON public.price_alerts;
+DROP POLICY IF EXISTS "Allow public read access to alert_rules" ON public.alert_rules;
+DROP POLICY IF EXISTS "Allow public read access to product_categories" ON public.product_categories;
+
+DROP POLICY IF EXISTS "Allow members read access to organizations" ON public.organizations;
+CREATE POLICY "Allow members read access to organizations" ON public.organizations
+FOR SELECT TO authenticated
+USING (id = public.current_user_organization_id());
+
+DROP POLICY IF EXISTS "Allow members read access to organization_members" ON public.organization_members;
+CREATE POLICY "Allow members read access to organization_members" ON public.organization_members
+FOR SELECT TO authenticated
+USING (organization_id = public.current_user_organization_id());
+
+DROP POLICY IF EXISTS "Allow members read access to organization_member_locations" ON public.organization_member_locations;
+CREATE POLICY "Allow members read access to organization_member_locations" ON public.organization_member_locations
+FOR SELECT TO authenticated
+USING (organization_id = public.current_user_organization_id());
+
+DROP POLICY IF EXISTS "Allow members read access to restaurants" ON public.restaurants;
+CREATE POLICY "Allow members read access to restaurants" ON public.restaurants
+FOR SELECT TO authenticated
+USING (organization_id = public.current_user_organization_id());
+
+DROP POLICY IF EXISTS "Allow members read access to locations" ON public.locations;
+CREATE POLICY "Allow members read access to locations" ON public.locations
+FOR SELECT TO authenticated
+USING (id IN (SELECT public.current_user_location_ids()));
+
+DROP POLICY IF EXISTS "Allow members read access to invoices" ON public.invoices;
+CREATE POLICY "Allow members read access to invoices" ON public.invoices
+FOR SELECT TO authenticated
+USING (location_id IN (SELECT public.current_user_location_ids()));
+
+DROP POLICY IF EXISTS "Allow members read access to invoice_items" ON public.invoice_items;
+CREATE POLICY "Allow members read access to invoice_items" ON public.invoice_items
+FOR SELECT TO authenticated
+USING (invoice_id IN (
+  SELECT id FROM public.invoices WHERE location_id IN (SELECT public.current_user_location_ids())
+));
+
+DROP POLICY IF EXISTS "Allow members read access to product_prices" ON public.product_prices;
+CREATE POLICY "Allow members read access to product_prices" ON public.product_prices
+FOR SELECT TO authenticated
+USING (location_id IN (SELECT public.current_user_location_ids()));
+
+-- Realtime only delivers new alerts to subscribers allowed to read them
+DROP POLICY IF EXISTS "Allow members read access to price_alerts" ON public.price_alerts;
+CREATE POLICY "Allow members read access to price_alerts" ON public.price_alerts
+FOR SELECT TO authenticated
+USING (location_id IN (SELECT public.current_user_location_ids()));
+
+DROP POLICY IF EXISTS "Allow authenticated read access to products" ON public.products;
+CREATE POLICY "Allow authenticated read access to products" ON public.products
+FOR SELECT TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Allow authenticated read access to alert_rules" ON public.alert_rules;
+CREATE POLICY "Allow authenticated read access to alert_rules" ON public.alert_rules
+FOR SELECT TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Allow authenticated read access to product_categories" ON public.product_categories;
+CREATE POLICY "Allow authenticated read access to product_categories" ON public.product_categories
+FOR SELECT TO authenticated
+USING (true);
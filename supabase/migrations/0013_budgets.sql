@@ -0,0 +1,46 @@
+-- Spend budgets
+--
+-- A budget is a spend target for one location and month, either for one
+-- product category or, with an empty category, for everything the location
+-- buys. Actual spend comes from imported invoices: invoice net amounts for a
+-- location total, line item amounts for a category. Whenever invoices are
+-- imported or budgets change, src/lib/budgets.ts projects month-end spend from
+-- the run rate so far and raises a budget alert once a budget is tracking
+-- over, and again once it is actually over.
+
+-- 1. Budgets
+CREATE TABLE IF NOT EXISTS public.budgets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  category TEXT NOT NULL DEFAULT '',
+  -- First day of the month
+  month DATE NOT NULL CHECK (month = date_trunc('month', month)::DATE),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  source_file TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Entering or importing a budget again updates it instead of duplicating it
+  UNIQUE (location_id, category, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_month ON public.budgets(month);
+
+-- 2. Budget alerts, at most one of each type per budget
+CREATE TABLE IF NOT EXISTS public.budget_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  alert_type TEXT NOT NULL CHECK (alert_type IN ('PROJECTED_OVER', 'OVER_BUDGET')),
+  budget_amount NUMERIC(12,2) NOT NULL,
+  actual_spend NUMERIC(12,2) NOT NULL,
+  projected_spend NUMERIC(12,2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (budget_id, alert_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_alerts_location_id ON public.budget_alerts(location_id);
+
+-- Both tables are read and written through /api/budgets with the service role,
+-- which limits members to their own locations
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budget_alerts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,143 @@
+-- Recipes and plate costs
+--
+-- A recipe is a dish on the menu or a sub-recipe (a sauce, a dough) used in
+-- other recipes. Each ingredient is either a product, by product number, or a
+-- sub-recipe, with the quantity used, its unit, and the usable yield after
+-- trim and cooking loss. src/lib/recipes.ts costs every recipe from the latest
+-- price per base unit on invoice_items. A menu item whose plate cost passes its
+-- target food-cost percentage raises a recipe cost alert, once per crossing.
+-- Like the catalog and contract prices, recipes are shared across locations and
+-- changed by owners and purchasing managers through /api/recipes.
+
+-- 1. Recipes
+CREATE TABLE IF NOT EXISTS public.recipes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  is_menu_item BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Portions one batch makes; the plate cost is the batch cost over this
+  portions NUMERIC(10,2) NOT NULL DEFAULT 1 CHECK (portions > 0),
+  -- What one batch of a sub-recipe makes, e.g. 2 GAL, so other recipes can use it by measure
+  yield_quantity NUMERIC(10,3) CHECK (yield_quantity > 0),
+  yield_unit TEXT,
+  menu_price NUMERIC(10,2) CHECK (menu_price > 0),
+  -- Plate cost as a percentage of the menu price
+  target_food_cost_percent NUMERIC(5,2) CHECK (target_food_cost_percent > 0 AND target_food_cost_percent <= 100),
+  notes TEXT,
+  -- Set while an over-target alert stands, so the next one waits until the plate is back under
+  cost_alerted BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recipes_name ON public.recipes(LOWER(name));
+
+-- 2. Ingredients: a product or a sub-recipe
+CREATE TABLE IF NOT EXISTS public.recipe_ingredients (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  product_number TEXT,
+  -- A sub-recipe can't be deleted while a recipe uses it
+  sub_recipe_id UUID REFERENCES public.recipes(id) ON DELETE RESTRICT,
+  quantity NUMERIC(12,4) NOT NULL CHECK (quantity > 0),
+  -- A measure (LB, OZ, GAL, QT, EA...), or PORTION for a sub-recipe
+  unit TEXT NOT NULL,
+  -- Usable share after trim and cooking loss, e.g. 85 for onions
+  yield_percent NUMERIC(5,2) NOT NULL DEFAULT 100 CHECK (yield_percent > 0 AND yield_percent <= 100),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((product_number IS NULL) <> (sub_recipe_id IS NULL)),
+  CHECK (sub_recipe_id IS NULL OR sub_recipe_id <> recipe_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe_id ON public.recipe_ingredients(recipe_id);
+CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_product_number ON public.recipe_ingredients(product_number);
+CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_sub_recipe_id ON public.recipe_ingredients(sub_recipe_id);
+
+-- 3. Plate cost alerts
+CREATE TABLE IF NOT EXISTS public.recipe_cost_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  plate_cost NUMERIC(10,4) NOT NULL,
+  menu_price NUMERIC(10,2) NOT NULL,
+  food_cost_percent NUMERIC(6,2) NOT NULL,
+  target_food_cost_percent NUMERIC(5,2) NOT NULL,
+  -- Ingredients whose latest price is above the one before:
+  -- [{ product_number, description, previous_price, current_price, base_unit }]
+  price_increases JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_cost_alerts_recipe_id ON public.recipe_cost_alerts(recipe_id);
+
+-- 4. Save a recipe and its ingredients as one unit of work
+-- p_recipe_id is null for a new recipe; returns the recipe's id
+CREATE OR REPLACE FUNCTION public.save_recipe(
+  p_recipe_id UUID,
+  p_recipe JSONB,
+  p_ingredients JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_recipe_id UUID := p_recipe_id;
+BEGIN
+  IF v_recipe_id IS NULL THEN
+    INSERT INTO public.recipes (
+      name, is_menu_item, portions, yield_quantity, yield_unit, menu_price, target_food_cost_percent, notes
+    )
+    VALUES (
+      p_recipe->>'name',
+      COALESCE((p_recipe->>'is_menu_item')::BOOLEAN, TRUE),
+      COALESCE((p_recipe->>'portions')::NUMERIC, 1),
+      (p_recipe->>'yield_quantity')::NUMERIC,
+      NULLIF(p_recipe->>'yield_unit', ''),
+      (p_recipe->>'menu_price')::NUMERIC,
+      (p_recipe->>'target_food_cost_percent')::NUMERIC,
+      NULLIF(p_recipe->>'notes', '')
+    )
+    RETURNING id INTO v_recipe_id;
+  ELSE
+    UPDATE public.recipes
+    SET name = p_recipe->>'name',
+        is_menu_item = COALESCE((p_recipe->>'is_menu_item')::BOOLEAN, TRUE),
+        portions = COALESCE((p_recipe->>'portions')::NUMERIC, 1),
+        yield_quantity = (p_recipe->>'yield_quantity')::NUMERIC,
+        yield_unit = NULLIF(p_recipe->>'yield_unit', ''),
+        menu_price = (p_recipe->>'menu_price')::NUMERIC,
+        target_food_cost_percent = (p_recipe->>'target_food_cost_percent')::NUMERIC,
+        notes = NULLIF(p_recipe->>'notes', ''),
+        updated_at = NOW()
+    WHERE id = v_recipe_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Recipe % not found', v_recipe_id;
+    END IF;
+
+    DELETE FROM public.recipe_ingredients WHERE recipe_id = v_recipe_id;
+  END IF;
+
+  INSERT INTO public.recipe_ingredients (
+    recipe_id, product_number, sub_recipe_id, quantity, unit, yield_percent, sort_order
+  )
+  SELECT
+    v_recipe_id,
+    NULLIF(ingredient.value->>'product_number', ''),
+    NULLIF(ingredient.value->>'sub_recipe_id', '')::UUID,
+    (ingredient.value->>'quantity')::NUMERIC,
+    ingredient.value->>'unit',
+    COALESCE((ingredient.value->>'yield_percent')::NUMERIC, 100),
+    ingredient.ordinality - 1
+  FROM jsonb_array_elements(p_ingredients) WITH ORDINALITY AS ingredient(value, ordinality);
+
+  RETURN v_recipe_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_recipe(UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_recipe(UUID, JSONB, JSONB) TO service_role;
+
+-- All three tables are read and written through /api/recipes with the service role
+ALTER TABLE public.recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_cost_alerts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,37 @@
+-- Distributor invoice formats
+--
+-- Each distributor exports invoices with its own columns. A vendor format maps
+-- one vendor's CSV headers onto the fields of the normalized invoice model
+-- (document number, date, product number, quantities, prices...). The US Foods
+-- and Sysco formats are built in (src/lib/vendor-formats.ts); the rows here are
+-- the formats added from Settings → Vendor Formats for every other distributor.
+-- Each uploaded file is matched to a format by its header row and its invoices
+-- are recorded against that format's vendor.
+
+-- 1. Vendor formats
+CREATE TABLE IF NOT EXISTS public.vendor_formats (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  vendor_id UUID NOT NULL REFERENCES public.vendors(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Invoice field → CSV header, e.g. { "documentNumber": "Invoice #", "unitPrice": "Price" }
+  columns JSONB NOT NULL DEFAULT '{}',
+  -- Order of month, day and year in the export's dates
+  date_format TEXT NOT NULL DEFAULT 'MDY' CHECK (date_format IN ('MDY', 'YMD', 'DMY')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_formats_name ON public.vendor_formats(LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_vendor_formats_vendor_id ON public.vendor_formats(vendor_id);
+
+-- Read and written through /api/vendor-formats with the service role
+ALTER TABLE public.vendor_formats ENABLE ROW LEVEL SECURITY;
+
+-- 2. Everything imported before this was a US Foods export
+UPDATE public.invoices
+SET vendor_id = (SELECT id FROM public.vendors WHERE vendor_code = 'USFOODS')
+WHERE vendor_id IS NULL;
+
+UPDATE public.product_prices
+SET vendor_id = (SELECT id FROM public.vendors WHERE vendor_code = 'USFOODS')
+WHERE vendor_id IS NULL;
@@ -0,0 +1,29 @@
+-- Equivalent items across vendors
+--
+-- Product numbers are vendor-specific, so the same 50 lb bag of rice from two
+-- distributors is two products. src/lib/item-matching.ts suggests pairs that
+-- look like the same item (similar description, same pack size and base unit,
+-- same brand); an owner or purchasing manager confirms or rejects each one.
+-- Confirmed links join products into one equivalent item, whose sources are
+-- compared on price per base unit. Rejected links keep the pair from being
+-- suggested again.
+
+CREATE TABLE IF NOT EXISTS public.item_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The pair is stored in sorted order so it has one row whichever way it was linked
+  product_number_a TEXT NOT NULL,
+  product_number_b TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('CONFIRMED', 'REJECTED')),
+  -- The suggestion score when it was decided, 0 to 1; null for a link made by hand
+  score NUMERIC(4,3),
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (product_number_a < product_number_b),
+  UNIQUE (product_number_a, product_number_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_links_product_number_b ON public.item_links(product_number_b);
+
+-- Read and written through /api/item-matches with the service role
+ALTER TABLE public.item_links ENABLE ROW LEVEL SECURITY;
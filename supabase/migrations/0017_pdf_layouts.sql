@@ -0,0 +1,35 @@
+-- PDF invoice layouts
+--
+-- Distributors that email PDF invoices instead of CSV exports are read from
+-- the PDF's text (no OCR: scanned invoices aren't supported). A layout says
+-- how one vendor's PDF is laid out: text that identifies the vendor, a
+-- pattern per header field (invoice number, date, total...) and a pattern
+-- matching one line item. The US Foods and Sysco layouts are built in
+-- (src/lib/pdf-invoices.ts); the rows here are the layouts added from
+-- Settings → PDF Layouts. Fields the layout can't read with confidence are
+-- flagged for review on the upload page before the invoice is imported.
+
+CREATE TABLE IF NOT EXISTS public.pdf_layouts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  vendor_id UUID NOT NULL REFERENCES public.vendors(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Text found only on this vendor's invoices, e.g. "Produce Co LLC"
+  identifier TEXT NOT NULL,
+  -- Header field → regular expression whose first group is the value,
+  -- e.g. { "documentNumber": "Invoice\\s*#\\s*(\\d+)" }
+  header_patterns JSONB NOT NULL DEFAULT '{}',
+  -- Regular expression matching one line item, with named groups
+  -- (?<productNumber>...), (?<unitPrice>...) and so on
+  line_pattern TEXT NOT NULL,
+  -- Text marking the document as a credit memo
+  credit_marker TEXT NOT NULL DEFAULT 'CREDIT MEMO',
+  date_format TEXT NOT NULL DEFAULT 'MDY' CHECK (date_format IN ('MDY', 'YMD', 'DMY')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pdf_layouts_name ON public.pdf_layouts(LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_pdf_layouts_vendor_id ON public.pdf_layouts(vendor_id);
+
+-- Read and written through /api/pdf-layouts with the service role
+ALTER TABLE public.pdf_layouts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,52 @@
+-- Email ingestion of invoice attachments
+--
+-- Vendors email invoices as CSV or PDF attachments. The ingestion worker
+-- (scripts/ingest-email.ts) reads a mailbox over IMAP or a Maildir/mbox drop
+-- folder, imports each attachment through the shared pipeline and records
+-- what it did with every message.
+--
+-- Each invoice goes to the location whose vendor account has the invoice's
+-- customer number, or else whose street address appears as the ship-to
+-- address. vendor_accounts holds the customer numbers vendors bill each
+-- location under.
+
+-- 1. Vendor customer numbers per location
+CREATE TABLE IF NOT EXISTS public.vendor_accounts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  -- Null when the number is the same whichever vendor bills it
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE CASCADE,
+  customer_number TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_accounts_number
+  ON public.vendor_accounts(COALESCE(vendor_id, '00000000-0000-0000-0000-000000000000'::uuid), customer_number);
+CREATE INDEX IF NOT EXISTS idx_vendor_accounts_location_id ON public.vendor_accounts(location_id);
+
+ALTER TABLE public.vendor_accounts ENABLE ROW LEVEL SECURITY;
+
+-- 2. One row per email processed
+CREATE TABLE IF NOT EXISTS public.email_ingestion_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The Message-ID header, or a hash of the message when it has none;
+  -- a message already in the log is never imported twice
+  message_id TEXT NOT NULL UNIQUE,
+  source TEXT NOT NULL,
+  from_address TEXT,
+  subject TEXT,
+  received_at TIMESTAMPTZ,
+  status TEXT NOT NULL CHECK (status IN ('imported', 'partial', 'failed', 'no_attachments')),
+  -- Per attachment: file name, routed location, invoice outcomes and errors
+  attachments JSONB NOT NULL DEFAULT '[]',
+  -- Locations any of the message's invoices were routed to, for scoping the log
+  location_ids UUID[] NOT NULL DEFAULT '{}',
+  error TEXT,
+  processed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_ingestion_log_processed_at ON public.email_ingestion_log(processed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_ingestion_log_location_ids ON public.email_ingestion_log USING GIN(location_ids);
+
+-- Written by the ingestion worker and read through /api/email-ingestion with the service role
+ALTER TABLE public.email_ingestion_log ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,515 @@
+-- Vendor-scoped invoice and product keys
+--
+-- Document numbers and product numbers are only unique within one
+-- distributor: Sysco invoice 1001 is not US Foods invoice 1001, and Sysco
+-- product 555 is not US Foods product 555. Invoices were keyed on
+-- (location_id, document_number) and products on product_number alone, so
+-- once a second vendor was imported one vendor's invoice could replace
+-- another's and its prices land on the other's product.
+--
+-- Invoices are now keyed on (location_id, vendor_id, document_number) and
+-- products on (vendor_id, product_number). Products bought from more than one
+-- vendor are split into one product per vendor and their price history moved
+-- to the right one. An invoice already overwritten by another vendor's
+-- invoice with the same number can't be told apart here; re-import both
+-- vendors' files to restore it.
+--
+-- Item links and recipe ingredients name a product by number, so they get the
+-- product's vendor too.
+
+-- 1. Each product belongs to the vendor that sells it
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES public.vendors(id);
+
+-- The vendor that first sold the product keeps the existing row
+UPDATE public.products p
+SET vendor_id = first_sale.vendor_id
+FROM (
+  SELECT DISTINCT ON (ii.product_number) ii.product_number, i.vendor_id
+  FROM public.invoice_items ii
+  JOIN public.invoices i ON i.id = ii.invoice_id
+  WHERE i.vendor_id IS NOT NULL
+  ORDER BY ii.product_number, i.created_at, i.id
+) AS first_sale
+WHERE p.product_number = first_sale.product_number
+  AND p.vendor_id IS NULL;
+
+-- Products never bought predate other vendors: the catalog started as US Foods
+UPDATE public.products
+SET vendor_id = (SELECT id FROM public.vendors WHERE vendor_code = 'USFOODS')
+WHERE vendor_id IS NULL;
+
+DROP INDEX IF EXISTS public.idx_products_product_number;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_vendor_product ON public.products(vendor_id, product_number);
+CREATE INDEX IF NOT EXISTS idx_products_product_number ON public.products(product_number);
+
+-- Every other vendor selling the same number gets its own product
+INSERT INTO public.products (vendor_id, product_number, name, description, category, brand, base_unit, standard_pack_sizes)
+SELECT DISTINCT ON (i.vendor_id, ii.product_number)
+  i.vendor_id,
+  ii.product_number,
+  ii.product_description,
+  ii.product_description,
+  p.category,
+  NULLIF(ii.supplier_label, ''),
+  ii.pricing_unit,
+  ARRAY[ii.pack_size]
+FROM public.invoice_items ii
+JOIN public.invoices i ON i.id = ii.invoice_id
+JOIN public.products p ON p.product_number = ii.product_number
+WHERE i.vendor_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.products existing
+    WHERE existing.product_number = ii.product_number AND existing.vendor_id = i.vendor_id
+  )
+ORDER BY i.vendor_id, ii.product_number, i.invoice_date DESC;
+
+-- Alerts follow the price they were raised on, before that price moves
+UPDATE public.price_alerts a
+SET product_id = moved.id
+FROM public.product_prices pp
+JOIN public.products old ON old.id = pp.product_id
+JOIN public.products moved ON moved.product_number = old.product_number AND moved.vendor_id = pp.vendor_id
+WHERE a.product_id = old.id
+  AND old.vendor_id IS DISTINCT FROM pp.vendor_id
+  AND pp.location_id = a.location_id
+  AND pp.price_date = a.alert_date
+  AND pp.unit_price = a.current_price;
+
+UPDATE public.product_prices pp
+SET product_id = moved.id
+FROM public.products old
+JOIN public.products moved ON moved.product_number = old.product_number
+WHERE pp.product_id = old.id
+  AND moved.vendor_id = pp.vendor_id
+  AND old.vendor_id IS DISTINCT FROM pp.vendor_id;
+
+-- 2. Invoices are numbered per vendor
+DROP INDEX IF EXISTS public.idx_invoices_location_document;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_location_vendor_document
+  ON public.invoices(location_id, vendor_id, document_number);
+
+-- 3. Import a single invoice or credit memo as one unit of work
+-- Returns 'new', 'updated' or 'unchanged'
+CREATE OR REPLACE FUNCTION public.import_invoice(
+  p_location_id UUID,
+  p_vendor_id UUID,
+  p_invoice JSONB,
+  p_items JSONB,
+  p_content_hash TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_existing_hash TEXT;
+  v_status TEXT;
+  v_invoice_date DATE := (p_invoice->>'invoice_date')::DATE;
+  v_document_number TEXT := p_invoice->>'document_number';
+  v_document_type TEXT := COALESCE(p_invoice->>'document_type', 'INVOICE');
+  v_credit_memo_number TEXT := NULLIF(p_invoice->>'credit_memo_number', '');
+  v_original_document_number TEXT := NULLIF(p_invoice->>'original_document_number', '');
+  v_original_invoice_id UUID;
+BEGIN
+  SELECT id, content_hash
+  INTO v_invoice_id, v_existing_hash
+  FROM public.invoices
+  WHERE location_id = p_location_id
+    AND vendor_id = p_vendor_id
+    AND document_number = v_document_number
+  FOR UPDATE;
+
+  IF v_invoice_id IS NOT NULL AND v_existing_hash = p_content_hash THEN
+    RETURN 'unchanged';
+  END IF;
+
+  -- A credit memo either names its original invoice, or the invoice names the credit memo
+  IF v_document_type = 'CREDIT_MEMO' THEN
+    SELECT id
+    INTO v_original_invoice_id
+    FROM public.invoices
+    WHERE location_id = p_location_id
+      AND vendor_id = p_vendor_id
+      AND document_type = 'INVOICE'
+      AND (document_number = v_original_document_number OR credit_memo_number = v_document_number)
+    ORDER BY invoice_date DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_invoice_id IS NULL THEN
+    INSERT INTO public.invoices (
+      location_id, vendor_id, document_number, invoice_date, net_amount, file_name,
+      processing_status, total_items, unique_products, content_hash,
+      document_type, credit_memo_number, credit_memo_date, original_document_number, original_invoice_id
+    )
+    VALUES (
+      p_location_id,
+      p_vendor_id,
+      v_document_number,
+      v_invoice_date,
+      (p_invoice->>'net_amount')::NUMERIC,
+      p_invoice->>'file_name',
+      'COMPLETED',
+      jsonb_array_length(p_items),
+      (SELECT COUNT(DISTINCT item->>'product_number') FROM jsonb_array_elements(p_items) AS item),
+      p_content_hash,
+      v_document_type,
+      v_credit_memo_number,
+      NULLIF(p_invoice->>'credit_memo_date', '')::DATE,
+      v_original_document_number,
+      v_original_invoice_id
+    )
+    RETURNING id INTO v_invoice_id;
+
+    v_status := 'new';
+  ELSE
+    UPDATE public.invoices
+    SET invoice_date = v_invoice_date,
+        net_amount = (p_invoice->>'net_amount')::NUMERIC,
+        file_name = p_invoice->>'file_name',
+        processing_status = 'COMPLETED',
+        total_items = jsonb_array_length(p_items),
+        unique_products = (SELECT COUNT(DISTINCT item->>'product_number') FROM jsonb_array_elements(p_items) AS item),
+        content_hash = p_content_hash,
+        document_type = v_document_type,
+        credit_memo_number = v_credit_memo_number,
+        credit_memo_date = NULLIF(p_invoice->>'credit_memo_date', '')::DATE,
+        original_document_number = v_original_document_number,
+        original_invoice_id = COALESCE(v_original_invoice_id, original_invoice_id),
+        updated_at = NOW()
+    WHERE id = v_invoice_id;
+
+    DELETE FROM public.product_prices WHERE invoice_id = v_invoice_id;
+    DELETE FROM public.invoice_items WHERE invoice_id = v_invoice_id;
+
+    v_status := 'updated';
+  END IF;
+
+  -- Link credit memos imported before the invoice they refund
+  IF v_document_type = 'INVOICE' THEN
+    UPDATE public.invoices
+    SET original_invoice_id = v_invoice_id
+    WHERE location_id = p_location_id
+      AND vendor_id = p_vendor_id
+      AND document_type = 'CREDIT_MEMO'
+      AND original_invoice_id IS NULL
+      AND (original_document_number = v_document_number OR document_number = v_credit_memo_number);
+  END IF;
+
+  INSERT INTO public.products (vendor_id, product_number, name, description, category, brand, base_unit, standard_pack_sizes)
+  SELECT DISTINCT ON (item.product_number)
+    p_vendor_id,
+    item.product_number,
+    item.product_description,
+    item.product_description,
+    item.product_category,
+    NULLIF(item.supplier_label, ''),
+    item.pricing_unit,
+    ARRAY[item.pack_size]
+  FROM jsonb_to_recordset(p_items) AS item(
+    product_number TEXT,
+    product_description TEXT,
+    supplier_label TEXT,
+    pack_size TEXT,
+    pricing_unit TEXT,
+    product_category TEXT
+  )
+  ON CONFLICT (vendor_id, product_number) DO NOTHING;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, product_number, product_description, supplier_label, pack_size, pricing_unit,
+    qty_ordered, qty_shipped, unit_price, extended_price, product_category,
+    weight, base_unit, price_per_base_unit, line_number, raw_data
+  )
+  SELECT
+    v_invoice_id,
+    item.product_number,
+    item.product_description,
+    item.supplier_label,
+    item.pack_size,
+    item.pricing_unit,
+    item.qty_ordered,
+    item.qty_shipped,
+    item.unit_price,
+    item.extended_price,
+    item.product_category,
+    item.weight,
+    item.base_unit,
+    item.price_per_base_unit,
+    item.line_number,
+    item.raw_data
+  FROM jsonb_to_recordset(p_items) AS item(
+    product_number TEXT,
+    product_description TEXT,
+    supplier_label TEXT,
+    pack_size TEXT,
+    pricing_unit TEXT,
+    qty_ordered NUMERIC,
+    qty_shipped NUMERIC,
+    unit_price NUMERIC,
+    extended_price NUMERIC,
+    product_category TEXT,
+    weight NUMERIC,
+    base_unit TEXT,
+    price_per_base_unit NUMERIC,
+    line_number INTEGER,
+    raw_data JSONB
+  );
+
+  -- Returns aren't purchases, so they don't belong in price history
+  IF v_document_type = 'INVOICE' THEN
+    INSERT INTO public.product_prices (
+      product_id, location_id, vendor_id, invoice_id, price_date, unit_price, pack_size,
+      pricing_unit, extended_amount, quantity_purchased
+    )
+    SELECT
+      p.id,
+      p_location_id,
+      p_vendor_id,
+      v_invoice_id,
+      v_invoice_date,
+      item.unit_price,
+      item.pack_size,
+      item.pricing_unit,
+      item.extended_price,
+      item.qty_shipped
+    FROM jsonb_to_recordset(p_items) AS item(
+      product_number TEXT,
+      pack_size TEXT,
+      pricing_unit TEXT,
+      qty_shipped NUMERIC,
+      unit_price NUMERIC,
+      extended_price NUMERIC
+    )
+    JOIN public.products p ON p.product_number = item.product_number AND p.vendor_id = p_vendor_id
+    WHERE item.unit_price > 0
+      AND item.qty_shipped > 0;
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+-- 4. Product summaries only count the product's own vendor's lines
+DROP FUNCTION IF EXISTS public.get_products_summary(TEXT, TEXT, DATE, DATE, TEXT, INTEGER, INTEGER);
+
+CREATE FUNCTION public.get_products_summary(
+  p_category TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  product_number TEXT,
+  vendor_id UUID,
+  name TEXT,
+  category TEXT,
+  last_price NUMERIC,
+  last_purchase_date DATE,
+  purchase_frequency BIGINT,
+  total_spent NUMERIC,
+  pack_sizes TEXT[],
+  locations TEXT[],
+  min_price NUMERIC,
+  max_price NUMERIC,
+  avg_price NUMERIC,
+  price_variance NUMERIC,
+  last_unit_price NUMERIC,
+  base_unit TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH lines AS (
+    SELECT
+      ii.product_number::TEXT AS product_number,
+      i.vendor_id,
+      ii.unit_price::NUMERIC AS unit_price,
+      ii.extended_price::NUMERIC AS extended_price,
+      ii.pack_size::TEXT AS pack_size,
+      ii.price_per_base_unit::NUMERIC AS price_per_base_unit,
+      ii.base_unit::TEXT AS base_unit,
+      i.invoice_date,
+      l.name::TEXT AS location_name,
+      (i.document_type = 'CREDIT_MEMO') AS is_credit
+    FROM public.invoice_items ii
+    JOIN public.invoices i ON i.id = ii.invoice_id
+    LEFT JOIN public.locations l ON l.id = i.location_id
+    WHERE (p_location IS NULL OR l.name = p_location OR l.id::TEXT = p_location)
+      AND (p_date_from IS NULL OR i.invoice_date >= p_date_from)
+      AND (p_date_to IS NULL OR i.invoice_date <= p_date_to)
+  ),
+  summaries AS (
+    SELECT
+      pr.id,
+      pr.product_number::TEXT AS product_number,
+      pr.vendor_id,
+      pr.name::TEXT AS name,
+      pr.category::TEXT AS category,
+      (
+        SELECT latest.unit_price
+        FROM lines latest
+        WHERE latest.product_number = pr.product_number
+          AND latest.vendor_id = pr.vendor_id
+          AND NOT latest.is_credit
+          AND latest.unit_price > 0
+        ORDER BY latest.invoice_date DESC
+        LIMIT 1
+      ) AS last_price,
+      (
+        SELECT latest.price_per_base_unit
+        FROM lines latest
+        WHERE latest.product_number = pr.product_number
+          AND latest.vendor_id = pr.vendor_id
+          AND NOT latest.is_credit
+          AND latest.price_per_base_unit > 0
+        ORDER BY latest.invoice_date DESC
+        LIMIT 1
+      ) AS last_unit_price,
+      (
+        SELECT latest.base_unit
+        FROM lines latest
+        WHERE latest.product_number = pr.product_number
+          AND latest.vendor_id = pr.vendor_id
+          AND NOT latest.is_credit
+          AND latest.price_per_base_unit > 0
+        ORDER BY latest.invoice_date DESC
+        LIMIT 1
+      ) AS base_unit,
+      MAX(li.invoice_date) FILTER (WHERE NOT li.is_credit) AS last_purchase_date,
+      COUNT(*) FILTER (WHERE NOT li.is_credit) AS purchase_frequency,
+      COALESCE(SUM(li.extended_price), 0) AS total_spent,
+      ARRAY_AGG(DISTINCT li.pack_size) FILTER (WHERE li.pack_size IS NOT NULL AND li.pack_size <> '') AS pack_sizes,
+      ARRAY_AGG(DISTINCT li.location_name) FILTER (WHERE li.location_name IS NOT NULL) AS locations,
+      MIN(li.unit_price) FILTER (WHERE NOT li.is_credit AND li.unit_price > 0) AS min_price,
+      MAX(li.unit_price) FILTER (WHERE NOT li.is_credit AND li.unit_price > 0) AS max_price,
+      AVG(li.unit_price) FILTER (WHERE NOT li.is_credit AND li.unit_price > 0) AS avg_price
+    FROM public.products pr
+    JOIN lines li ON li.product_number = pr.product_number AND li.vendor_id = pr.vendor_id
+    WHERE (p_category IS NULL OR pr.category = p_category)
+      AND (p_search IS NULL OR pr.name ILIKE '%' || p_search || '%' OR pr.product_number ILIKE '%' || p_search || '%')
+    GROUP BY pr.id, pr.product_number, pr.vendor_id, pr.name, pr.category
+  )
+  SELECT
+    s.id,
+    s.product_number,
+    s.vendor_id,
+    s.name,
+    s.category,
+    s.last_price,
+    s.last_purchase_date,
+    s.purchase_frequency,
+    s.total_spent,
+    s.pack_sizes,
+    s.locations,
+    s.min_price,
+    s.max_price,
+    s.avg_price,
+    CASE WHEN s.min_price > 0 THEN ROUND((s.max_price - s.min_price) / s.min_price * 100, 2) ELSE 0 END AS price_variance,
+    s.last_unit_price,
+    s.base_unit
+  FROM summaries s
+  ORDER BY s.total_spent DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- 5. Item links name both products with their vendor
+ALTER TABLE public.item_links ADD COLUMN IF NOT EXISTS vendor_id_a UUID REFERENCES public.vendors(id) ON DELETE CASCADE;
+ALTER TABLE public.item_links ADD COLUMN IF NOT EXISTS vendor_id_b UUID REFERENCES public.vendors(id) ON DELETE CASCADE;
+
+UPDATE public.item_links l
+SET vendor_id_a = (SELECT vendor_id FROM public.products WHERE product_number = l.product_number_a ORDER BY created_at LIMIT 1),
+    vendor_id_b = (SELECT vendor_id FROM public.products WHERE product_number = l.product_number_b ORDER BY created_at LIMIT 1)
+WHERE vendor_id_a IS NULL OR vendor_id_b IS NULL;
+
+DELETE FROM public.item_links WHERE vendor_id_a IS NULL OR vendor_id_b IS NULL;
+
+ALTER TABLE public.item_links ALTER COLUMN vendor_id_a SET NOT NULL;
+ALTER TABLE public.item_links ALTER COLUMN vendor_id_b SET NOT NULL;
+ALTER TABLE public.item_links DROP CONSTRAINT IF EXISTS item_links_check;
+ALTER TABLE public.item_links DROP CONSTRAINT IF EXISTS item_links_product_number_a_product_number_b_key;
+ALTER TABLE public.item_links ADD CONSTRAINT item_links_distinct_products
+  CHECK ((vendor_id_a, product_number_a) <> (vendor_id_b, product_number_b));
+
+-- The pair is stored in the order src/lib/item-matching.ts sorts it, so it has one row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_links_pair
+  ON public.item_links(vendor_id_a, product_number_a, vendor_id_b, product_number_b);
+DROP INDEX IF EXISTS public.idx_item_links_product_number_b;
+CREATE INDEX IF NOT EXISTS idx_item_links_product_b ON public.item_links(vendor_id_b, product_number_b);
+
+-- 6. Recipe ingredients name the vendor of their product
+ALTER TABLE public.recipe_ingredients ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES public.vendors(id);
+
+UPDATE public.recipe_ingredients ri
+SET vendor_id = (SELECT vendor_id FROM public.products WHERE product_number = ri.product_number ORDER BY created_at LIMIT 1)
+WHERE ri.product_number IS NOT NULL
+  AND ri.vendor_id IS NULL;
+
+CREATE OR REPLACE FUNCTION public.save_recipe(
+  p_recipe_id UUID,
+  p_recipe JSONB,
+  p_ingredients JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_recipe_id UUID := p_recipe_id;
+BEGIN
+  IF v_recipe_id IS NULL THEN
+    INSERT INTO public.recipes (
+      name, is_menu_item, portions, yield_quantity, yield_unit, menu_price, target_food_cost_percent, notes
+    )
+    VALUES (
+      p_recipe->>'name',
+      COALESCE((p_recipe->>'is_menu_item')::BOOLEAN, TRUE),
+      COALESCE((p_recipe->>'portions')::NUMERIC, 1),
+      (p_recipe->>'yield_quantity')::NUMERIC,
+      NULLIF(p_recipe->>'yield_unit', ''),
+      (p_recipe->>'menu_price')::NUMERIC,
+      (p_recipe->>'target_food_cost_percent')::NUMERIC,
+      NULLIF(p_recipe->>'notes', '')
+    )
+    RETURNING id INTO v_recipe_id;
+  ELSE
+    UPDATE public.recipes
+    SET name = p_recipe->>'name',
+        is_menu_item = COALESCE((p_recipe->>'is_menu_item')::BOOLEAN, TRUE),
+        portions = COALESCE((p_recipe->>'portions')::NUMERIC, 1),
+        yield_quantity = (p_recipe->>'yield_quantity')::NUMERIC,
+        yield_unit = NULLIF(p_recipe->>'yield_unit', ''),
+        menu_price = (p_recipe->>'menu_price')::NUMERIC,
+        target_food_cost_percent = (p_recipe->>'target_food_cost_percent')::NUMERIC,
+        notes = NULLIF(p_recipe->>'notes', ''),
+        updated_at = NOW()
+    WHERE id = v_recipe_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Recipe % not found', v_recipe_id;
+    END IF;
+
+    DELETE FROM public.recipe_ingredients WHERE recipe_id = v_recipe_id;
+  END IF;
+
+  INSERT INTO public.recipe_ingredients (
+    recipe_id, vendor_id, product_number, sub_recipe_id, quantity, unit, yield_percent, sort_order
+  )
+  SELECT
+    v_recipe_id,
+    NULLIF(ingredient.value->>'vendor_id', '')::UUID,
+    NULLIF(ingredient.value->>'product_number', ''),
+    NULLIF(ingredient.value->>'sub_recipe_id', '')::UUID,
+    (ingredient.value->>'quantity')::NUMERIC,
+    ingredient.value->>'unit',
+    COALESCE((ingredient.value->>'yield_percent')::NUMERIC, 100),
+    ingredient.ordinality - 1
+  FROM jsonb_array_elements(p_ingredients) WITH ORDINALITY AS ingredient(value, ordinality);
+
+  RETURN v_recipe_id;
+END;
+$$;
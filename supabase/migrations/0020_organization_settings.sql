@@ -0,0 +1,354 @@
+-- Purchasing settings per organization
+--
+-- Contract prices, alert rules, the category taxonomy with its keyword rules
+-- and overrides, vendor formats, PDF layouts and item links were shared by
+-- every organization, so one restaurant group could read another's contract
+-- prices and overwrite its rules. Each row now belongs to an organization:
+-- the API reads and writes only the signed-in user's, imports use the
+-- settings of the organization that owns the location, and signed-in browsers
+-- read only their own.
+--
+-- Rows that existed before belong to the oldest organization, the one 0012
+-- created for the existing restaurants. Every other organization starts from
+-- the default alert rule and category taxonomy, as new ones do.
+--
+-- Categories are assigned to invoice lines with the organization's taxonomy,
+-- so the products summary reports each product under the category of its
+-- latest line in scope. The catalog's own category is only the fallback.
+
+-- 1. Owning organization
+ALTER TABLE public.contract_prices ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.alert_rules ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.product_categories ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.category_rules ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.product_category_overrides ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.vendor_formats ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.pdf_layouts ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.item_links ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+-- 2. Existing rows go to the oldest organization. Without one there is
+--    nothing but the seeded defaults, which organizations get when created.
+DO $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  SELECT id INTO v_organization_id
+  FROM public.organizations
+  ORDER BY created_at, id
+  LIMIT 1;
+
+  UPDATE public.contract_prices SET organization_id = v_organization_id WHERE organization_id IS NULL;
+  UPDATE public.alert_rules SET organization_id = v_organization_id WHERE organization_id IS NULL;
+  UPDATE public.product_categories SET organization_id = v_organization_id WHERE organization_id IS NULL;
+  UPDATE public.category_rules SET organization_id = v_organization_id WHERE organization_id IS NULL;
+  UPDATE public.product_category_overrides SET organization_id = v_organization_id WHERE organization_id IS NULL;
+  UPDATE public.vendor_formats SET organization_id = v_organization_id WHERE organization_id IS NULL;
+  UPDATE public.pdf_layouts SET organization_id = v_organization_id WHERE organization_id IS NULL;
+  UPDATE public.item_links SET organization_id = v_organization_id WHERE organization_id IS NULL;
+END;
+$$;
+
+DELETE FROM public.contract_prices WHERE organization_id IS NULL;
+DELETE FROM public.alert_rules WHERE organization_id IS NULL;
+DELETE FROM public.product_categories WHERE organization_id IS NULL;
+DELETE FROM public.category_rules WHERE organization_id IS NULL;
+DELETE FROM public.product_category_overrides WHERE organization_id IS NULL;
+DELETE FROM public.vendor_formats WHERE organization_id IS NULL;
+DELETE FROM public.pdf_layouts WHERE organization_id IS NULL;
+DELETE FROM public.item_links WHERE organization_id IS NULL;
+
+ALTER TABLE public.contract_prices ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.alert_rules ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.product_categories ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.category_rules ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.product_category_overrides ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.vendor_formats ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.pdf_layouts ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.item_links ALTER COLUMN organization_id SET NOT NULL;
+
+-- 3. Names, keys and price lists are unique within an organization
+ALTER TABLE public.contract_prices DROP CONSTRAINT IF EXISTS contract_prices_vendor_id_product_number_pack_size_effectiv_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_prices_organization_key
+  ON public.contract_prices(organization_id, vendor_id, product_number, pack_size, effective_from);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_organization_id ON public.alert_rules(organization_id);
+
+DROP INDEX IF EXISTS public.idx_product_categories_name;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_categories_name
+  ON public.product_categories(organization_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::UUID), name);
+
+DROP INDEX IF EXISTS public.idx_category_rules_priority;
+CREATE INDEX IF NOT EXISTS idx_category_rules_priority ON public.category_rules(organization_id, priority);
+
+ALTER TABLE public.product_category_overrides DROP CONSTRAINT IF EXISTS product_category_overrides_pkey;
+ALTER TABLE public.product_category_overrides ADD PRIMARY KEY (organization_id, product_number);
+
+DROP INDEX IF EXISTS public.idx_vendor_formats_name;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_formats_name ON public.vendor_formats(organization_id, LOWER(name));
+
+DROP INDEX IF EXISTS public.idx_pdf_layouts_name;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pdf_layouts_name ON public.pdf_layouts(organization_id, LOWER(name));
+
+DROP INDEX IF EXISTS public.idx_item_links_pair;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_links_pair
+  ON public.item_links(organization_id, vendor_id_a, product_number_a, vendor_id_b, product_number_b);
+
+-- 4. The default alert rule and category taxonomy (see 0006 and 0009) for an
+--    organization that has none yet
+CREATE OR REPLACE FUNCTION public.seed_organization_settings(p_organization_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.alert_rules (organization_id, name, change_type, threshold, critical_threshold, baseline, direction)
+  SELECT p_organization_id, 'Default', 'percent', 20, 30, 'last_price', 'both'
+  WHERE NOT EXISTS (SELECT 1 FROM public.alert_rules WHERE organization_id = p_organization_id);
+
+  IF NOT EXISTS (SELECT 1 FROM public.product_categories WHERE organization_id = p_organization_id) THEN
+    INSERT INTO public.product_categories (organization_id, name, sort_order)
+    SELECT p_organization_id, name, sort_order
+    FROM (VALUES
+      ('Produce', 1), ('Protein', 2), ('Dairy', 3), ('Frozen', 4),
+      ('Beverages', 5), ('Dry Goods', 6), ('Supplies', 7)
+    ) AS seed(name, sort_order);
+
+    INSERT INTO public.product_categories (organization_id, name, parent_id, sort_order)
+    SELECT p_organization_id, seed.name, parent.id, seed.sort_order
+    FROM (VALUES
+      ('Produce', 'Vegetables', 1), ('Produce', 'Fruit', 2),
+      ('Protein', 'Beef', 1), ('Protein', 'Poultry', 2), ('Protein', 'Seafood', 3),
+      ('Dairy', 'Cheese', 1), ('Dairy', 'Milk & Cream', 2),
+      ('Frozen', 'Desserts', 1),
+      ('Beverages', 'Soft Drinks', 1), ('Beverages', 'Juice', 2), ('Beverages', 'Water', 3),
+      ('Supplies', 'Disposables', 1)
+    ) AS seed(parent_name, name, sort_order)
+    JOIN public.product_categories parent
+      ON parent.organization_id = p_organization_id
+     AND parent.name = seed.parent_name
+     AND parent.parent_id IS NULL;
+  END IF;
+
+  INSERT INTO public.category_rules (organization_id, priority, keywords, category, subcategory)
+  SELECT p_organization_id, priority, keywords, category, subcategory
+  FROM (VALUES
+    (10, 'ice cream, gelato, sorbet', 'Frozen', 'Desserts'),
+    (20, 'soda, cola', 'Beverages', 'Soft Drinks'),
+    (30, 'juice', 'Beverages', 'Juice'),
+    (40, 'water', 'Beverages', 'Water'),
+    (50, 'beverage, drink', 'Beverages', NULL),
+    (60, 'cheese', 'Dairy', 'Cheese'),
+    (70, 'sour cream, milk, cream', 'Dairy', 'Milk & Cream'),
+    (80, 'dairy', 'Dairy', NULL),
+    (90, 'beef', 'Protein', 'Beef'),
+    (100, 'chicken', 'Protein', 'Poultry'),
+    (110, 'fish, tilapia', 'Protein', 'Seafood'),
+    (120, 'protein, meat', 'Protein', NULL),
+    (130, 'tomato, lettuce, onion, pepper, tomatillo', 'Produce', 'Vegetables'),
+    (140, 'orange', 'Produce', 'Fruit'),
+    (150, 'fresh, produce', 'Produce', NULL),
+    (160, 'bag, container, wrap, cup', 'Supplies', 'Disposables'),
+    (170, 'supplies', 'Supplies', NULL)
+  ) AS seed(priority, keywords, category, subcategory)
+  WHERE NOT EXISTS (SELECT 1 FROM public.category_rules WHERE organization_id = p_organization_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_organization_settings(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Organizations other than the oldest never had settings of their own
+SELECT public.seed_organization_settings(o.id)
+FROM public.organizations o
+WHERE o.id <> (SELECT id FROM public.organizations ORDER BY created_at, id LIMIT 1);
+
+-- 5. New organizations start from the defaults
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT, p_user_id UUID, p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF NULLIF(TRIM(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Organization name is required';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.organization_members WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'You already belong to an organization';
+  END IF;
+
+  INSERT INTO public.organizations (name) VALUES (TRIM(p_name))
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO public.restaurants (name, owner_id, organization_id)
+  VALUES (TRIM(p_name), p_user_id, v_organization_id);
+
+  INSERT INTO public.organization_members (organization_id, user_id, role, email)
+  VALUES (v_organization_id, p_user_id, 'owner', p_email);
+
+  PERFORM public.seed_organization_settings(v_organization_id);
+
+  RETURN v_organization_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_organization(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 6. Signed-in browsers read only their organization's rules and categories;
+--    the other settings tables are read through the API
+DROP POLICY IF EXISTS "Allow authenticated read access to alert_rules" ON public.alert_rules;
+DROP POLICY IF EXISTS "Allow members read access to alert_rules" ON public.alert_rules;
+CREATE POLICY "Allow members read access to alert_rules" ON public.alert_rules
+FOR SELECT TO authenticated
+USING (organization_id = public.current_user_organization_id());
+
+DROP POLICY IF EXISTS "Allow authenticated read access to product_categories" ON public.product_categories;
+DROP POLICY IF EXISTS "Allow members read access to product_categories" ON public.product_categories;
+CREATE POLICY "Allow members read access to product_categories" ON public.product_categories
+FOR SELECT TO authenticated
+USING (organization_id = public.current_user_organization_id());
+
+-- 7. Products summary: a product's category is the one the organization's
+--    taxonomy gave its latest line (a copy of 0019's otherwise)
+DROP FUNCTION IF EXISTS public.get_products_summary(TEXT, TEXT, DATE, DATE, TEXT, INTEGER, INTEGER);
+
+CREATE FUNCTION public.get_products_summary(
+  p_category TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  product_number TEXT,
+  vendor_id UUID,
+  name TEXT,
+  category TEXT,
+  last_price NUMERIC,
+  last_purchase_date DATE,
+  purchase_frequency BIGINT,
+  total_spent NUMERIC,
+  pack_sizes TEXT[],
+  locations TEXT[],
+  min_price NUMERIC,
+  max_price NUMERIC,
+  avg_price NUMERIC,
+  price_variance NUMERIC,
+  last_unit_price NUMERIC,
+  base_unit TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH lines AS (
+    SELECT
+      ii.product_number::TEXT AS product_number,
+      i.vendor_id,
+      ii.product_category::TEXT AS category,
+      ii.unit_price::NUMERIC AS unit_price,
+      ii.extended_price::NUMERIC AS extended_price,
+      ii.pack_size::TEXT AS pack_size,
+      ii.price_per_base_unit::NUMERIC AS price_per_base_unit,
+      ii.base_unit::TEXT AS base_unit,
+      i.invoice_date,
+      l.name::TEXT AS location_name,
+      (i.document_type = 'CREDIT_MEMO') AS is_credit
+    FROM public.invoice_items ii
+    JOIN public.invoices i ON i.id = ii.invoice_id
+    LEFT JOIN public.locations l ON l.id = i.location_id
+    WHERE (p_location IS NULL OR l.name = p_location OR l.id::TEXT = p_location)
+      AND (p_date_from IS NULL OR i.invoice_date >= p_date_from)
+      AND (p_date_to IS NULL OR i.invoice_date <= p_date_to)
+  ),
+  summaries AS (
+    SELECT
+      pr.id,
+      pr.product_number::TEXT AS product_number,
+      pr.vendor_id,
+      pr.name::TEXT AS name,
+      COALESCE((
+        SELECT latest.category
+        FROM lines latest
+        WHERE latest.product_number = pr.product_number
+          AND latest.vendor_id = pr.vendor_id
+          AND latest.category IS NOT NULL
+        ORDER BY latest.invoice_date DESC
+        LIMIT 1
+      ), pr.category::TEXT) AS category,
+      (
+        SELECT latest.unit_price
+        FROM lines latest
+        WHERE latest.product_number = pr.product_number
+          AND latest.vendor_id = pr.vendor_id
+          AND NOT latest.is_credit
+          AND latest.unit_price > 0
+        ORDER BY latest.invoice_date DESC
+        LIMIT 1
+      ) AS last_price,
+      (
+        SELECT latest.price_per_base_unit
+        FROM lines latest
+        WHERE latest.product_number = pr.product_number
+          AND latest.vendor_id = pr.vendor_id
+          AND NOT latest.is_credit
+          AND latest.price_per_base_unit > 0
+        ORDER BY latest.invoice_date DESC
+        LIMIT 1
+      ) AS last_unit_price,
+      (
+        SELECT latest.base_unit
+        FROM lines latest
+        WHERE latest.product_number = pr.product_number
+          AND latest.vendor_id = pr.vendor_id
+          AND NOT latest.is_credit
+          AND latest.price_per_base_unit > 0
+        ORDER BY latest.invoice_date DESC
+        LIMIT 1
+      ) AS base_unit,
+      MAX(li.invoice_date) FILTER (WHERE NOT li.is_credit) AS last_purchase_date,
+      COUNT(*) FILTER (WHERE NOT li.is_credit) AS purchase_frequency,
+      COALESCE(SUM(li.extended_price), 0) AS total_spent,
+      ARRAY_AGG(DISTINCT li.pack_size) FILTER (WHERE li.pack_size IS NOT NULL AND li.pack_size <> '') AS pack_sizes,
+      ARRAY_AGG(DISTINCT li.location_name) FILTER (WHERE li.location_name IS NOT NULL) AS locations,
+      MIN(li.unit_price) FILTER (WHERE NOT li.is_credit AND li.unit_price > 0) AS min_price,
+      MAX(li.unit_price) FILTER (WHERE NOT li.is_credit AND li.unit_price > 0) AS max_price,
+      AVG(li.unit_price) FILTER (WHERE NOT li.is_credit AND li.unit_price > 0) AS avg_price
+    FROM public.products pr
+    JOIN lines li ON li.product_number = pr.product_number AND li.vendor_id = pr.vendor_id
+    WHERE (p_search IS NULL OR pr.name ILIKE '%' || p_search || '%' OR pr.product_number ILIKE '%' || p_search || '%')
+    GROUP BY pr.id, pr.product_number, pr.vendor_id, pr.name, pr.category
+  )
+  SELECT
+    s.id,
+    s.product_number,
+    s.vendor_id,
+    s.name,
+    s.category,
+    s.last_price,
+    s.last_purchase_date,
+    s.purchase_frequency,
+    s.total_spent,
+    s.pack_sizes,
+    s.locations,
+    s.min_price,
+    s.max_price,
+    s.avg_price,
+    CASE WHEN s.min_price > 0 THEN ROUND((s.max_price - s.min_price) / s.min_price * 100, 2) ELSE 0 END AS price_variance,
+    s.last_unit_price,
+    s.base_unit
+  FROM summaries s
+  WHERE p_category IS NULL OR s.category = p_category
+  ORDER BY s.total_spent DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- Recreating the function reset its privileges; only signed-in users and the
+-- service role call it, as 0012 set up
+REVOKE EXECUTE ON FUNCTION public.get_products_summary(TEXT, TEXT, DATE, DATE, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_products_summary(TEXT, TEXT, DATE, DATE, TEXT, INTEGER, INTEGER) TO authenticated, service_role;
@@ -0,0 +1,110 @@
+-- Recipes per organization
+--
+-- Recipes were shared by every organization, and their ingredients were
+-- costed from every organization's invoices. Each recipe now belongs to one
+-- organization: names are unique within it, sub-recipes come from it, and
+-- src/lib/recipes.ts costs ingredients from the invoices of its locations.
+-- Existing recipes go to the oldest organization, like the settings in 0020.
+-- Plate cost alerts belong to their recipe's organization through the recipe.
+
+-- 1. Recipes belong to an organization
+ALTER TABLE public.recipes ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+UPDATE public.recipes
+SET organization_id = (SELECT id FROM public.organizations ORDER BY created_at, id LIMIT 1)
+WHERE organization_id IS NULL;
+
+-- Without an organization there's nobody to own them
+DELETE FROM public.recipes WHERE organization_id IS NULL;
+
+ALTER TABLE public.recipes ALTER COLUMN organization_id SET NOT NULL;
+
+DROP INDEX IF EXISTS public.idx_recipes_name;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recipes_organization_name ON public.recipes(organization_id, LOWER(name));
+
+-- 2. Save a recipe within its organization
+DROP FUNCTION IF EXISTS public.save_recipe(UUID, JSONB, JSONB);
+
+-- p_recipe_id is null for a new recipe; returns the recipe's id
+CREATE OR REPLACE FUNCTION public.save_recipe(
+  p_organization_id UUID,
+  p_recipe_id UUID,
+  p_recipe JSONB,
+  p_ingredients JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_recipe_id UUID := p_recipe_id;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_ingredients) AS ingredient(value)
+    WHERE NULLIF(ingredient.value->>'sub_recipe_id', '') IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.recipes r
+        WHERE r.id = (ingredient.value->>'sub_recipe_id')::UUID
+          AND r.organization_id = p_organization_id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Sub-recipe not found';
+  END IF;
+
+  IF v_recipe_id IS NULL THEN
+    INSERT INTO public.recipes (
+      organization_id, name, is_menu_item, portions, yield_quantity, yield_unit, menu_price, target_food_cost_percent, notes
+    )
+    VALUES (
+      p_organization_id,
+      p_recipe->>'name',
+      COALESCE((p_recipe->>'is_menu_item')::BOOLEAN, TRUE),
+      COALESCE((p_recipe->>'portions')::NUMERIC, 1),
+      (p_recipe->>'yield_quantity')::NUMERIC,
+      NULLIF(p_recipe->>'yield_unit', ''),
+      (p_recipe->>'menu_price')::NUMERIC,
+      (p_recipe->>'target_food_cost_percent')::NUMERIC,
+      NULLIF(p_recipe->>'notes', '')
+    )
+    RETURNING id INTO v_recipe_id;
+  ELSE
+    UPDATE public.recipes
+    SET name = p_recipe->>'name',
+        is_menu_item = COALESCE((p_recipe->>'is_menu_item')::BOOLEAN, TRUE),
+        portions = COALESCE((p_recipe->>'portions')::NUMERIC, 1),
+        yield_quantity = (p_recipe->>'yield_quantity')::NUMERIC,
+        yield_unit = NULLIF(p_recipe->>'yield_unit', ''),
+        menu_price = (p_recipe->>'menu_price')::NUMERIC,
+        target_food_cost_percent = (p_recipe->>'target_food_cost_percent')::NUMERIC,
+        notes = NULLIF(p_recipe->>'notes', ''),
+        updated_at = NOW()
+    WHERE id = v_recipe_id
+      AND organization_id = p_organization_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Recipe % not found', v_recipe_id;
+    END IF;
+
+    DELETE FROM public.recipe_ingredients WHERE recipe_id = v_recipe_id;
+  END IF;
+
+  INSERT INTO public.recipe_ingredients (
+    recipe_id, vendor_id, product_number, sub_recipe_id, quantity, unit, yield_percent, sort_order
+  )
+  SELECT
+    v_recipe_id,
+    NULLIF(ingredient.value->>'vendor_id', '')::UUID,
+    NULLIF(ingredient.value->>'product_number', ''),
+    NULLIF(ingredient.value->>'sub_recipe_id', '')::UUID,
+    (ingredient.value->>'quantity')::NUMERIC,
+    ingredient.value->>'unit',
+    COALESCE((ingredient.value->>'yield_percent')::NUMERIC, 100),
+    ingredient.ordinality - 1
+  FROM jsonb_array_elements(p_ingredients) WITH ORDINALITY AS ingredient(value, ordinality);
+
+  RETURN v_recipe_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_recipe(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_recipe(UUID, UUID, JSONB, JSONB) TO service_role;
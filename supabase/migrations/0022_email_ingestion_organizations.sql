@@ -0,0 +1,38 @@
+-- Email ingestion log per organization
+--
+-- A mailbox belongs to one organization (scripts/ingest-email.ts
+-- --organization). The log was scoped only by the locations a message's
+-- invoices were routed to, so a message routed nowhere showed up for every
+-- organization. Each row now records the organization whose mailbox it came
+-- from, and the log is read by it.
+
+-- 1. Log rows belong to an organization
+ALTER TABLE public.email_ingestion_log ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+-- From the locations the message was routed to, else the oldest organization
+UPDATE public.email_ingestion_log log
+SET organization_id = COALESCE(
+  (
+    SELECT r.organization_id
+    FROM public.locations l
+    JOIN public.restaurants r ON r.id = l.restaurant_id
+    WHERE l.id = ANY(log.location_ids)
+      AND r.organization_id IS NOT NULL
+    LIMIT 1
+  ),
+  (SELECT id FROM public.organizations ORDER BY created_at, id LIMIT 1)
+)
+WHERE log.organization_id IS NULL;
+
+DELETE FROM public.email_ingestion_log WHERE organization_id IS NULL;
+
+ALTER TABLE public.email_ingestion_log ALTER COLUMN organization_id SET NOT NULL;
+
+-- 2. A message forwarded to two organizations' mailboxes is imported by each
+ALTER TABLE public.email_ingestion_log DROP CONSTRAINT IF EXISTS email_ingestion_log_message_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_ingestion_log_organization_message
+  ON public.email_ingestion_log(organization_id, message_id);
+
+DROP INDEX IF EXISTS public.idx_email_ingestion_log_processed_at;
+CREATE INDEX IF NOT EXISTS idx_email_ingestion_log_organization_processed_at
+  ON public.email_ingestion_log(organization_id, processed_at DESC);
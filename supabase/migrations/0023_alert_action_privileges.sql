@@ -0,0 +1,10 @@
+-- Alert workflow actions through the service role only
+--
+-- apply_price_alert_action (0005) is SECURITY DEFINER, so whoever may execute
+-- it bypasses RLS on price_alerts. 0005 granted it to the service role but
+-- left the default EXECUTE for PUBLIC in place, letting the anon key change
+-- and read any alert. Workflow actions go through /api/alerts/:id,
+-- which checks access first.
+
+REVOKE EXECUTE ON FUNCTION public.apply_price_alert_action(UUID, TEXT, TEXT, TEXT, DATE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_price_alert_action(UUID, TEXT, TEXT, TEXT, DATE, TEXT, TEXT) TO service_role;
@@ -0,0 +1,27 @@
+-- Vendor customer numbers per organization
+--
+-- A customer number routes one organization's invoices, and another
+-- organization can be billed under the same number by the same vendor. The
+-- uniqueness from 0018 was global, so the first organization to add a number
+-- kept everyone else from adding it. Each account now records its location's
+-- organization and numbers are unique within it.
+
+-- 1. Accounts belong to their location's organization
+ALTER TABLE public.vendor_accounts ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+UPDATE public.vendor_accounts va
+SET organization_id = r.organization_id
+FROM public.locations l
+JOIN public.restaurants r ON r.id = l.restaurant_id
+WHERE l.id = va.location_id
+  AND va.organization_id IS NULL;
+
+-- Locations outside any organization can't be routed to
+DELETE FROM public.vendor_accounts WHERE organization_id IS NULL;
+
+ALTER TABLE public.vendor_accounts ALTER COLUMN organization_id SET NOT NULL;
+
+-- 2. A number routes to one location within an organization
+DROP INDEX IF EXISTS public.idx_vendor_accounts_number;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_accounts_organization_number
+  ON public.vendor_accounts(organization_id, COALESCE(vendor_id, '00000000-0000-0000-0000-000000000000'::uuid), customer_number);
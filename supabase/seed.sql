@@ -0,0 +1,26 @@
+-- Starting data for a fresh database
+--
+-- The Los Pinos organization and restaurant, its two locations and the
+-- distributors with built-in invoice formats, US Foods and Sysco (see
+-- getLocationId and getVendorId in src/lib/data-importer.ts). Users join the
+-- organization by invite.
+-- Applied by `supabase db reset` and by `npm run db:migrate -- --seed`; safe to
+-- run more than once.
+
+INSERT INTO public.organizations (id, name)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Los Pinos')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.restaurants (id, name, organization_id)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Los Pinos', '00000000-0000-0000-0000-000000000001')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.locations (restaurant_id, name, address_line1, city, state, postal_code, phone)
+VALUES
+  ('00000000-0000-0000-0000-000000000001', 'Bee Caves', '11715 BEE CAVES RD', 'BEE CAVE', 'TX', '78738-5011', '5125894228'),
+  ('00000000-0000-0000-0000-000000000001', '360', NULL, 'AUSTIN', 'TX', NULL, NULL)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.vendors (vendor_code, name)
+VALUES ('USFOODS', 'US Foods'), ('SYSCO', 'Sysco')
+ON CONFLICT (vendor_code) DO NOTHING;